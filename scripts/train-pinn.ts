@@ -1,35 +1,49 @@
 /**
  * PINN Offline Training Script
- * 
+ *
  * This script trains the PINN model on synthetic data and saves the weights/model
- * to the public directory for browser inference.
+ * to the public directory for browser inference, with the registry manifest
+ * (version, normalization, dataset hash, validation metrics) the loader verifies.
+ *
+ * Usage: npx tsx scripts/train-pinn.ts [version]
  */
 
 import * as tf from '@tensorflow/tfjs';
-// Import tfjs-node to register file:// IO handler, but we'll force CPU backend for stability
-import '@tensorflow/tfjs-node';
-import { createPINNModel } from '../src/ml/pinnModel.js';
-import { generateTrainingData, splitDataset } from '../src/ml/syntheticData.js';
+import { getModel } from '../src/ml/pinnModel.js';
+import { trainModel } from '../src/ml/pinnTrainer.js';
+import { buildManifest } from '../src/ml/pinnRegistry.js';
+import { generateTrainingData } from '../src/ml/syntheticData.js';
+import { mkdir, writeFile } from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { normalize, normalizeOutput } from '../src/ml/pinnConstants.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const BATCH_SIZE = 128;
-const EPOCHS = 5;
-const LEARNING_RATE = 0.001;
-const MODEL_SAVE_PATH = `file://${path.join(__dirname, '../public/models/pinn_runoff')}`;
+const EPOCHS = 40;
+const LEARNING_RATE = 0.002;
+const MODEL_DIR = path.join(__dirname, '../public/models/pinn_runoff');
+const MODEL_VERSION = process.argv[2] ?? '1.0.0';
 
-function normalizeInputRow(inputs: number[]): number[] {
-    return [
-        normalize(inputs[0], 'x'),
-        normalize(inputs[1], 't'),
-        normalize(inputs[2], 'rainfall'),
-        normalize(inputs[3], 'slope'),
-        normalize(inputs[4], 'manningN'),
-    ];
+/**
+ * Write model.json and weights.bin the way tf.io's browser loader expects
+ * them, without the native file:// handler of tfjs-node
+ */
+function fileSaveHandler(directory: string): tf.io.IOHandler {
+    return tf.io.withSaveHandler(async artifacts => {
+        await mkdir(directory, { recursive: true });
+        const modelJson = {
+            modelTopology: artifacts.modelTopology,
+            weightsManifest: [{ paths: ['weights.bin'], weights: artifacts.weightSpecs }],
+            format: artifacts.format,
+            generatedBy: artifacts.generatedBy,
+            convertedBy: artifacts.convertedBy ?? null,
+        };
+        await writeFile(path.join(directory, 'model.json'), JSON.stringify(modelJson));
+        await writeFile(path.join(directory, 'weights.bin'), Buffer.from(artifacts.weightData as ArrayBuffer));
+        return { modelArtifactsInfo: tf.io.getModelArtifactsInfoForJSON(artifacts) };
+    });
 }
 
 async function train() {
@@ -37,28 +51,20 @@ async function train() {
     await tf.setBackend('cpu');
     console.log(`Using backend: ${tf.getBackend()}`);
 
-    const model = await createPINNModel();
-    model.compile({ optimizer: tf.train.adam(LEARNING_RATE), loss: 'meanSquaredError', metrics: ['mse'] });
-
     console.log('Generating training data...');
-    const dataset = generateTrainingData();
-    const { train: trainingSet, val } = splitDataset(dataset.samples, 0.9);
+    const { samples } = generateTrainingData();
 
-    const trainInputs = tf.tensor2d(trainingSet.map(s => normalizeInputRow(s.inputs)));
-    const trainLabels = tf.tensor2d(trainingSet.map(s => [normalizeOutput(s.output)]));
-
-    const valInputs = tf.tensor2d(val.map(s => normalizeInputRow(s.inputs)));
-    const valLabels = tf.tensor2d(val.map(s => [normalizeOutput(s.output)]));
-
-    console.log(`Training on ${trainingSet.length} samples...`);
-
-    await model.fit(trainInputs, trainLabels, {
-        batchSize: BATCH_SIZE, epochs: EPOCHS, validationData: [valInputs, valLabels], shuffle: true,
-        callbacks: { onEpochEnd: (e, l) => { if (e % 10 === 0) console.log(`E ${e}: loss=${l?.loss.toFixed(4)}`); } }
-    });
+    const history = await trainModel(
+        s => console.log(`E ${s.epoch}: loss=${s.loss.toFixed(4)} val=${s.valLoss.toFixed(4)} pde=${s.physicsLoss.toFixed(4)}`),
+        { epochs: EPOCHS, batchSize: BATCH_SIZE, learningRate: LEARNING_RATE, samples }
+    );
+    const { valLoss, physicsLoss, initialLoss, boundaryLoss } = history[history.length - 1];
 
-    console.log(`Saving model to ${MODEL_SAVE_PATH}...`);
-    await model.save(MODEL_SAVE_PATH);
+    console.log(`Saving model ${MODEL_VERSION} to ${MODEL_DIR}...`);
+    const model = await getModel();
+    await model.save(fileSaveHandler(MODEL_DIR));
+    const manifest = buildManifest(MODEL_VERSION, samples, { valLoss, physicsLoss, initialLoss, boundaryLoss });
+    await writeFile(path.join(MODEL_DIR, 'manifest.json'), JSON.stringify(manifest, null, 2));
     console.log('--- PINN Training Complete ---');
 }
 
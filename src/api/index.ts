@@ -21,6 +21,7 @@ import { spatialCoverageRoutes } from './routes/spatial-coverage';
 import { geoRegulatoryRoutes } from './routes/geo-regulatory';
 import { grantGeneratorRoutes } from './routes/grant-generator';
 import { envCalculatorRoutes } from './routes/env-calculator';
+import { pinnRoutes } from './routes/pinn';
 import { healthRoutes } from './routes/health';
 
 // Create main app
@@ -38,6 +39,7 @@ app.route('/api/spatial-coverage', spatialCoverageRoutes);
 app.route('/api/geo-regulatory', geoRegulatoryRoutes);
 app.route('/api/grant-generator', grantGeneratorRoutes);
 app.route('/api/env-calculator', envCalculatorRoutes);
+app.route('/api/pinn', pinnRoutes);
 
 // OpenAPI documentation
 app.doc('/openapi.json', {
@@ -64,7 +66,8 @@ app.get('/', (c) => {
             '/api/spatial-coverage',
             '/api/geo-regulatory',
             '/api/grant-generator',
-            '/api/env-calculator'
+            '/api/env-calculator',
+            '/api/pinn'
         ],
         docs: '/api/docs'
     });
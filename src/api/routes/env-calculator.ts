@@ -2,9 +2,12 @@ import { OpenAPIHono, createRoute } from '@hono/zod-openapi';
 import { z } from 'zod';
 import {
     createPollutantService,
+    createEventLoadService,
     POLLUTANTS,
-    BMP_REMOVAL_RATES
+    BMP_REMOVAL_RATES,
+    LAND_USES
 } from '../../lib/env-calculator';
+import { BMP_TYPES } from '../../lib/bmp-catalog';
 
 export const envCalculatorRoutes = new OpenAPIHono();
 
@@ -18,6 +21,15 @@ function getPollutantService() {
     return pollutantService;
 }
 
+let eventLoadService: ReturnType<typeof createEventLoadService> | null = null;
+
+function getEventLoadService() {
+    if (!eventLoadService) {
+        eventLoadService = createEventLoadService();
+    }
+    return eventLoadService;
+}
+
 // --- SCHEMAS ---
 
 const PollutantSchema = z.object({
@@ -34,7 +46,7 @@ const PollutantLoadResultSchema = z.object({
     source: z.string()
 }).openapi('PollutantLoadResult');
 
-const BMPTypeSchema = z.enum(['rain_garden', 'permeable_pavement', 'bioswale', 'green_roof', 'tree_planter']).openapi('BMPType');
+const BMPTypeSchema = z.enum(BMP_TYPES).openapi('BMPType');
 
 const BMPSpecSchema = z.object({
     type: BMPTypeSchema,
@@ -58,6 +70,35 @@ const RetrofitInputSchema = BaselineInputSchema.extend({
     bmps: z.array(BMPSpecSchema)
 }).openapi('RetrofitInput');
 
+const EventLoadInputSchema = z.object({
+    area_m2: z.number().positive(),
+    imperviousPercent: z.number().min(0).max(100),
+    rainfall_mm: z.number().min(0).openapi({ example: 25 }),
+    landUse: z.enum(LAND_USES).openapi({ example: 'commercial' }),
+    runoffCoefficient: z.number().min(0).max(1).optional(),
+    wqv_L: z.number().min(0).optional(),
+    firstFlushExponent: z.number().positive().optional()
+}).openapi('EventLoadInput');
+
+const PollutantEventLoadSchema = z.object({
+    emc_mg_L: z.number(),
+    mass_kg: z.number(),
+    firstFlushMassFraction: z.number(),
+    captured_kg: z.number(),
+    bypassed_kg: z.number()
+}).openapi('PollutantEventLoad');
+
+const EventLoadResultSchema = z.object({
+    runoffCoefficient: z.number(),
+    runoffVolume_L: z.number(),
+    capturedVolume_L: z.number(),
+    loads: z.object({
+        phosphorus: PollutantEventLoadSchema,
+        nitrogen: PollutantEventLoadSchema,
+        sediment: PollutantEventLoadSchema
+    })
+}).openapi('EventLoadResult');
+
 // --- ROUTES ---
 
 // 1. GET /pollutants
@@ -196,7 +237,30 @@ envCalculatorRoutes.openapi(calculateRetrofitRoute, (c) => {
     });
 });
 
-// 6. POST /calculate/slaf-summary
+// 6. POST /calculate/event-load
+const calculateEventLoadRoute = createRoute({
+    method: 'post',
+    path: '/calculate/event-load',
+    request: {
+        body: { content: { 'application/json': { schema: EventLoadInputSchema } } }
+    },
+    responses: {
+        200: {
+            content: { 'application/json': { schema: z.object({ input: EventLoadInputSchema, result: EventLoadResultSchema }) } },
+            description: 'Calculate event pollutant loads from EMCs, first flush and WQv capture'
+        }
+    },
+    tags: ['Environmental Calculator']
+});
+
+envCalculatorRoutes.openapi(calculateEventLoadRoute, (c) => {
+    const input = c.req.valid('json');
+    const service = getEventLoadService();
+    const result = service.calculateEventLoad(input);
+    return c.json({ input, result });
+});
+
+// 7. POST /calculate/slaf-summary
 const slafSummaryRoute = createRoute({
     method: 'post',
     path: '/calculate/slaf-summary',
@@ -43,7 +43,12 @@ const ProfileSchema = z.object({
     parameters: z.object({
         designDepth_mm: z.number(),
         designIntensity_mm_hr: z.number(),
-        units: z.string()
+        units: z.string(),
+        climateUplift: z.object({
+            region: z.string(),
+            source: z.string().optional(),
+            factors: z.record(z.string(), z.array(z.object({ returnPeriod_yr: z.number(), factor: z.number() })).readonly())
+        }).optional()
     })
 }).openapi('Profile');
 
@@ -105,7 +110,8 @@ geoRegulatoryRoutes.openapi(profilesRoute, (c) => {
         parameters: {
             designDepth_mm: p.parameters.designDepth_mm,
             designIntensity_mm_hr: p.parameters.designIntensity_mm_hr,
-            units: p.parameters.units
+            units: p.parameters.units,
+            climateUplift: p.parameters.climateUplift
         }
     }));
     return c.json({ count: profiles.length, profiles });
@@ -144,7 +150,8 @@ geoRegulatoryRoutes.openapi(profileByCodeRoute, (c) => {
         parameters: {
             designDepth_mm: p.parameters.designDepth_mm,
             designIntensity_mm_hr: p.parameters.designIntensity_mm_hr,
-            units: p.parameters.units
+            units: p.parameters.units,
+            climateUplift: p.parameters.climateUplift
         }
     });
 });
@@ -6,6 +6,7 @@ import {
     type GrantProgramId,
     type ProjectData
 } from '../../lib/grant-generator';
+import { BMP_TYPES } from '../../lib/bmp-catalog';
 
 export const grantGeneratorRoutes = new OpenAPIHono();
 
@@ -19,6 +20,21 @@ function getComplianceService() {
 
 // --- SCHEMAS ---
 
+const InfiltrationFacilityDesignSchema = z.object({
+    facility: z.enum(['mulde', 'rigole', 'mulden_rigole']),
+    connectedArea_m2: z.number(),
+    kf_m_s: z.number(),
+    returnPeriod_yr: z.number(),
+    criticalDuration_min: z.number(),
+    surfaceArea_m2: z.number(),
+    storageVolume_m3: z.number(),
+    emptyingTime_hr: z.number(),
+    trenchLength_m: z.number().nullable(),
+    kfPermissible: z.boolean(),
+    emptyingTimeOk: z.boolean(),
+    compliant: z.boolean()
+}).openapi('InfiltrationFacilityDesign');
+
 const ProjectDataSchema = z.object({
     jurisdictionCode: z.string(),
     jurisdictionChain: z.array(z.string()),
@@ -33,9 +49,10 @@ const ProjectDataSchema = z.object({
     nitrogenRemoval_lb_yr: z.number().optional(),
     infiltrationRate_mm_hr: z.number().optional(),
     bmps: z.array(z.object({
-        type: z.enum(['rain_garden', 'permeable_pavement', 'bioswale', 'green_roof', 'tree_planter']),
+        type: z.enum(BMP_TYPES),
         area_m2: z.number().positive()
-    })).default([])
+    })).default([]),
+    dwaA138: InfiltrationFacilityDesignSchema.optional()
 }).openapi('ProjectData');
 
 const ProgramSchema = z.object({
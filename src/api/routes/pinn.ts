@@ -0,0 +1,141 @@
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi';
+import { z } from 'zod';
+import path from 'path';
+import { predictHydrograph } from '../../ml/pinnInference';
+import { loadRegisteredModelFromFiles } from '../../ml/pinnModelFiles';
+import type { RegisteredModel } from '../../ml/pinnRegistry';
+
+export const pinnRoutes = new OpenAPIHono();
+
+/** Directory of the published model; the one the web app serves by default */
+const MODEL_DIR = process.env.PINN_MODEL_DIR || path.resolve('public/models/pinn_runoff');
+
+// Lazy-loaded model; a failed load is retried on the next request
+let registeredModel: Promise<RegisteredModel> | null = null;
+
+function getRegisteredModel(): Promise<RegisteredModel> {
+    if (!registeredModel) {
+        registeredModel = loadRegisteredModelFromFiles(MODEL_DIR).catch((error: Error) => {
+            registeredModel = null;
+            throw new Error(`PINN model unavailable (set PINN_MODEL_DIR to the published model directory): ${error.message}`);
+        });
+    }
+    return registeredModel;
+}
+
+// --- SCHEMAS ---
+
+const ErrorSchema = z.object({ success: z.literal(false), error: z.string() });
+
+const HydrographRequestSchema = z.object({
+    rainfall: z.number().min(0).openapi({ example: 50 }),
+    slope: z.number().positive().openapi({ example: 0.02 }),
+    manningN: z.number().positive().openapi({ example: 0.015 }),
+    length_m: z.number().positive().openapi({ example: 100 }),
+    duration_min: z.number().min(0).openapi({ example: 60 }),
+    timeStep_min: z.number().positive().default(5),
+    profileStations: z.number().int().min(2).default(11),
+    profileTime_min: z.number().min(0).optional(),
+    policy: z.enum(['clamp', 'refuse']).default('clamp')
+}).openapi('PINNHydrographRequest');
+
+const InputRangeSchema = z.object({ min: z.number(), max: z.number() });
+
+const ExtrapolationSchema = InputRangeSchema.extend({
+    input: z.string().openapi({ example: 'rainfall' }),
+    value: z.number()
+}).openapi('PINNInputExtrapolation');
+
+const HydrographResultSchema = z.object({
+    hydrograph: z.object({
+        timeStep_min: z.number(),
+        flows_Ls: z.array(z.number()).readonly(),
+        peakFlow_Ls: z.number(),
+        timeToPeak_min: z.number(),
+        volume_m3: z.number()
+    }),
+    hydrographStd_Ls: z.array(z.number()),
+    profileTime_min: z.number(),
+    stations_m: z.array(z.number()),
+    depthProfile_mm: z.array(z.number()),
+    dischargeProfile_Ls: z.array(z.number()),
+    modelVersion: z.string(),
+    extrapolated: z.array(ExtrapolationSchema)
+}).openapi('PINNHydrographResult');
+
+const ManifestSchema = z.object({
+    version: z.string(),
+    trainedAt: z.string(),
+    datasetHash: z.string(),
+    trainingSamples: z.number(),
+    validation: z.record(z.string(), z.number()),
+    inputRanges: z.record(z.string(), InputRangeSchema)
+}).openapi('PINNModelManifest');
+
+// --- ROUTES ---
+
+// 1. GET /model
+const modelRoute = createRoute({
+    method: 'get',
+    path: '/model',
+    responses: {
+        200: {
+            content: { 'application/json': { schema: ManifestSchema } },
+            description: 'Registry manifest of the published PINN model'
+        },
+        503: {
+            content: { 'application/json': { schema: ErrorSchema } },
+            description: 'No verified PINN model is available'
+        }
+    },
+    tags: ['PINN']
+});
+
+pinnRoutes.openapi(modelRoute, async (c) => {
+    try {
+        const { manifest } = await getRegisteredModel();
+        return c.json(manifest, 200);
+    } catch (error) {
+        return c.json({ success: false as const, error: (error as Error).message }, 503);
+    }
+});
+
+// 2. POST /hydrograph
+const hydrographRoute = createRoute({
+    method: 'post',
+    path: '/hydrograph',
+    request: {
+        body: { content: { 'application/json': { schema: HydrographRequestSchema } } }
+    },
+    responses: {
+        200: {
+            content: { 'application/json': { schema: z.object({ input: HydrographRequestSchema, result: HydrographResultSchema }) } },
+            description: 'Outlet hydrograph and longitudinal depth profile from one batched PINN evaluation'
+        },
+        422: {
+            content: { 'application/json': { schema: ErrorSchema } },
+            description: 'Inputs refused by the extrapolation policy or too many points'
+        },
+        503: {
+            content: { 'application/json': { schema: ErrorSchema } },
+            description: 'No verified PINN model is available'
+        }
+    },
+    tags: ['PINN']
+});
+
+pinnRoutes.openapi(hydrographRoute, async (c) => {
+    const input = c.req.valid('json');
+    let registered: RegisteredModel;
+    try {
+        registered = await getRegisteredModel();
+    } catch (error) {
+        return c.json({ success: false as const, error: (error as Error).message }, 503);
+    }
+    try {
+        const result = predictHydrograph(registered, input, input.policy);
+        return c.json({ input, result }, 200);
+    } catch (error) {
+        return c.json({ success: false as const, error: (error as Error).message }, 422);
+    }
+});
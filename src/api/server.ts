@@ -29,5 +29,7 @@ serve({
     console.log('  POST /api/geo-regulatory/discover   - Discover regulatory profile');
     console.log('  GET  /api/grant-generator/programs  - List grant programs');
     console.log('  POST /api/env-calculator/calculate/retrofit - Calculate retrofit');
+    console.log('  POST /api/env-calculator/calculate/event-load - Event pollutant loads');
+    console.log('  POST /api/pinn/hydrograph           - Batched PINN hydrograph and depth profile');
     console.log('');
 });
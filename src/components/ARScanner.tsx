@@ -7,7 +7,7 @@ import { ARWalkingView } from './scanner/ARWalkingView';
 import { AnalysisPanel } from './scanner/AnalysisPanel';
 import { MapBoundaryView } from './scanner/map/MapBoundaryView';
 import { DroneUploadView } from './scanner/drone/DroneUploadView';
-import { type GeoPolygon } from '../lib/spatial-coverage/domain/valueObjects/GeoPolygon';
+import { type GeoPolygon, type GeoVertex } from '../lib/spatial-coverage/domain/valueObjects/GeoPolygon';
 import React, { useCallback } from 'react';
 
 type ScannerHook = ReturnType<typeof useARScanner>;
@@ -63,10 +63,11 @@ function ScannerMain({ scanner }: { scanner: ScannerHook }) {
 }
 
 function ScannerBody({ scanner }: { scanner: ScannerHook }) {
-    const handleBoundaryConfirmed = useCallback((polygon: GeoPolygon) => {
+    const handleBoundaryConfirmed = useCallback((polygon: GeoPolygon, outlets: GeoVertex[]) => {
         // Start AR coverage scanning phase (two-screen workflow)
         scanner.update({
             geoBoundary: polygon,
+            subCatchmentOutlets: outlets,
             detectedArea: polygon.areaSquareMeters,
             scanPhase: 'scanning',
             isScanning: true, // Start coverage tracking
@@ -91,6 +92,8 @@ function ScannerBody({ scanner }: { scanner: ScannerHook }) {
                         onCancel={handleCancelPlanning}
                         minVertices={4}
                         maxVertices={8}
+                        initialOutlets={scanner.subCatchmentOutlets}
+                        subCatchments={scanner.subCatchments}
                     />
                 </div>
             );
@@ -1,22 +1,11 @@
 /// <reference types="@google/model-viewer" />
 import type { GreenFix } from '../utils/hydrology';
+import { BMP_CATALOG, type BmpDisplay } from '../lib/bmp-catalog';
 
 interface ModelPlacementProps {
     fixes: GreenFix[];
 }
 
-const MODEL_PATHS: Record<GreenFix['type'], string> = {
-    rain_garden: '/models/rain_garden.glb',
-    permeable_pavement: '/models/permeable_pavement.glb',
-    tree_planter: '/models/tree_planter.glb',
-};
-
-const FIX_STYLES: Record<GreenFix['type'], { color: string; icon: string }> = {
-    rain_garden: { color: 'from-blue-500 to-cyan-500', icon: '🌿' },
-    permeable_pavement: { color: 'from-emerald-500 to-green-500', icon: '🧱' },
-    tree_planter: { color: 'from-green-600 to-lime-500', icon: '🌳' },
-};
-
 function calculateScale(area: number): string {
     const baseArea = 10;
     const s = Math.sqrt(area / baseArea);
@@ -34,7 +23,7 @@ export function ModelPlacement({ fixes }: ModelPlacementProps) {
 }
 
 function FixModelCard({ fix }: { fix: GreenFix }) {
-    const style = FIX_STYLES[fix.type];
+    const style = BMP_CATALOG[fix.type].display;
     return (
         <div className="bg-gray-800 rounded-2xl overflow-hidden">
             <div className="aspect-square bg-gray-900 relative">
@@ -51,8 +40,8 @@ function ModelViewer({ fix }: { fix: GreenFix }) {
         /* @ts-expect-error model-viewer is a custom element */
         <model-viewer
             data-testid={`model-${fix.type}`}
-            src={MODEL_PATHS[fix.type]}
-            alt={`${fix.type.replace('_', ' ')}`}
+            src={BMP_CATALOG[fix.type].modelPath}
+            alt={BMP_CATALOG[fix.type].display.name}
             ar
             ar-modes="webxr scene-viewer quick-look"
             camera-controls
@@ -75,13 +64,13 @@ function ARButton({ color }: { color: string }) {
     );
 }
 
-function FixInfo({ fix, style }: { fix: GreenFix; style: { icon: string } }) {
+function FixInfo({ fix, style }: { fix: GreenFix; style: BmpDisplay }) {
     return (
         <div className="p-4 flex items-center justify-between">
             <div className="flex items-center gap-3">
                 <span className="text-2xl">{style.icon}</span>
                 <div>
-                    <h3 className="font-semibold text-white capitalize">{fix.type.replace('_', ' ')}</h3>
+                    <h3 className="font-semibold text-white">{style.name}</h3>
                     <p className="text-sm text-gray-400">{fix.placement}</p>
                 </div>
             </div>
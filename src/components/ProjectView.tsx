@@ -2,9 +2,29 @@ import { useEffect, useState, useRef, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { projectService } from '../services/projectService';
 import { exportProjectPDF } from '../services/pdfExport';
-import { computePeakRunoff, RUNOFF_COEFFICIENTS, type GreenFix } from '../utils/hydrology';
+import { computePeakRunoff, computeWQv, RUNOFF_COEFFICIENTS, type GreenFix } from '../utils/hydrology';
+import { createRetrofitUncertaintyService } from '../lib/uncertainty-engine';
+import {
+    createClimateScenarioService,
+    DEFAULT_CLIMATE_UPLIFT,
+    DEFAULT_DESIGN_STORM,
+    DEFAULT_IDF_PARAMETERS,
+    idfIntensity
+} from '../lib/hydrology-engine';
+import { STORMWATER_PROFILES } from '../lib/geo-regulatory';
+import { BMP_CATALOG } from '../lib/bmp-catalog';
+import { SubCatchmentList } from './scanner/analysis/SubCatchmentList';
+import { profileAnnualRainfall, tapeCalibration } from '../hooks/scanner/useScannerUncertainty';
 import type { Project } from '../types/database';
 
+const uncertaintyService = createRetrofitUncertaintyService();
+const climateService = createClimateScenarioService();
+
+type StormwaterProfile = typeof STORMWATER_PROFILES[0];
+
+/** Projects saved before their profile was recorded are reported against the global baseline */
+const FALLBACK_PROFILE = STORMWATER_PROFILES.find(p => p.jurisdictionCode === 'GLOBAL')!;
+
 export function ProjectView() {
     const { id } = useParams<{ id: string }>();
     const navigate = useNavigate();
@@ -48,7 +68,9 @@ function ProjectLayout({ project, cardRef, exporting, onExport, onBack, onScan }
             <ProjectHeader name={project.street_name} onBack={onBack} />
             <main className="pt-20 pb-8 px-4">
                 <ProjectStatsCard project={project} cardRef={cardRef} />
+                <p className="text-xs text-gray-400 mb-6">Reported under {profileLabel(project)}</p>
                 <FixesList features={project.features || []} />
+                <SubCatchmentList subCatchments={project.sub_catchments} />
                 <ShareSection shareUrl={`${window.location.origin}${project.share_url}`} />
                 <ActionButtons onExport={onExport} exporting={exporting} onScan={onScan} />
             </main>
@@ -85,11 +107,65 @@ function useProject(id?: string) {
 }
 
 async function runExport(project: Project, el: HTMLDivElement | null) {
-    const peakRunoff = computePeakRunoff(50, Number(project.total_area), RUNOFF_COEFFICIENTS.impervious);
+    const profile = reportProfile(project);
+    const intensity = designIntensity(project, profile);
+    const peakRunoff = computePeakRunoff(intensity, Number(project.total_area), RUNOFF_COEFFICIENTS.impervious);
     await exportProjectPDF({
         streetName: project.street_name, latitude: 52.52, longitude: 13.405,
-        rainfall: 50, totalArea: Number(project.total_area), totalReduction: Number(project.total_reduction),
-        features: project.features || [], peakRunoff, screenshotElement: el
+        rainfall: intensity, totalArea: Number(project.total_area), totalReduction: Number(project.total_reduction),
+        features: project.features || [], peakRunoff,
+        uncertainty: estimateUncertainty(project, profile, peakRunoff), climateScenarios: compareClimateScenarios(profile, intensity),
+        profileName: profileLabel(project), screenshotElement: el
+    });
+}
+
+function findProfile(project: Project): StormwaterProfile | undefined {
+    return STORMWATER_PROFILES.find(p => p.jurisdictionCode === project.jurisdiction_code);
+}
+
+function reportProfile(project: Project): StormwaterProfile {
+    return findProfile(project) ?? FALLBACK_PROFILE;
+}
+
+function profileLabel(project: Project): string {
+    const profile = findProfile(project);
+    return profile ? profile.name : `${FALLBACK_PROFILE.name} (no profile saved with the project)`;
+}
+
+/**
+ * IDF intensity at the saved time of concentration, as the scanner takes it;
+ * the profile's design intensity for projects saved without a Tc
+ */
+function designIntensity(project: Project, profile: StormwaterProfile): number {
+    if (!project.tc_min) return profile.parameters.designIntensity_mm_hr;
+    return idfIntensity(profile.parameters.idf ?? DEFAULT_IDF_PARAMETERS, DEFAULT_DESIGN_STORM.returnPeriod_yr, project.tc_min);
+}
+
+function compareClimateScenarios(profile: StormwaterProfile, intensity_mm_hr: number) {
+    return climateService.compare({
+        intensity_mm_hr,
+        depth_mm: profile.parameters.designDepth_mm,
+        returnPeriod_yr: DEFAULT_DESIGN_STORM.returnPeriod_yr,
+        table: profile.parameters.climateUplift ?? DEFAULT_CLIMATE_UPLIFT
+    });
+}
+
+/**
+ * The bands use the tape check saved with the scan, or the uncalibrated
+ * scan spread when there was none, and the profile's capture depth and rainfall
+ */
+function estimateUncertainty(project: Project, profile: StormwaterProfile, peakRunoff: number) {
+    const area = Number(project.total_area);
+    if (!(area > 0)) return null;
+    return uncertaintyService.estimate({
+        area_m2: area,
+        calibration: tapeCalibration(project.validation_error),
+        runoffCoefficient: RUNOFF_COEFFICIENTS.impervious,
+        imperviousPercent: 100,
+        peakRunoff_Ls: peakRunoff,
+        wqv_L: computeWQv(profile.parameters.designDepth_mm, area),
+        annualRainfall_mm: profileAnnualRainfall(profile.parameters),
+        bmps: (project.features || []).map(f => ({ type: f.type, area_m2: f.size }))
     });
 }
 
@@ -158,13 +234,13 @@ function FixesList({ features }: { features: GreenFix[] }) {
 }
 
 function FixItem({ fix }: { fix: GreenFix }) {
-    const icon = fix.type === 'rain_garden' ? '🌿' : fix.type === 'permeable_pavement' ? '🧱' : '🌳';
+    const { icon, name } = BMP_CATALOG[fix.type].display;
     return (
         <div className="flex items-center justify-between bg-gray-700/50 rounded-xl p-3">
             <div className="flex items-center gap-3">
                 <span className="text-lg">{icon}</span>
                 <div>
-                    <p className="font-medium text-sm capitalize">{fix.type.replace('_', ' ')}</p>
+                    <p className="font-medium text-sm">{name}</p>
                     <p className="text-xs text-gray-400">{fix.placement}</p>
                 </div>
             </div>
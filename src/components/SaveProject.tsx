@@ -1,14 +1,20 @@
 import { useState, type FormEvent } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
-import { projectService } from '../services/projectService';
-import { suggestGreenFixes, calculateTotalReduction } from '../utils/hydrology';
+import { projectService, type CreateProjectInput } from '../services/projectService';
+import { suggestGreenFixes, calculateTotalReduction, type GreenFix } from '../utils/hydrology';
+import type { SubCatchmentPlan } from '../types/database';
 
 interface ScannerState {
-    fixes?: Array<{ size: number; reductionRate: number; type: 'rain_garden' | 'permeable_pavement' | 'tree_planter'; placement: string }>;
+    fixes?: GreenFix[];
     detectedArea?: number;
     rainfall?: number;
     isPinnActive?: boolean;
+    pinnModelVersion?: string | null;
     peakRunoff?: number;
+    subCatchments?: SubCatchmentPlan[] | null;
+    validationError?: number | null;
+    jurisdictionCode?: string;
+    tc_min?: number | null;
 }
 
 export function SaveProject() {
@@ -44,14 +50,15 @@ function useSaveAction(state: ScannerState) {
     const fixes = state.fixes || suggestGreenFixes(100);
     const totalArea = state.detectedArea || 100;
     const totalReduction = calculateTotalReduction(fixes, totalArea);
+    const subCatchments = savedSubCatchments(state);
 
     const handleSubmit = async (e: FormEvent) => {
         e.preventDefault();
         setIsLoading(true);
         setError(null);
         const { data, error: err } = await projectService.create({
-            street_name: streetName, screenshot: null, features: fixes,
-            total_area: totalArea, total_reduction: totalReduction,
+            street_name: streetName, screenshot: null, features: fixes, sub_catchments: subCatchments,
+            validation_error: savedValidationError(state), ...savedDesignBasis(state), total_area: totalArea, total_reduction: totalReduction,
         });
         if (err) { setError(err.message); setIsLoading(false); }
         else if (data) navigate(`/project/${data.id}`);
@@ -60,6 +67,21 @@ function useSaveAction(state: ScannerState) {
     return { streetName, setStreetName, isLoading, error, handleSubmit };
 }
 
+/** Sub-catchments delineated on the scanned terrain; none without elevation data */
+function savedSubCatchments(state: ScannerState): SubCatchmentPlan[] {
+    return state.subCatchments || [];
+}
+
+/** Tape check of the scan; none when it was never calibrated */
+function savedValidationError(state: ScannerState): number | null {
+    return state.validationError ?? null;
+}
+
+/** Profile and Tc the report's design rainfall is derived from */
+function savedDesignBasis(state: ScannerState): Pick<CreateProjectInput, 'jurisdiction_code' | 'tc_min'> {
+    return { jurisdiction_code: state.jurisdictionCode ?? null, tc_min: state.tc_min ?? null };
+}
+
 function SaveHeader({ onBack }: { onBack: () => void }) {
     return (
         <header className="fixed top-0 left-0 right-0 z-50 bg-gray-900/80 backdrop-blur-lg border-b border-gray-700 flex items-center justify-between px-4 py-3">
@@ -85,18 +107,18 @@ function PreviewCard({ state }: { state: ScannerState }) {
 function PreviewVisual({ state, area }: { state: ScannerState; area: number }) {
     return (
         <div className="aspect-video bg-gray-800 relative flex items-center justify-center">
-            <VisualContent area={area} peak={state.peakRunoff} isPinn={state.isPinnActive} />
+            <VisualContent area={area} peak={state.peakRunoff} modelVersion={state.isPinnActive ? state.pinnModelVersion : null} />
             <RainfallBadge rainfall={state.rainfall} />
         </div>
     );
 }
 
-function VisualContent({ area, peak, isPinn }: { area: number; peak?: number; isPinn?: boolean }) {
+function VisualContent({ area, peak, modelVersion }: { area: number; peak?: number; modelVersion?: string | null }) {
     return (
         <div className="text-center p-4">
             <p className="text-red-400 font-mono text-lg">{area}m² detected</p>
             <p className="text-xs text-gray-400 font-mono mt-1">Peak: {(peak || 0).toFixed(2)} L/s</p>
-            {isPinn && <span className="mt-2 px-1.5 py-0.5 rounded bg-purple-500/20 text-purple-300 text-[10px] font-mono">⚡ AI-Physics Optimized</span>}
+            {modelVersion && <span className="mt-2 px-1.5 py-0.5 rounded bg-purple-500/20 text-purple-300 text-[10px] font-mono">⚡ AI-Physics Optimized · PINN v{modelVersion}</span>}
         </div>
     );
 }
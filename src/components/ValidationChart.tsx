@@ -1,28 +1,79 @@
 import { useState, useEffect } from 'react';
-import { HEC_RAS_DATA, HEC_RAS_PEAK, getHecRasPeakLs } from '../utils/hecRasConstants';
+import {
+    createHydrographValidationService,
+    createRationalHydrograph,
+    type FitRating,
+    type Hydrograph,
+    type HydrographValidationResult,
+    type ReferenceHydrograph
+} from '../lib/hydrology-engine';
+
+const validationService = createHydrographValidationService();
 
 interface ValidationChartProps {
     appPrediction: number;
+    /** Time of concentration the app's peak is reached after (min) */
+    tc_min: number;
+    /** Length of the design storm (min) */
+    stormDuration_min: number;
+    /** Kinematic wave hydrograph of the same rainfall over the site */
+    reference: Hydrograph;
     showDownload?: boolean;
 }
 
+type Scale = (v: number) => number;
+
+/** Goodness of fit of the app hydrograph, or why it could not be scored */
+type Fit = { validation: HydrographValidationResult; error: null } | { validation: null; error: string };
+
 const DIM = { width: 280, height: 120, padding: { top: 10, right: 10, bottom: 25, left: 35 } };
 
-export function ValidationChart({ appPrediction, showDownload = true }: ValidationChartProps) {
+const RATING_COLORS: Record<FitRating, string> = {
+    very_good: 'text-emerald-400',
+    good: 'text-emerald-300',
+    satisfactory: 'text-yellow-400',
+    unsatisfactory: 'text-red-400'
+};
+
+/**
+ * Scores the Modified Rational Method hydrograph of the app's peak against
+ * the kinematic wave hydrograph (NSE, KGE, PBIAS)
+ */
+export function ValidationChart({ appPrediction, tc_min, stormDuration_min, reference, showDownload = true }: ValidationChartProps) {
     const progress = useChartAnimation();
-    const hecRasPeakLs = getHecRasPeakLs();
-    const accuracy = Math.round((1 - Math.abs(appPrediction - hecRasPeakLs) / hecRasPeakLs) * 100);
+    const app = createRationalHydrograph({
+        peakFlow_Ls: appPrediction,
+        tc_min,
+        stormDuration_min,
+        timeStep_min: reference.timeStep_min,
+        duration_min: (reference.flows_Ls.length - 1) * reference.timeStep_min
+    });
+    const fit = scoreAgainst(app, reference);
 
     return (
         <div className="bg-gray-800/80 rounded-xl p-3 backdrop-blur">
-            <ChartHeader accuracy={accuracy} />
-            <ChartContent appPrediction={appPrediction} progress={progress} />
-            <ChartSummary app={appPrediction} refVal={hecRasPeakLs} />
+            <ChartHeader fit={fit} />
+            <ChartContent app={app} reference={reference} progress={progress} />
+            <FitSummary fit={fit} />
+            <ChartSummary app={appPrediction} refVal={reference.peakFlow_Ls} />
             {showDownload && <DownloadLink />}
         </div>
     );
 }
 
+/** A reference without any runoff cannot be scored */
+function scoreAgainst(app: Hydrograph, reference: Hydrograph): Fit {
+    try {
+        return { validation: validationService.validate(app, asReference(reference)), error: null };
+    } catch (error) {
+        return { validation: null, error: (error as Error).message };
+    }
+}
+
+function asReference({ flows_Ls, timeStep_min }: Hydrograph): ReferenceHydrograph {
+    return { source: 'Kinematic wave', times_min: flows_Ls.map((_, i) => i * timeStep_min), flows_Ls };
+}
+
 function useChartAnimation() {
     const [progress, setProgress] = useState(0);
     useEffect(() => {
@@ -38,55 +89,56 @@ function useChartAnimation() {
     return progress;
 }
 
-function ChartHeader({ accuracy }: { accuracy: number }) {
-    const color = accuracy >= 95 ? 'text-emerald-400' : accuracy >= 90 ? 'text-yellow-400' : 'text-red-400';
+function ChartHeader({ fit }: { fit: Fit }) {
     return (
         <div className="flex items-center justify-between mb-2">
-            <h4 className="text-xs font-semibold text-gray-300">HEC-RAS Validation</h4>
-            <span className={`text-xs font-mono ${color}`}>{accuracy}% accurate</span>
+            <h4 className="text-xs font-semibold text-gray-300">Kinematic Wave Validation</h4>
+            {fit.validation && (
+                <span className={`text-xs font-mono ${RATING_COLORS[fit.validation.rating]}`}>{fit.validation.rating.replace('_', ' ')} fit</span>
+            )}
         </div>
     );
 }
 
-function ChartContent({ appPrediction, progress }: { appPrediction: number; progress: number }) {
+function ChartContent({ app, reference, progress }: { app: Hydrograph; reference: Hydrograph; progress: number }) {
     const chartW = DIM.width - DIM.padding.left - DIM.padding.right;
     const chartH = DIM.height - DIM.padding.top - DIM.padding.bottom;
-    const xScale = (t: number) => DIM.padding.left + (t / 60) * chartW;
-    const yScale = (d: number) => DIM.padding.top + chartH - (d / 0.08) * chartH;
-
-    const path = HEC_RAS_DATA.map((d, i) =>
-        `${i === 0 ? 'M' : 'L'} ${xScale(d.time)} ${yScale(d.discharge * progress)}`
+    const duration = Math.max(1, (reference.flows_Ls.length - 1) * reference.timeStep_min);
+    const maxFlow = Math.max(reference.peakFlow_Ls, app.peakFlow_Ls, 1) * 1.1;
+    const xScale = (t: number) => DIM.padding.left + (t / duration) * chartW;
+    const yScale = (q: number) => DIM.padding.top + chartH - (q / maxFlow) * chartH;
+    const path = (h: Hydrograph) => h.flows_Ls.map((q, i) =>
+        `${i === 0 ? 'M' : 'L'} ${xScale(i * h.timeStep_min)} ${yScale(q * progress)}`
     ).join(' ');
 
     return (
         <svg width={DIM.width} height={DIM.height} className="w-full" viewBox={`0 0 ${DIM.width} ${DIM.height}`}>
-            <ChartGrid yScale={yScale} />
-            <ChartAxes yScale={yScale} xScale={xScale} />
-            <path d={path} fill="none" stroke="#3B82F6" strokeWidth="2" strokeLinecap="round" />
-            <circle cx={xScale(20)} cy={yScale(HEC_RAS_PEAK * progress)} r="4" fill="#3B82F6" />
-            <circle cx={xScale(20)} cy={yScale((appPrediction / 1000) * progress)} r="5" fill="#10B981" stroke="#fff" strokeWidth="1.5" />
+            <ChartGrid yScale={yScale} maxFlow={maxFlow} />
+            <ChartAxes yScale={yScale} xScale={xScale} ticks={[0, reference.timeToPeak_min, duration]} maxFlow={maxFlow} />
+            <path d={path(reference)} fill="none" stroke="#3B82F6" strokeWidth="2" strokeLinecap="round" />
+            <path d={path(app)} fill="none" stroke="#10B981" strokeWidth="1.5" strokeDasharray="4 2" />
             <ChartLegend />
         </svg>
     );
 }
 
-function ChartGrid({ yScale }: { yScale: (v: number) => number }) {
+function ChartGrid({ yScale, maxFlow }: { yScale: Scale; maxFlow: number }) {
     return (
         <>
-            {[0, 0.02, 0.04, 0.06, 0.08].map(v => (
-                <line key={v} x1={DIM.padding.left} y1={yScale(v)} x2={DIM.width - DIM.padding.right} y2={yScale(v)} stroke="#374151" />
+            {[0, 0.25, 0.5, 0.75, 1].map(f => (
+                <line key={f} x1={DIM.padding.left} y1={yScale(f * maxFlow)} x2={DIM.width - DIM.padding.right} y2={yScale(f * maxFlow)} stroke="#374151" />
             ))}
         </>
     );
 }
 
-function ChartAxes({ yScale, xScale }: { yScale: (v: number) => number; xScale: (t: number) => number }) {
+function ChartAxes({ yScale, xScale, ticks, maxFlow }: { yScale: Scale; xScale: Scale; ticks: number[]; maxFlow: number }) {
     return (
         <>
             <line x1={DIM.padding.left} y1={DIM.height - DIM.padding.bottom} x2={DIM.width - DIM.padding.right} y2={DIM.height - DIM.padding.bottom} stroke="#6B7280" />
             <line x1={DIM.padding.left} y1={DIM.padding.top} x2={DIM.padding.left} y2={DIM.height - DIM.padding.bottom} stroke="#6B7280" />
-            {[0, 20, 60].map(t => <text key={t} x={xScale(t)} y={DIM.height - 8} fill="#9CA3AF" fontSize="8" textAnchor="middle">{t}m</text>)}
-            {[0, 80].map(v => <text key={v} x={DIM.padding.left - 5} y={yScale(v / 1000) + 3} fill="#9CA3AF" fontSize="8" textAnchor="end">{v}</text>)}
+            {ticks.map((t, i) => <text key={i} x={xScale(t)} y={DIM.height - 8} fill="#9CA3AF" fontSize="8" textAnchor="middle">{Math.round(t)}m</text>)}
+            {[0, maxFlow].map(q => <text key={q} x={DIM.padding.left - 5} y={yScale(q) + 3} fill="#9CA3AF" fontSize="8" textAnchor="end">{Math.round(q)}</text>)}
         </>
     );
 }
@@ -95,18 +147,30 @@ function ChartLegend() {
     return (
         <>
             <circle cx={DIM.width - 70} cy={12} r="3" fill="#3B82F6" />
-            <text x={DIM.width - 63} y={15} fill="#9CA3AF" fontSize="8">HEC-RAS</text>
+            <text x={DIM.width - 63} y={15} fill="#9CA3AF" fontSize="8">Kin. wave</text>
             <circle cx={DIM.width - 70} cy={24} r="3" fill="#10B981" />
             <text x={DIM.width - 63} y={27} fill="#9CA3AF" fontSize="8">App</text>
         </>
     );
 }
 
+function FitSummary({ fit }: { fit: Fit }) {
+    if (!fit.validation) return <p className="mt-2 text-[10px] text-yellow-400">{fit.error}</p>;
+    const { nse, kge, pbias_percent } = fit.validation;
+    return (
+        <div className="mt-2 flex items-center justify-between text-[10px] font-mono text-gray-300">
+            <span>NSE {nse.toFixed(2)}</span>
+            <span>KGE {kge.toFixed(2)}</span>
+            <span>PBIAS {pbias_percent.toFixed(1)}%</span>
+        </div>
+    );
+}
+
 function ChartSummary({ app, refVal }: { app: number; refVal: number }) {
     return (
         <div className="mt-2 flex items-center justify-between text-[10px]">
             <div><span className="text-gray-400">App: </span><span className="text-emerald-400 font-mono">{app.toFixed(1)} L/s</span></div>
-            <div><span className="text-gray-400">HEC-RAS: </span><span className="text-blue-400 font-mono">{refVal.toFixed(1)} L/s</span></div>
+            <div><span className="text-gray-400">Kinematic wave: </span><span className="text-blue-400 font-mono">{refVal.toFixed(1)} L/s</span></div>
         </div>
     );
 }
@@ -5,6 +5,7 @@ import { useGroundDetection } from '../../hooks/scanner/useGroundDetection';
 import { WalkingCoverageOverlay } from './coverage/WalkingCoverageOverlay';
 import { GeoPolygon } from '../../lib/spatial-coverage/domain/valueObjects/GeoPolygon';
 import { ScannerHUD } from './HUD/ScannerHUD';
+import { ExtrapolationBadge } from './HUD/ExtrapolationBadge';
 
 type ScannerHook = ReturnType<typeof useARScanner>;
 
@@ -126,6 +127,7 @@ export function ARWalkingView({ scanner }: { scanner: ScannerHook }) {
 
             {/* Tech HUD */}
             <ScannerHUD />
+            <ExtrapolationBadge warnings={scanner.pinnWarnings} />
 
             {/* Completion Audio */}
             <audio ref={audioRef} src="/sounds/complete.mp3" preload="auto" hidden />
@@ -196,10 +198,13 @@ export function ARWalkingView({ scanner }: { scanner: ScannerHook }) {
                 boundary={scanner.geoBoundary}
                 currentPosition={coverage.currentPosition}
                 voxels={coverage.getVoxelArray()}
+                gaps={coverage.gaps}
                 isInsideBoundary={coverage.isInsideBoundary}
                 coveragePercent={coverage.coveragePercent}
                 stepCount={coverage.stepCount}
                 gpsAccuracy={coverage.gpsAccuracy}
+                flow={scanner.flowRouting}
+                ponding={scanner.ponding}
             />
 
             {/* Stop Button */}
@@ -1,24 +1,48 @@
 import { useARScanner, type UpdateFn } from '../../hooks/useARScanner';
+import { designStormDuration_min } from '../../hooks/scanner/useScannerKinematicWave';
 import { ModelPlacement } from '../ModelPlacement';
 import { ValidationChart } from '../ValidationChart';
 import { SizingModeToggle } from './analysis/SizingModeToggle';
 import { ParameterCards } from './analysis/ParameterCards';
+import { ExtrapolationWarning } from './analysis/ExtrapolationWarning';
 import { SuggestionsList } from './analysis/SuggestionsList';
+import { WaterBalanceSummary } from './analysis/WaterBalanceSummary';
+import { UncertaintyBands } from './analysis/UncertaintyBands';
+import { SubCatchmentList } from './analysis/SubCatchmentList';
+import { SurfaceMixEditor } from './analysis/SurfaceMixEditor';
+import { SoilGroupSelector } from './analysis/SoilGroupSelector';
+import { HydrographValidationPanel } from './analysis/HydrographValidationPanel';
 import { ComplianceDashboard } from './analysis/ComplianceDashboard';
 import { ActionButtons } from './analysis/ActionButtons';
+import { ExportActionGroup } from './ui/ResultDisplay';
 
 type ScannerHook = ReturnType<typeof useARScanner>;
 
 export function AnalysisPanel({ scanner }: { scanner: ScannerHook }) {
-    const isFairfax = (scanner.activeProfile.id === 'fairfax-county-stormwater');
-
     return (
         <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
-            <SizingModeToggle mode={scanner.sizingMode} setMode={(m) => scanner.update({ sizingMode: m })} />
+            <SizingModeToggle
+                mode={scanner.sizingMode}
+                setMode={(m) => scanner.update({ sizingMode: m })}
+                method={scanner.runoffMethod}
+                setMethod={(m) => scanner.update({ runoffMethod: m })}
+                scsResult={scanner.scsResult}
+            />
+            <SoilGroupSelector soilGroup={scanner.soilGroup} onChange={(soilGroup) => scanner.update({ soilGroup })} />
             <ParameterCards scanner={scanner} />
+            <ExtrapolationWarning warnings={scanner.pinnWarnings} />
+            <SurfaceMixEditor
+                mix={scanner.surfaceMix}
+                catchment={scanner.catchment}
+                onChange={(surfaceMix) => scanner.update({ surfaceMix })}
+            />
+            <SubCatchmentList subCatchments={scanner.subCatchments} />
+            <WaterBalanceSummary result={scanner.waterBalance} />
+            <UncertaintyBands result={scanner.uncertainty} />
             <ViewToggle showAR={scanner.showAR} update={scanner.update} />
             <PreviewPreview scanner={scanner} />
-            {isFairfax && <ValidationChart appPrediction={scanner.peakRunoff} />}
+            <KinematicWaveValidation scanner={scanner} />
+            <ExportActionGroup scanner={scanner} />
             <ComplianceDashboard
                 compliance={scanner.complianceResults}
                 generating={scanner.isGeneratingPDF}
@@ -32,6 +56,29 @@ export function AnalysisPanel({ scanner }: { scanner: ScannerHook }) {
     );
 }
 
+/** The app's peak and any uploaded reference scored against the sheet flow hydrograph */
+function KinematicWaveValidation({ scanner }: { scanner: ScannerHook }) {
+    if (!scanner.kinematicWave || !scanner.tcResult) return null;
+    return (
+        <>
+            <ValidationChart
+                appPrediction={scanner.peakRunoff}
+                tc_min={scanner.tcResult.tc_min}
+                stormDuration_min={designStormDuration_min(scanner)}
+                reference={scanner.kinematicWave.hydrograph}
+            />
+            <HydrographValidationPanel
+                reference={scanner.referenceHydrograph}
+                offset_min={scanner.referenceOffset_min}
+                validation={scanner.hydrographValidation}
+                validationError={scanner.hydrographValidationError}
+                site={scanner.locationName}
+                update={scanner.update}
+            />
+        </>
+    );
+}
+
 function ViewToggle({ showAR, update }: { showAR: boolean; update: UpdateFn }) {
     const btnCls = (active: boolean) => `flex-1 py-2.5 rounded-lg font-bold text-xs ${active ? 'bg-gray-700 text-white' : 'text-gray-400'}`;
     return (
@@ -44,7 +91,16 @@ function ViewToggle({ showAR, update }: { showAR: boolean; update: UpdateFn }) {
 
 function PreviewPreview({ scanner }: { scanner: ScannerHook }) {
     if (scanner.showAR) return <ModelPlacement fixes={scanner.fixes} />;
-    return <SuggestionsList fixes={scanner.fixes} unitSystem={scanner.unitSystem} />;
+    return (
+        <SuggestionsList
+            fixes={scanner.fixes}
+            unitSystem={scanner.unitSystem}
+            portfolio={scanner.portfolio}
+            target={scanner.portfolioTarget}
+            budget={scanner.portfolioBudget}
+            update={scanner.update}
+        />
+    );
 }
 
 function handleSave(scanner: ScannerHook) {
@@ -54,7 +110,12 @@ function handleSave(scanner: ScannerHook) {
             detectedArea: scanner.detectedArea,
             rainfall: scanner.rainfall,
             isPinnActive: scanner.isPinnActive,
+            pinnModelVersion: scanner.pinnModelVersion,
             peakRunoff: scanner.peakRunoff,
+            subCatchments: scanner.subCatchments,
+            validationError: scanner.validationError,
+            jurisdictionCode: scanner.activeProfile.jurisdictionCode,
+            tc_min: scanner.tcResult?.tc_min ?? null,
             locationName: scanner.locationName
         }
     });
@@ -0,0 +1,17 @@
+/**
+ * ExtrapolationBadge - Compact HUD flag while the PINN runoff is extrapolated
+ * beyond its training domain; the full warnings are in the analysis panel.
+ */
+export function ExtrapolationBadge({ warnings }: { warnings: string[] }) {
+    if (warnings.length === 0) return null;
+
+    return (
+        <div
+            data-testid="extrapolation-badge"
+            title={warnings.join('\n')}
+            className="absolute top-6 right-6 z-30 bg-amber-900/60 backdrop-blur-sm px-3 py-2 rounded-2xl border border-amber-500/40"
+        >
+            <p className="text-[9px] text-amber-300 font-black uppercase tracking-widest">⚠ PINN Extrapolation · {warnings.length}</p>
+        </div>
+    );
+}
@@ -0,0 +1,12 @@
+export function ExtrapolationWarning({ warnings }: { warnings: string[] }) {
+    if (warnings.length === 0) return null;
+
+    return (
+        <div data-testid="extrapolation-warning" className="bg-amber-900/30 rounded-2xl p-4 mb-6 border border-amber-500/40">
+            <p className="text-amber-400 text-[10px] font-bold uppercase tracking-widest mb-2">⚠ PINN Extrapolation · Runoff Less Certain</p>
+            <ul className="space-y-1">
+                {warnings.map(w => <li key={w} className="text-[11px] text-amber-200/90">{w}</li>)}
+            </ul>
+        </div>
+    );
+}
@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import type { UpdateFn } from '../../../hooks/useARScanner';
+import {
+    parseReferenceHydrograph,
+    type FitRating,
+    type HydrographValidationResult,
+    type ReferenceHydrograph
+} from '../../../lib/hydrology-engine';
+import { exportService } from '../../../lib/spatial-coverage/application/ExportService';
+
+interface HydrographValidationPanelProps {
+    reference: ReferenceHydrograph | null;
+    offset_min: number;
+    validation: HydrographValidationResult | null;
+    /** Why the reference could not be scored */
+    validationError: string | null;
+    site: string;
+    update: UpdateFn;
+}
+
+const RATING_COLORS: Record<FitRating, string> = {
+    very_good: 'text-emerald-400',
+    good: 'text-emerald-300',
+    satisfactory: 'text-yellow-400',
+    unsatisfactory: 'text-red-400'
+};
+
+const STAT_ROWS: Array<{ label: string; format: (v: HydrographValidationResult) => string }> = [
+    { label: 'NSE', format: (v) => v.nse.toFixed(2) },
+    { label: 'KGE', format: (v) => v.kge.toFixed(2) },
+    { label: 'PBIAS', format: (v) => `${v.pbias_percent.toFixed(1)}%` },
+    { label: 'RMSE', format: (v) => `${v.rmse_Ls.toFixed(2)} L/s` },
+    { label: 'Peak Error', format: (v) => `${v.peakError_percent.toFixed(1)}%` },
+    { label: 'Timing Error', format: (v) => `${v.timingError_min.toFixed(0)} min` }
+];
+
+/**
+ * Upload an observed or modelled hydrograph CSV (HEC-RAS, SWMM output, field
+ * loggers) and score the predicted hydrograph against it.
+ */
+export function HydrographValidationPanel({ reference, ...summary }: HydrographValidationPanelProps) {
+    const [error, setError] = useState<string | null>(null);
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            summary.update({ referenceHydrograph: parseReferenceHydrograph(await file.text()) });
+            setError(null);
+        } catch (e) {
+            setError((e as Error).message);
+        }
+    };
+
+    return (
+        <div data-testid="hydrograph-validation" className="bg-gray-800/50 rounded-2xl p-4 mb-6 border border-white/5">
+            <div className="flex items-center justify-between mb-3">
+                <p className="text-gray-400 text-[10px] font-bold uppercase tracking-widest">Reference Hydrograph</p>
+                <label className="text-[10px] text-cyan-400 font-bold cursor-pointer">
+                    📤 Upload CSV
+                    <input type="file" accept=".csv,.txt" hidden onChange={(e) => handleFile(e.target.files?.[0])} />
+                </label>
+            </div>
+            {error && <p className="text-[10px] text-red-400 mb-2">{error}</p>}
+            {reference && (
+                <ReferenceSummary reference={reference} {...summary} />
+            )}
+        </div>
+    );
+}
+
+function ReferenceSummary({ reference, offset_min, validation, validationError, site, update }: HydrographValidationPanelProps & { reference: ReferenceHydrograph }) {
+    return (
+        <>
+            <div className="flex items-center justify-between text-[10px] mb-2">
+                <span className="text-gray-500 font-mono">{reference.source} · {reference.times_min.length} rows</span>
+                <label className="text-gray-400">
+                    Offset
+                    <input
+                        type="number"
+                        value={offset_min}
+                        onChange={(e) => update({ referenceOffset_min: Number(e.target.value) })}
+                        className="w-12 ml-1 bg-black/30 rounded px-1 text-white font-mono"
+                    />
+                    {' '}min
+                </label>
+            </div>
+            {validation
+                ? <FitStatistics validation={validation} onDownload={() => downloadReport(validation, site, reference.source)} />
+                : <p className="text-[10px] text-yellow-400">{validationError}</p>}
+        </>
+    );
+}
+
+function FitStatistics({ validation, onDownload }: { validation: HydrographValidationResult; onDownload: () => void }) {
+    return (
+        <>
+            <p className={`text-xs font-bold uppercase mb-2 ${RATING_COLORS[validation.rating]}`}>
+                {validation.rating.replace('_', ' ')} fit
+            </p>
+            <div className="grid grid-cols-3 gap-2">
+                {STAT_ROWS.map(row => (
+                    <div key={row.label} className="bg-black/20 rounded-lg p-2">
+                        <p className="text-[9px] text-gray-500 uppercase">{row.label}</p>
+                        <p className="text-xs text-white font-mono">{row.format(validation)}</p>
+                    </div>
+                ))}
+            </div>
+            <button onClick={onDownload} className="mt-3 w-full text-center text-[10px] text-cyan-400 underline">
+                📥 Download validation report (CSV)
+            </button>
+        </>
+    );
+}
+
+function downloadReport(validation: HydrographValidationResult, site: string, source: string) {
+    const blob = new Blob([exportService.toValidationCSV(validation, site, source)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'hydrograph-validation.csv';
+    a.click();
+    URL.revokeObjectURL(url);
+}
@@ -1,10 +1,37 @@
-import { useARScanner } from '../../../hooks/useARScanner';
+import { useARScanner, type IntensityMode } from '../../../hooks/useARScanner';
+import type { ClimateScenario, ClimateScenarioResult, HyetographMethod, TcMethod } from '../../../lib/hydrology-engine';
 import { convertRainfall, getRainUnit, convertDepth, getDepthUnit } from '../../../utils/units';
 import { calculateTotalReduction } from '../../../utils/hydrology';
 import type { ChangeEvent } from 'react';
 
 type ScannerHook = ReturnType<typeof useARScanner>;
 
+const NEXT_INTENSITY_MODE: Record<IntensityMode, IntensityMode> = { auto: 'manual', manual: 'design', design: 'auto' };
+
+const HYETOGRAPH_LABELS: Record<HyetographMethod, string> = {
+    chicago: 'Chicago',
+    huff: 'Huff',
+    scs_type_ii: 'SCS Type II',
+    euler_ii: 'Euler II'
+};
+
+const RETURN_PERIODS_YR = [2, 5, 10, 25, 50, 100];
+
+const TC_LABELS: Record<TcMethod, string> = {
+    kirpich: 'Kirpich',
+    kerby: 'Kerby',
+    faa: 'FAA',
+    nrcs_lag: 'NRCS Lag'
+};
+
+const CLIMATE_LABELS: Record<ClimateScenario, string> = {
+    current: 'Today',
+    '2050': '2050',
+    '2100': '2100'
+};
+
+const SELECT_CLS = 'bg-transparent border-b border-orange-500/30 text-[10px] text-orange-200';
+
 export function ParameterCards({ scanner }: { scanner: ScannerHook }) {
     return (
         <div className="grid grid-cols-2 gap-3 mb-6">
@@ -13,6 +40,12 @@ export function ParameterCards({ scanner }: { scanner: ScannerHook }) {
                 label={scanner.sizingMode === 'rate' ? 'Peak Reduction' : 'WQv Performance'}
                 val={calculateValue(scanner)}
             />
+            <PeakRunoffCard
+                peakRunoff={scanner.peakRunoff}
+                modelVersion={scanner.isPinnActive ? scanner.pinnModelVersion : null}
+                error={scanner.hydrologyError}
+            />
+            <ClimateScenarioCard scanner={scanner} />
         </div>
     );
 }
@@ -38,7 +71,7 @@ function IntensityCard({ scanner }: { scanner: ScannerHook }) {
 
     return (
         <div
-            onClick={() => scanner.update({ intensityMode: isAuto ? 'manual' : 'auto' })}
+            onClick={() => scanner.update({ intensityMode: NEXT_INTENSITY_MODE[scanner.intensityMode] })}
             className={`rounded-2xl p-4 border transition-all cursor-pointer ${cls}`}
         >
             <IntensityHeader isAuto={isAuto} mode={scanner.intensityMode} />
@@ -59,6 +92,7 @@ function IntensityHeader({ isAuto, mode }: { isAuto: boolean; mode: string }) {
 }
 
 function IntensityBody({ scanner, isAuto }: { scanner: ScannerHook; isAuto: boolean }) {
+    if (scanner.intensityMode === 'design') return <DesignStormInput scanner={scanner} />;
     if (isAuto) return <AutoIntensityVal rainfall={scanner.rainfall} unit={getRainUnit(scanner.unitSystem)} system={scanner.unitSystem} />;
     return <ManualIntensityInput scanner={scanner} />;
 }
@@ -96,6 +130,56 @@ function ManualIntensityInput({ scanner }: { scanner: ScannerHook }) {
     );
 }
 
+function DesignStormInput({ scanner }: { scanner: ScannerHook }) {
+    const storm = scanner.designStorm;
+    const peak = scanner.hyetograph?.peakIntensity_mm_hr ?? 0;
+    const setStorm = (u: Partial<typeof storm>) => scanner.update({ designStorm: { ...storm, ...u } });
+
+    return (
+        <div data-testid="design-storm">
+            <p className="text-2xl font-bold text-white">
+                {convertRainfall(peak, scanner.unitSystem).toFixed(2)}
+                <span className="text-sm font-normal text-orange-300/60">{getRainUnit(scanner.unitSystem)}</span>
+            </p>
+            <div className="flex gap-2 mt-1" onClick={(e) => e.stopPropagation()}>
+                <select
+                    data-testid="design-storm-method"
+                    value={storm.method}
+                    onChange={(e) => setStorm({ method: e.target.value as HyetographMethod })}
+                    className={SELECT_CLS}
+                >
+                    {Object.entries(HYETOGRAPH_LABELS).map(([k, label]) => <option key={k} value={k}>{label}</option>)}
+                </select>
+                <select
+                    data-testid="design-storm-return-period"
+                    value={storm.returnPeriod_yr}
+                    onChange={(e) => setStorm({ returnPeriod_yr: Number(e.target.value) })}
+                    className={SELECT_CLS}
+                >
+                    {RETURN_PERIODS_YR.map(t => <option key={t} value={t}>{t}-yr</option>)}
+                </select>
+            </div>
+            <TcSelector scanner={scanner} />
+        </div>
+    );
+}
+
+function TcSelector({ scanner }: { scanner: ScannerHook }) {
+    const tc = scanner.tcResult?.tc_min ?? 0;
+    return (
+        <div className="flex items-center gap-1 mt-1" onClick={(e) => e.stopPropagation()}>
+            <span data-testid="tc-value" className="text-[10px] text-orange-300/80">Tc {tc.toFixed(1)} min</span>
+            <select
+                data-testid="tc-method"
+                value={scanner.tcMethod}
+                onChange={(e) => scanner.update({ tcMethod: e.target.value as TcMethod })}
+                className={SELECT_CLS}
+            >
+                {Object.entries(TC_LABELS).map(([k, label]) => <option key={k} value={k}>{label}</option>)}
+            </select>
+        </div>
+    );
+}
 
 function DepthCard({ val, unit, onChange }: { val: number; unit: string; onChange: (v: number) => void }) {
     return (
@@ -116,6 +200,68 @@ function DepthCard({ val, unit, onChange }: { val: number; unit: string; onChang
     );
 }
 
+function ClimateScenarioCard({ scanner }: { scanner: ScannerHook }) {
+    if (!scanner.climateScenarios) return null;
+
+    return (
+        <div data-testid="climate-scenarios" className="col-span-2 bg-sky-900/30 rounded-2xl p-4 border border-sky-500/20">
+            <p className="text-sky-400 text-[10px] font-bold uppercase tracking-widest mb-2">Climate Scenario · Design Rainfall</p>
+            <div className="grid grid-cols-3 gap-2">
+                {scanner.climateScenarios.map(result => (
+                    <ClimateScenarioOption
+                        key={result.scenario}
+                        result={result}
+                        selected={result.scenario === scanner.climateScenario}
+                        system={scanner.unitSystem}
+                        onSelect={() => scanner.update({ climateScenario: result.scenario })}
+                    />
+                ))}
+            </div>
+        </div>
+    );
+}
+
+interface ClimateScenarioOptionProps {
+    result: ClimateScenarioResult;
+    selected: boolean;
+    system: 'metric' | 'imperial';
+    onSelect: () => void;
+}
+
+function ClimateScenarioOption({ result, selected, system, onSelect }: ClimateScenarioOptionProps) {
+    const cls = selected ? 'bg-sky-500/20 border-sky-400/60' : 'bg-gray-900/40 border-white/5';
+    return (
+        <button data-testid={`climate-${result.scenario}`} onClick={onSelect} className={`rounded-xl p-2 border text-left ${cls}`}>
+            <p className="text-[10px] font-bold text-sky-300">
+                {CLIMATE_LABELS[result.scenario]} <span className="text-sky-300/60">×{result.factor.toFixed(2)}</span>
+            </p>
+            <p className="text-sm font-bold text-white">{convertRainfall(result.intensity_mm_hr, system).toFixed(1)}<span className="text-[9px] font-normal text-sky-300/60">{getRainUnit(system)}</span></p>
+            <p className="text-[10px] text-sky-200/80">{convertDepth(result.depth_mm, system).toFixed(1)} {getDepthUnit(system)}</p>
+        </button>
+    );
+}
+
+interface PeakRunoffCardProps {
+    peakRunoff: number;
+    modelVersion: string | null;
+    /** Why the peak could not be updated for the current inputs */
+    error: string | null;
+}
+
+/** The design peak, tagged with the PINN version when the network produced it */
+function PeakRunoffCard({ peakRunoff, modelVersion, error }: PeakRunoffCardProps) {
+    return (
+        <div data-testid="peak-runoff" className="col-span-2 bg-purple-900/30 rounded-2xl p-4 border border-purple-500/20 flex items-center justify-between">
+            <div>
+                <p className="text-purple-400 text-[10px] font-bold uppercase tracking-widest mb-1">Peak Runoff</p>
+                <p className="text-2xl font-bold text-white">{peakRunoff.toFixed(2)}<span className="text-sm font-normal text-purple-300/60">L/s</span></p>
+                {error && <p className="text-[10px] text-red-400">Not updated: {error}</p>}
+            </div>
+            {modelVersion && <span className="px-2 py-0.5 rounded bg-purple-500/20 text-[9px] text-purple-300 border border-purple-500/30 font-black uppercase">⚡ PINN v{modelVersion}</span>}
+        </div>
+    );
+}
+
 function PerformanceCard({ label, val }: { label: string; val: number }) {
     return (
         <div className="bg-emerald-900/40 rounded-2xl p-4 border border-emerald-500/30">
@@ -1,18 +1,56 @@
-export function SizingModeToggle({ mode, setMode }: { mode: 'rate' | 'volume'; setMode: (m: 'rate' | 'volume') => void }) {
+import type { RunoffMethod } from '../../../hooks/useARScanner';
+import type { ScsRunoffResult } from '../../../lib/hydrology-engine';
+
+interface SizingModeToggleProps {
+    mode: 'rate' | 'volume';
+    setMode: (m: 'rate' | 'volume') => void;
+    method: RunoffMethod;
+    setMethod: (m: RunoffMethod) => void;
+    scsResult: ScsRunoffResult | null;
+}
+
+export function SizingModeToggle({ mode, setMode, method, setMethod, scsResult }: SizingModeToggleProps) {
+    return (
+        <div className="mb-4">
+            <div className="flex gap-2 bg-gray-950 p-1 rounded-xl border border-white/5">
+                <button
+                    onClick={() => setMode('rate')}
+                    className={`flex-1 py-1.5 rounded-lg font-black text-[9px] uppercase tracking-widest transition-all ${mode === 'rate' ? 'bg-white text-gray-900' : 'text-gray-500 hover:text-white'}`}
+                >
+                    Rate-Based (Flow)
+                </button>
+                <button
+                    onClick={() => setMode('volume')}
+                    className={`flex-1 py-1.5 rounded-lg font-black text-[9px] uppercase tracking-widest transition-all ${mode === 'volume' ? 'bg-white text-gray-900' : 'text-gray-500 hover:text-white'}`}
+                >
+                    Volume-Based (Depth)
+                </button>
+            </div>
+            <RunoffMethodToggle method={method} setMethod={setMethod} />
+            <ScsSummary scsResult={scsResult} />
+        </div>
+    );
+}
+
+function RunoffMethodToggle({ method, setMethod }: { method: RunoffMethod; setMethod: (m: RunoffMethod) => void }) {
+    const btnCls = (active: boolean) => `flex-1 py-1 rounded-md font-bold text-[8px] uppercase tracking-widest transition-all ${active ? 'bg-blue-500/30 text-blue-200' : 'text-gray-500 hover:text-white'}`;
     return (
-        <div className="flex gap-2 mb-4 bg-gray-950 p-1 rounded-xl border border-white/5">
-            <button
-                onClick={() => setMode('rate')}
-                className={`flex-1 py-1.5 rounded-lg font-black text-[9px] uppercase tracking-widest transition-all ${mode === 'rate' ? 'bg-white text-gray-900' : 'text-gray-500 hover:text-white'}`}
-            >
-                Rate-Based (Flow)
+        <div className="flex gap-2 mt-2 bg-gray-950 p-1 rounded-lg border border-white/5">
+            <button data-testid="method-rational" onClick={() => setMethod('rational')} className={btnCls(method === 'rational')}>
+                Rational Method
             </button>
-            <button
-                onClick={() => setMode('volume')}
-                className={`flex-1 py-1.5 rounded-lg font-black text-[9px] uppercase tracking-widest transition-all ${mode === 'volume' ? 'bg-white text-gray-900' : 'text-gray-500 hover:text-white'}`}
-            >
-                Volume-Based (Depth)
+            <button data-testid="method-scs" onClick={() => setMethod('scs')} className={btnCls(method === 'scs')}>
+                SCS Curve Number
             </button>
         </div>
     );
 }
+
+function ScsSummary({ scsResult }: { scsResult: ScsRunoffResult | null }) {
+    if (!scsResult) return null;
+    return (
+        <p data-testid="scs-summary" className="mt-1 text-[9px] text-blue-300/70 font-mono text-center">
+            CN {Math.round(scsResult.curveNumber)} · Q {scsResult.runoffDepth_mm.toFixed(1)} mm · {Math.round(scsResult.runoffVolume_L)} L
+        </p>
+    );
+}
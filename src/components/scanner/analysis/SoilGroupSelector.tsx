@@ -0,0 +1,34 @@
+import { TYPICAL_INFILTRATION_MM_HR, type HydrologicSoilGroup } from '../../../lib/hydrology-engine';
+
+const SOIL_GROUPS: HydrologicSoilGroup[] = ['A', 'B', 'C', 'D'];
+
+/** 1 m/s expressed in mm/hr */
+const MM_HR_PER_M_S = 3.6e6;
+
+interface SoilGroupSelectorProps {
+    soilGroup: HydrologicSoilGroup;
+    onChange: (soilGroup: HydrologicSoilGroup) => void;
+}
+
+/**
+ * Hydrologic soil group of the site. Curve numbers, pavement drawdown and
+ * the DWA-A 138 swale take its typical conductivity, not a measured kf.
+ */
+export function SoilGroupSelector({ soilGroup, onChange }: SoilGroupSelectorProps) {
+    const btnCls = (active: boolean) => `flex-1 py-1 rounded-md font-bold text-[9px] transition-all ${active ? 'bg-amber-500/30 text-amber-200' : 'text-gray-500 hover:text-white'}`;
+    return (
+        <div className="mb-4">
+            <div className="flex items-center gap-2 bg-gray-950 p-1 rounded-lg border border-white/5">
+                <span className="px-2 text-[8px] font-bold uppercase tracking-widest text-gray-500">Soil</span>
+                {SOIL_GROUPS.map(group => (
+                    <button key={group} data-testid={`soil-${group}`} onClick={() => onChange(group)} className={btnCls(group === soilGroup)}>
+                        {group}
+                    </button>
+                ))}
+            </div>
+            <p data-testid="soil-assumption" className="mt-1 text-[9px] text-amber-300/70 font-mono text-center">
+                Group {soilGroup} · kf {(TYPICAL_INFILTRATION_MM_HR[soilGroup] / MM_HR_PER_M_S).toExponential(1)} m/s assumed, not measured
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,33 @@
+import { getBmpDefinition } from '../../../lib/bmp-catalog';
+import type { SubCatchmentPlan } from '../../../types/database';
+
+export function SubCatchmentList({ subCatchments }: { subCatchments: SubCatchmentPlan[] | null | undefined }) {
+    if (!subCatchments?.length) return null;
+
+    return (
+        <div data-testid="sub-catchment-list" className="bg-sky-900/30 rounded-2xl p-4 mb-6 border border-sky-500/20">
+            <p className="text-sky-400 text-[10px] font-bold uppercase tracking-widest mb-2">Sub-Catchments · {subCatchments.length} inlets</p>
+            <div className="flex flex-col gap-2">
+                {subCatchments.map((c, i) => <SubCatchmentRow key={c.id} index={i} subCatchment={c} />)}
+            </div>
+        </div>
+    );
+}
+
+function SubCatchmentRow({ index, subCatchment }: { index: number; subCatchment: SubCatchmentPlan }) {
+    return (
+        <div className="bg-black/20 rounded-xl p-3">
+            <div className="flex justify-between items-baseline">
+                <p className="text-xs font-bold text-white">
+                    #{index + 1} {subCatchment.outletSource === 'placed' ? '📍 Placed inlet' : '💧 Detected inlet'}
+                </p>
+                <p className="text-[10px] font-mono text-sky-300">
+                    {subCatchment.area_m2.toFixed(0)} m² · {(subCatchment.slope * 100).toFixed(1)}% · C {subCatchment.runoffCoefficient.toFixed(2)} · Tc {subCatchment.tc_min.toFixed(0)} min · {subCatchment.peakRunoff.toFixed(2)} L/s
+                </p>
+            </div>
+            <p className="text-[10px] text-gray-400 mt-1">
+                {subCatchment.fixes.map(f => `${getBmpDefinition(f.type).display.icon} ${f.size} m²`).join(' · ')}
+            </p>
+        </div>
+    );
+}
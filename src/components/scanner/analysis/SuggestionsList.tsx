@@ -1,26 +1,148 @@
 import type { GreenFix } from '../../../utils/hydrology';
+import type { UpdateFn } from '../../../hooks/useARScanner';
+import {
+    portfolioMetricValue,
+    type PortfolioMetric,
+    type PortfolioOption,
+    type PortfolioResult,
+    type PortfolioTarget
+} from '../../../lib/env-calculator';
+import { BMP_CATALOG } from '../../../lib/bmp-catalog';
 import { convertArea, getAreaUnit } from '../../../utils/units';
 
-export function SuggestionsList({ fixes, unitSystem }: { fixes: GreenFix[]; unitSystem: 'metric' | 'imperial' }) {
+interface SuggestionsListProps {
+    fixes: GreenFix[];
+    unitSystem: 'metric' | 'imperial';
+    portfolio: PortfolioResult | null;
+    target: PortfolioTarget;
+    budget: number | null;
+    update: UpdateFn;
+}
+
+const METRIC_LABELS: Record<PortfolioMetric, { label: string; unit: string; defaultTarget: number }> = {
+    peak_reduction: { label: 'Peak Reduction', unit: '%', defaultTarget: 40 },
+    wqv: { label: 'WQv Captured', unit: 'L', defaultTarget: 5000 },
+    phosphorus: { label: 'Phosphorus Removed', unit: 'lb/yr', defaultTarget: 0.05 }
+};
+
+/** Pareto points listed in the panel */
+const MAX_FRONT_ROWS = 6;
+
+export function SuggestionsList({ fixes, unitSystem, portfolio, target, budget, update }: SuggestionsListProps) {
     return (
         <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-5 mb-6 border border-white/5">
             <h3 className="font-bold mb-4 flex items-center gap-2 text-xs text-gray-400 uppercase tracking-widest">Hydrology Mitigation Strategy</h3>
+            <PortfolioControls target={target} budget={budget} update={update} />
+            <InfeasibleNotice portfolio={portfolio} />
             <div className="space-y-3">
                 {fixes.map((fix, i) => <FixCard key={i} fix={fix} unitSystem={unitSystem} />)}
             </div>
+            {portfolio && <ParetoFront portfolio={portfolio} />}
+        </div>
+    );
+}
+
+function PortfolioControls({ target, budget, update }: Pick<SuggestionsListProps, 'target' | 'budget' | 'update'>) {
+    const setMetric = (metric: PortfolioMetric) =>
+        update({ portfolioTarget: { metric, value: METRIC_LABELS[metric].defaultTarget } });
+    const setBudget = (value: string) => update({ portfolioBudget: value === '' ? null : Math.max(0, parseFloat(value)) });
+
+    return (
+        <div className="flex items-center gap-2 mb-4 text-[10px] text-gray-300">
+            <select
+                data-testid="portfolio-metric"
+                value={target.metric}
+                onChange={(e) => setMetric(e.target.value as PortfolioMetric)}
+                className="bg-gray-900 rounded-lg px-2 py-1"
+            >
+                {(Object.keys(METRIC_LABELS) as PortfolioMetric[]).map(m => <option key={m} value={m}>{METRIC_LABELS[m].label}</option>)}
+            </select>
+            <input
+                data-testid="portfolio-target"
+                type="number"
+                min="0"
+                value={target.value}
+                onChange={(e) => update({ portfolioTarget: { ...target, value: parseFloat(e.target.value) || 0 } })}
+                className="w-16 bg-transparent border-b border-white/10 text-right font-bold text-white"
+            />
+            <span>{METRIC_LABELS[target.metric].unit}</span>
+            <span className="ml-auto">Budget €</span>
+            <input
+                data-testid="portfolio-budget"
+                type="number"
+                min="0"
+                placeholder="∞"
+                value={budget ?? ''}
+                onChange={(e) => setBudget(e.target.value)}
+                className="w-20 bg-transparent border-b border-white/10 text-right font-bold text-white"
+            />
         </div>
     );
 }
 
+function InfeasibleNotice({ portfolio }: { portfolio: PortfolioResult | null }) {
+    if (!portfolio || portfolio.feasible) return null;
+    return (
+        <p data-testid="portfolio-infeasible" className="text-[10px] text-amber-400 font-bold mb-3">
+            Target not reachable within site space and budget · showing the most effective affordable mix
+        </p>
+    );
+}
+
+function ParetoFront({ portfolio }: { portfolio: PortfolioResult }) {
+    const rows = thinFront(portfolio.paretoFront, MAX_FRONT_ROWS, portfolio.optimal);
+    if (rows.length === 0) return null;
+
+    return (
+        <div data-testid="pareto-front" className="mt-4">
+            <p className="text-[10px] text-gray-500 font-bold uppercase tracking-widest mb-2">Cost vs. {METRIC_LABELS[portfolio.target.metric].label}</p>
+            <div className="space-y-1">
+                {rows.map((option, i) => (
+                    <ParetoRow key={i} option={option} metric={portfolio.target.metric} isOptimal={option === portfolio.optimal} />
+                ))}
+            </div>
+        </div>
+    );
+}
+
+function ParetoRow({ option, metric, isOptimal }: { option: PortfolioOption; metric: PortfolioMetric; isOptimal: boolean }) {
+    const cls = isOptimal ? 'bg-emerald-500/10 border-emerald-500/30' : 'bg-gray-900/40 border-white/5';
+    const value = portfolioMetricValue(option, metric);
+
+    return (
+        <div className={`flex items-center justify-between rounded-lg px-3 py-1.5 border text-[10px] ${cls}`}>
+            <span className="font-mono font-bold text-white">€{Math.round(option.cost).toLocaleString()}</span>
+            <span className="text-gray-400">
+                {option.allocations.map(a => `${BMP_CATALOG[a.bmpType].display.icon} ${Math.round(a.area_m2)}m²`).join(' · ')}
+            </span>
+            <span className="font-bold text-emerald-400">{formatMetric(value)} {METRIC_LABELS[metric].unit}</span>
+        </div>
+    );
+}
+
+/**
+ * Evenly spaced points along the front, always keeping the optimal portfolio
+ */
+function thinFront(front: PortfolioOption[], maxRows: number, optimal: PortfolioOption | null): PortfolioOption[] {
+    const step = Math.max(1, (front.length - 1) / (maxRows - 1));
+    const indices = Array.from({ length: Math.min(maxRows, front.length) }, (_, i) => Math.round(i * step));
+    const picked = new Set([...indices, front.indexOf(optimal!)].filter(i => i >= 0));
+    return [...picked].sort((a, b) => a - b).map(i => front[i]);
+}
+
+function formatMetric(value: number): string {
+    return value >= 10 ? String(Math.round(value)) : value.toFixed(2);
+}
+
 function FixCard({ fix, unitSystem }: { fix: GreenFix; unitSystem: 'metric' | 'imperial' }) {
     return (
         <div className="flex items-center justify-between bg-gray-900/40 rounded-2xl p-4 border border-white/5">
             <div className="flex items-center gap-4">
                 <div className="w-12 h-12 rounded-xl bg-emerald-500/10 flex items-center justify-center text-2xl">
-                    {fix.type === 'rain_garden' ? '🌿' : fix.type === 'permeable_pavement' ? '🧱' : '🌳'}
+                    {BMP_CATALOG[fix.type].display.icon}
                 </div>
                 <div>
-                    <p className="font-bold text-sm capitalize text-white">{fix.type.replace('_', ' ')}</p>
+                    <p className="font-bold text-sm text-white">{BMP_CATALOG[fix.type].display.name}</p>
                     <p className="text-[10px] text-gray-500 font-medium">{fix.placement}</p>
                 </div>
             </div>
@@ -0,0 +1,75 @@
+import { SURFACE_COVERS, type CompositeCatchment, type SurfaceShare, type SurfaceType } from '../../../lib/hydrology-engine';
+
+interface SurfaceMixEditorProps {
+    mix: readonly SurfaceShare[];
+    catchment: CompositeCatchment | null;
+    onChange: (mix: SurfaceShare[]) => void;
+}
+
+const SURFACE_TYPES = Object.keys(SURFACE_COVERS) as SurfaceType[];
+
+export function SurfaceMixEditor({ mix, catchment, onChange }: SurfaceMixEditorProps) {
+    const setRow = (index: number, row: SurfaceShare) => onChange(mix.map((r, i) => (i === index ? row : r)));
+    const removeRow = (index: number) => onChange(mix.filter((_, i) => i !== index));
+    const unused = SURFACE_TYPES.find(t => !mix.some(r => r.surface === t));
+    const addRow = () => unused && onChange([...mix, { surface: unused, fraction: 0 }]);
+
+    return (
+        <div data-testid="surface-mix" className="bg-gray-800/50 rounded-2xl p-4 mb-6 border border-white/5">
+            <div className="flex justify-between items-center mb-2">
+                <p className="text-gray-400 text-[10px] font-bold uppercase tracking-widest">Surface Mix</p>
+                <CompositeSummary catchment={catchment} />
+            </div>
+            <div className="space-y-1.5">
+                {mix.map((row, i) => (
+                    <SurfaceRow key={i} row={row} canRemove={mix.length > 1} onChange={(r) => setRow(i, r)} onRemove={() => removeRow(i)} />
+                ))}
+            </div>
+            {unused && (
+                <button data-testid="surface-add" onClick={addRow} className="mt-2 text-[10px] font-bold text-emerald-400">
+                    + Add surface
+                </button>
+            )}
+        </div>
+    );
+}
+
+function CompositeSummary({ catchment }: { catchment: CompositeCatchment | null }) {
+    if (!catchment) return null;
+    return (
+        <span data-testid="composite-summary" className="text-[9px] font-mono text-emerald-300/80">
+            C {catchment.runoffCoefficient.toFixed(2)} · CN {Math.round(catchment.curveNumber)} · {Math.round(catchment.imperviousPercent)}% imp.
+        </span>
+    );
+}
+
+interface SurfaceRowProps {
+    row: SurfaceShare;
+    canRemove: boolean;
+    onChange: (row: SurfaceShare) => void;
+    onRemove: () => void;
+}
+
+function SurfaceRow({ row, canRemove, onChange, onRemove }: SurfaceRowProps) {
+    return (
+        <div className="flex items-center gap-2">
+            <select
+                value={row.surface}
+                onChange={(e) => onChange({ ...row, surface: e.target.value as SurfaceType })}
+                className="flex-1 bg-gray-900 rounded-lg px-2 py-1 text-xs text-white"
+            >
+                {SURFACE_TYPES.map(t => <option key={t} value={t}>{SURFACE_COVERS[t].label}</option>)}
+            </select>
+            <input
+                type="number"
+                min="0"
+                max="100"
+                value={Math.round(row.fraction * 100)}
+                onChange={(e) => onChange({ ...row, fraction: (parseFloat(e.target.value) || 0) / 100 })}
+                className="w-14 bg-transparent border-b border-white/10 text-right text-xs font-bold text-white"
+            />
+            <span className="text-[10px] text-gray-500">%</span>
+            {canRemove && <button onClick={onRemove} className="text-gray-500 text-xs">✕</button>}
+        </div>
+    );
+}
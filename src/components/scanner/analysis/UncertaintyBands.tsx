@@ -0,0 +1,38 @@
+import type { PercentileBand, RetrofitOutput, RetrofitUncertaintyResult } from '../../../lib/uncertainty-engine';
+
+const BAND_ROWS: Array<{ key: RetrofitOutput; label: string; format: (v: number) => string }> = [
+    { key: 'peakRunoff_Ls', label: 'Peak Runoff', format: (v) => `${v.toFixed(2)} L/s` },
+    { key: 'wqv_L', label: 'WQv', format: (v) => `${Math.round(v).toLocaleString()} L` },
+    { key: 'peakReduction_percent', label: 'Peak Reduction', format: (v) => `${Math.round(v)}%` },
+    { key: 'phosphorusRemoved_lb_yr', label: 'Phosphorus Removed', format: (v) => `${v.toFixed(3)} lb/yr` },
+    { key: 'nitrogenRemoved_lb_yr', label: 'Nitrogen Removed', format: (v) => `${v.toFixed(2)} lb/yr` }
+];
+
+export function UncertaintyBands({ result }: { result: RetrofitUncertaintyResult | null }) {
+    if (!result) return null;
+
+    return (
+        <div data-testid="uncertainty-bands" className="bg-gray-800/50 rounded-2xl p-4 mb-6 border border-white/5">
+            <div className="flex items-center justify-between mb-3">
+                <p className="text-gray-400 text-[10px] font-bold uppercase tracking-widest">Uncertainty · P10 / P50 / P90</p>
+                <p className="text-[9px] text-gray-500">Scan ±{Math.round(result.scanAccuracy_percent)}% · {result.iterations} runs</p>
+            </div>
+            <div className="space-y-1.5">
+                {BAND_ROWS.map(row => (
+                    <BandRow key={row.key} label={row.label} band={result.bands[row.key]} format={row.format} />
+                ))}
+            </div>
+        </div>
+    );
+}
+
+function BandRow({ label, band, format }: { label: string; band: PercentileBand; format: (v: number) => string }) {
+    return (
+        <div className="grid grid-cols-4 gap-2 text-[10px] items-baseline">
+            <span className="text-gray-400 font-bold">{label}</span>
+            <span className="text-right text-gray-500 font-mono">{format(band.p10)}</span>
+            <span className="text-right text-white font-mono font-bold">{format(band.p50)}</span>
+            <span className="text-right text-gray-500 font-mono">{format(band.p90)}</span>
+        </div>
+    );
+}
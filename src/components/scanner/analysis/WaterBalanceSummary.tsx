@@ -0,0 +1,25 @@
+import type { WaterBalanceResult } from '../../../lib/hydrology-engine';
+
+export function WaterBalanceSummary({ result }: { result: WaterBalanceResult | null }) {
+    if (!result) return null;
+
+    return (
+        <div data-testid="water-balance-summary" className="bg-cyan-900/30 rounded-2xl p-4 mb-6 border border-cyan-500/20">
+            <p className="text-cyan-400 text-[10px] font-bold uppercase tracking-widest mb-2">Rain Garden · Long-Term Performance</p>
+            <div className="grid grid-cols-3 gap-2 text-center">
+                <Stat label="Annual Capture" value={`${Math.round(result.capturePercent)}%`} />
+                <Stat label="Overflows / yr" value={String(Math.round(result.overflowEventsPerYear))} />
+                <Stat label="Max Ponding" value={`${Math.round(result.maxPondingDepth_mm)} mm`} />
+            </div>
+        </div>
+    );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+    return (
+        <div>
+            <p className="text-lg font-bold text-white">{value}</p>
+            <p className="text-[9px] text-cyan-300/60 uppercase">{label}</p>
+        </div>
+    );
+}
@@ -0,0 +1,91 @@
+import { useRef, useEffect } from 'react';
+import type { Voxel } from '../../../lib/spatial-coverage';
+import type { FlowRoutingResult, PondingResult } from '../../../lib/hydrology-engine';
+import { calculateVoxelBounds } from './ui/CoverageUtils';
+import { drawTerrainOverlays, type TerrainOverlays } from './ui/FlowOverlay';
+
+interface CoverageHeatmapProps {
+    voxels: Voxel[];
+    coveragePercent: number | null;
+    onFinish: () => void;
+    size?: number;
+    /** Flow paths and concentration points on the scanned terrain */
+    flow?: FlowRoutingResult | null;
+    /** Design storm ponding depths and spill points */
+    ponding?: PondingResult | null;
+}
+
+export function CoverageHeatmap({ voxels, coveragePercent, onFinish, size = 200, flow, ponding }: CoverageHeatmapProps) {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        const ctx = canvasRef.current?.getContext('2d');
+        if (!ctx) return;
+
+        renderHeatmap(ctx, voxels, size, { flow, ponding });
+    }, [voxels, size, flow, ponding]);
+
+    const display = coveragePercent !== null ? `${coveragePercent.toFixed(0)}%` : `${voxels.length} voxels`;
+
+    return (
+        <div className="fixed top-20 right-4 z-50 bg-gray-900/90 backdrop-blur rounded-xl p-3 border border-white/10 shadow-xl pointer-events-auto" data-testid="coverage-heatmap">
+            <div className="flex justify-between items-center mb-2">
+                <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">Coverage Map</span>
+                <span className="text-xs font-mono font-black text-emerald-400" data-testid="coverage-percent">{display}</span>
+            </div>
+            <canvas ref={canvasRef} width={size} height={size} className="rounded-lg" data-testid="coverage-canvas" />
+            <FlowLegend flow={flow} />
+            <PondingLegend ponding={ponding} />
+            <button
+                onClick={onFinish}
+                className="mt-2 w-full py-2 rounded-lg bg-gradient-to-r from-emerald-500 to-cyan-500 text-white text-xs font-bold uppercase tracking-wider hover:opacity-90 transition-all"
+                data-testid="finish-sweep-button"
+            >
+                ✓ Finish Sweep
+            </button>
+        </div>
+    );
+}
+
+function FlowLegend({ flow }: Pick<CoverageHeatmapProps, 'flow'>) {
+    if (!flow) return null;
+    return (
+        <p className="mt-1 text-[9px] text-cyan-300 font-bold" data-testid="flow-legend">
+            💧 {flow.concentrationPoints.length} concentration points · {flow.sinks.length} sinks
+        </p>
+    );
+}
+
+function PondingLegend({ ponding }: Pick<CoverageHeatmapProps, 'ponding'>) {
+    if (!ponding) return null;
+    return (
+        <p className="mt-1 text-[9px] text-blue-300 font-bold" data-testid="ponding-legend">
+            🌊 {ponding.pondedVolume_m3.toFixed(1)} m³ ponded · {ponding.spillPoints.length} spill points
+        </p>
+    );
+}
+
+function renderHeatmap(ctx: CanvasRenderingContext2D, voxels: Voxel[], size: number, terrain: TerrainOverlays) {
+    ctx.fillStyle = '#1f2937';
+    ctx.fillRect(0, 0, size, size);
+
+    if (voxels.length === 0) return;
+
+    const bounds = calculateVoxelBounds(voxels);
+    const scale = Math.min(size / (bounds.maxX - bounds.minX + 1), size / (bounds.maxY - bounds.minY + 1));
+
+    ctx.fillStyle = '#3b82f6';
+    voxels.forEach(voxel => {
+        const x = (voxel.gridX - bounds.minX) * scale;
+        const y = (voxel.gridY - bounds.minY) * scale;
+        ctx.fillRect(x, y, Math.max(1, scale - 1), Math.max(1, scale - 1));
+    });
+
+    // Flow and ponding are in site meters; voxel i spans [i, i + 1) voxel sizes
+    const voxelSize = voxels[0].voxelSize;
+    drawTerrainOverlays(ctx, terrain, (x, y) => ({ x: (x / voxelSize - bounds.minX) * scale, y: (y / voxelSize - bounds.minY) * scale }));
+
+    ctx.strokeStyle = '#4ade80';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(1, 1, size - 2, size - 2);
+}
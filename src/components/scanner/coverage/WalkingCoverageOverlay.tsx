@@ -0,0 +1,141 @@
+import { useRef, useEffect } from 'react';
+import type { GeoPolygon } from '../../../lib/spatial-coverage/domain/valueObjects/GeoPolygon';
+import type { GapInfo } from '../../../lib/spatial-coverage/domain/services/CoverageAnalyzer';
+import type { FlowRoutingResult, PondingResult } from '../../../lib/hydrology-engine';
+import { drawMiniMap, type VoxelData } from './ui/MiniMap';
+
+interface WalkingCoverageOverlayProps {
+    boundary: GeoPolygon | null;
+    currentPosition: { lat: number; lon: number } | null;
+    voxels: VoxelData[];
+    /** Voxels inside the boundary the walk has not covered yet */
+    gaps?: readonly GapInfo[];
+    isInsideBoundary: boolean;
+    coveragePercent: number;
+    stepCount?: number;
+    gpsAccuracy?: number;
+    size?: number;
+    /** Flow paths and concentration points on the scanned terrain */
+    flow?: FlowRoutingResult | null;
+    /** Design storm ponding depths and spill points */
+    ponding?: PondingResult | null;
+}
+
+/**
+ * WalkingCoverageOverlay - Tactical mini-map with heatmap visualization.
+ */
+export function WalkingCoverageOverlay(props: WalkingCoverageOverlayProps) {
+    if (!props.boundary) return null;
+
+    return (
+        <div className="absolute bottom-28 right-6 z-[100] pointer-events-none" data-testid="walking-coverage-overlay">
+            <div className="bg-slate-900/90 backdrop-blur-xl rounded-[2rem] p-4 border border-white/10 shadow-[0_30px_60px_-15px_rgba(0,0,0,0.5)] overflow-hidden">
+                <CoverageHeader percent={props.coveragePercent} />
+                <MiniMapCanvas {...props} />
+                <TacticalStats stepCount={props.stepCount} gpsAccuracy={props.gpsAccuracy} />
+                <BoundaryAlert isInsideBoundary={props.isInsideBoundary} currentPosition={props.currentPosition} />
+            </div>
+        </div>
+    );
+}
+
+function CoverageHeader({ percent }: { percent: number }) {
+    return (
+        <div className="flex items-center gap-4 mb-4">
+            <ProgressCircle percent={percent} />
+            <div className="flex flex-col">
+                <div className="flex items-baseline gap-1">
+                    <span className="text-2xl text-white font-black leading-none">{percent.toFixed(0)}</span>
+                    <span className="text-[10px] text-emerald-500 font-bold uppercase tracking-wider">%</span>
+                </div>
+                <span className="text-[9px] text-slate-500 uppercase font-bold tracking-widest">Sensing Complete</span>
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Canvas with inner shadow, redrawn whenever the walk or the terrain results change
+ */
+function MiniMapCanvas({ boundary, currentPosition, voxels, gaps, isInsideBoundary, gpsAccuracy = 0, size = 200, flow, ponding }: WalkingCoverageOverlayProps) {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        const ctx = canvasRef.current?.getContext('2d');
+        if (ctx) drawMiniMap(ctx, { boundary, currentPosition, voxels, gaps, isInsideBoundary, gpsAccuracy, size, flow, ponding });
+    }, [boundary, currentPosition, voxels, gaps, isInsideBoundary, gpsAccuracy, size, flow, ponding]);
+
+    return (
+        <div className="relative rounded-2xl overflow-hidden shadow-[inset_0_2px_10px_rgba(0,0,0,0.5)] border border-white/5">
+            <canvas
+                ref={canvasRef}
+                width={size}
+                height={size}
+                className="block"
+                data-testid="walking-coverage-canvas"
+            />
+        </div>
+    );
+}
+
+function TacticalStats({ stepCount = 0, gpsAccuracy = 0 }: { stepCount?: number; gpsAccuracy?: number }) {
+    return (
+        <div className="grid grid-cols-2 gap-3 mt-4">
+            <div className="bg-white/5 rounded-xl p-2 border border-white/5">
+                <div className="text-[8px] text-slate-500 uppercase font-bold mb-0.5">Precision</div>
+                <div className="text-[11px] text-white font-mono">±{gpsAccuracy.toFixed(1)}m</div>
+            </div>
+            <div className="bg-white/5 rounded-xl p-2 border border-white/5">
+                <div className="text-[8px] text-slate-500 uppercase font-bold mb-0.5">Locomotion</div>
+                <div className="text-[11px] text-white font-mono">{stepCount} <span className="text-[8px] text-slate-500">STS</span></div>
+            </div>
+        </div>
+    );
+}
+
+function BoundaryAlert({ isInsideBoundary, currentPosition }: Pick<WalkingCoverageOverlayProps, 'isInsideBoundary' | 'currentPosition'>) {
+    if (isInsideBoundary || !currentPosition) return null;
+    return (
+        <div className="mt-3 py-2 bg-red-500/10 border border-red-500/20 rounded-xl">
+            <p className="text-[9px] text-red-400 font-black text-center uppercase animate-pulse">
+                Out of Bounds Exception
+            </p>
+        </div>
+    );
+}
+
+function ProgressCircle({ percent }: { percent: number }) {
+    const radius = 18;
+    const circumference = 2 * Math.PI * radius;
+    const strokeDashoffset = circumference - (percent / 100) * circumference;
+
+    return (
+        <div className="relative w-12 h-12 flex items-center justify-center">
+            <svg width="48" height="48" className="-rotate-90">
+                <circle
+                    cx="24" cy="24" r={radius}
+                    fill="transparent"
+                    stroke="rgba(255,255,255,0.05)"
+                    strokeWidth="5"
+                />
+                <circle
+                    cx="24" cy="24" r={radius}
+                    fill="transparent"
+                    stroke="url(#progressGradient)"
+                    strokeWidth="5"
+                    strokeDasharray={circumference}
+                    strokeDashoffset={strokeDashoffset}
+                    strokeLinecap="round"
+                    className="transition-all duration-1000 ease-out"
+                />
+                <defs>
+                    <linearGradient id="progressGradient" x1="0%" y1="0%" x2="100%" y2="0%">
+                        <stop offset="0%" stopColor="#10b981" />
+                        <stop offset="100%" stopColor="#34d399" />
+                    </linearGradient>
+                </defs>
+            </svg>
+            <div className={`absolute w-1.5 h-1.5 rounded-full bg-emerald-500 ${percent < 100 ? 'animate-ping' : ''}`} />
+        </div>
+    );
+}
@@ -0,0 +1,81 @@
+import {
+    MIN_PONDING_DEPTH_M,
+    rasterCell,
+    type ConcentrationPoint,
+    type FlowRoutingResult,
+    type PondingResult
+} from '../../../../lib/hydrology-engine';
+
+/** Maps local site meters to canvas pixels */
+export type CanvasProjection = (x: number, y: number) => { x: number; y: number };
+
+/** Hydrology results drawn over the scanned terrain */
+export interface TerrainOverlays {
+    flow?: FlowRoutingResult | null;
+    ponding?: PondingResult | null;
+}
+
+const POINT_COLORS: Record<ConcentrationPoint['kind'], string> = {
+    sink: '#f59e0b',   // Ponding: rain garden candidate
+    outlet: '#38bdf8'  // Leaves the site
+};
+
+/**
+ * Draw the design storm ponding beneath the drainage network
+ */
+export function drawTerrainOverlays(ctx: CanvasRenderingContext2D, { flow, ponding }: TerrainOverlays, project: CanvasProjection) {
+    if (ponding) drawPonding(ctx, ponding, project);
+    if (flow) drawFlowRouting(ctx, flow, project);
+}
+
+/**
+ * Draw the drainage network, widening with accumulated flow, and mark the
+ * concentration points where runoff gathers.
+ */
+export function drawFlowRouting(ctx: CanvasRenderingContext2D, flow: FlowRoutingResult, project: CanvasProjection) {
+    const cells = flow.raster.elevations.length;
+
+    ctx.strokeStyle = 'rgba(34, 211, 238, 0.8)';
+    flow.channels.forEach(({ from, to }) => {
+        const a = project(from.x, from.y);
+        const b = project(to.x, to.y);
+        ctx.lineWidth = 1 + 3 * Math.sqrt(flow.accumulation[from.index] / cells);
+        ctx.beginPath();
+        ctx.moveTo(a.x, a.y);
+        ctx.lineTo(b.x, b.y);
+        ctx.stroke();
+    });
+
+    flow.concentrationPoints.forEach(point => {
+        const p = project(point.x, point.y);
+        ctx.fillStyle = POINT_COLORS[point.kind];
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, 4, 0, Math.PI * 2);
+        ctx.fill();
+    });
+}
+
+/**
+ * Shade ponded cells darker with depth and ring the rims where ponds spill over
+ */
+export function drawPonding(ctx: CanvasRenderingContext2D, ponding: PondingResult, project: CanvasProjection) {
+    const half = ponding.raster.cellSize_m / 2;
+
+    ponding.depths_m.forEach((depth, i) => {
+        if (depth < MIN_PONDING_DEPTH_M) return;
+        const { x, y } = rasterCell(ponding.raster, i);
+        const a = project(x - half, y - half);
+        const b = project(x + half, y + half);
+        ctx.fillStyle = `rgba(37, 99, 235, ${(0.25 + 0.6 * depth / ponding.maxDepth_m).toFixed(2)})`;
+        ctx.fillRect(a.x, a.y, b.x - a.x, b.y - a.y);
+    });
+
+    ctx.strokeStyle = '#f43f5e';
+    ctx.lineWidth = 2;
+    ponding.spillPoints.forEach(spill => {
+        const p = project(spill.x, spill.y);
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, 5, 0, Math.PI * 2);
+        ctx.stroke();
+    });
+}
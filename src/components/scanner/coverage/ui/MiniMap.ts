@@ -0,0 +1,176 @@
+import { GeoPolygon, type GeoVertex } from '../../../../lib/spatial-coverage/domain/valueObjects/GeoPolygon';
+import type { GapInfo } from '../../../../lib/spatial-coverage/domain/services/CoverageAnalyzer';
+import { drawTerrainOverlays, type CanvasProjection, type TerrainOverlays } from './FlowOverlay';
+
+const METERS_PER_DEGREE = 111320;
+const PADDING = 0.25;
+const GRID_STEP_M = 10;
+
+export interface VoxelData {
+    worldX: number;
+    worldY: number;
+    visitCount?: number;
+    elevation?: number;
+}
+
+/** Everything drawn on the walking mini-map */
+export interface MiniMapScene extends TerrainOverlays {
+    boundary: GeoPolygon | null;
+    currentPosition: { lat: number; lon: number } | null;
+    voxels: VoxelData[];
+    /** Voxels inside the boundary the walk has not covered yet */
+    gaps?: readonly GapInfo[];
+    isInsideBoundary: boolean;
+    gpsAccuracy: number;
+    size: number;
+}
+
+interface Viewport {
+    size: number;
+    /** Canvas pixels per meter */
+    scale: number;
+    project: (lat: number, lon: number) => { x: number; y: number };
+    projectLocal: CanvasProjection;
+}
+
+const TONES = {
+    inside: { halo: 'rgba(16, 185, 129, 0.1)', dot: '#10b981', frame: 'rgba(16, 185, 129, 0.5)' },
+    outside: { halo: 'rgba(239, 68, 68, 0.1)', dot: '#ef4444', frame: 'rgba(239, 68, 68, 0.5)' }
+};
+
+/**
+ * Draw the tactical mini-map: grid, boundary, coverage gaps and heatmap,
+ * terrain hydrology, the walker's position and a frame tinted by the
+ * boundary check.
+ */
+export function drawMiniMap(ctx: CanvasRenderingContext2D, scene: MiniMapScene) {
+    const poly = GeoPolygon.ensureInstance(scene.boundary);
+    if (!poly) return;
+
+    const view = createViewport(poly, scene.size);
+    drawGrid(ctx, view);
+    drawBoundary(ctx, poly.vertices, view);
+    drawGaps(ctx, scene.gaps, view);
+    drawVoxels(ctx, scene.voxels, view);
+    drawTerrainOverlays(ctx, scene, view.projectLocal);
+    drawPosition(ctx, scene, view);
+    drawFrame(ctx, view.size, scene.isInsideBoundary);
+}
+
+/**
+ * Fit the boundary into the canvas around its centroid. Site meters are
+ * measured from the centroid, like the voxels.
+ */
+function createViewport(poly: GeoPolygon, size: number): Viewport {
+    const bounds = poly.getBounds();
+    const origin = poly.getCentroid();
+    const metersPerLon = METERS_PER_DEGREE * Math.cos(origin.lat * Math.PI / 180);
+    const maxRange = Math.max((bounds.maxLon - bounds.minLon) * metersPerLon, (bounds.maxLat - bounds.minLat) * METERS_PER_DEGREE);
+
+    // Guard against division by zero for degenerate polygons
+    const scale = maxRange > 0.0001 ? (size / maxRange) * (1 - PADDING) : 1;
+    const center = size / 2;
+    const projectLocal = (x: number, y: number) => ({ x: x * scale + center, y: -y * scale + center });
+    const project = (lat: number, lon: number) => projectLocal((lon - origin.lon) * metersPerLon, (lat - origin.lat) * METERS_PER_DEGREE);
+    return { size, scale, project, projectLocal };
+}
+
+function drawGrid(ctx: CanvasRenderingContext2D, { size, scale }: Viewport) {
+    ctx.fillStyle = '#0f172a'; // Slate-900
+    ctx.fillRect(0, 0, size, size);
+
+    ctx.strokeStyle = '#1e293b'; // Slate-800
+    ctx.lineWidth = 1;
+    const step = scale * GRID_STEP_M;
+    for (let t = (size / 2) % step; t < size; t += step) {
+        ctx.beginPath(); ctx.moveTo(t, 0); ctx.lineTo(t, size); ctx.stroke();
+        ctx.beginPath(); ctx.moveTo(0, t); ctx.lineTo(size, t); ctx.stroke();
+    }
+}
+
+function drawBoundary(ctx: CanvasRenderingContext2D, vertices: readonly GeoVertex[], view: Viewport) {
+    if (vertices.length < 3) return;
+
+    ctx.beginPath();
+    vertices.forEach((v, i) => {
+        const p = view.project(v.lat, v.lon);
+        if (i === 0) ctx.moveTo(p.x, p.y);
+        else ctx.lineTo(p.x, p.y);
+    });
+    ctx.closePath();
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.4)';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([5, 5]);
+    ctx.stroke();
+    ctx.setLineDash([]);
+}
+
+/**
+ * Uncovered voxels as faint red cells, left to walk
+ */
+function drawGaps(ctx: CanvasRenderingContext2D, gaps: readonly GapInfo[] | undefined, view: Viewport) {
+    if (!gaps) return;
+    ctx.fillStyle = 'rgba(239, 68, 68, 0.2)';
+    gaps.forEach(gap => {
+        const p = view.projectLocal(gap.centerX, gap.centerY);
+        const cell = Math.sqrt(gap.areaM2) * view.scale;
+        ctx.fillRect(p.x - cell / 2, p.y - cell / 2, cell, cell);
+    });
+}
+
+/**
+ * Heatmap voxels with a glow, yellow on the first visit turning emerald
+ */
+function drawVoxels(ctx: CanvasRenderingContext2D, voxels: VoxelData[], view: Viewport) {
+    const voxelSize = Math.max(4, view.scale * 0.6);
+    voxels.forEach(v => {
+        const p = view.projectLocal(v.worldX, v.worldY);
+        const color = getHeatmapColor(Math.min((v.visitCount || 1) / 5, 1));
+        ctx.shadowBlur = 4;
+        ctx.shadowColor = color;
+        ctx.fillStyle = color;
+        ctx.fillRect(p.x - voxelSize / 2, p.y - voxelSize / 2, voxelSize, voxelSize);
+    });
+    ctx.shadowBlur = 0;
+}
+
+/**
+ * The walker's dot inside a halo pulsing with the GPS accuracy
+ */
+function drawPosition(ctx: CanvasRenderingContext2D, scene: MiniMapScene, view: Viewport) {
+    if (!scene.currentPosition) return;
+    const p = view.project(scene.currentPosition.lat, scene.currentPosition.lon);
+    const tone = boundaryTone(scene.isInsideBoundary);
+
+    const pulse = 1 + Math.sin(Date.now() / 1000 * 4) * 0.2;
+    ctx.beginPath();
+    ctx.arc(p.x, p.y, Math.max(6, scene.gpsAccuracy * view.scale * 0.1) * pulse, 0, Math.PI * 2);
+    ctx.fillStyle = tone.halo;
+    ctx.fill();
+
+    ctx.beginPath();
+    ctx.arc(p.x, p.y, 6, 0, Math.PI * 2);
+    ctx.fillStyle = tone.dot;
+    ctx.fill();
+    ctx.strokeStyle = '#fff';
+    ctx.lineWidth = 2;
+    ctx.stroke();
+}
+
+function drawFrame(ctx: CanvasRenderingContext2D, size: number, isInsideBoundary: boolean) {
+    ctx.strokeStyle = boundaryTone(isInsideBoundary).frame;
+    ctx.lineWidth = 4;
+    ctx.strokeRect(2, 2, size - 4, size - 4);
+}
+
+function boundaryTone(isInsideBoundary: boolean) {
+    return isInsideBoundary ? TONES.inside : TONES.outside;
+}
+
+function getHeatmapColor(intensity: number): string {
+    // Yellow (255, 230, 0) → Emerald (16, 185, 129)
+    const r = Math.round(255 - intensity * (255 - 16));
+    const g = Math.round(230 + intensity * (185 - 230));
+    const b = Math.round(0 + intensity * 129);
+    return `rgb(${r}, ${g}, ${b})`;
+}
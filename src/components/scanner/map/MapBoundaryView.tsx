@@ -5,6 +5,8 @@ import { GeoPolygon, type GeoVertex } from '../../../lib/spatial-coverage/domain
 import { useGPSAnchor } from '../../../hooks/scanner/useGPSAnchor';
 import { ScannerHUD } from '../HUD/ScannerHUD';
 import { CoordinateTransform } from '../../../lib/spatial-coverage/domain/services/CoordinateTransform';
+import type { SubCatchmentPlan } from '../../../types/database';
+import { SubCatchmentOverlay } from './SubCatchmentOverlay';
 
 const MAPBOX_TOKEN = import.meta.env.VITE_MAPBOX_TOKEN || '';
 
@@ -16,8 +18,13 @@ const MAX_RADIUS = 300;
 export interface MapBoundaryViewProps {
     minVertices?: number;
     maxVertices?: number;
-    onBoundaryConfirmed: (polygon: GeoPolygon) => void;
+    /** Called with the site polygon and the inlets placed on the map */
+    onBoundaryConfirmed: (polygon: GeoPolygon, outlets: GeoVertex[]) => void;
     onCancel?: () => void;
+    /** Inlets placed in an earlier planning session */
+    initialOutlets?: GeoVertex[];
+    /** Sub-catchments delineated from the last scan */
+    subCatchments?: SubCatchmentPlan[] | null;
 }
 
 // Set token globally as early as possible
@@ -32,14 +39,19 @@ export function MapBoundaryView({
     minVertices = 3,
     maxVertices = 10,
     onBoundaryConfirmed,
-    onCancel
+    onCancel,
+    initialOutlets = [],
+    subCatchments
 }: MapBoundaryViewProps) {
     const mapContainer = useRef<HTMLDivElement>(null);
     const map = useRef<mapboxgl.Map | null>(null);
     const markersRef = useRef<mapboxgl.Marker[]>([]);
     const hasInitRef = useRef(false);
+    const placingOutletsRef = useRef(false);
 
     const [vertices, setVertices] = useState<GeoVertex[]>([]);
+    const [outlets, setOutlets] = useState<GeoVertex[]>(initialOutlets);
+    const [placingOutlets, setPlacingOutlets] = useState(false);
     const [isMapReady, setIsMapReady] = useState(false);
     const [mapInitError, setMapInitError] = useState(false);
     const [rawMapError, setRawMapError] = useState<string | null>(null);
@@ -111,8 +123,12 @@ export function MapBoundaryView({
                 m.on('render', () => { if (!isMapReady) markReady(); });
                 m.on('load', () => { markReady(); m.resize(); });
 
-                // VERTEX PLACEMENT VIA MAP CLICK
+                // VERTEX (OR INLET) PLACEMENT VIA MAP CLICK
                 m.on('click', (e) => {
+                    if (placingOutletsRef.current) {
+                        setOutlets(prev => [...prev, { lat: e.lngLat.lat, lon: e.lngLat.lng }]);
+                        return;
+                    }
                     setVertices(prev => {
                         if (prev.length >= (maxVertices || 10)) return prev;
                         if (navigator.vibrate) navigator.vibrate(20);
@@ -214,10 +230,15 @@ export function MapBoundaryView({
         updatePolygonLayer(map.current, vertices, isAreaTooSmall || isAreaTooLarge || isTooFar);
     }, [vertices, isTooFar, isAreaTooSmall, isAreaTooLarge, isMapReady]);
 
+    const toggleOutletMode = useCallback(() => {
+        placingOutletsRef.current = !placingOutletsRef.current;
+        setPlacingOutlets(placingOutletsRef.current);
+    }, []);
+
     const handleConfirm = useCallback(() => {
         if (!isValid) return;
-        onBoundaryConfirmed(GeoPolygon.create(vertices));
-    }, [vertices, isValid, onBoundaryConfirmed]);
+        onBoundaryConfirmed(GeoPolygon.create(vertices), outlets);
+    }, [vertices, outlets, isValid, onBoundaryConfirmed]);
 
     const handleRecenter = useCallback(() => {
         if (map.current && gps.lat && gps.lon) {
@@ -271,6 +292,8 @@ export function MapBoundaryView({
                 </div>
             )}
 
+            <SubCatchmentOverlay map={map} isMapReady={isMapReady} outlets={outlets} subCatchments={subCatchments} />
+
             <ScannerHUD color={isTooFar || isAreaTooLarge ? 'amber' : 'emerald'} />
 
             {/* UI HUD Elements - Always on top */}
@@ -300,16 +323,26 @@ export function MapBoundaryView({
             </div>
 
             <MapControls
-                canUndo={vertices.length > 0}
-                canClear={vertices.length > 0}
+                canUndo={(placingOutlets ? outlets : vertices).length > 0}
+                canClear={(placingOutlets ? outlets : vertices).length > 0}
                 canConfirm={isValid}
-                onUndo={() => setVertices(v => v.slice(0, -1))}
-                onClear={() => setVertices([])}
+                onUndo={() => (placingOutlets ? setOutlets : setVertices)(v => v.slice(0, -1))}
+                onClear={() => (placingOutlets ? setOutlets : setVertices)([])}
                 onConfirm={handleConfirm}
                 onCancel={onCancel}
                 statusMessage={isTooFar ? "Out of safe range" : isAreaTooLarge ? "Above max area" : isAreaTooSmall ? "Area too small" : ""}
             />
 
+            {/* INLET PLACEMENT TOGGLE */}
+            <button
+                onClick={toggleOutletMode}
+                className={`absolute bottom-[340px] right-4 z-40 w-12 h-12 backdrop-blur-xl border rounded-2xl flex items-center justify-center shadow-2xl transition-all duration-300 active:scale-90 pointer-events-auto ${placingOutlets ? 'bg-sky-500 border-sky-300 text-black' : 'bg-black/80 border-white/10 text-sky-400'}`}
+                title="Place Inlets"
+                data-testid="place-inlets-button"
+            >
+                💧
+            </button>
+
             {/* RECENTER BUTTON (Google Maps Style) */}
             <button
                 onClick={handleRecenter}
@@ -331,6 +364,10 @@ export function MapBoundaryView({
                         <span>NODES</span>
                         <span data-testid="node-count">{vertices.length}</span>
                     </div>
+                    <div className="flex justify-between items-center text-sky-400 font-black">
+                        <span>INLETS</span>
+                        <span data-testid="inlet-count">{outlets.length}</span>
+                    </div>
                     <div className="h-px bg-white/10 my-0.5" />
                     <div className="flex justify-between gap-4">
                         <span className="text-gray-500">AREA</span>
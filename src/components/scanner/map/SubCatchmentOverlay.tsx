@@ -0,0 +1,65 @@
+import { useEffect, type RefObject } from 'react';
+import mapboxgl from 'mapbox-gl';
+import type { GeoVertex } from '../../../lib/spatial-coverage/domain/valueObjects/GeoPolygon';
+import type { SubCatchmentPlan } from '../../../types/database';
+
+const SUB_CATCHMENT_COLORS = ['#38bdf8', '#a78bfa', '#f472b6', '#facc15', '#34d399', '#fb923c'];
+
+const SOURCE_ID = 'sub-catchments';
+const FILL_LAYER_ID = 'sub-catchments-fill';
+
+export interface SubCatchmentOverlayProps {
+    map: RefObject<mapboxgl.Map | null>;
+    isMapReady: boolean;
+    /** Inlets placed on the map */
+    outlets: GeoVertex[];
+    /** Sub-catchments delineated from the last scan */
+    subCatchments?: SubCatchmentPlan[] | null;
+}
+
+/**
+ * SubCatchmentOverlay - Draws the delineation on the planning map: a marker
+ * per placed inlet and each sub-catchment's footprint in its own colour.
+ */
+export function SubCatchmentOverlay({ map, isMapReady, outlets, subCatchments }: SubCatchmentOverlayProps) {
+    useEffect(() => {
+        const m = map.current;
+        if (!m || !isMapReady) return;
+
+        const markers = outlets.map(o => new mapboxgl.Marker({ element: createOutletMarker(), anchor: 'center' })
+            .setLngLat([o.lon, o.lat])
+            .addTo(m));
+        updateSubCatchmentLayer(m, subCatchments);
+        return () => markers.forEach(marker => marker.remove());
+    }, [map, outlets, subCatchments, isMapReady]);
+
+    return null;
+}
+
+function createOutletMarker(): HTMLDivElement {
+    const el = document.createElement('div');
+    el.className = 'w-3 h-3 rotate-45 bg-sky-400 border border-white/80 shadow-2xl';
+    return el;
+}
+
+function updateSubCatchmentLayer(map: mapboxgl.Map, subCatchments: SubCatchmentPlan[] | null | undefined) {
+    removeSubCatchmentLayer(map);
+    if (!subCatchments?.length) return;
+    map.addSource(SOURCE_ID, {
+        type: 'geojson',
+        data: {
+            type: 'FeatureCollection',
+            features: subCatchments.map((c, i) => ({
+                type: 'Feature',
+                properties: { color: SUB_CATCHMENT_COLORS[i % SUB_CATCHMENT_COLORS.length] },
+                geometry: { type: 'MultiPolygon', coordinates: c.footprint.map(ring => [ring]) }
+            }))
+        }
+    });
+    map.addLayer({ id: FILL_LAYER_ID, type: 'fill', source: SOURCE_ID, paint: { 'fill-color': ['get', 'color'], 'fill-opacity': 0.35 } });
+}
+
+function removeSubCatchmentLayer(map: mapboxgl.Map) {
+    if (map.getLayer(FILL_LAYER_ID)) map.removeLayer(FILL_LAYER_ID);
+    if (map.getSource(SOURCE_ID)) map.removeSource(SOURCE_ID);
+}
@@ -1,5 +1,6 @@
 import type { UpdateFn, ARScannerState } from '../../../hooks/useARScanner';
-import { exportService, type ExportData } from '../../../lib/spatial-coverage/application/ExportService';
+import type { RainfallSeries } from '../../../lib/hydrology-engine';
+import { exportService, type ExportData, type LatLon, type SwmmModel } from '../../../lib/spatial-coverage/application/ExportService';
 
 export function ResultHeader({ area, unit }: { area: number; unit: string }) {
     return (
@@ -13,52 +14,111 @@ export function ResultHeader({ area, unit }: { area: number; unit: string }) {
     );
 }
 
+type ExportType = 'pdf' | 'obj' | 'dem' | 'ponding' | 'swmm';
+
+interface ExportFile {
+    blob: Blob;
+    filename: string;
+}
+
+/** Each export builds its file from the results, or null while its inputs are missing */
+const EXPORTERS: Record<ExportType, (scanner: ARScannerState) => Promise<ExportFile | null> | ExportFile | null> = {
+    pdf: async (scanner) => ({ blob: await exportService.toPDFText(reportData(scanner)), filename: 'catchment-report.pdf' }), // Actually .txt in this simplified version
+    obj: (scanner) => textFile(exportService.toOBJ([], scanner.elevationGrid), 'text/plain', 'catchment-mesh.obj'),
+    dem: (scanner) => textFile(exportService.toDEMCSV(scanner.elevationGrid!, siteLocation(scanner)), 'text/csv', 'catchment-dem.csv'),
+    ponding: (scanner) => textFile(exportService.toPondingCSV(scanner.ponding!, siteLocation(scanner)), 'text/csv', 'catchment-ponding.csv'),
+    swmm: (scanner) => {
+        const model = swmmModel(scanner);
+        return model && textFile(exportService.toSWMMInp(model), 'text/plain', 'catchment-model.inp');
+    }
+};
+
 export function ExportActionGroup({ scanner }: { scanner: ARScannerState }) {
-    const handleExport = async (type: 'pdf' | 'obj' | 'dem') => {
-        const data: ExportData = {
-            siteAddress: scanner.locationName,
-            areaSquareMeters: scanner.detectedArea || 0,
-            coveragePercent: 97.5, // Mocked for now, should come from coverage stats
-            validationStatus: (scanner.validationError !== null && scanner.validationError < 0.5) ? 'pass' : 'warning',
-            calibrationAccuracy: scanner.validationError || 0,
-            boundary: scanner.geoBoundary ? [] : [], // Need to convert GeoPolygon to Points if needed, or use local boundary
-            elevationGrid: scanner.elevationGrid,
-            timestamp: new Date()
-        };
-
-        let blob: Blob;
-        let filename: string;
-
-        if (type === 'pdf') {
-            blob = await exportService.toPDFText(data);
-            filename = 'catchment-report.pdf'; // Actually .txt in this simplified version
-        } else if (type === 'obj') {
-            const obj = exportService.toOBJ([], scanner.elevationGrid);
-            blob = new Blob([obj], { type: 'text/plain' });
-            filename = 'catchment-mesh.obj';
-        } else {
-            const csv = exportService.toDEMCSV(scanner.elevationGrid!, { lat: scanner.location?.lat || 0, lon: scanner.location?.lon || 0 });
-            blob = new Blob([csv], { type: 'text/csv' });
-            filename = 'catchment-dem.csv';
-        }
-
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = filename;
-        a.click();
-        URL.revokeObjectURL(url);
+    const handleExport = async (type: ExportType) => {
+        const file = await EXPORTERS[type](scanner);
+        if (file) downloadBlob(file.blob, file.filename);
     };
 
     return (
-        <div className="grid grid-cols-3 gap-2 mt-4 pt-4 border-t border-white/5">
+        <div className="grid grid-cols-5 gap-2 mt-4 pt-4 border-t border-white/5">
             <ExportButton label="PDF Report" icon="📄" onClick={() => handleExport('pdf')} color="text-white" />
             <ExportButton label="3D Mesh" icon="📦" onClick={() => handleExport('obj')} color="text-cyan-400" />
             <ExportButton label="Elev Map" icon="🗺️" onClick={() => handleExport('dem')} color="text-emerald-400" disabled={!scanner.elevationGrid} />
+            <ExportButton label="Flood Map" icon="🌊" onClick={() => handleExport('ponding')} color="text-blue-400" disabled={!scanner.ponding} />
+            <ExportButton label="SWMM Model" icon="🧮" onClick={() => handleExport('swmm')} color="text-purple-400" disabled={!scanner.catchment || !scanner.tcResult} />
         </div>
     );
 }
 
+function reportData(scanner: ARScannerState): ExportData {
+    return {
+        siteAddress: scanner.locationName,
+        areaSquareMeters: scanner.detectedArea ?? 0,
+        coveragePercent: 97.5, // Mocked for now, should come from coverage stats
+        validationStatus: validationStatus(scanner.validationError),
+        calibrationAccuracy: scanner.validationError ?? 0,
+        boundary: [], // Need to convert GeoPolygon to Points if needed, or use local boundary
+        elevationGrid: scanner.elevationGrid,
+        timestamp: new Date()
+    };
+}
+
+function validationStatus(validationError: number | null): ExportData['validationStatus'] {
+    return validationError !== null && validationError < 0.5 ? 'pass' : 'warning';
+}
+
+function textFile(text: string, type: string, filename: string): ExportFile {
+    return { blob: new Blob([text], { type }), filename };
+}
+
+/** Save the file through a temporary download link */
+function downloadBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+}
+
+const UNKNOWN_LOCATION: LatLon = { lat: 0, lon: 0 };
+
+function siteLocation({ location }: ARScannerState): LatLon {
+    return location ?? UNKNOWN_LOCATION;
+}
+
+/** The SWMM model of the results, null until the catchment and its Tc are known */
+function swmmModel(scanner: ARScannerState): SwmmModel | null {
+    const { catchment, tcResult } = scanner;
+    if (!catchment || !tcResult) return null;
+    return {
+        title: scanner.locationName,
+        catchment,
+        flowLength_m: tcResult.flowLength_m,
+        slope: tcResult.slope,
+        rainfall: swmmRainfall(scanner),
+        fixes: scanner.fixes,
+        boundary: localBoundary(scanner)
+    };
+}
+
+function localBoundary({ geoBoundary }: ARScannerState) {
+    return geoBoundary?.toLocalMeters(geoBoundary.centroid);
+}
+
+/**
+ * The design storm the results were sized for: the uplifted hyetograph, or
+ * an hour at the intensity of the selected climate scenario
+ */
+function swmmRainfall(scanner: ARScannerState): RainfallSeries {
+    return scanner.hyetograph ?? { intensities_mm_hr: [scenarioIntensity(scanner)], timeStep_min: 60 };
+}
+
+function scenarioIntensity({ climateScenarios, climateScenario, rainfall }: ARScannerState): number {
+    const selected = climateScenarios?.find(s => s.scenario === climateScenario);
+    return selected ? selected.intensity_mm_hr : rainfall;
+}
+
 function ExportButton({ label, icon, onClick, color, disabled }: { label: string; icon: string; onClick: () => void; color: string; disabled?: boolean }) {
     return (
         <button
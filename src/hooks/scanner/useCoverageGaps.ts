@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react';
+import { CoordinateTransform, type LatLon } from '../../lib/spatial-coverage';
+import { GeoPolygon } from '../../lib/spatial-coverage/domain/valueObjects/GeoPolygon';
+import type { GapInfo } from '../../lib/spatial-coverage/domain/services/CoverageAnalyzer';
+import { getComputeService, isComputeCancelled } from '../../services/computeService';
+
+/**
+ * Voxels painted by the walk, in grid coordinates from the origin
+ */
+export interface CoveredGrid {
+    painted: ReadonlyMap<string, { gx: number; gy: number }>;
+    voxelSize: number;
+    origin: LatLon;
+}
+
+/**
+ * useCoverageGaps - Hook to find the voxels inside the boundary the walk has
+ * not covered yet. The analysis runs in the compute worker and is cancelled
+ * when the walk paints again before it is done.
+ */
+export function useCoverageGaps(boundary: GeoPolygon | null, grid: CoveredGrid): GapInfo[] {
+    const [gaps, setGaps] = useState<GapInfo[]>([]);
+    const { painted, voxelSize, origin } = grid;
+
+    useEffect(() => {
+        const controller = new AbortController();
+        const timer = setTimeout(() => {
+            findGaps(boundary, { painted, voxelSize, origin }, controller.signal)
+                .then(setGaps)
+                .catch(error => {
+                    if (!isComputeCancelled(error)) console.warn(`Coverage gap analysis failed: ${error.message}`);
+                });
+        }, 50);
+
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
+    }, [boundary, painted, voxelSize, origin]);
+
+    return gaps;
+}
+
+/**
+ * The boundary is measured in site meters from the grid origin, like the voxels
+ */
+async function findGaps(boundary: GeoPolygon | null, grid: CoveredGrid, signal: AbortSignal): Promise<GapInfo[]> {
+    const polygon = GeoPolygon.ensureInstance(boundary);
+    if (!polygon) return [];
+    return getComputeService().run('coverageGaps', {
+        covered: Array.from(grid.painted.values(), v => ({ gridX: v.gx, gridY: v.gy })),
+        boundary: polygon.vertices.map(v => CoordinateTransform.latLonToLocalMeters(grid.origin, v)),
+        voxelSize: grid.voxelSize
+    }, signal);
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { GeoPolygon } from '../../lib/spatial-coverage/domain/valueObjects/GeoPolygon';
+import { useCoverageGaps } from './useCoverageGaps';
 
 interface GPSPosition {
     lat: number;
@@ -233,8 +234,12 @@ export function useGPSWalkingCoverage(
         }));
     }, []);
 
+    // Gaps of the current walk; the grid origin is only set once it starts
+    const gaps = useCoverageGaps(isScanning ? boundary : null, state.voxelGrid);
+
     return {
         ...state,
+        gaps,
         reset,
         getVoxelArray: (): VoxelData[] => Array.from(state.voxelGrid.painted.values())
     };
@@ -3,6 +3,22 @@ import { calculateTotalReduction } from '../../utils/hydrology';
 import type { ARScannerState, UpdateFn, Services } from '../useARScanner';
 import type { BMPSpec } from '../../lib/env-calculator';
 import type { ComplianceResult } from '../../lib/grant-generator';
+import {
+    createDwaA138Service,
+    kostraFromIdf,
+    DEFAULT_IDF_PARAMETERS,
+    DWA_DEFAULT_RETURN_PERIOD_YR,
+    TYPICAL_INFILTRATION_MM_HR,
+    type CompositeCatchment,
+    type HydrologicSoilGroup,
+    type IdfParameters,
+    type InfiltrationFacilityDesign
+} from '../../lib/hydrology-engine';
+
+const dwaService = createDwaA138Service();
+
+/** 1 m/s expressed in mm/hr */
+const MM_HR_PER_M_S = 3.6e6;
 
 /**
  * useScannerCompliance - Hook to handle regulatory compliance checks and pollutant reduction analysis.
@@ -19,16 +35,18 @@ export function useScannerCompliance(state: ARScannerState, services: Services,
 
             const pollutantResult = services.pollutant.calculateWithBMPs({
                 area_m2: state.detectedArea!,
-                imperviousPercent: 100,
+                ...catchmentLoadInput(state.catchment),
                 annualRainfall_mm: 1000,
                 bmps: bmps
             });
 
+            const dwaDesign = sizeInfiltrationSwale(state.catchment, state.detectedArea!, state.soilGroup, state.activeProfile.parameters.idf);
+
             const grants = getGrants(state.activeProfile.jurisdictionCode);
             console.log('[DEBUG] Compliance for code:', state.activeProfile.jurisdictionCode, 'Grants:', grants);
             const complianceResults = grants.map(gid => services.pdf.complianceService.checkCompliance({
                 jurisdictionCode: state.activeProfile.jurisdictionCode,
-                jurisdictionChain: state.jurisdictionChain?.hierarchy.map(j => j.name) || [],
+                jurisdictionChain: chainNames(state.jurisdictionChain),
                 area_m2: state.detectedArea!,
                 retention_in: state.manualDepth / 25.4,
                 peakReduction_percent: calculateTotalReduction(state.fixes, state.detectedArea!),
@@ -36,12 +54,14 @@ export function useScannerCompliance(state: ARScannerState, services: Services,
                 bcrValue: 1.8,
                 hasResiliencePlan: true,
                 bmps: bmps,
-                phosphorusRemoval_lb_yr: pollutantResult.phosphorus_lb_yr
+                phosphorusRemoval_lb_yr: pollutantResult.phosphorus_lb_yr,
+                dwaA138: dwaDesign ?? undefined
             }, gid));
 
             update({
                 pollutantResult,
-                complianceResults: complianceResults as ComplianceResult[]
+                complianceResults: complianceResults as ComplianceResult[],
+                dwaDesign
             });
         }, 50);
 
@@ -52,11 +72,51 @@ export function useScannerCompliance(state: ARScannerState, services: Services,
         state.activeProfile,
         state.manualDepth,
         state.jurisdictionChain,
+        state.catchment,
+        state.soilGroup,
         update,
         services
     ]);
 }
 
+/**
+ * DWA-A 138 swale (Mulde) for the connected impervious area, on the typical
+ * conductivity of the selected soil group and the profile's rainfall fit.
+ */
+function sizeInfiltrationSwale(
+    catchment: CompositeCatchment | null,
+    area_m2: number,
+    soilGroup: HydrologicSoilGroup,
+    idf: IdfParameters | undefined
+): InfiltrationFacilityDesign | null {
+    const connectedArea_m2 = connectedImperviousArea(catchment, area_m2);
+    if (connectedArea_m2 <= 0) return null;
+
+    return dwaService.size({
+        facility: 'mulde',
+        connectedArea_m2,
+        kf_m_s: TYPICAL_INFILTRATION_MM_HR[soilGroup] / MM_HR_PER_M_S,
+        rainfall: kostraFromIdf(idf ?? DEFAULT_IDF_PARAMETERS, DWA_DEFAULT_RETURN_PERIOD_YR)
+    });
+}
+
+function chainNames(chain: ARScannerState['jurisdictionChain']): string[] {
+    return chain?.hierarchy.map(j => j.name) || [];
+}
+
+function connectedImperviousArea(catchment: CompositeCatchment | null, area_m2: number): number {
+    return catchment ? catchment.imperviousArea_m2 : area_m2;
+}
+
+/**
+ * Pollutant loads follow the composite catchment once hydrology has built it;
+ * until then the whole area is treated as impervious.
+ */
+export function catchmentLoadInput(catchment: CompositeCatchment | null) {
+    if (!catchment) return { imperviousPercent: 100 };
+    return { imperviousPercent: catchment.imperviousPercent, runoffCoefficient: catchment.runoffCoefficient };
+}
+
 /**
  * Determine eligible grants based on jurisdiction code
  */
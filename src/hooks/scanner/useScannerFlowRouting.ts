@@ -0,0 +1,56 @@
+import { useEffect } from 'react';
+import {
+    createFlowRoutingService,
+    rasterizeElevationGrid,
+    type FlowRoutingResult
+} from '../../lib/hydrology-engine';
+import type { ElevationGrid } from '../../lib/spatial-coverage';
+import { getComputeService, isComputeCancelled } from '../../services/computeService';
+import type { ARScannerState, UpdateFn } from '../useARScanner';
+
+const flowService = createFlowRoutingService();
+
+/**
+ * useScannerFlowRouting - Hook to route rain over the scanned terrain.
+ * D8 flow directions and accumulation show where runoff concentrates on site,
+ * which is where rain gardens belong. The DEM is rasterized and routed in the
+ * compute worker and the routing of an outdated grid is cancelled; when the
+ * worker fails, the grid is routed on the main thread instead.
+ */
+export function useScannerFlowRouting(state: ARScannerState, update: UpdateFn) {
+    useEffect(() => {
+        const grid = state.elevationGrid;
+        const controller = new AbortController();
+        const timer = setTimeout(() => {
+            routeTerrain(grid, controller.signal)
+                .then(flowRouting => update({ flowRouting }))
+                .catch(error => {
+                    if (!isComputeCancelled(error)) update({ flowRouting: grid && routeInline(grid, error) });
+                });
+        }, 50);
+
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
+    }, [state.elevationGrid, update]);
+}
+
+async function routeTerrain(grid: ElevationGrid | null, signal: AbortSignal): Promise<FlowRoutingResult | null> {
+    if (!grid) return null;
+    return getComputeService().run('flowRouting', { samples: grid.getSamples() }, signal);
+}
+
+/**
+ * D8 routing of the grid on the main thread, null when it fails there too
+ */
+function routeInline(grid: ElevationGrid, workerError: Error): FlowRoutingResult | null {
+    console.warn(`Compute worker failed, routing the terrain inline: ${workerError.message}`);
+    try {
+        const raster = rasterizeElevationGrid(grid);
+        return raster && flowService.route(raster);
+    } catch (error) {
+        console.warn(`Flow routing failed: ${(error as Error).message}`);
+        return null;
+    }
+}
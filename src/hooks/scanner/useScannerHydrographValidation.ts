@@ -0,0 +1,46 @@
+import { useEffect } from 'react';
+import {
+    createHydrographValidationService,
+    type Hydrograph,
+    type ReferenceHydrograph
+} from '../../lib/hydrology-engine';
+import type { ARScannerState, UpdateFn } from '../useARScanner';
+
+const validationService = createHydrographValidationService();
+
+type ValidationInputs = Pick<ARScannerState, 'kinematicWave' | 'referenceHydrograph' | 'referenceOffset_min'>;
+
+type ValidationUpdate = Pick<ARScannerState, 'hydrographValidation' | 'hydrographValidationError'>;
+
+const NO_VALIDATION: ValidationUpdate = { hydrographValidation: null, hydrographValidationError: null };
+
+/**
+ * useScannerHydrographValidation - Hook to score the predicted sheet flow
+ * hydrograph against an uploaded reference hydrograph (NSE, KGE, PBIAS,
+ * RMSE, peak and timing errors).
+ */
+export function useScannerHydrographValidation(state: ARScannerState, update: UpdateFn) {
+    useEffect(() => {
+        const timer = setTimeout(() => update(validateReference({
+            kinematicWave: state.kinematicWave,
+            referenceHydrograph: state.referenceHydrograph,
+            referenceOffset_min: state.referenceOffset_min
+        })), 50);
+        return () => clearTimeout(timer);
+    }, [state.kinematicWave, state.referenceHydrograph, state.referenceOffset_min, update]);
+}
+
+/** Nothing to score without both hydrographs; otherwise the fit, or why it could not be scored */
+function validateReference(inputs: ValidationInputs): ValidationUpdate {
+    const { kinematicWave, referenceHydrograph } = inputs;
+    if (!kinematicWave || !referenceHydrograph) return NO_VALIDATION;
+    return scoreReference(kinematicWave.hydrograph, referenceHydrograph, inputs.referenceOffset_min);
+}
+
+function scoreReference(predicted: Hydrograph, reference: ReferenceHydrograph, offset_min: number): ValidationUpdate {
+    try {
+        return { hydrographValidation: validationService.validate(predicted, reference, { offset_min }), hydrographValidationError: null };
+    } catch (error) {
+        return { hydrographValidation: null, hydrographValidationError: (error as Error).message };
+    }
+}
@@ -1,55 +1,269 @@
 import { useEffect } from 'react';
 import {
-    computeRunoffWithPINN,
+    estimateRunoffWithPINN,
     computePeakRunoff,
-    computeWQv,
-    suggestGreenFixes
+    computeWQv
 } from '../../utils/hydrology';
-import type { ARScannerState, UpdateFn } from '../useARScanner';
+import { isComputeCancelled } from '../../services/computeService';
+import {
+    createClimateScenarioService,
+    createCurveNumberService,
+    createDesignStormService,
+    createTimeOfConcentrationService,
+    createCompositeCatchment,
+    subAreasFromShares,
+    getSurfaceCover,
+    idfIntensity,
+    upliftHyetograph,
+    DEFAULT_CLIMATE_UPLIFT,
+    DEFAULT_IDF_PARAMETERS,
+    DEFAULT_FLOW_SLOPE,
+    DEFAULT_SURFACE_MIX,
+    type ClimateScenario,
+    type ClimateUpliftTable,
+    type CompositeCatchment,
+    type HydrologicSoilGroup,
+    type DesignStormSpec,
+    type Hyetograph,
+    type IdfParameters,
+    type SurfaceShare,
+    type TcMethod,
+    type TimeOfConcentrationResult
+} from '../../lib/hydrology-engine';
+import { GeoPolygon, type ElevationGrid } from '../../lib/spatial-coverage';
+import type { ARScannerState, IntensityMode, UpdateFn } from '../useARScanner';
+
+const curveNumberService = createCurveNumberService();
+const designStormService = createDesignStormService();
+const tcService = createTimeOfConcentrationService();
+const climateService = createClimateScenarioService();
+
+/** The scanner state the hydrology depends on */
+export type HydrologyInputs = Pick<ARScannerState,
+    'detectedArea' | 'rainfall' | 'intensityMode' | 'manualIntensity' | 'manualDepth' | 'designStorm' | 'activeProfile' |
+    'runoffMethod' | 'soilGroup' | 'surfaceMix' | 'tcMethod' | 'geoBoundary' | 'elevationGrid' | 'climateScenario'>;
+
+type RunoffUpdate = Pick<ARScannerState, 'peakRunoff' | 'isPinnActive' | 'pinnModelVersion' | 'pinnWarnings' | 'scsResult'>;
+
+interface RainfallInputs {
+    rainfall: number;
+    manualIntensity: number;
+    manualDepth: number;
+    designStorm: DesignStormSpec;
+    idf: IdfParameters | undefined;
+    tc_min: number;
+}
+
+interface ClimateSelection {
+    scenario: ClimateScenario;
+    returnPeriod_yr: number;
+    table: ClimateUpliftTable | undefined;
+}
+
+interface CatchmentGeometry {
+    boundary: GeoPolygon | null;
+    grid: ElevationGrid | null;
+    catchment: CompositeCatchment;
+}
+
+interface DesignRainfall {
+    intensity: number;
+    depth: number;
+    hyetograph: Hyetograph | null;
+}
+
+const RAINFALL_SOURCES: Record<IntensityMode, (inputs: RainfallInputs) => DesignRainfall> = {
+    auto: (i) => ({ intensity: i.rainfall, depth: i.manualDepth, hyetograph: null }),
+    manual: (i) => ({ intensity: i.manualIntensity, depth: i.manualDepth, hyetograph: null }),
+    design: designStormRainfall
+};
 
 /**
- * useScannerHydrology - Hook to handle hydrological calculations and green fix suggestions.
+ * useScannerHydrology - Hook to handle hydrological calculations.
  * Debounced to prevent excessive CPU usage during active scanning.
+ * A calculation that fails leaves the previous results and reports the error.
  */
-export function useScannerHydrology(state: ARScannerState, update: UpdateFn) {
+export function useScannerHydrology(state: HydrologyInputs, update: UpdateFn) {
     useEffect(() => {
         if (!state.detectedArea) return;
 
+        const inputs: HydrologyInputs = {
+            detectedArea: state.detectedArea, rainfall: state.rainfall, intensityMode: state.intensityMode,
+            manualIntensity: state.manualIntensity, manualDepth: state.manualDepth, designStorm: state.designStorm,
+            activeProfile: state.activeProfile, runoffMethod: state.runoffMethod, soilGroup: state.soilGroup,
+            surfaceMix: state.surfaceMix, tcMethod: state.tcMethod, geoBoundary: state.geoBoundary,
+            elevationGrid: state.elevationGrid, climateScenario: state.climateScenario
+        };
+        const controller = new AbortController();
         const timer = setTimeout(() => {
-            const currentIntensity = state.intensityMode === 'auto' ? state.rainfall : state.manualIntensity;
-
-            const calcHydrology = async () => {
-                let peakRunoff = 0;
-                let isPinnActive = false;
-
-                try {
-                    peakRunoff = await computeRunoffWithPINN(currentIntensity, state.detectedArea!);
-                    isPinnActive = true;
-                } catch {
-                    // Fallback to traditional Rational Method if PINN fails
-                    const rv = state.activeProfile.parameters.rvFormula(100);
-                    peakRunoff = computePeakRunoff(currentIntensity, state.detectedArea!, rv);
-                }
-
-                update({
-                    peakRunoff,
-                    isPinnActive,
-                    wqv: computeWQv(state.manualDepth, state.detectedArea!, state.activeProfile.parameters.rvFormula(100)),
-                    fixes: suggestGreenFixes(state.detectedArea!)
-                });
-            };
-
-            calcHydrology();
+            calculateHydrology(inputs, update, controller.signal).catch(error => {
+                if (!isComputeCancelled(error)) update({ hydrologyError: (error as Error).message });
+            });
         }, 250);
 
-        return () => clearTimeout(timer);
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
     }, [
         state.detectedArea,
         state.rainfall,
         state.intensityMode,
         state.manualIntensity,
         state.manualDepth,
+        state.designStorm,
         state.activeProfile,
+        state.runoffMethod,
+        state.soilGroup,
+        state.surfaceMix,
+        state.tcMethod,
+        state.geoBoundary,
+        state.elevationGrid,
+        state.climateScenario,
         update
     ]);
 }
+
+/**
+ * Runoff, Tc, climate scenarios and WQv for the current scan. The signal is
+ * aborted once the inputs change, cancelling a PINN estimate still running.
+ */
+async function calculateHydrology(state: HydrologyInputs, update: UpdateFn, signal: AbortSignal): Promise<void> {
+    const catchment = buildCatchment(state.surfaceMix, state.detectedArea!, state.soilGroup);
+    const rv = state.activeProfile.parameters.rvFormula(catchment.imperviousPercent);
+    const tcResult = estimateTimeOfConcentration(state.tcMethod, {
+        boundary: state.geoBoundary, grid: state.elevationGrid, catchment
+    });
+    const { design, climateScenarios } = applyClimateScenario(RAINFALL_SOURCES[state.intensityMode]({
+        rainfall: state.rainfall, manualIntensity: state.manualIntensity, manualDepth: state.manualDepth,
+        designStorm: state.designStorm, idf: state.activeProfile.parameters.idf, tc_min: tcResult.tc_min
+    }), {
+        scenario: state.climateScenario, returnPeriod_yr: state.designStorm.returnPeriod_yr, table: state.activeProfile.parameters.climateUplift
+    });
+
+    const runoff = state.runoffMethod === 'scs'
+        ? computeScsRunoff(design.depth, catchment, tcResult.tc_min)
+        : await computeRationalRunoff(design.intensity, catchment, signal);
+
+    update({
+        ...runoff,
+        catchment,
+        hyetograph: design.hyetograph,
+        climateScenarios,
+        tcResult,
+        wqv: computeWQv(state.manualDepth, state.detectedArea!, rv),
+        hydrologyError: null
+    });
+}
+
+/**
+ * Scale the current-climate design rainfall to the selected planning horizon,
+ * using the profile's uplift table or the generic scaling without one.
+ */
+function applyClimateScenario(current: DesignRainfall, selection: ClimateSelection) {
+    const input = {
+        intensity_mm_hr: current.intensity,
+        depth_mm: current.depth,
+        returnPeriod_yr: selection.returnPeriod_yr,
+        table: selection.table ?? DEFAULT_CLIMATE_UPLIFT
+    };
+    const climateScenarios = climateService.compare(input);
+    const factor = climateScenarios.find(s => s.scenario === selection.scenario)!.factor;
+    return { design: upliftRainfall(current, factor), climateScenarios };
+}
+
+function upliftRainfall(design: DesignRainfall, factor: number): DesignRainfall {
+    return {
+        intensity: design.intensity * factor,
+        depth: design.depth * factor,
+        hyetograph: design.hyetograph && upliftHyetograph(design.hyetograph, factor)
+    };
+}
+
+/**
+ * While every share is zeroed out in the editor the area is treated as
+ * the default all-asphalt street.
+ */
+export function buildCatchment(mix: readonly SurfaceShare[], area: number, soilGroup: HydrologicSoilGroup): CompositeCatchment {
+    const shares = mix.some(s => s.fraction > 0) ? mix : DEFAULT_SURFACE_MIX;
+    return createCompositeCatchment(subAreasFromShares(shares, area), soilGroup);
+}
+
+/**
+ * The PINN is trained on impervious overland flow, so it handles the
+ * impervious sub-areas and pervious ones use the Rational Method.
+ * The PINN badge follows the worker, which may itself fall back when no
+ * verified model is loaded or its estimate is too uncertain.
+ * Intensities outside its training range are flagged as extrapolated.
+ * A cancelled estimate is passed on rather than replaced by the fallback.
+ */
+async function computeRationalRunoff(intensity: number, catchment: CompositeCatchment, signal: AbortSignal): Promise<RunoffUpdate> {
+    try {
+        const estimate = await estimateRunoffWithPINN(intensity, catchment.imperviousArea_m2, signal);
+        return {
+            peakRunoff: estimate.peakRunoff + perviousRunoff(intensity, catchment),
+            isPinnActive: estimate.isPINNPrediction,
+            pinnModelVersion: estimate.modelVersion,
+            pinnWarnings: estimate.warnings,
+            scsResult: null
+        };
+    } catch (error) {
+        if (isComputeCancelled(error)) throw error;
+        // Fallback to traditional Rational Method if PINN fails
+        const peakRunoff = computePeakRunoff(intensity, catchment.totalArea_m2, catchment.runoffCoefficient);
+        return { peakRunoff, isPinnActive: false, pinnModelVersion: null, pinnWarnings: [], scsResult: null };
+    }
+}
+
+function perviousRunoff(intensity: number, catchment: CompositeCatchment): number {
+    return catchment.subAreas
+        .filter(s => !getSurfaceCover(s.surface).impervious)
+        .reduce((sum, s) => sum + computePeakRunoff(intensity, s.area_m2, getSurfaceCover(s.surface).runoffCoefficient), 0);
+}
+
+/**
+ * Reproducible design storm from the profile's IDF fit.
+ * The Rational Method takes the IDF intensity at the time of concentration;
+ * SCS takes the storm depth.
+ */
+function designStormRainfall(inputs: RainfallInputs): DesignRainfall {
+    const idf = inputs.idf ?? DEFAULT_IDF_PARAMETERS;
+    const hyetograph = designStormService.generate({ ...inputs.designStorm, idf });
+    const intensity = idfIntensity(idf, inputs.designStorm.returnPeriod_yr, inputs.tc_min);
+    return { intensity, depth: hyetograph.totalDepth_mm, hyetograph };
+}
+
+/**
+ * Tc from the mapped boundary and DEM. Without a boundary the flow length
+ * is the diagonal of a square with the scanned area; without a DEM the
+ * slope defaults to 2%.
+ */
+function estimateTimeOfConcentration(method: TcMethod, geometry: CatchmentGeometry): TimeOfConcentrationResult {
+    const { catchment } = geometry;
+    return tcService.compute(method, {
+        flowLength_m: flowLength(geometry.boundary, catchment.totalArea_m2),
+        slope: geometry.grid?.getCentralSlope() ?? DEFAULT_FLOW_SLOPE,
+        runoffCoefficient: catchment.runoffCoefficient,
+        curveNumber: catchment.curveNumber
+    });
+}
+
+function flowLength(boundary: GeoPolygon | null, area: number): number {
+    const polygon = GeoPolygon.ensureInstance(boundary);
+    return polygon ? polygon.longestDimensionMeters : Math.sqrt(2 * area);
+}
+
+/**
+ * SCS Curve Number runoff using the design depth as the 24-hour rainfall,
+ * the area-weighted curve number of the composite catchment and its Tc
+ * for the TR-55 unit peak discharge.
+ */
+function computeScsRunoff(depth_mm: number, catchment: CompositeCatchment, tc_min: number): RunoffUpdate {
+    const scsResult = curveNumberService.computeRunoff({
+        rainfall_mm: depth_mm,
+        area_m2: catchment.totalArea_m2,
+        curveNumber: catchment.curveNumber,
+        timeOfConcentration_hr: tc_min / 60
+    });
+    return { peakRunoff: scsResult.peakDischarge_Ls, isPinnActive: false, pinnModelVersion: null, pinnWarnings: [], scsResult };
+}
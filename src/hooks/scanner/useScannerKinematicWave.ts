@@ -0,0 +1,94 @@
+import { useEffect } from 'react';
+import {
+    createKinematicWaveService,
+    DEFAULT_MANNING_N,
+    type KinematicWaveResult,
+    type RainfallSeries
+} from '../../lib/hydrology-engine';
+import type { ARScannerState, UpdateFn } from '../useARScanner';
+
+const kinematicWaveService = createKinematicWaveService();
+
+/** Length of the steady storm routed without a design hyetograph (min) */
+const STEADY_STORM_MIN = 60;
+
+export type KinematicWaveInputs = Pick<
+    ARScannerState,
+    'tcResult' | 'catchment' | 'hyetograph' | 'climateScenarios' | 'climateScenario' | 'rainfall'
+>;
+
+/**
+ * useScannerKinematicWave - Hook to route the design rainfall over the site
+ * as sheet flow. The hydrograph is the physically based reference the
+ * app's peak runoff is validated against.
+ */
+export function useScannerKinematicWave(state: ARScannerState, update: UpdateFn) {
+    useEffect(() => {
+        const timer = setTimeout(() => update({
+            kinematicWave: routeSheetFlow({
+                tcResult: state.tcResult,
+                catchment: state.catchment,
+                hyetograph: state.hyetograph,
+                climateScenarios: state.climateScenarios,
+                climateScenario: state.climateScenario,
+                rainfall: state.rainfall
+            })
+        }), 50);
+        return () => clearTimeout(timer);
+    }, [
+        state.tcResult,
+        state.catchment,
+        state.hyetograph,
+        state.climateScenarios,
+        state.climateScenario,
+        state.rainfall,
+        update
+    ]);
+}
+
+/**
+ * The site is a plane along the Tc flow path. Losses are proportional to
+ * the rainfall: each block runs off at C·i, so light blocks still yield
+ * runoff and a steady storm settles at the Rational Method peak C·i·A.
+ */
+function routeSheetFlow(inputs: KinematicWaveInputs): KinematicWaveResult | null {
+    const { tcResult, catchment } = inputs;
+    if (!tcResult || !catchment) return null;
+
+    const rainfall = designRainfall(inputs);
+    return kinematicWaveService.solve({
+        plane: {
+            length_m: tcResult.flowLength_m,
+            width_m: catchment.totalArea_m2 / tcResult.flowLength_m,
+            slope: tcResult.slope,
+            manningN: DEFAULT_MANNING_N
+        },
+        rainfall: {
+            intensities_mm_hr: rainfall.intensities_mm_hr.map(i => catchment.runoffCoefficient * i),
+            timeStep_min: rainfall.timeStep_min
+        },
+        duration_min: 2 * rainfall.intensities_mm_hr.length * rainfall.timeStep_min
+    });
+}
+
+/**
+ * Length of the storm routed over the site (min)
+ */
+export function designStormDuration_min(inputs: KinematicWaveInputs): number {
+    const rainfall = designRainfall(inputs);
+    return rainfall.intensities_mm_hr.length * rainfall.timeStep_min;
+}
+
+/**
+ * The design hyetograph when one is active, otherwise a steady storm at the
+ * selected scenario's design intensity
+ */
+function designRainfall(inputs: KinematicWaveInputs): RainfallSeries {
+    if (inputs.hyetograph) return inputs.hyetograph;
+    return { intensities_mm_hr: [steadyIntensity(inputs)], timeStep_min: STEADY_STORM_MIN };
+}
+
+function steadyIntensity({ climateScenarios, climateScenario, rainfall }: KinematicWaveInputs): number {
+    const selected = (climateScenarios ?? []).find(s => s.scenario === climateScenario);
+    return selected ? selected.intensity_mm_hr : rainfall;
+}
@@ -0,0 +1,40 @@
+import { useEffect } from 'react';
+import {
+    createPermeablePavementService,
+    TYPICAL_INFILTRATION_MM_HR,
+    type CompositeCatchment,
+    type HydrologicSoilGroup,
+    type PermeablePavementDesign
+} from '../../lib/hydrology-engine';
+import type { GreenFix } from '../../utils/hydrology';
+import type { ARScannerState, UpdateFn } from '../useARScanner';
+
+const pavementService = createPermeablePavementService();
+
+/**
+ * useScannerPavement - Hook to design the reservoir of the suggested permeable pavement.
+ * The rest of the impervious catchment is treated as run-on, and the native soil
+ * infiltrates at the typical rate of the selected hydrologic soil group.
+ */
+export function useScannerPavement(state: ARScannerState, update: UpdateFn) {
+    useEffect(() => {
+        update({ pavementDesign: designPavement(state.fixes, state.catchment, state.soilGroup, state.manualDepth) });
+    }, [state.fixes, state.catchment, state.soilGroup, state.manualDepth, update]);
+}
+
+function designPavement(
+    fixes: GreenFix[],
+    catchment: CompositeCatchment | null,
+    soilGroup: HydrologicSoilGroup,
+    designDepth_mm: number
+): PermeablePavementDesign | null {
+    const pavement = fixes.find(f => f.type === 'permeable_pavement' && f.size > 0);
+    if (!pavement || !catchment) return null;
+
+    return pavementService.design({
+        area_m2: pavement.size,
+        runOnArea_m2: Math.max(0, catchment.imperviousArea_m2 - pavement.size),
+        designDepth_mm,
+        infiltrationRate_mm_hr: TYPICAL_INFILTRATION_MM_HR[soilGroup]
+    });
+}
@@ -0,0 +1,77 @@
+import { useEffect } from 'react';
+import { createPondingService, type PondingInput, type PondingResult } from '../../lib/hydrology-engine';
+import { getComputeService, isComputeCancelled } from '../../services/computeService';
+import type { ARScannerState, UpdateFn } from '../useARScanner';
+
+const pondingService = createPondingService();
+
+type PondingInputs = Pick<ARScannerState, 'flowRouting' | 'hyetograph' | 'manualDepth' | 'catchment'>;
+
+/**
+ * useScannerPonding - Hook to pond the design storm on the scanned terrain.
+ * Fill-and-spill shows where puddles form and where they overflow, the
+ * "before" picture for residents and councils. The storm is ponded in the
+ * compute worker and cancelled once the terrain or storm changes; when the
+ * worker fails, it is ponded on the main thread instead.
+ */
+export function useScannerPonding(state: ARScannerState, update: UpdateFn) {
+    useEffect(() => {
+        const inputs: PondingInputs = {
+            flowRouting: state.flowRouting,
+            hyetograph: state.hyetograph,
+            manualDepth: state.manualDepth,
+            catchment: state.catchment
+        };
+        const controller = new AbortController();
+        const timer = setTimeout(() => {
+            pondTerrain(inputs, controller.signal)
+                .then(ponding => update({ ponding }))
+                .catch(error => {
+                    if (!isComputeCancelled(error)) update({ ponding: pondInline(inputs, error) });
+                });
+        }, 50);
+
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
+    }, [state.flowRouting, state.hyetograph, state.manualDepth, state.catchment, update]);
+}
+
+async function pondTerrain(state: PondingInputs, signal: AbortSignal): Promise<PondingResult | null> {
+    if (!state.flowRouting) return null;
+    return getComputeService().run('ponding', pondingInput(state), signal);
+}
+
+/**
+ * Ponding of the routed terrain on the main thread, null when it fails there too
+ */
+function pondInline(state: PondingInputs, workerError: Error): PondingResult | null {
+    console.warn(`Compute worker failed, ponding the terrain inline: ${workerError.message}`);
+    try {
+        return pondingService.simulate(pondingInput(state));
+    } catch (error) {
+        console.warn(`Ponding failed: ${(error as Error).message}`);
+        return null;
+    }
+}
+
+/**
+ * Pond the design hyetograph depth when one is active, the manual depth
+ * otherwise, scaled by the tagged surfaces' runoff coefficient
+ */
+function pondingInput(state: PondingInputs): PondingInput {
+    return {
+        flow: state.flowRouting!,
+        rainfall_mm: designDepth(state),
+        runoffCoefficient: runoffCoefficient(state)
+    };
+}
+
+function designDepth({ hyetograph, manualDepth }: PondingInputs): number {
+    return hyetograph?.totalDepth_mm ?? manualDepth;
+}
+
+function runoffCoefficient({ catchment }: PondingInputs): number {
+    return catchment?.runoffCoefficient ?? 1;
+}
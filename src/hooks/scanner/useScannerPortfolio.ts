@@ -0,0 +1,58 @@
+import { useEffect } from 'react';
+import {
+    createPortfolioOptimizationService,
+    type PortfolioOption,
+    type PortfolioResult,
+    type SiteSpace
+} from '../../lib/env-calculator';
+import { BMP_CATALOG, mapCatalog, streetSpace_m2, type BMPType } from '../../lib/bmp-catalog';
+import type { GreenFix } from '../../utils/hydrology';
+import type { ARScannerState, UpdateFn } from '../useARScanner';
+import { catchmentLoadInput } from './useScannerCompliance';
+
+const portfolioService = createPortfolioOptimizationService();
+
+/**
+ * useScannerPortfolio - Hook to size green fixes with the cost-optimal BMP portfolio.
+ * The cheapest portfolio meeting the target becomes the suggested fixes; when the
+ * target is out of reach the most effective affordable portfolio is suggested instead.
+ */
+export function useScannerPortfolio(state: ARScannerState, update: UpdateFn) {
+    useEffect(() => {
+        if (!state.detectedArea || state.portfolioTarget.value <= 0) return;
+
+        const timer = setTimeout(() => {
+            const portfolio = portfolioService.optimize({
+                target: state.portfolioTarget,
+                catchment: { area_m2: state.detectedArea!, ...catchmentLoadInput(state.catchment), annualRainfall_mm: 1000 },
+                spaces: streetSpaces(state.detectedArea!),
+                budget: state.portfolioBudget ?? undefined
+            });
+            update({ portfolio, fixes: toGreenFixes(suggestedOption(portfolio)) });
+        }, 50);
+
+        return () => clearTimeout(timer);
+    }, [state.detectedArea, state.catchment, state.portfolioTarget, state.portfolioBudget, update]);
+}
+
+/**
+ * Space available along a scanned street for every catalogued BMP, e.g. up to a
+ * fifth of the area for rain gardens and half for permeable parking.
+ */
+function streetSpaces(area_m2: number): Record<BMPType, SiteSpace> {
+    return mapCatalog(bmp => ({ area_m2: streetSpace_m2(bmp.type, area_m2) }));
+}
+
+function suggestedOption(portfolio: PortfolioResult): PortfolioOption | undefined {
+    return portfolio.optimal ?? portfolio.paretoFront.at(-1);
+}
+
+function toGreenFixes(option: PortfolioOption | undefined): GreenFix[] {
+    if (!option) return [];
+    return option.allocations.map(({ bmpType, area_m2 }) => ({
+        type: bmpType,
+        size: Math.round(area_m2),
+        reductionRate: BMP_CATALOG[bmpType].runoffReduction_percent / 100,
+        placement: BMP_CATALOG[bmpType].display.placement
+    }));
+}
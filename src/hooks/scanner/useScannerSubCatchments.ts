@@ -0,0 +1,178 @@
+import { useEffect } from 'react';
+import {
+    createTimeOfConcentrationService,
+    idfIntensity,
+    DEFAULT_IDF_PARAMETERS,
+    type CellRect,
+    type SubCatchment
+} from '../../lib/hydrology-engine';
+import { CoordinateTransform, type LatLon } from '../../lib/spatial-coverage';
+import type { GeoPolygon, GeoVertex } from '../../lib/spatial-coverage/domain/valueObjects/GeoPolygon';
+import { computePeakRunoff, suggestGreenFixes } from '../../utils/hydrology';
+import { getComputeService, isComputeCancelled } from '../../services/computeService';
+import { delineateSubCatchments } from '../../workers/computeTasks';
+import type { SubCatchmentTaskInput } from '../../workers/computeProtocol';
+import type { SubCatchmentPlan } from '../../types/database';
+import type { ARScannerState, IntensityMode, UpdateFn } from '../useARScanner';
+import { buildCatchment } from './useScannerHydrology';
+
+const tcService = createTimeOfConcentrationService();
+
+type SubCatchmentInputs = Pick<
+    ARScannerState,
+    'flowRouting' | 'geoBoundary' | 'location' | 'subCatchmentOutlets' | 'surfaceMix' | 'soilGroup' | 'tcMethod' |
+    'intensityMode' | 'rainfall' | 'manualIntensity' | 'designStorm' | 'activeProfile' | 'climateScenario' | 'climateScenarios'
+>;
+
+type RationalPeak = Pick<SubCatchmentPlan, 'runoffCoefficient' | 'tc_min' | 'peakRunoff'>;
+
+/** Current-climate Rational Method intensity (mm/hr) at a Tc; only the design storm reads it off the IDF curve */
+const INTENSITY_SOURCES: Record<IntensityMode, (inputs: SubCatchmentInputs, tc_min: number) => number> = {
+    auto: (i) => i.rainfall,
+    manual: (i) => i.manualIntensity,
+    design: (i, tc_min) => idfIntensity(i.activeProfile.parameters.idf ?? DEFAULT_IDF_PARAMETERS, i.designStorm.returnPeriod_yr, tc_min)
+};
+
+/**
+ * useScannerSubCatchments - Hook to split the site into the areas draining to
+ * each inlet. Outlets placed on the map are used when there are any, the
+ * detected concentration points otherwise. Each sub-catchment gets its own
+ * Rational Method peak from its own flow path and slope. The site is
+ * delineated in the compute worker and cancelled once the inputs change;
+ * when the worker fails, it is delineated on the main thread instead.
+ */
+export function useScannerSubCatchments(state: ARScannerState, update: UpdateFn) {
+    useEffect(() => {
+        const inputs: SubCatchmentInputs = {
+            flowRouting: state.flowRouting, geoBoundary: state.geoBoundary, location: state.location,
+            subCatchmentOutlets: state.subCatchmentOutlets, surfaceMix: state.surfaceMix, soilGroup: state.soilGroup,
+            tcMethod: state.tcMethod, intensityMode: state.intensityMode, rainfall: state.rainfall,
+            manualIntensity: state.manualIntensity, designStorm: state.designStorm, activeProfile: state.activeProfile,
+            climateScenario: state.climateScenario, climateScenarios: state.climateScenarios
+        };
+        const controller = new AbortController();
+        const timer = setTimeout(() => {
+            planSubCatchments(inputs, controller.signal)
+                .then(subCatchments => update({ subCatchments }))
+                .catch(error => {
+                    if (!isComputeCancelled(error)) update({ subCatchments: planInline(inputs, error) });
+                });
+        }, 50);
+
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
+    }, [
+        state.flowRouting,
+        state.geoBoundary,
+        state.location,
+        state.subCatchmentOutlets,
+        state.surfaceMix,
+        state.soilGroup,
+        state.tcMethod,
+        state.intensityMode,
+        state.rainfall,
+        state.manualIntensity,
+        state.designStorm,
+        state.activeProfile,
+        state.climateScenario,
+        state.climateScenarios,
+        update
+    ]);
+}
+
+async function planSubCatchments(inputs: SubCatchmentInputs, signal: AbortSignal): Promise<SubCatchmentPlan[] | null> {
+    const task = delineationTask(inputs);
+    if (!task) return null;
+    return toPlans(await getComputeService().run('subCatchments', task, signal), task.origin, inputs);
+}
+
+/**
+ * Delineation and plans on the main thread, null when they fail there too
+ */
+function planInline(inputs: SubCatchmentInputs, workerError: Error): SubCatchmentPlan[] | null {
+    console.warn(`Compute worker failed, delineating the sub-catchments inline: ${workerError.message}`);
+    try {
+        const task = delineationTask(inputs)!;
+        return toPlans(delineateSubCatchments(task), task.origin, inputs);
+    } catch (error) {
+        console.warn(`Sub-catchment delineation failed: ${(error as Error).message}`);
+        return null;
+    }
+}
+
+/** Placed inlets and the boundary in site meters, null without routed terrain or a site origin */
+function delineationTask(inputs: SubCatchmentInputs): SubCatchmentTaskInput | null {
+    const origin = siteOrigin(inputs);
+    if (!inputs.flowRouting || !origin) return null;
+    return {
+        flow: inputs.flowRouting,
+        outlets: inputs.subCatchmentOutlets.map(v => CoordinateTransform.latLonToLocalMeters(origin, v)),
+        origin,
+        boundary: boundaryVertices(inputs.geoBoundary)
+    };
+}
+
+/** Local site meters are measured from the boundary centroid, or the device location without one */
+function siteOrigin({ geoBoundary, location }: SubCatchmentInputs): LatLon | null {
+    return geoBoundary?.centroid ?? location;
+}
+
+function boundaryVertices(boundary: GeoPolygon | null): GeoVertex[] | null {
+    return boundary ? boundary.vertices : null;
+}
+
+/**
+ * Rational Method peak Q = C·i·A of a sub-catchment. The surface mix is only
+ * known for the whole site, so C is the site's composite over the
+ * sub-catchment's area; Tc follows its own longest flow path (at least one
+ * cell) and mean slope, and the intensity is taken at that Tc in the selected
+ * climate scenario.
+ */
+function rationalPeak(subCatchment: SubCatchment, inputs: SubCatchmentInputs): RationalPeak {
+    const catchment = buildCatchment(inputs.surfaceMix, subCatchment.area_m2, inputs.soilGroup);
+    const { tc_min } = tcService.compute(inputs.tcMethod, {
+        flowLength_m: Math.max(subCatchment.flowLength_m, inputs.flowRouting!.raster.cellSize_m),
+        slope: subCatchment.meanSlope,
+        runoffCoefficient: catchment.runoffCoefficient,
+        curveNumber: catchment.curveNumber
+    });
+    const intensity = INTENSITY_SOURCES[inputs.intensityMode](inputs, tc_min) * climateFactor(inputs);
+    return {
+        runoffCoefficient: catchment.runoffCoefficient,
+        tc_min,
+        peakRunoff: computePeakRunoff(intensity, subCatchment.area_m2, catchment.runoffCoefficient)
+    };
+}
+
+/** Uplift of the selected scenario, none before the site hydrology has compared them */
+function climateFactor({ climateScenarios, climateScenario }: SubCatchmentInputs): number {
+    const selected = climateScenarios?.find(s => s.scenario === climateScenario);
+    return selected ? selected.factor : 1;
+}
+
+function toPlans(subCatchments: readonly SubCatchment[], origin: LatLon, inputs: SubCatchmentInputs): SubCatchmentPlan[] {
+    return subCatchments.map(c => toPlan(c, origin, rationalPeak(c, inputs)));
+}
+
+function toPlan(subCatchment: SubCatchment, origin: LatLon, peak: RationalPeak): SubCatchmentPlan {
+    return {
+        id: subCatchment.id,
+        outlet: CoordinateTransform.localMetersToLatLon(origin, subCatchment.outlet),
+        outletSource: subCatchment.outlet.source,
+        area_m2: subCatchment.area_m2,
+        slope: subCatchment.meanSlope,
+        ...peak,
+        fixes: suggestGreenFixes(subCatchment.area_m2),
+        footprint: subCatchment.footprint.map(rect => rectRing(origin, rect))
+    };
+}
+
+/** Closed [lon, lat] ring around a footprint rectangle */
+function rectRing(origin: LatLon, { minX, minY, maxX, maxY }: CellRect): number[][] {
+    return [[minX, minY], [maxX, minY], [maxX, maxY], [minX, maxY], [minX, minY]].map(([x, y]) => {
+        const { lat, lon } = CoordinateTransform.localMetersToLatLon(origin, { x, y });
+        return [lon, lat];
+    });
+}
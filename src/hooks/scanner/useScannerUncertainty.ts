@@ -0,0 +1,67 @@
+import { useEffect } from 'react';
+import {
+    createRetrofitUncertaintyService,
+    type RetrofitUncertaintyResult,
+    type ScanCalibration
+} from '../../lib/uncertainty-engine';
+import type { CompositeCatchment } from '../../lib/hydrology-engine';
+import type { StormwaterParameters } from '../../lib/geo-regulatory';
+import type { GreenFix } from '../../utils/hydrology';
+import type { ARScannerState, UpdateFn } from '../useARScanner';
+
+const uncertaintyService = createRetrofitUncertaintyService();
+
+/** Annual rainfall assumed by the pollutant loads when the profile has none (mm) */
+const ANNUAL_RAINFALL_MM = 1000;
+
+interface RetrofitEstimate {
+    catchment: CompositeCatchment | null;
+    peakRunoff: number;
+    wqv: number;
+    fixes: GreenFix[];
+    annualRainfall_mm: number;
+}
+
+/**
+ * useScannerUncertainty - Hook to band the scan results with Monte Carlo sampling.
+ * The tape check sets the scan accuracy; without one the uncalibrated spread applies.
+ */
+export function useScannerUncertainty(state: ARScannerState, update: UpdateFn) {
+    useEffect(() => {
+        const estimate = {
+            catchment: state.catchment, peakRunoff: state.peakRunoff, wqv: state.wqv, fixes: state.fixes,
+            annualRainfall_mm: profileAnnualRainfall(state.activeProfile.parameters)
+        };
+        update({ uncertainty: estimateUncertainty(estimate, tapeCalibration(state.validationError)) });
+    }, [state.catchment, state.peakRunoff, state.wqv, state.fixes, state.validationError, state.activeProfile, update]);
+}
+
+/**
+ * The profile's rainfall normal, or the generic assumption for profiles without one
+ */
+export function profileAnnualRainfall(parameters: StormwaterParameters): number {
+    return parameters.annualRainfall_mm ?? ANNUAL_RAINFALL_MM;
+}
+
+/**
+ * The tape check reports the area error directly, so it serves as the scan accuracy
+ */
+export function tapeCalibration(validationError: number | null): ScanCalibration {
+    return { accuracy: validationError ?? 0, isCalibrated: validationError !== null };
+}
+
+function estimateUncertainty(estimate: RetrofitEstimate, calibration: ScanCalibration): RetrofitUncertaintyResult | null {
+    const { catchment } = estimate;
+    if (!catchment || catchment.runoffCoefficient <= 0) return null;
+
+    return uncertaintyService.estimate({
+        area_m2: catchment.totalArea_m2,
+        calibration,
+        runoffCoefficient: catchment.runoffCoefficient,
+        imperviousPercent: catchment.imperviousPercent,
+        peakRunoff_Ls: estimate.peakRunoff,
+        wqv_L: estimate.wqv,
+        annualRainfall_mm: estimate.annualRainfall_mm,
+        bmps: estimate.fixes.map(f => ({ type: f.type, area_m2: f.size }))
+    });
+}
@@ -0,0 +1,65 @@
+import { useEffect } from 'react';
+import { openMeteoClient } from '../../services/openMeteoClient';
+import { createWaterBalanceService, type CompositeCatchment, type WaterBalanceResult } from '../../lib/hydrology-engine';
+import type { GreenFix } from '../../utils/hydrology';
+import type { ARScannerState, UpdateFn } from '../useARScanner';
+
+const waterBalanceService = createWaterBalanceService();
+
+/**
+ * useScannerWaterBalance - Hook to run a year-long rain garden water balance.
+ * Loads last year's observed hourly rainfall for the project location once,
+ * then re-simulates whenever the catchment or suggested rain garden changes.
+ */
+export function useScannerWaterBalance(state: ARScannerState, update: UpdateFn) {
+    const lat = state.location?.lat;
+    const lon = state.location?.lon;
+
+    useEffect(() => {
+        if (lat === undefined) return;
+
+        // A slow response for a previous location must not overwrite the current one
+        let ignore = false;
+        openMeteoClient.fetchHistoricalRainfall(lat, lon)
+            .then(data => ignore || update({ annualRainfall: data.precipitation }))
+            .catch(() => ignore || update({ annualRainfall: null }));
+        return () => {
+            ignore = true;
+        };
+    }, [lat, lon, update]);
+
+    useEffect(() => {
+        const waterBalance = state.annualRainfall && simulateRainGarden(
+            state.annualRainfall,
+            state.fixes,
+            state.detectedArea,
+            catchmentRunoffCoefficient(state.catchment, state.activeProfile.parameters.rvFormula)
+        );
+        update({ waterBalance });
+    }, [state.annualRainfall, state.fixes, state.detectedArea, state.catchment, state.activeProfile, update]);
+}
+
+/**
+ * Composite coefficient once hydrology has built the catchment,
+ * otherwise the profile's fully impervious Rv.
+ */
+function catchmentRunoffCoefficient(catchment: CompositeCatchment | null, rvFormula: (imperviousPercent: number) => number): number {
+    return catchment ? catchment.runoffCoefficient : rvFormula(100);
+}
+
+function simulateRainGarden(
+    rainfall: number[],
+    fixes: GreenFix[],
+    area: number | null,
+    runoffCoefficient: number
+): WaterBalanceResult | null {
+    const garden = fixes.find(f => f.type === 'rain_garden');
+    if (!garden || !area) return null;
+
+    return waterBalanceService.simulate({
+        rainfall_mm: rainfall,
+        catchmentArea_m2: area,
+        runoffCoefficient,
+        cell: { area_m2: garden.size }
+    });
+}
@@ -14,20 +14,70 @@ import {
     type DiscoveryResult,
     createStormwaterDiscoveryUseCase
 } from '../lib/geo-regulatory';
-import { type PollutantLoadResult, type PollutantCalculationService, createPollutantService } from '../lib/env-calculator';
-import { type ComplianceResult, type GrantPDFService, type GrantApplicationData, createGrantPDFService } from '../lib/grant-generator';
+import {
+    type PollutantLoadResult,
+    type PollutantCalculationService,
+    type PortfolioResult,
+    type PortfolioTarget,
+    createPollutantService
+} from '../lib/env-calculator';
+import {
+    type ComplianceResult,
+    type GrantPDFService,
+    type GrantApplicationData,
+    type DesignRecords,
+    createGrantPDFService
+} from '../lib/grant-generator';
 import type { GreenFix } from '../utils/hydrology';
+import type { RetrofitUncertaintyResult } from '../lib/uncertainty-engine';
 
 import { useScannerLocation } from './scanner/useScannerLocation';
 import { useScannerDemo } from './scanner/useScannerDemo';
 import { useScannerHydrology } from './scanner/useScannerHydrology';
 import { useScannerCompliance } from './scanner/useScannerCompliance';
+import { useScannerWaterBalance } from './scanner/useScannerWaterBalance';
+import { useScannerPortfolio } from './scanner/useScannerPortfolio';
+import { useScannerPavement } from './scanner/useScannerPavement';
+import { useScannerUncertainty } from './scanner/useScannerUncertainty';
+import { useScannerFlowRouting } from './scanner/useScannerFlowRouting';
+import { useScannerPonding } from './scanner/useScannerPonding';
+import { useScannerSubCatchments } from './scanner/useScannerSubCatchments';
+import { useScannerKinematicWave } from './scanner/useScannerKinematicWave';
+import { useScannerHydrographValidation } from './scanner/useScannerHydrographValidation';
 import { type ElevationGrid, type GeoPolygon } from '../lib/spatial-coverage';
+import type { GeoVertex } from '../lib/spatial-coverage/domain/valueObjects/GeoPolygon';
+import type { SubCatchmentPlan } from '../types/database';
+import {
+    DEFAULT_DESIGN_STORM,
+    DEFAULT_SURFACE_MIX,
+    type ClimateScenario,
+    type ClimateScenarioResult,
+    type CompositeCatchment,
+    type DesignStormSpec,
+    type FlowRoutingResult,
+    type HydrographValidationResult,
+    type HydrologicSoilGroup,
+    type Hyetograph,
+    type InfiltrationFacilityDesign,
+    type KinematicWaveResult,
+    type PermeablePavementDesign,
+    type PondingResult,
+    type ReferenceHydrograph,
+    type ScsRunoffResult,
+    type SurfaceShare,
+    type TcMethod,
+    type TimeOfConcentrationResult,
+    type WaterBalanceResult
+} from '../lib/hydrology-engine';
 
 export type DepthMode = 'lidar' | 'visual-slam' | 'initializing';
 
 export type ScanPhase = 'onboarding' | 'planning' | 'scanning' | 'drone_upload';
 
+export type RunoffMethod = 'rational' | 'scs';
+
+export type IntensityMode = 'auto' | 'manual' | 'design';
+
 export interface ARScannerState {
     isScanning: boolean;
     detectedArea: number | null;
@@ -41,11 +91,37 @@ export interface ARScannerState {
     isDetecting: boolean;
     scanProgress: number;
     isLocked: boolean;
-    intensityMode: 'auto' | 'manual';
+    intensityMode: IntensityMode;
     manualIntensity: number;
+    designStorm: DesignStormSpec;
+    hyetograph: Hyetograph | null;
+    /** Planning horizon the design rainfall is uplifted to */
+    climateScenario: ClimateScenario;
+    /** Design rainfall under the current climate and every future horizon */
+    climateScenarios: ClimateScenarioResult[] | null;
+    tcMethod: TcMethod;
+    tcResult: TimeOfConcentrationResult | null;
+    /** Last year's observed hourly rainfall (mm) at the project location */
+    annualRainfall: number[] | null;
+    waterBalance: WaterBalanceResult | null;
     activeProfile: typeof STORMWATER_PROFILES[0];
     sizingMode: 'rate' | 'volume';
     manualDepth: number;
+    runoffMethod: RunoffMethod;
+    soilGroup: HydrologicSoilGroup;
+    scsResult: ScsRunoffResult | null;
+    /** Tagged surface shares of the detected area */
+    surfaceMix: readonly SurfaceShare[];
+    catchment: CompositeCatchment | null;
+    portfolioTarget: PortfolioTarget;
+    /** Maximum installed cost (€); null for no limit */
+    portfolioBudget: number | null;
+    portfolio: PortfolioResult | null;
+    pavementDesign: PermeablePavementDesign | null;
+    /** DWA-A 138 sizing of the suggested infiltration swale */
+    dwaDesign: InfiltrationFacilityDesign | null;
+    /** P10 / P50 / P90 bands of the results over scan, coefficient and rainfall uncertainty */
+    uncertainty: RetrofitUncertaintyResult | null;
     discoveryStatus: 'idle' | 'discovering' | 'ready';
     jurisdictionChain: JurisdictionChain | null;
     discoveryResult: DiscoveryResult<StormwaterParameters> | null;
@@ -55,6 +131,12 @@ export interface ARScannerState {
     peakRunoff: number;
     wqv: number;
     isPinnActive: boolean;
+    /** Registry version of the PINN behind the peak runoff, null for the other methods */
+    pinnModelVersion: string | null;
+    /** Why the PINN runoff is an extrapolation beyond its training ranges */
+    pinnWarnings: string[];
+    /** Why the last hydrology calculation failed; the previous results stay on screen */
+    hydrologyError: string | null;
     // Field Validation State
     optimizationResult: OptimizationResult | null;
     tapeValidation: number | null; // Manual tape measure input (m²)
@@ -66,6 +148,23 @@ export interface ARScannerState {
     scanPhase: ScanPhase;
     geoBoundary: GeoPolygon | null;
     elevationGrid: ElevationGrid | null;
+    /** D8 flow directions and accumulation on the scanned terrain */
+    flowRouting: FlowRoutingResult | null;
+    /** Design storm ponding depths and spill points on the scanned terrain */
+    ponding: PondingResult | null;
+    /** Inlets placed on the planning map; detected outlets are used without any */
+    subCatchmentOutlets: GeoVertex[];
+    /** Areas of the site draining to each inlet */
+    subCatchments: SubCatchmentPlan[] | null;
+    /** Sheet flow hydrograph of the design rainfall, the reference the peak runoff is validated against */
+    kinematicWave: KinematicWaveResult | null;
+    /** Uploaded observed or modelled hydrograph the prediction is scored against */
+    referenceHydrograph: ReferenceHydrograph | null;
+    /** Minutes added to the reference times to line them up with the prediction */
+    referenceOffset_min: number;
+    hydrographValidation: HydrographValidationResult | null;
+    /** Why the reference could not be scored, e.g. no overlap in time */
+    hydrographValidationError: string | null;
     voxels: string[]; // Voxel keys for visualization
 }
 
@@ -89,17 +188,15 @@ export function useARScanner() {
     const demoScenario = locationState.state?.demoScenario;
 
     const [state, setState] = useState<ARScannerState>({
-        isScanning: false, detectedArea: null, rainfall: 50, isLoadingRainfall: true,
-        fixes: [], showAR: false, location: null, locationName: 'Current Project',
-        cameraError: null, isDetecting: false, scanProgress: 0, isLocked: false,
-        intensityMode: 'auto', manualIntensity: 50, activeProfile: STORMWATER_PROFILES[0],
-        sizingMode: 'rate', manualDepth: 30.48, discoveryStatus: 'idle',
-        jurisdictionChain: null, discoveryResult: null, pollutantResult: null,
-        complianceResults: [], isGeneratingPDF: false, peakRunoff: 0, wqv: 0, isPinnActive: false,
-        optimizationResult: null, tapeValidation: null, validationError: null,
-        depthMode: 'initializing', accuracyLabel: 'Initializing...',
-        scanPhase: 'onboarding', geoBoundary: null, elevationGrid: null,
-        voxels: []
+        isScanning: false, detectedArea: null, rainfall: 50, isLoadingRainfall: true, fixes: [], showAR: false, location: null, locationName: 'Current Project',
+        cameraError: null, isDetecting: false, scanProgress: 0, isLocked: false, intensityMode: 'auto', manualIntensity: 50, activeProfile: STORMWATER_PROFILES[0],
+        designStorm: DEFAULT_DESIGN_STORM, hyetograph: null, climateScenario: 'current', climateScenarios: null, tcMethod: 'kirpich', tcResult: null,
+        annualRainfall: null, waterBalance: null, sizingMode: 'rate', manualDepth: 30.48, discoveryStatus: 'idle', runoffMethod: 'rational', soilGroup: 'C', scsResult: null, surfaceMix: DEFAULT_SURFACE_MIX, catchment: null,
+        portfolioTarget: { metric: 'peak_reduction', value: 40 }, portfolioBudget: null, portfolio: null, pavementDesign: null,
+        dwaDesign: null, uncertainty: null, jurisdictionChain: null, discoveryResult: null, pollutantResult: null, complianceResults: [], isGeneratingPDF: false, peakRunoff: 0, wqv: 0, isPinnActive: false, pinnModelVersion: null, pinnWarnings: [], hydrologyError: null,
+        optimizationResult: null, tapeValidation: null, validationError: null, depthMode: 'initializing', accuracyLabel: 'Initializing...', scanPhase: 'onboarding', geoBoundary: null,
+        elevationGrid: null, flowRouting: null, ponding: null, subCatchmentOutlets: [], subCatchments: null, kinematicWave: null,
+        referenceHydrograph: null, referenceOffset_min: 0, hydrographValidation: null, hydrographValidationError: null, voxels: []
     });
 
     const update = useCallback((u: Partial<ARScannerState>) => setState(s => ({ ...s, ...u })), []);
@@ -117,7 +214,16 @@ export function useARScanner() {
     useScannerLocation(demoScenario, update, state.location, services.discovery, setUnitSystem);
     useScannerDemo(demoScenario, state.isScanning, update, services.discovery, setUnitSystem);
     useScannerHydrology(state, update);
+    useScannerPortfolio(state, update);
+    useScannerPavement(state, update);
     useScannerCompliance(state, services, update);
+    useScannerWaterBalance(state, update);
+    useScannerUncertainty(state, update);
+    useScannerFlowRouting(state, update);
+    useScannerPonding(state, update);
+    useScannerSubCatchments(state, update);
+    useScannerKinematicWave(state, update);
+    useScannerHydrographValidation(state, update);
 
     const handleLogout = useCallback(async () => {
         await signOut();
@@ -181,6 +287,10 @@ function buildGrantPayload(state: ARScannerState): GrantApplicationData {
         geo: buildGeoData(state),
         pollutants: buildPollutantsData(state),
         bmps: buildBMPsData(state),
+        designs: buildDesignRecords(state),
+        uncertainty: state.uncertainty ?? undefined,
+        runoffModelVersion: state.pinnModelVersion ?? undefined,
+        modelWarnings: state.pinnWarnings,
         hasResiliencePlan: true
     };
 }
@@ -191,11 +301,26 @@ function buildProjectData(state: ARScannerState) {
         area_m2: state.detectedArea || 0,
         retention_in: state.manualDepth / 25.4,
         retention_mm: state.manualDepth,
+        ...buildCatchmentData(state.catchment),
         peakReduction_percent: calculateTotalReduction(state.fixes, state.detectedArea!),
+        annualCapture_percent: roundCapture(state.waterBalance),
         bcrValue: 1.8
     };
 }
 
+function buildCatchmentData(catchment: CompositeCatchment | null) {
+    if (!catchment) return {};
+    return {
+        imperviousPercent: Math.round(catchment.imperviousPercent),
+        runoffCoefficient: Number(catchment.runoffCoefficient.toFixed(2)),
+        curveNumber: Math.round(catchment.curveNumber)
+    };
+}
+
+function roundCapture(waterBalance: WaterBalanceResult | null): number | undefined {
+    return waterBalance ? Math.round(waterBalance.capturePercent) : undefined;
+}
+
 function buildGeoData(state: ARScannerState) {
     return {
         hierarchy: state.jurisdictionChain?.hierarchy.map((j) => j.name) || [],
@@ -213,6 +338,13 @@ function buildPollutantsData(state: ARScannerState) {
     };
 }
 
+function buildDesignRecords(state: ARScannerState): DesignRecords {
+    return {
+        permeablePavement: state.pavementDesign ?? undefined,
+        dwaA138: state.dwaDesign ?? undefined
+    };
+}
+
 function buildBMPsData(state: ARScannerState) {
     return state.fixes.map((f: GreenFix) => ({ type: f.type, area_m2: f.size }));
 }
@@ -0,0 +1,130 @@
+/**
+ * BMP catalog - one entry per BMP type
+ * Sources: EPA BMP Performance Database, Virginia DEQ Runoff Reduction Method and
+ * BMP Design Specifications (storage depth, building setbacks), CASQA LID Handbook,
+ * Berlin market rates (installed cost per m²), EPA SWMM 5.1 Reference Manual Vol. III
+ * (LID layer parameters)
+ */
+
+import type { BMPType, BmpDefinition } from '../domain/valueObjects/BmpDefinition';
+
+/**
+ * Pollutant rates are median removal efficiencies from peer-reviewed studies
+ */
+export const BMP_CATALOG: Readonly<Record<BMPType, BmpDefinition>> = {
+    rain_garden: {
+        type: 'rain_garden',
+        runoffReduction_percent: 40,
+        pollutants: { phosphorus_lb_acre_yr: 0.40, nitrogen_lb_acre_yr: 0.25, sediment_percent: 85 },
+        unitCost_per_m2: 800,
+        design: {
+            storageDepth_mm: 300,   // 150 mm ponding + 600 mm media at 25% voids
+            minSetback_m: 3.0,
+            infiltrates: true,
+            streetSpace: { share: 0.2, fixed_m2: 0 }
+        },
+        swmm: {
+            type: 'RG',
+            layers: {
+                // StorHt, VegFrac, Rough, Slope %, Xslope
+                SURFACE: [150, 0, 0.1, 1.0, 5],
+                // Thick, Por, FC, WP, Ksat, Kcoeff, Suct
+                SOIL: [600, 0.5, 0.2, 0.1, 12.7, 10, 88.9]
+            }
+        },
+        display: { name: 'Rain Garden', icon: '🌿', color: 'from-blue-500 to-cyan-500', placement: 'Sidewalk edge' },
+        modelPath: '/models/rain_garden.glb'
+    },
+    permeable_pavement: {
+        type: 'permeable_pavement',
+        runoffReduction_percent: 70,
+        pollutants: { phosphorus_lb_acre_yr: 0.35, nitrogen_lb_acre_yr: 0.20, sediment_percent: 80 },
+        unitCost_per_m2: 120,
+        design: {
+            storageDepth_mm: 120,   // 300 mm stone reservoir at 40% voids
+            minSetback_m: 3.0,
+            infiltrates: false,
+            streetSpace: { share: 0.5, fixed_m2: 0 }
+        },
+        swmm: {
+            type: 'PP',
+            layers: {
+                SURFACE: [2.5, 0, 0.012, 1.0, 5],
+                // Thick, Vratio, FracImp, Perm, Vclog
+                PAVEMENT: [80, 0.15, 0, 250, 0],
+                // Height, Vratio, Seepage, Vclog
+                STORAGE: [300, 0.67, 0, 0],
+                // Coeff, Expon, Offset, Delay
+                DRAIN: [3.0, 0.5, 0, 6]
+            }
+        },
+        display: { name: 'Permeable Pavement', icon: '🧱', color: 'from-emerald-500 to-green-500', placement: 'Parking area' },
+        modelPath: '/models/permeable_pavement.glb'
+    },
+    tree_planter: {
+        type: 'tree_planter',
+        runoffReduction_percent: 25,
+        pollutants: { phosphorus_lb_acre_yr: 0.15, nitrogen_lb_acre_yr: 0.10, sediment_percent: 60 },
+        unitCost_per_m2: 500,
+        design: {
+            storageDepth_mm: 200,
+            minSetback_m: 1.5,
+            infiltrates: false,
+            streetSpace: { share: 0, fixed_m2: 30 }
+        },
+        swmm: {
+            type: 'BC',
+            layers: {
+                SURFACE: [150, 0, 0.1, 1.0, 5],
+                SOIL: [900, 0.5, 0.2, 0.1, 12.7, 10, 88.9],
+                STORAGE: [300, 0.75, 0, 0],
+                DRAIN: [2.0, 0.5, 0, 6]
+            }
+        },
+        display: { name: 'Tree Planter', icon: '🌳', color: 'from-green-600 to-lime-500', placement: 'Road verge' },
+        modelPath: '/models/tree_planter.glb'
+    },
+    green_roof: {
+        type: 'green_roof',
+        runoffReduction_percent: 50,
+        pollutants: { phosphorus_lb_acre_yr: 0.20, nitrogen_lb_acre_yr: 0.15, sediment_percent: 70 },
+        unitCost_per_m2: 90,
+        design: {
+            storageDepth_mm: 25,    // Extensive substrate at field capacity
+            minSetback_m: 0,
+            infiltrates: false,
+            streetSpace: { share: 0, fixed_m2: 20 }   // Bus shelter and kiosk roofs
+        },
+        swmm: {
+            type: 'GR',
+            layers: {
+                SURFACE: [0, 0, 0.1, 2.0, 5],
+                SOIL: [100, 0.5, 0.3, 0.1, 25, 10, 88.9],
+                // Thick, Vratio, Rough
+                DRAINMAT: [25, 0.5, 0.1]
+            }
+        },
+        display: { name: 'Green Roof', icon: '🏠', color: 'from-lime-500 to-emerald-600', placement: 'Shelter roof' },
+        modelPath: '/models/green_roof.glb'
+    },
+    bioswale: {
+        type: 'bioswale',
+        runoffReduction_percent: 35,
+        pollutants: { phosphorus_lb_acre_yr: 0.30, nitrogen_lb_acre_yr: 0.18, sediment_percent: 75 },
+        unitCost_per_m2: 250,
+        design: {
+            storageDepth_mm: 150,
+            minSetback_m: 3.0,
+            infiltrates: true,
+            streetSpace: { share: 0.1, fixed_m2: 0 }
+        },
+        swmm: {
+            type: 'VS',
+            layers: {
+                SURFACE: [150, 0.1, 0.24, 1.0, 4]
+            }
+        },
+        display: { name: 'Bioswale', icon: '〰️', color: 'from-teal-500 to-cyan-600', placement: 'Road median' },
+        modelPath: '/models/bioswale.glb'
+    }
+};
@@ -0,0 +1,104 @@
+/**
+ * BmpDefinition Value Object - everything the app knows about one BMP type
+ *
+ * Hydrology, pollutant, cost, siting and 3D subsystems all read the same
+ * definition, so adding a BMP means adding one entry to BMP_CATALOG.
+ *
+ * @domain bmp-catalog
+ * @layer domain/valueObjects
+ */
+
+import { BMP_CATALOG } from '../../config/bmpCatalog';
+
+export type BMPType = 'rain_garden' | 'permeable_pavement' | 'tree_planter' | 'green_roof' | 'bioswale';
+
+export interface BmpPollutantRates {
+    readonly phosphorus_lb_acre_yr: number;
+    readonly nitrogen_lb_acre_yr: number;
+    readonly sediment_percent: number;
+}
+
+/**
+ * Space a scanned street offers for a BMP: share × scanned area + fixed area
+ */
+export interface StreetSpace {
+    readonly share: number;
+    readonly fixed_m2: number;
+}
+
+export interface BmpDesignConstraints {
+    /** Effective storage depth (mm over the BMP footprint; mm × m² = L) */
+    readonly storageDepth_mm: number;
+    /** Minimum distance from building foundations (m) */
+    readonly minSetback_m: number;
+    /** Acts as a DWA-A 138 infiltration surface */
+    readonly infiltrates: boolean;
+    readonly streetSpace: StreetSpace;
+}
+
+/** EPA SWMM 5 LID process codes */
+export type SwmmLidType = 'BC' | 'RG' | 'GR' | 'IT' | 'PP' | 'RB' | 'RD' | 'VS';
+
+export type SwmmLidLayer = 'SURFACE' | 'SOIL' | 'PAVEMENT' | 'STORAGE' | 'DRAIN' | 'DRAINMAT';
+
+/**
+ * The BMP as an EPA SWMM 5 LID control. Layer parameters are listed in
+ * SWMM's column order, lengths in mm and rates in mm/hr.
+ */
+export interface BmpSwmmLid {
+    readonly type: SwmmLidType;
+    readonly layers: Readonly<Partial<Record<SwmmLidLayer, readonly number[]>>>;
+}
+
+export interface BmpDisplay {
+    readonly name: string;
+    readonly icon: string;
+    /** Tailwind gradient of the AR button */
+    readonly color: string;
+    /** Where the BMP usually goes on a street */
+    readonly placement: string;
+}
+
+export interface BmpDefinition {
+    readonly type: BMPType;
+    readonly runoffReduction_percent: number;
+    readonly pollutants: BmpPollutantRates;
+    /** Installed cost (€/m²) */
+    readonly unitCost_per_m2: number;
+    readonly design: BmpDesignConstraints;
+    readonly swmm: BmpSwmmLid;
+    readonly display: BmpDisplay;
+    /** glTF binary shown in the AR preview */
+    readonly modelPath: string;
+}
+
+export const BMP_TYPES = Object.keys(BMP_CATALOG) as [BMPType, ...BMPType[]];
+
+export function isBMPType(value: string): value is BMPType {
+    return value in BMP_CATALOG;
+}
+
+/**
+ * Look up a BMP definition, rejecting types missing from the catalog
+ */
+export function getBmpDefinition(type: string): BmpDefinition {
+    if (!isBMPType(type)) {
+        throw new Error(`Unknown BMP type: ${type}`);
+    }
+    return BMP_CATALOG[type];
+}
+
+/**
+ * Area (m²) a scanned street offers for a BMP
+ */
+export function streetSpace_m2(type: BMPType, scannedArea_m2: number): number {
+    const { share, fixed_m2 } = BMP_CATALOG[type].design.streetSpace;
+    return share * scannedArea_m2 + fixed_m2;
+}
+
+/**
+ * Build a per-type table from the catalog
+ */
+export function mapCatalog<T>(project: (definition: BmpDefinition) => T): Record<BMPType, T> {
+    return Object.fromEntries(BMP_TYPES.map(type => [type, project(BMP_CATALOG[type])])) as Record<BMPType, T>;
+}
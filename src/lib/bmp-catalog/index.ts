@@ -0,0 +1,41 @@
+/**
+ * BMP Catalog Library
+ *
+ * Single source of truth for green infrastructure (BMP) types:
+ * - Runoff reduction and pollutant removal rates
+ * - Installed unit costs and design constraints (storage, setbacks, street space)
+ * - EPA SWMM 5 LID control parameters
+ * - Display metadata and glTF models for the AR preview
+ *
+ * @example
+ * ```typescript
+ * import { getBmpDefinition, BMP_TYPES } from '@/lib/bmp-catalog';
+ *
+ * const roof = getBmpDefinition('green_roof');
+ * console.log(roof.runoffReduction_percent); // 50
+ * console.log(BMP_TYPES.length); // 5
+ * ```
+ */
+
+// Domain Layer - Value Objects
+export {
+    BMP_TYPES,
+    isBMPType,
+    getBmpDefinition,
+    streetSpace_m2,
+    mapCatalog
+} from './domain/valueObjects/BmpDefinition';
+export type {
+    BMPType,
+    BmpDefinition,
+    BmpPollutantRates,
+    BmpDesignConstraints,
+    BmpDisplay,
+    BmpSwmmLid,
+    SwmmLidType,
+    SwmmLidLayer,
+    StreetSpace
+} from './domain/valueObjects/BmpDefinition';
+
+// Config
+export { BMP_CATALOG } from './config/bmpCatalog';
@@ -0,0 +1,115 @@
+/**
+ * EventLoadService - Event mean concentration (EMC) pollutant loads for a
+ * single storm, with first flush and capture by a water quality BMP
+ *
+ * Formula:
+ * Runoff = Rv × Rainfall × Area,   Rv = 0.05 + 0.009 × Impervious%
+ * Mass = EMC × Runoff
+ * Mass fraction in the first fraction v of the runoff = v^b
+ *
+ * A BMP sized to the water quality volume (WQv) captures the first WQv of
+ * runoff and bypasses the rest, so it holds (WQv / Runoff)^b of the mass.
+ *
+ * @domain env-calculator
+ * @layer domain/services
+ */
+
+import type { PollutantType } from '../entities/Pollutant';
+import {
+    EVENT_MEAN_CONCENTRATIONS,
+    FIRST_FLUSH_EXPONENTS,
+    FIRST_FLUSH_VOLUME_FRACTION,
+    WQV_RAINFALL_MM,
+    type LandUse
+} from '../valueObjects/EventMeanConcentration';
+
+export interface EventLoadInput {
+    area_m2: number;
+    imperviousPercent: number;
+    /** Event rainfall depth (mm) */
+    rainfall_mm: number;
+    landUse: LandUse;
+    /** Area-weighted runoff coefficient of a composite catchment; Schueler's Rv by default */
+    runoffCoefficient?: number;
+    /** Runoff volume the BMP captures (L); the runoff of WQV_RAINFALL_MM by default */
+    wqv_L?: number;
+    /** Mass-volume curve exponent for every pollutant; FIRST_FLUSH_EXPONENTS by default */
+    firstFlushExponent?: number;
+}
+
+export interface PollutantEventLoad {
+    readonly emc_mg_L: number;
+    /** Event mass washed off (kg) */
+    readonly mass_kg: number;
+    /** Share of the mass in the first FIRST_FLUSH_VOLUME_FRACTION of the runoff */
+    readonly firstFlushMassFraction: number;
+    /** Mass held by the WQv-sized BMP (kg) */
+    readonly captured_kg: number;
+    readonly bypassed_kg: number;
+}
+
+export interface EventLoadResult {
+    readonly runoffCoefficient: number;
+    readonly runoffVolume_L: number;
+    readonly capturedVolume_L: number;
+    readonly loads: Readonly<Record<PollutantType, PollutantEventLoad>>;
+}
+
+export class EventLoadService {
+    /**
+     * Calculate the event pollutant mass, its first flush and the load a
+     * WQv-sized BMP captures
+     */
+    calculateEventLoad(input: EventLoadInput): EventLoadResult {
+        validate(input);
+        const rv = runoffCoefficient(input);
+        const runoff_L = rv * input.rainfall_mm * input.area_m2;
+        const captured_L = Math.min(runoff_L, wqvVolume(input, rv));
+        const capturedFraction = runoff_L > 0 ? captured_L / runoff_L : 1;
+        const emcs = EVENT_MEAN_CONCENTRATIONS[input.landUse];
+
+        const load = (pollutant: PollutantType): PollutantEventLoad => {
+            const b = input.firstFlushExponent ?? FIRST_FLUSH_EXPONENTS[pollutant];
+            const mass_kg = emcs[pollutant] * runoff_L / 1e6;
+            const captured_kg = mass_kg * capturedFraction ** b;
+            return Object.freeze({
+                emc_mg_L: emcs[pollutant],
+                mass_kg,
+                firstFlushMassFraction: FIRST_FLUSH_VOLUME_FRACTION ** b,
+                captured_kg,
+                bypassed_kg: mass_kg - captured_kg
+            });
+        };
+
+        return Object.freeze({
+            runoffCoefficient: rv,
+            runoffVolume_L: runoff_L,
+            capturedVolume_L: captured_L,
+            loads: Object.freeze({
+                phosphorus: load('phosphorus'),
+                nitrogen: load('nitrogen'),
+                sediment: load('sediment')
+            })
+        });
+    }
+}
+
+function validate(input: EventLoadInput): void {
+    if (!(input.area_m2 > 0)) {
+        throw new Error('Area must be positive');
+    }
+    if (!(input.rainfall_mm >= 0)) {
+        throw new Error('Rainfall depth must not be negative');
+    }
+}
+
+/**
+ * Schueler's Simple Method Rv unless a composite coefficient is supplied
+ */
+function runoffCoefficient(input: EventLoadInput): number {
+    return input.runoffCoefficient ?? 0.05 + 0.009 * input.imperviousPercent;
+}
+
+function wqvVolume(input: EventLoadInput, rv: number): number {
+    return input.wqv_L ?? rv * WQV_RAINFALL_MM * input.area_m2;
+}
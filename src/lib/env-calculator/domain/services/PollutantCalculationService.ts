@@ -4,8 +4,11 @@
  * Implements EPA/SLAF formulas for calculating pollutant removal by BMPs.
  * 
  * Formula:
- * Load = Area × Impervious% × Rv × AnnualRainfall × LoadingRate
+ * Load = Area × Rv × AnnualRainfall × LoadingRate
  * Removal = Load × RemovalEfficiency
+ *
+ * Rv is the composite runoff coefficient when one is supplied for a
+ * mixed-surface catchment, otherwise the impervious fraction.
  * 
  * @domain env-calculator
  * @layer domain/services
@@ -23,12 +26,16 @@ export interface RemovalInput {
     area_m2: number;
     imperviousPercent: number;
     annualRainfall_mm: number;
+    /** Area-weighted runoff coefficient of a composite catchment */
+    runoffCoefficient?: number;
 }
 
 export interface BaselineInput {
     area_m2: number;
     imperviousPercent: number;
     annualRainfall_mm: number;
+    /** Area-weighted runoff coefficient of a composite catchment */
+    runoffCoefficient?: number;
 }
 
 export interface BMPSpec {
@@ -51,7 +58,7 @@ export class PollutantCalculationService {
         }
 
         const area_acres = input.area_m2 * M2_TO_ACRES;
-        const impervFraction = input.imperviousPercent / 100;
+        const impervFraction = runoffFraction(input);
 
         // Adjust for rainfall (normalize to 40" baseline)
         const rainfallFactor = (input.annualRainfall_mm * MM_TO_INCHES) / 40;
@@ -74,7 +81,7 @@ export class PollutantCalculationService {
      */
     calculateBaselineLoad(input: BaselineInput): PollutantLoadResult {
         const area_acres = input.area_m2 * M2_TO_ACRES;
-        const impervFraction = input.imperviousPercent / 100;
+        const impervFraction = runoffFraction(input);
 
         // Adjust for rainfall (normalize to 40" baseline)
         const rainfallFactor = (input.annualRainfall_mm * MM_TO_INCHES) / 40;
@@ -98,7 +105,8 @@ export class PollutantCalculationService {
         const baseline = this.calculateBaselineLoad({
             area_m2: input.area_m2,
             imperviousPercent: input.imperviousPercent,
-            annualRainfall_mm: input.annualRainfall_mm
+            annualRainfall_mm: input.annualRainfall_mm,
+            runoffCoefficient: input.runoffCoefficient
         });
 
         // Calculate total removal from all BMPs
@@ -111,7 +119,8 @@ export class PollutantCalculationService {
                 bmpType: bmp.type,
                 area_m2: bmp.area_m2,
                 imperviousPercent: input.imperviousPercent,
-                annualRainfall_mm: input.annualRainfall_mm
+                annualRainfall_mm: input.annualRainfall_mm,
+                runoffCoefficient: input.runoffCoefficient
             });
 
             totalPRemoval += removal.phosphorus_lb_yr;
@@ -157,3 +166,10 @@ export class PollutantCalculationService {
         };
     }
 }
+
+/**
+ * Fraction of rainfall that becomes runoff
+ */
+function runoffFraction(input: BaselineInput | RemovalInput): number {
+    return input.runoffCoefficient ?? input.imperviousPercent / 100;
+}
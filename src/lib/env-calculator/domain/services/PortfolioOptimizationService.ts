@@ -0,0 +1,236 @@
+/**
+ * PortfolioOptimizationService - Cost-optimal mix of BMPs for a treatment target
+ *
+ * Every BMP contributes linearly per m² to each metric:
+ *
+ *   Peak reduction (%)  = Σ Aᵢ × RunoffReductionᵢ / A_catchment
+ *   WQv captured (L)    = Σ Aᵢ × StorageDepthᵢ
+ *   Phosphorus (lb/yr)  = Σ Removalᵢ(Aᵢ)
+ *
+ * With a single target and per-type area limits the cheapest mix is found
+ * exactly by filling BMPs in order of cost per unit of the target metric.
+ * The Pareto front (cost vs. target metric) is built from portfolios that
+ * use each BMP at 0, 25, 50, 75 or 100% of its usable space.
+ *
+ * @domain env-calculator
+ * @layer domain/services
+ */
+
+import { BMP_REMOVAL_RATES, type BMPType } from '../valueObjects/RemovalRate';
+import { BMP_DESIGN_FACTORS } from '../valueObjects/BmpDesignFactor';
+import { PollutantCalculationService, type BaselineInput } from './PollutantCalculationService';
+
+export type PortfolioMetric = 'peak_reduction' | 'wqv' | 'phosphorus';
+
+export interface PortfolioTarget {
+    metric: PortfolioMetric;
+    /** % for peak_reduction, L for wqv, lb/yr for phosphorus */
+    value: number;
+}
+
+/** Space available on site for one BMP type */
+export interface SiteSpace {
+    area_m2: number;
+    /** Strip width (m), used to trim the part inside the building setback */
+    width_m?: number;
+    /** Distance from the strip edge to the nearest building foundation (m) */
+    distanceToBuilding_m?: number;
+}
+
+export interface PortfolioInput {
+    target: PortfolioTarget;
+    catchment: BaselineInput;
+    spaces: Partial<Record<BMPType, SiteSpace>>;
+    /** Maximum installed cost (€) */
+    budget?: number;
+    /** Overrides for the default building setbacks in BMP_DESIGN_FACTORS */
+    setbacks_m?: Partial<Record<BMPType, number>>;
+}
+
+export interface BmpAllocation {
+    bmpType: BMPType;
+    area_m2: number;
+    cost: number;
+}
+
+export interface PortfolioOption {
+    allocations: BmpAllocation[];
+    cost: number;
+    peakReduction_percent: number;
+    wqvCaptured_L: number;
+    phosphorus_lb_yr: number;
+}
+
+export interface PortfolioResult {
+    target: PortfolioTarget;
+    /** Whether the target can be met within the site and budget limits */
+    feasible: boolean;
+    /** Cheapest portfolio meeting the target, or null when infeasible */
+    optimal: PortfolioOption | null;
+    /** Non-dominated portfolios within budget, sorted by cost */
+    paretoFront: PortfolioOption[];
+}
+
+interface Candidate {
+    bmpType: BMPType;
+    usable_m2: number;
+    unitCost: number;
+    perM2: Record<PortfolioMetric, number>;
+}
+
+/** Fractions of usable space tried per BMP when building the Pareto front */
+const PARETO_AREA_STEPS = [0, 0.25, 0.5, 0.75, 1];
+
+const METRIC_VALUES: Record<PortfolioMetric, (option: PortfolioOption) => number> = {
+    peak_reduction: (o) => o.peakReduction_percent,
+    wqv: (o) => o.wqvCaptured_L,
+    phosphorus: (o) => o.phosphorus_lb_yr
+};
+
+/**
+ * Value of the given target metric achieved by a portfolio
+ */
+export function portfolioMetricValue(option: PortfolioOption, metric: PortfolioMetric): number {
+    return METRIC_VALUES[metric](option);
+}
+
+export class PortfolioOptimizationService {
+    private readonly pollutants = new PollutantCalculationService();
+
+    /**
+     * Find the cheapest BMP portfolio for a target and the cost/benefit Pareto front
+     */
+    optimize(input: PortfolioInput): PortfolioResult {
+        validate(input);
+        const candidates = this.buildCandidates(input);
+        const budget = input.budget ?? Infinity;
+        const optimal = affordable(cheapestPortfolio(candidates, input.target), budget);
+
+        const options = enumeratePortfolios(candidates)
+            .map(areas => toOption(candidates, areas))
+            .concat(optimal ? [optimal] : [])
+            .filter(o => o.cost > 0 && o.cost <= budget);
+
+        return {
+            target: input.target,
+            feasible: optimal !== null,
+            optimal,
+            paretoFront: paretoFront(options, input.target.metric)
+        };
+    }
+
+    private buildCandidates(input: PortfolioInput): Candidate[] {
+        return (Object.keys(input.spaces) as BMPType[]).map(bmpType => this.buildCandidate(bmpType, input));
+    }
+
+    private buildCandidate(bmpType: BMPType, input: PortfolioInput): Candidate {
+        const factor = BMP_DESIGN_FACTORS[bmpType];
+        if (!factor) {
+            throw new Error(`Unknown BMP type: ${bmpType}`);
+        }
+        const removal = this.pollutants.calculateRemoval({ ...input.catchment, bmpType, area_m2: 1 });
+
+        return {
+            bmpType,
+            usable_m2: usableArea(input.spaces[bmpType]!, setbackFor(bmpType, input.setbacks_m)),
+            unitCost: factor.unitCost_per_m2,
+            perM2: {
+                peak_reduction: BMP_REMOVAL_RATES[bmpType].runoffReduction_percent / input.catchment.area_m2,
+                wqv: factor.storageDepth_mm,
+                phosphorus: removal.phosphorus_lb_yr
+            }
+        };
+    }
+}
+
+function validate(input: PortfolioInput): void {
+    if (input.catchment.area_m2 <= 0) {
+        throw new Error('Portfolio optimization requires a positive catchment area');
+    }
+    if (input.target.value <= 0) {
+        throw new Error('Portfolio target must be positive');
+    }
+}
+
+function setbackFor(bmpType: BMPType, overrides: PortfolioInput['setbacks_m']): number {
+    return overrides?.[bmpType] ?? BMP_DESIGN_FACTORS[bmpType].minSetback_m;
+}
+
+/**
+ * Site area left once the strip inside the building setback is removed
+ */
+function usableArea(space: SiteSpace, setback_m: number): number {
+    const encroachment = Math.max(0, setback_m - (space.distanceToBuilding_m ?? Infinity));
+    return Math.max(0, space.area_m2) * keptWidthFraction(space.width_m ?? 0, encroachment);
+}
+
+function keptWidthFraction(width_m: number, encroachment_m: number): number {
+    if (encroachment_m === 0) return 1;
+    return width_m > encroachment_m ? (width_m - encroachment_m) / width_m : 0;
+}
+
+/**
+ * Greedy fill by cost per unit of the target metric (exact for one linear target)
+ */
+function cheapestPortfolio(candidates: Candidate[], target: PortfolioTarget): PortfolioOption | null {
+    const unitCost = (c: Candidate) => c.unitCost / c.perM2[target.metric];
+    const ranked = candidates.filter(c => c.perM2[target.metric] > 0).sort((a, b) => unitCost(a) - unitCost(b));
+
+    const areas = new Map<BMPType, number>();
+    let remaining = target.value;
+    for (const c of ranked) {
+        const area = Math.min(c.usable_m2, Math.ceil(Math.max(0, remaining) / c.perM2[target.metric]));
+        areas.set(c.bmpType, area);
+        remaining -= area * c.perM2[target.metric];
+    }
+
+    return remaining > 1e-9 ? null : toOption(candidates, candidates.map(c => areas.get(c.bmpType) ?? 0));
+}
+
+function affordable(option: PortfolioOption | null, budget: number): PortfolioOption | null {
+    if (!option) return null;
+    return option.cost <= budget ? option : null;
+}
+
+/**
+ * Every combination of PARETO_AREA_STEPS across the candidate BMPs
+ */
+function enumeratePortfolios(candidates: Candidate[]): number[][] {
+    return candidates.reduce<number[][]>(
+        (combos, c) => combos.flatMap(combo =>
+            PARETO_AREA_STEPS.map(step => [...combo, Math.floor(step * c.usable_m2)])
+        ),
+        [[]]
+    );
+}
+
+function toOption(candidates: Candidate[], areas: number[]): PortfolioOption {
+    const total = (metric: PortfolioMetric) =>
+        candidates.reduce((sum, c, i) => sum + areas[i] * c.perM2[metric], 0);
+    const allocations = candidates
+        .map((c, i) => ({ bmpType: c.bmpType, area_m2: areas[i], cost: areas[i] * c.unitCost }))
+        .filter(a => a.area_m2 > 0);
+
+    return {
+        allocations,
+        cost: allocations.reduce((sum, a) => sum + a.cost, 0),
+        peakReduction_percent: total('peak_reduction'),
+        wqvCaptured_L: total('wqv'),
+        phosphorus_lb_yr: total('phosphorus')
+    };
+}
+
+/**
+ * Keep portfolios that no cheaper portfolio matches on the target metric
+ */
+function paretoFront(options: PortfolioOption[], metric: PortfolioMetric): PortfolioOption[] {
+    const value = METRIC_VALUES[metric];
+    const sorted = [...options].sort((a, b) => a.cost - b.cost || value(b) - value(a));
+
+    let best = -Infinity;
+    return sorted.filter(o => {
+        if (value(o) <= best) return false;
+        best = value(o);
+        return true;
+    });
+}
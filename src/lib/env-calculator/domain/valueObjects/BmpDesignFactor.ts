@@ -0,0 +1,29 @@
+/**
+ * BMP Design Factors - unit cost, storage and siting rules per BMP type
+ *
+ * Read from the BMP catalog (Berlin market rates, Virginia DEQ BMP Design
+ * Specifications).
+ *
+ * @domain env-calculator
+ * @layer domain/valueObjects
+ */
+
+import { mapCatalog } from '../../../bmp-catalog/domain/valueObjects/BmpDefinition';
+import type { BMPType } from './RemovalRate';
+
+export interface BmpDesignFactor {
+    readonly bmpType: BMPType;
+    /** Installed cost (€/m²) */
+    readonly unitCost_per_m2: number;
+    /** Effective storage depth (mm over the BMP footprint; mm × m² = L) */
+    readonly storageDepth_mm: number;
+    /** Minimum distance from building foundations (m) */
+    readonly minSetback_m: number;
+}
+
+export const BMP_DESIGN_FACTORS: Record<BMPType, BmpDesignFactor> = mapCatalog(bmp => ({
+    bmpType: bmp.type,
+    unitCost_per_m2: bmp.unitCost_per_m2,
+    storageDepth_mm: bmp.design.storageDepth_mm,
+    minSetback_m: bmp.design.minSetback_m
+}));
@@ -0,0 +1,45 @@
+/**
+ * Event Mean Concentrations - flow-weighted stormwater pollutant
+ * concentrations by land use, and first-flush defaults
+ *
+ * Data sources:
+ * - Pitt, Maestre & Morquecho (2004) National Stormwater Quality Database
+ *   (NSQD) v1.1 median EMCs; TN is TKN plus NO2+NO3
+ * - Bertrand-Krajewski, Chebbo & Saget (1998) mass-volume curves M = V^b
+ * - Schueler (1987) Simple Method runoff coefficient
+ *
+ * @domain env-calculator
+ * @layer domain/valueObjects
+ */
+
+import type { PollutantType } from '../entities/Pollutant';
+
+export type LandUse = 'residential' | 'commercial' | 'industrial' | 'freeway' | 'open_space';
+
+/** Median event mean concentrations (mg/L) */
+export const EVENT_MEAN_CONCENTRATIONS: Record<LandUse, Record<PollutantType, number>> = {
+    residential: { phosphorus: 0.30, nitrogen: 2.05, sediment: 48 },
+    commercial: { phosphorus: 0.22, nitrogen: 2.16, sediment: 43 },
+    industrial: { phosphorus: 0.26, nitrogen: 2.13, sediment: 77 },
+    freeway: { phosphorus: 0.25, nitrogen: 2.28, sediment: 99 },
+    open_space: { phosphorus: 0.31, nitrogen: 1.74, sediment: 51 }
+};
+
+export const LAND_USES = Object.keys(EVENT_MEAN_CONCENTRATIONS) as [LandUse, ...LandUse[]];
+
+/**
+ * Mass-volume curve exponents b: the first fraction v of the runoff carries
+ * v^b of the event mass. Below 1 is a first flush; particulates flush
+ * hardest, dissolved nitrogen least.
+ */
+export const FIRST_FLUSH_EXPONENTS: Record<PollutantType, number> = {
+    phosphorus: 0.7,
+    nitrogen: 0.8,
+    sediment: 0.6
+};
+
+/** Runoff share of the 30/80 first-flush criterion */
+export const FIRST_FLUSH_VOLUME_FRACTION = 0.3;
+
+/** Rainfall depth whose runoff a water quality BMP is sized to capture (mm) */
+export const WQV_RAINFALL_MM = 25.4;
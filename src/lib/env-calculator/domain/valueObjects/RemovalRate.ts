@@ -10,7 +10,9 @@
  * @layer domain/valueObjects
  */
 
-export type BMPType = 'rain_garden' | 'permeable_pavement' | 'tree_planter' | 'green_roof' | 'bioswale';
+import { mapCatalog, type BMPType } from '../../../bmp-catalog/domain/valueObjects/BmpDefinition';
+
+export type { BMPType };
 
 export interface RemovalRate {
     readonly bmpType: BMPType;
@@ -21,46 +23,14 @@ export interface RemovalRate {
 }
 
 /**
- * EPA-validated removal rates by BMP type
+ * EPA-validated removal rates by BMP type, taken from the BMP catalog
  * Values are median removal efficiencies from peer-reviewed studies
  */
-export const BMP_REMOVAL_RATES: Record<BMPType, RemovalRate> = {
-    rain_garden: {
-        bmpType: 'rain_garden',
-        phosphorus_lb_acre_yr: 0.40,
-        nitrogen_lb_acre_yr: 0.25,
-        sediment_percent: 85,
-        runoffReduction_percent: 40
-    },
-    permeable_pavement: {
-        bmpType: 'permeable_pavement',
-        phosphorus_lb_acre_yr: 0.35,
-        nitrogen_lb_acre_yr: 0.20,
-        sediment_percent: 80,
-        runoffReduction_percent: 70
-    },
-    tree_planter: {
-        bmpType: 'tree_planter',
-        phosphorus_lb_acre_yr: 0.15,
-        nitrogen_lb_acre_yr: 0.10,
-        sediment_percent: 60,
-        runoffReduction_percent: 25
-    },
-    green_roof: {
-        bmpType: 'green_roof',
-        phosphorus_lb_acre_yr: 0.20,
-        nitrogen_lb_acre_yr: 0.15,
-        sediment_percent: 70,
-        runoffReduction_percent: 50
-    },
-    bioswale: {
-        bmpType: 'bioswale',
-        phosphorus_lb_acre_yr: 0.30,
-        nitrogen_lb_acre_yr: 0.18,
-        sediment_percent: 75,
-        runoffReduction_percent: 35
-    }
-};
+export const BMP_REMOVAL_RATES: Record<BMPType, RemovalRate> = mapCatalog(bmp => ({
+    bmpType: bmp.type,
+    ...bmp.pollutants,
+    runoffReduction_percent: bmp.runoffReduction_percent
+}));
 
 /**
  * Urban land use pollutant loading rates (baseline without BMPs)
@@ -3,6 +3,8 @@
  * 
  * Domain-agnostic library for environmental metrics calculation:
  * - Pollutant load reduction (TN/TP/TSS)
+ * - Event mean concentration storm loads, first flush and WQv capture
+ * - Cost-optimal BMP portfolios with a cost/benefit Pareto front
  * - Co-benefits (carbon, energy, jobs, equity)
  * 
  * Designed for reuse across applications like:
@@ -35,6 +37,18 @@ export type { Pollutant, PollutantType } from './domain/entities/Pollutant';
 export { BMP_REMOVAL_RATES, URBAN_LOADING_RATES } from './domain/valueObjects/RemovalRate';
 export type { BMPType, RemovalRate } from './domain/valueObjects/RemovalRate';
 
+export { BMP_DESIGN_FACTORS } from './domain/valueObjects/BmpDesignFactor';
+export type { BmpDesignFactor } from './domain/valueObjects/BmpDesignFactor';
+
+export {
+    EVENT_MEAN_CONCENTRATIONS,
+    LAND_USES,
+    FIRST_FLUSH_EXPONENTS,
+    FIRST_FLUSH_VOLUME_FRACTION,
+    WQV_RAINFALL_MM
+} from './domain/valueObjects/EventMeanConcentration';
+export type { LandUse } from './domain/valueObjects/EventMeanConcentration';
+
 export { createPollutantLoadResult, createComparison } from './domain/valueObjects/PollutantLoadResult';
 export type { PollutantLoadResult, PrePostComparison } from './domain/valueObjects/PollutantLoadResult';
 
@@ -47,11 +61,27 @@ export type {
     RetrofitInput
 } from './domain/services/PollutantCalculationService';
 
+export { EventLoadService } from './domain/services/EventLoadService';
+export type { EventLoadInput, PollutantEventLoad, EventLoadResult } from './domain/services/EventLoadService';
+
+export { PortfolioOptimizationService, portfolioMetricValue } from './domain/services/PortfolioOptimizationService';
+export type {
+    PortfolioMetric,
+    PortfolioTarget,
+    SiteSpace,
+    PortfolioInput,
+    BmpAllocation,
+    PortfolioOption,
+    PortfolioResult
+} from './domain/services/PortfolioOptimizationService';
+
 // ============================================================================
 // Factory Functions for Easy Setup
 // ============================================================================
 
 import { PollutantCalculationService } from './domain/services/PollutantCalculationService';
+import { PortfolioOptimizationService } from './domain/services/PortfolioOptimizationService';
+import { EventLoadService } from './domain/services/EventLoadService';
 
 /**
  * Create a pollutant calculation service instance
@@ -59,3 +89,17 @@ import { PollutantCalculationService } from './domain/services/PollutantCalculat
 export function createPollutantService(): PollutantCalculationService {
     return new PollutantCalculationService();
 }
+
+/**
+ * Create an event mean concentration storm load service instance
+ */
+export function createEventLoadService(): EventLoadService {
+    return new EventLoadService();
+}
+
+/**
+ * Create a BMP portfolio optimization service instance
+ */
+export function createPortfolioOptimizationService(): PortfolioOptimizationService {
+    return new PortfolioOptimizationService();
+}
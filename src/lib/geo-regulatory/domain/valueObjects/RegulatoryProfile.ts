@@ -8,6 +8,9 @@
  * @layer domain/valueObjects
  */
 
+import type { IdfParameters } from '../../../hydrology-engine/domain/valueObjects/IdfCurve';
+import type { ClimateUpliftTable } from '../../../hydrology-engine/domain/valueObjects/ClimateUplift';
+
 /**
  * Base interface for all regulatory profiles
  * TParams is the domain-specific parameter type
@@ -69,6 +72,15 @@ export interface StormwaterParameters {
 
     /** Preferred unit system for display */
     units: 'imperial' | 'metric';
+
+    /** Official intensity-duration-frequency fit for design storms */
+    idf?: IdfParameters;
+
+    /** Official climate change uplift factors for future design rainfall */
+    climateUplift?: ClimateUpliftTable;
+
+    /** Mean annual rainfall in mm (1991–2020 normal) for pollutant loads */
+    annualRainfall_mm?: number;
 }
 
 /**
@@ -60,6 +60,8 @@ import { DiscoverRegulatoryProfileUseCase } from './application/DiscoverRegulato
 import { NominatimGeocodingAdapter } from './adapters/NominatimGeocodingAdapter';
 import { InMemoryProfileAdapter } from './adapters/InMemoryProfileAdapter';
 import type { RegulatoryProfile, StormwaterParameters } from './domain/valueObjects/RegulatoryProfile';
+import { IDF_PRESETS } from '../hydrology-engine/config/designStorms';
+import { CLIMATE_UPLIFT_PRESETS } from '../hydrology-engine/config/climateUplift';
 
 /**
  * Create a fully configured discovery use case with default adapters
@@ -104,6 +106,7 @@ export const STORMWATER_PROFILES: RegulatoryProfile<StormwaterParameters>[] = [
         authorityUrl: 'https://www.epa.gov/',
         parameters: {
             designDepth_mm: 25.4, // 1 inch
+            annualRainfall_mm: 767, // 30.2 inches, contiguous US
             designIntensity_mm_hr: 50.0,
             rvFormula: () => 0.9,
             units: 'imperial'
@@ -120,9 +123,12 @@ export const STORMWATER_PROFILES: RegulatoryProfile<StormwaterParameters>[] = [
         authorityUrl: 'https://www.deq.virginia.gov/',
         parameters: {
             designDepth_mm: 30.48, // 1.2 inches
+            annualRainfall_mm: 1092, // 43 inches
             designIntensity_mm_hr: 50.8,
             rvFormula: (i) => 0.05 + (0.009 * i),
-            units: 'imperial'
+            units: 'imperial',
+            idf: IDF_PRESETS.us_mid_atlantic,
+            climateUplift: CLIMATE_UPLIFT_PRESETS.us_mid_atlantic
         }
     },
     // Fairfax County (overrides Virginia)
@@ -136,9 +142,12 @@ export const STORMWATER_PROFILES: RegulatoryProfile<StormwaterParameters>[] = [
         authorityUrl: 'https://www.fairfaxcounty.gov/publicworks/',
         parameters: {
             designDepth_mm: 38.1, // 1.5 inches (stricter than state)
+            annualRainfall_mm: 1087, // 42.8 inches
             designIntensity_mm_hr: 50.8,
             rvFormula: (i) => 0.05 + (0.009 * i),
-            units: 'imperial'
+            units: 'imperial',
+            idf: IDF_PRESETS.us_mid_atlantic,
+            climateUplift: CLIMATE_UPLIFT_PRESETS.us_mid_atlantic
         }
     },
     // New York City
@@ -152,9 +161,11 @@ export const STORMWATER_PROFILES: RegulatoryProfile<StormwaterParameters>[] = [
         authorityUrl: 'https://www1.nyc.gov/site/dep/',
         parameters: {
             designDepth_mm: 38.1, // 1.5 inches
+            annualRainfall_mm: 1257, // 49.5 inches, Central Park
             designIntensity_mm_hr: 45.0,
             rvFormula: (i) => 0.05 + (0.009 * i),
-            units: 'imperial'
+            units: 'imperial',
+            climateUplift: CLIMATE_UPLIFT_PRESETS.us_northeast
         }
     },
     // California
@@ -168,6 +179,7 @@ export const STORMWATER_PROFILES: RegulatoryProfile<StormwaterParameters>[] = [
         authorityUrl: 'https://www.waterboards.ca.gov/',
         parameters: {
             designDepth_mm: 19.05, // 0.75 inches
+            annualRainfall_mm: 559, // 22 inches, statewide
             designIntensity_mm_hr: 40.0,
             rvFormula: () => 0.9,
             units: 'imperial'
@@ -184,9 +196,12 @@ export const STORMWATER_PROFILES: RegulatoryProfile<StormwaterParameters>[] = [
         authorityUrl: 'https://de.dwa.de/',
         parameters: {
             designDepth_mm: 25.0,
+            annualRainfall_mm: 791,
             designIntensity_mm_hr: 45.0,
             rvFormula: () => 0.9,
-            units: 'metric'
+            units: 'metric',
+            idf: IDF_PRESETS.de_berlin,
+            climateUplift: CLIMATE_UPLIFT_PRESETS.de_berlin
         }
     },
     // Germany Berlin State
@@ -200,9 +215,12 @@ export const STORMWATER_PROFILES: RegulatoryProfile<StormwaterParameters>[] = [
         authorityUrl: 'https://regenwasseragentur.berlin/',
         parameters: {
             designDepth_mm: 30.0,
+            annualRainfall_mm: 570,
             designIntensity_mm_hr: 45.0,
             rvFormula: () => 0.9,
-            units: 'metric'
+            units: 'metric',
+            idf: IDF_PRESETS.de_berlin,
+            climateUplift: CLIMATE_UPLIFT_PRESETS.de_berlin
         }
     },
     // Germany Berlin City (same as state since Berlin is city-state)
@@ -216,9 +234,12 @@ export const STORMWATER_PROFILES: RegulatoryProfile<StormwaterParameters>[] = [
         authorityUrl: 'https://regenwasseragentur.berlin/',
         parameters: {
             designDepth_mm: 30.0,
+            annualRainfall_mm: 570,
             designIntensity_mm_hr: 45.0,
             rvFormula: () => 0.9,
-            units: 'metric'
+            units: 'metric',
+            idf: IDF_PRESETS.de_berlin,
+            climateUplift: CLIMATE_UPLIFT_PRESETS.de_berlin
         }
     },
     // UK London
@@ -232,9 +253,11 @@ export const STORMWATER_PROFILES: RegulatoryProfile<StormwaterParameters>[] = [
         authorityUrl: 'https://www.london.gov.uk/',
         parameters: {
             designDepth_mm: 25.0,
+            annualRainfall_mm: 600,
             designIntensity_mm_hr: 50.0,
             rvFormula: () => 0.9,
-            units: 'metric'
+            units: 'metric',
+            climateUplift: CLIMATE_UPLIFT_PRESETS.gb_london
         }
     },
     // Global Default
@@ -6,7 +6,9 @@
  */
 
 import { GRANT_PROGRAMS, type GrantProgramId } from '../entities/GrantProgram';
-import type { BMPType } from '../../../env-calculator/domain/valueObjects/RemovalRate';
+import { BMP_CATALOG } from '../../../bmp-catalog/config/bmpCatalog';
+import type { BMPType } from '../../../bmp-catalog/domain/valueObjects/BmpDefinition';
+import type { InfiltrationFacilityDesign } from '../../../hydrology-engine/domain/services/DwaA138Service';
 
 export interface BMPSpec {
     type: BMPType;
@@ -25,6 +27,8 @@ export interface ProjectData {
     // Metric units (for Berlin, etc.)
     retention_mm?: number;
     infiltrationRate_mm_hr?: number;
+    /** DWA-A 138 sizing of the proposed infiltration facility */
+    dwaA138?: InfiltrationFacilityDesign;
 
     // Cost-Benefit
     hasBCR?: boolean;
@@ -169,8 +173,21 @@ export class ComplianceCheckService {
     }
 
     private checkDwaA138(p: ProjectData): ComplianceCheck {
-        const ok = (p.infiltrationRate_mm_hr ?? 0) >= 10 || p.bmps.length > 0;
-        return { id: 'dwa_a138', label: 'DWA-A 138', passed: ok };
+        const design = p.dwaA138;
+        if (!design) return { id: 'dwa_a138', label: 'DWA-A 138', passed: false, reason: 'DWA-A 138 sizing required' };
+
+        const provided = p.bmps
+            .filter(b => BMP_CATALOG[b.type].design.infiltrates)
+            .reduce((sum, b) => sum + b.area_m2, 0);
+        const passed = design.compliant && provided >= design.surfaceArea_m2;
+        return {
+            id: 'dwa_a138',
+            label: 'DWA-A 138',
+            passed,
+            value: `${Math.round(provided)}m²`,
+            threshold: Math.ceil(design.surfaceArea_m2),
+            reason: dwaReason(design, passed)
+        };
     }
 
     private checkEquity(): ComplianceCheck {
@@ -246,3 +263,13 @@ export class ComplianceCheckService {
     }
 
 }
+
+function dwaReason(design: InfiltrationFacilityDesign, passed: boolean): string {
+    if (passed) return 'Sized to DWA-A 138';
+    if (!design.compliant) return dwaDesignIssue(design);
+    return 'Infiltration area below required surface';
+}
+
+function dwaDesignIssue(design: InfiltrationFacilityDesign): string {
+    return design.kfPermissible ? 'Emptying time exceeds 24 h' : 'Soil permeability outside 1e-6 to 1e-3 m/s';
+}
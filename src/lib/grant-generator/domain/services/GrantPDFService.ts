@@ -9,6 +9,38 @@ import jsPDF from 'jspdf';
 import { GRANT_TEMPLATES, type GrantTemplate } from '../../templates/grantTemplates';
 import { GRANT_PROGRAMS, type GrantProgramId } from '../entities/GrantProgram';
 import { ComplianceCheckService, type ProjectData, type ComplianceResult, type ComplianceCheck, type BMPSpec } from './ComplianceCheckService';
+import type { PermeablePavementDesign } from '../../../hydrology-engine/domain/services/PermeablePavementService';
+import type { InfiltrationFacilityDesign } from '../../../hydrology-engine/domain/services/DwaA138Service';
+import type { RetrofitOutput, RetrofitUncertaintyResult } from '../../../uncertainty-engine/domain/services/RetrofitUncertaintyService';
+
+/** Structured engineering design records that template fields can reference */
+export interface DesignRecords {
+    permeablePavement?: PermeablePavementDesign;
+    dwaA138?: InfiltrationFacilityDesign;
+}
+
+const formatHours = (v: number) => (Number.isFinite(v) ? `${v.toFixed(1)} h` : '∞');
+
+const DESIGN_FORMATS: Record<string, (val: number) => string> = {
+    baseDepth_mm: (v) => `${Math.round(v)} mm`,
+    storageVolume_L: (v) => `${Math.round(v).toLocaleString()} L`,
+    drawdownTime_hr: formatHours,
+    loadingRatio: (v) => `${v.toFixed(1)}:1`,
+    maxLoadingRatio: (v) => `${v.toFixed(1)}:1`,
+    surfaceArea_m2: (v) => (Number.isFinite(v) ? `${Math.ceil(v)} m²` : '∞'),
+    storageVolume_m3: (v) => (Number.isFinite(v) ? `${v.toFixed(1)} m³` : '∞'),
+    emptyingTime_hr: formatHours,
+    criticalDuration_min: (v) => `${v} min`,
+    kf_m_s: (v) => `${v.toExponential(1)} m/s`
+};
+
+const UNCERTAINTY_FORMATS: Record<RetrofitOutput, (val: number) => string> = {
+    peakRunoff_Ls: (v) => `${v.toFixed(1)} L/s`,
+    wqv_L: (v) => `${Math.round(v).toLocaleString()} L`,
+    peakReduction_percent: (v) => `${Math.round(v)}%`,
+    phosphorusRemoved_lb_yr: (v) => `${v.toFixed(2)} lb/yr`,
+    nitrogenRemoved_lb_yr: (v) => `${v.toFixed(1)} lb/yr`
+};
 
 export interface GrantApplicationData {
     project: {
@@ -20,6 +52,12 @@ export interface GrantApplicationData {
         peakReduction_percent?: number;
         bcrValue?: number;
         infiltrationRate_mm_hr?: number;
+        /** Area-weighted values of the composite (multi-surface) catchment */
+        imperviousPercent?: number;
+        runoffCoefficient?: number;
+        curveNumber?: number;
+        /** Long-term rain garden capture from continuous simulation */
+        annualCapture_percent?: number;
     };
     geo: {
         hierarchy: string[];
@@ -32,6 +70,13 @@ export interface GrantApplicationData {
         sediment: number;
     };
     bmps: Array<{ type: string; area_m2: number }>;
+    designs?: DesignRecords;
+    /** Monte Carlo P10 / P50 / P90 bands of the results */
+    uncertainty?: RetrofitUncertaintyResult;
+    /** Registry version of the PINN behind the peak runoff; absent for the Rational and SCS methods */
+    runoffModelVersion?: string;
+    /** Caveats on the modelled results, e.g. PINN inputs outside its training ranges */
+    modelWarnings?: string[];
     hasResiliencePlan?: boolean;
 }
 
@@ -42,6 +87,23 @@ export interface GeneratedPDF {
     doc: jsPDF;
 }
 
+function formatDesignVal(field: string, val: unknown): string {
+    if (typeof val === 'boolean') return val ? '✓' : '✗';
+    return formatDesignNumber(field, val);
+}
+
+function formatDesignNumber(field: string, val: unknown): string {
+    const format = DESIGN_FORMATS[field];
+    return format ? format(val as number) : String(val ?? 'N/A');
+}
+
+function formatUncertaintyBand(uncertainty: RetrofitUncertaintyResult | undefined, key: string): string {
+    const band = uncertainty?.bands[key as RetrofitOutput];
+    if (!band) return 'N/A';
+    const format = UNCERTAINTY_FORMATS[key as RetrofitOutput];
+    return `${format(band.p50)} (P10 ${format(band.p10)} – P90 ${format(band.p90)})`;
+}
+
 export class GrantPDFService {
     public complianceService = new ComplianceCheckService();
 
@@ -66,6 +128,7 @@ export class GrantPDFService {
             phosphorusRemoval_lb_yr: data.pollutants.TP,
             nitrogenRemoval_lb_yr: data.pollutants.TN,
             infiltrationRate_mm_hr: data.project.infiltrationRate_mm_hr,
+            dwaA138: data.designs?.dwaA138,
             bmps: data.bmps as BMPSpec[]
         };
 
@@ -85,7 +148,7 @@ export class GrantPDFService {
         });
 
         // Generate PDF
-        const pdf = this.createPDF(template, fields, compliance, grantId);
+        const pdf = this.createPDF(template, fields, compliance, data);
         const blob = pdf.output('blob');
         const filename = `${grantId.toLowerCase()}_preapplication_${Date.now()}.pdf`;
 
@@ -106,6 +169,8 @@ export class GrantPDFService {
             geo: (f) => this.getGeoValue(data.geo, f.sourceKey || ''),
             calc: (f) => this.calculateValue(f.calcFn || '', data, calcs, currency),
             compliance: (f) => this.getComplianceValue(compliance, f.sourceKey || ''),
+            design: (f) => this.getDesignValue(data.designs, f.sourceKey || ''),
+            uncertainty: (f) => formatUncertaintyBand(data.uncertainty, f.sourceKey || ''),
             static: (f) => f.staticValue || ''
         };
 
@@ -122,6 +187,12 @@ export class GrantPDFService {
         return val ? String(val) : '';
     }
 
+    private getDesignValue(designs: DesignRecords | undefined, key: string): string {
+        const [design, field] = key.split('.');
+        const record = designs?.[design as keyof DesignRecords] as Record<string, unknown> | undefined;
+        return record ? formatDesignVal(field, record[field]) : 'N/A';
+    }
+
     private getComplianceValue(compliance: ComplianceResult, key: string): string {
         const c = compliance.checks.find(ch => ch.id === key);
         if (!c) return 'N/A';
@@ -144,7 +215,8 @@ export class GrantPDFService {
 
     private formatProjectVal(key: string, val: unknown): string {
         const units: Record<string, string> = {
-            area_m2: 'm²', retention_in: '"', retention_mm: 'mm', peakReduction_percent: '%'
+            area_m2: 'm²', retention_in: '"', retention_mm: 'mm', peakReduction_percent: '%', annualCapture_percent: '%',
+            imperviousPercent: '%'
         };
         const u = units[key];
         if (u) return `${val}${u}`;
@@ -186,10 +258,12 @@ export class GrantPDFService {
         return calc.includes('sediment') ? `${sediment}% reduction` : 'N/A';
     }
 
-    private createPDF(template: GrantTemplate, fields: Record<string, string>, compliance: ComplianceResult, grantId: GrantProgramId): jsPDF {
+    private createPDF(template: GrantTemplate, fields: Record<string, string>, compliance: ComplianceResult, data: GrantApplicationData): jsPDF {
         const doc = new jsPDF();
-        let y = this.drawTemplateHeader(doc, template, GRANT_PROGRAMS[grantId]);
+        let y = this.drawTemplateHeader(doc, template, GRANT_PROGRAMS[template.programId]);
         y = this.drawTemplateSections(doc, template, fields, y);
+        y = this.drawRunoffModel(doc, data.runoffModelVersion, y);
+        y = this.drawTemplateWarnings(doc, data.modelWarnings ?? [], y);
         this.drawTemplateCompliance(doc, compliance, y);
         this.drawTemplateFooter(doc);
         return doc;
@@ -222,6 +296,24 @@ export class GrantPDFService {
         return y;
     }
 
+    private drawRunoffModel(doc: jsPDF, version: string | undefined, y: number): number {
+        if (!version) return y;
+        doc.setFontSize(9); doc.setFont('helvetica', 'normal');
+        doc.text(`Peak runoff: physics-informed neural network, model v${version}`, 15, y);
+        return y + 8;
+    }
+
+    private drawTemplateWarnings(doc: jsPDF, warnings: string[], startY: number): number {
+        if (warnings.length === 0) return startY;
+        let y = startY;
+        doc.setFontSize(10); doc.setFont('helvetica', 'bold'); doc.setTextColor(180, 83, 9);
+        doc.text('Model extrapolation warning', 15, y); y += 6;
+        doc.setFontSize(9); doc.setFont('helvetica', 'normal');
+        warnings.forEach(w => { doc.text(`• ${w}`, 20, y); y += 5; });
+        doc.setTextColor(0);
+        return y + 5;
+    }
+
     private drawTemplateCompliance(doc: jsPDF, compliance: ComplianceResult, y: number): void {
         doc.setFontSize(12); doc.setFont('helvetica', 'bold');
         doc.line(15, y, 195, y); y += 6;
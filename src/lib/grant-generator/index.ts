@@ -38,7 +38,7 @@ export type {
 } from './domain/services/ComplianceCheckService';
 
 export { GrantPDFService } from './domain/services/GrantPDFService';
-export type { GrantApplicationData, GeneratedPDF } from './domain/services/GrantPDFService';
+export type { GrantApplicationData, GeneratedPDF, DesignRecords } from './domain/services/GrantPDFService';
 
 // Templates
 export { GRANT_TEMPLATES, CFPF_TEMPLATE, SLAF_TEMPLATE, BRIC_TEMPLATE, BENE2_TEMPLATE } from './templates/grantTemplates';
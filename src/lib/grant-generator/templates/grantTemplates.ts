@@ -10,7 +10,11 @@ import type { GrantProgramId } from '../domain/entities/GrantProgram';
 export interface TemplateField {
     id: string;
     label: string;
-    source: 'project' | 'geo' | 'calc' | 'compliance' | 'static';
+    source: 'project' | 'geo' | 'calc' | 'compliance' | 'design' | 'uncertainty' | 'static';
+    /**
+     * For 'design' fields: `<design>.<field>`, e.g. `permeablePavement.baseDepth_mm`;
+     * for 'uncertainty' fields: the banded output, e.g. `peakRunoff_Ls`
+     */
     sourceKey?: string;
     calcFn?: string;
     staticValue?: string;
@@ -57,7 +61,22 @@ export const CFPF_TEMPLATE: GrantTemplate = {
             fields: [
                 { id: 'bcr', label: 'Cost-Benefit Ratio', source: 'project', sourceKey: 'bcrValue', required: true },
                 { id: 'peak_reduction', label: 'Peak Runoff Reduction', source: 'project', sourceKey: 'peakReduction_percent', required: true },
-                { id: 'wqv', label: 'Water Quality Volume', source: 'project', sourceKey: 'retention_in', required: true }
+                { id: 'wqv', label: 'Water Quality Volume', source: 'project', sourceKey: 'retention_in', required: true },
+                { id: 'impervious', label: 'Impervious Cover', source: 'project', sourceKey: 'imperviousPercent', required: false },
+                { id: 'runoff_coefficient', label: 'Composite Runoff Coefficient', source: 'project', sourceKey: 'runoffCoefficient', required: false },
+                { id: 'curve_number', label: 'Composite Curve Number', source: 'project', sourceKey: 'curveNumber', required: false },
+                { id: 'annual_capture', label: 'Long-Term Runoff Capture', source: 'project', sourceKey: 'annualCapture_percent', required: false }
+            ]
+        },
+        {
+            title: 'Permeable Pavement Design',
+            fields: [
+                { id: 'pp_base_depth', label: 'Aggregate Base Depth', source: 'design', sourceKey: 'permeablePavement.baseDepth_mm', required: false },
+                { id: 'pp_storage', label: 'Reservoir Storage', source: 'design', sourceKey: 'permeablePavement.storageVolume_L', required: false },
+                { id: 'pp_drawdown', label: 'Drawdown Time', source: 'design', sourceKey: 'permeablePavement.drawdownTime_hr', required: false },
+                { id: 'pp_underdrain', label: 'Underdrain Required', source: 'design', sourceKey: 'permeablePavement.underdrainRequired', required: false },
+                { id: 'pp_loading', label: 'Run-on Loading Ratio', source: 'design', sourceKey: 'permeablePavement.loadingRatio', required: false },
+                { id: 'pp_max_loading', label: 'Max Loading Ratio', source: 'design', sourceKey: 'permeablePavement.maxLoadingRatio', required: false }
             ]
         },
         {
@@ -68,6 +87,14 @@ export const CFPF_TEMPLATE: GrantTemplate = {
                 { id: 'sediment', label: 'Sediment Reduction', source: 'calc', calcFn: 'pollutants.sediment', required: false }
             ]
         },
+        {
+            title: 'Uncertainty (P50, P10 – P90)',
+            fields: [
+                { id: 'peak_runoff_band', label: 'Peak Runoff', source: 'uncertainty', sourceKey: 'peakRunoff_Ls', required: false },
+                { id: 'wqv_band', label: 'Water Quality Volume', source: 'uncertainty', sourceKey: 'wqv_L', required: false },
+                { id: 'peak_reduction_band', label: 'Peak Runoff Reduction', source: 'uncertainty', sourceKey: 'peakReduction_percent', required: false }
+            ]
+        },
         {
             title: 'Compliance',
             fields: [
@@ -101,6 +128,13 @@ export const SLAF_TEMPLATE: GrantTemplate = {
                 { id: 'sediment', label: 'Sediment Reduction (tons/yr)', source: 'calc', calcFn: 'pollutants.sediment', required: true }
             ]
         },
+        {
+            title: 'Reduction Uncertainty (P50, P10 – P90)',
+            fields: [
+                { id: 'phosphorus_band', label: 'Total Phosphorus Reduction', source: 'uncertainty', sourceKey: 'phosphorusRemoved_lb_yr', required: false },
+                { id: 'nitrogen_band', label: 'Total Nitrogen Reduction', source: 'uncertainty', sourceKey: 'nitrogenRemoved_lb_yr', required: false }
+            ]
+        },
         {
             title: 'Budget',
             fields: [
@@ -139,7 +173,8 @@ export const BRIC_TEMPLATE: GrantTemplate = {
             title: 'Resilience Metrics',
             fields: [
                 { id: 'peak_reduction', label: 'Peak Flow Reduction', source: 'project', sourceKey: 'peakReduction_percent', required: true },
-                { id: 'hmp_alignment', label: 'Hazard Mitigation Plan', source: 'compliance', sourceKey: 'hazard_mitigation_plan', required: true }
+                { id: 'hmp_alignment', label: 'Hazard Mitigation Plan', source: 'compliance', sourceKey: 'hazard_mitigation_plan', required: true },
+                { id: 'peak_reduction_band', label: 'Peak Reduction (P50, P10 – P90)', source: 'uncertainty', sourceKey: 'peakReduction_percent', required: false }
             ]
         }
     ]
@@ -164,11 +199,43 @@ export const BENE2_TEMPLATE: GrantTemplate = {
             title: 'Technische Anforderungen',
             fields: [
                 { id: 'retention', label: 'Rückhalt (mm)', source: 'project', sourceKey: 'retention_mm', required: true },
+                { id: 'impervious', label: 'Versiegelungsgrad (%)', source: 'project', sourceKey: 'imperviousPercent', required: false },
+                { id: 'runoff_coefficient', label: 'Abflussbeiwert (Ψ)', source: 'project', sourceKey: 'runoffCoefficient', required: false },
                 { id: 'infiltration', label: 'Versickerungsrate (mm/h)', source: 'project', sourceKey: 'infiltrationRate_mm_hr', required: false },
+                { id: 'annual_capture', label: 'Jährlicher Rückhalt (%)', source: 'project', sourceKey: 'annualCapture_percent', required: false },
                 { id: 'schwammstadt', label: 'Schwammstadt-Konformität', source: 'compliance', sourceKey: 'schwammstadt', required: true },
                 { id: 'dwa', label: 'DWA-A 138 Einhaltung', source: 'compliance', sourceKey: 'dwa_a138', required: true }
             ]
         },
+        {
+            title: 'Versickerungsfähiges Pflaster',
+            fields: [
+                { id: 'pp_base_depth', label: 'Tragschichtdicke', source: 'design', sourceKey: 'permeablePavement.baseDepth_mm', required: false },
+                { id: 'pp_storage', label: 'Speichervolumen', source: 'design', sourceKey: 'permeablePavement.storageVolume_L', required: false },
+                { id: 'pp_drawdown', label: 'Entleerungszeit', source: 'design', sourceKey: 'permeablePavement.drawdownTime_hr', required: false },
+                { id: 'pp_underdrain', label: 'Drainage erforderlich', source: 'design', sourceKey: 'permeablePavement.underdrainRequired', required: false },
+                { id: 'pp_loading', label: 'Anschlussverhältnis', source: 'design', sourceKey: 'permeablePavement.loadingRatio', required: false }
+            ]
+        },
+        {
+            title: 'Versickerungsanlage (DWA-A 138)',
+            fields: [
+                { id: 'dwa_area', label: 'Erforderliche Versickerungsfläche', source: 'design', sourceKey: 'dwaA138.surfaceArea_m2', required: false },
+                { id: 'dwa_volume', label: 'Speichervolumen', source: 'design', sourceKey: 'dwaA138.storageVolume_m3', required: false },
+                { id: 'dwa_emptying', label: 'Entleerungszeit', source: 'design', sourceKey: 'dwaA138.emptyingTime_hr', required: false },
+                { id: 'dwa_duration', label: 'Maßgebende Regendauer', source: 'design', sourceKey: 'dwaA138.criticalDuration_min', required: false },
+                { id: 'dwa_kf_value', label: 'Angesetzter kf-Wert (typisch für die Bodengruppe, nicht gemessen)', source: 'design', sourceKey: 'dwaA138.kf_m_s', required: false },
+                { id: 'dwa_kf', label: 'kf-Wert im zulässigen Bereich', source: 'design', sourceKey: 'dwaA138.kfPermissible', required: false }
+            ]
+        },
+        {
+            title: 'Unsicherheit (P50, P10 – P90)',
+            fields: [
+                { id: 'peak_runoff_band', label: 'Spitzenabfluss', source: 'uncertainty', sourceKey: 'peakRunoff_Ls', required: false },
+                { id: 'wqv_band', label: 'Behandlungsvolumen', source: 'uncertainty', sourceKey: 'wqv_L', required: false },
+                { id: 'peak_reduction_band', label: 'Abflussminderung', source: 'uncertainty', sourceKey: 'peakReduction_percent', required: false }
+            ]
+        },
         {
             title: 'Budget',
             fields: [
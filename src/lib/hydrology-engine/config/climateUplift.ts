@@ -0,0 +1,58 @@
+/**
+ * Climate change uplift factors for design rainfall
+ * Sources: Environment Agency peak rainfall allowances (2022, London
+ * Management Catchment, upper end), MARISA/RAND projected IDF change factors
+ * (Mid-Atlantic, RCP 8.5 median), NYC Climate Resiliency Design Guidelines,
+ * DWD climate signal for KOSTRA-DWD 2020 (RCP 8.5 median), Clausius–Clapeyron
+ * scaling of ~7 %/°C for regions without an adopted table
+ */
+
+import type { ClimateUpliftTable } from '../domain/valueObjects/ClimateUplift';
+
+/**
+ * Regional uplift tables; factors multiply current design intensities and depths
+ */
+export const CLIMATE_UPLIFT_PRESETS = {
+    us_mid_atlantic: {
+        region: 'Mid-Atlantic (Virginia)',
+        source: 'MARISA/RAND projected IDF curves (RCP 8.5 median)',
+        factors: {
+            '2050': [{ returnPeriod_yr: 2, factor: 1.08 }, { returnPeriod_yr: 10, factor: 1.11 }, { returnPeriod_yr: 100, factor: 1.16 }],
+            '2100': [{ returnPeriod_yr: 2, factor: 1.17 }, { returnPeriod_yr: 10, factor: 1.22 }, { returnPeriod_yr: 100, factor: 1.31 }]
+        }
+    },
+    us_northeast: {
+        region: 'New York City',
+        source: 'NYC Climate Resiliency Design Guidelines (projected rainfall)',
+        factors: {
+            '2050': [{ returnPeriod_yr: 5, factor: 1.10 }, { returnPeriod_yr: 100, factor: 1.15 }],
+            '2100': [{ returnPeriod_yr: 5, factor: 1.20 }, { returnPeriod_yr: 100, factor: 1.25 }]
+        }
+    },
+    de_berlin: {
+        region: 'Berlin',
+        source: 'DWD climate signal for KOSTRA-DWD 2020 (RCP 8.5 median)',
+        factors: {
+            '2050': [{ returnPeriod_yr: 1, factor: 1.07 }, { returnPeriod_yr: 100, factor: 1.10 }],
+            '2100': [{ returnPeriod_yr: 1, factor: 1.15 }, { returnPeriod_yr: 100, factor: 1.20 }]
+        }
+    },
+    gb_london: {
+        region: 'London Management Catchment',
+        source: 'Environment Agency peak rainfall allowances (2022, upper end)',
+        factors: {
+            '2050': [{ returnPeriod_yr: 30, factor: 1.35 }, { returnPeriod_yr: 100, factor: 1.40 }],
+            '2100': [{ returnPeriod_yr: 30, factor: 1.40 }, { returnPeriod_yr: 100, factor: 1.40 }]
+        }
+    }
+} satisfies Record<string, ClimateUpliftTable>;
+
+/** Used when the active regulatory profile carries no uplift table (+1.5 °C by 2050, +3 °C by 2100) */
+export const DEFAULT_CLIMATE_UPLIFT: ClimateUpliftTable = {
+    region: 'Global',
+    source: 'Clausius–Clapeyron scaling (~7 %/°C)',
+    factors: {
+        '2050': [{ returnPeriod_yr: 1, factor: 1.1 }],
+        '2100': [{ returnPeriod_yr: 1, factor: 1.2 }]
+    }
+};
@@ -0,0 +1,58 @@
+/**
+ * Design storm defaults: IDF fits and dimensionless temporal patterns
+ */
+
+import type { IdfParameters } from '../domain/valueObjects/IdfCurve';
+import type { DesignStormSpec } from '../domain/valueObjects/Hyetograph';
+
+/**
+ * Regional IDF fits (i = k·T^m / (d + b)^n, mm/hr)
+ */
+export const IDF_PRESETS = {
+    /** Fitted to NOAA Atlas 14 point estimates for Northern Virginia */
+    us_mid_atlantic: { k: 1071, m: 0.194, b: 10, n: 0.8, source: 'NOAA Atlas 14 (Northern Virginia fit)' },
+    /** Fitted to KOSTRA-DWD 2020 values for Berlin */
+    de_berlin: { k: 239, m: 0.286, b: 8, n: 0.592, source: 'KOSTRA-DWD 2020 (Berlin fit)' }
+} satisfies Record<string, IdfParameters>;
+
+/** Used when the active regulatory profile carries no IDF fit */
+export const DEFAULT_IDF_PARAMETERS: IdfParameters = IDF_PRESETS.us_mid_atlantic;
+
+export const DEFAULT_DESIGN_STORM: DesignStormSpec = {
+    method: 'chicago',
+    returnPeriod_yr: 10,
+    duration_min: 60,
+    timeStep_min: 5
+};
+
+/** Chicago storm peak position as a fraction of duration (Keifer & Chu) */
+export const CHICAGO_PEAK_RATIO = 0.4;
+
+/** Euler Type II places the peak block after the first third (DWA-A 118) */
+export const EULER_II_PEAK_RATIO = 1 / 3;
+
+/**
+ * NRCS Type II 24-hour cumulative rainfall fraction (hour → P/P24)
+ * Source: USDA NRCS TR-55, Table B-2
+ */
+export const SCS_TYPE_II_CUMULATIVE: ReadonlyArray<readonly [number, number]> = [
+    [0, 0], [2, 0.022], [4, 0.048], [6, 0.080], [8, 0.120], [9, 0.147],
+    [10, 0.181], [11, 0.235], [11.5, 0.283], [11.75, 0.357], [12, 0.663],
+    [12.5, 0.735], [13, 0.772], [14, 0.820], [16, 0.880], [18, 0.922],
+    [20, 0.952], [22, 0.976], [24, 1.0]
+];
+
+export type HuffQuartile = 1 | 2 | 3 | 4;
+
+/**
+ * Huff (1967) median cumulative rainfall curves at 10% time increments
+ */
+export const HUFF_CUMULATIVE: Record<HuffQuartile, readonly number[]> = {
+    1: [0, 0.28, 0.53, 0.68, 0.77, 0.83, 0.88, 0.92, 0.95, 0.98, 1.0],
+    2: [0, 0.05, 0.13, 0.28, 0.50, 0.68, 0.79, 0.87, 0.93, 0.97, 1.0],
+    3: [0, 0.04, 0.09, 0.15, 0.22, 0.32, 0.50, 0.72, 0.86, 0.95, 1.0],
+    4: [0, 0.03, 0.07, 0.11, 0.16, 0.21, 0.28, 0.38, 0.54, 0.80, 1.0]
+};
+
+/** Huff quartile recommended for short, convective urban design storms */
+export const DEFAULT_HUFF_QUARTILE: HuffQuartile = 2;
@@ -0,0 +1,23 @@
+/**
+ * Detention storage routing defaults
+ * Sources: HEC-HMS Technical Reference Manual (outlet structures),
+ * Chow, Maidment & Mays (1988) Applied Hydrology §8.2 (level-pool routing)
+ */
+
+/** Gravitational acceleration (m/s²) */
+export const GRAVITY_M_S2 = 9.81;
+
+/** Sharp-edged orifice discharge coefficient C_d */
+export const ORIFICE_DISCHARGE_COEFFICIENT = 0.61;
+
+/** Sharp-crested rectangular weir coefficient C_w (m^0.5/s, SI units) */
+export const WEIR_DISCHARGE_COEFFICIENT = 1.84;
+
+/** Number of stage increments in a generated stage-storage-discharge table */
+export const STAGE_TABLE_STEPS = 100;
+
+/** Outflow below which a storage counts as drained after the inflow ends (L/s) */
+export const DRAINED_OUTFLOW_LS = 0.01;
+
+/** Longest recession routed after the inflow hydrograph ends (hr) */
+export const MAX_DRAIN_TIME_HR = 72;
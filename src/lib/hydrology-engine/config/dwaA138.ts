@@ -0,0 +1,35 @@
+/**
+ * DWA-A 138 infiltration facility design criteria
+ * Sources: DWA-A 138 (2005) "Planung, Bau und Betrieb von Anlagen zur
+ * Versickerung von Niederschlagswasser", KOSTRA-DWD 2020 duration steps
+ */
+
+/** Surcharge factor f_Z applied to the design storage (risk class: normal) */
+export const DWA_SAFETY_FACTOR = 1.2;
+
+/** Design return period for decentralised infiltration (n = 0.2/a) */
+export const DWA_DEFAULT_RETURN_PERIOD_YR = 5;
+
+/** Maximum ponding depth in a swale (m) */
+export const MAX_SWALE_DEPTH_M = 0.3;
+
+/** A swale must be empty again within this time to keep the turf aerated (hr) */
+export const MAX_EMPTYING_TIME_HR = 24;
+
+/** Range of saturated hydraulic conductivity suitable for infiltration (m/s) */
+export const KF_PERMISSIBLE_RANGE_M_S = { min: 1e-6, max: 1e-3 } as const;
+
+/** Conductivity of the topsoil layer that lets a swale seep into its trench (m/s) */
+export const TOPSOIL_KF_M_S = 1e-5;
+
+/** Gravel trench cross-section and void ratio used when none is given */
+export const DEFAULT_TRENCH = {
+    width_m: 1.0,
+    height_m: 1.0,
+    storageCoefficient: 0.35
+} as const;
+
+/** KOSTRA rainfall durations D (min), 5 minutes to 72 hours */
+export const KOSTRA_DURATIONS_MIN = [
+    5, 10, 15, 20, 30, 45, 60, 90, 120, 180, 240, 360, 540, 720, 1080, 1440, 2880, 4320
+];
@@ -0,0 +1,21 @@
+/**
+ * Terrain flow routing defaults
+ * Sources: O'Callaghan & Mark (1984) D8 flow directions,
+ * Jenson & Domingue (1988) flow accumulation and depressions,
+ * Lindsay et al. (2008) pour point snapping for watershed delineation
+ */
+
+/** Raster resolution used for flow routing on a scanned DEM (m) */
+export const FLOW_CELL_SIZE_M = 0.5;
+
+/** Largest raster routed; coarser cells are used above this count */
+export const MAX_FLOW_CELLS = 40_000;
+
+/** Share of the site that must drain through a cell for it to count as a channel */
+export const CHANNEL_SHARE = 0.02;
+
+/** Share of the site that must drain to a sink or outlet for it to be a concentration point */
+export const CONCENTRATION_SHARE = 0.05;
+
+/** Search radius for snapping a placed outlet onto the strongest flow path (m) */
+export const OUTLET_SNAP_RADIUS_M = 1.0;
@@ -0,0 +1,37 @@
+/**
+ * Hydrograph goodness-of-fit ratings and flow unit conversions
+ * Sources: Moriasi et al. (2007) model evaluation guidelines for watershed simulations,
+ * Nash & Sutcliffe (1970), Gupta et al. (2009) Kling-Gupta efficiency
+ */
+
+export type FitRating = 'very_good' | 'good' | 'satisfactory' | 'unsatisfactory';
+
+export interface FitThreshold {
+    readonly rating: FitRating;
+    /** Lowest Nash-Sutcliffe efficiency of the rating */
+    readonly minNse: number;
+    /** Largest absolute percent bias of the rating */
+    readonly maxAbsPbias_percent: number;
+}
+
+/** Moriasi et al. (2007) Table 4 streamflow ratings, best first */
+export const FIT_THRESHOLDS: readonly FitThreshold[] = [
+    { rating: 'very_good', minNse: 0.75, maxAbsPbias_percent: 10 },
+    { rating: 'good', minNse: 0.65, maxAbsPbias_percent: 15 },
+    { rating: 'satisfactory', minNse: 0.5, maxAbsPbias_percent: 25 }
+];
+
+export type FlowUnit = 'L/s' | 'm3/s' | 'cfs';
+
+/** Litres per second in one unit of each flow unit */
+export const FLOW_UNIT_TO_LS: Readonly<Record<FlowUnit, number>> = {
+    'L/s': 1,
+    'm3/s': 1000,
+    cfs: 28.316847
+};
+
+/** Header fragments that mark a column in m³/s or cfs; anything else is read as L/s */
+export const FLOW_UNIT_PATTERNS: readonly (readonly [FlowUnit, RegExp])[] = [
+    ['m3/s', /m3s|m3\/s|m³\/s|cms/i],
+    ['cfs', /cfs|ft3\/s/i]
+];
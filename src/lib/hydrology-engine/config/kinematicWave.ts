@@ -0,0 +1,27 @@
+/**
+ * Kinematic wave overland flow solver defaults
+ * Sources: Woolhiser & Liggett (1967) unsteady flow over a plane,
+ * Chow, Maidment & Mays (1988) Applied Hydrology §9.6 (finite-difference kinematic wave),
+ * Horton (1940) infiltration capacity curve
+ */
+
+/** Manning's n for overland flow on smooth asphalt or concrete */
+export const DEFAULT_MANNING_N = 0.015;
+
+/** Cells along the flow path of the plane */
+export const KINEMATIC_WAVE_CELLS = 20;
+
+/** Courant number of the explicit upwind scheme (stable below 1) */
+export const KINEMATIC_WAVE_COURANT = 0.8;
+
+/** Longest internal time step, also used while the plane is dry (s) */
+export const MAX_SOLVER_STEP_S = 10;
+
+/** Default time step of the output hydrograph (min) */
+export const HYDROGRAPH_STEP_MIN = 1;
+
+/** Outflow below which the recession counts as ended after the rain (L/s) */
+export const RECESSION_END_LS = 0.01;
+
+/** Longest recession simulated after the rain stops (min) */
+export const MAX_RECESSION_MIN = 360;
@@ -0,0 +1,36 @@
+/**
+ * Permeable pavement design criteria
+ * Sources: ICPI Permeable Interlocking Concrete Pavements (5th ed.),
+ * Virginia DEQ BMP Design Specification No. 7, Rawls et al. (1982)
+ */
+
+import type { HydrologicSoilGroup } from '../domain/valueObjects/CurveNumber';
+
+/** Void ratio of clean open-graded aggregate (No. 57 / 2-63 mm stone) */
+export const DEFAULT_AGGREGATE_POROSITY = 0.4;
+
+/** Duration over which the reservoir fills during the design storm (hr) */
+export const DEFAULT_FILL_TIME_HR = 2;
+
+/** Measured infiltration rates are divided by this before design */
+export const INFILTRATION_SAFETY_FACTOR = 2;
+
+/** The reservoir must drain within this time after the storm (hr) */
+export const MAX_DRAWDOWN_HR = 48;
+
+/** Native soils infiltrating slower than this (0.5 in/hr) need an underdrain */
+export const UNDERDRAIN_THRESHOLD_MM_HR = 12.7;
+
+/** Minimum structural aggregate base depth for pedestrian and parking loads (mm) */
+export const MIN_BASE_DEPTH_MM = 150;
+
+/** Maximum ratio of impervious run-on area to pavement area */
+export const MAX_LOADING_RATIO = 2;
+
+/** Typical saturated infiltration rate by hydrologic soil group (mm/hr) */
+export const TYPICAL_INFILTRATION_MM_HR: Record<HydrologicSoilGroup, number> = {
+    A: 30,
+    B: 13,
+    C: 5,
+    D: 1
+};
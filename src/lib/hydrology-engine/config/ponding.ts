@@ -0,0 +1,11 @@
+/**
+ * Fill-and-spill ponding defaults
+ * Sources: Planchon & Darboux (2002) depression filling,
+ * Barnes et al. (2014) priority-flood, Zhang & Montgomery (1994) fill-and-spill
+ */
+
+/** Shallowest water depth mapped as ponding (m) */
+export const MIN_PONDING_DEPTH_M = 0.005;
+
+/** Accuracy of the water level solved for a partly filled depression (m) */
+export const LEVEL_TOLERANCE_M = 0.0001;
@@ -0,0 +1,23 @@
+/**
+ * Time-of-concentration defaults and empirical coefficients
+ */
+
+/** Kerby (1959) retardance roughness coefficient N by surface */
+export const KERBY_RETARDANCE = {
+    smooth_impervious: 0.02,
+    smooth_bare_soil: 0.10,
+    poor_grass: 0.20,
+    average_grass: 0.40,
+    dense_grass: 0.80
+} as const;
+
+export type KerbySurface = keyof typeof KERBY_RETARDANCE;
+
+/** Minimum design Tc in minutes (common practice for small urban sites) */
+export const MIN_TC_MIN = 5;
+
+/** Slopes flatter than this are clamped to keep the empirical formulas finite */
+export const MIN_FLOW_SLOPE = 0.005;
+
+/** Assumed slope when no elevation data is available (2%) */
+export const DEFAULT_FLOW_SLOPE = 0.02;
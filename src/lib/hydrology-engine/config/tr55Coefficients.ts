@@ -0,0 +1,59 @@
+/**
+ * TR-55 Graphical Peak Discharge coefficients
+ *
+ * Source: USDA NRCS TR-55, Table F-1. For each rainfall distribution the
+ * unit peak discharge is log(qu) = C0 + C1·log(Tc) + C2·(log Tc)², with
+ * qu in csm/in and Tc in hours. Rows are keyed by the Ia/P ratio.
+ */
+
+/** NRCS synthetic 24-hour rainfall distribution */
+export type RainfallDistribution = 'I' | 'IA' | 'II' | 'III';
+
+export interface UnitPeakCoefficients {
+    readonly iaOverP: number;
+    readonly c0: number;
+    readonly c1: number;
+    readonly c2: number;
+}
+
+export const TR55_COEFFICIENTS: Record<RainfallDistribution, UnitPeakCoefficients[]> = {
+    I: [
+        { iaOverP: 0.10, c0: 2.30550, c1: -0.51429, c2: -0.11750 },
+        { iaOverP: 0.20, c0: 2.23537, c1: -0.50387, c2: -0.08929 },
+        { iaOverP: 0.25, c0: 2.18219, c1: -0.48488, c2: -0.06589 },
+        { iaOverP: 0.30, c0: 2.10624, c1: -0.45695, c2: -0.02835 },
+        { iaOverP: 0.35, c0: 2.00303, c1: -0.40769, c2: 0.01983 },
+        { iaOverP: 0.40, c0: 1.87733, c1: -0.32274, c2: 0.05754 },
+        { iaOverP: 0.45, c0: 1.76312, c1: -0.15644, c2: 0.00453 },
+        { iaOverP: 0.50, c0: 1.67889, c1: -0.06930, c2: 0.0 }
+    ],
+    IA: [
+        { iaOverP: 0.10, c0: 2.03250, c1: -0.31583, c2: -0.13748 },
+        { iaOverP: 0.20, c0: 1.91978, c1: -0.28215, c2: -0.07020 },
+        { iaOverP: 0.25, c0: 1.83842, c1: -0.25543, c2: -0.02597 },
+        { iaOverP: 0.30, c0: 1.72657, c1: -0.19826, c2: 0.02633 },
+        { iaOverP: 0.50, c0: 1.63417, c1: -0.09100, c2: 0.0 }
+    ],
+    II: [
+        { iaOverP: 0.10, c0: 2.55323, c1: -0.61512, c2: -0.16403 },
+        { iaOverP: 0.30, c0: 2.46532, c1: -0.62257, c2: -0.11657 },
+        { iaOverP: 0.35, c0: 2.41896, c1: -0.61594, c2: -0.08820 },
+        { iaOverP: 0.40, c0: 2.36409, c1: -0.59857, c2: -0.05621 },
+        { iaOverP: 0.45, c0: 2.29238, c1: -0.57005, c2: -0.02281 },
+        { iaOverP: 0.50, c0: 2.20282, c1: -0.51599, c2: -0.01259 }
+    ],
+    III: [
+        { iaOverP: 0.10, c0: 2.47317, c1: -0.51848, c2: -0.17083 },
+        { iaOverP: 0.30, c0: 2.39628, c1: -0.51202, c2: -0.13245 },
+        { iaOverP: 0.35, c0: 2.35477, c1: -0.49735, c2: -0.11985 },
+        { iaOverP: 0.40, c0: 2.30726, c1: -0.46541, c2: -0.11094 },
+        { iaOverP: 0.45, c0: 2.24876, c1: -0.41314, c2: -0.11508 },
+        { iaOverP: 0.50, c0: 2.17772, c1: -0.36803, c2: -0.09525 }
+    ]
+};
+
+/** TR-55 graphical method validity range for time of concentration (hours) */
+export const TR55_TC_RANGE_HR = { min: 0.1, max: 10 };
+
+/** TR-55 tabulated Ia/P range; values outside are clamped */
+export const TR55_IA_P_RANGE = { min: 0.1, max: 0.5 };
@@ -0,0 +1,62 @@
+/**
+ * ClimateScenarioService - Current and future design rainfall side by side
+ *
+ * Applies the uplift table of a region to today's design intensity and depth
+ * for every planning horizon, so a design can be checked against 2050 and
+ * 2100 rainfall as well as the current climate.
+ *
+ * @domain hydrology-engine
+ * @layer domain/services
+ */
+
+import {
+    CLIMATE_SCENARIOS,
+    upliftFactor,
+    type ClimateScenario,
+    type ClimateUpliftTable
+} from '../valueObjects/ClimateUplift';
+
+export interface ClimateScenarioInput {
+    /** Current-climate design intensity (mm/hr) */
+    intensity_mm_hr: number;
+    /** Current-climate design depth (mm) */
+    depth_mm: number;
+    returnPeriod_yr: number;
+    table: ClimateUpliftTable;
+}
+
+export interface ClimateScenarioResult {
+    readonly scenario: ClimateScenario;
+    readonly factor: number;
+    readonly intensity_mm_hr: number;
+    readonly depth_mm: number;
+}
+
+export class ClimateScenarioService {
+    /**
+     * Design rainfall for one scenario
+     */
+    apply(input: ClimateScenarioInput, scenario: ClimateScenario): ClimateScenarioResult {
+        validate(input);
+        const factor = upliftFactor(input.table, scenario, input.returnPeriod_yr);
+        return Object.freeze({
+            scenario,
+            factor,
+            intensity_mm_hr: input.intensity_mm_hr * factor,
+            depth_mm: input.depth_mm * factor
+        });
+    }
+
+    /**
+     * Design rainfall for the current climate and every future horizon
+     */
+    compare(input: ClimateScenarioInput): ClimateScenarioResult[] {
+        return CLIMATE_SCENARIOS.map(scenario => this.apply(input, scenario));
+    }
+}
+
+function validate(input: ClimateScenarioInput): void {
+    if (input.returnPeriod_yr <= 0) {
+        throw new Error('Return period must be positive');
+    }
+}
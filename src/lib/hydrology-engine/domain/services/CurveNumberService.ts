@@ -0,0 +1,137 @@
+/**
+ * CurveNumberService - NRCS/SCS Curve Number runoff calculations
+ *
+ * Implements the TR-55 runoff equation and Graphical Peak Discharge method.
+ *
+ * Formula:
+ * S  = 25400 / CN - 254            (potential retention, mm)
+ * Ia = 0.2 × S                     (initial abstraction, mm)
+ * Q  = (P - Ia)² / (P - Ia + S)    (runoff depth, mm; 0 when P ≤ Ia)
+ * qp = qu × Am × Q                 (peak discharge; qu from TR-55 Table F-1)
+ *
+ * @domain hydrology-engine
+ * @layer domain/services
+ */
+
+import {
+    TR55_COEFFICIENTS,
+    TR55_TC_RANGE_HR,
+    TR55_IA_P_RANGE,
+    type RainfallDistribution,
+    type UnitPeakCoefficients
+} from '../../config/tr55Coefficients';
+
+// Conversion constants
+const M2_PER_SQ_MILE = 2589988.11;
+const MM_PER_INCH = 25.4;
+const LS_PER_CFS = 28.3168466;
+
+/** Initial abstraction ratio used by TR-55 */
+const IA_RATIO = 0.2;
+
+export interface ScsRunoffInput {
+    /** 24-hour design rainfall depth in mm */
+    rainfall_mm: number;
+    area_m2: number;
+    curveNumber: number;
+    /** Time of concentration in hours (default 0.1, the TR-55 minimum) */
+    timeOfConcentration_hr?: number;
+    /** NRCS rainfall distribution (default Type II) */
+    distribution?: RainfallDistribution;
+}
+
+export interface ScsRunoffResult {
+    readonly curveNumber: number;
+    readonly potentialRetention_mm: number;
+    readonly initialAbstraction_mm: number;
+    readonly runoffDepth_mm: number;
+    readonly runoffVolume_L: number;
+    /** Unit peak discharge in csm/in (cubic feet per second per square mile per inch) */
+    readonly unitPeakDischarge_csm_in: number;
+    readonly peakDischarge_Ls: number;
+}
+
+export class CurveNumberService {
+    /**
+     * Potential maximum retention S in mm for a curve number
+     */
+    potentialRetention(curveNumber: number): number {
+        if (curveNumber <= 0 || curveNumber > 100) {
+            throw new Error(`Curve number must be in (0, 100]: ${curveNumber}`);
+        }
+        return 25400 / curveNumber - 254;
+    }
+
+    /**
+     * Direct runoff depth Q in mm for a rainfall depth and curve number
+     */
+    computeRunoffDepth(rainfall_mm: number, curveNumber: number): number {
+        const s = this.potentialRetention(curveNumber);
+        const excess = rainfall_mm - IA_RATIO * s;
+        if (excess <= 0) return 0;
+        return (excess * excess) / (excess + s);
+    }
+
+    /**
+     * TR-55 unit peak discharge qu (csm/in)
+     */
+    computeUnitPeakDischarge(
+        timeOfConcentration_hr: number,
+        iaOverP: number,
+        distribution: RainfallDistribution = 'II'
+    ): number {
+        const tc = clamp(timeOfConcentration_hr, TR55_TC_RANGE_HR.min, TR55_TC_RANGE_HR.max);
+        const ratio = clamp(iaOverP, TR55_IA_P_RANGE.min, TR55_IA_P_RANGE.max);
+        const { c0, c1, c2 } = interpolateCoefficients(TR55_COEFFICIENTS[distribution], ratio);
+        const logTc = Math.log10(tc);
+        return Math.pow(10, c0 + c1 * logTc + c2 * logTc * logTc);
+    }
+
+    /**
+     * Runoff depth, volume and peak discharge for a catchment
+     */
+    computeRunoff(input: ScsRunoffInput): ScsRunoffResult {
+        const s = this.potentialRetention(input.curveNumber);
+        const ia = IA_RATIO * s;
+        const depth = this.computeRunoffDepth(input.rainfall_mm, input.curveNumber);
+        const qu = this.computeUnitPeakDischarge(
+            input.timeOfConcentration_hr ?? TR55_TC_RANGE_HR.min,
+            ia / Math.max(input.rainfall_mm, Number.EPSILON),
+            input.distribution
+        );
+
+        const peak_cfs = qu * (input.area_m2 / M2_PER_SQ_MILE) * (depth / MM_PER_INCH);
+
+        return {
+            curveNumber: input.curveNumber,
+            potentialRetention_mm: s,
+            initialAbstraction_mm: ia,
+            runoffDepth_mm: depth,
+            // mm × m² = L
+            runoffVolume_L: depth * input.area_m2,
+            unitPeakDischarge_csm_in: qu,
+            peakDischarge_Ls: peak_cfs * LS_PER_CFS
+        };
+    }
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Linearly interpolate coefficients between the two rows bracketing Ia/P
+ */
+function interpolateCoefficients(rows: UnitPeakCoefficients[], iaOverP: number): UnitPeakCoefficients {
+    const upperIndex = Math.max(1, rows.findIndex(r => r.iaOverP >= iaOverP));
+    const lower = rows[upperIndex - 1];
+    const upper = rows[upperIndex];
+    const f = (iaOverP - lower.iaOverP) / (upper.iaOverP - lower.iaOverP);
+
+    return {
+        iaOverP,
+        c0: lower.c0 + f * (upper.c0 - lower.c0),
+        c1: lower.c1 + f * (upper.c1 - lower.c1),
+        c2: lower.c2 + f * (upper.c2 - lower.c2)
+    };
+}
@@ -0,0 +1,160 @@
+/**
+ * DesignStormService - Builds design storm hyetographs from IDF parameters
+ *
+ * Supported temporal patterns:
+ * - Chicago (Keifer & Chu 1957): every window around the peak matches the IDF curve
+ * - Huff (1967): median quartile mass curves
+ * - NRCS Type II: TR-55 24-hour distribution, scaled to the storm duration
+ * - Euler Type II (DWA-A 118): IDF increments with the peak after the first third
+ *
+ * All patterns preserve the IDF depth for the full storm duration.
+ *
+ * @domain hydrology-engine
+ * @layer domain/services
+ */
+
+import {
+    idfIntensity,
+    idfDepth,
+    createIdfCurve,
+    type IdfParameters,
+    type IdfPoint
+} from '../valueObjects/IdfCurve';
+import {
+    createHyetograph,
+    type DesignStormSpec,
+    type Hyetograph,
+    type HyetographMethod
+} from '../valueObjects/Hyetograph';
+import {
+    DEFAULT_DESIGN_STORM,
+    CHICAGO_PEAK_RATIO,
+    EULER_II_PEAK_RATIO,
+    SCS_TYPE_II_CUMULATIVE,
+    HUFF_CUMULATIVE,
+    DEFAULT_HUFF_QUARTILE,
+    type HuffQuartile
+} from '../../config/designStorms';
+
+export interface DesignStormRequest extends Partial<DesignStormSpec> {
+    idf: IdfParameters;
+    /** Huff quartile (only used by the 'huff' method) */
+    huffQuartile?: HuffQuartile;
+}
+
+interface StormContext {
+    idf: IdfParameters;
+    spec: DesignStormSpec;
+    steps: number;
+    huffQuartile: HuffQuartile;
+}
+
+type BlockGenerator = (ctx: StormContext) => number[];
+
+const GENERATORS: Record<HyetographMethod, BlockGenerator> = {
+    chicago: chicagoBlocks,
+    huff: huffBlocks,
+    scs_type_ii: scsTypeIIBlocks,
+    euler_ii: eulerIIBlocks
+};
+
+export class DesignStormService {
+    /**
+     * Tabulate the IDF curve for a return period
+     */
+    idfCurve(idf: IdfParameters, returnPeriod_yr: number, durations_min: number[]): IdfPoint[] {
+        return createIdfCurve(idf, returnPeriod_yr, durations_min);
+    }
+
+    /**
+     * Generate a design storm hyetograph
+     */
+    generate(request: DesignStormRequest): Hyetograph {
+        const ctx = createContext(request);
+        const generator = GENERATORS[ctx.spec.method];
+        if (!generator) {
+            throw new Error(`Unknown hyetograph method: ${ctx.spec.method}`);
+        }
+        return createHyetograph(ctx.spec, generator(ctx));
+    }
+}
+
+function createContext(request: DesignStormRequest): StormContext {
+    const keys = Object.keys(DEFAULT_DESIGN_STORM) as Array<keyof DesignStormSpec>;
+    const spec = Object.fromEntries(
+        keys.map(k => [k, request[k] ?? DEFAULT_DESIGN_STORM[k]])
+    ) as unknown as DesignStormSpec;
+
+    const steps = Math.round(spec.duration_min / spec.timeStep_min);
+    if (steps < 1) {
+        throw new Error('Storm duration must be at least one time step');
+    }
+    return { idf: request.idf, spec, steps, huffQuartile: request.huffQuartile ?? DEFAULT_HUFF_QUARTILE };
+}
+
+// --- Temporal patterns ---
+
+function chicagoBlocks(ctx: StormContext): number[] {
+    const { idf, spec } = ctx;
+    const r = CHICAGO_PEAK_RATIO;
+    const tPeak = r * spec.duration_min;
+    const sideDepth = (t: number, ratio: number) => t <= 0 ? 0 : t * idfIntensity(idf, spec.returnPeriod_yr, t / ratio) / 60;
+    const beforePeak = sideDepth(tPeak, r);
+
+    const cumulative = (t: number) => t <= tPeak
+        ? beforePeak - sideDepth(tPeak - t, r)
+        : beforePeak + sideDepth(t - tPeak, 1 - r);
+
+    return blocksFromCumulative(cumulative, ctx.steps, spec.timeStep_min);
+}
+
+function huffBlocks(ctx: StormContext): number[] {
+    const curve = HUFF_CUMULATIVE[ctx.huffQuartile];
+    const table = curve.map((f, i) => [i / (curve.length - 1), f] as const);
+    return scaledMassCurveBlocks(ctx, table);
+}
+
+function scsTypeIIBlocks(ctx: StormContext): number[] {
+    const table = SCS_TYPE_II_CUMULATIVE.map(([hour, f]) => [hour / 24, f] as const);
+    return scaledMassCurveBlocks(ctx, table);
+}
+
+function eulerIIBlocks(ctx: StormContext): number[] {
+    const { idf, spec, steps } = ctx;
+    const depthAt = (k: number) => idfDepth(idf, spec.returnPeriod_yr, k * spec.timeStep_min);
+    const increments = Array.from({ length: steps }, (_, k) => depthAt(k + 1) - (k === 0 ? 0 : depthAt(k)));
+
+    // Ascend to the peak block, then continue with the remaining increments
+    const peakIndex = Math.round(steps * EULER_II_PEAK_RATIO);
+    return increments.map((_, j) => increments[eulerSourceIndex(j, peakIndex)]);
+}
+
+function eulerSourceIndex(position: number, peakIndex: number): number {
+    if (position < peakIndex) return peakIndex - position;
+    return position === peakIndex ? 0 : position;
+}
+
+// --- Helpers ---
+
+/**
+ * Apply a dimensionless mass curve (time fraction → depth fraction) to the IDF depth
+ */
+function scaledMassCurveBlocks(ctx: StormContext, table: ReadonlyArray<readonly [number, number]>): number[] {
+    const { idf, spec } = ctx;
+    const total = idfDepth(idf, spec.returnPeriod_yr, spec.duration_min);
+    const cumulative = (t: number) => total * interpolate(table, t / spec.duration_min);
+    return blocksFromCumulative(cumulative, ctx.steps, spec.timeStep_min);
+}
+
+function blocksFromCumulative(cumulative: (t_min: number) => number, steps: number, dt: number): number[] {
+    return Array.from({ length: steps }, (_, k) => cumulative((k + 1) * dt) - cumulative(k * dt));
+}
+
+function interpolate(table: ReadonlyArray<readonly [number, number]>, x: number): number {
+    const index = table.findIndex(([tx]) => tx >= x);
+    const upper = index < 0 ? table.length - 1 : Math.max(1, index);
+    const [x0, y0] = table[upper - 1];
+    const [x1, y1] = table[upper];
+    const f = Math.min(1, Math.max(0, (x - x0) / (x1 - x0)));
+    return y0 + f * (y1 - y0);
+}
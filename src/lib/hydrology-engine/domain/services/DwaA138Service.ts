@@ -0,0 +1,258 @@
+/**
+ * DwaA138Service - Sizing of infiltration facilities to DWA-A 138
+ *
+ * Swale (Mulde), storage volume for each KOSTRA duration D:
+ *
+ *   V = [(A_u + A_s) × 10⁻⁷ × r(D) − A_s × k_f / 2] × D × 60 × f_Z
+ *
+ * The swale area A_s is the smallest area whose ponding depth V / A_s stays
+ * within 0.3 m for every duration; the emptying time is t_E = 2 z / k_f.
+ *
+ * Trench (Rigole), required length for each duration:
+ *
+ *   L = A_u × 10⁻⁷ × r(D) / [b h s_R / (D × 60 × f_Z) + (b + h/2) × k_f / 2]
+ *
+ * Swale-trench (Mulden-Rigolen-Element): the swale is sized on its topsoil
+ * conductivity and seeps into a trench that stores the seepage for the
+ * swale's emptying time, optionally relieved by a throttled outflow.
+ *
+ * @domain hydrology-engine
+ * @layer domain/services
+ */
+
+import type { KostraPoint, KostraTable } from '../valueObjects/KostraRainfall';
+import {
+    DEFAULT_TRENCH,
+    DWA_SAFETY_FACTOR,
+    KF_PERMISSIBLE_RANGE_M_S,
+    MAX_EMPTYING_TIME_HR,
+    MAX_SWALE_DEPTH_M,
+    TOPSOIL_KF_M_S
+} from '../../config/dwaA138';
+
+export type InfiltrationFacility = 'mulde' | 'rigole' | 'mulden_rigole';
+
+export interface TrenchGeometry {
+    width_m: number;
+    height_m: number;
+    /** Void ratio of the trench fill (gravel 0.35, plastic boxes 0.95) */
+    storageCoefficient: number;
+}
+
+export interface DwaA138Input {
+    facility: InfiltrationFacility;
+    /** Connected impervious area A_u (m²) */
+    connectedArea_m2: number;
+    /** Saturated hydraulic conductivity of the native soil (m/s) */
+    kf_m_s: number;
+    rainfall: KostraTable;
+    trench?: Partial<TrenchGeometry>;
+    /** Swale topsoil conductivity for swale-trench systems (m/s) */
+    topsoilKf_m_s?: number;
+    /** Throttled outflow from the trench of a swale-trench system (L/s) */
+    throttle_Ls?: number;
+    /** Surcharge factor f_Z (default 1.2) */
+    safetyFactor?: number;
+}
+
+export interface InfiltrationFacilityDesign {
+    readonly facility: InfiltrationFacility;
+    readonly connectedArea_m2: number;
+    readonly kf_m_s: number;
+    readonly returnPeriod_yr: number;
+    /** Rain duration that governs the design (min) */
+    readonly criticalDuration_min: number;
+    /** Required infiltration surface: swale area or trench footprint (m²) */
+    readonly surfaceArea_m2: number;
+    readonly storageVolume_m3: number;
+    readonly emptyingTime_hr: number;
+    /** Trench length, null for a plain swale (m) */
+    readonly trenchLength_m: number | null;
+    /** k_f lies within the range DWA-A 138 considers suitable */
+    readonly kfPermissible: boolean;
+    readonly emptyingTimeOk: boolean;
+    readonly compliant: boolean;
+}
+
+type FacilitySizing = Pick<InfiltrationFacilityDesign,
+    'criticalDuration_min' | 'surfaceArea_m2' | 'storageVolume_m3' | 'emptyingTime_hr' | 'trenchLength_m' | 'kfPermissible'>;
+
+type SwaleSizing = Omit<FacilitySizing, 'trenchLength_m' | 'kfPermissible'>;
+
+/** Rain duration step: inflow per m² of connected area (m/s) and surcharged duration (s) */
+interface Storm {
+    rate: number;
+    time: number;
+}
+
+type ResolvedInput = DwaA138Input & { safetyFactor: number };
+
+/** L/(s·ha) to m³/s per m² */
+const L_S_HA_TO_M_S = 1e-7;
+
+const SIZERS: Record<InfiltrationFacility, (input: ResolvedInput) => FacilitySizing> = {
+    mulde: sizeMulde,
+    rigole: sizeRigole,
+    mulden_rigole: sizeMuldenRigole
+};
+
+export class DwaA138Service {
+    /**
+     * Size a swale, trench or swale-trench system for a connected impervious area
+     */
+    size(input: DwaA138Input): InfiltrationFacilityDesign {
+        validateFacility(input);
+        validateHydraulics(input);
+        const sizing = SIZERS[input.facility]({ ...input, safetyFactor: input.safetyFactor ?? DWA_SAFETY_FACTOR });
+        const emptyingTimeOk = sizing.emptyingTime_hr <= MAX_EMPTYING_TIME_HR;
+
+        return Object.freeze({
+            facility: input.facility,
+            connectedArea_m2: input.connectedArea_m2,
+            kf_m_s: input.kf_m_s,
+            returnPeriod_yr: input.rainfall.returnPeriod_yr,
+            ...sizing,
+            emptyingTimeOk,
+            compliant: sizing.kfPermissible && emptyingTimeOk
+        });
+    }
+}
+
+function validateFacility(input: DwaA138Input): void {
+    if (!(input.facility in SIZERS)) {
+        throw new Error(`Unknown infiltration facility: ${input.facility}`);
+    }
+    if (input.rainfall.points.length === 0) {
+        throw new Error('DWA-A 138 sizing requires at least one rainfall duration');
+    }
+}
+
+function validateHydraulics(input: DwaA138Input): void {
+    if (input.connectedArea_m2 <= 0) {
+        throw new Error('Connected impervious area must be positive');
+    }
+    if (input.kf_m_s < 0) {
+        throw new Error('Hydraulic conductivity cannot be negative');
+    }
+}
+
+function kfInRange(kf_m_s: number): boolean {
+    return kf_m_s >= KF_PERMISSIBLE_RANGE_M_S.min && kf_m_s <= KF_PERMISSIBLE_RANGE_M_S.max;
+}
+
+function toStorm(point: KostraPoint, safetyFactor: number): Storm {
+    return { rate: point.intensity_Lsha * L_S_HA_TO_M_S, time: point.duration_min * 60 * safetyFactor };
+}
+
+function argMax(values: number[]): number {
+    return values.indexOf(Math.max(...values));
+}
+
+function hours(seconds: number): number {
+    return seconds / 3600;
+}
+
+function sizeMulde(input: ResolvedInput): FacilitySizing {
+    return {
+        ...sizeSwale(input.connectedArea_m2, input.kf_m_s, input),
+        trenchLength_m: null,
+        kfPermissible: kfInRange(input.kf_m_s)
+    };
+}
+
+function sizeSwale(connectedArea_m2: number, kf_m_s: number, input: ResolvedInput): SwaleSizing {
+    const storms = input.rainfall.points.map(p => toStorm(p, input.safetyFactor));
+    const seepage = kf_m_s / 2;
+    const area = Math.max(...storms.map(s => minSwaleArea(connectedArea_m2, seepage, s)));
+    const volumes = storms.map(s => swaleVolume(connectedArea_m2, area, seepage, s));
+    const critical = argMax(volumes);
+    const volume = Math.max(0, volumes[critical]);
+
+    return {
+        criticalDuration_min: input.rainfall.points[critical].duration_min,
+        surfaceArea_m2: area,
+        storageVolume_m3: volume,
+        emptyingTime_hr: hours(swaleDepth(volume, area) / seepage)
+    };
+}
+
+/**
+ * Smallest swale area keeping the ponding depth within MAX_SWALE_DEPTH_M for one
+ * duration; Infinity when rain on the swale alone would overtop it.
+ */
+function minSwaleArea(connectedArea_m2: number, seepage_m_s: number, storm: Storm): number {
+    const headroom = MAX_SWALE_DEPTH_M - (storm.rate - seepage_m_s) * storm.time;
+    return headroom > 0 ? connectedArea_m2 * storm.rate * storm.time / headroom : Infinity;
+}
+
+function swaleVolume(connectedArea_m2: number, area_m2: number, seepage_m_s: number, storm: Storm): number {
+    if (!Number.isFinite(area_m2)) return Infinity;
+    return ((connectedArea_m2 + area_m2) * storm.rate - area_m2 * seepage_m_s) * storm.time;
+}
+
+/** An unbuildable swale never empties */
+function swaleDepth(volume_m3: number, area_m2: number): number {
+    return Number.isFinite(area_m2) ? volume_m3 / area_m2 : Infinity;
+}
+
+function trenchGeometry(input: ResolvedInput): TrenchGeometry {
+    return { ...DEFAULT_TRENCH, ...input.trench };
+}
+
+/** Stored volume per metre of trench (m³/m) */
+function trenchStorage(t: TrenchGeometry): number {
+    return t.width_m * t.height_m * t.storageCoefficient;
+}
+
+/** Exfiltration per metre of trench through its base and half its walls (m³/s/m) */
+function trenchExfiltration(t: TrenchGeometry, kf_m_s: number): number {
+    return (t.width_m + t.height_m / 2) * kf_m_s / 2;
+}
+
+function trenchLength(inflow_m3_s: number, t: TrenchGeometry, kf_m_s: number, time_s: number): number {
+    return inflow_m3_s / (trenchStorage(t) / time_s + trenchExfiltration(t, kf_m_s));
+}
+
+function sizeRigole(input: ResolvedInput): FacilitySizing {
+    const t = trenchGeometry(input);
+    const lengths = input.rainfall.points.map(p => {
+        const storm = toStorm(p, input.safetyFactor);
+        return trenchLength(input.connectedArea_m2 * storm.rate, t, input.kf_m_s, storm.time);
+    });
+    const critical = argMax(lengths);
+    const length = lengths[critical];
+
+    return {
+        criticalDuration_min: input.rainfall.points[critical].duration_min,
+        surfaceArea_m2: length * t.width_m,
+        storageVolume_m3: length * trenchStorage(t),
+        emptyingTime_hr: hours(trenchStorage(t) / trenchExfiltration(t, input.kf_m_s)),
+        trenchLength_m: length,
+        kfPermissible: kfInRange(input.kf_m_s)
+    };
+}
+
+function sizeMuldenRigole(input: ResolvedInput): FacilitySizing {
+    const topsoilKf = input.topsoilKf_m_s ?? TOPSOIL_KF_M_S;
+    const throttle_m3_s = (input.throttle_Ls ?? 0) / 1000;
+    const swale = sizeSwale(input.connectedArea_m2, topsoilKf, input);
+    const t = trenchGeometry(input);
+
+    const seepage_m3_s = swale.surfaceArea_m2 * topsoilKf / 2;
+    const fillTime_s = swale.emptyingTime_hr * 3600 * input.safetyFactor;
+    const length = trenchLength(Math.max(0, seepage_m3_s - throttle_m3_s), t, input.kf_m_s, fillTime_s);
+
+    return {
+        ...swale,
+        storageVolume_m3: swale.storageVolume_m3 + length * trenchStorage(t),
+        trenchLength_m: length,
+        kfPermissible: swaleTrenchKfPermissible(input.kf_m_s, throttle_m3_s)
+    };
+}
+
+/**
+ * A throttled outflow lets swale-trench systems work on soils too tight for plain infiltration
+ */
+function swaleTrenchKfPermissible(kf_m_s: number, throttle_m3_s: number): boolean {
+    return kf_m_s <= KF_PERMISSIBLE_RANGE_M_S.max && (kf_m_s >= KF_PERMISSIBLE_RANGE_M_S.min || throttle_m3_s > 0);
+}
@@ -0,0 +1,153 @@
+/**
+ * FlowRoutingService - D8 flow direction and flow accumulation on a terrain raster
+ *
+ * Each cell drains to the one of its eight neighbours with the steepest drop
+ *
+ *   S = (z − z_n) / d,   d = cell size (√2 × cell size on diagonals)
+ *
+ * Cells without a lower neighbour are sinks inside the raster and outlets on
+ * its edge, where water leaves the site. Accumulation is the number of cells
+ * draining through a cell (itself included), summed from the highest cell down.
+ *
+ * @domain hydrology-engine
+ * @layer domain/services
+ */
+
+import {
+    cellIndexAt,
+    isEdgeCell,
+    isInside,
+    NEIGHBOUR_OFFSETS,
+    rasterCell,
+    type RasterCell,
+    type TerrainRaster
+} from '../valueObjects/TerrainRaster';
+import { CHANNEL_SHARE, CONCENTRATION_SHARE } from '../../config/flowRouting';
+
+export type DrainageEnd = 'sink' | 'outlet';
+
+export interface FlowPoint extends RasterCell {
+    readonly index: number;
+    readonly elevation_m: number;
+    /** Area draining through the cell (m²) */
+    readonly contributingArea_m2: number;
+}
+
+export interface ConcentrationPoint extends FlowPoint {
+    readonly kind: DrainageEnd;
+}
+
+export interface FlowSegment {
+    readonly from: FlowPoint;
+    readonly to: FlowPoint;
+}
+
+export interface FlowRoutingResult {
+    readonly raster: TerrainRaster;
+    /** Cell each cell drains to; -1 for sinks and outlets */
+    readonly receivers: readonly number[];
+    /** Cells draining through each cell, itself included */
+    readonly accumulation: readonly number[];
+    /** Interior cells without a lower neighbour, where water ponds */
+    readonly sinks: readonly FlowPoint[];
+    /** Sinks and outlets collecting a notable share of the site, largest first */
+    readonly concentrationPoints: readonly ConcentrationPoint[];
+    /** Drainage network: links from channel cells to their receivers */
+    readonly channels: readonly FlowSegment[];
+}
+
+export class FlowRoutingService {
+    /**
+     * Route every cell of the raster to its D8 receiver and accumulate the flow
+     */
+    route(raster: TerrainRaster): FlowRoutingResult {
+        const receivers = raster.elevations.map((_, i) => d8Receiver(raster, i));
+        const accumulation = accumulate(raster, receivers);
+        const point = (i: number) => flowPoint(raster, accumulation, i);
+        const ends = receivers.flatMap((r, i) => r === -1 ? [i] : []);
+
+        return Object.freeze({
+            raster,
+            receivers: Object.freeze(receivers),
+            accumulation: Object.freeze(accumulation),
+            sinks: Object.freeze(ends.filter(i => !isEdgeCell(raster, i)).map(point)),
+            concentrationPoints: Object.freeze(concentrationPoints(raster, accumulation, ends)),
+            channels: Object.freeze(channelSegments(raster, receivers, accumulation))
+        });
+    }
+
+    /**
+     * Trace the path water takes downhill from a world point; empty outside the raster
+     */
+    traceFlowPath(result: FlowRoutingResult, x: number, y: number): FlowPoint[] {
+        const path: FlowPoint[] = [];
+        for (let i = cellIndexAt(result.raster, x, y); i !== -1; i = result.receivers[i]) {
+            path.push(flowPoint(result.raster, result.accumulation, i));
+        }
+        return path;
+    }
+}
+
+/**
+ * Steepest-descent neighbour of a cell, or -1 when no neighbour is lower
+ */
+function d8Receiver(raster: TerrainRaster, index: number): number {
+    const { row, col } = rasterCell(raster, index);
+    let receiver = -1;
+    let steepest = 0;
+
+    for (const [dr, dc] of NEIGHBOUR_OFFSETS) {
+        const drop = neighbourDrop(raster, index, row + dr, col + dc) / Math.hypot(dr, dc);
+        if (drop > steepest) {
+            steepest = drop;
+            receiver = (row + dr) * raster.cols + col + dc;
+        }
+    }
+    return receiver;
+}
+
+/** Drop per cell size towards a neighbour; 0 outside the raster */
+function neighbourDrop(raster: TerrainRaster, index: number, row: number, col: number): number {
+    if (!isInside(raster, row, col)) return 0;
+    return (raster.elevations[index] - raster.elevations[row * raster.cols + col]) / raster.cellSize_m;
+}
+
+/**
+ * Pass each cell's count to its receiver, highest cells first
+ */
+function accumulate(raster: TerrainRaster, receivers: number[]): number[] {
+    const accumulation = receivers.map(() => 1);
+    const order = receivers.map((_, i) => i).sort((a, b) => raster.elevations[b] - raster.elevations[a]);
+
+    order.forEach(i => {
+        if (receivers[i] !== -1) accumulation[receivers[i]] += accumulation[i];
+    });
+    return accumulation;
+}
+
+/**
+ * Flow point of a raster cell with its contributing area
+ */
+export function flowPoint(raster: TerrainRaster, accumulation: readonly number[], index: number): FlowPoint {
+    return {
+        index,
+        ...rasterCell(raster, index),
+        elevation_m: raster.elevations[index],
+        contributingArea_m2: accumulation[index] * raster.cellSize_m ** 2
+    };
+}
+
+function concentrationPoints(raster: TerrainRaster, accumulation: number[], ends: number[]): ConcentrationPoint[] {
+    const minCells = CONCENTRATION_SHARE * raster.elevations.length;
+    return ends
+        .filter(i => accumulation[i] >= minCells)
+        .sort((a, b) => accumulation[b] - accumulation[a])
+        .map(i => ({ ...flowPoint(raster, accumulation, i), kind: isEdgeCell(raster, i) ? 'outlet' : 'sink' }));
+}
+
+function channelSegments(raster: TerrainRaster, receivers: number[], accumulation: number[]): FlowSegment[] {
+    const minCells = Math.max(2, CHANNEL_SHARE * raster.elevations.length);
+    return receivers.flatMap((r, i) => r !== -1 && accumulation[i] >= minCells
+        ? [{ from: flowPoint(raster, accumulation, i), to: flowPoint(raster, accumulation, r) }]
+        : []);
+}
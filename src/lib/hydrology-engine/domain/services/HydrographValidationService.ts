@@ -0,0 +1,150 @@
+/**
+ * HydrographValidationService - Goodness of fit of a predicted hydrograph
+ * against an observed or modelled reference
+ *
+ * The reference is shifted by the chosen offset and linearly interpolated
+ * onto the predicted time steps it covers. Over those steps, with predicted
+ * flows P and reference flows O:
+ *
+ *   NSE   = 1 − Σ(P − O)² / Σ(O − Ō)²
+ *   KGE   = 1 − √((r − 1)² + (σP/σO − 1)² + (P̄/Ō − 1)²)
+ *   PBIAS = 100 Σ(O − P) / ΣO   (positive when the prediction is too low)
+ *   RMSE  = √(Σ(P − O)² / n)
+ *
+ * and the fit is rated after Moriasi et al. (2007).
+ *
+ * @domain hydrology-engine
+ * @layer domain/services
+ */
+
+import type { Hydrograph } from '../valueObjects/Hydrograph';
+import type { ReferenceHydrograph } from '../valueObjects/ReferenceHydrograph';
+import { FIT_THRESHOLDS, type FitRating } from '../../config/goodnessOfFit';
+
+export interface HydrographValidationOptions {
+    /** Minutes added to the reference times to line them up with the prediction */
+    readonly offset_min?: number;
+}
+
+export interface HydrographValidationResult {
+    /** Predicted time steps covered by the reference (min) */
+    readonly times_min: readonly number[];
+    readonly predicted_Ls: readonly number[];
+    /** Reference interpolated onto the predicted time steps */
+    readonly reference_Ls: readonly number[];
+    readonly nse: number;
+    readonly kge: number;
+    readonly pbias_percent: number;
+    readonly rmse_Ls: number;
+    /** Predicted peak relative to the reference peak (%) */
+    readonly peakError_percent: number;
+    /** Predicted minus reference time to peak (min) */
+    readonly timingError_min: number;
+    readonly rating: FitRating;
+}
+
+export class HydrographValidationService {
+    /**
+     * Compare the predicted hydrograph with the reference where they overlap
+     */
+    validate(
+        predicted: Hydrograph,
+        reference: ReferenceHydrograph,
+        options: HydrographValidationOptions = {}
+    ): HydrographValidationResult {
+        const aligned = align(predicted, reference, options.offset_min ?? 0);
+        checkOverlap(aligned);
+
+        return Object.freeze({
+            times_min: Object.freeze(aligned.times_min),
+            predicted_Ls: Object.freeze(aligned.predicted_Ls),
+            reference_Ls: Object.freeze(aligned.reference_Ls),
+            ...goodnessOfFit(aligned)
+        });
+    }
+}
+
+interface AlignedSeries {
+    times_min: number[];
+    predicted_Ls: number[];
+    reference_Ls: number[];
+}
+
+function align(predicted: Hydrograph, reference: ReferenceHydrograph, offset_min: number): AlignedSeries {
+    const end_min = reference.times_min[reference.times_min.length - 1] + offset_min;
+    const steps = predicted.flows_Ls
+        .map((q, i) => ({ t: i * predicted.timeStep_min, q }))
+        .filter(({ t }) => t >= offset_min && t <= end_min);
+
+    return {
+        times_min: steps.map(s => s.t),
+        predicted_Ls: steps.map(s => s.q),
+        reference_Ls: steps.map(s => interpolate(reference, s.t - offset_min))
+    };
+}
+
+function checkOverlap({ times_min, reference_Ls }: AlignedSeries): void {
+    if (times_min.length < 2) throw new Error('Reference and predicted hydrographs do not overlap in time');
+    if (deviation(reference_Ls) === 0) throw new Error('Reference hydrograph has no variation');
+}
+
+function goodnessOfFit({ times_min, predicted_Ls: sim, reference_Ls: obs }: AlignedSeries) {
+    const sse = sum(sim.map((p, i) => (p - obs[i]) ** 2));
+    const nse = 1 - sse / (obs.length * deviation(obs) ** 2);
+    const pbias_percent = 100 * sum(obs.map((o, i) => o - sim[i])) / sum(obs);
+
+    return {
+        nse,
+        kge: klingGupta(sim, obs),
+        pbias_percent,
+        rmse_Ls: Math.sqrt(sse / sim.length),
+        peakError_percent: 100 * (Math.max(...sim) - Math.max(...obs)) / Math.max(...obs),
+        timingError_min: times_min[peakIndex(sim)] - times_min[peakIndex(obs)],
+        rating: rate(nse, pbias_percent)
+    };
+}
+
+/** Linear interpolation within the reference times */
+function interpolate(reference: ReferenceHydrograph, t: number): number {
+    const { times_min: times, flows_Ls: flows } = reference;
+    const j = times.findIndex(time => time >= t);
+    if (j <= 0) return flows[0];
+    return flows[j - 1] + (flows[j] - flows[j - 1]) * (t - times[j - 1]) / (times[j] - times[j - 1]);
+}
+
+function klingGupta(sim: number[], obs: number[]): number {
+    const r = correlation(sim, obs);
+    const variability = deviation(sim) / deviation(obs);
+    const bias = mean(sim) / mean(obs);
+    return 1 - Math.sqrt((r - 1) ** 2 + (variability - 1) ** 2 + (bias - 1) ** 2);
+}
+
+/** Pearson correlation; zero when the prediction is flat */
+function correlation(a: number[], b: number[]): number {
+    const [meanA, meanB] = [mean(a), mean(b)];
+    const covariance = mean(a.map((v, i) => (v - meanA) * (b[i] - meanB)));
+    return covariance === 0 ? 0 : covariance / (deviation(a) * deviation(b));
+}
+
+function sum(values: number[]): number {
+    return values.reduce((total, v) => total + v, 0);
+}
+
+function mean(values: number[]): number {
+    return sum(values) / values.length;
+}
+
+/** Population standard deviation */
+function deviation(values: number[]): number {
+    const m = mean(values);
+    return Math.sqrt(mean(values.map(v => (v - m) ** 2)));
+}
+
+function peakIndex(values: number[]): number {
+    return values.indexOf(Math.max(...values));
+}
+
+function rate(nse: number, pbias_percent: number): FitRating {
+    const threshold = FIT_THRESHOLDS.find(t => nse >= t.minNse && Math.abs(pbias_percent) <= t.maxAbsPbias_percent);
+    return threshold?.rating ?? 'unsatisfactory';
+}
@@ -0,0 +1,152 @@
+/**
+ * PermeablePavementService - Aggregate reservoir design for permeable pavement
+ *
+ * The reservoir stores the design storm falling on the pavement and its
+ * run-on area, less what infiltrates while it fills (ICPI method):
+ *
+ *   R  = A_runOn / A_pavement                     (loading ratio)
+ *   f  = f_measured / safety factor               (design infiltration)
+ *   S  = P × (1 + R) − f × T_fill                 (storage, mm of water)
+ *   d  = max(S / n, d_min)                        (aggregate base depth)
+ *   t  = S / f                                    (drawdown time)
+ *
+ * An underdrain is required on slow soils or when the reservoir cannot
+ * drain within the maximum drawdown time. Without one, the largest run-on
+ * the pavement can accept is the ratio whose storage drains in that time.
+ *
+ * @domain hydrology-engine
+ * @layer domain/services
+ */
+
+import {
+    DEFAULT_AGGREGATE_POROSITY,
+    DEFAULT_FILL_TIME_HR,
+    INFILTRATION_SAFETY_FACTOR,
+    MAX_DRAWDOWN_HR,
+    UNDERDRAIN_THRESHOLD_MM_HR,
+    MIN_BASE_DEPTH_MM,
+    MAX_LOADING_RATIO
+} from '../../config/permeablePavement';
+
+export type UnderdrainReason = 'slow_soil' | 'drawdown';
+
+export interface PermeablePavementInput {
+    area_m2: number;
+    /** Adjacent impervious area draining onto the pavement */
+    runOnArea_m2?: number;
+    /** Design storm depth (mm) */
+    designDepth_mm: number;
+    /** Measured native soil infiltration rate (mm/hr) */
+    infiltrationRate_mm_hr: number;
+    /** Aggregate void ratio (default 0.4) */
+    porosity?: number;
+    /** Reservoir fill duration (default 2 hr) */
+    fillTime_hr?: number;
+}
+
+export interface PermeablePavementDesign {
+    readonly area_m2: number;
+    readonly runOnArea_m2: number;
+    readonly designDepth_mm: number;
+    readonly loadingRatio: number;
+    /** Largest loading ratio the pavement can accept */
+    readonly maxLoadingRatio: number;
+    readonly maxRunOnArea_m2: number;
+    readonly acceptsRunOn: boolean;
+    readonly porosity: number;
+    readonly storageDepth_mm: number;
+    readonly storageVolume_L: number;
+    readonly baseDepth_mm: number;
+    readonly infiltrationRate_mm_hr: number;
+    readonly designInfiltrationRate_mm_hr: number;
+    readonly drawdownTime_hr: number;
+    readonly underdrainRequired: boolean;
+    readonly underdrainReason: UnderdrainReason | null;
+}
+
+interface DesignContext {
+    depth: number;
+    fillInfiltration: number;
+    designRate: number;
+    underdrainReason: UnderdrainReason | null;
+}
+
+export class PermeablePavementService {
+    /**
+     * Size the aggregate reservoir and check drawdown and run-on loading
+     */
+    design(input: PermeablePavementInput): PermeablePavementDesign {
+        validate(input);
+        const porosity = input.porosity ?? DEFAULT_AGGREGATE_POROSITY;
+        validatePorosity(porosity);
+        const runOnArea = input.runOnArea_m2 ?? 0;
+        const designRate = input.infiltrationRate_mm_hr / INFILTRATION_SAFETY_FACTOR;
+        const fillInfiltration = designRate * fillTime(input);
+
+        const loadingRatio = runOnArea / input.area_m2;
+        const storageDepth = Math.max(0, input.designDepth_mm * (1 + loadingRatio) - fillInfiltration);
+        const drawdownTime = drainTime(storageDepth, designRate);
+        const underdrainReason = requiredUnderdrain(input.infiltrationRate_mm_hr, drawdownTime);
+        const maxLoadingRatio = acceptableLoadingRatio({
+            depth: input.designDepth_mm, fillInfiltration, designRate, underdrainReason
+        });
+
+        return Object.freeze({
+            area_m2: input.area_m2,
+            runOnArea_m2: runOnArea,
+            designDepth_mm: input.designDepth_mm,
+            loadingRatio,
+            maxLoadingRatio,
+            maxRunOnArea_m2: maxLoadingRatio * input.area_m2,
+            acceptsRunOn: loadingRatio <= maxLoadingRatio,
+            porosity,
+            storageDepth_mm: storageDepth,
+            storageVolume_L: storageDepth * input.area_m2,
+            baseDepth_mm: Math.max(MIN_BASE_DEPTH_MM, storageDepth / porosity),
+            infiltrationRate_mm_hr: input.infiltrationRate_mm_hr,
+            designInfiltrationRate_mm_hr: designRate,
+            drawdownTime_hr: drawdownTime,
+            underdrainRequired: underdrainReason !== null,
+            underdrainReason
+        });
+    }
+}
+
+function validate(input: PermeablePavementInput): void {
+    if (input.area_m2 <= 0) {
+        throw new Error('Permeable pavement area must be positive');
+    }
+    if (input.infiltrationRate_mm_hr < 0) {
+        throw new Error('Infiltration rate must be non-negative');
+    }
+}
+
+function validatePorosity(porosity: number): void {
+    if (!(porosity > 0 && porosity < 1)) {
+        throw new Error('Aggregate porosity must be between 0 and 1');
+    }
+}
+
+function fillTime(input: PermeablePavementInput): number {
+    return input.fillTime_hr ?? DEFAULT_FILL_TIME_HR;
+}
+
+function drainTime(storageDepth: number, designRate: number): number {
+    return storageDepth > 0 ? storageDepth / designRate : 0;
+}
+
+function requiredUnderdrain(infiltrationRate: number, drawdownTime: number): UnderdrainReason | null {
+    if (infiltrationRate < UNDERDRAIN_THRESHOLD_MM_HR) return 'slow_soil';
+    return drawdownTime > MAX_DRAWDOWN_HR ? 'drawdown' : null;
+}
+
+/**
+ * On slow soils the underdrain carries the outflow, so only the loading cap
+ * applies; otherwise the stored run-on must also drain within MAX_DRAWDOWN_HR.
+ */
+function acceptableLoadingRatio(ctx: DesignContext): number {
+    if (ctx.underdrainReason === 'slow_soil') return MAX_LOADING_RATIO;
+    const drainableStorage = ctx.designRate * MAX_DRAWDOWN_HR;
+    const ratio = (drainableStorage + ctx.fillInfiltration) / ctx.depth - 1;
+    return Math.min(MAX_LOADING_RATIO, Math.max(0, ratio));
+}
@@ -0,0 +1,377 @@
+/**
+ * PondingService - fill-and-spill ponding of a design storm on a terrain raster
+ *
+ * Depressions are found by priority-flood filling from the raster edge: a cell
+ * reached below the water level of the cell it was flooded from lies in the
+ * depression spilling over that cell's rim. Every cell yields the runoff
+ *
+ *   V = P × C × cellSize²
+ *
+ * which follows its D8 path into a depression or off the site. A depression
+ * fills to the level h where Σ max(0, h − z) × cellSize² equals the stored
+ * volume; runoff beyond its capacity spills over the rim and continues to the
+ * next depression downstream, upstream depressions first.
+ *
+ * @domain hydrology-engine
+ * @layer domain/services
+ */
+
+import {
+    isEdgeCell,
+    neighbourIndices,
+    rasterCell,
+    type RasterCell,
+    type TerrainRaster
+} from '../valueObjects/TerrainRaster';
+import type { FlowRoutingResult } from './FlowRoutingService';
+import { LEVEL_TOLERANCE_M, MIN_PONDING_DEPTH_M } from '../../config/ponding';
+
+export interface PondingInput {
+    /** D8 routing of the terrain the storm falls on */
+    readonly flow: FlowRoutingResult;
+    /** Design storm rainfall depth (mm) */
+    readonly rainfall_mm: number;
+    /** Share of the rainfall running off (0-1) */
+    readonly runoffCoefficient: number;
+}
+
+export interface Pond {
+    /** Deepest cell of the pond */
+    readonly deepest: RasterCell & { readonly index: number };
+    readonly waterLevel_m: number;
+    readonly maxDepth_m: number;
+    /** Area ponded deeper than MIN_PONDING_DEPTH_M (m²) */
+    readonly area_m2: number;
+    readonly volume_m3: number;
+    /** Volume the depression holds before it spills (m³) */
+    readonly capacity_m3: number;
+    readonly full: boolean;
+}
+
+export interface SpillPoint extends RasterCell {
+    readonly index: number;
+    readonly elevation_m: number;
+    /** Runoff overflowing the depression rim (m³) */
+    readonly overflow_m3: number;
+    /** Whether the overflow runs off the site rather than into another depression */
+    readonly leavesSite: boolean;
+}
+
+export interface PondingResult {
+    readonly raster: TerrainRaster;
+    readonly rainfall_mm: number;
+    /** Water depth on each cell (m), row-major like the raster */
+    readonly depths_m: readonly number[];
+    readonly runoffVolume_m3: number;
+    readonly pondedVolume_m3: number;
+    /** Runoff leaving the site over the raster edge (m³) */
+    readonly outflow_m3: number;
+    /** Area ponded deeper than MIN_PONDING_DEPTH_M (m²) */
+    readonly floodedArea_m2: number;
+    readonly maxDepth_m: number;
+    /** Ponds deeper than MIN_PONDING_DEPTH_M, largest volume first */
+    readonly ponds: readonly Pond[];
+    /** Rims of full depressions, largest overflow first */
+    readonly spillPoints: readonly SpillPoint[];
+}
+
+interface Depressions {
+    /** Depression each cell lies in; -1 outside depressions */
+    readonly labels: number[];
+    /** Elevation of the filled surface */
+    readonly filled: number[];
+    /** Cell each cell was flooded from; -1 on the edge */
+    readonly parents: number[];
+    /** Rim cell each depression spills over */
+    readonly spills: number[];
+}
+
+interface DepressionFill {
+    readonly members: number[];
+    readonly spill: number;
+    readonly level: number;
+    readonly stored_m3: number;
+    readonly capacity_m3: number;
+    readonly overflow_m3: number;
+    /** Depression receiving the overflow; -1 off the site */
+    readonly downstream: number;
+}
+
+export class PondingService {
+    /**
+     * Pond the design storm runoff in the depressions of the routed terrain
+     */
+    simulate(input: PondingInput): PondingResult {
+        validateInput(input);
+        const { raster } = input.flow;
+        const cellArea = raster.cellSize_m ** 2;
+        const depressions = priorityFlood(raster);
+        const cellRunoff = input.rainfall_mm / 1000 * input.runoffCoefficient * cellArea;
+        const fills = fillDepressions(raster, depressions, inflows(input.flow, depressions, cellRunoff));
+        const depths = pondDepths(raster, fills);
+        const runoffVolume = cellRunoff * raster.elevations.length;
+        const pondedVolume = sum(fills.map(f => f.stored_m3));
+
+        return Object.freeze({
+            raster,
+            rainfall_mm: input.rainfall_mm,
+            depths_m: Object.freeze(depths),
+            runoffVolume_m3: runoffVolume,
+            pondedVolume_m3: pondedVolume,
+            outflow_m3: Math.max(0, runoffVolume - pondedVolume),
+            floodedArea_m2: depths.filter(d => d >= MIN_PONDING_DEPTH_M).length * cellArea,
+            maxDepth_m: depths.reduce((max, d) => Math.max(max, d), 0),
+            ponds: Object.freeze(ponds(raster, fills, depths)),
+            spillPoints: Object.freeze(spillPoints(raster, fills))
+        });
+    }
+}
+
+function validateInput(input: PondingInput): void {
+    if (!(input.rainfall_mm >= 0)) {
+        throw new Error('Rainfall depth must be non-negative');
+    }
+    if (!isFraction(input.runoffCoefficient)) {
+        throw new Error('Runoff coefficient must be between 0 and 1');
+    }
+}
+
+function isFraction(value: number): boolean {
+    return value >= 0 && value <= 1;
+}
+
+/**
+ * Flood the raster inwards from its edge, lowest water level first, labelling
+ * the depressions and the rim cells they spill over
+ */
+function priorityFlood(raster: TerrainRaster): Depressions {
+    const depressions: Depressions = {
+        labels: raster.elevations.map(() => -1),
+        filled: [...raster.elevations],
+        parents: raster.elevations.map(() => -1),
+        spills: []
+    };
+    const closed = raster.elevations.map((_, i) => isEdgeCell(raster, i));
+    const queue = new CellQueue();
+    closed.forEach((edge, i) => { if (edge) queue.push(i, raster.elevations[i]); });
+
+    while (queue.size > 0) {
+        const cell = queue.pop();
+        neighbourIndices(raster, cell)
+            .filter(n => !closed[n])
+            .forEach(n => {
+                closed[n] = true;
+                floodCell(raster, depressions, cell, n);
+                queue.push(n, depressions.filled[n]);
+            });
+    }
+    return depressions;
+}
+
+function floodCell(raster: TerrainRaster, depressions: Depressions, from: number, cell: number): void {
+    depressions.parents[cell] = from;
+    if (raster.elevations[cell] >= depressions.filled[from]) return;
+
+    depressions.filled[cell] = depressions.filled[from];
+    depressions.labels[cell] = depressionSpillingOver(depressions, from);
+}
+
+/** Depression of a flooded cell, or a new one spilling over a rim cell */
+function depressionSpillingOver(depressions: Depressions, cell: number): number {
+    if (depressions.labels[cell] !== -1) return depressions.labels[cell];
+
+    const existing = depressions.spills.indexOf(cell);
+    if (existing !== -1) return existing;
+    depressions.spills.push(cell);
+    return depressions.spills.length - 1;
+}
+
+/**
+ * Runoff collected by each depression from the cells draining into it
+ */
+function inflows(flow: FlowRoutingResult, depressions: Depressions, cellRunoff: number): number[] {
+    const targets = drainageTargets(flow, depressions);
+    const volumes = depressions.spills.map(() => 0);
+    targets.forEach(target => { if (target !== -1) volumes[target] += cellRunoff; });
+    return volumes;
+}
+
+/** Depression each cell drains to along its D8 path; -1 off the site */
+function drainageTargets(flow: FlowRoutingResult, depressions: Depressions): number[] {
+    const { raster, receivers } = flow;
+    const targets = receivers.map(() => -1);
+    const lowestFirst = receivers.map((_, i) => i).sort((a, b) => raster.elevations[a] - raster.elevations[b]);
+
+    lowestFirst.forEach(i => {
+        targets[i] = receivers[i] === -1 ? downstreamDepression(depressions, i) : targets[receivers[i]];
+    });
+    return targets;
+}
+
+/**
+ * First depression on the filled-surface path from a cell; -1 when the path
+ * leaves the site
+ */
+function downstreamDepression(depressions: Depressions, cell: number): number {
+    for (let i = cell; i !== -1; i = depressions.parents[i]) {
+        if (depressions.labels[i] !== -1) return depressions.labels[i];
+    }
+    return -1;
+}
+
+/**
+ * Fill the depressions, passing overflow downstream. A depression is labelled
+ * after the depressions downstream of it, so they fill in reverse label order.
+ */
+function fillDepressions(raster: TerrainRaster, depressions: Depressions, inflows: number[]): DepressionFill[] {
+    const members = depressions.spills.map((): number[] => []);
+    depressions.labels.forEach((label, i) => { if (label !== -1) members[label].push(i); });
+
+    const fills: DepressionFill[] = [];
+    for (let d = depressions.spills.length - 1; d >= 0; d--) {
+        const fill = fillDepression(raster, depressions, { members: members[d], spill: depressions.spills[d] }, inflows[d]);
+        if (fill.downstream !== -1) inflows[fill.downstream] += fill.overflow_m3;
+        fills[d] = fill;
+    }
+    return fills;
+}
+
+function fillDepression(
+    raster: TerrainRaster,
+    depressions: Depressions,
+    basin: Pick<DepressionFill, 'members' | 'spill'>,
+    inflow: number
+): DepressionFill {
+    const rim = raster.elevations[basin.spill];
+    const capacity = storedVolume(raster, basin.members, rim);
+    const stored = Math.min(inflow, capacity);
+
+    return {
+        ...basin,
+        level: stored < capacity ? waterLevel(raster, basin.members, stored, rim) : rim,
+        stored_m3: stored,
+        capacity_m3: capacity,
+        overflow_m3: inflow - stored,
+        downstream: downstreamDepression(depressions, depressions.parents[basin.spill])
+    };
+}
+
+/** Volume below a water level over a depression's cells (m³) */
+function storedVolume(raster: TerrainRaster, members: number[], level: number): number {
+    return sum(members.map(i => Math.max(0, level - raster.elevations[i]))) * raster.cellSize_m ** 2;
+}
+
+/**
+ * Water level below the rim holding a volume in a depression, by bisection
+ */
+function waterLevel(raster: TerrainRaster, members: number[], volume: number, rim: number): number {
+    let low = members.reduce((lowest, i) => Math.min(lowest, raster.elevations[i]), rim);
+    let high = rim;
+
+    while (high - low > LEVEL_TOLERANCE_M) {
+        const mid = (low + high) / 2;
+        if (storedVolume(raster, members, mid) > volume) high = mid;
+        else low = mid;
+    }
+    return low;
+}
+
+function pondDepths(raster: TerrainRaster, fills: DepressionFill[]): number[] {
+    const depths = raster.elevations.map(() => 0);
+    fills.forEach(fill => fill.members.forEach(i => {
+        depths[i] = Math.max(0, fill.level - raster.elevations[i]);
+    }));
+    return depths;
+}
+
+function ponds(raster: TerrainRaster, fills: DepressionFill[], depths: number[]): Pond[] {
+    const cellArea = raster.cellSize_m ** 2;
+    return fills
+        .map(fill => {
+            const deepest = fill.members.reduce((best, i) => depths[i] > depths[best] ? i : best, fill.members[0]);
+            return {
+                deepest: { index: deepest, ...rasterCell(raster, deepest) },
+                waterLevel_m: fill.level,
+                maxDepth_m: depths[deepest],
+                area_m2: fill.members.filter(i => depths[i] >= MIN_PONDING_DEPTH_M).length * cellArea,
+                volume_m3: fill.stored_m3,
+                capacity_m3: fill.capacity_m3,
+                full: fill.overflow_m3 > 0
+            };
+        })
+        .filter(pond => pond.maxDepth_m >= MIN_PONDING_DEPTH_M)
+        .sort((a, b) => b.volume_m3 - a.volume_m3);
+}
+
+function spillPoints(raster: TerrainRaster, fills: DepressionFill[]): SpillPoint[] {
+    return fills
+        .filter(fill => fill.overflow_m3 > 0)
+        .map(fill => ({
+            index: fill.spill,
+            ...rasterCell(raster, fill.spill),
+            elevation_m: raster.elevations[fill.spill],
+            overflow_m3: fill.overflow_m3,
+            leavesSite: fill.downstream === -1
+        }))
+        .sort((a, b) => b.overflow_m3 - a.overflow_m3);
+}
+
+function sum(values: number[]): number {
+    return values.reduce((total, v) => total + v, 0);
+}
+
+/**
+ * Binary min-heap of cells keyed by water level, first in first out on ties
+ */
+class CellQueue {
+    private readonly heap: { cell: number; level: number; order: number }[] = [];
+    private pushed = 0;
+
+    get size(): number {
+        return this.heap.length;
+    }
+
+    push(cell: number, level: number): void {
+        this.heap.push({ cell, level, order: this.pushed++ });
+        let i = this.heap.length - 1;
+        while (i > 0 && this.before(i, (i - 1) >> 1)) {
+            this.swap(i, (i - 1) >> 1);
+            i = (i - 1) >> 1;
+        }
+    }
+
+    pop(): number {
+        const top = this.heap[0];
+        const last = this.heap.pop()!;
+        if (this.heap.length > 0) {
+            this.heap[0] = last;
+            this.siftDown();
+        }
+        return top.cell;
+    }
+
+    private siftDown(): void {
+        let i = 0;
+        let next = this.smallestOf(i);
+        while (next !== i) {
+            this.swap(i, next);
+            i = next;
+            next = this.smallestOf(i);
+        }
+    }
+
+    /** The smallest of a node and its children */
+    private smallestOf(i: number): number {
+        return [2 * i + 1, 2 * i + 2].reduce((best, c) => c < this.heap.length && this.before(c, best) ? c : best, i);
+    }
+
+    private before(a: number, b: number): boolean {
+        const x = this.heap[a];
+        const y = this.heap[b];
+        return x.level < y.level || (x.level === y.level && x.order < y.order);
+    }
+
+    private swap(a: number, b: number): void {
+        [this.heap[a], this.heap[b]] = [this.heap[b], this.heap[a]];
+    }
+}
@@ -0,0 +1,212 @@
+/**
+ * SubCatchmentService - sub-catchment delineation on a routed terrain raster
+ *
+ * Every cell belongs to the first outlet on its D8 path downhill. Outlets are
+ * placed by the user and snapped to the cell with the largest accumulation
+ * within OUTLET_SNAP_RADIUS_M, or detected as the concentration points of the
+ * flow routing. Each sub-catchment reports its area, mean slope
+ *
+ *   S̄ = Σ (z − z_receiver) / d / n
+ *
+ * the length of its longest D8 flow path to the outlet, for its time of
+ * concentration, and its footprint as one rectangle per run of cells along a
+ * raster row.
+ *
+ * @domain hydrology-engine
+ * @layer domain/services
+ */
+
+import { rasterCell, type TerrainRaster } from '../valueObjects/TerrainRaster';
+import { flowPoint, type FlowPoint, type FlowRoutingResult } from './FlowRoutingService';
+import { OUTLET_SNAP_RADIUS_M } from '../../config/flowRouting';
+
+export type OutletSource = 'detected' | 'placed';
+
+export interface SubCatchmentOutlet extends FlowPoint {
+    readonly source: OutletSource;
+}
+
+/** Axis-aligned rectangle in site meters */
+export interface CellRect {
+    readonly minX: number;
+    readonly minY: number;
+    readonly maxX: number;
+    readonly maxY: number;
+}
+
+export interface SubCatchment {
+    readonly id: number;
+    readonly outlet: SubCatchmentOutlet;
+    readonly cellCount: number;
+    readonly area_m2: number;
+    /** Mean steepest-descent slope of the cells (m/m) */
+    readonly meanSlope: number;
+    /** Longest D8 flow path from a cell to the outlet (m) */
+    readonly flowLength_m: number;
+    /** Share of the delineated area (0-1) */
+    readonly share: number;
+    readonly footprint: readonly CellRect[];
+}
+
+export interface SubCatchmentInput {
+    readonly flow: FlowRoutingResult;
+    /** Outlets placed by the user (site meters); concentration points are used without any */
+    readonly outlets?: readonly { x: number; y: number }[];
+    /** Whether a site point lies inside the drawn boundary; every cell counts without one */
+    readonly inside?: (x: number, y: number) => boolean;
+}
+
+export interface SubCatchmentResult {
+    readonly raster: TerrainRaster;
+    /** Sub-catchment id of each cell; -1 where no outlet collects the cell */
+    readonly labels: readonly number[];
+    /** Largest first */
+    readonly subCatchments: readonly SubCatchment[];
+    /** Area inside the boundary draining to none of the outlets (m²) */
+    readonly unassignedArea_m2: number;
+}
+
+export class SubCatchmentService {
+    /**
+     * Split the routed terrain into the areas draining to each outlet
+     */
+    delineate(input: SubCatchmentInput): SubCatchmentResult {
+        const { flow } = input;
+        const inside = insideMask(flow.raster, input.inside);
+        const outlets = resolveOutlets(flow, input.outlets ?? [], inside);
+        const labels = labelCells(flow, outlets).map((label, i) => inside[i] ? label : -1);
+        const counted = inside.filter(Boolean).length;
+        const assigned = labels.filter(label => label !== -1).length;
+
+        return Object.freeze({
+            raster: flow.raster,
+            labels: Object.freeze(labels),
+            subCatchments: Object.freeze(outlets
+                .map((outlet, id) => subCatchment(flow, labels, outlet, id))
+                .filter(c => c.cellCount > 0)
+                .map(c => ({ ...c, share: c.cellCount / counted }))
+                .sort((a, b) => b.area_m2 - a.area_m2)),
+            unassignedArea_m2: (counted - assigned) * flow.raster.cellSize_m ** 2
+        });
+    }
+
+    /**
+     * Cell with the largest accumulation within the snap radius of a point; -1 when none is in reach
+     */
+    snapOutlet(flow: FlowRoutingResult, x: number, y: number): number {
+        return snapOutlet(flow, x, y);
+    }
+}
+
+function insideMask(raster: TerrainRaster, inside: SubCatchmentInput['inside']): boolean[] {
+    return raster.elevations.map((_, i) => {
+        const { x, y } = rasterCell(raster, i);
+        return inside ? inside(x, y) : true;
+    });
+}
+
+function snapOutlet(flow: FlowRoutingResult, x: number, y: number): number {
+    const radius = Math.max(OUTLET_SNAP_RADIUS_M, flow.raster.cellSize_m / 2);
+    return flow.accumulation
+        .map((_, i) => i)
+        .filter(i => {
+            const cell = rasterCell(flow.raster, i);
+            return Math.hypot(cell.x - x, cell.y - y) <= radius;
+        })
+        .reduce((best, i) => best === -1 || flow.accumulation[i] > flow.accumulation[best] ? i : best, -1);
+}
+
+/**
+ * Snap the placed outlets, or fall back to the detected concentration points
+ * inside the boundary; duplicates are dropped
+ */
+function resolveOutlets(flow: FlowRoutingResult, placed: readonly { x: number; y: number }[], inside: boolean[]): SubCatchmentOutlet[] {
+    const outlets: SubCatchmentOutlet[] = placed.length > 0
+        ? placed
+            .map(p => snapOutlet(flow, p.x, p.y))
+            .filter(i => i !== -1)
+            .map(i => ({ ...flowPoint(flow.raster, flow.accumulation, i), source: 'placed' }))
+        : flow.concentrationPoints
+            .filter(p => inside[p.index])
+            .map(p => ({ ...flowPoint(flow.raster, flow.accumulation, p.index), source: 'detected' }));
+
+    return outlets.filter((outlet, i) => outlets.findIndex(o => o.index === outlet.index) === i);
+}
+
+/**
+ * Label each cell with the first outlet downstream, lowest cells first so a
+ * receiver is labelled before the cells draining to it
+ */
+function labelCells(flow: FlowRoutingResult, outlets: SubCatchmentOutlet[]): number[] {
+    const { raster, receivers } = flow;
+    const outletIds = new Map(outlets.map((o, id) => [o.index, id]));
+    const labels = receivers.map(() => -1);
+    const lowestFirst = receivers.map((_, i) => i).sort((a, b) => raster.elevations[a] - raster.elevations[b]);
+
+    lowestFirst.forEach(i => {
+        labels[i] = outletIds.get(i) ?? downstreamLabel(labels, receivers[i]);
+    });
+    return labels;
+}
+
+function downstreamLabel(labels: number[], receiver: number): number {
+    return receiver === -1 ? -1 : labels[receiver];
+}
+
+function subCatchment(flow: FlowRoutingResult, labels: number[], outlet: SubCatchmentOutlet, id: number): SubCatchment {
+    const cells = labels.flatMap((label, i) => label === id ? [i] : []);
+    return {
+        id,
+        outlet,
+        cellCount: cells.length,
+        area_m2: cells.length * flow.raster.cellSize_m ** 2,
+        meanSlope: cells.reduce((total, i) => total + cellSlope(flow, i), 0) / Math.max(1, cells.length),
+        flowLength_m: cells.reduce((longest, i) => Math.max(longest, pathLength(flow, i, outlet.index)), 0),
+        share: 0,
+        footprint: footprint(flow.raster, labels, id)
+    };
+}
+
+/** Slope from a cell to its receiver; 0 for sinks and outlets */
+function cellSlope(flow: FlowRoutingResult, index: number): number {
+    const receiver = flow.receivers[index];
+    if (receiver === -1) return 0;
+
+    return (flow.raster.elevations[index] - flow.raster.elevations[receiver]) / hopLength(flow.raster, index, receiver);
+}
+
+/** Length of the D8 path from a cell down to a cell on it */
+function pathLength(flow: FlowRoutingResult, from: number, to: number): number {
+    let length = 0;
+    for (let i = from; i !== to; i = flow.receivers[i]) length += hopLength(flow.raster, i, flow.receivers[i]);
+    return length;
+}
+
+function hopLength(raster: TerrainRaster, from: number, to: number): number {
+    const a = rasterCell(raster, from);
+    const b = rasterCell(raster, to);
+    return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+/**
+ * Merge the sub-catchment's cells into one rectangle per run along each row
+ */
+function footprint(raster: TerrainRaster, labels: number[], id: number): CellRect[] {
+    const half = raster.cellSize_m / 2;
+    const rects: CellRect[] = [];
+    labels.forEach((label, i) => {
+        if (label !== id) return;
+        const { x, y } = rasterCell(raster, i);
+        if (continuesRun(raster, labels, i)) {
+            rects[rects.length - 1] = { ...rects[rects.length - 1], maxX: x + half };
+        } else {
+            rects.push({ minX: x - half, minY: y - half, maxX: x + half, maxY: y + half });
+        }
+    });
+    return rects;
+}
+
+/** Whether a cell extends the run of its left neighbour in the same row */
+function continuesRun(raster: TerrainRaster, labels: number[], index: number): boolean {
+    return index % raster.cols > 0 && labels[index - 1] === labels[index];
+}
@@ -0,0 +1,107 @@
+/**
+ * TimeOfConcentrationService - Empirical time-of-concentration methods
+ *
+ * Formulas (L = flow length in m, S = slope in m/m, Tc in minutes):
+ * Kirpich (1940):   Tc = 0.0195 × L^0.77 × S^-0.385
+ * Kerby (1959):     Tc = 1.44 × (L × N)^0.467 × S^-0.235
+ * FAA (1970):       Tc = 3.26 × (1.1 - C) × L^0.5 / (100·S)^(1/3)
+ * NRCS lag (TR-55): Tc = L_ft^0.8 × (1000/CN - 9)^0.7 / (1900 × (100·S)^0.5) / 0.6 × 60
+ *
+ * Results are floored at MIN_TC_MIN so short paved paths do not produce
+ * unrealistically high IDF intensities.
+ *
+ * @domain hydrology-engine
+ * @layer domain/services
+ */
+
+import {
+    KERBY_RETARDANCE,
+    MIN_TC_MIN,
+    MIN_FLOW_SLOPE,
+    type KerbySurface
+} from '../../config/timeOfConcentration';
+
+const FT_PER_M = 3.28084;
+
+/** NRCS lag time is 0.6 × Tc */
+const NRCS_LAG_RATIO = 0.6;
+
+export type TcMethod = 'kirpich' | 'kerby' | 'faa' | 'nrcs_lag';
+
+export interface TimeOfConcentrationInput {
+    /** Longest hydraulic flow path in meters */
+    flowLength_m: number;
+    /** Average slope along the flow path (m/m) */
+    slope: number;
+    /** Rational runoff coefficient (FAA method, default 0.9) */
+    runoffCoefficient?: number;
+    /** Curve number (NRCS lag method, default 98) */
+    curveNumber?: number;
+    /** Surface type (Kerby method, default smooth impervious) */
+    kerbySurface?: KerbySurface;
+}
+
+export interface TimeOfConcentrationResult {
+    readonly method: TcMethod;
+    readonly tc_min: number;
+    readonly flowLength_m: number;
+    readonly slope: number;
+}
+
+type TcFormula = (input: Required<TimeOfConcentrationInput>) => number;
+
+const FORMULAS: Record<TcMethod, TcFormula> = {
+    kirpich: ({ flowLength_m, slope }) => 0.0195 * Math.pow(flowLength_m, 0.77) * Math.pow(slope, -0.385),
+    kerby: ({ flowLength_m, slope, kerbySurface }) =>
+        1.44 * Math.pow(flowLength_m * KERBY_RETARDANCE[kerbySurface], 0.467) * Math.pow(slope, -0.235),
+    faa: ({ flowLength_m, slope, runoffCoefficient }) =>
+        3.26 * (1.1 - runoffCoefficient) * Math.sqrt(flowLength_m) / Math.cbrt(slope * 100),
+    nrcs_lag: nrcsLagTc
+};
+
+export class TimeOfConcentrationService {
+    /**
+     * Time of concentration with the chosen method
+     */
+    compute(method: TcMethod, input: TimeOfConcentrationInput): TimeOfConcentrationResult {
+        const formula = FORMULAS[method];
+        if (!formula) {
+            throw new Error(`Unknown time-of-concentration method: ${method}`);
+        }
+        const normalized = normalizeInput(input);
+        return {
+            method,
+            tc_min: Math.max(MIN_TC_MIN, formula(normalized)),
+            flowLength_m: normalized.flowLength_m,
+            slope: normalized.slope
+        };
+    }
+
+    /**
+     * Run every method for side-by-side comparison
+     */
+    computeAll(input: TimeOfConcentrationInput): TimeOfConcentrationResult[] {
+        return (Object.keys(FORMULAS) as TcMethod[]).map(method => this.compute(method, input));
+    }
+}
+
+function normalizeInput(input: TimeOfConcentrationInput): Required<TimeOfConcentrationInput> {
+    if (input.flowLength_m <= 0) {
+        throw new Error('Flow length must be positive');
+    }
+    const provided = Object.fromEntries(Object.entries(input).filter(([, v]) => v !== undefined));
+    return {
+        runoffCoefficient: 0.9,
+        curveNumber: 98,
+        kerbySurface: 'smooth_impervious',
+        ...provided as TimeOfConcentrationInput,
+        slope: Math.max(MIN_FLOW_SLOPE, Math.abs(input.slope))
+    };
+}
+
+function nrcsLagTc({ flowLength_m, slope, curveNumber }: Required<TimeOfConcentrationInput>): number {
+    const retention_in = 1000 / curveNumber - 10;
+    const lag_hr = Math.pow(flowLength_m * FT_PER_M, 0.8) * Math.pow(retention_in + 1, 0.7)
+        / (1900 * Math.sqrt(slope * 100));
+    return (lag_hr / NRCS_LAG_RATIO) * 60;
+}
@@ -0,0 +1,175 @@
+/**
+ * WaterBalanceService - Continuous bioretention water balance
+ *
+ * Each time step routes catchment runoff plus direct rainfall through three
+ * stores (all in mm over the cell footprint):
+ *
+ * 1. Surface ponding loses evapotranspiration first, then infiltrates into
+ *    the media at up to its conductivity and remaining pore space.
+ * 2. Soil storage loses evapotranspiration down to the wilting point and
+ *    drains to the native soil only above field capacity.
+ * 3. Ponding above the maximum depth overflows.
+ *
+ * Capture is the share of inflow that does not overflow. Consecutive
+ * overflowing steps count as a single overflow event.
+ *
+ * @domain hydrology-engine
+ * @layer domain/services
+ */
+
+import {
+    createBioretentionCell,
+    soilStorageCapacity,
+    type BioretentionCell,
+    type BioretentionCellInput
+} from '../valueObjects/BioretentionCell';
+
+const HOURS_PER_YEAR = 8760;
+
+export interface WaterBalanceInput {
+    /** Rainfall depth per time step in mm (e.g. hourly Open-Meteo precipitation) */
+    rainfall_mm: number[];
+    /** Step length in hours (default 1) */
+    timeStep_hr?: number;
+    /** Impervious area draining to the cell */
+    catchmentArea_m2: number;
+    runoffCoefficient: number;
+    cell: BioretentionCellInput;
+    /** Potential evapotranspiration (default 3 mm/day) */
+    evapotranspiration_mm_day?: number;
+    /** Soil moisture at the start, as a volumetric fraction (default field capacity) */
+    initialMoisture?: number;
+}
+
+export interface WaterBalanceResult {
+    readonly simulatedHours: number;
+    readonly inflow_L: number;
+    readonly infiltrated_L: number;
+    readonly evapotranspired_L: number;
+    readonly overflow_L: number;
+    /** Change in ponding + soil storage over the run */
+    readonly storageChange_L: number;
+    readonly capturePercent: number;
+    readonly overflowEvents: number;
+    /** Overflow events scaled to a 365-day year */
+    readonly overflowEventsPerYear: number;
+    readonly maxPondingDepth_mm: number;
+}
+
+interface CellState {
+    ponding: number;
+    soil: number;
+}
+
+interface StepFluxes {
+    inflow: number;
+    infiltrated: number;
+    evapotranspired: number;
+    overflow: number;
+}
+
+interface StepContext {
+    cell: BioretentionCell;
+    dt: number;
+    loadingFactor: number;
+    etPerStep: number;
+}
+
+interface Totals extends StepFluxes {
+    events: number;
+    maxPonding: number;
+    overflowing: boolean;
+}
+
+export class WaterBalanceService {
+    /**
+     * Run the water balance over a rainfall series
+     */
+    simulate(input: WaterBalanceInput): WaterBalanceResult {
+        const ctx = createContext(input);
+        const initial: CellState = { ponding: 0, soil: initialSoil(ctx.cell, input.initialMoisture) };
+        const state = { ...initial };
+        const totals: Totals = { inflow: 0, infiltrated: 0, evapotranspired: 0, overflow: 0, events: 0, maxPonding: 0, overflowing: false };
+
+        for (const rain of input.rainfall_mm) {
+            accumulate(totals, step(state, Math.max(0, rain), ctx), state.ponding);
+        }
+
+        const storageChange = (state.ponding + state.soil) - (initial.ponding + initial.soil);
+        return summarize(totals, storageChange, ctx, input.rainfall_mm.length);
+    }
+}
+
+function createContext(input: WaterBalanceInput): StepContext {
+    const cell = createBioretentionCell(input.cell);
+    const dt = input.timeStep_hr ?? 1;
+    return {
+        cell,
+        dt,
+        // Runoff from the catchment spread over the cell, plus rain falling on it
+        loadingFactor: 1 + (input.catchmentArea_m2 * input.runoffCoefficient) / cell.area_m2,
+        etPerStep: ((input.evapotranspiration_mm_day ?? 3) / 24) * dt
+    };
+}
+
+function initialSoil(cell: BioretentionCell, moisture: number | undefined): number {
+    const fraction = Math.min(cell.porosity, moisture ?? cell.fieldCapacity);
+    return fraction * cell.soilDepth_mm;
+}
+
+/**
+ * Advance the cell one time step, mutating the state and returning fluxes (mm)
+ */
+function step(state: CellState, rain: number, ctx: StepContext): StepFluxes {
+    const { cell, dt, etPerStep } = ctx;
+    const inflow = rain * ctx.loadingFactor;
+
+    state.ponding += inflow;
+    const etPond = Math.min(state.ponding, etPerStep);
+    state.ponding -= etPond;
+
+    const infiltration = Math.min(state.ponding, cell.mediaConductivity_mm_hr * dt, soilStorageCapacity(cell) - state.soil);
+    state.ponding -= infiltration;
+    state.soil += infiltration;
+
+    const etSoil = Math.min(etPerStep - etPond, Math.max(0, state.soil - cell.wiltingPoint * cell.soilDepth_mm));
+    state.soil -= etSoil;
+
+    const exfiltration = Math.min(cell.nativeInfiltration_mm_hr * dt, Math.max(0, state.soil - cell.fieldCapacity * cell.soilDepth_mm));
+    state.soil -= exfiltration;
+
+    const overflow = Math.max(0, state.ponding - cell.pondingDepth_mm);
+    state.ponding -= overflow;
+
+    return { inflow, infiltrated: exfiltration, evapotranspired: etPond + etSoil, overflow };
+}
+
+function accumulate(totals: Totals, fluxes: StepFluxes, ponding: number): void {
+    const overflowing = fluxes.overflow > 0;
+    totals.events += Number(overflowing && !totals.overflowing);
+    totals.overflowing = overflowing;
+    totals.maxPonding = Math.max(totals.maxPonding, ponding);
+    totals.inflow += fluxes.inflow;
+    totals.infiltrated += fluxes.infiltrated;
+    totals.evapotranspired += fluxes.evapotranspired;
+    totals.overflow += fluxes.overflow;
+}
+
+function summarize(totals: Totals, storageChange: number, ctx: StepContext, steps: number): WaterBalanceResult {
+    // mm over the cell footprint × m² = L
+    const toLiters = (mm: number) => mm * ctx.cell.area_m2;
+    const simulatedHours = steps * ctx.dt;
+
+    return {
+        simulatedHours,
+        inflow_L: toLiters(totals.inflow),
+        infiltrated_L: toLiters(totals.infiltrated),
+        evapotranspired_L: toLiters(totals.evapotranspired),
+        overflow_L: toLiters(totals.overflow),
+        storageChange_L: toLiters(storageChange),
+        capturePercent: totals.inflow > 0 ? (1 - totals.overflow / totals.inflow) * 100 : 100,
+        overflowEvents: totals.events,
+        overflowEventsPerYear: simulatedHours > 0 ? totals.events * HOURS_PER_YEAR / simulatedHours : 0,
+        maxPondingDepth_mm: totals.maxPonding
+    };
+}
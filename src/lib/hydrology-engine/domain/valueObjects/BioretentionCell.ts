@@ -0,0 +1,64 @@
+/**
+ * BioretentionCell Value Object - rain garden geometry and media properties
+ *
+ * Depths are in mm and soil moisture values are volumetric fractions, so
+ * storages can be tracked as mm of water over the cell footprint.
+ *
+ * @domain hydrology-engine
+ * @layer domain/valueObjects
+ */
+
+export interface BioretentionCell {
+    readonly area_m2: number;
+    /** Maximum surface ponding depth before overflow */
+    readonly pondingDepth_mm: number;
+    /** Engineered soil media depth */
+    readonly soilDepth_mm: number;
+    readonly porosity: number;
+    /** Moisture below which the media does not drain */
+    readonly fieldCapacity: number;
+    /** Moisture below which plants cannot extract water */
+    readonly wiltingPoint: number;
+    /** Saturated hydraulic conductivity of the media */
+    readonly mediaConductivity_mm_hr: number;
+    /** Exfiltration rate into the native soil */
+    readonly nativeInfiltration_mm_hr: number;
+}
+
+export type BioretentionCellInput = Pick<BioretentionCell, 'area_m2'> & Partial<BioretentionCell>;
+
+/**
+ * Typical bioretention media (sandy loam) over moderately permeable soil
+ */
+export const DEFAULT_BIORETENTION_CELL: Omit<BioretentionCell, 'area_m2'> = {
+    pondingDepth_mm: 150,
+    soilDepth_mm: 600,
+    porosity: 0.45,
+    fieldCapacity: 0.15,
+    wiltingPoint: 0.05,
+    mediaConductivity_mm_hr: 100,
+    nativeInfiltration_mm_hr: 12.7
+};
+
+/**
+ * Create a validated bioretention cell, filling unspecified properties with defaults
+ */
+export function createBioretentionCell(input: BioretentionCellInput): BioretentionCell {
+    const cell = { ...DEFAULT_BIORETENTION_CELL, ...input };
+    if (cell.area_m2 <= 0) {
+        throw new Error('Bioretention area must be positive');
+    }
+    validateMoisture(cell);
+    return Object.freeze(cell);
+}
+
+function validateMoisture(cell: BioretentionCell): void {
+    if (!(cell.wiltingPoint <= cell.fieldCapacity && cell.fieldCapacity < cell.porosity)) {
+        throw new Error('Soil moisture must satisfy wilting point ≤ field capacity < porosity');
+    }
+}
+
+/** Water held by the media when fully saturated (mm) */
+export function soilStorageCapacity(cell: BioretentionCell): number {
+    return cell.porosity * cell.soilDepth_mm;
+}
@@ -0,0 +1,59 @@
+/**
+ * ClimateUplift Value Object - climate change factors for design rainfall
+ *
+ * Future design intensities and depths are today's values times an uplift
+ * factor that depends on the planning horizon and the return period. Factors
+ * are interpolated on log return period between tabulated points and held
+ * constant beyond the ends of the table.
+ *
+ * @domain hydrology-engine
+ * @layer domain/valueObjects
+ */
+
+import { createHyetograph, type Hyetograph } from './Hyetograph';
+
+export type ClimateScenario = 'current' | '2050' | '2100';
+
+export type FutureScenario = Exclude<ClimateScenario, 'current'>;
+
+export const CLIMATE_SCENARIOS: readonly ClimateScenario[] = ['current', '2050', '2100'];
+
+export interface UpliftPoint {
+    readonly returnPeriod_yr: number;
+    /** Multiplier on current design rainfall (1.2 = +20%) */
+    readonly factor: number;
+}
+
+export interface ClimateUpliftTable {
+    readonly region: string;
+    readonly source?: string;
+    readonly factors: Readonly<Record<FutureScenario, readonly UpliftPoint[]>>;
+}
+
+/**
+ * Uplift factor for a scenario and return period; the current climate is 1
+ */
+export function upliftFactor(table: ClimateUpliftTable, scenario: ClimateScenario, returnPeriod_yr: number): number {
+    if (scenario === 'current') return 1;
+    const points = [...table.factors[scenario]].sort((a, b) => a.returnPeriod_yr - b.returnPeriod_yr);
+    return points.length > 0 ? interpolateFactor(points, returnPeriod_yr) : 1;
+}
+
+function interpolateFactor(points: UpliftPoint[], returnPeriod_yr: number): number {
+    if (points.length === 1) return points[0].factor;
+    const T = Math.min(Math.max(returnPeriod_yr, points[0].returnPeriod_yr), points[points.length - 1].returnPeriod_yr);
+    const upper = Math.max(1, points.findIndex(p => p.returnPeriod_yr >= T));
+
+    const a = points[upper - 1];
+    const b = points[upper];
+    const t = Math.log(T / a.returnPeriod_yr) / Math.log(b.returnPeriod_yr / a.returnPeriod_yr);
+    return a.factor + (b.factor - a.factor) * t;
+}
+
+/**
+ * Scale every block of a design storm by an uplift factor
+ */
+export function upliftHyetograph(hyetograph: Hyetograph, factor: number): Hyetograph {
+    const toDepth = hyetograph.timeStep_min / 60;
+    return createHyetograph(hyetograph, hyetograph.intensities_mm_hr.map(i => i * toDepth * factor));
+}
@@ -0,0 +1,74 @@
+/**
+ * CompositeCatchment Value Object - a catchment made of tagged sub-areas
+ *
+ * Composite parameters are area-weighted:
+ *
+ *   C  = Σ(Cᵢ × Aᵢ) / ΣAᵢ
+ *   CN = Σ(CNᵢ × Aᵢ) / ΣAᵢ     (TR-55 weighted curve number)
+ *
+ * @domain hydrology-engine
+ * @layer domain/valueObjects
+ */
+
+import { getCurveNumber, type HydrologicSoilGroup } from './CurveNumber';
+import { getSurfaceCover, type SurfaceType } from './SurfaceCover';
+
+export interface SubArea {
+    readonly surface: SurfaceType;
+    readonly area_m2: number;
+}
+
+/** Share of a catchment covered by one surface (0-1) */
+export interface SurfaceShare {
+    readonly surface: SurfaceType;
+    readonly fraction: number;
+}
+
+export interface CompositeCatchment {
+    readonly subAreas: readonly SubArea[];
+    readonly totalArea_m2: number;
+    readonly imperviousArea_m2: number;
+    readonly imperviousPercent: number;
+    readonly runoffCoefficient: number;
+    readonly curveNumber: number;
+}
+
+/** A single-surface street, used until the user tags sub-areas */
+export const DEFAULT_SURFACE_MIX: readonly SurfaceShare[] = [{ surface: 'asphalt', fraction: 1 }];
+
+/**
+ * Build a composite catchment with area-weighted C and CN
+ */
+export function createCompositeCatchment(subAreas: SubArea[], soilGroup: HydrologicSoilGroup): CompositeCatchment {
+    const totalArea = subAreas.reduce((sum, s) => sum + Math.max(0, s.area_m2), 0);
+    if (totalArea <= 0) {
+        throw new Error('Composite catchment requires a positive total area');
+    }
+
+    const weighted = (value: (s: SubArea) => number) =>
+        subAreas.reduce((sum, s) => sum + value(s) * Math.max(0, s.area_m2), 0) / totalArea;
+    const imperviousArea = subAreas
+        .filter(s => getSurfaceCover(s.surface).impervious)
+        .reduce((sum, s) => sum + Math.max(0, s.area_m2), 0);
+
+    return Object.freeze({
+        subAreas: Object.freeze([...subAreas]),
+        totalArea_m2: totalArea,
+        imperviousArea_m2: imperviousArea,
+        imperviousPercent: (imperviousArea / totalArea) * 100,
+        runoffCoefficient: weighted(s => getSurfaceCover(s.surface).runoffCoefficient),
+        curveNumber: weighted(s => getCurveNumber(getSurfaceCover(s.surface).landCover, soilGroup))
+    });
+}
+
+/**
+ * Split a total area into sub-areas by surface share.
+ * Shares are normalized, so they need not sum to exactly 1.
+ */
+export function subAreasFromShares(shares: readonly SurfaceShare[], totalArea_m2: number): SubArea[] {
+    const totalShare = shares.reduce((sum, s) => sum + Math.max(0, s.fraction), 0);
+    if (totalShare <= 0) {
+        throw new Error('Surface shares must include a positive fraction');
+    }
+    return shares.map(s => ({ surface: s.surface, area_m2: (Math.max(0, s.fraction) / totalShare) * totalArea_m2 }));
+}
@@ -0,0 +1,98 @@
+/**
+ * CurveNumber Value Object - NRCS runoff curve numbers by land cover and soil
+ *
+ * Data source:
+ * - USDA NRCS TR-55 "Urban Hydrology for Small Watersheds", Table 2-2a
+ *   (average antecedent runoff condition, Ia = 0.2S)
+ *
+ * @domain hydrology-engine
+ * @layer domain/valueObjects
+ */
+
+/** NRCS hydrologic soil group (A = high infiltration ... D = very low) */
+export type HydrologicSoilGroup = 'A' | 'B' | 'C' | 'D';
+
+export type LandCoverType =
+    | 'impervious'
+    | 'gravel'
+    | 'dirt'
+    | 'open_space_good'
+    | 'open_space_fair'
+    | 'open_space_poor'
+    | 'woods_good'
+    | 'commercial'
+    | 'residential_quarter_acre'
+    | 'newly_graded';
+
+export interface CurveNumberEntry {
+    readonly landCover: LandCoverType;
+    readonly description: string;
+    readonly values: Readonly<Record<HydrologicSoilGroup, number>>;
+}
+
+/**
+ * TR-55 urban curve numbers for each hydrologic soil group
+ */
+export const CURVE_NUMBERS: Record<LandCoverType, CurveNumberEntry> = {
+    impervious: {
+        landCover: 'impervious',
+        description: 'Paved parking lots, roofs, driveways and curbed streets',
+        values: { A: 98, B: 98, C: 98, D: 98 }
+    },
+    gravel: {
+        landCover: 'gravel',
+        description: 'Gravel streets and roads (including right-of-way)',
+        values: { A: 76, B: 85, C: 89, D: 91 }
+    },
+    dirt: {
+        landCover: 'dirt',
+        description: 'Dirt streets and roads (including right-of-way)',
+        values: { A: 72, B: 82, C: 87, D: 89 }
+    },
+    open_space_good: {
+        landCover: 'open_space_good',
+        description: 'Lawns and parks, grass cover > 75%',
+        values: { A: 39, B: 61, C: 74, D: 80 }
+    },
+    open_space_fair: {
+        landCover: 'open_space_fair',
+        description: 'Lawns and parks, grass cover 50% to 75%',
+        values: { A: 49, B: 69, C: 79, D: 84 }
+    },
+    open_space_poor: {
+        landCover: 'open_space_poor',
+        description: 'Lawns and parks, grass cover < 50%',
+        values: { A: 68, B: 79, C: 86, D: 89 }
+    },
+    woods_good: {
+        landCover: 'woods_good',
+        description: 'Woods protected from grazing, litter and brush cover soil',
+        values: { A: 30, B: 55, C: 70, D: 77 }
+    },
+    commercial: {
+        landCover: 'commercial',
+        description: 'Commercial and business districts (85% impervious)',
+        values: { A: 89, B: 92, C: 94, D: 95 }
+    },
+    residential_quarter_acre: {
+        landCover: 'residential_quarter_acre',
+        description: 'Residential 1/4 acre lots (38% impervious)',
+        values: { A: 61, B: 75, C: 83, D: 87 }
+    },
+    newly_graded: {
+        landCover: 'newly_graded',
+        description: 'Newly graded areas, no vegetation',
+        values: { A: 77, B: 86, C: 91, D: 94 }
+    }
+};
+
+/**
+ * Look up the curve number for a land cover on a given soil group
+ */
+export function getCurveNumber(landCover: LandCoverType, soilGroup: HydrologicSoilGroup): number {
+    const entry = CURVE_NUMBERS[landCover];
+    if (!entry) {
+        throw new Error(`Unknown land cover: ${landCover}`);
+    }
+    return entry.values[soilGroup];
+}
@@ -0,0 +1,63 @@
+/**
+ * Hydrograph Value Object - a discharge series at a fixed time step
+ *
+ * Flows are instantaneous values (L/s) at the start of each step, so the
+ * volume is integrated with the trapezoidal rule.
+ *
+ * @domain hydrology-engine
+ * @layer domain/valueObjects
+ */
+
+export interface Hydrograph {
+    readonly timeStep_min: number;
+    /** Discharge in L/s, one value per time step */
+    readonly flows_Ls: readonly number[];
+    readonly peakFlow_Ls: number;
+    /** Time (minutes) of the peak discharge */
+    readonly timeToPeak_min: number;
+    readonly volume_m3: number;
+}
+
+/**
+ * Build a hydrograph from discharges (L/s); negative values are clipped to zero
+ */
+export function createHydrograph(timeStep_min: number, flows_Ls: number[]): Hydrograph {
+    if (timeStep_min <= 0) {
+        throw new Error('Hydrograph time step must be positive');
+    }
+    const flows = flows_Ls.map(q => Math.max(0, q));
+    const peak = Math.max(0, ...flows);
+    const step_s = timeStep_min * 60;
+
+    return Object.freeze({
+        timeStep_min,
+        flows_Ls: Object.freeze(flows),
+        peakFlow_Ls: peak,
+        timeToPeak_min: Math.max(0, flows.indexOf(peak)) * timeStep_min,
+        volume_m3: flows.slice(1).reduce((sum, q, i) => sum + (flows[i] + q) / 2 * step_s, 0) / 1000
+    });
+}
+
+export interface RationalHydrographSpec {
+    readonly peakFlow_Ls: number;
+    readonly tc_min: number;
+    readonly stormDuration_min: number;
+    readonly timeStep_min: number;
+    /** Length of the series (min) */
+    readonly duration_min: number;
+}
+
+/**
+ * Modified Rational Method hydrograph: the flow rises to the peak over Tc,
+ * holds until the storm ends and recedes over another Tc. Storms shorter
+ * than Tc never reach the peak.
+ */
+export function createRationalHydrograph(spec: RationalHydrographSpec): Hydrograph {
+    const { peakFlow_Ls, tc_min, stormDuration_min, timeStep_min } = spec;
+    const steps = Math.floor(spec.duration_min / timeStep_min) + 1;
+    const flows = Array.from({ length: steps }, (_, i) => {
+        const t = i * timeStep_min;
+        return peakFlow_Ls * Math.min(1, t / tc_min, (stormDuration_min + tc_min - t) / tc_min);
+    });
+    return createHydrograph(timeStep_min, flows);
+}
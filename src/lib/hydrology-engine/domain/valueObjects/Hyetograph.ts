@@ -0,0 +1,54 @@
+/**
+ * Hyetograph Value Object - a design storm as a series of rainfall blocks
+ *
+ * Every block has the same length (timeStep_min) and a constant intensity.
+ * Hyetographs are fully determined by their spec, so the same design storm
+ * can be regenerated identically for any project.
+ *
+ * @domain hydrology-engine
+ * @layer domain/valueObjects
+ */
+
+export type HyetographMethod = 'chicago' | 'huff' | 'scs_type_ii' | 'euler_ii';
+
+export interface DesignStormSpec {
+    readonly method: HyetographMethod;
+    readonly returnPeriod_yr: number;
+    readonly duration_min: number;
+    readonly timeStep_min: number;
+}
+
+export interface Hyetograph extends DesignStormSpec {
+    /** Block intensities in mm/hr, one per time step */
+    readonly intensities_mm_hr: readonly number[];
+    readonly totalDepth_mm: number;
+    readonly peakIntensity_mm_hr: number;
+    /** Start time (minutes) of the peak block */
+    readonly timeToPeak_min: number;
+}
+
+/**
+ * Build a hyetograph from block depths (mm per time step)
+ */
+export function createHyetograph(spec: DesignStormSpec, blockDepths_mm: number[]): Hyetograph {
+    const toIntensity = 60 / spec.timeStep_min;
+    const intensities = blockDepths_mm.map(d => Math.max(0, d) * toIntensity);
+    const peakIntensity = Math.max(0, ...intensities);
+
+    return Object.freeze({
+        ...spec,
+        intensities_mm_hr: Object.freeze(intensities),
+        totalDepth_mm: intensities.reduce((sum, i) => sum + i / toIntensity, 0),
+        peakIntensity_mm_hr: peakIntensity,
+        timeToPeak_min: intensities.indexOf(peakIntensity) * spec.timeStep_min
+    });
+}
+
+/**
+ * Cumulative rainfall depth (mm) at the end of each block
+ */
+export function cumulativeDepths(hyetograph: Hyetograph): number[] {
+    const toDepth = hyetograph.timeStep_min / 60;
+    let total = 0;
+    return hyetograph.intensities_mm_hr.map(i => (total += i * toDepth));
+}
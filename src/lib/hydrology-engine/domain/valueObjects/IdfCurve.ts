@@ -0,0 +1,60 @@
+/**
+ * IdfCurve Value Object - intensity-duration-frequency relationships
+ *
+ * Uses the generalised Sherman form fitted by most regional IDF atlases:
+ *
+ *   i = k × T^m / (d + b)^n
+ *
+ * where i is intensity (mm/hr), T the return period (years) and d the
+ * duration (minutes).
+ *
+ * @domain hydrology-engine
+ * @layer domain/valueObjects
+ */
+
+export interface IdfParameters {
+    /** Scale coefficient (mm/hr · min^n) */
+    readonly k: number;
+    /** Return period exponent */
+    readonly m: number;
+    /** Duration offset in minutes */
+    readonly b: number;
+    /** Duration exponent */
+    readonly n: number;
+    /** Where the fit comes from (atlas, station, etc.) */
+    readonly source?: string;
+}
+
+export interface IdfPoint {
+    readonly duration_min: number;
+    readonly intensity_mm_hr: number;
+    readonly depth_mm: number;
+}
+
+/**
+ * Design intensity in mm/hr for a return period and duration
+ */
+export function idfIntensity(params: IdfParameters, returnPeriod_yr: number, duration_min: number): number {
+    if (returnPeriod_yr <= 0 || duration_min <= 0) {
+        throw new Error('Return period and duration must be positive');
+    }
+    return (params.k * Math.pow(returnPeriod_yr, params.m)) / Math.pow(duration_min + params.b, params.n);
+}
+
+/**
+ * Design rainfall depth in mm accumulated over a duration
+ */
+export function idfDepth(params: IdfParameters, returnPeriod_yr: number, duration_min: number): number {
+    return idfIntensity(params, returnPeriod_yr, duration_min) * duration_min / 60;
+}
+
+/**
+ * Tabulate an IDF curve for one return period
+ */
+export function createIdfCurve(params: IdfParameters, returnPeriod_yr: number, durations_min: number[]): IdfPoint[] {
+    return durations_min.map(d => ({
+        duration_min: d,
+        intensity_mm_hr: idfIntensity(params, returnPeriod_yr, d),
+        depth_mm: idfDepth(params, returnPeriod_yr, d)
+    }));
+}
@@ -0,0 +1,67 @@
+/**
+ * KostraRainfall Value Object - design rain intensities r(D, T) in KOSTRA form
+ *
+ * DWA-A 138 works in rain yield rates (L/(s·ha)) tabulated per duration D
+ * for one return period T, as published in the KOSTRA-DWD atlas. Tables can
+ * be entered from the atlas directly or derived from a fitted IDF curve:
+ *
+ *   r [L/(s·ha)] = i [mm/hr] × 10 000 / 3 600
+ *
+ * @domain hydrology-engine
+ * @layer domain/valueObjects
+ */
+
+import { idfIntensity, type IdfParameters } from './IdfCurve';
+import { KOSTRA_DURATIONS_MIN } from '../../config/dwaA138';
+
+/** 1 mm/hr over one hectare in L/s */
+export const MM_HR_TO_L_S_HA = 10000 / 3600;
+
+export interface KostraPoint {
+    readonly duration_min: number;
+    /** Rain yield rate r(D, T) in L/(s·ha) */
+    readonly intensity_Lsha: number;
+}
+
+export interface KostraTable {
+    readonly returnPeriod_yr: number;
+    readonly points: readonly KostraPoint[];
+}
+
+/**
+ * Create a validated rainfall table, e.g. from KOSTRA-DWD atlas values
+ */
+export function createKostraTable(returnPeriod_yr: number, points: KostraPoint[]): KostraTable {
+    if (returnPeriod_yr <= 0) {
+        throw new Error('Return period must be positive');
+    }
+    validatePoints(points);
+    return Object.freeze({
+        returnPeriod_yr,
+        points: Object.freeze([...points].sort((a, b) => a.duration_min - b.duration_min))
+    });
+}
+
+function validatePoints(points: KostraPoint[]): void {
+    if (points.length === 0 || points.some(isInvalidPoint)) {
+        throw new Error('KOSTRA table needs positive durations and non-negative intensities');
+    }
+}
+
+function isInvalidPoint(point: KostraPoint): boolean {
+    return point.duration_min <= 0 || point.intensity_Lsha < 0;
+}
+
+/**
+ * Tabulate an IDF fit at the KOSTRA duration steps
+ */
+export function kostraFromIdf(
+    idf: IdfParameters,
+    returnPeriod_yr: number,
+    durations_min: number[] = KOSTRA_DURATIONS_MIN
+): KostraTable {
+    return createKostraTable(returnPeriod_yr, durations_min.map(d => ({
+        duration_min: d,
+        intensity_Lsha: idfIntensity(idf, returnPeriod_yr, d) * MM_HR_TO_L_S_HA
+    })));
+}
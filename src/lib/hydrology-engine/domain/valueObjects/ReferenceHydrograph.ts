@@ -0,0 +1,123 @@
+/**
+ * ReferenceHydrograph Value Object - an observed or modelled discharge series
+ * read from CSV (HEC-RAS, SWMM output, field loggers)
+ *
+ * The first column is the time: minutes (hours when the header says so),
+ * H:MM[:SS] clock times or dates. Times are kept relative to the first row
+ * and need not be evenly spaced. Columns may be separated by commas,
+ * semicolons or tabs; semicolon and tab files may use decimal commas.
+ *
+ * @domain hydrology-engine
+ * @layer domain/valueObjects
+ */
+
+import { FLOW_UNIT_PATTERNS, FLOW_UNIT_TO_LS, type FlowUnit } from '../../config/goodnessOfFit';
+
+export interface ReferenceHydrograph {
+    /** Header of the flow column that was read */
+    readonly source: string;
+    /** Minutes since the first row */
+    readonly times_min: readonly number[];
+    /** Discharge in L/s, one value per time */
+    readonly flows_Ls: readonly number[];
+}
+
+export interface ReferenceCsvOptions {
+    /** Header of the flow column; the first flow-like column by default */
+    readonly flowColumn?: string;
+    /** Unit of the flow column; taken from its header by default */
+    readonly unit?: FlowUnit;
+}
+
+const FLOW_HEADER = /flow|discharge|runoff|^q\b|^q_/i;
+const HOURS_HEADER = /hr|hour/i;
+const CLOCK_TIME = /^(\d+):(\d{2})(?::(\d{2}))?$/;
+
+/**
+ * Read a reference hydrograph from CSV text; negative flows are clipped to zero
+ */
+export function parseReferenceHydrograph(csv: string, options: ReferenceCsvOptions = {}): ReferenceHydrograph {
+    const [header, ...rows] = readTable(csv);
+    const column = flowColumn(header, options);
+    const toLs = FLOW_UNIT_TO_LS[columnUnit(header[column], options)];
+
+    const clock = rows.map(r => rowMinutes(r[0], HOURS_HEADER.test(header[0])));
+    const flows = rows.map(r => readNumber(r[column]) * toLs);
+    validate(clock, flows);
+
+    return Object.freeze({
+        source: header[column],
+        times_min: Object.freeze(clock.map(t => t - clock[0])),
+        flows_Ls: Object.freeze(flows.map(q => Math.max(0, q)))
+    });
+}
+
+/**
+ * Cells of the non-comment lines, split on semicolons or tabs when the
+ * header has them and on commas otherwise
+ */
+function readTable(csv: string): string[][] {
+    const lines = csv.split(/\r?\n/).map(l => l.trim()).filter(l => l && !l.startsWith('#'));
+    const delimiter = delimiterOf(lines.slice(0, 1).join(''));
+    const table = lines.map(l => l.split(delimiter).map(v => v.trim()));
+
+    if (table.length === 0 || table[0].length < 2) throw new Error('Reference hydrograph needs a time and a flow column');
+    return table;
+}
+
+function delimiterOf(header: string): string {
+    return [';', '\t'].find(d => header.includes(d)) ?? ',';
+}
+
+function flowColumn(header: string[], options: ReferenceCsvOptions): number {
+    return options.flowColumn === undefined ? defaultFlowColumn(header) : namedColumn(header, options.flowColumn);
+}
+
+/** The first flow-like column after the time, or the second column */
+function defaultFlowColumn(header: string[]): number {
+    return Math.max(1, header.slice(1).findIndex(h => FLOW_HEADER.test(h)) + 1);
+}
+
+function namedColumn(header: string[], name: string): number {
+    const index = header.indexOf(name);
+    if (index < 1) throw new Error(`Flow column "${name}" not found`);
+    return index;
+}
+
+function columnUnit(header: string, options: ReferenceCsvOptions): FlowUnit {
+    return options.unit ?? headerUnit(header);
+}
+
+function headerUnit(header: string): FlowUnit {
+    return FLOW_UNIT_PATTERNS.find(([, pattern]) => pattern.test(header))?.[0] ?? 'L/s';
+}
+
+/** Numbers with a decimal point or comma; NaN for blanks */
+function readNumber(value: string | undefined): number {
+    return value ? Number(value.replace(',', '.')) : NaN;
+}
+
+function rowMinutes(value: string, hours: boolean): number {
+    const number = readNumber(value);
+    if (!Number.isNaN(number)) return hours ? number * 60 : number;
+    return textMinutes(value);
+}
+
+/** Minutes of an H:MM[:SS] clock time, or since the epoch for a date */
+function textMinutes(value: string): number {
+    const clock = CLOCK_TIME.exec(value);
+    if (!clock) return Date.parse(value) / 60000;
+    return Number(clock[1]) * 60 + Number(clock[2]) + Number(clock[3] ?? 0) / 60;
+}
+
+function validate(times: number[], flows: number[]): void {
+    if (times.length < 2) throw new Error('Reference hydrograph needs at least two rows');
+
+    const unreadable = [...times, ...flows].findIndex(Number.isNaN);
+    if (unreadable >= 0) throw new Error(`Unreadable value on row ${(unreadable % times.length) + 2}`);
+    checkIncreasing(times);
+}
+
+function checkIncreasing(times: number[]): void {
+    if (times.some((t, i) => t <= times[i - 1])) throw new Error('Reference hydrograph times must increase');
+}
@@ -0,0 +1,58 @@
+/**
+ * SurfaceCover Value Object - street-scale surface types
+ *
+ * Maps the surfaces found in a micro-catchment to a Rational runoff
+ * coefficient and a TR-55 land cover (for the curve number).
+ *
+ * Data sources:
+ * - ASCE Manual of Practice No. 77, Table 5-5 (runoff coefficients)
+ * - USDA NRCS TR-55, Table 2-2a (land cover classes)
+ *
+ * @domain hydrology-engine
+ * @layer domain/valueObjects
+ */
+
+import type { LandCoverType } from './CurveNumber';
+
+export type SurfaceType =
+    | 'asphalt'
+    | 'concrete'
+    | 'roof'
+    | 'pavers'
+    | 'permeable_pavers'
+    | 'gravel'
+    | 'lawn'
+    | 'planting_bed'
+    | 'tree_pit';
+
+export interface SurfaceCoverEntry {
+    readonly surface: SurfaceType;
+    readonly label: string;
+    readonly runoffCoefficient: number;
+    readonly landCover: LandCoverType;
+    /** Counts towards the impervious percentage used by Rv formulas */
+    readonly impervious: boolean;
+}
+
+export const SURFACE_COVERS: Record<SurfaceType, SurfaceCoverEntry> = {
+    asphalt: { surface: 'asphalt', label: 'Asphalt', runoffCoefficient: 0.95, landCover: 'impervious', impervious: true },
+    concrete: { surface: 'concrete', label: 'Concrete', runoffCoefficient: 0.95, landCover: 'impervious', impervious: true },
+    roof: { surface: 'roof', label: 'Roof', runoffCoefficient: 0.95, landCover: 'impervious', impervious: true },
+    pavers: { surface: 'pavers', label: 'Jointed Pavers', runoffCoefficient: 0.75, landCover: 'impervious', impervious: true },
+    permeable_pavers: { surface: 'permeable_pavers', label: 'Permeable Pavers', runoffCoefficient: 0.45, landCover: 'gravel', impervious: false },
+    gravel: { surface: 'gravel', label: 'Gravel', runoffCoefficient: 0.35, landCover: 'gravel', impervious: false },
+    lawn: { surface: 'lawn', label: 'Lawn', runoffCoefficient: 0.25, landCover: 'open_space_fair', impervious: false },
+    planting_bed: { surface: 'planting_bed', label: 'Planting Bed', runoffCoefficient: 0.2, landCover: 'open_space_good', impervious: false },
+    tree_pit: { surface: 'tree_pit', label: 'Tree Pit', runoffCoefficient: 0.15, landCover: 'woods_good', impervious: false }
+};
+
+/**
+ * Get surface cover properties
+ */
+export function getSurfaceCover(surface: SurfaceType): SurfaceCoverEntry {
+    const entry = SURFACE_COVERS[surface];
+    if (!entry) {
+        throw new Error(`Unknown surface type: ${surface}`);
+    }
+    return entry;
+}
@@ -0,0 +1,143 @@
+/**
+ * TerrainRaster Value Object - regular elevation raster for terrain hydrology
+ *
+ * Elevations are stored row-major; row r and column c hold the cell centred at
+ *
+ *   x = originX + c × cellSize,   y = originY + r × cellSize
+ *
+ * A scanned ElevationGrid is rasterized by interpolating at each cell centre,
+ * coarsening the cells when the site would exceed MAX_FLOW_CELLS.
+ *
+ * @domain hydrology-engine
+ * @layer domain/valueObjects
+ */
+
+import type { ElevationGrid } from '../../../spatial-coverage/domain/valueObjects/ElevationGrid';
+import { FLOW_CELL_SIZE_M, MAX_FLOW_CELLS } from '../../config/flowRouting';
+
+export interface TerrainRaster {
+    readonly rows: number;
+    readonly cols: number;
+    readonly cellSize_m: number;
+    /** World x of the centre of the first column (m) */
+    readonly originX: number;
+    /** World y of the centre of the first row (m) */
+    readonly originY: number;
+    readonly elevations: readonly number[];
+}
+
+/** Row and column offsets of the eight neighbours of a cell */
+export const NEIGHBOUR_OFFSETS: readonly (readonly [number, number])[] = [
+    [-1, -1], [-1, 0], [-1, 1],
+    [0, -1], [0, 1],
+    [1, -1], [1, 0], [1, 1]
+];
+
+export interface RasterCell {
+    readonly row: number;
+    readonly col: number;
+    readonly x: number;
+    readonly y: number;
+}
+
+/**
+ * Build a raster from rows of elevations (m)
+ */
+export function createTerrainRaster(
+    elevations: number[][],
+    cellSize_m: number,
+    origin: { x: number; y: number } = { x: 0, y: 0 }
+): TerrainRaster {
+    validateRaster(elevations, cellSize_m);
+    return Object.freeze({
+        rows: elevations.length,
+        cols: elevations[0].length,
+        cellSize_m,
+        originX: origin.x,
+        originY: origin.y,
+        elevations: Object.freeze(elevations.flat())
+    });
+}
+
+function validateRaster(elevations: number[][], cellSize_m: number): void {
+    if (elevations.length === 0 || elevations[0].length === 0) {
+        throw new Error('Terrain raster needs at least one cell');
+    }
+    validateShape(elevations, cellSize_m);
+}
+
+function validateShape(elevations: number[][], cellSize_m: number): void {
+    if (elevations.some(row => row.length !== elevations[0].length)) {
+        throw new Error('Terrain raster rows must have equal length');
+    }
+    if (!(cellSize_m > 0)) {
+        throw new Error('Cell size must be positive');
+    }
+}
+
+/**
+ * Interpolate a scanned elevation grid onto a regular raster; null without samples
+ */
+export function rasterizeElevationGrid(grid: ElevationGrid, cellSize_m: number = FLOW_CELL_SIZE_M): TerrainRaster | null {
+    const bounds = grid.getBounds();
+    if (!bounds) return null;
+
+    const width = bounds.maxX - bounds.minX;
+    const height = bounds.maxY - bounds.minY;
+    const size = Math.max(cellSize_m, Math.sqrt(width * height / MAX_FLOW_CELLS));
+    const cols = Math.floor(width / size) + 1;
+    const rows = Math.floor(height / size) + 1;
+
+    const elevations = Array.from({ length: rows }, (_, r) =>
+        Array.from({ length: cols }, (_, c) => grid.interpolate(bounds.minX + c * size, bounds.minY + r * size) ?? 0));
+    return createTerrainRaster(elevations, size, { x: bounds.minX, y: bounds.minY });
+}
+
+/**
+ * Row, column and world position of a cell
+ */
+export function rasterCell(raster: TerrainRaster, index: number): RasterCell {
+    const row = Math.floor(index / raster.cols);
+    const col = index % raster.cols;
+    return {
+        row,
+        col,
+        x: raster.originX + col * raster.cellSize_m,
+        y: raster.originY + row * raster.cellSize_m
+    };
+}
+
+/**
+ * Index of the cell containing a world point, or -1 outside the raster
+ */
+export function cellIndexAt(raster: TerrainRaster, x: number, y: number): number {
+    const col = Math.round((x - raster.originX) / raster.cellSize_m);
+    const row = Math.round((y - raster.originY) / raster.cellSize_m);
+    return isInside(raster, row, col) ? row * raster.cols + col : -1;
+}
+
+/**
+ * Whether a cell lies on the raster boundary, where water can leave the site
+ */
+export function isEdgeCell(raster: TerrainRaster, index: number): boolean {
+    const { row, col } = rasterCell(raster, index);
+    return !isInside(raster, row - 1, col - 1) || !isInside(raster, row + 1, col + 1);
+}
+
+/**
+ * Indices of the up to eight cells surrounding a cell
+ */
+export function neighbourIndices(raster: TerrainRaster, index: number): number[] {
+    const { row, col } = rasterCell(raster, index);
+    return NEIGHBOUR_OFFSETS
+        .filter(([dr, dc]) => isInside(raster, row + dr, col + dc))
+        .map(([dr, dc]) => (row + dr) * raster.cols + col + dc);
+}
+
+export function isInside(raster: TerrainRaster, row: number, col: number): boolean {
+    return inRange(row, raster.rows) && inRange(col, raster.cols);
+}
+
+function inRange(i: number, count: number): boolean {
+    return i >= 0 && i < count;
+}
@@ -0,0 +1,361 @@
+/**
+ * Hydrology Engine Library
+ *
+ * Domain-agnostic stormwater hydrology calculations:
+ * - NRCS/SCS Curve Number runoff (TR-55)
+ * - Composite multi-surface catchments (area-weighted C and CN)
+ * - IDF curves and design storm hyetographs (Chicago, Huff, SCS Type II, Euler II)
+ * - Time of concentration (Kirpich, Kerby, FAA, NRCS lag)
+ * - Continuous bioretention water balance
+ * - Permeable pavement reservoir design (base depth, drawdown, underdrain, run-on)
+ * - DWA-A 138 sizing of swales, trenches and swale-trench systems (KOSTRA rainfall)
+ * - Level-pool (modified Puls) detention routing through orifice and weir outlets
+ * - Climate change uplift of design rainfall for 2050 and 2100 scenarios
+ * - D8 flow direction, flow accumulation, sinks and flow paths on a scanned DEM
+ * - Fill-and-spill ponding depths, volumes and spill points for a design storm
+ * - Sub-catchment delineation to placed or detected outlets
+ * - Finite-difference kinematic wave overland flow hydrographs with Horton losses
+ * - Goodness of fit (NSE, KGE, PBIAS, RMSE) against reference hydrograph CSVs
+ *
+ * Complements the Rational Method in `utils/hydrology.ts` for catchments
+ * where volume-based methods are required by reviewers.
+ *
+ * @example
+ * ```typescript
+ * import { createCurveNumberService, getCurveNumber } from '@/lib/hydrology-engine';
+ *
+ * const service = createCurveNumberService();
+ * const result = service.computeRunoff({
+ *   rainfall_mm: 76.2,
+ *   area_m2: 4047,
+ *   curveNumber: getCurveNumber('impervious', 'C')
+ * });
+ *
+ * console.log(result.peakDischarge_Ls);
+ * ```
+ */
+
+// Domain Layer - Value Objects
+export { CURVE_NUMBERS, getCurveNumber } from './domain/valueObjects/CurveNumber';
+export type { HydrologicSoilGroup, LandCoverType, CurveNumberEntry } from './domain/valueObjects/CurveNumber';
+
+export { SURFACE_COVERS, getSurfaceCover } from './domain/valueObjects/SurfaceCover';
+export type { SurfaceType, SurfaceCoverEntry } from './domain/valueObjects/SurfaceCover';
+
+export {
+    createCompositeCatchment,
+    subAreasFromShares,
+    DEFAULT_SURFACE_MIX
+} from './domain/valueObjects/CompositeCatchment';
+export type { CompositeCatchment, SubArea, SurfaceShare } from './domain/valueObjects/CompositeCatchment';
+
+export { idfIntensity, idfDepth, createIdfCurve } from './domain/valueObjects/IdfCurve';
+export type { IdfParameters, IdfPoint } from './domain/valueObjects/IdfCurve';
+
+export { createKostraTable, kostraFromIdf, MM_HR_TO_L_S_HA } from './domain/valueObjects/KostraRainfall';
+export type { KostraPoint, KostraTable } from './domain/valueObjects/KostraRainfall';
+
+export { createHydrograph, createRationalHydrograph } from './domain/valueObjects/Hydrograph';
+export type { Hydrograph, RationalHydrographSpec } from './domain/valueObjects/Hydrograph';
+
+export { parseReferenceHydrograph } from './domain/valueObjects/ReferenceHydrograph';
+export type { ReferenceHydrograph, ReferenceCsvOptions } from './domain/valueObjects/ReferenceHydrograph';
+
+export {
+    createStageStorageDischarge,
+    outletDischarge,
+    prismaticStorage
+} from './domain/valueObjects/StageStorageDischarge';
+export type {
+    OrificeOutlet,
+    WeirOutlet,
+    OutletStructure,
+    StageArea,
+    StagePoint,
+    StageStorageDischarge
+} from './domain/valueObjects/StageStorageDischarge';
+
+export { createHyetograph, cumulativeDepths } from './domain/valueObjects/Hyetograph';
+export type { Hyetograph, HyetographMethod, DesignStormSpec } from './domain/valueObjects/Hyetograph';
+
+export { CLIMATE_SCENARIOS, upliftFactor, upliftHyetograph } from './domain/valueObjects/ClimateUplift';
+export type {
+    ClimateScenario,
+    FutureScenario,
+    UpliftPoint,
+    ClimateUpliftTable
+} from './domain/valueObjects/ClimateUplift';
+
+export {
+    createTerrainRaster,
+    rasterizeElevationGrid,
+    rasterCell,
+    isEdgeCell,
+    neighbourIndices,
+    NEIGHBOUR_OFFSETS,
+    cellIndexAt
+} from './domain/valueObjects/TerrainRaster';
+export type { TerrainRaster, RasterCell } from './domain/valueObjects/TerrainRaster';
+
+export {
+    createBioretentionCell,
+    soilStorageCapacity,
+    DEFAULT_BIORETENTION_CELL
+} from './domain/valueObjects/BioretentionCell';
+export type { BioretentionCell, BioretentionCellInput } from './domain/valueObjects/BioretentionCell';
+
+// Domain Layer - Services
+export { CurveNumberService } from './domain/services/CurveNumberService';
+export type { ScsRunoffInput, ScsRunoffResult } from './domain/services/CurveNumberService';
+
+export { DesignStormService } from './domain/services/DesignStormService';
+export type { DesignStormRequest } from './domain/services/DesignStormService';
+
+export { TimeOfConcentrationService } from './domain/services/TimeOfConcentrationService';
+export type {
+    TcMethod,
+    TimeOfConcentrationInput,
+    TimeOfConcentrationResult
+} from './domain/services/TimeOfConcentrationService';
+
+export { WaterBalanceService } from './domain/services/WaterBalanceService';
+export type { WaterBalanceInput, WaterBalanceResult } from './domain/services/WaterBalanceService';
+
+export { PermeablePavementService } from './domain/services/PermeablePavementService';
+export type {
+    PermeablePavementInput,
+    PermeablePavementDesign,
+    UnderdrainReason
+} from './domain/services/PermeablePavementService';
+
+export { DwaA138Service } from './domain/services/DwaA138Service';
+export type {
+    DwaA138Input,
+    InfiltrationFacility,
+    InfiltrationFacilityDesign,
+    TrenchGeometry
+} from './domain/services/DwaA138Service';
+
+export { DetentionRoutingService } from './domain/services/DetentionRoutingService';
+export type { DetentionRoutingInput, DetentionRoutingResult } from './domain/services/DetentionRoutingService';
+
+export { ClimateScenarioService } from './domain/services/ClimateScenarioService';
+export type { ClimateScenarioInput, ClimateScenarioResult } from './domain/services/ClimateScenarioService';
+
+export { FlowRoutingService } from './domain/services/FlowRoutingService';
+export type {
+    DrainageEnd,
+    FlowPoint,
+    ConcentrationPoint,
+    FlowSegment,
+    FlowRoutingResult
+} from './domain/services/FlowRoutingService';
+
+export { PondingService } from './domain/services/PondingService';
+export type { PondingInput, PondingResult, Pond, SpillPoint } from './domain/services/PondingService';
+
+export { SubCatchmentService } from './domain/services/SubCatchmentService';
+export type {
+    OutletSource,
+    SubCatchmentOutlet,
+    CellRect,
+    SubCatchment,
+    SubCatchmentInput,
+    SubCatchmentResult
+} from './domain/services/SubCatchmentService';
+
+export { KinematicWaveService } from './domain/services/KinematicWaveService';
+export type {
+    RainfallSeries,
+    OverlandPlane,
+    HortonInfiltration,
+    KinematicWaveInput,
+    KinematicWaveResult
+} from './domain/services/KinematicWaveService';
+
+export { HydrographValidationService } from './domain/services/HydrographValidationService';
+export type {
+    HydrographValidationOptions,
+    HydrographValidationResult
+} from './domain/services/HydrographValidationService';
+
+// Config
+export { TR55_COEFFICIENTS, TR55_TC_RANGE_HR, TR55_IA_P_RANGE } from './config/tr55Coefficients';
+export type { RainfallDistribution, UnitPeakCoefficients } from './config/tr55Coefficients';
+
+export {
+    IDF_PRESETS,
+    DEFAULT_IDF_PARAMETERS,
+    DEFAULT_DESIGN_STORM,
+    SCS_TYPE_II_CUMULATIVE,
+    HUFF_CUMULATIVE
+} from './config/designStorms';
+export type { HuffQuartile } from './config/designStorms';
+
+export { KERBY_RETARDANCE, MIN_TC_MIN, MIN_FLOW_SLOPE, DEFAULT_FLOW_SLOPE } from './config/timeOfConcentration';
+export type { KerbySurface } from './config/timeOfConcentration';
+
+export {
+    DEFAULT_AGGREGATE_POROSITY,
+    DEFAULT_FILL_TIME_HR,
+    INFILTRATION_SAFETY_FACTOR,
+    MAX_DRAWDOWN_HR,
+    UNDERDRAIN_THRESHOLD_MM_HR,
+    MIN_BASE_DEPTH_MM,
+    MAX_LOADING_RATIO,
+    TYPICAL_INFILTRATION_MM_HR
+} from './config/permeablePavement';
+
+export {
+    DWA_SAFETY_FACTOR,
+    DWA_DEFAULT_RETURN_PERIOD_YR,
+    MAX_SWALE_DEPTH_M,
+    MAX_EMPTYING_TIME_HR,
+    KF_PERMISSIBLE_RANGE_M_S,
+    TOPSOIL_KF_M_S,
+    DEFAULT_TRENCH,
+    KOSTRA_DURATIONS_MIN
+} from './config/dwaA138';
+
+export {
+    GRAVITY_M_S2,
+    ORIFICE_DISCHARGE_COEFFICIENT,
+    WEIR_DISCHARGE_COEFFICIENT,
+    STAGE_TABLE_STEPS,
+    DRAINED_OUTFLOW_LS,
+    MAX_DRAIN_TIME_HR
+} from './config/detentionRouting';
+
+export { CLIMATE_UPLIFT_PRESETS, DEFAULT_CLIMATE_UPLIFT } from './config/climateUplift';
+
+export {
+    FLOW_CELL_SIZE_M,
+    MAX_FLOW_CELLS,
+    CHANNEL_SHARE,
+    CONCENTRATION_SHARE,
+    OUTLET_SNAP_RADIUS_M
+} from './config/flowRouting';
+
+export { MIN_PONDING_DEPTH_M, LEVEL_TOLERANCE_M } from './config/ponding';
+
+export {
+    DEFAULT_MANNING_N,
+    KINEMATIC_WAVE_CELLS,
+    KINEMATIC_WAVE_COURANT,
+    MAX_SOLVER_STEP_S,
+    HYDROGRAPH_STEP_MIN,
+    RECESSION_END_LS,
+    MAX_RECESSION_MIN
+} from './config/kinematicWave';
+
+export { FIT_THRESHOLDS, FLOW_UNIT_TO_LS, FLOW_UNIT_PATTERNS } from './config/goodnessOfFit';
+export type { FitRating, FitThreshold, FlowUnit } from './config/goodnessOfFit';
+
+// ============================================================================
+// Factory Functions for Easy Setup
+// ============================================================================
+
+import { CurveNumberService } from './domain/services/CurveNumberService';
+import { DesignStormService } from './domain/services/DesignStormService';
+import { TimeOfConcentrationService } from './domain/services/TimeOfConcentrationService';
+import { WaterBalanceService } from './domain/services/WaterBalanceService';
+import { PermeablePavementService } from './domain/services/PermeablePavementService';
+import { DwaA138Service } from './domain/services/DwaA138Service';
+import { DetentionRoutingService } from './domain/services/DetentionRoutingService';
+import { ClimateScenarioService } from './domain/services/ClimateScenarioService';
+import { FlowRoutingService } from './domain/services/FlowRoutingService';
+import { PondingService } from './domain/services/PondingService';
+import { SubCatchmentService } from './domain/services/SubCatchmentService';
+import { KinematicWaveService } from './domain/services/KinematicWaveService';
+import { HydrographValidationService } from './domain/services/HydrographValidationService';
+
+/**
+ * Create a curve number runoff service instance
+ */
+export function createCurveNumberService(): CurveNumberService {
+    return new CurveNumberService();
+}
+
+/**
+ * Create a design storm (IDF / hyetograph) service instance
+ */
+export function createDesignStormService(): DesignStormService {
+    return new DesignStormService();
+}
+
+/**
+ * Create a time-of-concentration service instance
+ */
+export function createTimeOfConcentrationService(): TimeOfConcentrationService {
+    return new TimeOfConcentrationService();
+}
+
+/**
+ * Create a continuous bioretention water balance service instance
+ */
+export function createWaterBalanceService(): WaterBalanceService {
+    return new WaterBalanceService();
+}
+
+/**
+ * Create a permeable pavement reservoir design service instance
+ */
+export function createPermeablePavementService(): PermeablePavementService {
+    return new PermeablePavementService();
+}
+
+/**
+ * Create a DWA-A 138 infiltration facility sizing service instance
+ */
+export function createDwaA138Service(): DwaA138Service {
+    return new DwaA138Service();
+}
+
+/**
+ * Create a detention storage (modified Puls) routing service instance
+ */
+export function createDetentionRoutingService(): DetentionRoutingService {
+    return new DetentionRoutingService();
+}
+
+/**
+ * Create a climate change design rainfall scenario service instance
+ */
+export function createClimateScenarioService(): ClimateScenarioService {
+    return new ClimateScenarioService();
+}
+
+/**
+ * Create a D8 terrain flow routing service instance
+ */
+export function createFlowRoutingService(): FlowRoutingService {
+    return new FlowRoutingService();
+}
+
+/**
+ * Create a fill-and-spill ponding service instance
+ */
+export function createPondingService(): PondingService {
+    return new PondingService();
+}
+
+/**
+ * Create a sub-catchment delineation service instance
+ */
+export function createSubCatchmentService(): SubCatchmentService {
+    return new SubCatchmentService();
+}
+
+/**
+ * Create a kinematic wave overland flow solver instance
+ */
+export function createKinematicWaveService(): KinematicWaveService {
+    return new KinematicWaveService();
+}
+
+/**
+ * Create a reference hydrograph goodness-of-fit service instance
+ */
+export function createHydrographValidationService(): HydrographValidationService {
+    return new HydrographValidationService();
+}
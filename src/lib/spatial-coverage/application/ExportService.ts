@@ -1,7 +1,8 @@
 /**
  * ExportService - Application service for generating scan exports.
  * 
- * Provides PDF, OBJ mesh, and GeoTIFF DEM export functionality.
+ * Provides PDF, OBJ mesh, GeoTIFF DEM, ponding depth, EPA SWMM model and
+ * hydrograph validation report export functionality.
  * Uses lazy-loading for heavy dependencies.
  * 
  * CC ≤ 3, Method length ≤ 30 lines.
@@ -9,6 +10,14 @@
 
 import type { ElevationGrid } from '../domain/valueObjects/ElevationGrid';
 import type { Point } from '../domain/valueObjects/Boundary';
+import type {
+    CompositeCatchment,
+    HydrographValidationResult,
+    PondingResult,
+    RainfallSeries
+} from '../../hydrology-engine';
+import { getBmpDefinition, type BMPType } from '../../bmp-catalog';
+import type { RainfallData } from '../../../services/openMeteoClient';
 
 export interface ExportData {
     siteAddress: string;
@@ -26,6 +35,27 @@ export interface LatLon {
     lon: number;
 }
 
+/** A green infrastructure fix draining the subcatchment */
+export interface SwmmLidPlacement {
+    type: BMPType;
+    /** Footprint (m²) */
+    size: number;
+}
+
+export interface SwmmModel {
+    title: string;
+    catchment: Pick<CompositeCatchment, 'totalArea_m2' | 'imperviousPercent' | 'curveNumber'>;
+    /** Longest overland flow path (m) */
+    flowLength_m: number;
+    /** Slope along the flow path (m/m) */
+    slope: number;
+    /** Design storm blocks or observed hourly rainfall from Open-Meteo */
+    rainfall: RainfallSeries | RainfallData;
+    fixes: SwmmLidPlacement[];
+    /** Site outline in local meters; a square of the same area without one */
+    boundary?: Point[];
+}
+
 /**
  * Export service for generating scan reports.
  */
@@ -115,6 +145,253 @@ export class ExportService {
 
         return lines.join('\n');
     }
+
+    /**
+     * Generate the design storm ponding depths as CSV, raster rows like the DEM.
+     * Totals and spill points are listed in the header.
+     */
+    toPondingCSV(ponding: PondingResult, origin: LatLon): string {
+        const { raster } = ponding;
+        const lines: string[] = [
+            `# Ponding Depth Export (m) - Origin: ${origin.lat}, ${origin.lon}`,
+            `# Cell Size: ${raster.cellSize_m} m`,
+            `# Raster Origin: X ${raster.originX} Y ${raster.originY}`,
+            `# Rainfall: ${ponding.rainfall_mm.toFixed(1)} mm`,
+            `# Ponded: ${ponding.pondedVolume_m3.toFixed(2)} m³ over ${ponding.floodedArea_m2.toFixed(1)} m², max depth ${ponding.maxDepth_m.toFixed(3)} m`,
+            `# Outflow: ${ponding.outflow_m3.toFixed(2)} m³`,
+            ...ponding.spillPoints.map(s =>
+                `# Spill: (${s.x.toFixed(2)}, ${s.y.toFixed(2)}) ${s.overflow_m3.toFixed(2)} m³ ${s.leavesSite ? 'off site' : 'to next depression'}`),
+            ''
+        ];
+
+        for (let r = 0; r < raster.rows; r++) {
+            lines.push(ponding.depths_m.slice(r * raster.cols, (r + 1) * raster.cols).map(d => d.toFixed(3)).join(','));
+        }
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Generate the hydrograph validation report as CSV: the goodness-of-fit
+     * statistics in the header, then the aligned predicted and reference flows.
+     */
+    toValidationCSV(validation: HydrographValidationResult, site: string, source: string): string {
+        const lines: string[] = [
+            `# Hydrograph Validation Report - Site: ${site}`,
+            `# Reference: ${source}`,
+            `# Rating: ${validation.rating.replace('_', ' ')}`,
+            `# NSE: ${validation.nse.toFixed(3)}`,
+            `# KGE: ${validation.kge.toFixed(3)}`,
+            `# PBIAS: ${validation.pbias_percent.toFixed(1)} %`,
+            `# RMSE: ${validation.rmse_Ls.toFixed(3)} L/s`,
+            `# Peak Error: ${validation.peakError_percent.toFixed(1)} %`,
+            `# Timing Error: ${validation.timingError_min.toFixed(0)} min`,
+            'time_min,predicted_Ls,reference_Ls',
+            ...validation.times_min.map((t, i) =>
+                `${t},${validation.predicted_Ls[i].toFixed(3)},${validation.reference_Ls[i].toFixed(3)}`)
+        ];
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Generate an EPA SWMM 5 input file (SI units) with the site as one
+     * subcatchment draining to a free outfall, its rain gage and time series,
+     * and the fixes as LID controls on the impervious area.
+     */
+    toSWMMInp(model: SwmmModel): string {
+        const rain = swmmRainfall(model.rainfall);
+        const outline = model.boundary ?? squareOutline(model.catchment.totalArea_m2);
+        return [
+            ['[TITLE]', model.title],
+            optionsSection(rain),
+            swmmSection('EVAPORATION', [['CONSTANT', '0.0'], ['DRY_ONLY', 'NO']]),
+            swmmSection('RAINGAGES', [[RAIN_GAGE, rain.format, rain.interval, '1.0', 'TIMESERIES', RAIN_SERIES]]),
+            subcatchmentSections(model),
+            lidSections(model),
+            swmmSection('OUTFALLS', [[OUTFALL, '0', 'FREE', 'NO']]),
+            swmmSection('TIMESERIES', rain.series),
+            swmmSection('REPORT', [['INPUT', 'NO'], ['SUBCATCHMENTS', 'ALL'], ['NODES', 'ALL'], ['LINKS', 'ALL']]),
+            mapSections(outline)
+        ].flat().join('\n');
+    }
+}
+
+const RAIN_GAGE = 'RG1';
+const RAIN_SERIES = 'Rainfall';
+const SUBCATCHMENT = 'S1';
+const OUTFALL = 'OUT1';
+
+/** Design storms start at midnight on an arbitrary day */
+const DESIGN_START = new Date(Date.UTC(2000, 0, 1));
+
+/** Impervious n, pervious n, impervious and pervious depression storage (mm) */
+const SUBAREA_PARAMETERS = ['0.015', '0.24', '1.27', '5.08', '25', 'OUTLET'];
+
+/** LID units that take a flow width (m) */
+const LID_WITH_WIDTH = new Set(['PP', 'VS']);
+
+/** Smallest storm depth (mm) LID treated areas are sized for */
+const MIN_STORM_DEPTH_MM = 1;
+
+interface SwmmRainfall {
+    format: 'INTENSITY' | 'VOLUME';
+    /** Recording interval as H:MM */
+    interval: string;
+    series: string[][];
+    start: Date;
+    end: Date;
+    reportStep: string;
+}
+
+function swmmSection(name: string, rows: string[][]): string[] {
+    return ['', `[${name}]`, ...rows.map(row => row.map(v => v.padEnd(16)).join(' ').trimEnd())];
+}
+
+function swmmRainfall(rainfall: RainfallSeries | RainfallData): SwmmRainfall {
+    return 'precipitation' in rainfall ? observedRainfall(rainfall) : designRainfall(rainfall);
+}
+
+/** Storm blocks in mm/hr, simulated for twice the storm length to capture the recession */
+function designRainfall(rainfall: RainfallSeries): SwmmRainfall {
+    const step = rainfall.timeStep_min;
+    const duration_min = rainfall.intensities_mm_hr.length * step;
+    return {
+        format: 'INTENSITY',
+        interval: clockTime(step),
+        series: rainfall.intensities_mm_hr.map((v, i) => [RAIN_SERIES, clockTime(i * step), v.toFixed(2)]),
+        start: DESIGN_START,
+        end: new Date(DESIGN_START.getTime() + 2 * duration_min * 60000),
+        reportStep: '00:01:00'
+    };
+}
+
+/** Hourly depths in mm, dated; the local times are kept as they are */
+function observedRainfall(rainfall: RainfallData): SwmmRainfall {
+    const times = rainfall.times.map(t => new Date(`${t}Z`));
+    return {
+        format: 'VOLUME',
+        interval: '1:00',
+        series: times.map((t, i) => [RAIN_SERIES, swmmDate(t), swmmTime(t).slice(0, 5), rainfall.precipitation[i].toFixed(2)]),
+        start: times[0],
+        end: new Date(times[times.length - 1].getTime() + 3600000),
+        reportStep: '01:00:00'
+    };
+}
+
+function optionsSection(rain: SwmmRainfall): string[] {
+    return swmmSection('OPTIONS', [
+        ['FLOW_UNITS', 'LPS'],
+        ['INFILTRATION', 'CURVE_NUMBER'],
+        ['FLOW_ROUTING', 'KINWAVE'],
+        ['START_DATE', swmmDate(rain.start)],
+        ['START_TIME', swmmTime(rain.start)],
+        ['REPORT_START_DATE', swmmDate(rain.start)],
+        ['REPORT_START_TIME', swmmTime(rain.start)],
+        ['END_DATE', swmmDate(rain.end)],
+        ['END_TIME', swmmTime(rain.end)],
+        ['DRY_DAYS', '0'],
+        ['REPORT_STEP', rain.reportStep],
+        ['WET_STEP', '00:01:00'],
+        ['DRY_STEP', '01:00:00'],
+        ['ROUTING_STEP', '0:00:30']
+    ]);
+}
+
+/** Area in hectares, width as area over flow length, slope in percent */
+function subcatchmentSections({ catchment, flowLength_m, slope }: SwmmModel): string[] {
+    const width_m = catchment.totalArea_m2 / flowLength_m;
+    return [
+        ...swmmSection('SUBCATCHMENTS', [[
+            SUBCATCHMENT, RAIN_GAGE, OUTFALL,
+            (catchment.totalArea_m2 / 10000).toFixed(4),
+            catchment.imperviousPercent.toFixed(1),
+            width_m.toFixed(2),
+            (slope * 100).toFixed(2),
+            '0'
+        ]]),
+        ...swmmSection('SUBAREAS', [[SUBCATCHMENT, ...SUBAREA_PARAMETERS]]),
+        ...swmmSection('INFILTRATION', [[SUBCATCHMENT, catchment.curveNumber.toFixed(1), '0.5', '7']])
+    ];
+}
+
+/**
+ * One LID control per BMP type, used once with the combined footprint of its
+ * fixes. Each takes the runoff of the impervious area whose storm depth its
+ * storage holds; fixes that could hold more than all of it share it by that
+ * treated area.
+ */
+function lidSections({ fixes, catchment, rainfall }: SwmmModel): string[] {
+    const footprints = new Map<BMPType, number>();
+    fixes.forEach(f => footprints.set(f.type, (footprints.get(f.type) ?? 0) + f.size));
+    const depth_mm = Math.max(stormDepth_mm(rainfall), MIN_STORM_DEPTH_MM);
+    const lids = [...footprints].map(([type, area_m2]) => ({
+        type, area_m2, treated_m2: area_m2 * getBmpDefinition(type).design.storageDepth_mm / depth_mm
+    }));
+    const impervious_m2 = catchment.totalArea_m2 * catchment.imperviousPercent / 100;
+    const drained_m2 = Math.max(impervious_m2, lids.reduce((sum, lid) => sum + lid.treated_m2, 0));
+
+    return [
+        ...swmmSection('LID_CONTROLS', lids.flatMap(lid => lidControl(lid.type))),
+        ...swmmSection('LID_USAGE', lids.map(lid => lidUsage(lid.type, lid.area_m2, 100 * lid.treated_m2 / drained_m2)))
+    ];
+}
+
+function stormDepth_mm(rainfall: RainfallSeries | RainfallData): number {
+    if ('precipitation' in rainfall) return rainfall.precipitation.reduce((sum, p) => sum + p, 0);
+    return rainfall.intensities_mm_hr.reduce((sum, i) => sum + i, 0) * rainfall.timeStep_min / 60;
+}
+
+function lidControl(type: BMPType): string[][] {
+    const { type: lidType, layers } = getBmpDefinition(type).swmm;
+    return [
+        [type, lidType],
+        ...Object.entries(layers).map(([layer, values]) => [type, layer, ...values.map(String)])
+    ];
+}
+
+function lidUsage(type: BMPType, area_m2: number, fromImpervious_percent: number): string[] {
+    const width_m = LID_WITH_WIDTH.has(getBmpDefinition(type).swmm.type) ? Math.sqrt(area_m2) : 0;
+    return [SUBCATCHMENT, type, '1', area_m2.toFixed(2), width_m.toFixed(2), '0', fromImpervious_percent.toFixed(1), '0'];
+}
+
+/** Subcatchment polygon with the outfall below its lowest point and the gage above */
+function mapSections(outline: Point[]): string[] {
+    const xs = outline.map(p => p.x);
+    const ys = outline.map(p => p.y);
+    const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+    const midX = ((minX + maxX) / 2).toFixed(2);
+    const margin = Math.max(maxX - minX, maxY - minY) / 4;
+    return [
+        ...swmmSection('MAP', [
+            ['DIMENSIONS', ...[minX, minY - margin, maxX, maxY + margin].map(v => v.toFixed(2))],
+            ['Units', 'Meters']
+        ]),
+        ...swmmSection('COORDINATES', [[OUTFALL, midX, (minY - margin).toFixed(2)]]),
+        ...swmmSection('Polygons', outline.map(p => [SUBCATCHMENT, p.x.toFixed(2), p.y.toFixed(2)])),
+        ...swmmSection('SYMBOLS', [[RAIN_GAGE, midX, (maxY + margin).toFixed(2)]])
+    ];
+}
+
+function squareOutline(area_m2: number): Point[] {
+    const half = Math.sqrt(area_m2) / 2;
+    return [{ x: -half, y: -half }, { x: half, y: -half }, { x: half, y: half }, { x: -half, y: half }];
+}
+
+/** H:MM */
+function clockTime(minutes: number): string {
+    return `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/** MM/DD/YYYY */
+function swmmDate(date: Date): string {
+    const [year, month, day] = date.toISOString().slice(0, 10).split('-');
+    return `${month}/${day}/${year}`;
+}
+
+/** HH:MM:SS */
+function swmmTime(date: Date): string {
+    return date.toISOString().slice(11, 19);
 }
 
 // Singleton instance
@@ -35,10 +35,26 @@ export class ElevationGrid {
         this.cellSize = cellSize;
     }
 
+    /**
+     * Rebuild a grid from its samples, e.g. after sending them to a worker.
+     */
+    static fromSamples(samples: readonly ElevationSample[], cellSize: number = DEFAULT_CELL_SIZE): ElevationGrid {
+        const grid = new ElevationGrid(cellSize);
+        samples.forEach(s => grid.addSample(s));
+        return grid;
+    }
+
     get sampleCount(): number {
         return this.samples.length;
     }
 
+    /**
+     * Copy of the samples; a grid cannot be structured-cloned with its methods.
+     */
+    getSamples(): ElevationSample[] {
+        return [...this.samples];
+    }
+
     addSample(sample: ElevationSample): void {
         this.samples.push(sample);
     }
@@ -78,6 +94,18 @@ export class ElevationGrid {
         };
     }
 
+    /**
+     * Slope magnitude (m/m) at the center of the sampled area.
+     * Returns null if the slope cannot be computed.
+     */
+    getCentralSlope(): number | null {
+        const bounds = this.getBounds();
+        if (!bounds) return null;
+
+        const slope = this.getSlope((bounds.minX + bounds.maxX) / 2, (bounds.minY + bounds.maxY) / 2);
+        return slope ? Math.hypot(slope.dx, slope.dy) : null;
+    }
+
     /**
      * Get the bounding box of all samples.
      * Returns null if no samples exist.
@@ -144,6 +144,17 @@ export class GeoPolygon {
         return area / 2;
     }
 
+    /**
+     * Longest vertex-to-vertex distance in meters.
+     * Used as the hydraulic flow length when no drainage path is known.
+     */
+    get longestDimensionMeters(): number {
+        return this._vertices.reduce((max, a, i) => Math.max(
+            max,
+            ...this._vertices.slice(i + 1).map(b => CoordinateTransform.haversineDistance(a, b))
+        ), 0);
+    }
+
     /**
      * Get bounding box of the polygon.
      */
@@ -0,0 +1,26 @@
+/**
+ * Monte Carlo defaults and input spreads
+ * Sources: ASCE Manual of Practice 77 (runoff coefficient ranges),
+ * NOAA Atlas 14 90% confidence intervals (design rainfall spread)
+ */
+
+/** Samples drawn per analysis */
+export const DEFAULT_ITERATIONS = 1000;
+
+/** Fixed seed so the same project always reports the same bands */
+export const DEFAULT_SEED = 138;
+
+/** Area error (±%, one standard deviation) of a scan without tape calibration */
+export const UNCALIBRATED_SCAN_ACCURACY_PERCENT = 10;
+
+/** Tape calibration never removes all area error (±%) */
+export const MIN_SCAN_ACCURACY_PERCENT = 1;
+
+/** Runoff coefficient range (±) around the tabulated value */
+export const RUNOFF_COEFFICIENT_SPREAD = 0.1;
+
+/** Coefficient of variation of design storm intensity and depth */
+export const DESIGN_RAINFALL_CV = 0.2;
+
+/** Coefficient of variation of annual rainfall totals */
+export const ANNUAL_RAINFALL_CV = 0.15;
@@ -0,0 +1,65 @@
+/**
+ * MonteCarloService - Propagates input distributions through a model
+ *
+ * Each iteration draws every input once, evaluates the model and records
+ * its outputs; the outputs are summarised as P10 / P50 / P90 bands. The
+ * seeded generator makes a run with the same seed repeatable.
+ *
+ * @domain uncertainty-engine
+ * @layer domain/services
+ */
+
+import { createSeededRandom, sampleDistribution, type Distribution, type RandomSource } from '../valueObjects/Distribution';
+import { createPercentileBand, type PercentileBand } from '../valueObjects/PercentileBand';
+import { DEFAULT_ITERATIONS, DEFAULT_SEED } from '../../config/uncertaintyDefaults';
+
+export type UncertainModel<I extends string, O extends string> = (sample: Record<I, number>) => Record<O, number>;
+
+export interface MonteCarloOptions {
+    iterations?: number;
+    seed?: number;
+}
+
+export interface MonteCarloResult<O extends string> {
+    readonly iterations: number;
+    readonly bands: Readonly<Record<O, PercentileBand>>;
+}
+
+export class MonteCarloService {
+    /**
+     * Sample the inputs, run the model for each draw and band its outputs
+     */
+    run<I extends string, O extends string>(
+        inputs: Record<I, Distribution>,
+        model: UncertainModel<I, O>,
+        options: MonteCarloOptions = {}
+    ): MonteCarloResult<O> {
+        const iterations = resolveIterations(options.iterations);
+        const random = createSeededRandom(options.seed ?? DEFAULT_SEED);
+        const outputs = Array.from({ length: iterations }, () => model(drawInputs(inputs, random)));
+
+        return Object.freeze({ iterations, bands: Object.freeze(bandOutputs(outputs)) });
+    }
+}
+
+function resolveIterations(iterations: number = DEFAULT_ITERATIONS): number {
+    if (!isPositiveInteger(iterations)) {
+        throw new Error('Monte Carlo needs at least one iteration');
+    }
+    return iterations;
+}
+
+function isPositiveInteger(n: number): boolean {
+    return Number.isInteger(n) && n >= 1;
+}
+
+function drawInputs<I extends string>(inputs: Record<I, Distribution>, random: RandomSource): Record<I, number> {
+    const entries = (Object.keys(inputs) as I[]).map(key => [key, sampleDistribution(inputs[key], random)]);
+    return Object.fromEntries(entries) as Record<I, number>;
+}
+
+function bandOutputs<O extends string>(outputs: Record<O, number>[]): Record<O, PercentileBand> {
+    const keys = Object.keys(outputs[0]) as O[];
+    const entries = keys.map(key => [key, createPercentileBand(outputs.map(o => o[key]))]);
+    return Object.fromEntries(entries) as Record<O, PercentileBand>;
+}
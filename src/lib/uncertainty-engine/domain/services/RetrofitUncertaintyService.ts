@@ -0,0 +1,153 @@
+/**
+ * RetrofitUncertaintyService - P10 / P50 / P90 bands for a retrofit analysis
+ *
+ * Uncertain inputs:
+ *   Scanned area       lognormal, median = scanned area, σ = scan accuracy
+ *   Runoff coefficient triangular, ± RUNOFF_COEFFICIENT_SPREAD around C
+ *   Design rainfall    lognormal multiplier, median 1, σ = DESIGN_RAINFALL_CV
+ *   Annual rainfall    lognormal, σ = ANNUAL_RAINFALL_CV
+ *
+ * Peak runoff and WQv scale linearly with area, C and rainfall around their
+ * deterministic values (Rational Method, Simple Method). Peak reduction is
+ * the BMP runoff reduction over the sampled area; pollutant removal is
+ * recalculated for every draw.
+ *
+ * @domain uncertainty-engine
+ * @layer domain/services
+ */
+
+import { MonteCarloService } from './MonteCarloService';
+import type { Distribution } from '../valueObjects/Distribution';
+import type { PercentileBand } from '../valueObjects/PercentileBand';
+import {
+    PollutantCalculationService,
+    type BMPSpec
+} from '../../../env-calculator/domain/services/PollutantCalculationService';
+import { BMP_REMOVAL_RATES } from '../../../env-calculator/domain/valueObjects/RemovalRate';
+import {
+    ANNUAL_RAINFALL_CV,
+    DESIGN_RAINFALL_CV,
+    MIN_SCAN_ACCURACY_PERCENT,
+    RUNOFF_COEFFICIENT_SPREAD,
+    UNCALIBRATED_SCAN_ACCURACY_PERCENT
+} from '../../config/uncertaintyDefaults';
+
+/** Scan accuracy as reported by tape calibration (see ScaleCalibrationState) */
+export interface ScanCalibration {
+    /** ±% area error */
+    accuracy: number;
+    isCalibrated: boolean;
+}
+
+export interface RetrofitUncertaintyInput {
+    area_m2: number;
+    calibration: ScanCalibration;
+    runoffCoefficient: number;
+    imperviousPercent: number;
+    /** Deterministic peak runoff (L/s) */
+    peakRunoff_Ls: number;
+    /** Deterministic water quality volume (L) */
+    wqv_L: number;
+    annualRainfall_mm: number;
+    bmps: BMPSpec[];
+    iterations?: number;
+    seed?: number;
+}
+
+export type RetrofitOutput =
+    | 'peakRunoff_Ls'
+    | 'wqv_L'
+    | 'peakReduction_percent'
+    | 'phosphorusRemoved_lb_yr'
+    | 'nitrogenRemoved_lb_yr';
+
+export interface RetrofitUncertaintyResult {
+    readonly iterations: number;
+    /** Area spread used for the scan (±%) */
+    readonly scanAccuracy_percent: number;
+    readonly bands: Readonly<Record<RetrofitOutput, PercentileBand>>;
+}
+
+type RetrofitInputKey = 'areaFactor' | 'runoffCoefficient' | 'rainfallFactor' | 'annualRainfall_mm';
+
+const pollutantService = new PollutantCalculationService();
+
+export class RetrofitUncertaintyService {
+    private readonly monteCarlo = new MonteCarloService();
+
+    /**
+     * Band the hydrology and pollutant results of a retrofit over the input uncertainty
+     */
+    estimate(input: RetrofitUncertaintyInput): RetrofitUncertaintyResult {
+        validate(input);
+        const scanAccuracy = scanAccuracyPercent(input.calibration);
+        const result = this.monteCarlo.run(
+            inputDistributions(input, scanAccuracy),
+            sample => evaluate(input, sample),
+            { iterations: input.iterations, seed: input.seed }
+        );
+
+        return Object.freeze({ ...result, scanAccuracy_percent: scanAccuracy });
+    }
+}
+
+function validate(input: RetrofitUncertaintyInput): void {
+    if (input.area_m2 <= 0) {
+        throw new Error('Catchment area must be positive');
+    }
+    validateRunoffCoefficient(input.runoffCoefficient);
+}
+
+function validateRunoffCoefficient(c: number): void {
+    if (c <= 0 || c > 1) {
+        throw new Error('Runoff coefficient must be between 0 and 1');
+    }
+}
+
+/**
+ * Tape calibration narrows the area spread; an unchecked scan keeps the default
+ */
+export function scanAccuracyPercent(calibration: ScanCalibration): number {
+    if (!calibration.isCalibrated) return UNCALIBRATED_SCAN_ACCURACY_PERCENT;
+    return Math.max(MIN_SCAN_ACCURACY_PERCENT, calibration.accuracy);
+}
+
+function inputDistributions(input: RetrofitUncertaintyInput, scanAccuracy: number): Record<RetrofitInputKey, Distribution> {
+    const c = input.runoffCoefficient;
+    return {
+        areaFactor: { kind: 'lognormal', median: 1, sigma: scanAccuracy / 100 },
+        runoffCoefficient: {
+            kind: 'triangular',
+            min: Math.max(0, c - RUNOFF_COEFFICIENT_SPREAD),
+            mode: c,
+            max: Math.min(1, c + RUNOFF_COEFFICIENT_SPREAD)
+        },
+        rainfallFactor: { kind: 'lognormal', median: 1, sigma: DESIGN_RAINFALL_CV },
+        annualRainfall_mm: { kind: 'lognormal', median: input.annualRainfall_mm, sigma: ANNUAL_RAINFALL_CV }
+    };
+}
+
+function evaluate(input: RetrofitUncertaintyInput, sample: Record<RetrofitInputKey, number>): Record<RetrofitOutput, number> {
+    const area_m2 = input.area_m2 * sample.areaFactor;
+    const runoffScale = sample.areaFactor * (sample.runoffCoefficient / input.runoffCoefficient) * sample.rainfallFactor;
+    const removal = pollutantService.getSLAFSummary({
+        area_m2,
+        imperviousPercent: input.imperviousPercent,
+        annualRainfall_mm: sample.annualRainfall_mm,
+        runoffCoefficient: sample.runoffCoefficient,
+        bmps: input.bmps
+    });
+
+    return {
+        peakRunoff_Ls: input.peakRunoff_Ls * runoffScale,
+        wqv_L: input.wqv_L * runoffScale,
+        peakReduction_percent: peakReduction(input.bmps, area_m2),
+        phosphorusRemoved_lb_yr: removal.totalPhosphorusRemoved_lb_yr,
+        nitrogenRemoved_lb_yr: removal.totalNitrogenRemoved_lb_yr
+    };
+}
+
+function peakReduction(bmps: BMPSpec[], area_m2: number): number {
+    const reduced = bmps.reduce((sum, b) => sum + b.area_m2 * BMP_REMOVAL_RATES[b.type].runoffReduction_percent, 0);
+    return Math.min(100, reduced / area_m2);
+}
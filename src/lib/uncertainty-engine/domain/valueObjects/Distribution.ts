@@ -0,0 +1,66 @@
+/**
+ * Distribution Value Object - input distributions for Monte Carlo sampling
+ *
+ * Sampling is driven by a seeded generator (mulberry32) so analyses are
+ * reproducible. Normal deviates use the Box-Muller transform.
+ *
+ * @domain uncertainty-engine
+ * @layer domain/valueObjects
+ */
+
+export type Distribution =
+    | { readonly kind: 'normal'; readonly mean: number; readonly sd: number }
+    | { readonly kind: 'lognormal'; readonly median: number; readonly sigma: number }
+    | { readonly kind: 'uniform'; readonly min: number; readonly max: number }
+    | { readonly kind: 'triangular'; readonly min: number; readonly mode: number; readonly max: number };
+
+/** Uniform deviates in [0, 1) */
+export type RandomSource = () => number;
+
+type Sampler<K extends Distribution['kind']> = (dist: Extract<Distribution, { kind: K }>, random: RandomSource) => number;
+
+const SAMPLERS: { [K in Distribution['kind']]: Sampler<K> } = {
+    normal: (d, random) => d.mean + d.sd * standardNormal(random),
+    lognormal: (d, random) => d.median * Math.exp(d.sigma * standardNormal(random)),
+    uniform: (d, random) => d.min + (d.max - d.min) * random(),
+    triangular: (d, random) => triangular(d, random())
+};
+
+/**
+ * Seeded uniform generator (mulberry32)
+ */
+export function createSeededRandom(seed: number): RandomSource {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Standard normal deviate (Box-Muller)
+ */
+export function standardNormal(random: RandomSource): number {
+    const u = 1 - random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+/**
+ * Draw one value from a distribution
+ */
+export function sampleDistribution(dist: Distribution, random: RandomSource): number {
+    return (SAMPLERS[dist.kind] as Sampler<Distribution['kind']>)(dist, random);
+}
+
+/** Inverse CDF of the triangular distribution */
+function triangular(d: { min: number; mode: number; max: number }, u: number): number {
+    const range = d.max - d.min;
+    if (range <= 0) return d.mode;
+    const split = (d.mode - d.min) / range;
+    return u < split
+        ? d.min + Math.sqrt(u * range * (d.mode - d.min))
+        : d.max - Math.sqrt((1 - u) * range * (d.max - d.mode));
+}
@@ -0,0 +1,39 @@
+/**
+ * PercentileBand Value Object - P10 / P50 / P90 summary of a sampled output
+ *
+ * Percentiles interpolate linearly between order statistics.
+ *
+ * @domain uncertainty-engine
+ * @layer domain/valueObjects
+ */
+
+export interface PercentileBand {
+    readonly p10: number;
+    readonly p50: number;
+    readonly p90: number;
+}
+
+/**
+ * Percentile (0-100) of a sample by linear interpolation
+ */
+export function percentile(sorted: readonly number[], p: number): number {
+    const rank = (p / 100) * (sorted.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.min(lower + 1, sorted.length - 1);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Summarise a sample as a P10 / P50 / P90 band
+ */
+export function createPercentileBand(samples: readonly number[]): PercentileBand {
+    if (samples.length === 0) {
+        throw new Error('Percentile band needs at least one sample');
+    }
+    const sorted = [...samples].sort((a, b) => a - b);
+    return Object.freeze({
+        p10: percentile(sorted, 10),
+        p50: percentile(sorted, 50),
+        p90: percentile(sorted, 90)
+    });
+}
@@ -0,0 +1,79 @@
+/**
+ * Uncertainty Engine Library
+ *
+ * Monte Carlo propagation of input uncertainty:
+ * - Seeded sampling of normal, lognormal, uniform and triangular inputs
+ * - P10 / P50 / P90 percentile bands of model outputs
+ * - Retrofit bands for peak runoff, WQv, peak reduction and pollutant removal
+ *   from scan accuracy, runoff coefficient range and rainfall spread
+ *
+ * @example
+ * ```typescript
+ * import { createRetrofitUncertaintyService } from '@/lib/uncertainty-engine';
+ *
+ * const service = createRetrofitUncertaintyService();
+ * const result = service.estimate({
+ *   area_m2: 500,
+ *   calibration: { accuracy: 3, isCalibrated: true },
+ *   runoffCoefficient: 0.9,
+ *   imperviousPercent: 100,
+ *   peakRunoff_Ls: 6.25,
+ *   wqv_L: 14000,
+ *   annualRainfall_mm: 1000,
+ *   bmps: [{ type: 'rain_garden', area_m2: 40 }]
+ * });
+ *
+ * console.log(result.bands.peakRunoff_Ls); // { p10, p50, p90 }
+ * ```
+ */
+
+// Domain Layer - Value Objects
+export { createSeededRandom, standardNormal, sampleDistribution } from './domain/valueObjects/Distribution';
+export type { Distribution, RandomSource } from './domain/valueObjects/Distribution';
+
+export { createPercentileBand, percentile } from './domain/valueObjects/PercentileBand';
+export type { PercentileBand } from './domain/valueObjects/PercentileBand';
+
+// Domain Layer - Services
+export { MonteCarloService } from './domain/services/MonteCarloService';
+export type { UncertainModel, MonteCarloOptions, MonteCarloResult } from './domain/services/MonteCarloService';
+
+export { RetrofitUncertaintyService, scanAccuracyPercent } from './domain/services/RetrofitUncertaintyService';
+export type {
+    ScanCalibration,
+    RetrofitUncertaintyInput,
+    RetrofitOutput,
+    RetrofitUncertaintyResult
+} from './domain/services/RetrofitUncertaintyService';
+
+// Config
+export {
+    DEFAULT_ITERATIONS,
+    DEFAULT_SEED,
+    UNCALIBRATED_SCAN_ACCURACY_PERCENT,
+    MIN_SCAN_ACCURACY_PERCENT,
+    RUNOFF_COEFFICIENT_SPREAD,
+    DESIGN_RAINFALL_CV,
+    ANNUAL_RAINFALL_CV
+} from './config/uncertaintyDefaults';
+
+// ============================================================================
+// Factory Functions for Easy Setup
+// ============================================================================
+
+import { MonteCarloService } from './domain/services/MonteCarloService';
+import { RetrofitUncertaintyService } from './domain/services/RetrofitUncertaintyService';
+
+/**
+ * Create a Monte Carlo service instance
+ */
+export function createMonteCarloService(): MonteCarloService {
+    return new MonteCarloService();
+}
+
+/**
+ * Create a retrofit uncertainty service instance
+ */
+export function createRetrofitUncertaintyService(): RetrofitUncertaintyService {
+    return new RetrofitUncertaintyService();
+}
@@ -1,56 +1,155 @@
 /**
- * Saint-Venant PDE Residuals for PINN
- * 
- * Computes the residuals of the governing physical equations.
- * For this browser-based implementation, we rely on Physics-Supervised learning
- * (training on analytical solution) rather than direct PDE residual minimization,
- * while still maintaining auxiliary physical consistency checks.
+ * Kinematic Wave PDE Residuals for PINN
+ *
+ * The network predicts the discharge Q(x, t; rainfall, slope, n) of a plane
+ * PLANE_WIDTH_M wide. Per unit width q = Q / width, Manning gives the depth
+ * h = (q / α)^(3/5) with α = √S / n, and the kinematic wave equation is
+ *
+ *   ∂h/∂t + ∂q/∂x = r − f
+ *
+ * ∂Q/∂x and ∂Q/∂t come from automatic differentiation of the network with
+ * respect to its x and t inputs. The residual is evaluated multiplied through
+ * by the wave celerity c = dq/dh = (5/3) α^(3/5) q^(2/5):
+ *
+ *   c (∂h/∂t + ∂q/∂x − r + f) = ∂q/∂t + c (∂q/∂x − r + f)
+ *
+ * which stays finite on a dry plane, where dh/dq is unbounded.
+ *
+ * Inputs are normalized [x, t, rainfall, slope, manningN] rows.
  */
 
 import * as tf from '@tensorflow/tfjs';
+import { INPUT_KEYS, NORMALIZATION, OUTPUT_SCALE, PLANE_WIDTH_M, type PINNInputKey } from './pinnConstants';
 
-const WIDTH = 10; // Assumed catchment width (m) for unit conversion
+const MM_HR_TO_M_S = 1 / 3_600_000;
+
+/** q (m²/s) per unit of normalized network output */
+const Q_PER_OUTPUT = OUTPUT_SCALE / 1000 / PLANE_WIDTH_M;
+
+/** Celerity floor of a dry plane, so the gradient of q^(2/5) stays finite */
+const DRY_PLANE_Q = 1e-6;
 
 /**
- * Compute the physics loss (PDE residuals)
- * 
- * NOTE: For this version, we are relying on Physics-Supervised learning (training on analytical solution)
- * rather than direct PDE residual minimization, due to TF.js browser limitations.
- * This function handles auxiliary physical constraints:
- * - Consistency between Q and Manning's Equation (implied depth)
+ * Residuals are divided by the heaviest rainfall in the normalized range
+ * times a celerity of 1 m/s, so the physics loss is of order one
  */
-export function computePhysicsLoss(
-    model: tf.Sequential,
-    inputs: tf.Tensor2D
-): tf.Scalar {
+const RESIDUAL_SCALE = NORMALIZATION.rainfall.max * MM_HR_TO_M_S;
+
+/**
+ * Relative weights of the terms in the physics-informed loss
+ */
+export interface LossWeights {
+    data: number;
+    physics: number;
+    initial: number;
+    boundary: number;
+}
+
+export const DEFAULT_LOSS_WEIGHTS: LossWeights = {
+    data: 1,
+    physics: 0.01,
+    initial: 1,
+    boundary: 1,
+};
+
+export interface PhysicsInformedBatch {
+    /** Labelled points and their normalized discharge */
+    inputs: tf.Tensor2D;
+    targets: tf.Tensor2D;
+    /** Unlabelled points at which the PDE is enforced */
+    collocation: tf.Tensor2D;
+    /** Loss rate f (mm/hr); 0 for an impervious plane */
+    infiltration_mm_hr?: number;
+}
+
+export interface PhysicsInformedLoss {
+    total: tf.Scalar;
+    data: tf.Scalar;
+    physics: tf.Scalar;
+    initial: tf.Scalar;
+    boundary: tf.Scalar;
+}
+
+function column(inputs: tf.Tensor2D, name: PINNInputKey): tf.Tensor2D {
+    return inputs.slice([0, INPUT_KEYS.indexOf(name)], [-1, 1]);
+}
+
+function physicalColumn(inputs: tf.Tensor2D, name: PINNInputKey): tf.Tensor2D {
+    const { min, max } = NORMALIZATION[name];
+    return column(inputs, name).mul(max - min).add(min);
+}
+
+/** The inputs with one column held at its normalized value */
+function withColumn(inputs: tf.Tensor2D, name: PINNInputKey, value: number): tf.Tensor2D {
+    const index = INPUT_KEYS.indexOf(name);
+    const columns = tf.split(inputs, INPUT_KEYS.length, 1);
+    columns[index] = tf.zerosLike(columns[index]).add(value) as tf.Tensor2D;
+    return tf.concat(columns, 1) as tf.Tensor2D;
+}
+
+function predict(model: tf.LayersModel, inputs: tf.Tensor2D, training: boolean = false): tf.Tensor2D {
+    return model.apply(inputs, { training }) as tf.Tensor2D;
+}
+
+/**
+ * ∂q/∂x (1/s) and ∂q/∂t (m/s) from the gradient of the output with respect
+ * to the normalized inputs; each row depends only on its own inputs
+ */
+function dischargeGradients(model: tf.LayersModel, inputs: tf.Tensor2D): { dq_dx: tf.Tensor2D; dq_dt: tf.Tensor2D } {
+    const gradient = tf.grad(x => predict(model, x as tf.Tensor2D).sum())(inputs) as tf.Tensor2D;
+    const { x, t } = NORMALIZATION;
+    return {
+        dq_dx: column(gradient, 'x').mul(Q_PER_OUTPUT / (x.max - x.min)),
+        dq_dt: column(gradient, 't').mul(Q_PER_OUTPUT / ((t.max - t.min) * 60)),
+    };
+}
+
+/**
+ * Kinematic wave residual ∂q/∂t + c (∂q/∂x − r + f) at each row, scaled by
+ * RESIDUAL_SCALE
+ */
+export function kinematicWaveResidual(
+    model: tf.LayersModel,
+    inputs: tf.Tensor2D,
+    infiltration_mm_hr: number = 0
+): tf.Tensor2D {
     return tf.tidy(() => {
-        // Split inputs
-        const slope = inputs.slice([0, 3], [-1, 1]); // col 3
-        const n = inputs.slice([0, 4], [-1, 1]); // col 4
-
-        // 1. Predict Q
-        const Q_pred = model.predict(inputs) as tf.Tensor; // L/s
-
-        // Convert Q to m³/s for physics calc
-        const Q_m3s = Q_pred.div(1000);
-
-        // 2. Invert Manning to get A (Area)
-        // Q = (1/n) * A * R^(2/3) * S^0.5
-        // A = (Q * n / (S^0.5 * Width^(2/3)))^(3/5) * Width
-        // Simplified for wide channel logic:
-        const S_sqrt = slope.sqrt();
-        const manning_term = Q_m3s.mul(n).div(WIDTH).div(S_sqrt.add(1e-6)); // add epsilon
-        const h = manning_term.pow(0.6); // ^ 3/5
-
-        // We calculate h to ensure the computational graph for h is valid,
-        // even if we don't explicitly penalize it yet (future expansion).
-        // This prevents "disconnected graph" errors if we add h-based losses later.
-        const nonPhysicalOutcome = h.less(0).cast('float32'); // Should be impossible with softplus Q
-
-        return nonPhysicalOutcome.mean().asScalar();
+        const q = predict(model, inputs).mul(Q_PER_OUTPUT);
+        const alpha = physicalColumn(inputs, 'slope').sqrt().div(physicalColumn(inputs, 'manningN'));
+        const celerity = alpha.pow(0.6).mul(q.add(DRY_PLANE_Q).pow(0.4)).mul(5 / 3);
+        const netRainfall = physicalColumn(inputs, 'rainfall').sub(infiltration_mm_hr).mul(MM_HR_TO_M_S);
+
+        const { dq_dx, dq_dt } = dischargeGradients(model, inputs);
+        return dq_dt.add(celerity.mul(dq_dx.sub(netRainfall))).div(RESIDUAL_SCALE) as tf.Tensor2D;
     });
 }
 
+/**
+ * Compute the physics loss: mean squared kinematic wave residual at the
+ * collocation points
+ */
+export function computePhysicsLoss(
+    model: tf.LayersModel,
+    inputs: tf.Tensor2D,
+    infiltration_mm_hr: number = 0
+): tf.Scalar {
+    return tf.tidy(() => kinematicWaveResidual(model, inputs, infiltration_mm_hr).square().mean().asScalar());
+}
+
+/**
+ * Initial condition loss: the plane is dry when rain starts, Q(x, 0) = 0
+ */
+export function computeInitialConditionLoss(model: tf.LayersModel, inputs: tf.Tensor2D): tf.Scalar {
+    return tf.tidy(() => predict(model, withColumn(inputs, 't', 0)).square().mean().asScalar());
+}
+
+/**
+ * Boundary condition loss: nothing flows in at the top of the plane, Q(0, t) = 0
+ */
+export function computeBoundaryConditionLoss(model: tf.LayersModel, inputs: tf.Tensor2D): tf.Scalar {
+    return tf.tidy(() => predict(model, withColumn(inputs, 'x', 0)).square().mean().asScalar());
+}
+
 /**
  * Supervised Physics Loss
  * Enforces output to match Kinematic Wave analytical solution
@@ -76,3 +175,32 @@ export function computeSupervisedPhysicsLoss(
         return mse.add(negativity.mean()) as tf.Scalar;
     });
 }
+
+/**
+ * Weighted sum of the data misfit, the PDE residual and the initial and
+ * boundary condition losses, with each term for reporting. The caller owns
+ * the returned tensors.
+ *
+ * When training, dropout is active for the data misfit only: the residual
+ * needs the same network for Q and its derivatives, so it constrains the
+ * mean network.
+ */
+export function computePhysicsInformedLoss(
+    model: tf.LayersModel,
+    batch: PhysicsInformedBatch,
+    weights: LossWeights = DEFAULT_LOSS_WEIGHTS,
+    training: boolean = true
+): PhysicsInformedLoss {
+    const data = tf.losses.meanSquaredError(batch.targets, predict(model, batch.inputs, training)) as tf.Scalar;
+    const physics = computePhysicsLoss(model, batch.collocation, batch.infiltration_mm_hr);
+    const initial = computeInitialConditionLoss(model, batch.collocation);
+    const boundary = computeBoundaryConditionLoss(model, batch.collocation);
+
+    const total = tf.addN([
+        data.mul(weights.data),
+        physics.mul(weights.physics),
+        initial.mul(weights.initial),
+        boundary.mul(weights.boundary),
+    ]) as tf.Scalar;
+    return { total, data, physics, initial, boundary };
+}
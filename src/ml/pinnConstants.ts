@@ -11,7 +11,12 @@ export const NORMALIZATION = {
     manningN: { min: 0.01, max: 0.1 },
 };
 
-export function normalize(value: number, key: keyof typeof NORMALIZATION): number {
+export type PINNInputKey = keyof typeof NORMALIZATION;
+
+/** Order of the network's input columns */
+export const INPUT_KEYS = Object.keys(NORMALIZATION) as PINNInputKey[];
+
+export function normalize(value: number, key: PINNInputKey): number {
     const { min, max } = NORMALIZATION[key];
     // Clamp value to min/max before normalizing to ensure 0-1 range
     const clamped = Math.max(min, Math.min(max, value));
@@ -27,3 +32,18 @@ export function normalizeOutput(output: number): number {
 export function denormalizeOutput(normalizedValue: number): number {
     return normalizedValue * OUTPUT_SCALE;
 }
+
+/** Width (m) of the plane the predicted discharge is for */
+export const PLANE_WIDTH_M = 10;
+
+/**
+ * Dropout rate of the hidden layers, kept active at inference for Monte Carlo
+ * dropout; higher rates pull the sampled mean further below the discharge
+ */
+export const DROPOUT_RATE = 0.02;
+
+/** Forward passes with dropout active per prediction */
+export const MC_DROPOUT_SAMPLES = 30;
+
+/** Largest coefficient of variation of the discharge at which the PINN is trusted over the rational method */
+export const MAX_DISCHARGE_CV = 0.25;
@@ -0,0 +1,120 @@
+/**
+ * PINN Input Domain Guard
+ *
+ * The network is only fitted inside the ranges of its training samples
+ * (TRAINING_DOMAIN of syntheticData, or the inputRanges of a registered
+ * model's manifest). Outside them its discharge is an extrapolation with no
+ * physics or data behind it, so each input is checked against its range and,
+ * by policy, the query is either clamped to the nearest trained value and
+ * flagged, or refused.
+ */
+
+import { INPUT_KEYS, type PINNInputKey } from './pinnConstants';
+import type { PINNInput } from './pinnModel';
+import type { InputRange } from './pinnRegistry';
+import { TRAINING_DOMAIN } from './syntheticData';
+
+/** clamp: predict at the nearest trained input and flag it; refuse: throw */
+export type ExtrapolationPolicy = 'clamp' | 'refuse';
+
+export const DEFAULT_EXTRAPOLATION_POLICY: ExtrapolationPolicy = 'clamp';
+
+export type InputDomain = Record<PINNInputKey, InputRange>;
+
+/**
+ * An input outside the range the network was trained on
+ */
+export interface InputExtrapolation {
+    input: PINNInputKey;
+    value: number;
+    min: number;
+    max: number;
+}
+
+export interface GuardedInput {
+    /** The input the network is queried with */
+    input: PINNInput;
+    extrapolated: InputExtrapolation[];
+}
+
+const INPUT_LABELS: Record<PINNInputKey, { label: string; unit: string }> = {
+    x: { label: 'Flow path position', unit: ' m' },
+    t: { label: 'Time', unit: ' min' },
+    rainfall: { label: 'Rainfall intensity', unit: ' mm/hr' },
+    slope: { label: 'Slope', unit: ' m/m' },
+    manningN: { label: "Manning's n", unit: '' },
+};
+
+function refuseExtrapolation(extrapolated: InputExtrapolation[]): void {
+    if (extrapolated.length === 0) return;
+    throw new Error(`PINN inputs outside the training domain: ${extrapolated.map(describeExtrapolation).join('; ')}`);
+}
+
+const POLICY_CHECKS: Record<ExtrapolationPolicy, (extrapolated: InputExtrapolation[]) => void> = {
+    clamp: () => undefined,
+    refuse: refuseExtrapolation,
+};
+
+function inRange(value: number, range: InputRange): boolean {
+    return value >= range.min && value <= range.max;
+}
+
+/**
+ * The inputs outside the domain, in network input order; empty when the
+ * query is an interpolation
+ */
+export function checkInputDomain(input: PINNInput, domain: InputDomain = TRAINING_DOMAIN): InputExtrapolation[] {
+    return INPUT_KEYS
+        .filter(key => !inRange(input[key], domain[key]))
+        .map(key => ({ input: key, value: input[key], min: domain[key].min, max: domain[key].max }));
+}
+
+function clampToDomain(input: PINNInput, domain: InputDomain): PINNInput {
+    const clamped = INPUT_KEYS.map(key => [key, Math.min(domain[key].max, Math.max(domain[key].min, input[key]))]);
+    return Object.fromEntries(clamped) as PINNInput;
+}
+
+/**
+ * Apply the extrapolation policy to a query, throwing when it is refused
+ */
+export function guardInput(
+    input: PINNInput,
+    policy: ExtrapolationPolicy = DEFAULT_EXTRAPOLATION_POLICY,
+    domain: InputDomain = TRAINING_DOMAIN
+): GuardedInput {
+    const extrapolated = checkInputDomain(input, domain);
+    POLICY_CHECKS[policy](extrapolated);
+    return { input: clampToDomain(input, domain), extrapolated };
+}
+
+
+function distanceOutside(extrapolation: InputExtrapolation): number {
+    return Math.max(extrapolation.min - extrapolation.value, extrapolation.value - extrapolation.max);
+}
+
+/**
+ * One extrapolation per input, the one farthest outside its range, from
+ * the extrapolations of a batch of queries
+ */
+export function farthestExtrapolations(extrapolations: InputExtrapolation[]): InputExtrapolation[] {
+    const farthest = new Map<PINNInputKey, InputExtrapolation>();
+    extrapolations.forEach(e => {
+        const current = farthest.get(e.input);
+        if (!current || distanceOutside(e) > distanceOutside(current)) farthest.set(e.input, e);
+    });
+    return INPUT_KEYS.filter(key => farthest.has(key)).map(key => farthest.get(key)!);
+}
+
+function formatValue(value: number): string {
+    return String(Number(value.toPrecision(3)));
+}
+
+/**
+ * Human-readable warning, e.g. "Rainfall intensity 180 mm/hr is outside the
+ * trained range 10–100 mm/hr"
+ */
+export function describeExtrapolation(extrapolation: InputExtrapolation): string {
+    const { label, unit } = INPUT_LABELS[extrapolation.input];
+    const range = `${formatValue(extrapolation.min)}–${formatValue(extrapolation.max)}${unit}`;
+    return `${label} ${formatValue(extrapolation.value)}${unit} is outside the trained range ${range}`;
+}
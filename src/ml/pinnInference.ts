@@ -3,17 +3,69 @@
  * 
  * Handles loading the pre-trained Physics-Informed Neural Network
  * and running high-speed inference on the client device.
+ * Only a model whose registry manifest verifies is used; otherwise the
+ * engine reports why and callers fall back to the rational method.
  */
 
 import * as tf from '@tensorflow/tfjs';
-import { createPINNModel, type PINNInput, type PINNOutput } from './pinnModel';
-import { normalize, OUTPUT_SCALE } from './pinnConstants';
+import type { PINNInput, PINNOutput } from './pinnModel';
+import { PLANE_WIDTH_M, normalize } from './pinnConstants';
+import { loadRegisteredModel, type PINNModelManifest, type RegisteredModel } from './pinnRegistry';
+import { confidenceFromSpread, isConfidentDischarge, sampleDischarge } from './pinnUncertainty';
+import {
+    DEFAULT_EXTRAPOLATION_POLICY,
+    checkInputDomain,
+    farthestExtrapolations,
+    guardInput,
+    type ExtrapolationPolicy,
+    type InputExtrapolation
+} from './pinnDomain';
 import { computePeakRunoff } from '../utils/hydrology';
+import { createHydrograph, type Hydrograph } from '../lib/hydrology-engine';
 
-const MODEL_URL = '/models/pinn_runoff/model.json';
+export interface PINNModelStatus {
+    loaded: boolean;
+    manifest: PINNModelManifest | null;
+    /** Why the model could not be loaded */
+    error: string | null;
+}
+
+/**
+ * A storm over a plane, evaluated through time at the downstream edge and
+ * along the flow path at one instant
+ */
+export interface PINNHydrographRequest {
+    rainfall: number;          // Rainfall intensity (mm/hr)
+    slope: number;             // Surface slope (m/m)
+    manningN: number;          // Manning's roughness coefficient
+    length_m: number;          // Flow path length; the hydrograph is at this downstream edge
+    duration_min: number;      // End of the hydrograph
+    timeStep_min: number;      // Time step of the hydrograph
+    profileStations: number;   // Evenly spaced stations of the depth profile, both edges included
+    profileTime_min?: number;  // Time of the depth profile; the end of the hydrograph by default
+}
+
+export interface PINNHydrographResult {
+    /** Monte Carlo dropout mean discharge leaving the plane */
+    hydrograph: Hydrograph;
+    /** Standard deviation of each hydrograph discharge (L/s) */
+    hydrographStd_Ls: number[];
+    profileTime_min: number;
+    /** Distance of each profile station from the upstream edge (m) */
+    stations_m: number[];
+    depthProfile_mm: number[];
+    dischargeProfile_Ls: number[];
+    modelVersion: string;
+    /** Inputs outside the training ranges, each at its farthest value */
+    extrapolated: InputExtrapolation[];
+}
+
+/** Largest number of hydrograph steps or profile stations per request */
+export const MAX_HYDROGRAPH_POINTS = 1440;
 
 // Singleton model instance
-let loadedModel: tf.LayersModel | tf.Sequential | null = null;
+let loadedModel: RegisteredModel | null = null;
+let loadError: string | null = null;
 let isLoading = false;
 
 
@@ -31,16 +83,19 @@ export async function initPINNEngine(): Promise<boolean> {
     }
 }
 
-async function tryLoadModel(): Promise<tf.LayersModel | tf.Sequential | null> {
+async function tryLoadModel(): Promise<RegisteredModel | null> {
     try {
-        const model = await tf.loadLayersModel(MODEL_URL);
-        return model;
-    } catch {
-        return await createPINNModel();
+        const registered = await loadRegisteredModel();
+        loadError = null;
+        return registered;
+    } catch (e) {
+        loadError = (e as Error).message;
+        console.warn(`PINN model unavailable, using the rational method: ${loadError}`);
+        return null;
     }
 }
 
-async function warmupModel(model: tf.LayersModel | tf.Sequential): Promise<void> {
+async function warmupModel(model: tf.LayersModel): Promise<void> {
     const dummyInput = tf.zeros([1, 5]);
     const warmup = model.predict(dummyInput) as tf.Tensor;
     warmup.dispose();
@@ -48,25 +103,32 @@ async function warmupModel(model: tf.LayersModel | tf.Sequential): Promise<void>
 }
 
 /**
- * Load the PINN model if not already loaded
+ * Load the PINN model if not already loaded; a failed load is retried on the
+ * next call, and its error is reported until a load succeeds
  */
 export async function loadModel(): Promise<boolean> {
     if (loadedModel) return true;
-    if (isLoading) return false;
-    return performLoad();
+    return isLoading ? false : performLoad();
 }
 
 async function performLoad(): Promise<boolean> {
     isLoading = true;
     try {
         loadedModel = await tryLoadModel();
-        if (loadedModel) await warmupModel(loadedModel);
+        if (loadedModel) await warmupModel(loadedModel.model);
     } finally {
         isLoading = false;
     }
     return !!loadedModel;
 }
 
+/**
+ * Which model is loaded, or why none is
+ */
+export function getPINNModelStatus(): PINNModelStatus {
+    return { loaded: loadedModel !== null, manifest: loadedModel?.manifest ?? null, error: loadError };
+}
+
 function normalizeInput(input: PINNInput): number[] {
     return [
         normalize(input.x, 'x'),
@@ -78,71 +140,189 @@ function normalizeInput(input: PINNInput): number[] {
 }
 
 /**
- * Run PINN inference for a single input scenario
+ * Run PINN inference for a single input scenario; inputs outside the
+ * model's training ranges are clamped and flagged or refused by policy
  */
-export async function runPINNInference(input: PINNInput): Promise<PINNOutput> {
-    if (!loadedModel && !(await loadModel())) {
-        throw new Error('PINN model not available');
+export async function runPINNInference(
+    input: PINNInput,
+    policy: ExtrapolationPolicy = DEFAULT_EXTRAPOLATION_POLICY
+): Promise<PINNOutput> {
+    const { model, manifest } = await requireModel();
+    const guarded = guardInput(input, policy, manifest.inputRanges);
+    const estimate = sampleDischarge(model, [normalizeInput(guarded.input)]);
+    return buildOutput({ discharge: estimate.mean[0], std: estimate.std[0] }, input, manifest.version, guarded.extrapolated);
+}
+
+/**
+ * Run PINN inference for a whole hydrograph and depth profile in one batch
+ */
+export async function runPINNHydrograph(
+    request: PINNHydrographRequest,
+    policy: ExtrapolationPolicy = DEFAULT_EXTRAPOLATION_POLICY
+): Promise<PINNHydrographResult> {
+    return predictHydrograph(await requireModel(), request, policy);
+}
+
+/**
+ * Evaluate the outlet hydrograph and the longitudinal profile of a registered
+ * model as a single tensor of [x, t, rainfall, slope, manningN] rows
+ */
+export function predictHydrograph(
+    registered: RegisteredModel,
+    request: PINNHydrographRequest,
+    policy: ExtrapolationPolicy = DEFAULT_EXTRAPOLATION_POLICY
+): PINNHydrographResult {
+    const { model, manifest } = registered;
+    const times = hydrographTimes(request);
+    const stations = profileStations(request);
+    const profileTime_min = request.profileTime_min ?? times[times.length - 1];
+    const points = [
+        ...times.map(t => scenarioPoint(request, request.length_m, t)),
+        ...stations.map(x => scenarioPoint(request, x, profileTime_min)),
+    ];
+
+    const guarded = points.map(point => guardInput(point, policy, manifest.inputRanges));
+    const estimate = sampleDischarge(model, guarded.map(g => normalizeInput(g.input)));
+    const outputs = points.map((point, i) => buildOutput({ discharge: estimate.mean[i], std: estimate.std[i] }, point, manifest.version, []));
+    const outlet = outputs.slice(0, times.length);
+    const profile = outputs.slice(times.length);
+
+    return {
+        hydrograph: createHydrograph(request.timeStep_min, outlet.map(o => o.discharge)),
+        hydrographStd_Ls: outlet.map(o => o.dischargeStd!),
+        profileTime_min,
+        stations_m: stations,
+        depthProfile_mm: profile.map(o => o.depth),
+        dischargeProfile_Ls: profile.map(o => o.discharge),
+        modelVersion: manifest.version,
+        extrapolated: farthestExtrapolations(guarded.flatMap(g => g.extrapolated)),
+    };
+}
+
+function hydrographTimes({ duration_min, timeStep_min }: PINNHydrographRequest): number[] {
+    const steps = Math.floor(duration_min / timeStep_min);
+    if (!(steps >= 0 && steps < MAX_HYDROGRAPH_POINTS)) {
+        throw new Error(`A hydrograph needs a positive time step and at most ${MAX_HYDROGRAPH_POINTS} steps`);
     }
+    return Array.from({ length: steps + 1 }, (_, i) => i * timeStep_min);
+}
 
-    const discharge = tf.tidy(() => {
-        const inputTensor = tf.tensor2d([normalizeInput(input)]);
-        const outputTensor = loadedModel!.predict(inputTensor) as tf.Tensor;
-        return outputTensor.dataSync()[0] * OUTPUT_SCALE; // Denormalization
-    });
+function profileStations({ length_m, profileStations: count }: PINNHydrographRequest): number[] {
+    if (!(count >= 2 && count <= MAX_HYDROGRAPH_POINTS)) {
+        throw new Error(`A depth profile needs 2 to ${MAX_HYDROGRAPH_POINTS} stations`);
+    }
+    return Array.from({ length: count }, (_, i) => i * length_m / (count - 1));
+}
+
+function scenarioPoint(request: PINNHydrographRequest, x: number, t: number): PINNInput {
+    return { x, t, rainfall: request.rainfall, slope: request.slope, manningN: request.manningN };
+}
 
-    return buildOutput(discharge, input);
+async function requireModel(): Promise<RegisteredModel> {
+    if (!loadedModel && !(await loadModel())) {
+        throw new Error('PINN model not available');
+    }
+    return loadedModel!;
 }
 
-function buildOutput(discharge: number, input: PINNInput): PINNOutput {
+function buildOutput(
+    estimate: { discharge: number; std: number },
+    input: PINNInput,
+    modelVersion: string,
+    extrapolated: InputExtrapolation[]
+): PINNOutput {
+    const dry = input.t <= 0;
+    const discharge = dry ? 0 : Math.max(0, estimate.discharge);
+    const dischargeStd = dry ? 0 : estimate.std;
     const depthM = calculateDepthM(discharge, input);
-    const velocity = calculateVelocity(discharge, depthM);
-    const actualDischarge = input.t <= 0 ? 0 : Math.max(0, discharge);
 
     return {
-        discharge: actualDischarge,
+        discharge,
+        dischargeStd,
         depth: depthM * 1000,
-        velocity,
-        confidence: 0.92,
-        isPINNPrediction: true
+        velocity: calculateVelocity(discharge, depthM),
+        confidence: confidenceFromSpread(discharge, dischargeStd),
+        isPINNPrediction: true,
+        modelVersion,
+        extrapolated
     };
 }
 
 function calculateDepthM(discharge: number, input: PINNInput): number {
     if (discharge <= 0.001) return 0;
-    const width = 10;
     const numerator = discharge / 1000 * input.manningN;
-    const denominator = width * Math.sqrt(input.slope);
+    const denominator = PLANE_WIDTH_M * Math.sqrt(input.slope);
     return Math.pow(numerator / denominator, 0.6);
 }
 
 function calculateVelocity(discharge: number, depthM: number): number {
     if (depthM <= 0) return 0;
-    return (discharge / 1000) / (10 * depthM);
+    return (discharge / 1000) / (PLANE_WIDTH_M * depthM);
 }
 
-function isSanePrediction(pinn: number, rational: number): boolean {
-    return pinn <= rational * 3 && pinn >= rational * 0.2;
+/**
+ * Peak runoff of a catchment and the method that produced it
+ */
+export interface RobustRunoffEstimate {
+    discharge: number;
+    isPINNPrediction: boolean;
+    /** Version of the model behind a PINN prediction, null for the rational method */
+    modelVersion: string | null;
 }
 
 /**
- * Robust Hybrid Prediction
+ * Robust Hybrid Prediction: the PINN mean when its Monte Carlo dropout
+ * spread is within MAX_DISCHARGE_CV, the rational method otherwise
+ */
+export async function getRobustRunoffEstimate(
+    rainfall: number,
+    area: number,
+    slope: number = 0.02,
+    policy: ExtrapolationPolicy = DEFAULT_EXTRAPOLATION_POLICY
+): Promise<RobustRunoffEstimate> {
+    const rational: RobustRunoffEstimate = { discharge: computePeakRunoff(rainfall, area), isPINNPrediction: false, modelVersion: null };
+    return tryPINN(robustInput(rainfall, slope), area, policy).then(pinn => pinn ?? rational);
+}
+
+/**
+ * Peak runoff (L/s) of getRobustRunoffEstimate
  */
 export async function getRobustRunoffPrediction(
     rainfall: number,
     area: number,
-    slope: number = 0.02
+    slope: number = 0.02,
+    policy: ExtrapolationPolicy = DEFAULT_EXTRAPOLATION_POLICY
 ): Promise<number> {
-    const rational = computePeakRunoff(rainfall, area);
-    const input: PINNInput = { x: 100, t: 60, rainfall, slope, manningN: 0.015 };
-    return tryPINN(input, rational);
+    return (await getRobustRunoffEstimate(rainfall, area, slope, policy)).discharge;
 }
 
-async function tryPINN(input: PINNInput, rational: number): Promise<number> {
+/**
+ * Inputs of getRobustRunoffPrediction outside the loaded model's training
+ * ranges, which its result extrapolates under the clamp policy; empty while
+ * no model is loaded, as the rational method answers then
+ */
+export function robustPredictionExtrapolation(rainfall: number, slope: number = 0.02): InputExtrapolation[] {
+    return loadedModel ? checkInputDomain(robustInput(rainfall, slope), loadedModel.manifest.inputRanges) : [];
+}
+
+/** Flow path length (m) of the plane the robust prediction samples */
+const ROBUST_PLANE_LENGTH_M = 100;
+
+function robustInput(rainfall: number, slope: number): PINNInput {
+    return { x: ROBUST_PLANE_LENGTH_M, t: 60, rainfall, slope, manningN: 0.015 };
+}
+
+/**
+ * The PINN outlet discharge of the sampled plane, scaled to the catchment
+ * area, or null when it is unavailable or too uncertain
+ */
+async function tryPINN(input: PINNInput, area: number, policy: ExtrapolationPolicy): Promise<RobustRunoffEstimate | null> {
     try {
-        const pinn = await runPINNInference(input);
-        return isSanePrediction(pinn.discharge, rational) ? pinn.discharge : rational;
+        const pinn = await runPINNInference(input, policy);
+        if (!isConfidentDischarge(pinn.discharge, pinn.dischargeStd!)) return null;
+        const discharge = pinn.discharge * area / (ROBUST_PLANE_LENGTH_M * PLANE_WIDTH_M);
+        return { discharge, isPINNPrediction: true, modelVersion: pinn.modelVersion };
     } catch {
-        return rational;
+        return null;
     }
 }
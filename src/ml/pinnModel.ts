@@ -1,6 +1,10 @@
 import * as tf from '@tensorflow/tfjs';
 import { computePeakRunoff } from '../utils/hydrology';
-import { normalize, denormalizeOutput } from './pinnConstants';
+import { normalize, DROPOUT_RATE } from './pinnConstants';
+import { UNTRAINED_MODEL_VERSION } from './pinnRegistry';
+import { confidenceFromSpread, isConfidentDischarge, sampleDischarge, type DischargeEstimate } from './pinnUncertainty';
+import { DEFAULT_EXTRAPOLATION_POLICY, guardInput, type ExtrapolationPolicy, type InputExtrapolation } from './pinnDomain';
+import { runPINNInference } from './pinnInference';
 
 let isTfInitialized = false;
 
@@ -41,11 +45,14 @@ export interface PINNInput {
 }
 
 export interface PINNOutput {
-    discharge: number;    // Predicted discharge Q (L/s)
+    discharge: number;    // Predicted discharge Q (L/s), the Monte Carlo dropout mean
+    dischargeStd: number | null; // Standard deviation of Q (L/s), null for the rational method
     depth: number;        // Predicted water depth h (mm)
     velocity: number;     // Flow velocity (m/s)
-    confidence: number;   // Model confidence (0-1)
+    confidence: number;   // Model confidence (0-1), 1 / (1 + CV) for the PINN
     isPINNPrediction: boolean;
+    modelVersion: string | null; // Registry version of the network, null for the rational method
+    extrapolated: InputExtrapolation[]; // Inputs outside the training domain that were clamped, empty for the rational method
 }
 
 export interface KinematicWaveParams {
@@ -83,10 +90,13 @@ export async function createPINNModel(): Promise<tf.Sequential> {
         inputShape: [5],
         kernelInitializer: 'glorotNormal',
     }));
+    model.add(tf.layers.dropout({ rate: DROPOUT_RATE }));
 
-    model.add(tf.layers.dense({ units: 64, activation: 'tanh', kernelInitializer: 'glorotNormal' }));
-    model.add(tf.layers.dense({ units: 64, activation: 'tanh', kernelInitializer: 'glorotNormal' }));
-    model.add(tf.layers.dense({ units: 32, activation: 'tanh', kernelInitializer: 'glorotNormal' }));
+    // Dropout after each hidden layer is kept active at inference (Monte Carlo dropout)
+    [64, 64, 32].forEach(units => {
+        model.add(tf.layers.dense({ units, activation: 'tanh', kernelInitializer: 'glorotNormal' }));
+        model.add(tf.layers.dropout({ rate: DROPOUT_RATE }));
+    });
 
     model.add(tf.layers.dense({
         units: 1,
@@ -124,10 +134,6 @@ export async function getModel(): Promise<tf.Sequential> {
 
 // ============ Normalization ============
 
-function denormalizeDischarge(value: number): number {
-    return denormalizeOutput(value);
-}
-
 function calculateDepthAndVelocity(discharge: number, input: PINNInput): { depth: number; velocity: number } {
     const alpha = Math.sqrt(input.slope) / input.manningN;
     const depth = discharge > 0 ? Math.pow(discharge / alpha, 0.6) * 1000 : 0;
@@ -148,29 +154,36 @@ function getNormalizedInputArray(input: PINNInput): number[] {
 // ============ Prediction ============
 
 /**
- * Predict runoff discharge using the PINN model
+ * Predict runoff discharge using the in-memory PINN model; its output is
+ * reported as UNTRAINED_MODEL_VERSION (see pinnInference for the published model).
+ * Inputs outside the training domain are handled by the extrapolation policy.
  */
-export async function predictRunoff(input: PINNInput): Promise<PINNOutput> {
+export async function predictRunoff(
+    input: PINNInput,
+    policy: ExtrapolationPolicy = DEFAULT_EXTRAPOLATION_POLICY
+): Promise<PINNOutput> {
+    const guarded = guardInput(input, policy);
     const model = await getModel();
-    const inputTensor = tf.tensor2d([getNormalizedInputArray(input)]);
-    const outputTensor = model.predict(inputTensor) as tf.Tensor;
-    const rawOutput = outputTensor.dataSync()[0];
-
-    inputTensor.dispose();
-    outputTensor.dispose();
-
-    const discharge = input.t <= 0 ? 0 : denormalizeDischarge(rawOutput);
+    const { discharge, dischargeStd } = dischargeAtTime(sampleDischarge(model, [getNormalizedInputArray(guarded.input)]), input.t);
     const { depth, velocity } = calculateDepthAndVelocity(discharge, input);
 
     return {
         discharge,
+        dischargeStd,
         depth,
         velocity,
-        confidence: 0.85,
+        confidence: confidenceFromSpread(discharge, dischargeStd),
         isPINNPrediction: true,
+        modelVersion: UNTRAINED_MODEL_VERSION,
+        extrapolated: guarded.extrapolated,
     };
 }
 
+/** No flow before the rain starts */
+function dischargeAtTime(estimate: DischargeEstimate, t: number): { discharge: number; dischargeStd: number } {
+    return t <= 0 ? { discharge: 0, dischargeStd: 0 } : { discharge: estimate.mean[0], dischargeStd: estimate.std[0] };
+}
+
 /**
  * Compute the kinematic wave analytical solution
  */
@@ -199,21 +212,20 @@ export function computeKinematicWaveSolution(params: KinematicWaveParams): Kinem
 export const computeRationalMethod = computePeakRunoff;
 
 /**
- * Get runoff prediction with PINN, falling back to rational method
+ * Get runoff prediction from the published PINN, falling back to rational
+ * method when no verified model loads or its prediction is too uncertain.
+ * The in-memory network above is untrained and never sampled here.
  */
 export async function getHybridPrediction(input: PINNInput, area: number = 100): Promise<PINNOutput> {
     try {
-        const pinn = await predictRunoff(input);
-        const rational = computeRationalMethod(input.rainfall, area);
-        return decidePinnUsage(pinn, rational, input, area);
+        return decidePinnUsage(await runPINNInference(input), input, area);
     } catch {
         return getFallbackResult(input.rainfall, area, 0.3);
     }
 }
 
-function decidePinnUsage(pinn: PINNOutput, rational: number, input: PINNInput, area: number): PINNOutput {
-    const ratio = pinn.discharge / rational;
-    if (ratio > 0.3 && ratio < 3.0) return pinn;
+function decidePinnUsage(pinn: PINNOutput, input: PINNInput, area: number): PINNOutput {
+    if (isConfidentDischarge(pinn.discharge, pinn.dischargeStd ?? Infinity)) return pinn;
     return getFallbackResult(input.rainfall, area, 0.5);
 }
 
@@ -222,7 +234,10 @@ function getFallbackResult(rainfall: number, area: number, confidence: number):
         discharge: computeRationalMethod(rainfall, area),
         depth: 0,
         velocity: 0,
+        dischargeStd: null,
         confidence,
         isPINNPrediction: false,
+        modelVersion: null,
+        extrapolated: [],
     };
 }
@@ -0,0 +1,44 @@
+/**
+ * PINN Model Files (Node)
+ *
+ * Loads a published model straight from its directory on disk, for the API
+ * server and tests, where no web server hosts /models/pinn_runoff. The
+ * manifest is verified exactly as the browser loader does.
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { verifyManifest, type RegisteredModel } from './pinnRegistry';
+
+async function readModelFile(file: string): Promise<Buffer> {
+    try {
+        return await readFile(file);
+    } catch {
+        throw new Error(`PINN model file not found at ${file}`);
+    }
+}
+
+async function readJson(file: string): Promise<unknown> {
+    return JSON.parse((await readModelFile(file)).toString('utf8'));
+}
+
+async function readWeights(directory: string, modelJson: tf.io.ModelJSON): Promise<ArrayBuffer> {
+    const paths = modelJson.weightsManifest.flatMap(group => group.paths);
+    const weights = Buffer.concat(await Promise.all(paths.map(file => readModelFile(path.join(directory, file)))));
+    return weights.buffer.slice(weights.byteOffset, weights.byteOffset + weights.byteLength) as ArrayBuffer;
+}
+
+/**
+ * Load the model published in a directory after verifying its manifest
+ */
+export async function loadRegisteredModelFromFiles(directory: string): Promise<RegisteredModel> {
+    const manifest = verifyManifest(await readJson(path.join(directory, 'manifest.json')));
+    const modelJson = await readJson(path.join(directory, 'model.json')) as tf.io.ModelJSON;
+    const model = await tf.loadLayersModel(tf.io.fromMemory({
+        modelTopology: modelJson.modelTopology,
+        weightSpecs: modelJson.weightsManifest.flatMap(group => group.weights),
+        weightData: await readWeights(directory, modelJson),
+    }));
+    return { model, manifest };
+}
@@ -0,0 +1,164 @@
+/**
+ * PINN Model Registry
+ *
+ * A trained model is published as model.json + weights.bin with a
+ * manifest.json beside it recording the model version, the normalization it
+ * was trained with, a hash of its training dataset, its validation metrics and
+ * the input ranges it saw in training. The loader refuses a model whose
+ * manifest is missing or does not match the constants this build normalizes
+ * with, so an untrained or mismatched network is never used silently.
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { DROPOUT_RATE, INPUT_KEYS, NORMALIZATION, OUTPUT_SCALE, PLANE_WIDTH_M, type PINNInputKey } from './pinnConstants';
+import type { TrainingSample } from './syntheticData';
+
+export const PINN_MODEL_DIR = '/models/pinn_runoff';
+
+export const MANIFEST_SCHEMA_VERSION = 2;
+
+/** Version reported for the in-memory, untrained network of createPINNModel */
+export const UNTRAINED_MODEL_VERSION = 'untrained';
+
+export interface InputRange {
+    min: number;
+    max: number;
+}
+
+/**
+ * Final validation losses of the training run (see TrainingState)
+ */
+export interface ValidationMetrics {
+    valLoss: number;
+    physicsLoss: number;
+    initialLoss: number;
+    boundaryLoss: number;
+}
+
+export interface PINNModelManifest {
+    schemaVersion: number;
+    version: string;
+    /** ISO timestamp of the end of training */
+    trainedAt: string;
+    inputOrder: PINNInputKey[];
+    normalization: Record<PINNInputKey, InputRange>;
+    /** Discharge (L/s) of a network output of 1 */
+    outputScale: number;
+    planeWidth_m: number;
+    /** Monte Carlo dropout rate of the hidden layers */
+    dropoutRate: number;
+    /** FNV-1a hash of the training samples */
+    datasetHash: string;
+    trainingSamples: number;
+    validation: ValidationMetrics;
+    /** Smallest and largest value of each input in the training samples */
+    inputRanges: Record<PINNInputKey, InputRange>;
+}
+
+export interface RegisteredModel {
+    model: tf.LayersModel;
+    manifest: PINNModelManifest;
+}
+
+type ManifestCheck = [(manifest: PINNModelManifest) => boolean, string];
+
+const MANIFEST_CHECKS: ManifestCheck[] = [
+    [m => m.schemaVersion === MANIFEST_SCHEMA_VERSION, `schema version is not ${MANIFEST_SCHEMA_VERSION}`],
+    [m => typeof m.version === 'string' && m.version !== UNTRAINED_MODEL_VERSION, 'no model version'],
+    [m => sameList(m.inputOrder, INPUT_KEYS), `inputs are not ordered ${INPUT_KEYS.join(', ')}`],
+    [m => INPUT_KEYS.every(key => sameRange(m.normalization?.[key], NORMALIZATION[key])), 'normalization differs from pinnConstants'],
+    [m => m.outputScale === OUTPUT_SCALE, `output scale is not ${OUTPUT_SCALE} L/s`],
+    [m => m.planeWidth_m === PLANE_WIDTH_M, `plane width is not ${PLANE_WIDTH_M} m`],
+    [m => m.dropoutRate === DROPOUT_RATE, `dropout rate is not ${DROPOUT_RATE}, so its uncertainty cannot be sampled`],
+    [m => typeof m.datasetHash === 'string' && m.datasetHash.length > 0, 'no training dataset hash'],
+    [m => Object.values(m.validation ?? {}).length > 0 && Object.values(m.validation).every(Number.isFinite), 'no validation metrics'],
+    [m => INPUT_KEYS.every(key => isRange(m.inputRanges?.[key])), 'no valid input ranges'],
+];
+
+function sameList(a: unknown, b: readonly string[]): boolean {
+    return Array.isArray(a) && a.length === b.length && a.every((v, i) => v === b[i]);
+}
+
+function sameRange(range: InputRange | undefined, expected: InputRange): boolean {
+    return range?.min === expected.min && range.max === expected.max;
+}
+
+function isRange(range: InputRange | undefined): boolean {
+    return [range?.min, range?.max].every(Number.isFinite);
+}
+
+/**
+ * Reasons a manifest is incompatible with this build; empty when it is usable
+ */
+export function manifestProblems(manifest: PINNModelManifest): string[] {
+    return MANIFEST_CHECKS.filter(([passes]) => !passes(manifest)).map(([, problem]) => problem);
+}
+
+/**
+ * Check parsed manifest JSON, throwing with every problem found
+ */
+export function verifyManifest(json: unknown): PINNModelManifest {
+    const manifest = asManifestObject(json);
+    const problems = manifestProblems(manifest);
+    if (problems.length > 0) throw new Error(`Incompatible PINN model manifest: ${problems.join('; ')}`);
+    return manifest;
+}
+
+function asManifestObject(json: unknown): PINNModelManifest {
+    if (typeof json !== 'object' || json === null) throw new Error('PINN model manifest is not an object');
+    return json as PINNModelManifest;
+}
+
+/**
+ * FNV-1a hash of the sample inputs and outputs, as 8 hex digits
+ */
+export function datasetHash(samples: TrainingSample[]): string {
+    let hash = 0x811c9dc5;
+    for (const char of samples.map(s => [...s.inputs, s.output].join(',')).join(';')) {
+        hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function inputRanges(samples: TrainingSample[]): Record<PINNInputKey, InputRange> {
+    const entries = INPUT_KEYS.map((key, i) => {
+        const values = samples.map(s => s.inputs[i]);
+        return [key, { min: values.reduce((a, b) => Math.min(a, b)), max: values.reduce((a, b) => Math.max(a, b)) }];
+    });
+    return Object.fromEntries(entries);
+}
+
+/**
+ * Manifest of a model trained on the samples with the current constants
+ */
+export function buildManifest(version: string, samples: TrainingSample[], validation: ValidationMetrics): PINNModelManifest {
+    return {
+        schemaVersion: MANIFEST_SCHEMA_VERSION,
+        version,
+        trainedAt: new Date().toISOString(),
+        inputOrder: [...INPUT_KEYS],
+        normalization: { ...NORMALIZATION },
+        outputScale: OUTPUT_SCALE,
+        planeWidth_m: PLANE_WIDTH_M,
+        dropoutRate: DROPOUT_RATE,
+        datasetHash: datasetHash(samples),
+        trainingSamples: samples.length,
+        validation,
+        inputRanges: inputRanges(samples),
+    };
+}
+
+async function fetchManifest(url: string): Promise<unknown> {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`PINN model manifest not found at ${url} (HTTP ${response.status})`);
+    return response.json();
+}
+
+/**
+ * Load the published model after verifying its manifest
+ */
+export async function loadRegisteredModel(directory: string = PINN_MODEL_DIR): Promise<RegisteredModel> {
+    const manifest = verifyManifest(await fetchManifest(`${directory}/manifest.json`));
+    const model = await tf.loadLayersModel(`${directory}/model.json`);
+    return { model, manifest };
+}
@@ -1,123 +1,168 @@
 /**
  * PINN Trainer
- * 
+ *
  * Manages the training loop for the neural network.
- * Uses "Physics-Supervised" learning where the model learns to approximate
- * the kinematic wave analytical solution across the parameter space.
+ * Each step minimises a weighted sum of the misfit to the numerical kinematic
+ * wave solution and the PDE residual at fresh random collocation points, plus
+ * the dry-start initial condition and the no-inflow upstream boundary
+ * condition (see pdeResiduals).
  */
 
 import * as tf from '@tensorflow/tfjs';
 import { getModel } from './pinnModel';
-import { generateTrainingData, splitDataset } from './syntheticData';
+import { INPUT_KEYS, normalize, normalizeOutput } from './pinnConstants';
+import { DEFAULT_LOSS_WEIGHTS, computePhysicsInformedLoss, type LossWeights, type PhysicsInformedBatch } from './pdeResiduals';
+import { generateCollocationPoints, generateTrainingData, splitDataset, type TrainingSample } from './syntheticData';
 
 // Training Hyperparameters
 const BATCH_SIZE = 64;
 const EPOCHS = 50;
 const LEARNING_RATE = 0.001;
 
+/** Collocation points per labelled sample */
+const COLLOCATION_RATIO = 0.5;
+
 /**
  * State of the current training session
  */
 export interface TrainingState {
     epoch: number;
+    /** Mean weighted loss over the epoch's batches */
     loss: number;
+    /** Validation data misfit (MSE of the normalized discharge) */
     valLoss: number;
+    /** Unweighted validation loss terms */
+    physicsLoss: number;
+    initialLoss: number;
+    boundaryLoss: number;
     isTraining: boolean;
 }
 
+export interface TrainingOptions {
+    epochs?: number;
+    batchSize?: number;
+    learningRate?: number;
+    /** Overrides of DEFAULT_LOSS_WEIGHTS */
+    weights?: Partial<LossWeights>;
+    /** Loss rate f in the PDE residual (mm/hr) */
+    infiltration_mm_hr?: number;
+    /** Labelled samples; freshly generated by default */
+    samples?: TrainingSample[];
+}
+
+interface TrainingSettings extends Required<Omit<TrainingOptions, 'samples'>> {
+    weights: LossWeights;
+}
+
 type TrainingCallback = (state: TrainingState) => void;
 
 /**
- * Train the PINN model
+ * Train the PINN model, returning the state after each epoch
  */
 export async function trainModel(
-    onEpochEnd?: TrainingCallback
-): Promise<tf.History> {
+    onEpochEnd?: TrainingCallback,
+    options: TrainingOptions = {}
+): Promise<TrainingState[]> {
     const model = await getModel();
+    const settings = trainingSettings(options);
 
-    // 1. Generate Data
     console.log('Generating physics-based training data...');
-    const dataset = generateTrainingData();
-    const { train, val } = splitDataset(dataset.samples, 0.8);
+    const { train, val } = splitDataset(options.samples ?? generateTrainingData().samples, 0.8);
+    const trainSet = toBatch(train, settings.infiltration_mm_hr);
+    const valSet = toBatch(val, settings.infiltration_mm_hr);
 
-    // 2. Prepare Tensors
-    const trainInputs = tf.tensor2d(train.map(s => normalizeInput(s.inputs)));
-    const trainLabels = tf.tensor2d(train.map(s => [normalizeOutput(s.output)]));
+    console.log(`Training on ${train.length} samples, Validating on ${val.length} samples`);
 
-    const valInputs = tf.tensor2d(val.map(s => normalizeInput(s.inputs)));
-    const valLabels = tf.tensor2d(val.map(s => [normalizeOutput(s.output)]));
+    const history = await fitEpochs(model, { train: trainSet, val: valSet }, settings, onEpochEnd);
 
-    console.log(`Training on ${train.length} samples, Validating on ${val.length} samples`);
+    tf.dispose([trainSet.inputs, trainSet.targets, trainSet.collocation, valSet.inputs, valSet.targets, valSet.collocation]);
+    return history;
+}
 
-    // 3. Compile (if not already)
-    model.compile({
-        optimizer: tf.train.adam(LEARNING_RATE),
-        loss: 'meanSquaredError',
-        metrics: ['mse'],
-    });
+async function fitEpochs(
+    model: tf.LayersModel,
+    data: { train: PhysicsInformedBatch; val: PhysicsInformedBatch },
+    settings: TrainingSettings,
+    onEpochEnd?: TrainingCallback
+): Promise<TrainingState[]> {
+    const optimizer = tf.train.adam(settings.learningRate);
+    const history: TrainingState[] = [];
+    for (let epoch = 1; epoch <= settings.epochs; epoch++) {
+        const loss = trainEpoch(model, optimizer, data.train, settings);
+        const state = { epoch, loss, ...evaluate(model, data.val, settings.weights), isTraining: true };
+        history.push(state);
+        onEpochEnd?.(state);
+        await tf.nextFrame();
+    }
+    optimizer.dispose();
+    return history;
+}
 
-    // 4. Train
-    const history = await model.fit(trainInputs, trainLabels, {
-        batchSize: BATCH_SIZE,
+function trainingSettings(options: TrainingOptions): TrainingSettings {
+    return {
         epochs: EPOCHS,
-        validationData: [valInputs, valLabels],
-        shuffle: true,
-        callbacks: {
-            onEpochEnd: (epoch, logs) => {
-                if (onEpochEnd && logs) {
-                    onEpochEnd({
-                        epoch: epoch + 1,
-                        loss: logs.loss,
-                        valLoss: logs.val_loss,
-                        isTraining: true,
-                    });
-                }
-                // console.log(`Epoch ${epoch}: loss=${logs?.loss.toFixed(6)}`);
-            }
-        }
-    });
+        batchSize: BATCH_SIZE,
+        learningRate: LEARNING_RATE,
+        infiltration_mm_hr: 0,
+        ...options,
+        weights: { ...DEFAULT_LOSS_WEIGHTS, ...options.weights },
+    };
+}
 
-    // 5. Cleanup
-    trainInputs.dispose();
-    trainLabels.dispose();
-    valInputs.dispose();
-    valLabels.dispose();
+function normalizeInput(inputs: number[]): number[] {
+    // Inputs: [x, t, rainfall, slope, manningN]
+    return inputs.map((value, i) => normalize(value, INPUT_KEYS[i]));
+}
 
-    // 6. Save Normalization Constants
-    // In a real app, we'd save these alongside the model weights
-    // For now, we rely on the hardcoded constants in pinnModel.ts
-    // TODO: Verify dataset stats align with normalization constants
+function collocationTensor(count: number): tf.Tensor2D {
+    return tf.tensor2d(generateCollocationPoints(count).map(normalizeInput));
+}
 
-    return history;
+function toBatch(samples: TrainingSample[], infiltration_mm_hr: number): PhysicsInformedBatch {
+    return {
+        inputs: tf.tensor2d(samples.map(s => normalizeInput(s.inputs))),
+        targets: tf.tensor2d(samples.map(s => [normalizeOutput(s.output)])),
+        collocation: collocationTensor(Math.ceil(samples.length * COLLOCATION_RATIO)),
+        infiltration_mm_hr,
+    };
 }
 
-// Helper: Normalize inputs based on dataset stats (Z-score normalization)
-// Note: pinnModel.ts uses MinMax. We should align them.
-// For now, we map back to the MinMax used in pinnModel.ts
-const NORMALIZATION = {
-    x: { min: 0, max: 200 },
-    t: { min: 0, max: 120 },
-    rainfall: { min: 0, max: 150 },
-    slope: { min: 0.001, max: 0.2 },
-    manningN: { min: 0.01, max: 0.1 },
-};
+/**
+ * One pass over the shuffled labelled samples; returns the mean batch loss
+ */
+function trainEpoch(model: tf.LayersModel, optimizer: tf.Optimizer, data: PhysicsInformedBatch, settings: TrainingSettings): number {
+    const order = tf.util.createShuffledIndices(data.inputs.shape[0]);
+    const collocationPerBatch = Math.ceil(settings.batchSize * COLLOCATION_RATIO);
+    let total = 0;
+    let batches = 0;
+
+    for (let start = 0; start < order.length; start += settings.batchSize) {
+        const indices = Array.from(order.subarray(start, start + settings.batchSize));
+        const batch: PhysicsInformedBatch = {
+            inputs: tf.gather(data.inputs, indices),
+            targets: tf.gather(data.targets, indices),
+            collocation: collocationTensor(collocationPerBatch),
+            infiltration_mm_hr: data.infiltration_mm_hr,
+        };
+        total += trainStep(model, optimizer, batch, settings.weights);
+        batches++;
+    }
+    return total / batches;
+}
 
-function normalizeInput(inputs: number[]): number[] {
-    // Inputs: [x, t, rainfall, slope, manningN]
-    return [
-        (inputs[0] - NORMALIZATION.x.min) / (NORMALIZATION.x.max - NORMALIZATION.x.min),
-        (inputs[1] - NORMALIZATION.t.min) / (NORMALIZATION.t.max - NORMALIZATION.t.min),
-        (inputs[2] - NORMALIZATION.rainfall.min) / (NORMALIZATION.rainfall.max - NORMALIZATION.rainfall.min),
-        (inputs[3] - NORMALIZATION.slope.min) / (NORMALIZATION.slope.max - NORMALIZATION.slope.min),
-        (inputs[4] - NORMALIZATION.manningN.min) / (NORMALIZATION.manningN.max - NORMALIZATION.manningN.min),
-    ];
+function trainStep(model: tf.LayersModel, optimizer: tf.Optimizer, batch: PhysicsInformedBatch, weights: LossWeights): number {
+    const cost = optimizer.minimize(() => computePhysicsInformedLoss(model, batch, weights).total, true) as tf.Scalar;
+    const value = cost.dataSync()[0];
+    tf.dispose([cost, batch.inputs, batch.targets, batch.collocation]);
+    return value;
 }
 
-function normalizeOutput(output: number): number {
-    // We implicitly denormalize in pinnModel via rain scaling
-    // But for training, let's just train on raw Q for simplicity in this MVP iteration?
-    // No, Neural Nets needed scaled outputs (0-1 range best).
-    // Let's divide by a realistic max Q.
-    const MAX_Q = 200; // L/s (very high for typical micro-catchment)
-    return output / MAX_Q;
+function evaluate(model: tf.LayersModel, data: PhysicsInformedBatch, weights: LossWeights): Omit<TrainingState, 'epoch' | 'loss' | 'isTraining'> {
+    const terms = tf.tidy(() => {
+        const loss = computePhysicsInformedLoss(model, data, weights, false);
+        return [loss.data, loss.physics, loss.initial, loss.boundary];
+    });
+    const [valLoss, physicsLoss, initialLoss, boundaryLoss] = terms.map(term => term.dataSync()[0]);
+    tf.dispose(terms);
+    return { valLoss, physicsLoss, initialLoss, boundaryLoss };
 }
@@ -0,0 +1,58 @@
+/**
+ * PINN Predictive Uncertainty (Monte Carlo Dropout)
+ *
+ * The hidden layers keep dropout active at inference, so each forward pass
+ * samples a different thinned network. The spread of the discharge over
+ * MC_DROPOUT_SAMPLES passes approximates the model's epistemic uncertainty
+ * (Gal & Ghahramani, 2016).
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { MAX_DISCHARGE_CV, MC_DROPOUT_SAMPLES, OUTPUT_SCALE } from './pinnConstants';
+
+export interface DischargeEstimate {
+    /** Mean discharge per input row (L/s) */
+    mean: number[];
+    /** Standard deviation of the discharge per input row (L/s) */
+    std: number[];
+}
+
+/**
+ * Sample the discharge of each normalized input row with dropout active
+ */
+export function sampleDischarge(
+    model: tf.LayersModel,
+    rows: number[][],
+    samples: number = MC_DROPOUT_SAMPLES
+): DischargeEstimate {
+    const input = tf.tensor2d(rows);
+    const draws = Array.from({ length: samples }, () => {
+        const output = model.apply(input, { training: true }) as tf.Tensor;
+        const values = Array.from(output.dataSync(), v => v * OUTPUT_SCALE);
+        output.dispose();
+        return values;
+    });
+    input.dispose();
+    return summarize(draws, rows.length);
+}
+
+function summarize(draws: number[][], rows: number): DischargeEstimate {
+    const mean = Array.from({ length: rows }, (_, i) => draws.reduce((sum, d) => sum + d[i], 0) / draws.length);
+    const std = mean.map((m, i) => Math.sqrt(draws.reduce((sum, d) => sum + (d[i] - m) ** 2, 0) / draws.length));
+    return { mean, std };
+}
+
+/**
+ * Confidence 1 / (1 + CV) from the coefficient of variation of the discharge;
+ * 0 for a non-positive mean
+ */
+export function confidenceFromSpread(mean: number, std: number): number {
+    return mean > 0 ? 1 / (1 + std / mean) : 0;
+}
+
+/**
+ * Whether the spread is small enough to trust the PINN over the rational method
+ */
+export function isConfidentDischarge(mean: number, std: number): boolean {
+    return mean > 0 && std <= MAX_DISCHARGE_CV * mean;
+}
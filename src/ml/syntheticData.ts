@@ -1,8 +1,16 @@
 /**
  * Synthetic Training Data Generator for PINN
+ *
+ * Ground truth is the numerical kinematic wave solution for steady rain over
+ * each parameter combination, sampled along the flow path and through time.
+ * Every plane is PLANE_WIDTH_M wide, the width the network's discharge is for.
+ * Collocation points for the PDE residual cover the same parameter space.
  */
 
-import { computeKinematicWaveSolution, type KinematicWaveParams } from './pinnModel';
+import { createKinematicWaveService, type KinematicWaveResult } from '../lib/hydrology-engine';
+import { INPUT_KEYS, PLANE_WIDTH_M } from './pinnConstants';
+import type { KinematicWaveParams } from './pinnModel';
+import type { InputDomain } from './pinnDomain';
 
 export interface TrainingSample {
     inputs: number[];
@@ -22,22 +30,52 @@ const PARAM_RANGES = {
     rainfall: { min: 10, max: 100, samples: 6 },
     slope: { min: 0.005, max: 0.15, samples: 5 },
     manningN: { min: 0.01, max: 0.05, samples: 4 },
-    width: { min: 5, max: 20, samples: 3 },
 };
 
 const TIME_STEPS = 10;
 const SPACE_STEPS = 5;
+const SIMULATED_MIN = 60;
+
+/**
+ * Range of each network input covered by the training samples and
+ * collocation points
+ */
+export const TRAINING_DOMAIN: InputDomain = {
+    x: { min: 0, max: PARAM_RANGES.length.max },
+    t: { min: 0, max: SIMULATED_MIN },
+    rainfall: { min: PARAM_RANGES.rainfall.min, max: PARAM_RANGES.rainfall.max },
+    slope: { min: PARAM_RANGES.slope.min, max: PARAM_RANGES.slope.max },
+    manningN: { min: PARAM_RANGES.manningN.min, max: PARAM_RANGES.manningN.max },
+};
+
+const kinematicWave = createKinematicWaveService();
 
 function linspace(min: number, max: number, n: number): number[] {
     const step = (max - min) / (n - 1);
     return Array.from({ length: n }, (_, i) => min + i * step);
 }
 
-function generateSampleAtPoint(x: number, t: number, params: KinematicWaveParams): TrainingSample {
-    const solution = computeKinematicWaveSolution(params);
-    const t_ratio = Math.min(t / solution.timeToPeak, 1.0);
-    const x_ratio = x / params.length;
-    const discharge = solution.peakDischarge * t_ratio * x_ratio;
+function solvePlane(params: KinematicWaveParams): KinematicWaveResult {
+    return kinematicWave.solve({
+        plane: { length_m: params.length, width_m: params.width, slope: params.slope, manningN: params.manningN },
+        rainfall: { intensities_mm_hr: [params.rainfall], timeStep_min: SIMULATED_MIN },
+        duration_min: SIMULATED_MIN
+    });
+}
+
+/**
+ * Discharge at the nearest output step, interpolated between the stations
+ */
+function dischargeAt(solution: KinematicWaveResult, x: number, t: number): number {
+    const profile = solution.profiles_Ls[Math.round(t / solution.hydrograph.timeStep_min)];
+    const position = x / solution.stations_m[1];
+    const below = Math.min(Math.floor(position), profile.length - 2);
+    const fraction = position - below;
+    return profile[below] * (1 - fraction) + profile[below + 1] * fraction;
+}
+
+function generateSampleAtPoint(x: number, t: number, params: KinematicWaveParams, solution: KinematicWaveResult): TrainingSample {
+    const discharge = dischargeAt(solution, x, t);
     const noise = (Math.random() - 0.5) * 0.05 * discharge;
     return {
         inputs: [x, t, params.rainfall, params.slope, params.manningN],
@@ -51,18 +89,18 @@ function getParamCombos(): KinematicWaveParams[] {
     const rainfalls = linspace(PARAM_RANGES.rainfall.min, PARAM_RANGES.rainfall.max, PARAM_RANGES.rainfall.samples);
     const slopes = linspace(PARAM_RANGES.slope.min, PARAM_RANGES.slope.max, PARAM_RANGES.slope.samples);
     const mNs = linspace(PARAM_RANGES.manningN.min, PARAM_RANGES.manningN.max, PARAM_RANGES.manningN.samples);
-    const widths = linspace(PARAM_RANGES.width.min, PARAM_RANGES.width.max, PARAM_RANGES.width.samples);
 
-    lengths.forEach(length => rainfalls.forEach(rainfall => slopes.forEach(slope => mNs.forEach(manningN => widths.forEach(width => {
-        combos.push({ length, rainfall, slope, manningN, width });
-    })))));
+    lengths.forEach(length => rainfalls.forEach(rainfall => slopes.forEach(slope => mNs.forEach(manningN => {
+        combos.push({ length, rainfall, slope, manningN, width: PLANE_WIDTH_M });
+    }))));
     return combos;
 }
 
 function addSamplesForParams(samples: TrainingSample[], params: KinematicWaveParams): void {
     const xPos = linspace(0, params.length, SPACE_STEPS);
-    const tPos = linspace(0, 60, TIME_STEPS);
-    xPos.forEach(x => tPos.forEach(t => samples.push(generateSampleAtPoint(x, t, params))));
+    const tPos = linspace(0, SIMULATED_MIN, TIME_STEPS);
+    const solution = solvePlane(params);
+    xPos.forEach(x => tPos.forEach(t => samples.push(generateSampleAtPoint(x, t, params, solution))));
 }
 
 export function generateTrainingData(): TrainingDataset {
@@ -118,6 +156,15 @@ function addBoundaryPoints(samples: TrainingSample[], rainfall: number, slope: n
     }
 }
 
+/**
+ * Random [x, t, rainfall, slope, manningN] points inside the training domain
+ * at which the kinematic wave residual is enforced; they need no labels
+ */
+export function generateCollocationPoints(count: number): number[][] {
+    const uniform = (min: number, max: number) => min + Math.random() * (max - min);
+    return Array.from({ length: count }, () => INPUT_KEYS.map(key => uniform(TRAINING_DOMAIN[key].min, TRAINING_DOMAIN[key].max)));
+}
+
 export function splitDataset(samples: TrainingSample[], trainRatio: number = 0.8): { train: TrainingSample[]; val: TrainingSample[] } {
     const shuffled = [...samples].sort(() => Math.random() - 0.5);
     const splitIndex = Math.floor(shuffled.length * trainRatio);
@@ -0,0 +1,153 @@
+import { runComputeTask } from '../workers/computeTasks';
+import type {
+    ComputeTask,
+    TaskInput,
+    TaskOutput,
+    WorkerRequest,
+    WorkerResponse
+} from '../workers/computeProtocol';
+
+/**
+ * Runs PINN inference and heavy geometry in the compute worker. Passing an
+ * AbortSignal cancels the task when the inputs it was started for change:
+ * the returned promise rejects with an AbortError and the worker drops it.
+ * A worker that crashes or cannot read a message fails its pending tasks and
+ * is replaced by inline computation.
+ */
+export interface ComputeService {
+    run<T extends ComputeTask>(task: T, input: TaskInput<T>, signal?: AbortSignal): Promise<TaskOutput<T>>;
+    terminate(): void;
+}
+
+/** The part of a Worker the service talks to */
+export interface WorkerLike {
+    onmessage: ((event: MessageEvent<WorkerResponse>) => void) | null;
+    onerror: ((event: ErrorEvent) => void) | null;
+    onmessageerror: ((event: MessageEvent) => void) | null;
+    postMessage(message: WorkerRequest): void;
+    terminate(): void;
+}
+
+interface PendingTask {
+    resolve: (output: TaskOutput<ComputeTask>) => void;
+    reject: (error: Error) => void;
+}
+
+function cancellation(): DOMException {
+    return new DOMException('Compute task cancelled', 'AbortError');
+}
+
+function throwIfCancelled(signal: AbortSignal | undefined): void {
+    if (signal?.aborted) throw cancellation();
+}
+
+/**
+ * True for the rejection of a cancelled task, which callers ignore
+ */
+export function isComputeCancelled(error: unknown): boolean {
+    return (error as Error | null)?.name === 'AbortError';
+}
+
+export class WorkerComputeService implements ComputeService {
+    private readonly worker: WorkerLike;
+    private readonly pending = new Map<number, PendingTask>();
+    private nextId = 0;
+    /** Runs the tasks once the worker has failed */
+    private fallback: InlineComputeService | null = null;
+
+    constructor(worker: WorkerLike) {
+        this.worker = worker;
+        this.worker.onmessage = (event) => this.settle(event.data);
+        this.worker.onerror = (event) => this.fail(`Compute worker failed: ${event.message}`);
+        this.worker.onmessageerror = () => this.fail('Compute worker could not read a message');
+    }
+
+    run<T extends ComputeTask>(task: T, input: TaskInput<T>, signal?: AbortSignal): Promise<TaskOutput<T>> {
+        if (this.fallback) return this.fallback.run(task, input, signal);
+        return this.post(task, input, signal);
+    }
+
+    terminate(): void {
+        this.worker.terminate();
+        this.rejectPending(cancellation());
+    }
+
+    private post<T extends ComputeTask>(task: T, input: TaskInput<T>, signal?: AbortSignal): Promise<TaskOutput<T>> {
+        if (signal?.aborted) return Promise.reject(cancellation());
+
+        const id = this.nextId++;
+        return new Promise<TaskOutput<T>>((resolve, reject) => {
+            this.pending.set(id, { resolve: resolve as PendingTask['resolve'], reject });
+            signal?.addEventListener('abort', () => this.cancel(id), { once: true });
+            this.worker.postMessage({ type: 'run', id, task, input });
+        });
+    }
+
+    private rejectPending(error: Error): void {
+        this.pending.forEach(task => task.reject(error));
+        this.pending.clear();
+    }
+
+    private fail(reason: string): void {
+        console.warn(`${reason}; computing inline from now on`);
+        this.worker.terminate();
+        this.fallback = new InlineComputeService();
+        this.rejectPending(new Error(reason));
+    }
+
+    private cancel(id: number): void {
+        const task = this.pending.get(id);
+        if (!task) return;
+        this.pending.delete(id);
+        this.worker.postMessage({ type: 'cancel', id });
+        task.reject(cancellation());
+    }
+
+    /** Answers for cancelled tasks are no longer pending and are ignored */
+    private settle(response: WorkerResponse): void {
+        const task = this.pending.get(response.id);
+        if (!task) return;
+        this.pending.delete(response.id);
+        if (response.ok) task.resolve(response.output);
+        else task.reject(new Error(response.error));
+    }
+}
+
+/**
+ * Runs tasks in the calling thread where no Worker exists (tests, server-side
+ * rendering), honouring cancellation before and after the work
+ */
+export class InlineComputeService implements ComputeService {
+    async run<T extends ComputeTask>(task: T, input: TaskInput<T>, signal?: AbortSignal): Promise<TaskOutput<T>> {
+        throwIfCancelled(signal);
+        const output = await runComputeTask(task, input);
+        throwIfCancelled(signal);
+        return output;
+    }
+
+    terminate(): void {
+        // Nothing runs outside the calling thread
+    }
+}
+
+/**
+ * Create a compute service on the given worker, or an inline one without
+ */
+export function createComputeService(worker?: WorkerLike): ComputeService {
+    return worker ? new WorkerComputeService(worker) : new InlineComputeService();
+}
+
+function startWorker(): WorkerLike | undefined {
+    if (typeof Worker === 'undefined') return undefined;
+    return new Worker(new URL('../workers/compute.worker.ts', import.meta.url), { type: 'module' }) as WorkerLike;
+}
+
+let computeService: ComputeService | null = null;
+
+/**
+ * Shared compute service, started with the first task
+ */
+export function getComputeService(): ComputeService {
+    if (!computeService) computeService = createComputeService(startWorker());
+    return computeService;
+}
@@ -14,7 +14,7 @@ export interface RainfallData {
 interface OpenMeteoResponse {
     hourly: {
         time: string[];
-        precipitation: number[];
+        precipitation: Array<number | null>;
     };
     hourly_units: {
         precipitation: string;
@@ -26,6 +26,18 @@ interface CachedData {
     timestamp: number;
 }
 
+/**
+ * Open-Meteo reports hours without a reading as null; they are treated as dry
+ */
+function toRainfallData(data: OpenMeteoResponse): RainfallData {
+    return {
+        precipitation: data.hourly.precipitation.map(p => p ?? 0),
+        times: data.hourly.time,
+        units: data.hourly_units.precipitation,
+        fromCache: false
+    };
+}
+
 export const openMeteoClient = {
     /**
      * Fetch hourly rainfall data for specific coordinates from Open-Meteo API
@@ -53,18 +65,27 @@ export const openMeteoClient = {
 
         if (!response.ok) throw new Error(`API error: ${response.status}`);
 
-        const data: OpenMeteoResponse = await response.json();
-        const result: RainfallData = {
-            precipitation: data.hourly.precipitation,
-            times: data.hourly.time,
-            units: data.hourly_units.precipitation,
-            fromCache: false,
-        };
+        const result = toRainfallData(await response.json());
 
         this.cacheData(result);
         return result;
     },
 
+    /**
+     * Fetch one calendar year of observed hourly rainfall from the Open-Meteo archive.
+     * Defaults to the last complete year. Missing hours are treated as dry.
+     */
+    async fetchHistoricalRainfall(lat?: number, lon?: number, year: number = new Date().getFullYear() - 1): Promise<RainfallData> {
+        const coords = this.getCoords(lat, lon);
+        const url = `https://archive-api.open-meteo.com/v1/archive?latitude=${coords.lat}&longitude=${coords.lon}` +
+            `&start_date=${year}-01-01&end_date=${year}-12-31&hourly=precipitation&timezone=auto`;
+        const response = await fetch(url);
+
+        if (!response.ok) throw new Error(`API error: ${response.status}`);
+
+        return toRainfallData(await response.json());
+    },
+
     handleFetchError(error: Error): RainfallData {
         const c = this.getCachedData();
         if (!c) throw error;
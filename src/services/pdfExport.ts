@@ -2,6 +2,9 @@ import html2canvas from 'html2canvas';
 import jsPDF from 'jspdf';
 import type { GreenFix } from '../utils/hydrology';
 import { matchEligibleGrants, type Grant } from './grantMatcher';
+import type { PercentileBand, RetrofitUncertaintyResult } from '../lib/uncertainty-engine';
+import type { ClimateScenario, ClimateScenarioResult } from '../lib/hydrology-engine';
+import { BMP_CATALOG } from '../lib/bmp-catalog';
 
 export interface PDFExportData {
     streetName: string;
@@ -12,21 +15,19 @@ export interface PDFExportData {
     totalReduction: number;
     features: GreenFix[];
     peakRunoff: number;
+    /** Monte Carlo P10 / P50 / P90 bands; omitted for a deterministic report */
+    uncertainty?: RetrofitUncertaintyResult | null;
+    /** Design rainfall under the current climate and future horizons */
+    climateScenarios?: ClimateScenarioResult[] | null;
+    /** Regulatory profile the design values come from */
+    profileName?: string;
     screenshotElement?: HTMLElement | null;
 }
 
-// Feature type display names
-const FEATURE_NAMES: Record<GreenFix['type'], string> = {
-    rain_garden: 'Rain Garden',
-    permeable_pavement: 'Permeable Pavement',
-    tree_planter: 'Tree Planter',
-};
-
-// Estimated costs per m² (Berlin market rates)
-const COST_PER_M2: Record<GreenFix['type'], number> = {
-    rain_garden: 800,
-    permeable_pavement: 120,
-    tree_planter: 500,
+const CLIMATE_LABELS: Record<ClimateScenario, string> = {
+    current: 'Today',
+    '2050': '2050',
+    '2100': '2100'
 };
 
 /**
@@ -43,6 +44,7 @@ export async function exportProjectPDF(data: PDFExportData): Promise<void> {
     y = drawPDFHeader(doc, data, y);
     y = await drawARCapture(doc, data, y);
     y = drawHydrologyData(doc, data, y);
+    y = drawClimateScenarios(doc, data, y);
     y = drawProposedFeatures(doc, data, y);
     y = drawImpactSummary(doc, data, y);
     drawFundingPrograms(doc, data, y);
@@ -99,21 +101,59 @@ function drawHydrologyData(doc: jsPDF, data: PDFExportData, y: number): number {
     y += 8;
 
     doc.setFontSize(10);
+    y = drawDesignStandard(doc, data.profileName, y);
     doc.text(`• Rainfall Intensity: ${data.rainfall} mm/hr (design storm)`, 15, y);
     y += 6;
     doc.text(`• Impervious Area: ${data.totalArea} m²`, 15, y);
     y += 6;
     doc.text(`• Peak Runoff: ${data.peakRunoff.toFixed(2)} L/s (before intervention)`, 15, y);
+    y = data.uncertainty ? drawUncertaintyBands(doc, data.uncertainty, y + 6) : y;
     return y + 10;
 }
 
+function drawDesignStandard(doc: jsPDF, profileName: string | undefined, y: number): number {
+    if (!profileName) return y;
+    doc.text(`• Design Standard: ${profileName}`, 15, y);
+    return y + 6;
+}
+
+/**
+ * Peak runoff scales with the uplifted intensity (Rational Method)
+ */
+function drawClimateScenarios(doc: jsPDF, data: PDFExportData, y: number): number {
+    if (!data.climateScenarios) return y;
+    doc.setFontSize(12);
+    doc.text('Climate Scenarios', 10, y);
+    doc.setFontSize(10);
+    data.climateScenarios.forEach((s, i) => {
+        const line = `${s.intensity_mm_hr.toFixed(1)} mm/hr · ${s.depth_mm.toFixed(1)} mm · Peak ${(data.peakRunoff * s.factor).toFixed(2)} L/s`;
+        doc.text(`• ${CLIMATE_LABELS[s.scenario]} (×${s.factor.toFixed(2)}): ${line}`, 15, y + 8 + i * 6);
+    });
+    return y + 8 + data.climateScenarios.length * 6 + 4;
+}
+
+function drawUncertaintyBands(doc: jsPDF, uncertainty: RetrofitUncertaintyResult, y: number): number {
+    const { bands } = uncertainty;
+    doc.text(`• Peak Runoff P10–P90: ${formatBand(bands.peakRunoff_Ls, 2)} L/s`, 15, y);
+    doc.text(`• Runoff Reduction P10–P90: ${formatBand(bands.peakReduction_percent, 0)}%`, 15, y + 6);
+    doc.text(`• Phosphorus Removed P10–P90: ${formatBand(bands.phosphorusRemoved_lb_yr, 2)} lb/yr`, 15, y + 12);
+    doc.setFontSize(8);
+    doc.text(`Monte Carlo, ${uncertainty.iterations} draws, scan area ±${uncertainty.scanAccuracy_percent}%`, 15, y + 17);
+    doc.setFontSize(10);
+    return y + 17;
+}
+
+function formatBand(band: PercentileBand, digits: number): string {
+    return `${band.p10.toFixed(digits)} – ${band.p90.toFixed(digits)} (P50 ${band.p50.toFixed(digits)})`;
+}
+
 function drawProposedFeatures(doc: jsPDF, data: PDFExportData, y: number): number {
     doc.setFontSize(12);
     doc.text('Proposed Green Infrastructure', 10, y);
     y += 8;
 
     data.features.forEach((feature, index) => {
-        const name = FEATURE_NAMES[feature.type];
+        const name = BMP_CATALOG[feature.type].display.name;
         const reduction = Math.round(feature.reductionRate * 100);
         doc.setFontSize(10);
         doc.text(
@@ -128,7 +168,7 @@ function drawProposedFeatures(doc: jsPDF, data: PDFExportData, y: number): numbe
 }
 
 function calculateTotalCost(features: GreenFix[]): number {
-    return features.reduce((sum, f) => sum + (f.size * COST_PER_M2[f.type]), 0);
+    return features.reduce((sum, f) => sum + (f.size * BMP_CATALOG[f.type].unitCost_per_m2), 0);
 }
 
 function drawImpactSummary(doc: jsPDF, data: PDFExportData, y: number): number {
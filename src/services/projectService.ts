@@ -1,10 +1,14 @@
 import { supabase } from './supabaseClient';
-import type { Project, GreenFix } from '../types/database';
+import type { Project, GreenFix, SubCatchmentPlan } from '../types/database';
 
 export interface CreateProjectInput {
     street_name: string;
     screenshot: string | null;
     features: GreenFix[];
+    sub_catchments: SubCatchmentPlan[];
+    validation_error: number | null;
+    jurisdiction_code: string | null;
+    tc_min: number | null;
     total_area: number;
     total_reduction: number;
 }
@@ -32,6 +36,10 @@ export const projectService = {
                 street_name: input.street_name,
                 screenshot: input.screenshot,
                 features: input.features,
+                sub_catchments: input.sub_catchments,
+                validation_error: input.validation_error,
+                jurisdiction_code: input.jurisdiction_code,
+                tc_min: input.tc_min,
                 total_area: input.total_area,
                 total_reduction: input.total_reduction,
                 share_url: `/project/${crypto.randomUUID()}`,
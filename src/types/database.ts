@@ -2,19 +2,50 @@
  * Database type definitions for Supabase
  */
 
+import type { BMPType } from '../lib/bmp-catalog';
+import type { OutletSource } from '../lib/hydrology-engine';
+
 export interface GreenFix {
-    type: 'rain_garden' | 'permeable_pavement' | 'tree_planter';
+    type: BMPType;
     size: number;
     placement: string;
     reductionRate: number;
 }
 
+/**
+ * Area of the site draining to one inlet, delineated from the scanned DEM
+ */
+export interface SubCatchmentPlan {
+    id: number;
+    outlet: { lat: number; lon: number };
+    outletSource: OutletSource;
+    area_m2: number;
+    /** Mean slope (m/m) */
+    slope: number;
+    /** Composite Rational runoff coefficient */
+    runoffCoefficient: number;
+    /** Time of concentration of its longest flow path (min) */
+    tc_min: number;
+    /** Rational Method design peak runoff at its own Tc (L/s) */
+    peakRunoff: number;
+    fixes: GreenFix[];
+    /** [lon, lat] rings, one rectangle per run of raster cells */
+    footprint: number[][][];
+}
+
 export interface Project {
     id: string;
     user_id: string;
     street_name: string;
     screenshot: string | null;
     features: GreenFix[];
+    sub_catchments: SubCatchmentPlan[];
+    /** Tape check error of the scan; null when it was never calibrated */
+    validation_error: number | null;
+    /** Regulatory profile the scan was designed under */
+    jurisdiction_code: string | null;
+    /** Time of concentration of the scanned catchment (min) */
+    tc_min: number | null;
     total_area: number;
     total_reduction: number;
     created_at: string;
@@ -1,4 +1,7 @@
 import { getRobustRunoffPrediction } from '../ml/pinnInference';
+import { getComputeService } from '../services/computeService';
+import type { RunoffEstimate } from '../workers/computeProtocol';
+import { BMP_CATALOG, streetSpace_m2, type BMPType } from '../lib/bmp-catalog';
 
 /**
  * Hydrology Calculation Engine
@@ -20,6 +23,19 @@ export async function computeRunoffWithPINN(
     return getRobustRunoffPrediction(rainfall_mm_hr, area_m2, slope);
 }
 
+/**
+ * computeRunoffWithPINN in the compute worker, off the main thread, with
+ * warnings for the inputs outside the ranges the PINN was trained on.
+ * Aborting the signal cancels the estimate.
+ */
+export function estimateRunoffWithPINN(
+    rainfall_mm_hr: number,
+    area_m2: number,
+    signal?: AbortSignal
+): Promise<RunoffEstimate> {
+    return getComputeService().run('runoff', { rainfall_mm_hr, area_m2 }, signal);
+}
+
 /** Runoff coefficients for different surface types */
 export const RUNOFF_COEFFICIENTS = {
     impervious: 0.95,
@@ -30,7 +46,7 @@ export const RUNOFF_COEFFICIENTS = {
 export type SurfaceType = keyof typeof RUNOFF_COEFFICIENTS;
 
 export interface GreenFix {
-    type: 'rain_garden' | 'permeable_pavement' | 'tree_planter';
+    type: BMPType;
     size: number;       // m²
     reductionRate: number; // 0-1
     placement: string;
@@ -188,6 +204,9 @@ export function calculateTotalReduction(
     return (totalCapture / totalArea_m2) * 100;
 }
 
+/** BMPs suggested before the portfolio optimizer has run */
+const STARTER_FIXES: BMPType[] = ['rain_garden', 'permeable_pavement', 'tree_planter'];
+
 /**
  * Suggest green infrastructure fixes for a given impervious area
  * 
@@ -203,11 +222,12 @@ export function suggestGreenFixes(
     area_m2: number
 ): GreenFix[] {
 
-    return [
-        { type: 'rain_garden', size: Math.round(area_m2 * 0.2), reductionRate: 0.4, placement: 'Sidewalk edge' },
-        { type: 'permeable_pavement', size: Math.round(area_m2 * 0.5), reductionRate: 0.7, placement: 'Parking area' },
-        { type: 'tree_planter', size: 30, reductionRate: 0.25, placement: 'Road verge' }
-    ];
+    return STARTER_FIXES.map(type => ({
+        type,
+        size: Math.round(streetSpace_m2(type, area_m2)),
+        reductionRate: BMP_CATALOG[type].runoffReduction_percent / 100,
+        placement: BMP_CATALOG[type].display.placement
+    }));
 }
 
 /**
@@ -0,0 +1,46 @@
+/**
+ * Compute Worker
+ *
+ * Runs PINN inference and heavy geometry off the main thread, so the camera
+ * and coverage overlays keep animating (see computeProtocol). Started by the
+ * compute service.
+ */
+
+import { runComputeTask } from './computeTasks';
+import type { RunRequest, WorkerRequest, WorkerResponse } from './computeProtocol';
+
+interface WorkerScope {
+    onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+    postMessage(message: WorkerResponse): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+/** Ids cancelled before their answer was posted */
+const cancelled = new Set<number>();
+
+scope.onmessage = (event) => {
+    const request = event.data;
+    if (request.type === 'cancel') cancelled.add(request.id);
+    else execute(request);
+};
+
+/**
+ * Start on a later task, so a cancel already queued behind the request is
+ * seen before the work begins
+ */
+async function execute(request: RunRequest): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, 0));
+    if (cancelled.delete(request.id)) return;
+
+    const response = await respond(request);
+    if (!cancelled.delete(request.id)) scope.postMessage(response);
+}
+
+async function respond({ id, task, input }: RunRequest): Promise<WorkerResponse> {
+    try {
+        return { id, ok: true, output: await runComputeTask(task, input) };
+    } catch (error) {
+        return { id, ok: false, error: (error as Error).message };
+    }
+}
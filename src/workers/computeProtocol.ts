@@ -0,0 +1,93 @@
+/**
+ * Compute Worker Protocol
+ *
+ * Messages between the main thread and the compute worker. Every run request
+ * carries an id that the worker answers exactly once, with the task output or
+ * an error message. A cancel message for a pending id makes the worker skip or
+ * drop that answer.
+ *
+ * Payloads are structured-cloned, so class instances travel as plain data:
+ * an ElevationGrid as its samples, a GeoPolygon as its vertices, a Boundary
+ * as its points and voxels as their grid coordinates.
+ */
+
+import type { FlowRoutingResult, PondingInput, PondingResult, SubCatchment } from '../lib/hydrology-engine';
+import type { LatLon } from '../lib/spatial-coverage/domain/services/CoordinateTransform';
+import type { ElevationSample } from '../lib/spatial-coverage/domain/valueObjects/ElevationSample';
+import type { GeoVertex } from '../lib/spatial-coverage/domain/valueObjects/GeoPolygon';
+import type { Point } from '../lib/spatial-coverage/domain/valueObjects/Boundary';
+import type { GapInfo } from '../lib/spatial-coverage/domain/services/CoverageAnalyzer';
+
+export interface RunoffTaskInput {
+    rainfall_mm_hr: number;
+    area_m2: number;
+    /** Surface slope (m/m), 2% by default */
+    slope?: number;
+}
+
+/**
+ * Robust PINN peak runoff with the warnings of its extrapolated inputs
+ */
+export interface RunoffEstimate {
+    peakRunoff: number;
+    /** The PINN answered; false when the rational method stood in for it */
+    isPINNPrediction: boolean;
+    /** Registry version of the model behind a PINN answer */
+    modelVersion: string | null;
+    warnings: string[];
+}
+
+export interface FlowRoutingTaskInput {
+    samples: ElevationSample[];
+    /** Raster cell size (m), FLOW_CELL_SIZE_M by default */
+    cellSize_m?: number;
+}
+
+export interface SubCatchmentTaskInput {
+    flow: FlowRoutingResult;
+    /** Inlets placed by the user (site meters) */
+    outlets: Point[];
+    /** Origin of the site meters */
+    origin: LatLon;
+    /** Vertices of the drawn boundary; every cell counts without one */
+    boundary: GeoVertex[] | null;
+}
+
+export interface CoverageGapsTaskInput {
+    covered: { gridX: number; gridY: number }[];
+    boundary: Point[];
+    voxelSize: number;
+}
+
+/**
+ * Input and output of each task the worker runs
+ */
+export interface ComputeTasks {
+    runoff: { input: RunoffTaskInput; output: RunoffEstimate };
+    flowRouting: { input: FlowRoutingTaskInput; output: FlowRoutingResult | null };
+    ponding: { input: PondingInput; output: PondingResult };
+    subCatchments: { input: SubCatchmentTaskInput; output: readonly SubCatchment[] };
+    coverageGaps: { input: CoverageGapsTaskInput; output: GapInfo[] };
+}
+
+export type ComputeTask = keyof ComputeTasks;
+export type TaskInput<T extends ComputeTask> = ComputeTasks[T]['input'];
+export type TaskOutput<T extends ComputeTask> = ComputeTasks[T]['output'];
+
+export interface RunRequest<T extends ComputeTask = ComputeTask> {
+    type: 'run';
+    id: number;
+    task: T;
+    input: TaskInput<T>;
+}
+
+export interface CancelRequest {
+    type: 'cancel';
+    id: number;
+}
+
+export type WorkerRequest = RunRequest | CancelRequest;
+
+export type WorkerResponse =
+    | { id: number; ok: true; output: TaskOutput<ComputeTask> }
+    | { id: number; ok: false; error: string };
@@ -0,0 +1,100 @@
+/**
+ * Compute Tasks
+ *
+ * The work behind each task of the compute protocol. The worker runs these
+ * off the main thread; the compute service runs them in-thread where no
+ * Worker exists (tests, server-side rendering).
+ */
+
+import { getRobustRunoffEstimate, robustPredictionExtrapolation } from '../ml/pinnInference';
+import { describeExtrapolation } from '../ml/pinnDomain';
+import {
+    createFlowRoutingService,
+    createPondingService,
+    createSubCatchmentService,
+    rasterizeElevationGrid
+} from '../lib/hydrology-engine';
+import { CoordinateTransform, type LatLon } from '../lib/spatial-coverage/domain/services/CoordinateTransform';
+import { ElevationGrid } from '../lib/spatial-coverage/domain/valueObjects/ElevationGrid';
+import { GeoPolygon, type GeoVertex } from '../lib/spatial-coverage/domain/valueObjects/GeoPolygon';
+import { Boundary } from '../lib/spatial-coverage/domain/valueObjects/Boundary';
+import { Voxel } from '../lib/spatial-coverage/domain/valueObjects/Voxel';
+import { CoverageAnalyzer } from '../lib/spatial-coverage/domain/services/CoverageAnalyzer';
+import type {
+    ComputeTask,
+    CoverageGapsTaskInput,
+    FlowRoutingTaskInput,
+    RunoffEstimate,
+    RunoffTaskInput,
+    SubCatchmentTaskInput,
+    TaskInput,
+    TaskOutput
+} from './computeProtocol';
+
+const flowService = createFlowRoutingService();
+const pondingService = createPondingService();
+const subCatchmentService = createSubCatchmentService();
+
+type ComputeHandlers = {
+    [T in ComputeTask]: (input: TaskInput<T>) => TaskOutput<T> | Promise<TaskOutput<T>>;
+};
+
+async function estimateRunoff({ rainfall_mm_hr, area_m2, slope = 0.02 }: RunoffTaskInput): Promise<RunoffEstimate> {
+    const { discharge, isPINNPrediction, modelVersion } = await getRobustRunoffEstimate(rainfall_mm_hr, area_m2, slope);
+    return {
+        peakRunoff: discharge,
+        isPINNPrediction,
+        modelVersion,
+        warnings: isPINNPrediction ? extrapolationWarnings(rainfall_mm_hr, slope) : []
+    };
+}
+
+/** Inputs the PINN answered for outside its training ranges; a rational method estimate has none */
+function extrapolationWarnings(rainfall_mm_hr: number, slope: number): string[] {
+    return robustPredictionExtrapolation(rainfall_mm_hr, slope).map(describeExtrapolation);
+}
+
+/** D8 routing of the rasterized samples, null when they do not span a raster */
+function flowRouting({ samples, cellSize_m }: FlowRoutingTaskInput) {
+    const raster = rasterizeElevationGrid(ElevationGrid.fromSamples(samples), cellSize_m);
+    return raster && flowService.route(raster);
+}
+
+/**
+ * Sub-catchments of the placed inlets, or of the concentration points
+ * without any, within the drawn boundary
+ */
+export function delineateSubCatchments({ flow, outlets, origin, boundary }: SubCatchmentTaskInput) {
+    const { subCatchments } = subCatchmentService.delineate({ flow, outlets, inside: boundaryMask(boundary, origin) });
+    return subCatchments;
+}
+
+function boundaryMask(vertices: GeoVertex[] | null, origin: LatLon) {
+    if (!vertices) return undefined;
+    const boundary = GeoPolygon.create(vertices);
+    return (x: number, y: number) => {
+        const { lat, lon } = CoordinateTransform.localMetersToLatLon(origin, { x, y });
+        return boundary.contains(lat, lon);
+    };
+}
+
+function coverageGaps({ covered, boundary, voxelSize }: CoverageGapsTaskInput) {
+    const voxels = covered.map(v => new Voxel(v.gridX, v.gridY, voxelSize));
+    return CoverageAnalyzer.findGaps(voxels, new Boundary(boundary), voxelSize);
+}
+
+const COMPUTE_HANDLERS: ComputeHandlers = {
+    runoff: estimateRunoff,
+    flowRouting,
+    ponding: (input) => pondingService.simulate(input),
+    subCatchments: delineateSubCatchments,
+    coverageGaps
+};
+
+/**
+ * Run a task in the current thread
+ */
+export async function runComputeTask<T extends ComputeTask>(task: T, input: TaskInput<T>): Promise<TaskOutput<T>> {
+    const handler = COMPUTE_HANDLERS[task] as (input: TaskInput<T>) => TaskOutput<T> | Promise<TaskOutput<T>>;
+    return handler(input);
+}
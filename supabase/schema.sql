@@ -8,6 +8,10 @@ CREATE TABLE IF NOT EXISTS public.projects (
   street_name TEXT NOT NULL,
   screenshot TEXT,
   features JSONB DEFAULT '[]'::JSONB,
+  sub_catchments JSONB DEFAULT '[]'::JSONB,
+  validation_error NUMERIC,
+  jurisdiction_code TEXT,
+  tc_min NUMERIC,
   total_area NUMERIC DEFAULT 0,
   total_reduction NUMERIC DEFAULT 0,
   share_url TEXT UNIQUE,
@@ -15,6 +19,16 @@ CREATE TABLE IF NOT EXISTS public.projects (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
 );
 
+-- Sub-catchments for projects created before delineation
+ALTER TABLE public.projects ADD COLUMN IF NOT EXISTS sub_catchments JSONB DEFAULT '[]'::JSONB;
+
+-- Tape check of the scan (cm); NULL when the scan was never calibrated
+ALTER TABLE public.projects ADD COLUMN IF NOT EXISTS validation_error NUMERIC;
+
+-- Design basis of the scan: regulatory profile and time of concentration (min)
+ALTER TABLE public.projects ADD COLUMN IF NOT EXISTS jurisdiction_code TEXT;
+ALTER TABLE public.projects ADD COLUMN IF NOT EXISTS tc_min NUMERIC;
+
 -- Create index for faster lookups
 CREATE INDEX IF NOT EXISTS projects_user_id_idx ON public.projects(user_id);
 CREATE INDEX IF NOT EXISTS projects_share_url_idx ON public.projects(share_url);
@@ -1,22 +1,22 @@
-Feature: HEC-RAS Validation
+Feature: Kinematic Wave Validation
   As an engineer or grant reviewer
-  I want to see validation against industry-standard HEC-RAS
+  I want to see validation against a numerical kinematic wave solution
   So that I can trust the app's runoff predictions
 
   Background:
     Given I have activated the Fairfax demo scenario
 
-  Scenario: Validation chart displays for Fairfax scenario
+  Scenario: Validation chart displays for the scanned site
     When the scanner view loads with 120m² detected area
-    Then I see a "HEC-RAS Validation" chart
-    And the chart shows the HEC-RAS hydrograph (blue line)
+    Then I see a "Kinematic Wave Validation" chart
+    And the chart shows the kinematic wave hydrograph (blue line)
     And the chart shows the app prediction marker (green)
     And I see accuracy percentage displayed
 
-  Scenario: App prediction accuracy is within 5% of HEC-RAS peak
-    Given HEC-RAS peak discharge is 76 L/s
+  Scenario: App prediction accuracy is within 5% of the kinematic wave peak
+    Given the kinematic wave hydrograph of 50mm/hr over 120m² settles at C·i·A
     When the app calculates peak runoff for 120m² at 50mm/hr
-    Then the app prediction should be between 72 L/s and 80 L/s
+    Then the app prediction should be within 5% of the kinematic wave peak
     And accuracy should be displayed as "95% accurate" or higher
 
   Scenario: CSV download available for engineers
@@ -25,6 +25,19 @@ Feature: HEC-RAS Validation
     And clicking the link downloads a CSV file
     And the CSV contains columns: time_min, discharge_m3s
 
+  Scenario: Uploaded reference hydrograph is scored with goodness-of-fit statistics
+    Given I have a reference hydrograph CSV from HEC-RAS, SWMM or a field logger
+    When I upload it in the "Reference Hydrograph" panel
+    Then the reference is lined up in time with the predicted hydrograph
+    And I see NSE, KGE, PBIAS, RMSE, peak error and timing error
+    And I see the fit rated from "very good" to "unsatisfactory"
+
+  Scenario: Validation report download
+    Given I have uploaded a reference hydrograph
+    When I click "Download validation report (CSV)"
+    Then the CSV lists the goodness-of-fit statistics
+    And the CSV contains columns: time_min, predicted_Ls, reference_Ls
+
   Scenario: PDF export includes validation section
     Given I have completed a scan with validation data
     When I export the project as PDF
@@ -0,0 +1,41 @@
+/**
+ * Contract Tests: bmp-catalog
+ *
+ * Validates the public API surface of the bmp-catalog library.
+ * Every BMP type must carry hydrology, pollutant, cost, siting,
+ * display and 3D model data.
+ */
+import {
+    BMP_CATALOG,
+    BMP_TYPES,
+    getBmpDefinition,
+    isBMPType,
+    streetSpace_m2,
+    type BMPType,
+    type BmpDefinition
+} from '../../src/lib/bmp-catalog';
+
+describe('bmp-catalog Contract Tests', () => {
+    it('BMP_TYPES matches the catalog keys', () => {
+        expect([...BMP_TYPES].sort()).toEqual(Object.keys(BMP_CATALOG).sort());
+    });
+
+    it('every definition is complete', () => {
+        Object.values(BMP_CATALOG).forEach((bmp: BmpDefinition) => {
+            expect(bmp.runoffReduction_percent).toBeGreaterThan(0);
+            expect(bmp.pollutants).toHaveProperty('phosphorus_lb_acre_yr');
+            expect(bmp.unitCost_per_m2).toBeGreaterThan(0);
+            expect(bmp.design).toHaveProperty('streetSpace');
+            expect(bmp.display.name).toBeTruthy();
+            expect(bmp.modelPath).toMatch(/\.glb$/);
+        });
+    });
+
+    it('exposes lookup helpers', () => {
+        const type: BMPType = 'green_roof';
+
+        expect(isBMPType(type)).toBe(true);
+        expect(getBmpDefinition(type).type).toBe(type);
+        expect(streetSpace_m2(type, 500)).toBeGreaterThan(0);
+    });
+});
@@ -2,7 +2,8 @@
  * Contract Tests: env-calculator
  * 
  * Validates the public API surface of the env-calculator microservice.
- * Tests factory function, pollutant entities, removal rates, and calculation service.
+ * Tests factory function, pollutant entities, removal rates, calculation service,
+ * the BMP portfolio optimizer and the event mean concentration load model.
  */
 import {
     createPollutantService,
@@ -12,6 +13,15 @@ import {
     URBAN_LOADING_RATES,
     createPollutantLoadResult,
     createComparison,
+    createPortfolioOptimizationService,
+    PortfolioOptimizationService,
+    BMP_DESIGN_FACTORS,
+    createEventLoadService,
+    EventLoadService,
+    EVENT_MEAN_CONCENTRATIONS,
+    LAND_USES,
+    type EventLoadResult,
+    type PortfolioResult,
     type Pollutant,
     type PollutantType,
     type BMPType,
@@ -243,3 +253,55 @@ describe('env-calculator Contract Tests', () => {
         });
     });
 });
+
+describe('env-calculator Portfolio Contract Tests', () => {
+    it('createPortfolioOptimizationService returns valid service', () => {
+        expect(createPortfolioOptimizationService()).toBeInstanceOf(PortfolioOptimizationService);
+    });
+
+    it('BMP_DESIGN_FACTORS covers every BMP with removal rates', () => {
+        expect(Object.keys(BMP_DESIGN_FACTORS).sort()).toEqual(Object.keys(BMP_REMOVAL_RATES).sort());
+    });
+
+    it('optimize returns PortfolioResult structure', () => {
+        const result: PortfolioResult = createPortfolioOptimizationService().optimize({
+            target: { metric: 'peak_reduction', value: 5 },
+            catchment: { area_m2: 500, imperviousPercent: 100, annualRainfall_mm: 1000 },
+            spaces: { rain_garden: { area_m2: 100 } }
+        });
+
+        expect(result).toHaveProperty('target');
+        expect(result).toHaveProperty('feasible');
+        expect(result).toHaveProperty('optimal');
+        expect(result).toHaveProperty('paretoFront');
+        expect(result.optimal).toHaveProperty('allocations');
+        expect(result.optimal).toHaveProperty('cost');
+        expect(result.optimal).toHaveProperty('peakReduction_percent');
+        expect(result.optimal).toHaveProperty('wqvCaptured_L');
+        expect(result.optimal).toHaveProperty('phosphorus_lb_yr');
+    });
+});
+
+describe('env-calculator Event Load Contract Tests', () => {
+    it('createEventLoadService returns valid service', () => {
+        expect(createEventLoadService()).toBeInstanceOf(EventLoadService);
+    });
+
+    it('lists EMCs for every land use', () => {
+        LAND_USES.forEach(landUse => {
+            expect(EVENT_MEAN_CONCENTRATIONS[landUse].sediment).toBeGreaterThan(0);
+        });
+    });
+
+    it('calculateEventLoad returns an EventLoadResult', () => {
+        const result: EventLoadResult = createEventLoadService().calculateEventLoad({
+            area_m2: 100, imperviousPercent: 100, rainfall_mm: 10, landUse: 'residential'
+        });
+
+        expect(result.runoffVolume_L).toBeCloseTo(950);
+        expect(result.capturedVolume_L).toBeCloseTo(950);
+        expect(result.loads.phosphorus).toHaveProperty('mass_kg');
+        expect(result.loads.nitrogen).toHaveProperty('firstFlushMassFraction');
+        expect(result.loads.sediment).toHaveProperty('captured_kg');
+    });
+});
@@ -167,6 +167,15 @@ describe('geo-regulatory Contract Tests', () => {
             expect(berlin?.name).toContain('Berlin');
         });
 
+        it('stores climate uplift factors with jurisdiction profiles', () => {
+            const berlin = STORMWATER_PROFILES.find(p => p.jurisdictionCode === 'DE-BE');
+            expect(berlin).toBeDefined();
+            const uplift = berlin!.parameters.climateUplift!;
+
+            expect(uplift.region).toBe('Berlin');
+            expect(uplift.factors['2100'].length).toBeGreaterThan(0);
+        });
+
         it('includes global default profile', () => {
             const global = STORMWATER_PROFILES.find(
                 p => p.jurisdictionCode === 'GLOBAL'
@@ -1,4 +1,6 @@
 /**
+ * @jest-environment node
+ *
  * Contract Tests: grant-generator
  * 
  * Validates the public API surface of the grant-generator microservice.
@@ -28,6 +30,31 @@ import {
     type TemplateField,
     type TemplateSection
 } from '../../src/lib/grant-generator';
+import type { InfiltrationFacilityDesign } from '../../src/lib/hydrology-engine';
+import { grantGeneratorRoutes } from '../../src/api/routes/grant-generator';
+
+const swaleDesign: InfiltrationFacilityDesign = {
+    facility: 'mulde',
+    connectedArea_m2: 500,
+    kf_m_s: 1e-5,
+    returnPeriod_yr: 5,
+    criticalDuration_min: 240,
+    surfaceArea_m2: 40,
+    storageVolume_m3: 10,
+    emptyingTime_hr: 8,
+    trenchLength_m: null,
+    kfPermissible: true,
+    emptyingTimeOk: true,
+    compliant: true
+};
+
+const berlinProject = {
+    area_m2: 500,
+    jurisdictionCode: 'DE-BE',
+    jurisdictionChain: ['Berlin', 'Germany'],
+    bmps: [{ type: 'rain_garden', area_m2: 45 }],
+    dwaA138: swaleDesign
+};
 
 describe('grant-generator Contract Tests', () => {
     describe('Factory Functions', () => {
@@ -185,3 +212,33 @@ describe('grant-generator Contract Tests', () => {
         });
     });
 });
+
+describe('grant-generator API Contract Tests', () => {
+    describe('API /check-all', () => {
+        async function checkAll(project: object) {
+            const response = await grantGeneratorRoutes.request('/check-all', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(project)
+            });
+            const body = await response.json() as { results: ComplianceResult[] };
+            return body.results.find(result => result.grantProgram === 'BENE2')!;
+        }
+
+        function dwaCheck(result: ComplianceResult) {
+            return result.checks.find(check => check.id === 'dwa_a138');
+        }
+
+        it('keeps the DWA-A 138 design so a sized swale passes', async () => {
+            const check = dwaCheck(await checkAll(berlinProject));
+
+            expect(check).toMatchObject({ passed: true, reason: 'Sized to DWA-A 138' });
+        });
+
+        it('fails the DWA-A 138 check without a design', async () => {
+            const check = dwaCheck(await checkAll({ ...berlinProject, dwaA138: undefined }));
+
+            expect(check).toMatchObject({ passed: false, reason: 'DWA-A 138 sizing required' });
+        });
+    });
+});
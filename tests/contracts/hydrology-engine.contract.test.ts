@@ -0,0 +1,418 @@
+/**
+ * Contract Tests: hydrology-engine
+ *
+ * Validates the public API surface of the hydrology-engine microservice.
+ * Tests factory functions, curve number tables, the SCS runoff service
+ * composite catchments, the design storm generator, time-of-concentration
+ * methods, the continuous water balance, permeable pavement design,
+ * DWA-A 138 infiltration facility sizing, detention routing, climate
+ * change scenarios, terrain flow routing, fill-and-spill ponding,
+ * sub-catchment delineation, kinematic wave overland flow and reference
+ * hydrograph validation.
+ */
+import {
+    createCurveNumberService,
+    createDesignStormService,
+    createTimeOfConcentrationService,
+    createWaterBalanceService,
+    createCompositeCatchment,
+    createPermeablePavementService,
+    createDwaA138Service,
+    createDetentionRoutingService,
+    createClimateScenarioService,
+    ClimateScenarioService,
+    CLIMATE_SCENARIOS,
+    CLIMATE_UPLIFT_PRESETS,
+    DEFAULT_CLIMATE_UPLIFT,
+    upliftFactor,
+    createFlowRoutingService,
+    createTerrainRaster,
+    FlowRoutingService,
+    createPondingService,
+    PondingService,
+    MIN_PONDING_DEPTH_M,
+    type PondingResult,
+    createSubCatchmentService,
+    SubCatchmentService,
+    OUTLET_SNAP_RADIUS_M,
+    type SubCatchmentResult,
+    createKinematicWaveService,
+    KinematicWaveService,
+    DEFAULT_MANNING_N,
+    type KinematicWaveResult,
+    createHydrographValidationService,
+    HydrographValidationService,
+    parseReferenceHydrograph,
+    FIT_THRESHOLDS,
+    type ReferenceHydrograph,
+    type HydrographValidationResult,
+    createStageStorageDischarge,
+    createHydrograph,
+    createRationalHydrograph,
+    prismaticStorage,
+    DetentionRoutingService,
+    kostraFromIdf,
+    PermeablePavementService,
+    DwaA138Service,
+    IDF_PRESETS,
+    CurveNumberService,
+    DesignStormService,
+    TimeOfConcentrationService,
+    WaterBalanceService,
+    DEFAULT_IDF_PARAMETERS,
+    CURVE_NUMBERS,
+    getCurveNumber,
+    TR55_COEFFICIENTS,
+    type HydrologicSoilGroup,
+    type LandCoverType,
+    type ScsRunoffResult,
+    type Hyetograph,
+    type TimeOfConcentrationResult,
+    type InfiltrationFacilityDesign,
+    type DetentionRoutingResult,
+    type ClimateScenarioResult,
+    type FlowRoutingResult,
+    type WaterBalanceResult,
+    type CompositeCatchment,
+    type PermeablePavementDesign
+} from '../../src/lib/hydrology-engine';
+
+describe('hydrology-engine Contract Tests', () => {
+    describe('Factory Function', () => {
+        it('createCurveNumberService returns valid service', () => {
+            expect(createCurveNumberService()).toBeInstanceOf(CurveNumberService);
+        });
+
+        it('createDesignStormService returns valid service', () => {
+            expect(createDesignStormService()).toBeInstanceOf(DesignStormService);
+        });
+
+        it('createTimeOfConcentrationService returns valid service', () => {
+            expect(createTimeOfConcentrationService()).toBeInstanceOf(TimeOfConcentrationService);
+        });
+
+        it('createWaterBalanceService returns valid service', () => {
+            expect(createWaterBalanceService()).toBeInstanceOf(WaterBalanceService);
+        });
+    });
+
+    describe('CURVE_NUMBERS', () => {
+        it('every land cover has a value for each soil group', () => {
+            const groups: HydrologicSoilGroup[] = ['A', 'B', 'C', 'D'];
+            for (const landCover of Object.keys(CURVE_NUMBERS) as LandCoverType[]) {
+                for (const group of groups) {
+                    const cn = getCurveNumber(landCover, group);
+                    expect(cn).toBeGreaterThan(0);
+                    expect(cn).toBeLessThanOrEqual(100);
+                }
+            }
+        });
+    });
+
+    describe('TR55_COEFFICIENTS', () => {
+        it('covers all four NRCS rainfall distributions', () => {
+            expect(Object.keys(TR55_COEFFICIENTS).sort()).toEqual(['I', 'IA', 'II', 'III']);
+        });
+    });
+
+    describe('CurveNumberService', () => {
+        it('computeRunoff returns ScsRunoffResult structure', () => {
+            const result: ScsRunoffResult = createCurveNumberService().computeRunoff({
+                rainfall_mm: 50,
+                area_m2: 1000,
+                curveNumber: 98
+            });
+
+            expect(result).toHaveProperty('curveNumber', 98);
+            expect(result).toHaveProperty('potentialRetention_mm');
+            expect(result).toHaveProperty('initialAbstraction_mm');
+            expect(result).toHaveProperty('runoffDepth_mm');
+            expect(result).toHaveProperty('runoffVolume_L');
+            expect(result).toHaveProperty('unitPeakDischarge_csm_in');
+            expect(result).toHaveProperty('peakDischarge_Ls');
+        });
+    });
+});
+
+describe('hydrology-engine Catchment Contract Tests', () => {
+    describe('createCompositeCatchment', () => {
+        it('returns CompositeCatchment structure', () => {
+            const result: CompositeCatchment = createCompositeCatchment([{ surface: 'roof', area_m2: 50 }], 'C');
+
+            expect(result).toHaveProperty('subAreas');
+            expect(result).toHaveProperty('totalArea_m2', 50);
+            expect(result).toHaveProperty('imperviousArea_m2');
+            expect(result).toHaveProperty('imperviousPercent');
+            expect(result).toHaveProperty('runoffCoefficient');
+            expect(result).toHaveProperty('curveNumber');
+        });
+    });
+});
+
+describe('hydrology-engine Design Storm Contract Tests', () => {
+    describe('DesignStormService', () => {
+        it('generate returns Hyetograph structure', () => {
+            const result: Hyetograph = createDesignStormService().generate({ idf: DEFAULT_IDF_PARAMETERS });
+
+            expect(result).toHaveProperty('method');
+            expect(result).toHaveProperty('returnPeriod_yr');
+            expect(result).toHaveProperty('duration_min');
+            expect(result).toHaveProperty('timeStep_min');
+            expect(result).toHaveProperty('intensities_mm_hr');
+            expect(result).toHaveProperty('totalDepth_mm');
+            expect(result).toHaveProperty('peakIntensity_mm_hr');
+            expect(result).toHaveProperty('timeToPeak_min');
+        });
+    });
+
+    describe('TimeOfConcentrationService', () => {
+        it('compute returns TimeOfConcentrationResult structure', () => {
+            const result: TimeOfConcentrationResult = createTimeOfConcentrationService()
+                .compute('kirpich', { flowLength_m: 200, slope: 0.02 });
+
+            expect(result).toHaveProperty('method', 'kirpich');
+            expect(result).toHaveProperty('tc_min');
+            expect(result).toHaveProperty('flowLength_m');
+            expect(result).toHaveProperty('slope');
+        });
+    });
+
+    describe('WaterBalanceService', () => {
+        it('simulate returns WaterBalanceResult structure', () => {
+            const result: WaterBalanceResult = createWaterBalanceService().simulate({
+                rainfall_mm: [2, 8, 0],
+                catchmentArea_m2: 100,
+                runoffCoefficient: 0.9,
+                cell: { area_m2: 10 }
+            });
+
+            expect(result).toHaveProperty('simulatedHours', 3);
+            expect(result).toHaveProperty('inflow_L');
+            expect(result).toHaveProperty('infiltrated_L');
+            expect(result).toHaveProperty('evapotranspired_L');
+            expect(result).toHaveProperty('overflow_L');
+            expect(result).toHaveProperty('storageChange_L');
+            expect(result).toHaveProperty('capturePercent');
+            expect(result).toHaveProperty('overflowEvents');
+            expect(result).toHaveProperty('overflowEventsPerYear');
+            expect(result).toHaveProperty('maxPondingDepth_mm');
+        });
+    });
+});
+
+describe('hydrology-engine Pavement Contract Tests', () => {
+    it('createPermeablePavementService returns valid service', () => {
+        expect(createPermeablePavementService()).toBeInstanceOf(PermeablePavementService);
+    });
+
+    it('design returns PermeablePavementDesign structure', () => {
+        const result: PermeablePavementDesign = createPermeablePavementService().design({
+            area_m2: 100,
+            runOnArea_m2: 100,
+            designDepth_mm: 25,
+            infiltrationRate_mm_hr: 10
+        });
+
+        expect(result).toHaveProperty('loadingRatio', 1);
+        expect(result).toHaveProperty('maxLoadingRatio');
+        expect(result).toHaveProperty('maxRunOnArea_m2');
+        expect(result).toHaveProperty('acceptsRunOn');
+        expect(result).toHaveProperty('storageVolume_L');
+        expect(result).toHaveProperty('baseDepth_mm');
+        expect(result).toHaveProperty('drawdownTime_hr');
+        expect(result).toHaveProperty('underdrainRequired');
+        expect(result).toHaveProperty('underdrainReason');
+    });
+});
+
+describe('hydrology-engine DWA-A 138 Contract Tests', () => {
+    it('createDwaA138Service returns valid service', () => {
+        expect(createDwaA138Service()).toBeInstanceOf(DwaA138Service);
+    });
+
+    it('size returns InfiltrationFacilityDesign structure', () => {
+        const result: InfiltrationFacilityDesign = createDwaA138Service().size({
+            facility: 'mulden_rigole',
+            connectedArea_m2: 500,
+            kf_m_s: 1e-6,
+            rainfall: kostraFromIdf(IDF_PRESETS.de_berlin, 5)
+        });
+
+        expect(result).toHaveProperty('facility', 'mulden_rigole');
+        expect(result).toHaveProperty('criticalDuration_min');
+        expect(result).toHaveProperty('surfaceArea_m2');
+        expect(result).toHaveProperty('storageVolume_m3');
+        expect(result).toHaveProperty('emptyingTime_hr');
+        expect(result).toHaveProperty('trenchLength_m');
+        expect(result).toHaveProperty('kfPermissible');
+        expect(result).toHaveProperty('emptyingTimeOk');
+        expect(result).toHaveProperty('compliant');
+    });
+});
+
+describe('hydrology-engine Detention Routing Contract Tests', () => {
+    it('createDetentionRoutingService returns valid service', () => {
+        expect(createDetentionRoutingService()).toBeInstanceOf(DetentionRoutingService);
+    });
+
+    it('route returns DetentionRoutingResult structure', () => {
+        const result: DetentionRoutingResult = createDetentionRoutingService().route({
+            rating: createStageStorageDischarge(prismaticStorage(20, 1), [
+                { type: 'orifice', diameter_m: 0.05, invert_m: 0 },
+                { type: 'weir', crestLength_m: 0.5, crest_m: 0.8 }
+            ]),
+            inflow: createHydrograph(5, [0, 10, 20, 10, 0]),
+            dischargeLimit_Ls: 10
+        });
+
+        expect(result.outflow.flows_Ls.length).toBeGreaterThanOrEqual(5);
+        expect(result.stages_m).toHaveLength(result.outflow.flows_Ls.length);
+        expect(result).toHaveProperty('peakInflow_Ls', 20);
+        expect(result).toHaveProperty('peakOutflow_Ls');
+        expect(result).toHaveProperty('peakAttenuation_percent');
+        expect(result).toHaveProperty('peakLag_min');
+        expect(result).toHaveProperty('maxStage_m');
+        expect(result).toHaveProperty('maxStorage_m3');
+        expect(result).toHaveProperty('overtopped');
+        expect(typeof result.meetsDischargeLimit).toBe('boolean');
+    });
+});
+
+describe('hydrology-engine Climate Scenario Contract Tests', () => {
+    it('createClimateScenarioService returns valid service', () => {
+        expect(createClimateScenarioService()).toBeInstanceOf(ClimateScenarioService);
+    });
+
+    it('compare returns one ClimateScenarioResult per scenario', () => {
+        const results: ClimateScenarioResult[] = createClimateScenarioService().compare({
+            intensity_mm_hr: 40, depth_mm: 25, returnPeriod_yr: 10, table: DEFAULT_CLIMATE_UPLIFT
+        });
+
+        expect(results.map(r => r.scenario)).toEqual([...CLIMATE_SCENARIOS]);
+        results.forEach(r => {
+            expect(r).toHaveProperty('factor');
+            expect(r).toHaveProperty('intensity_mm_hr');
+            expect(r).toHaveProperty('depth_mm');
+        });
+    });
+
+    it('exports regional uplift presets that never reduce rainfall', () => {
+        Object.values(CLIMATE_UPLIFT_PRESETS).forEach(table => {
+            expect(upliftFactor(table, '2050', 10)).toBeGreaterThanOrEqual(1);
+            expect(upliftFactor(table, '2100', 10)).toBeGreaterThanOrEqual(upliftFactor(table, '2050', 10));
+        });
+    });
+});
+
+describe('hydrology-engine Flow Routing Contract Tests', () => {
+    it('createFlowRoutingService returns valid service', () => {
+        expect(createFlowRoutingService()).toBeInstanceOf(FlowRoutingService);
+    });
+
+    it('route returns a FlowRoutingResult', () => {
+        const raster = createTerrainRaster([[0.2, 0.1], [0.1, 0]], 1);
+        const result: FlowRoutingResult = createFlowRoutingService().route(raster);
+
+        expect(result.receivers).toHaveLength(4);
+        expect(result.accumulation[3]).toBe(4);
+        expect(result).toHaveProperty('sinks');
+        expect(result).toHaveProperty('concentrationPoints');
+        expect(result).toHaveProperty('channels');
+    });
+});
+
+describe('hydrology-engine Ponding Contract Tests', () => {
+    it('createPondingService returns valid service', () => {
+        expect(createPondingService()).toBeInstanceOf(PondingService);
+    });
+
+    it('simulate returns a PondingResult', () => {
+        const flow = createFlowRoutingService().route(createTerrainRaster([[1, 1, 1], [1, 0, 1], [1, 1, 1]], 1));
+        const result: PondingResult = createPondingService().simulate({ flow, rainfall_mm: 50, runoffCoefficient: 1 });
+
+        expect(result.depths_m).toHaveLength(9);
+        expect(result.depths_m[4]).toBeCloseTo(0.45, 3);
+        expect(result.pondedVolume_m3).toBeCloseTo(0.45);
+        expect(result.floodedArea_m2).toBe(1);
+        expect(result).toHaveProperty('ponds');
+        expect(result).toHaveProperty('spillPoints');
+    });
+
+    it('MIN_PONDING_DEPTH_M is a few millimetres', () => {
+        expect(MIN_PONDING_DEPTH_M).toBeGreaterThan(0);
+        expect(MIN_PONDING_DEPTH_M).toBeLessThan(0.05);
+    });
+});
+
+describe('hydrology-engine Sub-Catchment Contract Tests', () => {
+    it('createSubCatchmentService returns valid service', () => {
+        expect(createSubCatchmentService()).toBeInstanceOf(SubCatchmentService);
+    });
+
+    it('delineate returns a SubCatchmentResult', () => {
+        const flow = createFlowRoutingService().route(createTerrainRaster([[0.2, 0.1], [0.1, 0]], 1));
+        const result: SubCatchmentResult = createSubCatchmentService().delineate({ flow, outlets: [{ x: 1, y: 1 }] });
+
+        expect(result.labels).toEqual([0, 0, 0, 0]);
+        expect(result.subCatchments).toHaveLength(1);
+        expect(result.subCatchments[0].area_m2).toBe(4);
+        expect(result.subCatchments[0].outlet.source).toBe('placed');
+        expect(result.unassignedArea_m2).toBe(0);
+    });
+
+    it('OUTLET_SNAP_RADIUS_M reaches past a single cell', () => {
+        expect(OUTLET_SNAP_RADIUS_M).toBeGreaterThanOrEqual(0.5);
+    });
+});
+
+describe('hydrology-engine Kinematic Wave Contract Tests', () => {
+    it('createKinematicWaveService returns valid service', () => {
+        expect(createKinematicWaveService()).toBeInstanceOf(KinematicWaveService);
+    });
+
+    it('solve returns a KinematicWaveResult', () => {
+        const result: KinematicWaveResult = createKinematicWaveService().solve({
+            plane: { length_m: 20, width_m: 5, slope: 0.02, manningN: DEFAULT_MANNING_N },
+            rainfall: { intensities_mm_hr: [36], timeStep_min: 30 },
+            duration_min: 30
+        });
+
+        expect(result.hydrograph.flows_Ls).toHaveLength(31);
+        expect(result.hydrograph.peakFlow_Ls).toBeCloseTo(1, 2);
+        expect(result.rainfallVolume_m3).toBeCloseTo(1.8);
+        expect(result).toHaveProperty('profiles_Ls');
+        expect(result).toHaveProperty('infiltrationVolume_m3');
+    });
+});
+
+describe('hydrology-engine Hydrograph Validation Contract Tests', () => {
+    it('createHydrographValidationService returns valid service', () => {
+        expect(createHydrographValidationService()).toBeInstanceOf(HydrographValidationService);
+    });
+
+    it('parseReferenceHydrograph returns a ReferenceHydrograph', () => {
+        const reference: ReferenceHydrograph = parseReferenceHydrograph('time_min,flow_m3s\n0,0\n10,0.02\n20,0');
+
+        expect(reference.times_min).toEqual([0, 10, 20]);
+        expect(reference.flows_Ls).toEqual([0, 20, 0]);
+    });
+
+    it('validate returns a HydrographValidationResult', () => {
+        const reference = parseReferenceHydrograph('time_min,flow_m3s\n0,0\n10,0.02\n20,0');
+        const result: HydrographValidationResult = createHydrographValidationService()
+            .validate(createHydrograph(10, [0, 18, 0]), reference);
+
+        expect(result.times_min).toEqual([0, 10, 20]);
+        expect(result.peakError_percent).toBeCloseTo(-10);
+        expect(result.pbias_percent).toBeCloseTo(10);
+        expect(result).toHaveProperty('nse');
+        expect(result).toHaveProperty('kge');
+        expect(FIT_THRESHOLDS.map(t => t.rating)).toContain(result.rating);
+    });
+
+    it('createRationalHydrograph holds the peak from Tc to the end of the storm', () => {
+        const hydrograph = createRationalHydrograph({ peakFlow_Ls: 10, tc_min: 10, stormDuration_min: 20, timeStep_min: 5, duration_min: 40 });
+
+        expect(hydrograph.flows_Ls).toEqual([0, 5, 10, 10, 10, 5, 0, 0, 0]);
+    });
+});
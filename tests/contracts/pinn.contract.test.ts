@@ -0,0 +1,78 @@
+/**
+ * @jest-environment node
+ *
+ * Contract Tests: pinn
+ *
+ * Validates the PINN API routes against the model published in
+ * public/models/pinn_runoff: the registry manifest, the batched hydrograph
+ * and depth profile, the extrapolation policy and the 503 answered when no
+ * verified model can be loaded.
+ */
+import * as tf from '@tensorflow/tfjs';
+import { pinnRoutes } from '../../src/api/routes/pinn';
+import { MANIFEST_SCHEMA_VERSION } from '../../src/ml/pinnRegistry';
+
+function postHydrograph(routes: typeof pinnRoutes, body: object) {
+    return routes.request('/hydrograph', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+    });
+}
+
+const storm = { rainfall: 50, slope: 0.02, manningN: 0.015, length_m: 100, duration_min: 60, timeStep_min: 10, profileStations: 5 };
+
+beforeAll(async () => {
+    await tf.setBackend('cpu');
+});
+
+describe('pinn Contract Tests', () => {
+    describe('GET /model', () => {
+        it('returns the manifest of the published model', async () => {
+            const response = await pinnRoutes.request('/model');
+            const manifest = await response.json();
+
+            expect(response.status).toBe(200);
+            expect(manifest.schemaVersion).toBe(MANIFEST_SCHEMA_VERSION);
+            expect(manifest.version).toMatch(/^\d+\.\d+\.\d+$/);
+            expect(manifest.datasetHash).toMatch(/^[0-9a-f]{8}$/);
+        });
+    });
+
+    describe('POST /hydrograph', () => {
+        it('returns the outlet hydrograph and depth profile', async () => {
+            const response = await postHydrograph(pinnRoutes, storm);
+            const { result } = await response.json();
+
+            expect(response.status).toBe(200);
+            expect(result.hydrograph.flows_Ls).toHaveLength(7);
+            expect(result.hydrograph.flows_Ls[0]).toBe(0);
+            expect(result.hydrograph.peakFlow_Ls).toBeGreaterThan(0);
+            expect(result.depthProfile_mm).toHaveLength(5);
+            expect(result.extrapolated).toEqual([]);
+        });
+
+        it('refuses inputs outside the training domain under the refuse policy', async () => {
+            const response = await postHydrograph(pinnRoutes, { ...storm, rainfall: 400, policy: 'refuse' });
+
+            expect(response.status).toBe(422);
+            expect((await response.json()).success).toBe(false);
+        });
+
+        it('answers 503 with the reason when no model is published', async () => {
+            process.env.PINN_MODEL_DIR = '/nonexistent/pinn_runoff';
+            let routes: typeof pinnRoutes | undefined;
+            jest.isolateModules(() => {
+                routes = jest.requireActual('../../src/api/routes/pinn').pinnRoutes;
+            });
+            delete process.env.PINN_MODEL_DIR;
+
+            const response = await postHydrograph(routes!, storm);
+            const body = await response.json();
+
+            expect(response.status).toBe(503);
+            expect(body.error).toContain('PINN_MODEL_DIR');
+            expect(body.error).toContain('/nonexistent/pinn_runoff/manifest.json');
+        });
+    });
+});
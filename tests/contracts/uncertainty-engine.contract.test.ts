@@ -0,0 +1,91 @@
+/**
+ * Contract Tests: uncertainty-engine
+ *
+ * Validates the public API surface of the uncertainty-engine microservice.
+ * Tests factory functions, seeded sampling, percentile bands and the
+ * retrofit uncertainty bands.
+ */
+import {
+    createMonteCarloService,
+    createRetrofitUncertaintyService,
+    createSeededRandom,
+    sampleDistribution,
+    createPercentileBand,
+    scanAccuracyPercent,
+    MonteCarloService,
+    RetrofitUncertaintyService,
+    DEFAULT_ITERATIONS,
+    UNCALIBRATED_SCAN_ACCURACY_PERCENT,
+    type Distribution,
+    type PercentileBand,
+    type RetrofitUncertaintyResult
+} from '../../src/lib/uncertainty-engine';
+
+describe('uncertainty-engine Contract Tests', () => {
+    describe('Factory Functions', () => {
+        it('createMonteCarloService returns a MonteCarloService', () => {
+            const service = createMonteCarloService();
+            expect(service).toBeInstanceOf(MonteCarloService);
+            expect(typeof service.run).toBe('function');
+        });
+
+        it('createRetrofitUncertaintyService returns a RetrofitUncertaintyService', () => {
+            const service = createRetrofitUncertaintyService();
+            expect(service).toBeInstanceOf(RetrofitUncertaintyService);
+            expect(typeof service.estimate).toBe('function');
+        });
+    });
+
+    describe('Sampling and Bands', () => {
+        it('samples a distribution from a seeded source', () => {
+            const dist: Distribution = { kind: 'uniform', min: 2, max: 4 };
+            const value = sampleDistribution(dist, createSeededRandom(1));
+            expect(value).toBeGreaterThanOrEqual(2);
+            expect(value).toBeLessThan(4);
+        });
+
+        it('summarises a sample as an ordered P10 / P50 / P90 band', () => {
+            const band: PercentileBand = createPercentileBand([5, 1, 4, 2, 3]);
+            expect(band.p10).toBeLessThanOrEqual(band.p50);
+            expect(band.p50).toBe(3);
+            expect(band.p90).toBeGreaterThanOrEqual(band.p50);
+        });
+
+        it('runs a model for the default number of iterations', () => {
+            const result = createMonteCarloService().run({ x: { kind: 'normal', mean: 1, sd: 0.1 } }, s => ({ y: s.x }));
+            expect(result.iterations).toBe(DEFAULT_ITERATIONS);
+            expect(Object.isFrozen(result)).toBe(true);
+        });
+    });
+});
+
+describe('uncertainty-engine Retrofit Uncertainty Contract Tests', () => {
+    describe('Retrofit Uncertainty', () => {
+        it('returns frozen bands for every retrofit output', () => {
+            const result: RetrofitUncertaintyResult = createRetrofitUncertaintyService().estimate({
+                area_m2: 300,
+                calibration: { accuracy: 0, isCalibrated: false },
+                runoffCoefficient: 0.8,
+                imperviousPercent: 80,
+                peakRunoff_Ls: 3.3,
+                wqv_L: 7000,
+                annualRainfall_mm: 1000,
+                bmps: [{ type: 'bioswale', area_m2: 20 }]
+            });
+
+            expect(Object.isFrozen(result)).toBe(true);
+            expect(result.scanAccuracy_percent).toBe(UNCALIBRATED_SCAN_ACCURACY_PERCENT);
+            expect(Object.keys(result.bands).sort()).toEqual([
+                'nitrogenRemoved_lb_yr',
+                'peakReduction_percent',
+                'peakRunoff_Ls',
+                'phosphorusRemoved_lb_yr',
+                'wqv_L'
+            ]);
+        });
+
+        it('derives the scan spread from tape calibration', () => {
+            expect(scanAccuracyPercent({ accuracy: 5, isCalibrated: true })).toBe(5);
+        });
+    });
+});
@@ -0,0 +1,64 @@
+import {
+    BMP_TYPES,
+    getBmpDefinition,
+    isBMPType,
+    mapCatalog,
+    streetSpace_m2
+} from '../../../src/lib/bmp-catalog/domain/valueObjects/BmpDefinition';
+import { BMP_CATALOG } from '../../../src/lib/bmp-catalog/config/bmpCatalog';
+import { BMP_REMOVAL_RATES } from '../../../src/lib/env-calculator/domain/valueObjects/RemovalRate';
+import { BMP_DESIGN_FACTORS } from '../../../src/lib/env-calculator/domain/valueObjects/BmpDesignFactor';
+
+describe('BmpDefinition', () => {
+    it('lists every catalogued BMP type', () => {
+        expect(BMP_TYPES).toEqual(['rain_garden', 'permeable_pavement', 'tree_planter', 'green_roof', 'bioswale']);
+        BMP_TYPES.forEach(type => expect(BMP_CATALOG[type].type).toBe(type));
+    });
+
+    it('recognises catalogued types only', () => {
+        expect(isBMPType('green_roof')).toBe(true);
+        expect(isBMPType('pond')).toBe(false);
+        expect(getBmpDefinition('bioswale').display.name).toBe('Bioswale');
+        expect(() => getBmpDefinition('pond')).toThrow('Unknown BMP type: pond');
+    });
+
+    it('combines the street share and the fixed allowance', () => {
+        expect(streetSpace_m2('rain_garden', 1000)).toBe(200);
+        expect(streetSpace_m2('tree_planter', 1000)).toBe(30);
+        expect(streetSpace_m2('bioswale', 1000)).toBe(100);
+    });
+
+    it('builds per-type tables from the catalog', () => {
+        expect(mapCatalog(bmp => bmp.unitCost_per_m2)).toEqual({
+            rain_garden: 800,
+            permeable_pavement: 120,
+            tree_planter: 500,
+            green_roof: 90,
+            bioswale: 250
+        });
+    });
+
+    it('feeds the pollutant and design tables of env-calculator', () => {
+        expect(BMP_REMOVAL_RATES.green_roof).toEqual({
+            bmpType: 'green_roof',
+            phosphorus_lb_acre_yr: 0.20,
+            nitrogen_lb_acre_yr: 0.15,
+            sediment_percent: 70,
+            runoffReduction_percent: 50
+        });
+        expect(BMP_DESIGN_FACTORS.bioswale).toEqual({
+            bmpType: 'bioswale',
+            unitCost_per_m2: 250,
+            storageDepth_mm: 150,
+            minSetback_m: 3.0
+        });
+    });
+
+    it('maps every BMP type to a SWMM LID control with a surface layer', () => {
+        BMP_TYPES.forEach(type => {
+            expect(getBmpDefinition(type).swmm.layers.SURFACE).toHaveLength(5);
+        });
+        expect(getBmpDefinition('green_roof').swmm.type).toBe('GR');
+        expect(getBmpDefinition('permeable_pavement').swmm.layers.PAVEMENT).toBeDefined();
+    });
+});
@@ -70,3 +70,22 @@ describe('Model Loading', () => {
         expect(model).toHaveAttribute('src', expect.stringContaining('rain_garden'));
     });
 });
+
+describe('Catalogued BMP models', () => {
+    it('renders green roofs and bioswales from the BMP catalog', () => {
+        const { container } = render(
+            <ModelPlacement
+                fixes={[
+                    { type: 'green_roof', size: 20, reductionRate: 0.5, placement: 'Shelter roof' },
+                    { type: 'bioswale', size: 40, reductionRate: 0.35, placement: 'Road median' }
+                ]}
+            />
+        );
+
+        expect(screen.getByText('Green Roof')).toBeInTheDocument();
+        expect(screen.getByText('Bioswale')).toBeInTheDocument();
+        const sources = [...container.querySelectorAll('model-viewer')].map(m => m.getAttribute('src'));
+        expect(sources).toEqual(['/models/green_roof.glb', '/models/bioswale.glb']);
+    });
+});
+
@@ -0,0 +1,65 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { ProjectView } from '../../../src/components/ProjectView';
+import { projectService } from '../../../src/services/projectService';
+import { exportProjectPDF } from '../../../src/services/pdfExport';
+import type { Project } from '../../../src/types/database';
+
+jest.mock('react-router-dom', () => ({
+    useParams: () => ({ id: 'p1' }),
+    useNavigate: () => jest.fn()
+}));
+
+jest.mock('../../../src/services/projectService', () => ({
+    projectService: { getById: jest.fn() }
+}));
+
+jest.mock('../../../src/services/pdfExport', () => ({
+    exportProjectPDF: jest.fn().mockResolvedValue(undefined)
+}));
+
+const project: Project = {
+    id: 'p1',
+    user_id: 'u1',
+    street_name: 'Elm Street',
+    screenshot: null,
+    features: [],
+    sub_catchments: [],
+    validation_error: null,
+    jurisdiction_code: null,
+    tc_min: null,
+    total_area: 100,
+    total_reduction: 0,
+    created_at: '',
+    updated_at: '',
+    share_url: '/p/p1'
+};
+
+/** Render a saved project and export its PDF report */
+async function exportReport(saved: Project) {
+    (projectService.getById as jest.Mock).mockResolvedValue({ data: saved, error: null });
+    render(<ProjectView />);
+    fireEvent.click(await screen.findByText('📄 Export PDF Report'));
+    await waitFor(() => expect(exportProjectPDF).toHaveBeenCalled());
+    return (exportProjectPDF as jest.Mock).mock.calls[0][0];
+}
+
+beforeEach(() => {
+    jest.clearAllMocks();
+});
+
+describe('ProjectView report profile', () => {
+    it('reports a project saved without a profile against the labelled global baseline', async () => {
+        const report = await exportReport(project);
+
+        expect(screen.getByText(/Reported under WHO\/EPA Global Baseline \(no profile saved/)).toBeTruthy();
+        expect(report.profileName).toContain('WHO/EPA Global Baseline');
+        expect(report.rainfall).toBe(50);
+    });
+
+    it('takes the capture depth and annual rainfall of the saved profile', async () => {
+        const report = await exportReport({ ...project, jurisdiction_code: 'US-VA-059' });
+
+        expect(report.profileName).toBe('Fairfax County LID Manual');
+        expect(report.uncertainty.bands.wqv_L.p50).toBeGreaterThan(38.1 * 100 * 0.8);
+    });
+});
@@ -1,46 +1,71 @@
 import { render, screen } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import { ValidationChart } from '../../../src/components/ValidationChart';
-import { getHecRasPeakLs, HEC_RAS_PEAK } from '../../../src/utils/hecRasConstants';
+import { createHydrograph, createKinematicWaveService } from '../../../src/lib/hydrology-engine';
+
+/** Rises to 76 L/s at 20 min and recedes over the hour */
+const reference = createHydrograph(5, [0, 13, 37, 57, 76, 72, 63, 53, 42, 30, 18, 8, 0]);
+
+/** The app holds its peak from Tc = 15 min to the end of a 30 min storm */
+const storm = { tc_min: 15, stormDuration_min: 30 };
 
 describe('ValidationChart', () => {
     describe('Rendering checks', () => {
         it('shows basic UI elements', () => {
-            render(<ValidationChart appPrediction={72} />);
-            expect(screen.getByText('HEC-RAS Validation')).toBeInTheDocument();
-            expect(screen.getByText(/\d+% accurate/)).toBeInTheDocument();
+            render(<ValidationChart {...storm} appPrediction={72} reference={reference} />);
+            expect(screen.getByText('Kinematic Wave Validation')).toBeInTheDocument();
+            expect(screen.getByText(/ fit$/)).toBeInTheDocument();
             expect(screen.getByText(/72\.0 L\/s/)).toBeInTheDocument();
             expect(screen.getByText(/76\.0 L\/s/)).toBeInTheDocument();
         });
 
         it('toggles download link', () => {
-            const { rerender } = render(<ValidationChart appPrediction={72} showDownload={true} />);
+            const { rerender } = render(<ValidationChart {...storm} appPrediction={72} reference={reference} showDownload={true} />);
             expect(screen.getByText(/Download validation data/)).toBeInTheDocument();
-            rerender(<ValidationChart appPrediction={72} showDownload={false} />);
+            rerender(<ValidationChart {...storm} appPrediction={72} reference={reference} showDownload={false} />);
             expect(screen.queryByText(/Download validation data/)).not.toBeInTheDocument();
         });
+
+        it('labels the time axis with the reference time to peak', () => {
+            render(<ValidationChart {...storm} appPrediction={72} reference={reference} />);
+            expect(screen.getByText('20m')).toBeInTheDocument();
+            expect(screen.getByText('60m')).toBeInTheDocument();
+        });
     });
+});
+
+describe('ValidationChart scoring', () => {
+    describe('Goodness of fit', () => {
+        it('scores the app hydrograph against the reference', () => {
+            render(<ValidationChart {...storm} appPrediction={72} reference={reference} />);
+            expect(screen.getByText(/^NSE 0\.\d\d$/)).toBeInTheDocument();
+            expect(screen.getByText(/^KGE 0\.\d\d$/)).toBeInTheDocument();
+            expect(screen.getByText(/^PBIAS -?\d+\.\d%$/)).toBeInTheDocument();
+        });
 
-    describe('Accuracy Calculation', () => {
-        it('calculates accuracy correctly', () => {
-            const hecRasPeak = getHecRasPeakLs();
-            const accuracy = Math.round((1 - Math.abs(72 - hecRasPeak) / hecRasPeak) * 100);
-            expect(accuracy).toBeGreaterThanOrEqual(94);
-            expect(accuracy).toBeLessThanOrEqual(96);
+        it('colours the fit by its rating', () => {
+            const { rerender } = render(<ValidationChart {...storm} appPrediction={74} reference={reference} />);
+            expect(screen.getByText('good fit')).toHaveClass('text-emerald-300');
+            rerender(<ValidationChart {...storm} appPrediction={20} reference={reference} />);
+            expect(screen.getByText('unsatisfactory fit')).toHaveClass('text-red-400');
         });
 
-        it('shows correct color based on accuracy', () => {
-            const { rerender } = render(<ValidationChart appPrediction={74} />);
-            expect(screen.getByText(/\d+% accurate/)).toHaveClass('text-emerald-400');
-            rerender(<ValidationChart appPrediction={70} />);
-            expect(screen.getByText(/\d+% accurate/)).toHaveClass('text-yellow-400');
+        it('explains why a reference without runoff cannot be scored', () => {
+            render(<ValidationChart {...storm} appPrediction={5} reference={createHydrograph(5, [0, 0, 0])} />);
+            expect(screen.getByText('Reference hydrograph has no variation')).toBeInTheDocument();
+            expect(screen.queryByText(/ fit$/)).not.toBeInTheDocument();
         });
     });
 
-    describe('Reference constants', () => {
-        it('exports correct peak value', () => {
-            expect(HEC_RAS_PEAK).toBe(0.076);
-            expect(getHecRasPeakLs()).toBe(76);
+    describe('Kinematic wave reference', () => {
+        it('rates the Rational Method hydrograph of a steady storm', () => {
+            const { hydrograph } = createKinematicWaveService().solve({
+                plane: { length_m: 20, width_m: 6, slope: 0.02, manningN: 0.015 },
+                rainfall: { intensities_mm_hr: [50], timeStep_min: 60 }
+            });
+            // i·A = 50 mm/hr over 120 m², at equilibrium after ~2 min
+            render(<ValidationChart tc_min={2} stormDuration_min={60} appPrediction={1.667} reference={hydrograph} />);
+            expect(screen.getByText('very good fit')).toBeInTheDocument();
         });
     });
 });
@@ -0,0 +1,92 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { ExportActionGroup } from '../../../../src/components/scanner/ui/ResultDisplay';
+import {
+    createCompositeCatchment,
+    createFlowRoutingService,
+    createPondingService,
+    createTerrainRaster
+} from '../../../../src/lib/hydrology-engine';
+import type { ARScannerState } from '../../../../src/hooks/useARScanner';
+
+const flow = createFlowRoutingService().route(createTerrainRaster([
+    [1, 1, 1],
+    [1, 0, 0.5],
+    [1, 1, 1]
+], 1));
+
+const scanner = {
+    locationName: 'Elm Street',
+    location: { lat: 38.85, lon: -77.3 },
+    detectedArea: 9,
+    validationError: null,
+    geoBoundary: null,
+    elevationGrid: null,
+    ponding: createPondingService().simulate({ flow, rainfall_mm: 200, runoffCoefficient: 1 })
+} as unknown as ARScannerState;
+
+const createObjectURL = jest.fn<string, [Blob]>(() => 'blob:export');
+
+beforeAll(() => {
+    URL.createObjectURL = createObjectURL;
+    URL.revokeObjectURL = jest.fn();
+    jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+});
+
+beforeEach(() => {
+    jest.clearAllMocks();
+});
+
+/** Click an export button and read back the downloaded file */
+async function download(label: string): Promise<string> {
+    fireEvent.click(screen.getByText(label));
+    await waitFor(() => expect(createObjectURL).toHaveBeenCalled());
+    const reader = new FileReader();
+    reader.readAsText(createObjectURL.mock.calls[0][0]);
+    return new Promise(resolve => { reader.onload = () => resolve(reader.result as string); });
+}
+
+describe('ExportActionGroup ponding', () => {
+    it('downloads the design storm ponding depths as the flood map', async () => {
+        render(<ExportActionGroup scanner={scanner} />);
+
+        const csv = await download('Flood Map');
+
+        expect(csv).toContain('# Ponding Depth Export (m) - Origin: 38.85, -77.3');
+        expect(csv).toContain('# Rainfall: 200.0 mm');
+    });
+
+    it('disables the flood map until the terrain has ponded', () => {
+        render(<ExportActionGroup scanner={{ ...scanner, ponding: null }} />);
+
+        expect(screen.getByText('Flood Map').closest('button')!.disabled).toBe(true);
+    });
+});
+
+describe('ExportActionGroup SWMM', () => {
+    const sized = {
+        ...scanner,
+        rainfall: 50,
+        hyetograph: null,
+        climateScenario: '2050',
+        climateScenarios: [{ scenario: '2050', factor: 1.2, intensity_mm_hr: 60, depth_mm: 36 }],
+        catchment: createCompositeCatchment([{ surface: 'asphalt', area_m2: 400 }], 'C'),
+        tcResult: { method: 'kirpich', tc_min: 8, flowLength_m: 30, slope: 0.02 },
+        fixes: [{ type: 'rain_garden', size: 20, placement: 'Sidewalk edge', reductionRate: 0.4 }]
+    } as unknown as ARScannerState;
+
+    it('downloads the SWMM model of the catchment, its LID controls and the design storm', async () => {
+        render(<ExportActionGroup scanner={sized} />);
+
+        const inp = await download('SWMM Model');
+
+        expect(inp).toContain('[SUBCATCHMENTS]');
+        expect(inp).toContain('[LID_USAGE]');
+        expect(inp).toMatch(/\[TIMESERIES\][^[]*\s60\.00\n/);
+    });
+
+    it('disables the SWMM model until the catchment Tc is known', () => {
+        render(<ExportActionGroup scanner={{ ...sized, tcResult: null }} />);
+
+        expect(screen.getByText('SWMM Model').closest('button')!.disabled).toBe(true);
+    });
+});
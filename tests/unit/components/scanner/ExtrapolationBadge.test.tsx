@@ -0,0 +1,19 @@
+import { render, screen } from '@testing-library/react';
+import { ExtrapolationBadge } from '../../../../src/components/scanner/HUD/ExtrapolationBadge';
+
+describe('ExtrapolationBadge', () => {
+    it('flags extrapolated PINN inputs with the warnings as its tooltip', () => {
+        const warnings = ['rainfall 400 mm/hr is above the training range (1–150 mm/hr)', 'slope 0.3 is above the training range'];
+        render(<ExtrapolationBadge warnings={warnings} />);
+
+        const badge = screen.getByTestId('extrapolation-badge');
+        expect(badge.textContent).toContain('PINN Extrapolation · 2');
+        expect(badge.getAttribute('title')).toBe(warnings.join('\n'));
+    });
+
+    it('stays hidden while the inputs are inside the training domain', () => {
+        render(<ExtrapolationBadge warnings={[]} />);
+
+        expect(screen.queryByTestId('extrapolation-badge')).toBeNull();
+    });
+});
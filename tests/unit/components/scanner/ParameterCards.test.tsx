@@ -0,0 +1,42 @@
+import { render, screen } from '@testing-library/react';
+import { ParameterCards } from '../../../../src/components/scanner/analysis/ParameterCards';
+
+type Scanner = Parameters<typeof ParameterCards>[0]['scanner'];
+
+const scanner = {
+    sizingMode: 'rate',
+    intensityMode: 'auto',
+    rainfall: 50,
+    unitSystem: 'metric',
+    fixes: [],
+    detectedArea: 100,
+    climateScenarios: null,
+    peakRunoff: 1.234,
+    isPinnActive: true,
+    pinnModelVersion: '1.0.0',
+    hydrologyError: null,
+    update: jest.fn()
+};
+
+const renderCards = (overrides: object = {}) => render(<ParameterCards scanner={{ ...scanner, ...overrides } as unknown as Scanner} />);
+
+describe('ParameterCards peak runoff', () => {
+    it('shows the peak runoff with the version of the PINN that produced it', () => {
+        renderCards();
+
+        expect(screen.getByTestId('peak-runoff').textContent).toContain('1.23L/s');
+        expect(screen.getByText('⚡ PINN v1.0.0')).toBeTruthy();
+    });
+
+    it('drops the PINN version when the runoff fell back to the Rational Method', () => {
+        renderCards({ isPinnActive: false });
+
+        expect(screen.queryByText(/PINN v/)).toBeNull();
+    });
+
+    it('reports why the peak runoff was not updated', () => {
+        renderCards({ hydrologyError: 'No runoff volume formula' });
+
+        expect(screen.getByTestId('peak-runoff').textContent).toContain('Not updated: No runoff volume formula');
+    });
+});
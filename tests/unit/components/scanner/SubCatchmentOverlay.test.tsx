@@ -0,0 +1,69 @@
+import { render } from '@testing-library/react';
+import type mapboxgl from 'mapbox-gl';
+import { SubCatchmentOverlay } from '../../../../src/components/scanner/map/SubCatchmentOverlay';
+import type { SubCatchmentPlan } from '../../../../src/types/database';
+
+const mockMarker = {
+    setLngLat: jest.fn().mockReturnThis(),
+    addTo: jest.fn().mockReturnThis(),
+    remove: jest.fn()
+};
+
+jest.mock('mapbox-gl', () => ({
+    __esModule: true,
+    default: { Marker: jest.fn(() => mockMarker) }
+}));
+
+type Source = { data: { features: { properties: { color: string } }[] } };
+
+/** Map stub that keeps track of its sources and layers */
+function createMap() {
+    const sources = new Set<string>();
+    const layers = new Set<string>();
+    return {
+        addSource: jest.fn<void, [string, Source]>(id => { sources.add(id); }),
+        addLayer: jest.fn(({ id }: { id: string }) => layers.add(id)),
+        getSource: jest.fn((id: string) => sources.has(id) || undefined),
+        getLayer: jest.fn((id: string) => layers.has(id) || undefined),
+        removeSource: jest.fn((id: string) => sources.delete(id)),
+        removeLayer: jest.fn((id: string) => layers.delete(id))
+    };
+}
+
+const square = [[[-77.0365, 38.8977], [-77.0355, 38.8977], [-77.0355, 38.8987], [-77.0365, 38.8977]]];
+const subCatchments = [{ footprint: square }, { footprint: square }] as SubCatchmentPlan[];
+const outlets = [{ lat: 38.8977, lon: -77.0365 }];
+
+beforeEach(() => {
+    jest.clearAllMocks();
+});
+
+describe('SubCatchmentOverlay', () => {
+    it('marks each inlet and draws the sub-catchments in their own colours', () => {
+        const map = createMap();
+        render(<SubCatchmentOverlay map={{ current: map as unknown as mapboxgl.Map }} isMapReady outlets={outlets} subCatchments={subCatchments} />);
+
+        expect(mockMarker.setLngLat).toHaveBeenCalledWith([-77.0365, 38.8977]);
+        const { data } = map.addSource.mock.calls[0][1];
+        expect(data.features.map(f => f.properties.color)).toEqual(['#38bdf8', '#a78bfa']);
+    });
+
+    it('replaces the markers and layer when the delineation changes', () => {
+        const map = createMap();
+        const props = { map: { current: map as unknown as mapboxgl.Map }, isMapReady: true, outlets };
+        const { rerender } = render(<SubCatchmentOverlay {...props} subCatchments={subCatchments} />);
+        rerender(<SubCatchmentOverlay {...props} subCatchments={null} />);
+
+        expect(mockMarker.remove).toHaveBeenCalledTimes(1);
+        expect(map.removeLayer).toHaveBeenCalledWith('sub-catchments-fill');
+        expect(map.getSource('sub-catchments')).toBeUndefined();
+    });
+
+    it('waits for the map to be ready', () => {
+        const map = createMap();
+        render(<SubCatchmentOverlay map={{ current: map as unknown as mapboxgl.Map }} isMapReady={false} outlets={outlets} subCatchments={subCatchments} />);
+
+        expect(mockMarker.addTo).not.toHaveBeenCalled();
+        expect(map.addSource).not.toHaveBeenCalled();
+    });
+});
@@ -1,6 +1,7 @@
 import { render, screen } from '@testing-library/react';
 import { WalkingCoverageOverlay } from '../../../../src/components/scanner/coverage/WalkingCoverageOverlay';
 import { GeoPolygon } from '../../../../src/lib/spatial-coverage/domain/valueObjects/GeoPolygon';
+import { createFlowRoutingService, createPondingService, createTerrainRaster } from '../../../../src/lib/hydrology-engine';
 
 // Mock canvas context
 const mockContext = {
@@ -224,6 +225,66 @@ describe('WalkingCoverageOverlay', () => {
         });
     });
 
+    describe('Coverage Gaps', () => {
+        it('should shade the coverage gaps left to walk', () => {
+            const gaps = [
+                { centerX: 0.25, centerY: 0.25, areaM2: 0.25 },
+                { centerX: 0.75, centerY: 0.25, areaM2: 0.25 }
+            ];
+
+            const cells = (extra: object) => {
+                jest.clearAllMocks();
+                render(<WalkingCoverageOverlay {...defaultProps} boundary={createTestPolygon()} {...extra} />);
+                return mockContext.fillRect.mock.calls.length;
+            };
+
+            expect(cells({ gaps }) - cells({})).toBe(gaps.length);
+        });
+    });
+
+    describe('Flow Routing', () => {
+        it('should draw channels and concentration points of the scanned terrain', () => {
+            const flow = createFlowRoutingService().route(createTerrainRaster([
+                [0.4, 0.3, 0.2],
+                [0.3, 0.2, 0.1],
+                [0.2, 0.1, 0.0]
+            ], 1));
+
+            const draws = (extra: object) => {
+                jest.clearAllMocks();
+                render(<WalkingCoverageOverlay {...defaultProps} boundary={createTestPolygon()} {...extra} />);
+                return { lines: mockContext.lineTo.mock.calls.length, dots: mockContext.arc.mock.calls.length };
+            };
+            const base = draws({});
+            const withFlow = draws({ flow });
+
+            expect(flow.channels.length).toBeGreaterThan(0);
+            expect(withFlow.lines - base.lines).toBe(flow.channels.length);
+            expect(withFlow.dots - base.dots).toBe(flow.concentrationPoints.length);
+        });
+
+        it('should shade ponded cells and ring spill points', () => {
+            const flow = createFlowRoutingService().route(createTerrainRaster([
+                [1, 1, 1],
+                [1, 0, 0.5],
+                [1, 1, 1]
+            ], 1));
+            const ponding = createPondingService().simulate({ flow, rainfall_mm: 200, runoffCoefficient: 1 });
+
+            const draws = (extra: object) => {
+                jest.clearAllMocks();
+                render(<WalkingCoverageOverlay {...defaultProps} boundary={createTestPolygon()} {...extra} />);
+                return { cells: mockContext.fillRect.mock.calls.length, rings: mockContext.arc.mock.calls.length };
+            };
+            const base = draws({});
+            const withPonding = draws({ ponding });
+
+            expect(withPonding.cells - base.cells).toBe(1);
+            expect(withPonding.rings - base.rings).toBe(ponding.spillPoints.length);
+            expect(ponding.spillPoints).toHaveLength(1);
+        });
+    });
+
     describe('Progress Circle', () => {
         it('should render progress circle SVG', () => {
             const polygon = createTestPolygon();
@@ -0,0 +1,71 @@
+import { EventLoadService } from '../../../src/lib/env-calculator/domain/services/EventLoadService';
+import {
+    EVENT_MEAN_CONCENTRATIONS,
+    FIRST_FLUSH_EXPONENTS
+} from '../../../src/lib/env-calculator/domain/valueObjects/EventMeanConcentration';
+
+const service = new EventLoadService();
+
+/** 1000 m² commercial lot, fully paved */
+const lot = { area_m2: 1000, imperviousPercent: 100, landUse: 'commercial' as const };
+
+describe('Event Mean Concentration Loads', () => {
+    it('uses the Simple Method runoff coefficient', () => {
+        const result = service.calculateEventLoad({ ...lot, imperviousPercent: 50, rainfall_mm: 20 });
+
+        expect(result.runoffCoefficient).toBeCloseTo(0.5);
+        expect(result.runoffVolume_L).toBeCloseTo(10000);
+    });
+
+    it('computes event mass as EMC times runoff volume', () => {
+        const result = service.calculateEventLoad({ ...lot, rainfall_mm: 10, runoffCoefficient: 1 });
+
+        // 10 000 L at 43 mg/L TSS
+        expect(result.loads.sediment.mass_kg).toBeCloseTo(0.43);
+        expect(result.loads.phosphorus.emc_mg_L).toBe(EVENT_MEAN_CONCENTRATIONS.commercial.phosphorus);
+    });
+
+    it('scales with the land use concentrations', () => {
+        const freeway = service.calculateEventLoad({ ...lot, landUse: 'freeway', rainfall_mm: 10 });
+        const commercial = service.calculateEventLoad({ ...lot, rainfall_mm: 10 });
+
+        expect(freeway.loads.sediment.mass_kg).toBeGreaterThan(commercial.loads.sediment.mass_kg);
+    });
+
+    it('rejects empty areas and negative rainfall', () => {
+        expect(() => service.calculateEventLoad({ ...lot, area_m2: 0, rainfall_mm: 10 })).toThrow('Area must be positive');
+        expect(() => service.calculateEventLoad({ ...lot, rainfall_mm: -1 })).toThrow('Rainfall depth must not be negative');
+    });
+});
+
+describe('First Flush and WQv Capture', () => {
+    it('puts more than 30% of the mass in the first 30% of runoff', () => {
+        const { loads } = service.calculateEventLoad({ ...lot, rainfall_mm: 40 });
+
+        expect(loads.sediment.firstFlushMassFraction).toBeCloseTo(0.3 ** FIRST_FLUSH_EXPONENTS.sediment);
+        expect(loads.sediment.firstFlushMassFraction).toBeGreaterThan(loads.nitrogen.firstFlushMassFraction);
+        expect(loads.nitrogen.firstFlushMassFraction).toBeGreaterThan(0.3);
+    });
+
+    it('captures the first flush of a storm larger than the WQv', () => {
+        // Half the runoff fits into the default 25.4 mm WQv
+        const { capturedVolume_L, runoffVolume_L, loads } = service.calculateEventLoad({ ...lot, rainfall_mm: 50.8 });
+
+        expect(capturedVolume_L / runoffVolume_L).toBeCloseTo(0.5);
+        expect(loads.sediment.captured_kg / loads.sediment.mass_kg).toBeCloseTo(0.5 ** 0.6);
+        expect(loads.sediment.captured_kg + loads.sediment.bypassed_kg).toBeCloseTo(loads.sediment.mass_kg);
+    });
+
+    it('captures all of a storm within the WQv', () => {
+        const { loads } = service.calculateEventLoad({ ...lot, rainfall_mm: 10 });
+        expect(loads.phosphorus.bypassed_kg).toBeCloseTo(0);
+    });
+
+    it('applies a calibrated WQv and mass-volume exponent', () => {
+        const { loads } = service.calculateEventLoad({ ...lot, rainfall_mm: 40, wqv_L: 9500, firstFlushExponent: 1 });
+
+        // Without a first flush the captured mass follows the captured volume
+        expect(loads.nitrogen.captured_kg / loads.nitrogen.mass_kg).toBeCloseTo(0.25);
+        expect(loads.nitrogen.firstFlushMassFraction).toBeCloseTo(0.3);
+    });
+});
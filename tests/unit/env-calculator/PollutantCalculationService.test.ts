@@ -32,6 +32,16 @@ describe('Retrofit Load Comparison', () => {
     });
 });
 
+describe('Composite Catchment Loads', () => {
+    it('uses the composite runoff coefficient when provided', () => {
+        const paved = service.calculateBaselineLoad({ area_m2: 100, imperviousPercent: 60, annualRainfall_mm: 1000 });
+        const mixed = service.calculateBaselineLoad({
+            area_m2: 100, imperviousPercent: 60, runoffCoefficient: 0.4, annualRainfall_mm: 1000
+        });
+        expect(mixed.phosphorus_lb_yr).toBeCloseTo(paved.phosphorus_lb_yr * (0.4 / 0.6), 6);
+    });
+});
+
 describe('SLAF Compliance', () => {
     it('meets minimum phosphorus reduction threshold', () => {
         const result = service.calculateRemoval({ bmpType: 'rain_garden', area_m2: 50, imperviousPercent: 100, annualRainfall_mm: 1100 });
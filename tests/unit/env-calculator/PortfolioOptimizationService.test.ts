@@ -0,0 +1,126 @@
+import { PortfolioOptimizationService, portfolioMetricValue } from '../../../src/lib/env-calculator/domain/services/PortfolioOptimizationService';
+import type { PortfolioInput } from '../../../src/lib/env-calculator/domain/services/PortfolioOptimizationService';
+
+const service = new PortfolioOptimizationService();
+
+const catchment = { area_m2: 1000, imperviousPercent: 100, annualRainfall_mm: 1000 };
+const spaces: PortfolioInput['spaces'] = {
+    rain_garden: { area_m2: 200 },
+    permeable_pavement: { area_m2: 300 },
+    tree_planter: { area_m2: 30 }
+};
+
+describe('Cheapest Portfolio', () => {
+    it('fills the most cost-effective BMP first for peak reduction', () => {
+        // Permeable pavement: €120 per 0.07 %/m² beats rain gardens at €800 per 0.04 %/m²
+        const result = service.optimize({ target: { metric: 'peak_reduction', value: 14 }, catchment, spaces });
+
+        expect(result.feasible).toBe(true);
+        expect(result.optimal!.allocations).toEqual([{ bmpType: 'permeable_pavement', area_m2: 200, cost: 24000 }]);
+        expect(result.optimal!.peakReduction_percent).toBeCloseTo(14, 6);
+    });
+
+    it('moves on to the next BMP once usable space runs out', () => {
+        const result = service.optimize({ target: { metric: 'peak_reduction', value: 25 }, catchment, spaces });
+        const types = result.optimal!.allocations.map(a => a.bmpType);
+
+        expect(types).toContain('permeable_pavement');
+        expect(result.optimal!.allocations.find(a => a.bmpType === 'permeable_pavement')!.area_m2).toBe(300);
+        expect(result.optimal!.peakReduction_percent).toBeGreaterThanOrEqual(25);
+    });
+
+    it('ranks BMPs by cost per litre for a WQv target', () => {
+        // Rain garden €800/300 mm, planter €500/200 mm, pavement €120/120 mm
+        const result = service.optimize({ target: { metric: 'wqv', value: 12000 }, catchment, spaces });
+
+        expect(result.optimal!.allocations).toEqual([{ bmpType: 'permeable_pavement', area_m2: 100, cost: 12000 }]);
+        expect(result.optimal!.wqvCaptured_L).toBe(12000);
+    });
+
+    it('meets a phosphorus target', () => {
+        const result = service.optimize({ target: { metric: 'phosphorus', value: 0.01 }, catchment, spaces });
+
+        expect(result.feasible).toBe(true);
+        expect(result.optimal!.phosphorus_lb_yr).toBeGreaterThanOrEqual(0.01);
+    });
+});
+
+describe('Constraints', () => {
+    it('is infeasible when the site cannot reach the target', () => {
+        const result = service.optimize({ target: { metric: 'peak_reduction', value: 90 }, catchment, spaces });
+
+        expect(result.feasible).toBe(false);
+        expect(result.optimal).toBeNull();
+        expect(result.paretoFront.length).toBeGreaterThan(0);
+    });
+
+    it('is infeasible when the cheapest mix exceeds the budget', () => {
+        const result = service.optimize({ target: { metric: 'peak_reduction', value: 14 }, catchment, spaces, budget: 10000 });
+
+        expect(result.feasible).toBe(false);
+        expect(result.paretoFront.every(o => o.cost <= 10000)).toBe(true);
+    });
+
+    it('removes the part of a strip inside the building setback', () => {
+        const result = service.optimize({
+            target: { metric: 'peak_reduction', value: 100 },
+            catchment,
+            spaces: { rain_garden: { area_m2: 100, width_m: 4, distanceToBuilding_m: 1 } }
+        });
+
+        // 3 m setback leaves 2 m of the 4 m strip
+        expect(result.paretoFront.at(-1)!.allocations[0].area_m2).toBe(50);
+    });
+
+    it('excludes a strip narrower than the setback encroachment', () => {
+        const result = service.optimize({
+            target: { metric: 'peak_reduction', value: 1 },
+            catchment,
+            spaces: { rain_garden: { area_m2: 100, width_m: 2, distanceToBuilding_m: 0 } }
+        });
+
+        expect(result.feasible).toBe(false);
+        expect(result.paretoFront).toEqual([]);
+    });
+
+    it('accepts setback overrides', () => {
+        const result = service.optimize({
+            target: { metric: 'peak_reduction', value: 1 },
+            catchment,
+            spaces: { rain_garden: { area_m2: 100, width_m: 2, distanceToBuilding_m: 0 } },
+            setbacks_m: { rain_garden: 0 }
+        });
+
+        expect(result.feasible).toBe(true);
+    });
+});
+
+describe('Pareto Front', () => {
+    it('is sorted by cost with strictly increasing benefit', () => {
+        const { paretoFront } = service.optimize({ target: { metric: 'phosphorus', value: 0.02 }, catchment, spaces });
+
+        for (let i = 1; i < paretoFront.length; i++) {
+            expect(paretoFront[i].cost).toBeGreaterThan(paretoFront[i - 1].cost);
+            expect(portfolioMetricValue(paretoFront[i], 'phosphorus'))
+                .toBeGreaterThan(portfolioMetricValue(paretoFront[i - 1], 'phosphorus'));
+        }
+    });
+
+    it('includes the optimal portfolio', () => {
+        const result = service.optimize({ target: { metric: 'peak_reduction', value: 14 }, catchment, spaces });
+
+        expect(result.paretoFront).toContain(result.optimal);
+    });
+});
+
+describe('Error Handling', () => {
+    it('throws for a non-positive catchment area', () => {
+        expect(() => service.optimize({ target: { metric: 'wqv', value: 100 }, catchment: { ...catchment, area_m2: 0 }, spaces }))
+            .toThrow('Portfolio optimization requires a positive catchment area');
+    });
+
+    it('throws for a non-positive target', () => {
+        expect(() => service.optimize({ target: { metric: 'wqv', value: 0 }, catchment, spaces }))
+            .toThrow('Portfolio target must be positive');
+    });
+});
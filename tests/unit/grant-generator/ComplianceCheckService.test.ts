@@ -1,17 +1,19 @@
 import { describe, it, expect, beforeEach } from '@jest/globals';
 import { ComplianceCheckService } from '../../../src/lib/grant-generator/domain/services/ComplianceCheckService';
 import type { ProjectData } from '../../../src/lib/grant-generator/domain/services/ComplianceCheckService';
+import { DwaA138Service } from '../../../src/lib/hydrology-engine/domain/services/DwaA138Service';
+import { createKostraTable } from '../../../src/lib/hydrology-engine/domain/valueObjects/KostraRainfall';
 
-describe('ComplianceCheckService', () => {
-    let service: ComplianceCheckService;
-    beforeEach(() => { service = new ComplianceCheckService(); });
+let service: ComplianceCheckService;
+beforeEach(() => { service = new ComplianceCheckService(); });
 
-    const createProject = (overrides?: Partial<ProjectData>): ProjectData => ({
-        jurisdictionCode: 'US-VA-059', jurisdictionChain: ['Fairfax County', 'Virginia', 'USA'],
-        area_m2: 120, retention_in: 1.5, peakReduction_percent: 50, hasBCR: true, bcrValue: 1.8,
-        hasResiliencePlan: true, bmps: [{ type: 'rain_garden', area_m2: 24 }], ...overrides
-    });
+const createProject = (overrides?: Partial<ProjectData>): ProjectData => ({
+    jurisdictionCode: 'US-VA-059', jurisdictionChain: ['Fairfax County', 'Virginia', 'USA'],
+    area_m2: 120, retention_in: 1.5, peakReduction_percent: 50, hasBCR: true, bcrValue: 1.8,
+    hasResiliencePlan: true, bmps: [{ type: 'rain_garden', area_m2: 24 }], ...overrides
+});
 
+describe('ComplianceCheckService', () => {
     describe('CFPF Compliance', () => {
         it('should score 100% when all requirements met', () => {
             const result = service.checkCompliance(createProject(), 'CFPF');
@@ -44,3 +46,38 @@ describe('ComplianceCheckService', () => {
         });
     });
 });
+
+describe('ComplianceCheckService BENE2', () => {
+    describe('BENE2 DWA-A 138', () => {
+        const rainfall = createKostraTable(5, [{ duration_min: 15, intensity_Lsha: 100 }]);
+        const swale = (kf_m_s: number) =>
+            new DwaA138Service().size({ facility: 'mulde', connectedArea_m2: 200, kf_m_s, rainfall });
+        const berlin = (overrides?: Partial<ProjectData>) =>
+            createProject({ jurisdictionCode: 'DE-BE-MITTE', retention_mm: 30, ...overrides });
+        const dwaCheck = (project: ProjectData) =>
+            service.checkCompliance(project, 'BENE2').checks.find(c => c.id === 'dwa_a138');
+
+        it('should fail without a DWA-A 138 sizing even when BMPs are proposed', () => {
+            expect(dwaCheck(berlin())?.passed).toBe(false);
+            expect(dwaCheck(berlin())?.reason).toBe('DWA-A 138 sizing required');
+        });
+
+        it('should pass when the swales provide the required surface', () => {
+            const check = dwaCheck(berlin({ dwaA138: swale(1e-5) }));
+            expect(check?.passed).toBe(true);
+            expect(check?.threshold).toBe(8);
+        });
+
+        it('should fail when the swales are smaller than required', () => {
+            const check = dwaCheck(berlin({ dwaA138: swale(1e-5), bmps: [{ type: 'rain_garden', area_m2: 5 }] }));
+            expect(check?.passed).toBe(false);
+            expect(check?.reason).toBe('Infiltration area below required surface');
+        });
+
+        it('should fail on soils outside the permissible kf range', () => {
+            const check = dwaCheck(berlin({ dwaA138: swale(1e-7), bmps: [{ type: 'bioswale', area_m2: 500 }] }));
+            expect(check?.passed).toBe(false);
+            expect(check?.reason).toContain('Soil permeability');
+        });
+    });
+});
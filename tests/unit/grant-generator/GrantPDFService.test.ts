@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, jest } from '@jest/globals';
 import { GrantPDFService } from '../../../src/lib/grant-generator/domain/services/GrantPDFService';
 import type { GrantApplicationData, GeneratedPDF } from '../../../src/lib/grant-generator/domain/services/GrantPDFService';
+import { createDwaA138Service, createKostraTable, createPermeablePavementService } from '../../../src/lib/hydrology-engine';
 
 // Define mocks
 const mockSave = jest.fn();
@@ -84,3 +85,144 @@ describe('GrantPDFService', () => {
         expect(fakeDoc.save).toHaveBeenCalledWith('test.pdf');
     });
 });
+
+describe('GrantPDFService design records', () => {
+    const baseData: GrantApplicationData = {
+        project: { name: 'Pavement Project', area_m2: 200 },
+        geo: { jurisdictionCode: 'US-VA', hierarchy: ['Virginia'] },
+        pollutants: { TP: 0.1, TN: 1, sediment: 50 },
+        bmps: [{ type: 'permeable_pavement', area_m2: 100 }]
+    };
+
+    beforeEach(() => {
+        mockOutput.mockReturnValue(new Blob());
+    });
+
+    it('resolves permeable pavement design fields', async () => {
+        const designs = {
+            permeablePavement: createPermeablePavementService().design({
+                area_m2: 100, runOnArea_m2: 100, designDepth_mm: 25, infiltrationRate_mm_hr: 5
+            })
+        };
+
+        const { fields } = await new GrantPDFService().generate({ ...baseData, designs }, 'CFPF');
+
+        expect(fields.pp_base_depth).toBe('150 mm');
+        expect(fields.pp_drawdown).toBe('18.0 h');
+        expect(fields.pp_underdrain).toBe('✓');
+        expect(fields.pp_loading).toBe('1.0:1');
+        expect(fields.pp_max_loading).toBe('2.0:1');
+    });
+
+    it('resolves DWA-A 138 sizing fields', async () => {
+        const designs = {
+            dwaA138: createDwaA138Service().size({
+                facility: 'mulde', connectedArea_m2: 1000, kf_m_s: 1e-5,
+                rainfall: createKostraTable(5, [{ duration_min: 15, intensity_Lsha: 100 }])
+            })
+        };
+
+        const { fields } = await new GrantPDFService().generate({ ...baseData, designs }, 'BENE2');
+
+        expect(fields.dwa_area).toBe('37 m²');
+        expect(fields.dwa_volume).toBe('11.0 m³');
+        expect(fields.dwa_emptying).toBe('16.7 h');
+        expect(fields.dwa_duration).toBe('15 min');
+        expect(fields.dwa_kf_value).toBe('1.0e-5 m/s');
+        expect(fields.dwa_kf).toBe('✓');
+    });
+
+    it('reports N/A without a design record', async () => {
+        const { fields } = await new GrantPDFService().generate(baseData, 'BENE2');
+
+        expect(fields.pp_base_depth).toBe('N/A');
+        expect(fields.pp_underdrain).toBe('N/A');
+    });
+});
+
+describe('GrantPDFService uncertainty bands', () => {
+    const band = (p10: number, p50: number, p90: number) => ({ p10, p50, p90 });
+    const data: GrantApplicationData = {
+        project: { name: 'Banded Project', area_m2: 500 },
+        geo: { jurisdictionCode: 'US-VA', hierarchy: ['Virginia'] },
+        pollutants: { TP: 0.1, TN: 1, sediment: 50 },
+        bmps: [{ type: 'rain_garden', area_m2: 40 }],
+        uncertainty: {
+            iterations: 1000,
+            scanAccuracy_percent: 10,
+            bands: {
+                peakRunoff_Ls: band(4.81, 6.2, 7.93),
+                wqv_L: band(11200, 13650, 16480),
+                peakReduction_percent: band(15.4, 17.2, 19.1),
+                phosphorusRemoved_lb_yr: band(0.041, 0.05, 0.06),
+                nitrogenRemoved_lb_yr: band(0.31, 0.38, 0.46)
+            }
+        }
+    };
+
+    beforeEach(() => {
+        mockOutput.mockReturnValue(new Blob());
+    });
+
+    it('prints P50 with the P10 – P90 range', async () => {
+        const { fields } = await new GrantPDFService().generate(data, 'CFPF');
+
+        expect(fields.peak_runoff_band).toBe('6.2 L/s (P10 4.8 L/s – P90 7.9 L/s)');
+        expect(fields.wqv_band).toBe(`${(13650).toLocaleString()} L (P10 ${(11200).toLocaleString()} L – P90 ${(16480).toLocaleString()} L)`);
+        expect(fields.peak_reduction_band).toBe('17% (P10 15% – P90 19%)');
+    });
+
+    it('bands pollutant removal for SLAF', async () => {
+        const { fields } = await new GrantPDFService().generate(data, 'SLAF');
+
+        expect(fields.phosphorus_band).toBe('0.05 lb/yr (P10 0.04 lb/yr – P90 0.06 lb/yr)');
+        expect(fields.nitrogen_band).toBe('0.4 lb/yr (P10 0.3 lb/yr – P90 0.5 lb/yr)');
+    });
+
+    it('reports N/A without an uncertainty analysis', async () => {
+        const { fields } = await new GrantPDFService().generate({ ...data, uncertainty: undefined }, 'BENE2');
+
+        expect(fields.peak_runoff_band).toBe('N/A');
+    });
+});
+
+describe('GrantPDFService model warnings', () => {
+    const data: GrantApplicationData = {
+        project: { name: 'Storm Project', area_m2: 300 },
+        geo: { jurisdictionCode: 'US-VA', hierarchy: ['Virginia'] },
+        pollutants: { TP: 0.1, TN: 1, sediment: 50 },
+        bmps: [{ type: 'rain_garden', area_m2: 20 }]
+    };
+    const warning = 'Rainfall intensity 180 mm/hr is outside the trained range 10–100 mm/hr';
+    const printed = () => mockText.mock.calls.map(call => call[0]);
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockOutput.mockReturnValue(new Blob());
+    });
+
+    it('prints each extrapolation warning', async () => {
+        await new GrantPDFService().generate({ ...data, modelWarnings: [warning] }, 'CFPF');
+
+        expect(printed()).toContain('Model extrapolation warning');
+        expect(printed()).toContain(`• ${warning}`);
+    });
+
+    it('prints no warning section without warnings', async () => {
+        await new GrantPDFService().generate(data, 'CFPF');
+
+        expect(printed()).not.toContain('Model extrapolation warning');
+    });
+
+    it('prints the version of the PINN behind the peak runoff', async () => {
+        await new GrantPDFService().generate({ ...data, runoffModelVersion: '1.0.0' }, 'CFPF');
+
+        expect(printed()).toContain('Peak runoff: physics-informed neural network, model v1.0.0');
+    });
+
+    it('names no model for a Rational Method runoff', async () => {
+        await new GrantPDFService().generate(data, 'CFPF');
+
+        expect(printed()).not.toContainEqual(expect.stringMatching(/^Peak runoff:/));
+    });
+});
@@ -0,0 +1,77 @@
+import { renderHook, act } from '@testing-library/react';
+import { useCoverageGaps, type CoveredGrid } from '../../../../src/hooks/scanner/useCoverageGaps';
+import { GeoPolygon } from '../../../../src/lib/spatial-coverage/domain/valueObjects/GeoPolygon';
+import { CoordinateTransform } from '../../../../src/lib/spatial-coverage';
+import { CoverageAnalyzer } from '../../../../src/lib/spatial-coverage/domain/services/CoverageAnalyzer';
+import { Boundary } from '../../../../src/lib/spatial-coverage/domain/valueObjects/Boundary';
+import { Voxel } from '../../../../src/lib/spatial-coverage/domain/valueObjects/Voxel';
+import * as computeService from '../../../../src/services/computeService';
+
+// About 4 m × 4 m around its centroid
+const polygon = GeoPolygon.create([
+    { lat: 52.52, lon: 13.405 },
+    { lat: 52.52004, lon: 13.405 },
+    { lat: 52.52004, lon: 13.40506 },
+    { lat: 52.52, lon: 13.40506 }
+]);
+
+const grid = (painted: [number, number][]): CoveredGrid => ({
+    painted: new Map(painted.map(([gx, gy]) => [`${gx},${gy}`, { gx, gy }])),
+    voxelSize: 0.5,
+    origin: polygon.getCentroid()
+});
+
+const expectedGaps = (covered: CoveredGrid) => CoverageAnalyzer.findGaps(
+    Array.from(covered.painted.values(), v => new Voxel(v.gx, v.gy, 0.5)),
+    new Boundary(polygon.vertices.map(v => CoordinateTransform.latLonToLocalMeters(covered.origin, v))),
+    0.5
+);
+
+const settle = () => act(async () => {
+    await jest.advanceTimersByTimeAsync(50);
+});
+
+beforeEach(() => {
+    jest.useFakeTimers();
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+});
+
+describe('useCoverageGaps', () => {
+    it('finds the voxels of the boundary the walk has not covered', async () => {
+        const covered = grid([[0, 0], [1, 0]]);
+        const { result } = renderHook(() => useCoverageGaps(polygon, covered));
+        await settle();
+
+        expect(result.current).toEqual(expectedGaps(covered));
+        expect(result.current.length).toBeLessThan(expectedGaps(grid([])).length);
+    });
+
+    it('has no gaps without a boundary', async () => {
+        const { result } = renderHook(() => useCoverageGaps(null, grid([])));
+        await settle();
+
+        expect(result.current).toEqual([]);
+    });
+
+    it('cancels the analysis of a walk that painted again', async () => {
+        const service = computeService.getComputeService();
+        const run = jest.spyOn(service, 'run');
+        const { result, rerender } = renderHook(({ covered }) => useCoverageGaps(polygon, covered), {
+            initialProps: { covered: grid([]) }
+        });
+        act(() => {
+            jest.advanceTimersByTime(50);
+        });
+        const latest = grid([[0, 0]]);
+        rerender({ covered: latest });
+        await settle();
+
+        expect(run).toHaveBeenCalledWith('coverageGaps', expect.anything(), expect.any(AbortSignal));
+        expect((run.mock.calls[0][2] as AbortSignal).aborted).toBe(true);
+        expect(result.current).toEqual(expectedGaps(latest));
+    });
+});
@@ -1,90 +1,105 @@
 import { renderHook, act } from '@testing-library/react';
 import { useScannerCompliance } from '../../../../src/hooks/scanner/useScannerCompliance';
-import * as hydrologyUtils from '../../../../src/utils/hydrology';
+import type { ARScannerState, Services } from '../../../../src/hooks/useARScanner';
+import { IDF_PRESETS } from '../../../../src/lib/hydrology-engine';
 
 // Mock hydrology utils
 jest.mock('../../../../src/utils/hydrology', () => ({
     calculateTotalReduction: jest.fn().mockReturnValue(15)
 }));
 
-describe('useScannerCompliance', () => {
-    const mockUpdate = jest.fn();
-    const mockServices = {
-        pollutant: {
-            calculateWithBMPs: jest.fn().mockReturnValue({ phosphorus_lb_yr: 0.5 })
-        },
-        pdf: {
-            complianceService: {
-                checkCompliance: jest.fn().mockReturnValue({ eligible: true })
-            }
+const mockUpdate = jest.fn();
+const mockServices = {
+    pollutant: {
+        calculateWithBMPs: jest.fn().mockReturnValue({ phosphorus_lb_yr: 0.5 })
+    },
+    pdf: {
+        complianceService: {
+            checkCompliance: jest.fn().mockReturnValue({ eligible: true })
         }
-    };
-
-    const state = {
-        detectedArea: 100,
-        fixes: [{ type: 'rain-garden', size: 10 }],
-        activeProfile: { jurisdictionCode: 'US-VA-FX' },
-        jurisdictionChain: { hierarchy: [{ name: 'Fairfax' }] },
-        manualDepth: 30
-    };
-
-    beforeEach(() => {
-        jest.clearAllMocks();
-        jest.useFakeTimers();
+    }
+};
+const checkCompliance = mockServices.pdf.complianceService.checkCompliance;
+
+const state: Partial<ARScannerState> = {
+    detectedArea: 100,
+    fixes: [{ type: 'rain_garden', size: 10, placement: 'Sidewalk', reductionRate: 0.4 }],
+    activeProfile: { jurisdictionCode: 'US-VA-FX', parameters: {} } as ARScannerState['activeProfile'],
+    jurisdictionChain: { hierarchy: [{ name: 'Fairfax' }] } as ARScannerState['jurisdictionChain'],
+    manualDepth: 30,
+    soilGroup: 'B'
+};
+
+/** Render the hook over the base state and let the debounce run */
+const run = (overrides: Partial<ARScannerState> = {}) => {
+    renderHook(() => useScannerCompliance(
+        { ...state, ...overrides } as ARScannerState,
+        mockServices as unknown as Services,
+        mockUpdate
+    ));
+    act(() => {
+        jest.advanceTimersByTime(300);
     });
+};
 
-    afterEach(() => {
-        jest.useRealTimers();
-    });
+beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+});
 
-    it('calculates compliance result after debounce', async () => {
-        renderHook(() => useScannerCompliance(state as any, mockServices as any, mockUpdate));
+afterEach(() => {
+    jest.useRealTimers();
+});
 
-        act(() => {
-            jest.advanceTimersByTime(300);
-        });
+describe('useScannerCompliance', () => {
+    it('calculates compliance result after debounce', () => {
+        run();
 
         expect(mockServices.pollutant.calculateWithBMPs).toHaveBeenCalled();
-        expect(mockServices.pdf.complianceService.checkCompliance).toHaveBeenCalledTimes(3); // default grants (CFPF, SLAF, BRIC)
+        expect(checkCompliance).toHaveBeenCalledTimes(3); // default grants (CFPF, SLAF, BRIC)
         expect(mockUpdate).toHaveBeenCalledWith(expect.objectContaining({
             pollutantResult: expect.any(Object),
             complianceResults: expect.any(Array)
         }));
     });
 
-    it('adds BENE2 grant for Berlin jurisdiction', async () => {
-        const berlinState = {
-            ...state,
-            activeProfile: { jurisdictionCode: 'DE-BE-MITTE' }
-        };
+    it('adds BENE2 grant for Berlin jurisdiction', () => {
+        run({ activeProfile: { jurisdictionCode: 'DE-BE-MITTE', parameters: { idf: IDF_PRESETS.de_berlin } } as ARScannerState['activeProfile'] });
 
-        renderHook(() => useScannerCompliance(berlinState as any, mockServices as any, mockUpdate));
-
-        act(() => {
-            jest.advanceTimersByTime(300);
-        });
-
-        expect(mockServices.pdf.complianceService.checkCompliance).toHaveBeenCalledTimes(4);
+        expect(checkCompliance).toHaveBeenCalledTimes(4);
     });
 
-    it('handles missing jurisdiction chain', async () => {
-        const noChainState = { ...state, jurisdictionChain: null };
-        renderHook(() => useScannerCompliance(noChainState as any, mockServices as any, mockUpdate));
-        act(() => { jest.advanceTimersByTime(300); });
-        expect(mockServices.pdf.complianceService.checkCompliance).toHaveBeenCalledWith(
+    it('handles missing jurisdiction chain', () => {
+        run({ jurisdictionChain: null });
+
+        expect(checkCompliance).toHaveBeenCalledWith(
             expect.objectContaining({ jurisdictionChain: [] }),
             expect.any(String)
         );
     });
 
     it('skips calculation if no area or no fixes', () => {
-        const noAreaState = { ...state, detectedArea: null };
-        renderHook(() => useScannerCompliance(noAreaState as any, mockServices as any, mockUpdate));
-
-        act(() => {
-            jest.advanceTimersByTime(300);
-        });
+        run({ detectedArea: null });
 
         expect(mockUpdate).not.toHaveBeenCalled();
     });
 });
+
+describe('useScannerCompliance DWA-A 138', () => {
+    it('sizes a DWA-A 138 swale for the impervious catchment', () => {
+        run({ catchment: { imperviousArea_m2: 60 } as ARScannerState['catchment'] });
+
+        const dwaDesign = mockUpdate.mock.calls[0][0].dwaDesign;
+        expect(dwaDesign).toEqual(expect.objectContaining({ facility: 'mulde', connectedArea_m2: 60, kf_m_s: 13 / 3.6e6 }));
+        expect(checkCompliance).toHaveBeenCalledWith(
+            expect.objectContaining({ dwaA138: dwaDesign }),
+            expect.any(String)
+        );
+    });
+
+    it('skips DWA-A 138 sizing without impervious area', () => {
+        run({ catchment: { imperviousArea_m2: 0 } as ARScannerState['catchment'] });
+
+        expect(mockUpdate).toHaveBeenCalledWith(expect.objectContaining({ dwaDesign: null }));
+    });
+});
@@ -0,0 +1,76 @@
+import { renderHook, act } from '@testing-library/react';
+import { useScannerFlowRouting } from '../../../../src/hooks/scanner/useScannerFlowRouting';
+import type { ARScannerState } from '../../../../src/hooks/useARScanner';
+import { ElevationGrid, createElevationSample } from '../../../../src/lib/spatial-coverage';
+import * as computeService from '../../../../src/services/computeService';
+
+const mockUpdate = jest.fn();
+
+beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+});
+
+const slopedGrid = () => {
+    const grid = new ElevationGrid();
+    [[0, 0, 0.5], [4, 0, 0.3], [0, 4, 0.3], [4, 4, 0]].forEach(([x, y, elevation]) =>
+        grid.addSample(createElevationSample({ x, y, elevation, accuracy: 0.1, source: 'lidar' })));
+    return grid;
+};
+
+const run = async (elevationGrid: ElevationGrid | null) => {
+    mockUpdate.mockClear();
+    renderHook(() => useScannerFlowRouting({ elevationGrid } as unknown as ARScannerState, mockUpdate));
+    await act(async () => {
+        await jest.advanceTimersByTimeAsync(50);
+    });
+    return mockUpdate.mock.calls[0][0].flowRouting;
+};
+
+describe('useScannerFlowRouting', () => {
+    it('routes runoff to the low corner of the scanned terrain', async () => {
+        const flow = await run(slopedGrid());
+
+        expect(flow.concentrationPoints[0]).toMatchObject({ kind: 'outlet', x: 4, y: 4 });
+        expect(flow.channels.length).toBeGreaterThan(0);
+    });
+
+    it('clears the routing without a scanned terrain', async () => {
+        expect(await run(null)).toBeNull();
+        expect(await run(new ElevationGrid())).toBeNull();
+    });
+
+    it('drops the routing of a grid replaced before its raster is ready', async () => {
+        const { rerender } = renderHook(
+            ({ grid }) => useScannerFlowRouting({ elevationGrid: grid } as unknown as ARScannerState, mockUpdate),
+            { initialProps: { grid: slopedGrid() } }
+        );
+        act(() => {
+            jest.advanceTimersByTime(50);
+        });
+        rerender({ grid: new ElevationGrid() });
+        await act(async () => {
+            await jest.advanceTimersByTimeAsync(50);
+        });
+
+        expect(mockUpdate).toHaveBeenCalledTimes(1);
+        expect(mockUpdate).toHaveBeenCalledWith({ flowRouting: null });
+    });
+});
+
+describe('useScannerFlowRouting worker failures', () => {
+    it('routes the terrain inline when the compute worker fails', async () => {
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const failing = { run: () => Promise.reject(new Error('Worker crashed')), terminate: () => undefined };
+        jest.spyOn(computeService, 'getComputeService').mockReturnValue(failing);
+
+        const flow = await run(slopedGrid());
+
+        expect(flow.concentrationPoints[0]).toMatchObject({ kind: 'outlet', x: 4, y: 4 });
+    });
+});
@@ -0,0 +1,65 @@
+import { renderHook, act } from '@testing-library/react';
+import { useScannerHydrographValidation } from '../../../../src/hooks/scanner/useScannerHydrographValidation';
+import type { ARScannerState } from '../../../../src/hooks/useARScanner';
+import { createHydrograph } from '../../../../src/lib/hydrology-engine';
+
+const mockUpdate = jest.fn();
+
+const baseState = {
+    kinematicWave: { hydrograph: createHydrograph(5, [0, 10, 20, 10, 0]) },
+    referenceHydrograph: { source: 'inflow_m3s', times_min: [0, 10, 20], flows_Ls: [0, 20, 0] },
+    referenceOffset_min: 0
+};
+
+const run = (state: object) => {
+    renderHook(() => useScannerHydrographValidation({ ...baseState, ...state } as unknown as ARScannerState, mockUpdate));
+    act(() => {
+        jest.advanceTimersByTime(50);
+    });
+    return mockUpdate.mock.calls[0][0].hydrographValidation;
+};
+
+beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+});
+
+describe('useScannerHydrographValidation', () => {
+    it('scores the sheet flow hydrograph against the reference', () => {
+        const validation = run({});
+
+        expect(validation.nse).toBeCloseTo(1);
+        expect(validation.rating).toBe('very_good');
+    });
+
+    it('lines the reference up by the offset', () => {
+        expect(run({ referenceOffset_min: 5 }).times_min).toEqual([5, 10, 15, 20]);
+    });
+
+    it('clears the validation without both hydrographs or any overlap', () => {
+        expect(run({ referenceHydrograph: null })).toBeNull();
+        jest.clearAllMocks();
+        expect(run({ kinematicWave: null })).toBeNull();
+        jest.clearAllMocks();
+        expect(run({ referenceOffset_min: 60 })).toBeNull();
+    });
+
+    it('reports why the reference could not be scored', () => {
+        run({ referenceOffset_min: 60 });
+
+        expect(mockUpdate).toHaveBeenCalledWith({
+            hydrographValidation: null,
+            hydrographValidationError: 'Reference and predicted hydrographs do not overlap in time'
+        });
+    });
+
+    it('clears the error once the reference is scored', () => {
+        run({});
+
+        expect(mockUpdate.mock.calls[0][0].hydrographValidationError).toBeNull();
+    });
+});
@@ -1,116 +1,334 @@
 import { renderHook, act } from '@testing-library/react';
-import { useScannerHydrology } from '../../../../src/hooks/scanner/useScannerHydrology';
+import { useScannerHydrology, type HydrologyInputs } from '../../../../src/hooks/scanner/useScannerHydrology';
 import * as hydrologyUtils from '../../../../src/utils/hydrology';
+import {
+    createCurveNumberService,
+    idfIntensity,
+    upliftFactor,
+    CLIMATE_UPLIFT_PRESETS,
+    DEFAULT_CLIMATE_UPLIFT,
+    DEFAULT_DESIGN_STORM,
+    DEFAULT_IDF_PARAMETERS
+} from '../../../../src/lib/hydrology-engine';
+import { STORMWATER_PROFILES, type StormwaterParameters } from '../../../../src/lib/geo-regulatory';
 
 // Mock dependencies
 jest.mock('../../../../src/utils/hydrology', () => {
     const actual = jest.requireActual('../../../../src/utils/hydrology');
     return {
         ...actual,
-        computeRunoffWithPINN: jest.fn(),
+        estimateRunoffWithPINN: jest.fn(),
         computePeakRunoff: jest.fn(),
-        computeWQv: jest.fn(),
-        suggestGreenFixes: jest.fn()
+        computeWQv: jest.fn()
     };
 });
 
-describe('useScannerHydrology', () => {
-    const mockUpdate = jest.fn();
-    const initialState = {
-        detectedArea: 100,
-        rainfall: 50,
-        intensityMode: 'auto',
-        manualIntensity: 60,
-        manualDepth: 30,
-        activeProfile: {
-            parameters: {
-                rvFormula: jest.fn().mockReturnValue(0.9)
-            }
-        }
-    };
+const estimate = (peakRunoff: number, warnings: string[] = []) => ({ peakRunoff, isPINNPrediction: true, modelVersion: '1.0.0', warnings });
 
-    beforeEach(() => {
-        jest.clearAllMocks();
-        jest.useFakeTimers();
-    });
+/** The US EPA baseline profile, which has no IDF fit or uplift table of its own */
+const profile = (parameters: Partial<StormwaterParameters>) => ({
+    ...STORMWATER_PROFILES[0],
+    parameters: { ...STORMWATER_PROFILES[0].parameters, ...parameters }
+});
 
-    afterEach(() => {
-        jest.useRealTimers();
+const baseState: HydrologyInputs = {
+    detectedArea: 100,
+    rainfall: 50,
+    intensityMode: 'auto',
+    manualIntensity: 60,
+    manualDepth: 30,
+    designStorm: DEFAULT_DESIGN_STORM,
+    activeProfile: profile({ rvFormula: () => 0.9 }),
+    runoffMethod: 'rational',
+    soilGroup: 'C',
+    surfaceMix: [{ surface: 'asphalt', fraction: 1 }],
+    tcMethod: 'kirpich',
+    geoBoundary: null,
+    elevationGrid: null,
+    climateScenario: 'current'
+};
+
+const hydrologyState = (overrides: Partial<HydrologyInputs> = {}): HydrologyInputs => ({ ...baseState, ...overrides });
+
+const mockUpdate = jest.fn();
+
+/** Render the hook, let its debounce elapse and flush the runoff estimate */
+const runHydrology = async (state: HydrologyInputs) => {
+    renderHook(() => useScannerHydrology(state, mockUpdate));
+    act(() => {
+        jest.advanceTimersByTime(250);
     });
+    await act(async () => { await Promise.resolve(); });
+};
 
-    it('skips calculation if detectedArea is null', async () => {
-        const state = { ...initialState, detectedArea: null };
-        renderHook(() => useScannerHydrology(state as any, mockUpdate));
+beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+});
 
-        act(() => {
-            jest.advanceTimersByTime(250);
-        });
+afterEach(() => {
+    jest.useRealTimers();
+});
+
+describe('useScannerHydrology', () => {
+    it('skips calculation if detectedArea is null', async () => {
+        await runHydrology(hydrologyState({ detectedArea: null }));
 
         expect(mockUpdate).not.toHaveBeenCalled();
     });
 
     it('calculates stats using auto intensity and PINN', async () => {
-        (hydrologyUtils.computeRunoffWithPINN as jest.Mock).mockResolvedValue(1.5);
+        (hydrologyUtils.estimateRunoffWithPINN as jest.Mock).mockResolvedValue(estimate(1.5));
         (hydrologyUtils.computeWQv as jest.Mock).mockReturnValue(2.5);
-        (hydrologyUtils.suggestGreenFixes as jest.Mock).mockReturnValue([{ type: 'rain-garden', size: 10 }]);
 
-        renderHook(() => useScannerHydrology(initialState as any, mockUpdate));
+        await runHydrology(hydrologyState());
 
-        act(() => {
-            jest.advanceTimersByTime(250);
-        });
-
-        // Wait for the async calc function inside useEffect
-        await act(async () => {
-            await Promise.resolve(); // flush promises
-        });
-
-        expect(hydrologyUtils.computeRunoffWithPINN).toHaveBeenCalledWith(50, 100);
+        expect(hydrologyUtils.estimateRunoffWithPINN).toHaveBeenCalledWith(50, 100, expect.any(AbortSignal));
         expect(mockUpdate).toHaveBeenCalledWith(expect.objectContaining({
             peakRunoff: 1.5,
             isPinnActive: true,
-            wqv: 2.5,
-            fixes: expect.any(Array)
+            pinnModelVersion: '1.0.0',
+            wqv: 2.5
         }));
     });
 
     it('uses manual intensity when mode is manual', async () => {
-        const state = { ...initialState, intensityMode: 'manual' };
-        (hydrologyUtils.computeRunoffWithPINN as jest.Mock).mockResolvedValue(1.8);
-
-        renderHook(() => useScannerHydrology(state as any, mockUpdate));
-
-        act(() => {
-            jest.advanceTimersByTime(250);
-        });
+        (hydrologyUtils.estimateRunoffWithPINN as jest.Mock).mockResolvedValue(estimate(1.8));
 
-        await act(async () => { await Promise.resolve(); });
+        await runHydrology(hydrologyState({ intensityMode: 'manual' }));
 
-        expect(hydrologyUtils.computeRunoffWithPINN).toHaveBeenCalledWith(60, 100);
+        expect(hydrologyUtils.estimateRunoffWithPINN).toHaveBeenCalledWith(60, 100, expect.any(AbortSignal));
     });
 
     it('falls back to computePeakRunoff if PINN fails', async () => {
-        (hydrologyUtils.computeRunoffWithPINN as jest.Mock).mockRejectedValue(new Error('PINN unavailable'));
+        (hydrologyUtils.estimateRunoffWithPINN as jest.Mock).mockRejectedValue(new Error('PINN unavailable'));
         (hydrologyUtils.computePeakRunoff as jest.Mock).mockReturnValue(1.2);
 
-        renderHook(() => useScannerHydrology(initialState as any, mockUpdate));
+        await runHydrology(hydrologyState());
 
-        act(() => {
-            jest.advanceTimersByTime(250);
-        });
+        expect(mockUpdate).toHaveBeenCalledWith(expect.objectContaining({
+            peakRunoff: 1.2,
+            isPinnActive: false,
+            pinnModelVersion: null
+        }));
+    });
 
-        await act(async () => { await Promise.resolve(); });
+    it('uses SCS Curve Number runoff when selected', async () => {
+        (hydrologyUtils.computeWQv as jest.Mock).mockReturnValue(2.5);
 
+        await runHydrology(hydrologyState({ runoffMethod: 'scs', soilGroup: 'C' }));
+
+        expect(hydrologyUtils.estimateRunoffWithPINN).not.toHaveBeenCalled();
         expect(mockUpdate).toHaveBeenCalledWith(expect.objectContaining({
-            peakRunoff: 1.2,
-            isPinnActive: false
+            isPinnActive: false,
+            scsResult: expect.objectContaining({ curveNumber: 98 })
         }));
+        const { peakRunoff, scsResult } = mockUpdate.mock.calls[0][0];
+        expect(peakRunoff).toBe(scsResult.peakDischarge_Ls);
     });
 
     it('clears timer on unmount', () => {
-        const { unmount } = renderHook(() => useScannerHydrology(initialState as any, mockUpdate));
+        const { unmount } = renderHook(() => useScannerHydrology(hydrologyState(), mockUpdate));
         unmount();
         jest.advanceTimersByTime(300);
         expect(mockUpdate).not.toHaveBeenCalled();
     });
 });
+
+describe('useScannerHydrology design rainfall and catchment', () => {
+    it('uses the IDF intensity at the time of concentration in design mode', async () => {
+        (hydrologyUtils.estimateRunoffWithPINN as jest.Mock).mockResolvedValue(estimate(2.0));
+
+        await runHydrology(hydrologyState({
+            intensityMode: 'design',
+            designStorm: { method: 'euler_ii', returnPeriod_yr: 10, duration_min: 60, timeStep_min: 5 }
+        }));
+
+        const { hyetograph, tcResult } = mockUpdate.mock.calls[0][0];
+        expect(hyetograph).toMatchObject({ method: 'euler_ii', returnPeriod_yr: 10 });
+        expect(hydrologyUtils.estimateRunoffWithPINN).toHaveBeenCalledWith(
+            idfIntensity(DEFAULT_IDF_PARAMETERS, 10, tcResult.tc_min),
+            100, expect.any(AbortSignal)
+        );
+    });
+
+    it('reports the time of concentration from the scanned area', async () => {
+        (hydrologyUtils.estimateRunoffWithPINN as jest.Mock).mockResolvedValue(estimate(1.5));
+
+        await runHydrology(hydrologyState({ detectedArea: 20000, tcMethod: 'faa' }));
+
+        const { tcResult } = mockUpdate.mock.calls[0][0];
+        expect(tcResult).toMatchObject({ method: 'faa', flowLength_m: 200, slope: 0.02 });
+        expect(tcResult.tc_min).toBeGreaterThan(5);
+    });
+
+    it('splits a mixed catchment between the PINN and pervious Rational runoff', async () => {
+        const rvFormula = jest.fn().mockReturnValue(0.9);
+        (hydrologyUtils.estimateRunoffWithPINN as jest.Mock).mockResolvedValue(estimate(1.0));
+        (hydrologyUtils.computePeakRunoff as jest.Mock).mockReturnValue(0.2);
+
+        await runHydrology(hydrologyState({
+            activeProfile: profile({ rvFormula }),
+            surfaceMix: [{ surface: 'roof', fraction: 0.6 }, { surface: 'lawn', fraction: 0.4 }]
+        }));
+
+        expect(hydrologyUtils.estimateRunoffWithPINN).toHaveBeenCalledWith(50, 60, expect.any(AbortSignal));
+        expect(hydrologyUtils.computePeakRunoff).toHaveBeenCalledWith(50, 40, 0.25);
+        expect(rvFormula).toHaveBeenCalledWith(60);
+        expect(mockUpdate).toHaveBeenCalledWith(expect.objectContaining({
+            peakRunoff: 1.2,
+            catchment: expect.objectContaining({ imperviousPercent: 60 })
+        }));
+    });
+
+    it('falls back to an all-asphalt catchment when every share is zero', async () => {
+        (hydrologyUtils.estimateRunoffWithPINN as jest.Mock).mockResolvedValue(estimate(1.5));
+
+        await runHydrology(hydrologyState({ surfaceMix: [{ surface: 'lawn', fraction: 0 }] }));
+
+        expect(hydrologyUtils.estimateRunoffWithPINN).toHaveBeenCalledWith(50, 100, expect.any(AbortSignal));
+    });
+});
+
+describe('useScannerHydrology SCS peak', () => {
+    it('takes the TR-55 unit peak discharge at the catchment time of concentration', async () => {
+        await runHydrology(hydrologyState({ runoffMethod: 'scs', detectedArea: 80000, tcMethod: 'faa' }));
+
+        const { scsResult, tcResult } = mockUpdate.mock.calls[0][0];
+        expect(tcResult.tc_min).toBeGreaterThan(6);
+        expect(scsResult).toEqual(createCurveNumberService().computeRunoff({
+            rainfall_mm: 30, area_m2: 80000, curveNumber: 98, timeOfConcentration_hr: tcResult.tc_min / 60
+        }));
+    });
+});
+
+describe('useScannerHydrology climate scenarios', () => {
+    const state = hydrologyState({
+        climateScenario: '2050',
+        activeProfile: profile({ rvFormula: () => 0.9, climateUplift: CLIMATE_UPLIFT_PRESETS.de_berlin })
+    });
+
+    beforeEach(() => {
+        (hydrologyUtils.estimateRunoffWithPINN as jest.Mock).mockResolvedValue(estimate(1.5));
+    });
+
+    it('sizes against the uplifted intensity of the selected horizon', async () => {
+        await runHydrology(state);
+
+        const factor = upliftFactor(CLIMATE_UPLIFT_PRESETS.de_berlin, '2050', DEFAULT_DESIGN_STORM.returnPeriod_yr);
+        expect(factor).toBeGreaterThan(1);
+        expect(hydrologyUtils.estimateRunoffWithPINN).toHaveBeenCalledWith(50 * factor, 100, expect.any(AbortSignal));
+    });
+
+    it('reports today, 2050 and 2100 rainfall side by side', async () => {
+        await runHydrology({ ...state, climateScenario: 'current' });
+
+        const { climateScenarios } = mockUpdate.mock.calls[0][0];
+        expect(climateScenarios.map((c: { scenario: string }) => c.scenario)).toEqual(['current', '2050', '2100']);
+        expect(climateScenarios[0]).toMatchObject({ factor: 1, intensity_mm_hr: 50 });
+        expect(climateScenarios[2].intensity_mm_hr).toBeGreaterThan(climateScenarios[1].intensity_mm_hr);
+        expect(hydrologyUtils.estimateRunoffWithPINN).toHaveBeenCalledWith(50, 100, expect.any(AbortSignal));
+    });
+
+    it('uplifts every block of a design storm', async () => {
+        await runHydrology({ ...state, intensityMode: 'design', climateScenario: '2100' });
+
+        const { hyetograph, climateScenarios } = mockUpdate.mock.calls[0][0];
+        expect(hyetograph.totalDepth_mm).toBeCloseTo(climateScenarios[2].depth_mm, 6);
+    });
+
+    it('falls back to the generic uplift without a profile table', async () => {
+        await runHydrology({ ...state, activeProfile: profile({ rvFormula: () => 0.9 }) });
+
+        expect(hydrologyUtils.estimateRunoffWithPINN).toHaveBeenCalledWith(50 * DEFAULT_CLIMATE_UPLIFT.factors['2050'][0].factor, 100, expect.any(AbortSignal));
+    });
+});
+
+describe('useScannerHydrology PINN extrapolation', () => {
+    const warning = 'Rainfall intensity 180 mm/hr is outside the trained range 10–100 mm/hr';
+
+    beforeEach(() => {
+        (hydrologyUtils.estimateRunoffWithPINN as jest.Mock).mockResolvedValue(estimate(9.5));
+    });
+
+    it('reports the warnings of a PINN runoff outside the training domain', async () => {
+        (hydrologyUtils.estimateRunoffWithPINN as jest.Mock).mockResolvedValueOnce(estimate(9.5, [warning]));
+        await runHydrology(hydrologyState({ rainfall: 180 }));
+
+        expect(hydrologyUtils.estimateRunoffWithPINN).toHaveBeenCalledWith(180, 100, expect.any(AbortSignal));
+        expect(mockUpdate).toHaveBeenCalledWith(expect.objectContaining({ isPinnActive: true, pinnWarnings: [warning] }));
+    });
+
+    it('reports the rational method when the worker falls back from the PINN', async () => {
+        (hydrologyUtils.estimateRunoffWithPINN as jest.Mock).mockResolvedValueOnce({ ...estimate(9.5), isPINNPrediction: false, modelVersion: null });
+        await runHydrology(hydrologyState());
+
+        expect(mockUpdate).toHaveBeenCalledWith(expect.objectContaining({ isPinnActive: false, pinnModelVersion: null }));
+    });
+
+    it('clears the warnings for SCS runoff', async () => {
+        await runHydrology(hydrologyState({ rainfall: 180, runoffMethod: 'scs' }));
+
+        expect(mockUpdate).toHaveBeenCalledWith(expect.objectContaining({ pinnWarnings: [] }));
+    });
+});
+
+// Like the compute service: never settles until aborted, then rejects
+const pendingEstimate = (_rainfall: number, _area: number, signal: AbortSignal) => new Promise((_resolve, reject) => {
+    signal.addEventListener('abort', () => reject(new DOMException('Compute task cancelled', 'AbortError')));
+});
+
+describe('useScannerHydrology cancellation', () => {
+    it('cancels the running estimate when the inputs change', async () => {
+        (hydrologyUtils.estimateRunoffWithPINN as jest.Mock).mockImplementationOnce(pendingEstimate).mockResolvedValueOnce(estimate(2.0));
+        const { rerender } = renderHook((s: HydrologyInputs) => useScannerHydrology(s, mockUpdate), { initialProps: hydrologyState() });
+        act(() => {
+            jest.advanceTimersByTime(250);
+        });
+        const firstSignal: AbortSignal = (hydrologyUtils.estimateRunoffWithPINN as jest.Mock).mock.calls[0][2];
+
+        rerender(hydrologyState({ rainfall: 60 }));
+        act(() => {
+            jest.advanceTimersByTime(250);
+        });
+        await act(async () => { await Promise.resolve(); });
+
+        expect(firstSignal.aborted).toBe(true);
+        expect(mockUpdate).toHaveBeenCalledTimes(1);
+        expect(mockUpdate).toHaveBeenCalledWith(expect.objectContaining({ peakRunoff: 2.0, isPinnActive: true }));
+    });
+
+    it('cancels the running estimate on unmount without an update', async () => {
+        (hydrologyUtils.estimateRunoffWithPINN as jest.Mock).mockImplementationOnce(pendingEstimate);
+        const { unmount } = renderHook(() => useScannerHydrology(hydrologyState(), mockUpdate));
+        act(() => {
+            jest.advanceTimersByTime(250);
+        });
+
+        unmount();
+        await act(async () => { await Promise.resolve(); });
+
+        expect((hydrologyUtils.estimateRunoffWithPINN as jest.Mock).mock.calls[0][2].aborted).toBe(true);
+        expect(mockUpdate).not.toHaveBeenCalled();
+    });
+});
+
+describe('useScannerHydrology failures', () => {
+    it('keeps the previous results and reports the error when the calculation fails', async () => {
+        const failingProfile = profile({ rvFormula: () => { throw new Error('No runoff volume formula'); } });
+
+        await runHydrology(hydrologyState({ activeProfile: failingProfile }));
+
+        expect(hydrologyUtils.computePeakRunoff).not.toHaveBeenCalled();
+        expect(mockUpdate).toHaveBeenCalledTimes(1);
+        expect(mockUpdate).toHaveBeenCalledWith({ hydrologyError: 'No runoff volume formula' });
+    });
+
+    it('clears the error once a calculation succeeds', async () => {
+        (hydrologyUtils.estimateRunoffWithPINN as jest.Mock).mockResolvedValue(estimate(2.0));
+
+        await runHydrology(hydrologyState());
+
+        expect(mockUpdate).toHaveBeenCalledWith(expect.objectContaining({ peakRunoff: 2.0, hydrologyError: null }));
+    });
+});
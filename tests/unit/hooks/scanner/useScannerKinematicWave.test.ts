@@ -0,0 +1,98 @@
+import { renderHook, act } from '@testing-library/react';
+import { useScannerKinematicWave } from '../../../../src/hooks/scanner/useScannerKinematicWave';
+import type { ARScannerState } from '../../../../src/hooks/useARScanner';
+import { createHyetograph, DEFAULT_MANNING_N } from '../../../../src/lib/hydrology-engine';
+
+const mockUpdate = jest.fn();
+
+/** 120 m² site with a 20 m flow path at 2% */
+const baseState = {
+    tcResult: { method: 'kirpich', tc_min: 5, flowLength_m: 20, slope: 0.02 },
+    catchment: { runoffCoefficient: 0.9, totalArea_m2: 120 },
+    hyetograph: null,
+    climateScenarios: null,
+    climateScenario: 'current',
+    rainfall: 50
+};
+
+/**
+ * Analytical rising limb of a plane under steady excess rainfall i_e before
+ * equilibrium (Eagleson 1970): q = α (i_e t)ᵐ per metre width, α = √S / n
+ */
+const risingLimb_Ls = (excess_mm_hr: number, t_min: number) => {
+    const alpha = Math.sqrt(0.02) / DEFAULT_MANNING_N;
+    const depth_m = excess_mm_hr / 3.6e6 * t_min * 60;
+    return alpha * depth_m ** (5 / 3) * 6 * 1000;
+};
+
+const run = (state: object) => {
+    renderHook(() => useScannerKinematicWave({ ...baseState, ...state } as unknown as ARScannerState, mockUpdate));
+    act(() => {
+        jest.advanceTimersByTime(50);
+    });
+    return mockUpdate.mock.calls[0][0].kinematicWave;
+};
+
+beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+});
+
+describe('useScannerKinematicWave', () => {
+    it('settles a steady storm at the Rational Method peak', () => {
+        const { hydrograph } = run({});
+
+        // C·i·A = 0.9 × 50 mm/hr × 120 m²
+        expect(hydrograph.peakFlow_Ls).toBeCloseTo(1.5, 2);
+        expect(hydrograph.flows_Ls).toHaveLength(121);
+    });
+
+    it('rises like the analytical kinematic wave before equilibrium', () => {
+        const { hydrograph } = run({});
+
+        // Excess rainfall C·i = 45 mm/hr on a 20 m × 6 m plane reaches equilibrium after ~2.4 min
+        expect(hydrograph.flows_Ls[1]).toBeCloseTo(risingLimb_Ls(45, 1), 1);
+        expect(hydrograph.flows_Ls[2]).toBeCloseTo(risingLimb_Ls(45, 2), 1);
+    });
+
+    it('clears the reference without a catchment or time of concentration', () => {
+        expect(run({ tcResult: null })).toBeNull();
+        jest.clearAllMocks();
+        expect(run({ catchment: null })).toBeNull();
+    });
+});
+
+describe('useScannerKinematicWave rainfall', () => {
+    it('routes the steady storm at the selected climate scenario intensity', () => {
+        const { hydrograph } = run({
+            climateScenario: '2050',
+            climateScenarios: [
+                { scenario: 'current', factor: 1, intensity_mm_hr: 50, depth_mm: 30 },
+                { scenario: '2050', factor: 1.2, intensity_mm_hr: 60, depth_mm: 36 }
+            ]
+        });
+
+        expect(hydrograph.peakFlow_Ls).toBeCloseTo(1.8, 2);
+    });
+
+    it('runs off the same share C of every rainfall block', () => {
+        const hyetograph = createHyetograph({ method: 'chicago', returnPeriod_yr: 10, duration_min: 30, timeStep_min: 5 }, [1, 2, 8, 3, 1, 1]);
+        const wave = run({ hyetograph });
+
+        // 0.9 × 16 mm over 120 m²
+        expect(wave.runoffVolume_m3 + wave.storedVolume_m3).toBeCloseTo(1.728, 3);
+    });
+
+    it('routes the design hyetograph when one is active', () => {
+        const hyetograph = createHyetograph({ method: 'chicago', returnPeriod_yr: 10, duration_min: 30, timeStep_min: 5 }, [1, 2, 8, 3, 1, 1]);
+        const { hydrograph } = run({ hyetograph });
+
+        expect(hydrograph.flows_Ls).toHaveLength(61);
+        expect(hydrograph.timeToPeak_min).toBeGreaterThanOrEqual(10);
+        expect(hydrograph.timeToPeak_min).toBeLessThanOrEqual(20);
+    });
+});
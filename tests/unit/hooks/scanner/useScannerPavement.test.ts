@@ -0,0 +1,44 @@
+import { renderHook } from '@testing-library/react';
+import { useScannerPavement } from '../../../../src/hooks/scanner/useScannerPavement';
+import type { ARScannerState } from '../../../../src/hooks/useARScanner';
+
+describe('useScannerPavement', () => {
+    const mockUpdate = jest.fn();
+    const state = {
+        fixes: [{ type: 'permeable_pavement', size: 200, reductionRate: 0.7, placement: 'Parking area' }],
+        catchment: { imperviousArea_m2: 600 },
+        soilGroup: 'A',
+        manualDepth: 25
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('designs the suggested pavement with the remaining impervious area as run-on', () => {
+        renderHook(() => useScannerPavement(state as unknown as ARScannerState, mockUpdate));
+
+        expect(mockUpdate).toHaveBeenCalledWith({
+            pavementDesign: expect.objectContaining({
+                area_m2: 200,
+                runOnArea_m2: 400,
+                loadingRatio: 2,
+                infiltrationRate_mm_hr: 30
+            })
+        });
+    });
+
+    it('flags an underdrain on slow soil groups', () => {
+        renderHook(() => useScannerPavement({ ...state, soilGroup: 'D' } as unknown as ARScannerState, mockUpdate));
+
+        expect(mockUpdate).toHaveBeenCalledWith({
+            pavementDesign: expect.objectContaining({ underdrainReason: 'slow_soil' })
+        });
+    });
+
+    it('clears the design without permeable pavement', () => {
+        renderHook(() => useScannerPavement({ ...state, fixes: [] } as unknown as ARScannerState, mockUpdate));
+
+        expect(mockUpdate).toHaveBeenCalledWith({ pavementDesign: null });
+    });
+});
@@ -0,0 +1,83 @@
+import { renderHook, act } from '@testing-library/react';
+import { useScannerPonding } from '../../../../src/hooks/scanner/useScannerPonding';
+import type { ARScannerState } from '../../../../src/hooks/useARScanner';
+import { createFlowRoutingService, createTerrainRaster } from '../../../../src/lib/hydrology-engine';
+import * as computeService from '../../../../src/services/computeService';
+
+const mockUpdate = jest.fn();
+const basin = createFlowRoutingService().route(createTerrainRaster([[1, 1, 1], [1, 0, 1], [1, 1, 1]], 1));
+
+beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+});
+
+const pondingState = (state: Partial<ARScannerState>) =>
+    ({ hyetograph: null, manualDepth: 30, catchment: null, ...state } as unknown as ARScannerState);
+
+const run = async (state: Partial<ARScannerState>) => {
+    renderHook(() => useScannerPonding(pondingState(state), mockUpdate));
+    await act(async () => {
+        await jest.advanceTimersByTimeAsync(50);
+    });
+    return mockUpdate.mock.calls[0][0].ponding;
+};
+
+describe('useScannerPonding', () => {
+    it('ponds the manual depth without a design storm', async () => {
+        const ponding = await run({ flowRouting: basin });
+
+        // 9 cells × 30 mm collect in the centre
+        expect(ponding.rainfall_mm).toBe(30);
+        expect(ponding.maxDepth_m).toBeCloseTo(0.27, 3);
+    });
+
+    it('ponds the design hyetograph depth scaled by the runoff coefficient', async () => {
+        const ponding = await run({
+            flowRouting: basin,
+            hyetograph: { totalDepth_mm: 40 } as ARScannerState['hyetograph'],
+            catchment: { runoffCoefficient: 0.5 } as ARScannerState['catchment']
+        });
+
+        expect(ponding.rainfall_mm).toBe(40);
+        expect(ponding.runoffVolume_m3).toBeCloseTo(9 * 0.04 * 0.5);
+    });
+
+    it('clears the ponding without routed terrain', async () => {
+        expect(await run({ flowRouting: null })).toBeNull();
+    });
+});
+
+describe('useScannerPonding compute worker', () => {
+    it('drops the ponding of a storm changed before it is ready', async () => {
+        const { rerender } = renderHook(
+            ({ manualDepth }) => useScannerPonding(pondingState({ flowRouting: basin, manualDepth }), mockUpdate),
+            { initialProps: { manualDepth: 30 } }
+        );
+        act(() => {
+            jest.advanceTimersByTime(50);
+        });
+        rerender({ manualDepth: 40 });
+        await act(async () => {
+            await jest.advanceTimersByTimeAsync(50);
+        });
+
+        expect(mockUpdate).toHaveBeenCalledTimes(1);
+        expect(mockUpdate.mock.calls[0][0].ponding.rainfall_mm).toBe(40);
+    });
+
+    it('ponds the terrain inline when the compute worker fails', async () => {
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const failing = { run: () => Promise.reject(new Error('Worker crashed')), terminate: () => undefined };
+        jest.spyOn(computeService, 'getComputeService').mockReturnValue(failing);
+
+        const ponding = await run({ flowRouting: basin });
+
+        expect(ponding.maxDepth_m).toBeCloseTo(0.27, 3);
+    });
+});
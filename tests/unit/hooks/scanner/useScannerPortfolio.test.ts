@@ -0,0 +1,64 @@
+import { renderHook, act } from '@testing-library/react';
+import { useScannerPortfolio } from '../../../../src/hooks/scanner/useScannerPortfolio';
+import type { ARScannerState } from '../../../../src/hooks/useARScanner';
+
+describe('useScannerPortfolio', () => {
+    const mockUpdate = jest.fn();
+    const state = {
+        detectedArea: 1000,
+        catchment: null,
+        portfolioTarget: { metric: 'peak_reduction', value: 14 },
+        portfolioBudget: null
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    const run = (s: object) => {
+        renderHook(() => useScannerPortfolio(s as unknown as ARScannerState, mockUpdate));
+        act(() => {
+            jest.advanceTimersByTime(50);
+        });
+    };
+
+    it('suggests the cheapest portfolio meeting the target', () => {
+        run(state);
+
+        expect(mockUpdate).toHaveBeenCalledWith({
+            portfolio: expect.objectContaining({ feasible: true }),
+            fixes: [{ type: 'permeable_pavement', size: 200, reductionRate: 0.7, placement: 'Parking area' }]
+        });
+    });
+
+    it('falls back to the most effective affordable mix when over budget', () => {
+        run({ ...state, portfolioBudget: 6000 });
+
+        const { portfolio, fixes } = mockUpdate.mock.calls[0][0];
+        expect(portfolio.feasible).toBe(false);
+        expect(fixes.length).toBeGreaterThan(0);
+        expect(portfolio.paretoFront.at(-1).cost).toBeLessThanOrEqual(6000);
+    });
+
+    it('offers green roofs and bioswales as fixes', () => {
+        run({ ...state, portfolioTarget: { metric: 'peak_reduction', value: 45 } });
+
+        const { portfolio, fixes } = mockUpdate.mock.calls[0][0];
+        expect(portfolio.feasible).toBe(true);
+        expect(fixes).toEqual(expect.arrayContaining([
+            { type: 'green_roof', size: 20, reductionRate: 0.5, placement: 'Shelter roof' }
+        ]));
+    });
+
+    it('skips optimization without a detected area or target', () => {
+        run({ ...state, detectedArea: null });
+        run({ ...state, portfolioTarget: { metric: 'wqv', value: 0 } });
+
+        expect(mockUpdate).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,135 @@
+import { renderHook, act } from '@testing-library/react';
+import { useScannerSubCatchments } from '../../../../src/hooks/scanner/useScannerSubCatchments';
+import type { ARScannerState } from '../../../../src/hooks/useARScanner';
+import {
+    createFlowRoutingService,
+    createTerrainRaster,
+    idfIntensity,
+    DEFAULT_DESIGN_STORM,
+    DEFAULT_IDF_PARAMETERS,
+    DEFAULT_SURFACE_MIX
+} from '../../../../src/lib/hydrology-engine';
+import { CoordinateTransform } from '../../../../src/lib/spatial-coverage';
+import { STORMWATER_PROFILES } from '../../../../src/lib/geo-regulatory';
+import { computePeakRunoff } from '../../../../src/utils/hydrology';
+import * as computeService from '../../../../src/services/computeService';
+
+const mockUpdate = jest.fn();
+const location = { lat: 52.52, lon: 13.405 };
+
+/** Ridge along column 2 draining to outlets in the corners of row 0 */
+const ridgeOf = (cellSize_m: number) => createFlowRoutingService().route(createTerrainRaster(
+    Array.from({ length: 5 }, (_, r) => Array.from({ length: 5 }, (_, c) => 1 - 0.2 * Math.abs(c - 2) + 0.05 * r)),
+    cellSize_m
+));
+const ridge = ridgeOf(1);
+const site = {
+    geoBoundary: null, location, subCatchmentOutlets: [], surfaceMix: DEFAULT_SURFACE_MIX, soilGroup: 'C', tcMethod: 'kirpich',
+    intensityMode: 'auto', rainfall: 50, manualIntensity: 60, designStorm: DEFAULT_DESIGN_STORM,
+    activeProfile: STORMWATER_PROFILES[0], climateScenario: 'current', climateScenarios: null
+};
+
+beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+});
+
+const siteState = (state: Partial<ARScannerState>) => ({ flowRouting: ridge, ...site, ...state } as unknown as ARScannerState);
+
+const run = async (state: Partial<ARScannerState>) => {
+    renderHook(() => useScannerSubCatchments(siteState(state), mockUpdate));
+    await act(async () => {
+        await jest.advanceTimersByTimeAsync(50);
+    });
+    return mockUpdate.mock.calls[0][0].subCatchments;
+};
+
+describe('useScannerSubCatchments', () => {
+    it('plans a sub-catchment per detected inlet with its own Rational peak', async () => {
+        const plans = await run({});
+
+        expect(plans.map((p: { area_m2: number }) => p.area_m2)).toEqual([15, 10]);
+        expect(plans[0].tc_min).toBe(5);
+        expect(plans[0].peakRunoff).toBeCloseTo(computePeakRunoff(50, 15, plans[0].runoffCoefficient));
+        expect(plans[0].outletSource).toBe('detected');
+        expect(plans[0].fixes.length).toBeGreaterThan(0);
+        expect(plans[0].outlet.lat).toBeCloseTo(location.lat, 4);
+    });
+
+    it('traces footprints as closed lon/lat rings', async () => {
+        const [ring] = (await run({}))[0].footprint;
+
+        expect(ring).toHaveLength(5);
+        expect(ring[0]).toEqual(ring[4]);
+        expect(ring[0][0]).toBeCloseTo(location.lon, 3);
+    });
+
+    it('uses the inlets placed on the map', async () => {
+        const inlet = CoordinateTransform.localMetersToLatLon(location, { x: 1, y: 2 });
+        const plans = await run({ subCatchmentOutlets: [inlet] });
+
+        expect(plans).toHaveLength(1);
+        expect(plans[0]).toMatchObject({ outletSource: 'placed', area_m2: 9 });
+    });
+
+    it('clears the plan without routed terrain or a site origin', async () => {
+        expect(await run({ flowRouting: null })).toBeNull();
+        jest.clearAllMocks();
+        expect(await run({ location: null })).toBeNull();
+    });
+});
+
+describe('useScannerSubCatchments peak runoff', () => {
+    it('reads each design storm intensity off the IDF curve at its own Tc', async () => {
+        const [west, east] = await run({ flowRouting: ridgeOf(50), intensityMode: 'design' });
+
+        expect(west.tc_min).toBeGreaterThan(east.tc_min);
+        [west, east].forEach(plan => expect(plan.peakRunoff).toBeCloseTo(computePeakRunoff(
+            idfIntensity(DEFAULT_IDF_PARAMETERS, DEFAULT_DESIGN_STORM.returnPeriod_yr, plan.tc_min), plan.area_m2, plan.runoffCoefficient
+        )));
+        expect(east.peakRunoff / east.area_m2).toBeGreaterThan(west.peakRunoff / west.area_m2);
+    });
+
+    it('applies the uplift of the selected climate scenario', async () => {
+        const current = (await run({}))[0].peakRunoff;
+        jest.clearAllMocks();
+        const future = await run({ climateScenario: '2100', climateScenarios: [{ scenario: '2100', factor: 1.2, intensity_mm_hr: 60, depth_mm: 36 }] });
+
+        expect(future[0].peakRunoff).toBeCloseTo(current * 1.2);
+    });
+});
+
+describe('useScannerSubCatchments compute worker', () => {
+    it('drops the plan of inlets moved before it is ready', async () => {
+        const inlet = CoordinateTransform.localMetersToLatLon(location, { x: 1, y: 2 });
+        const { rerender } = renderHook(
+            ({ subCatchmentOutlets }) => useScannerSubCatchments(siteState({ subCatchmentOutlets }), mockUpdate),
+            { initialProps: { subCatchmentOutlets: [] as ARScannerState['subCatchmentOutlets'] } }
+        );
+        act(() => {
+            jest.advanceTimersByTime(50);
+        });
+        rerender({ subCatchmentOutlets: [inlet] });
+        await act(async () => {
+            await jest.advanceTimersByTimeAsync(50);
+        });
+
+        expect(mockUpdate).toHaveBeenCalledTimes(1);
+        expect(mockUpdate.mock.calls[0][0].subCatchments).toHaveLength(1);
+    });
+
+    it('delineates the site inline when the compute worker fails', async () => {
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const failing = { run: () => Promise.reject(new Error('Worker crashed')), terminate: () => undefined };
+        jest.spyOn(computeService, 'getComputeService').mockReturnValue(failing);
+
+        const plans = await run({});
+
+        expect(plans.map((p: { area_m2: number }) => p.area_m2)).toEqual([15, 10]);
+    });
+});
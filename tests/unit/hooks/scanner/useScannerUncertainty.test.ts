@@ -0,0 +1,58 @@
+import { renderHook } from '@testing-library/react';
+import { useScannerUncertainty, profileAnnualRainfall, tapeCalibration } from '../../../../src/hooks/scanner/useScannerUncertainty';
+import type { ARScannerState } from '../../../../src/hooks/useARScanner';
+import { UNCALIBRATED_SCAN_ACCURACY_PERCENT } from '../../../../src/lib/uncertainty-engine';
+import { STORMWATER_PROFILES } from '../../../../src/lib/geo-regulatory';
+
+describe('useScannerUncertainty', () => {
+    const mockUpdate = jest.fn();
+    const state = {
+        catchment: { totalArea_m2: 400, runoffCoefficient: 0.9, imperviousPercent: 100 },
+        peakRunoff: 5,
+        wqv: 11000,
+        fixes: [{ type: 'rain_garden', size: 40, reductionRate: 0.4, placement: 'Sidewalk edge' }],
+        validationError: null,
+        activeProfile: { parameters: { annualRainfall_mm: 570 } }
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    const lastUncertainty = () => mockUpdate.mock.calls.at(-1)[0].uncertainty;
+
+    it('bands the results with the uncalibrated scan spread before a tape check', () => {
+        renderHook(() => useScannerUncertainty(state as unknown as ARScannerState, mockUpdate));
+
+        const uncertainty = lastUncertainty();
+        expect(uncertainty.scanAccuracy_percent).toBe(UNCALIBRATED_SCAN_ACCURACY_PERCENT);
+        expect(uncertainty.bands.peakRunoff_Ls.p10).toBeLessThan(5);
+        expect(uncertainty.bands.peakRunoff_Ls.p90).toBeGreaterThan(5);
+    });
+
+    it('narrows the scan spread to the tape check error', () => {
+        renderHook(() => useScannerUncertainty({ ...state, validationError: 2.5 } as unknown as ARScannerState, mockUpdate));
+
+        expect(lastUncertainty().scanAccuracy_percent).toBe(2.5);
+    });
+
+    it('clears the bands without a catchment', () => {
+        renderHook(() => useScannerUncertainty({ ...state, catchment: null } as unknown as ARScannerState, mockUpdate));
+
+        expect(mockUpdate).toHaveBeenCalledWith({ uncertainty: null });
+    });
+});
+
+describe('profileAnnualRainfall', () => {
+    it('takes the annual rainfall of the profile, or 1000 mm without one', () => {
+        expect(profileAnnualRainfall(STORMWATER_PROFILES.find(p => p.jurisdictionCode === 'DE-BE')!.parameters)).toBe(570);
+        expect(profileAnnualRainfall(STORMWATER_PROFILES.find(p => p.jurisdictionCode === 'GLOBAL')!.parameters)).toBe(1000);
+    });
+});
+
+describe('tapeCalibration', () => {
+    it('treats the tape error as the scan accuracy', () => {
+        expect(tapeCalibration(3)).toEqual({ accuracy: 3, isCalibrated: true });
+        expect(tapeCalibration(null)).toEqual({ accuracy: 0, isCalibrated: false });
+    });
+});
@@ -0,0 +1,95 @@
+import { renderHook, waitFor } from '@testing-library/react';
+import { useScannerWaterBalance } from '../../../../src/hooks/scanner/useScannerWaterBalance';
+import { openMeteoClient } from '../../../../src/services/openMeteoClient';
+import type { ARScannerState } from '../../../../src/hooks/useARScanner';
+
+jest.mock('../../../../src/services/openMeteoClient', () => ({
+    openMeteoClient: {
+        fetchHistoricalRainfall: jest.fn()
+    }
+}));
+
+const mockUpdate = jest.fn();
+const state = {
+    location: { lat: 52.52, lon: 13.405 },
+    detectedArea: 100,
+    fixes: [{ type: 'rain_garden', size: 20, reductionRate: 0.4, placement: 'Sidewalk edge' }],
+    annualRainfall: null,
+    catchment: null,
+    activeProfile: { parameters: { rvFormula: () => 0.9 } }
+};
+
+beforeEach(() => {
+    jest.clearAllMocks();
+});
+
+describe('useScannerWaterBalance', () => {
+    it('loads historical rainfall for the project location', async () => {
+        (openMeteoClient.fetchHistoricalRainfall as jest.Mock).mockResolvedValue({ precipitation: [1, 2, 0] });
+
+        renderHook(() => useScannerWaterBalance(state as unknown as ARScannerState, mockUpdate));
+
+        await waitFor(() => expect(mockUpdate).toHaveBeenCalledWith({ annualRainfall: [1, 2, 0] }));
+        expect(openMeteoClient.fetchHistoricalRainfall).toHaveBeenCalledWith(52.52, 13.405);
+    });
+
+    it('ignores the rainfall of a previous location', async () => {
+        let resolveBerlin: (data: { precipitation: number[] }) => void = () => {};
+        (openMeteoClient.fetchHistoricalRainfall as jest.Mock)
+            .mockReturnValueOnce(new Promise(resolve => { resolveBerlin = resolve; }))
+            .mockResolvedValueOnce({ precipitation: [3] });
+
+        const { rerender } = renderHook(({ s }) => useScannerWaterBalance(s as unknown as ARScannerState, mockUpdate), { initialProps: { s: state } });
+        rerender({ s: { ...state, location: { lat: 38.85, lon: -77.31 } } });
+        await waitFor(() => expect(mockUpdate).toHaveBeenCalledWith({ annualRainfall: [3] }));
+        resolveBerlin({ precipitation: [1] });
+        await Promise.resolve();
+
+        expect(mockUpdate).not.toHaveBeenCalledWith({ annualRainfall: [1] });
+    });
+
+    it('clears the series when the archive is unavailable', async () => {
+        (openMeteoClient.fetchHistoricalRainfall as jest.Mock).mockRejectedValue(new Error('Offline'));
+
+        renderHook(() => useScannerWaterBalance(state as unknown as ARScannerState, mockUpdate));
+
+        await waitFor(() => expect(mockUpdate).toHaveBeenCalledWith({ annualRainfall: null }));
+    });
+
+});
+
+describe('useScannerWaterBalance simulation', () => {
+    it('simulates the suggested rain garden once rainfall is loaded', () => {
+        (openMeteoClient.fetchHistoricalRainfall as jest.Mock).mockReturnValue(new Promise(() => {}));
+        const loaded = { ...state, annualRainfall: [5, 10, 0, 0] };
+
+        renderHook(() => useScannerWaterBalance(loaded as unknown as ARScannerState, mockUpdate));
+
+        expect(mockUpdate).toHaveBeenCalledWith({
+            waterBalance: expect.objectContaining({ simulatedHours: 4, capturePercent: 100 })
+        });
+    });
+
+    it('reports no water balance without a rain garden', () => {
+        (openMeteoClient.fetchHistoricalRainfall as jest.Mock).mockReturnValue(new Promise(() => {}));
+        const noGarden = { ...state, annualRainfall: [5], fixes: [] };
+
+        renderHook(() => useScannerWaterBalance(noGarden as unknown as ARScannerState, mockUpdate));
+
+        expect(mockUpdate).toHaveBeenCalledWith({ waterBalance: null });
+    });
+
+    it('uses the composite runoff coefficient of a mixed catchment', () => {
+        (openMeteoClient.fetchHistoricalRainfall as jest.Mock).mockReturnValue(new Promise(() => {}));
+        const paved = { ...state, annualRainfall: [5, 10, 0, 0] };
+        const mixed = { ...paved, catchment: { runoffCoefficient: 0.45 } };
+
+        renderHook(() => useScannerWaterBalance(paved as unknown as ARScannerState, mockUpdate));
+        renderHook(() => useScannerWaterBalance(mixed as unknown as ARScannerState, mockUpdate));
+
+        const [pavedResult, mixedResult] = mockUpdate.mock.calls
+            .filter(([u]) => u.waterBalance)
+            .map(([u]) => u.waterBalance);
+        expect(mixedResult.inflow_L).toBeLessThan(pavedResult.inflow_L);
+    });
+});
@@ -0,0 +1,76 @@
+import { ClimateScenarioService } from '../../../src/lib/hydrology-engine/domain/services/ClimateScenarioService';
+import {
+    upliftFactor,
+    upliftHyetograph,
+    type ClimateUpliftTable
+} from '../../../src/lib/hydrology-engine/domain/valueObjects/ClimateUplift';
+import { createHyetograph } from '../../../src/lib/hydrology-engine/domain/valueObjects/Hyetograph';
+import { CLIMATE_UPLIFT_PRESETS } from '../../../src/lib/hydrology-engine/config/climateUplift';
+
+const service = new ClimateScenarioService();
+
+const table: ClimateUpliftTable = {
+    region: 'Test',
+    factors: {
+        '2050': [{ returnPeriod_yr: 100, factor: 1.2 }, { returnPeriod_yr: 10, factor: 1.1 }],
+        '2100': [{ returnPeriod_yr: 10, factor: 1.3 }]
+    }
+};
+
+describe('upliftFactor', () => {
+    it('leaves the current climate unchanged', () => {
+        expect(upliftFactor(table, 'current', 10)).toBe(1);
+    });
+
+    it('interpolates on log return period between tabulated points', () => {
+        // 31.6 years lies halfway between 10 and 100 on a log scale
+        expect(upliftFactor(table, '2050', Math.sqrt(1000))).toBeCloseTo(1.15, 6);
+    });
+
+    it('holds the end factors beyond the table', () => {
+        expect(upliftFactor(table, '2050', 2)).toBe(1.1);
+        expect(upliftFactor(table, '2050', 500)).toBe(1.2);
+        expect(upliftFactor(table, '2100', 100)).toBe(1.3);
+    });
+
+    it('treats an empty horizon as no uplift', () => {
+        expect(upliftFactor({ region: 'Empty', factors: { '2050': [], '2100': [] } }, '2100', 10)).toBe(1);
+    });
+
+    it('reads the Environment Agency allowance for a 100-year storm in London', () => {
+        expect(upliftFactor(CLIMATE_UPLIFT_PRESETS.gb_london, '2050', 100)).toBe(1.4);
+    });
+});
+
+describe('upliftHyetograph', () => {
+    it('scales every block, the peak and the total depth', () => {
+        const storm = createHyetograph({ method: 'chicago', returnPeriod_yr: 10, duration_min: 15, timeStep_min: 5 }, [2, 5, 3]);
+        const future = upliftHyetograph(storm, 1.2);
+
+        expect(future.intensities_mm_hr).toEqual(storm.intensities_mm_hr.map(i => expect.closeTo(i * 1.2, 6)));
+        expect(future.totalDepth_mm).toBeCloseTo(12, 6);
+        expect(future.peakIntensity_mm_hr).toBeCloseTo(72, 6);
+        expect(future.timeToPeak_min).toBe(storm.timeToPeak_min);
+    });
+});
+
+describe('ClimateScenarioService', () => {
+    const input = { intensity_mm_hr: 50, depth_mm: 30, returnPeriod_yr: 10, table };
+
+    it('compares the current climate with 2050 and 2100', () => {
+        const results = service.compare(input);
+
+        expect(results.map(r => r.scenario)).toEqual(['current', '2050', '2100']);
+        expect(results[0]).toEqual({ scenario: 'current', factor: 1, intensity_mm_hr: 50, depth_mm: 30 });
+        expect(results[1].intensity_mm_hr).toBeCloseTo(55, 6);
+        expect(results[2].depth_mm).toBeCloseTo(39, 6);
+    });
+
+    it('applies a single scenario', () => {
+        expect(service.apply(input, '2100').intensity_mm_hr).toBeCloseTo(65, 6);
+    });
+
+    it('rejects a non-positive return period', () => {
+        expect(() => service.apply({ ...input, returnPeriod_yr: 0 }, '2050')).toThrow('Return period must be positive');
+    });
+});
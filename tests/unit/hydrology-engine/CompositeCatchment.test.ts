@@ -0,0 +1,79 @@
+import {
+    createCompositeCatchment,
+    subAreasFromShares,
+    getSurfaceCover,
+    SURFACE_COVERS
+} from '../../../src/lib/hydrology-engine';
+
+describe('SurfaceCover', () => {
+    it('maps every surface to a runoff coefficient between 0 and 1', () => {
+        for (const entry of Object.values(SURFACE_COVERS)) {
+            expect(entry.runoffCoefficient).toBeGreaterThan(0);
+            expect(entry.runoffCoefficient).toBeLessThanOrEqual(1);
+        }
+    });
+
+    it('throws for an unknown surface type', () => {
+        expect(() => getSurfaceCover('sand' as never)).toThrow('Unknown surface type');
+    });
+});
+
+describe('createCompositeCatchment', () => {
+    it('area-weights the runoff coefficient and curve number', () => {
+        const catchment = createCompositeCatchment([
+            { surface: 'roof', area_m2: 60 },
+            { surface: 'lawn', area_m2: 40 }
+        ], 'C');
+
+        expect(catchment.totalArea_m2).toBe(100);
+        expect(catchment.runoffCoefficient).toBeCloseTo(0.95 * 0.6 + 0.25 * 0.4, 6);
+        expect(catchment.curveNumber).toBeCloseTo(98 * 0.6 + 79 * 0.4, 6);
+    });
+
+    it('reports the impervious share', () => {
+        const catchment = createCompositeCatchment([
+            { surface: 'asphalt', area_m2: 30 },
+            { surface: 'permeable_pavers', area_m2: 20 },
+            { surface: 'planting_bed', area_m2: 50 }
+        ], 'B');
+
+        expect(catchment.imperviousArea_m2).toBe(30);
+        expect(catchment.imperviousPercent).toBeCloseTo(30, 6);
+    });
+
+    it('matches a single surface exactly', () => {
+        const catchment = createCompositeCatchment([{ surface: 'asphalt', area_m2: 250 }], 'D');
+
+        expect(catchment.runoffCoefficient).toBe(0.95);
+        expect(catchment.curveNumber).toBe(98);
+        expect(catchment.imperviousPercent).toBe(100);
+    });
+
+    it('is immutable', () => {
+        const catchment = createCompositeCatchment([{ surface: 'lawn', area_m2: 10 }], 'A');
+        expect(Object.isFrozen(catchment)).toBe(true);
+    });
+
+    it('throws without a positive total area', () => {
+        expect(() => createCompositeCatchment([{ surface: 'roof', area_m2: 0 }], 'C'))
+            .toThrow('Composite catchment requires a positive total area');
+    });
+});
+
+describe('subAreasFromShares', () => {
+    it('normalizes shares that do not sum to 1', () => {
+        const subAreas = subAreasFromShares([
+            { surface: 'roof', fraction: 0.3 },
+            { surface: 'lawn', fraction: 0.1 }
+        ], 200);
+
+        expect(subAreas.map(s => s.surface)).toEqual(['roof', 'lawn']);
+        expect(subAreas[0].area_m2).toBeCloseTo(150, 6);
+        expect(subAreas[1].area_m2).toBeCloseTo(50, 6);
+    });
+
+    it('throws when no share is positive', () => {
+        expect(() => subAreasFromShares([{ surface: 'lawn', fraction: 0 }], 100))
+            .toThrow('Surface shares must include a positive fraction');
+    });
+});
@@ -0,0 +1,92 @@
+import { CurveNumberService } from '../../../src/lib/hydrology-engine/domain/services/CurveNumberService';
+import { getCurveNumber } from '../../../src/lib/hydrology-engine/domain/valueObjects/CurveNumber';
+
+const service = new CurveNumberService();
+
+describe('Curve Number Lookup', () => {
+    it('returns 98 for impervious cover on any soil', () => {
+        expect(getCurveNumber('impervious', 'A')).toBe(98);
+        expect(getCurveNumber('impervious', 'D')).toBe(98);
+    });
+
+    it('increases from soil group A to D for lawns', () => {
+        expect(getCurveNumber('open_space_good', 'A')).toBeLessThan(getCurveNumber('open_space_good', 'D'));
+    });
+
+    it('throws for unknown land cover', () => {
+        expect(() => getCurveNumber('glacier' as never, 'A')).toThrow('Unknown land cover');
+    });
+});
+
+describe('SCS Runoff Depth', () => {
+    it('matches the TR-55 worked value for CN 80 and 5 inches of rain', () => {
+        // TR-55 Figure 2-1: P = 5 in, CN = 80 → Q ≈ 2.89 in
+        const q_mm = service.computeRunoffDepth(5 * 25.4, 80);
+        expect(q_mm / 25.4).toBeCloseTo(2.89, 1);
+    });
+
+    it('returns 0 when rainfall does not exceed initial abstraction', () => {
+        // CN 61 → S ≈ 162 mm, Ia ≈ 32 mm
+        expect(service.computeRunoffDepth(20, 61)).toBe(0);
+    });
+
+    it('approaches rainfall depth for CN 100', () => {
+        expect(service.computeRunoffDepth(40, 100)).toBeCloseTo(40, 6);
+    });
+
+    it('rejects curve numbers outside (0, 100]', () => {
+        expect(() => service.potentialRetention(0)).toThrow();
+        expect(() => service.potentialRetention(101)).toThrow();
+    });
+});
+
+describe('TR-55 Unit Peak Discharge', () => {
+    it('matches Table F-1 at the tabulated Type II row', () => {
+        // log(qu) = 2.55323 - 0.61512·log(1) - 0.16403·log(1)² at Tc = 1 hr
+        expect(service.computeUnitPeakDischarge(1, 0.1, 'II')).toBeCloseTo(Math.pow(10, 2.55323), 3);
+    });
+
+    it('decreases as time of concentration increases', () => {
+        const fast = service.computeUnitPeakDischarge(0.1, 0.2, 'II');
+        const slow = service.computeUnitPeakDischarge(2, 0.2, 'II');
+        expect(slow).toBeLessThan(fast);
+    });
+
+    it('clamps Tc and Ia/P to the TR-55 validity range', () => {
+        expect(service.computeUnitPeakDischarge(0.01, 0.01, 'III'))
+            .toBeCloseTo(service.computeUnitPeakDischarge(0.1, 0.1, 'III'), 6);
+    });
+
+    it('interpolates between tabulated Ia/P rows', () => {
+        const low = service.computeUnitPeakDischarge(0.5, 0.3, 'I');
+        const mid = service.computeUnitPeakDischarge(0.5, 0.325, 'I');
+        const high = service.computeUnitPeakDischarge(0.5, 0.35, 'I');
+        expect(mid).toBeLessThan(low);
+        expect(mid).toBeGreaterThan(high);
+    });
+});
+
+describe('Catchment Runoff', () => {
+    it('computes volume and peak for a one-acre parking lot', () => {
+        const result = service.computeRunoff({ rainfall_mm: 76.2, area_m2: 4047, curveNumber: 98 });
+
+        expect(result.runoffDepth_mm).toBeCloseTo(70.3, 0);
+        expect(result.runoffVolume_L).toBeCloseTo(result.runoffDepth_mm * 4047, 3);
+        // ≈ 4.3 cfs for Type II, Tc = 0.1 hr
+        expect(result.peakDischarge_Ls).toBeGreaterThan(115);
+        expect(result.peakDischarge_Ls).toBeLessThan(130);
+    });
+
+    it('returns zero peak when there is no runoff', () => {
+        const result = service.computeRunoff({ rainfall_mm: 5, area_m2: 500, curveNumber: 70 });
+        expect(result.runoffDepth_mm).toBe(0);
+        expect(result.peakDischarge_Ls).toBe(0);
+    });
+
+    it('produces a lower peak for a longer time of concentration', () => {
+        const base = { rainfall_mm: 60, area_m2: 2000, curveNumber: 90 };
+        const quick = service.computeRunoff(base);
+        const slow = service.computeRunoff({ ...base, timeOfConcentration_hr: 1 });
+        expect(slow.peakDischarge_Ls).toBeLessThan(quick.peakDischarge_Ls);
+    });
+});
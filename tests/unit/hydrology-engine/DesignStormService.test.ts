@@ -0,0 +1,84 @@
+import { DesignStormService } from '../../../src/lib/hydrology-engine/domain/services/DesignStormService';
+import { idfIntensity, idfDepth, createIdfCurve } from '../../../src/lib/hydrology-engine/domain/valueObjects/IdfCurve';
+import { cumulativeDepths, type HyetographMethod } from '../../../src/lib/hydrology-engine/domain/valueObjects/Hyetograph';
+import { IDF_PRESETS } from '../../../src/lib/hydrology-engine/config/designStorms';
+
+const service = new DesignStormService();
+const idf = IDF_PRESETS.us_mid_atlantic;
+const METHODS: HyetographMethod[] = ['chicago', 'huff', 'scs_type_ii', 'euler_ii'];
+
+describe('IDF Curve', () => {
+    it('decreases intensity with duration', () => {
+        expect(idfIntensity(idf, 10, 5)).toBeGreaterThan(idfIntensity(idf, 10, 60));
+    });
+
+    it('increases intensity with return period', () => {
+        expect(idfIntensity(idf, 100, 60)).toBeGreaterThan(idfIntensity(idf, 2, 60));
+    });
+
+    it('depth equals intensity times duration', () => {
+        expect(idfDepth(idf, 10, 120)).toBeCloseTo(idfIntensity(idf, 10, 120) * 2, 6);
+    });
+
+    it('tabulates one point per duration', () => {
+        const curve = createIdfCurve(idf, 10, [5, 15, 60]);
+        expect(curve.map(p => p.duration_min)).toEqual([5, 15, 60]);
+    });
+
+    it('rejects non-positive durations and return periods', () => {
+        expect(() => idfIntensity(idf, 0, 60)).toThrow('must be positive');
+        expect(() => idfIntensity(idf, 10, 0)).toThrow('must be positive');
+    });
+});
+
+describe('Design Storm Hyetographs', () => {
+    it.each(METHODS)('%s preserves the IDF depth for the storm duration', (method) => {
+        const storm = service.generate({ idf, method, returnPeriod_yr: 10, duration_min: 60, timeStep_min: 5 });
+
+        expect(storm.intensities_mm_hr).toHaveLength(12);
+        expect(storm.totalDepth_mm).toBeCloseTo(idfDepth(idf, 10, 60), 1);
+    });
+
+    it('places the Chicago peak at 40% of the duration', () => {
+        const storm = service.generate({ idf, method: 'chicago', duration_min: 100, timeStep_min: 5 });
+        expect(storm.timeToPeak_min).toBe(40);
+    });
+
+    it('Chicago peak is far above the mean storm intensity', () => {
+        const storm = service.generate({ idf, method: 'chicago', duration_min: 60, timeStep_min: 5 });
+        expect(storm.peakIntensity_mm_hr).toBeGreaterThan(2 * idfIntensity(idf, 10, 60));
+    });
+
+    it('places the Euler II peak after the first third', () => {
+        const storm = service.generate({ idf, method: 'euler_ii', duration_min: 60, timeStep_min: 5 });
+        expect(storm.timeToPeak_min).toBe(20);
+        expect(storm.peakIntensity_mm_hr).toBeCloseTo(idfIntensity(idf, 10, 5), 6);
+    });
+
+    it('concentrates SCS Type II rainfall around the midpoint', () => {
+        const storm = service.generate({ idf, method: 'scs_type_ii', duration_min: 1440, timeStep_min: 60 });
+        expect(storm.timeToPeak_min).toBe(660);
+    });
+
+    it('cumulative depths end at the total depth', () => {
+        const storm = service.generate({ idf, method: 'huff' });
+        const cumulative = cumulativeDepths(storm);
+        expect(cumulative[cumulative.length - 1]).toBeCloseTo(storm.totalDepth_mm, 6);
+    });
+
+    it('is reproducible for the same spec', () => {
+        const a = service.generate({ idf, method: 'chicago', returnPeriod_yr: 25 });
+        const b = service.generate({ idf, method: 'chicago', returnPeriod_yr: 25 });
+        expect(a).toEqual(b);
+    });
+
+    it('fills missing spec fields with the default design storm', () => {
+        const storm = service.generate({ idf });
+        expect(storm).toMatchObject({ method: 'chicago', returnPeriod_yr: 10, duration_min: 60, timeStep_min: 5 });
+    });
+
+    it('throws for unknown methods and too-short storms', () => {
+        expect(() => service.generate({ idf, method: 'triangular' as never })).toThrow('Unknown hyetograph method');
+        expect(() => service.generate({ idf, duration_min: 1, timeStep_min: 5 })).toThrow('at least one time step');
+    });
+});
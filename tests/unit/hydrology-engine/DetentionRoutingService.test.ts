@@ -0,0 +1,122 @@
+import { DetentionRoutingService } from '../../../src/lib/hydrology-engine/domain/services/DetentionRoutingService';
+import { createHydrograph } from '../../../src/lib/hydrology-engine/domain/valueObjects/Hydrograph';
+import {
+    createStageStorageDischarge,
+    outletDischarge,
+    prismaticStorage,
+    type OutletStructure
+} from '../../../src/lib/hydrology-engine/domain/valueObjects/StageStorageDischarge';
+
+const service = new DetentionRoutingService();
+
+/** Triangular inflow rising to 50 L/s at 30 min and back to zero at 90 min (5-min steps) */
+const inflow = createHydrograph(5, Array.from({ length: 19 }, (_, i) => (i <= 6 ? i * 50 / 6 : Math.max(0, (18 - i) * 50 / 12))));
+
+const orifice: OutletStructure = { type: 'orifice', diameter_m: 0.1, invert_m: 0 };
+const weir: OutletStructure = { type: 'weir', crestLength_m: 1, crest_m: 0.8 };
+
+describe('Hydrograph', () => {
+    it('integrates the volume with the trapezoidal rule', () => {
+        // 50 L/s peak × 90 min / 2 = 135 m³
+        expect(inflow.volume_m3).toBeCloseTo(135, 6);
+        expect(inflow.peakFlow_Ls).toBeCloseTo(50, 6);
+        expect(inflow.timeToPeak_min).toBe(30);
+    });
+
+    it('rejects a non-positive time step', () => {
+        expect(() => createHydrograph(0, [1])).toThrow('Hydrograph time step must be positive');
+    });
+});
+
+describe('Stage-Storage-Discharge', () => {
+    it('computes orifice flow from the head over the centroid', () => {
+        // 0.61 × π × 0.1² / 4 × √(2 × 9.81 × 1.0)
+        expect(outletDischarge(orifice, 1.05)).toBeCloseTo(0.61 * Math.PI * 0.0025 * Math.sqrt(19.62) * 1000, 6);
+        expect(outletDischarge(orifice, 0.04)).toBe(0);
+    });
+
+    it('computes weir flow from the head over the crest', () => {
+        expect(outletDischarge(weir, 1.0)).toBeCloseTo(1.84 * 0.2 ** 1.5 * 1000, 6);
+        expect(outletDischarge(weir, 0.5)).toBe(0);
+    });
+
+    it('integrates storage over a sloped stage-area table', () => {
+        const rating = createStageStorageDischarge([{ stage_m: 0, area_m2: 10 }, { stage_m: 1, area_m2: 30 }], [orifice], 10);
+
+        expect(rating.maxStorage_m3).toBeCloseTo(20, 6);
+        expect(rating.points[5].storage_m3).toBeCloseTo(7.5, 6);
+        expect(rating.points).toHaveLength(11);
+    });
+
+    it('sums the discharge of all outlets', () => {
+        const rating = createStageStorageDischarge(prismaticStorage(50, 1), [orifice, weir], 10);
+
+        expect(rating.points[10].discharge_Ls).toBeCloseTo(outletDischarge(orifice, 1) + outletDischarge(weir, 1), 6);
+    });
+
+    it('rejects tables that do not start at stage 0 or do not rise', () => {
+        expect(() => createStageStorageDischarge([{ stage_m: 0.2, area_m2: 10 }, { stage_m: 1, area_m2: 10 }], []))
+            .toThrow('starting at stage 0');
+        expect(() => createStageStorageDischarge([{ stage_m: 0, area_m2: 10 }, { stage_m: 0, area_m2: 10 }], []))
+            .toThrow('rising stages');
+    });
+});
+
+describe('Modified Puls Routing', () => {
+    const rating = createStageStorageDischarge(prismaticStorage(150, 1.2), [orifice, weir]);
+
+    it('attenuates and delays the peak', () => {
+        const result = service.route({ rating, inflow });
+
+        expect(result.peakOutflow_Ls).toBeLessThan(result.peakInflow_Ls);
+        expect(result.peakAttenuation_percent).toBeGreaterThan(0);
+        expect(result.peakLag_min).toBeGreaterThan(0);
+        expect(result.overtopped).toBe(false);
+    });
+
+    it('conserves volume between inflow, outflow and water left in storage', () => {
+        const result = service.route({ rating, inflow });
+        const left = 150 * result.stages_m.at(-1)!;
+
+        expect(result.outflow.volume_m3 + left).toBeCloseTo(inflow.volume_m3, 0);
+    });
+
+    it('peaks when outflow crosses the falling inflow', () => {
+        const result = service.route({ rating, inflow });
+        const peakStep = result.outflow.timeToPeak_min / 5;
+
+        expect(result.outflow.flows_Ls[peakStep]).toBeCloseTo(inflow.flows_Ls[peakStep], -1);
+        expect(result.maxStage_m).toBeCloseTo(result.stages_m[peakStep], 6);
+    });
+
+    it('checks the peak outflow against a throttle limit', () => {
+        const result = service.route({ rating, inflow, dischargeLimit_Ls: 20 });
+        const unlimited = service.route({ rating, inflow });
+
+        expect(result.meetsDischargeLimit).toBe(result.peakOutflow_Ls <= 20);
+        expect(unlimited.meetsDischargeLimit).toBeNull();
+    });
+
+    it('meets a tight limit with a smaller orifice', () => {
+        const throttled = createStageStorageDischarge(prismaticStorage(150, 1.2), [{ type: 'orifice', diameter_m: 0.05, invert_m: 0 }]);
+        const result = service.route({ rating: throttled, inflow, dischargeLimit_Ls: 5 });
+
+        expect(result.meetsDischargeLimit).toBe(true);
+        expect(result.maxStage_m).toBeLessThan(1.2);
+    });
+
+    it('spills uncontrolled when the storage is too small', () => {
+        const small = createStageStorageDischarge(prismaticStorage(10, 0.5), [orifice]);
+        const result = service.route({ rating: small, inflow });
+
+        expect(result.overtopped).toBe(true);
+        expect(result.maxStage_m).toBe(0.5);
+        expect(result.peakAttenuation_percent).toBeLessThan(20);
+    });
+
+    it('rejects empty inflow and empty storage', () => {
+        expect(() => service.route({ rating, inflow: createHydrograph(5, []) })).toThrow('Inflow hydrograph is empty');
+        expect(() => service.route({ rating: createStageStorageDischarge(prismaticStorage(0, 1), [orifice]), inflow }))
+            .toThrow('Detention storage must hold a positive volume');
+    });
+});
@@ -0,0 +1,134 @@
+import { DwaA138Service } from '../../../src/lib/hydrology-engine/domain/services/DwaA138Service';
+import {
+    createKostraTable,
+    kostraFromIdf,
+    MM_HR_TO_L_S_HA
+} from '../../../src/lib/hydrology-engine/domain/valueObjects/KostraRainfall';
+import { idfIntensity } from '../../../src/lib/hydrology-engine/domain/valueObjects/IdfCurve';
+import { IDF_PRESETS } from '../../../src/lib/hydrology-engine/config/designStorms';
+
+const service = new DwaA138Service();
+
+// One 15-minute block of 100 L/(s·ha): 10⁻⁵ m/s over 15 × 60 × 1.2 = 1080 s
+const singleStorm = createKostraTable(5, [{ duration_min: 15, intensity_Lsha: 100 }]);
+const berlin = kostraFromIdf(IDF_PRESETS.de_berlin, 5);
+
+describe('KOSTRA Rainfall', () => {
+    it('converts IDF intensities to L/(s·ha) at the KOSTRA durations', () => {
+        expect(berlin.points[0].duration_min).toBe(5);
+        expect(berlin.points.at(-1)!.duration_min).toBe(4320);
+        expect(berlin.points[0].intensity_Lsha).toBeCloseTo(idfIntensity(IDF_PRESETS.de_berlin, 5, 5) * MM_HR_TO_L_S_HA, 6);
+    });
+
+    it('sorts atlas values by duration', () => {
+        const table = createKostraTable(2, [
+            { duration_min: 60, intensity_Lsha: 40 },
+            { duration_min: 10, intensity_Lsha: 150 }
+        ]);
+
+        expect(table.points.map(p => p.duration_min)).toEqual([10, 60]);
+    });
+
+    it('rejects empty tables and non-positive return periods', () => {
+        expect(() => createKostraTable(5, [])).toThrow('KOSTRA table');
+        expect(() => createKostraTable(0, [{ duration_min: 10, intensity_Lsha: 100 }])).toThrow('Return period');
+    });
+});
+
+describe('Swale (Mulde)', () => {
+    it('sizes the swale so the ponding depth reaches 0.3 m', () => {
+        // A_s = 1000 × 10⁻⁵ × 1080 / (0.3 − (10⁻⁵ − 5 × 10⁻⁶) × 1080)
+        const design = service.size({ facility: 'mulde', connectedArea_m2: 1000, kf_m_s: 1e-5, rainfall: singleStorm });
+
+        expect(design.surfaceArea_m2).toBeCloseTo(10.8 / 0.2946, 6);
+        expect(design.storageVolume_m3 / design.surfaceArea_m2).toBeCloseTo(0.3, 6);
+        expect(design.emptyingTime_hr).toBeCloseTo(0.3 / 5e-6 / 3600, 6);
+        expect(design.trenchLength_m).toBeNull();
+        expect(design.compliant).toBe(true);
+    });
+
+    it('keeps the depth within 0.3 m for every KOSTRA duration', () => {
+        const design = service.size({ facility: 'mulde', connectedArea_m2: 1000, kf_m_s: 1e-5, rainfall: berlin });
+
+        expect(design.storageVolume_m3 / design.surfaceArea_m2).toBeLessThanOrEqual(0.3 + 1e-9);
+        expect(berlin.points.map(p => p.duration_min)).toContain(design.criticalDuration_min);
+        expect(design.returnPeriod_yr).toBe(5);
+    });
+
+    it('needs a larger swale on slower soils', () => {
+        const fast = service.size({ facility: 'mulde', connectedArea_m2: 1000, kf_m_s: 1e-4, rainfall: berlin });
+        const slow = service.size({ facility: 'mulde', connectedArea_m2: 1000, kf_m_s: 5e-6, rainfall: berlin });
+
+        expect(slow.surfaceArea_m2).toBeGreaterThan(fast.surfaceArea_m2);
+    });
+
+    it('flags soils too tight to drain the swale within 24 hours', () => {
+        const design = service.size({ facility: 'mulde', connectedArea_m2: 1000, kf_m_s: 5e-7, rainfall: singleStorm });
+
+        expect(design.kfPermissible).toBe(false);
+        expect(design.emptyingTimeOk).toBe(false);
+        expect(design.compliant).toBe(false);
+    });
+});
+
+describe('Trench (Rigole)', () => {
+    it('sizes the trench length from storage and exfiltration', () => {
+        // L = 0.01 / (0.35 / 1080 + 1.5 × 5 × 10⁻⁶)
+        const design = service.size({ facility: 'rigole', connectedArea_m2: 1000, kf_m_s: 1e-5, rainfall: singleStorm });
+        const length = 0.01 / (0.35 / 1080 + 7.5e-6);
+
+        expect(design.trenchLength_m).toBeCloseTo(length, 6);
+        expect(design.surfaceArea_m2).toBeCloseTo(length, 6);
+        expect(design.storageVolume_m3).toBeCloseTo(length * 0.35, 6);
+        expect(design.emptyingTime_hr).toBeCloseTo(0.35 / 7.5e-6 / 3600, 6);
+    });
+
+    it('shortens with a wider, deeper trench of plastic boxes', () => {
+        const gravel = service.size({ facility: 'rigole', connectedArea_m2: 1000, kf_m_s: 1e-5, rainfall: berlin });
+        const boxes = service.size({
+            facility: 'rigole', connectedArea_m2: 1000, kf_m_s: 1e-5, rainfall: berlin,
+            trench: { width_m: 1.5, height_m: 1.2, storageCoefficient: 0.95 }
+        });
+
+        expect(boxes.trenchLength_m!).toBeLessThan(gravel.trenchLength_m!);
+    });
+});
+
+describe('Swale-Trench System (Mulden-Rigolen-Element)', () => {
+    it('stores swale and trench volumes together', () => {
+        const design = service.size({ facility: 'mulden_rigole', connectedArea_m2: 1000, kf_m_s: 1e-6, rainfall: berlin });
+        const swale = service.size({ facility: 'mulde', connectedArea_m2: 1000, kf_m_s: 1e-5, rainfall: berlin });
+
+        expect(design.surfaceArea_m2).toBeCloseTo(swale.surfaceArea_m2, 6);
+        expect(design.trenchLength_m!).toBeGreaterThan(0);
+        expect(design.storageVolume_m3).toBeCloseTo(swale.storageVolume_m3 + design.trenchLength_m! * 0.35, 6);
+    });
+
+    it('accepts tight soils when the trench has a throttled outflow', () => {
+        const sealed = service.size({ facility: 'mulden_rigole', connectedArea_m2: 1000, kf_m_s: 1e-7, rainfall: berlin });
+        const throttled = service.size({
+            facility: 'mulden_rigole', connectedArea_m2: 1000, kf_m_s: 1e-7, rainfall: berlin, throttle_Ls: 0.1
+        });
+
+        expect(sealed.kfPermissible).toBe(false);
+        expect(throttled.kfPermissible).toBe(true);
+        expect(throttled.trenchLength_m!).toBeLessThan(sealed.trenchLength_m!);
+    });
+});
+
+describe('Validation', () => {
+    it('rejects a non-positive connected area', () => {
+        expect(() => service.size({ facility: 'mulde', connectedArea_m2: 0, kf_m_s: 1e-5, rainfall: berlin }))
+            .toThrow('Connected impervious area must be positive');
+    });
+
+    it('rejects a negative conductivity', () => {
+        expect(() => service.size({ facility: 'rigole', connectedArea_m2: 100, kf_m_s: -1, rainfall: berlin }))
+            .toThrow('Hydraulic conductivity cannot be negative');
+    });
+
+    it('rejects unknown facilities', () => {
+        expect(() => service.size({ facility: 'pond' as never, connectedArea_m2: 100, kf_m_s: 1e-5, rainfall: berlin }))
+            .toThrow('Unknown infiltration facility: pond');
+    });
+});
@@ -0,0 +1,111 @@
+import { FlowRoutingService } from '../../../src/lib/hydrology-engine/domain/services/FlowRoutingService';
+import {
+    cellIndexAt,
+    createTerrainRaster,
+    isEdgeCell,
+    neighbourIndices,
+    rasterizeElevationGrid
+} from '../../../src/lib/hydrology-engine/domain/valueObjects/TerrainRaster';
+import { MAX_FLOW_CELLS } from '../../../src/lib/hydrology-engine/config/flowRouting';
+import { ElevationGrid } from '../../../src/lib/spatial-coverage/domain/valueObjects/ElevationGrid';
+import { createElevationSample } from '../../../src/lib/spatial-coverage/domain/valueObjects/ElevationSample';
+
+const service = new FlowRoutingService();
+
+/** Plane falling towards +x by 0.1 m per column */
+const plane = (rows: number, cols: number) =>
+    Array.from({ length: rows }, () => Array.from({ length: cols }, (_, c) => 1 - 0.1 * c));
+
+/** Bowl with its lowest point in the middle */
+const bowl = (n: number) =>
+    Array.from({ length: n }, (_, r) => Array.from({ length: n }, (_, c) => Math.hypot(r - (n - 1) / 2, c - (n - 1) / 2)));
+
+describe('TerrainRaster', () => {
+    it('stores elevations row-major with world positions', () => {
+        const raster = createTerrainRaster([[1, 2], [3, 4]], 0.5, { x: 10, y: 20 });
+
+        expect(raster.elevations).toEqual([1, 2, 3, 4]);
+        expect(cellIndexAt(raster, 10.5, 20.5)).toBe(3);
+        expect(cellIndexAt(raster, 12, 20)).toBe(-1);
+    });
+
+    it('rejects empty, ragged or unscaled rasters', () => {
+        expect(() => createTerrainRaster([], 1)).toThrow('at least one cell');
+        expect(() => createTerrainRaster([[1, 2], [3]], 1)).toThrow('equal length');
+        expect(() => createTerrainRaster([[1]], 0)).toThrow('Cell size must be positive');
+    });
+
+    it('lists the neighbours of a cell and flags edge cells', () => {
+        const raster = createTerrainRaster([[0, 0, 0], [0, 0, 0], [0, 0, 0]], 1);
+
+        expect(neighbourIndices(raster, 4)).toHaveLength(8);
+        expect(neighbourIndices(raster, 0).sort()).toEqual([1, 3, 4]);
+        expect(isEdgeCell(raster, 4)).toBe(false);
+        expect(isEdgeCell(raster, 5)).toBe(true);
+    });
+
+    it('rasterizes a scanned elevation grid', () => {
+        const grid = new ElevationGrid();
+        expect(rasterizeElevationGrid(grid)).toBeNull();
+
+        [[0, 0, 0.4], [4, 0, 0], [0, 2, 0.4], [4, 2, 0]].forEach(([x, y, elevation]) =>
+            grid.addSample(createElevationSample({ x, y, elevation, accuracy: 0.1, source: 'lidar' })));
+        const raster = rasterizeElevationGrid(grid, 1)!;
+
+        expect(raster.cols).toBe(5);
+        expect(raster.rows).toBe(3);
+        expect(raster.elevations[0]).toBeCloseTo(0.4);
+        expect(raster.elevations[4]).toBeCloseTo(0);
+    });
+
+    it('coarsens the cells of large sites', () => {
+        const grid = new ElevationGrid();
+        grid.addSample(createElevationSample({ x: 0, y: 0, elevation: 0, accuracy: 1, source: 'gps' }));
+        grid.addSample(createElevationSample({ x: 200, y: 200, elevation: 1, accuracy: 1, source: 'gps' }));
+        const raster = rasterizeElevationGrid(grid, 0.1)!;
+
+        expect(raster.cellSize_m).toBeCloseTo(1);
+        expect(raster.rows * raster.cols).toBeCloseTo(MAX_FLOW_CELLS, -3);
+    });
+});
+
+describe('FlowRoutingService', () => {
+    it('drains a tilted plane to outlets on its low edge', () => {
+        const result = service.route(createTerrainRaster(plane(3, 5), 1));
+
+        expect(result.receivers[0]).toBe(1);
+        expect(result.accumulation[4]).toBe(5);
+        expect(result.sinks).toHaveLength(0);
+        expect(result.concentrationPoints.every(p => p.kind === 'outlet' && p.col === 4)).toBe(true);
+    });
+
+    it('prefers the steepest drop per metre, weighting diagonals by √2', () => {
+        const raster = createTerrainRaster([
+            [1.0, 0.9, 1.0],
+            [1.0, 1.0, 1.0],
+            [1.0, 1.0, 0.8]
+        ], 1);
+        const result = service.route(raster);
+
+        expect(result.receivers[4]).toBe(8);
+        expect(result.receivers[3]).toBe(1);
+    });
+
+    it('finds the sink of a bowl and routes the whole site into it', () => {
+        const result = service.route(createTerrainRaster(bowl(7), 0.5));
+
+        expect(result.sinks).toHaveLength(1);
+        expect(result.sinks[0]).toMatchObject({ row: 3, col: 3, contributingArea_m2: 49 * 0.25 });
+        expect(result.concentrationPoints[0].kind).toBe('sink');
+        expect(result.channels.length).toBeGreaterThan(0);
+    });
+
+    it('traces the flow path downhill from a world point', () => {
+        const result = service.route(createTerrainRaster(bowl(7), 1));
+        const path = service.traceFlowPath(result, 0, 0);
+
+        expect(path.map(p => [p.row, p.col])).toEqual([[0, 0], [1, 1], [2, 2], [3, 3]]);
+        expect(path.at(-1)!.contributingArea_m2).toBe(49);
+        expect(service.traceFlowPath(result, -5, 0)).toEqual([]);
+    });
+});
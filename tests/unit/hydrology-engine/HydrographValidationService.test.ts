@@ -0,0 +1,67 @@
+import { HydrographValidationService } from '../../../src/lib/hydrology-engine/domain/services/HydrographValidationService';
+import { createHydrograph } from '../../../src/lib/hydrology-engine/domain/valueObjects/Hydrograph';
+import type { ReferenceHydrograph } from '../../../src/lib/hydrology-engine/domain/valueObjects/ReferenceHydrograph';
+
+const service = new HydrographValidationService();
+
+/** Triangle peaking at 20 L/s after 10 min, on 5-min steps */
+const predicted = createHydrograph(5, [0, 10, 20, 10, 0]);
+
+const reference = (times_min: number[], flows_Ls: number[]): ReferenceHydrograph => ({ source: 'flow', times_min, flows_Ls });
+
+describe('HydrographValidationService', () => {
+    it('scores a perfect match', () => {
+        const result = service.validate(predicted, reference([0, 5, 10, 15, 20], [0, 10, 20, 10, 0]));
+
+        expect(result.nse).toBeCloseTo(1);
+        expect(result.kge).toBeCloseTo(1);
+        expect(result.pbias_percent).toBeCloseTo(0);
+        expect(result.rmse_Ls).toBeCloseTo(0);
+        expect(result.timingError_min).toBe(0);
+        expect(result.rating).toBe('very_good');
+    });
+
+    it('interpolates an irregular reference onto the predicted steps', () => {
+        const result = service.validate(predicted, reference([0, 10, 20], [0, 20, 0]));
+
+        expect(result.times_min).toEqual([0, 5, 10, 15, 20]);
+        expect(result.reference_Ls).toEqual([0, 10, 20, 10, 0]);
+    });
+
+    it('reports bias, peak error and RMSE of an over-prediction', () => {
+        // Reference is half the prediction
+        const result = service.validate(predicted, reference([0, 5, 10, 15, 20], [0, 5, 10, 5, 0]));
+
+        expect(result.pbias_percent).toBeCloseTo(-100);
+        expect(result.peakError_percent).toBeCloseTo(100);
+        expect(result.rmse_Ls).toBeCloseTo(Math.sqrt((25 + 100 + 25) / 5));
+        // r = 1 and σ and mean ratios of 2
+        expect(result.kge).toBeCloseTo(1 - Math.sqrt(2));
+        expect(result.rating).toBe('unsatisfactory');
+    });
+});
+
+describe('HydrographValidationService alignment', () => {
+    it('measures the timing error of a late reference', () => {
+        const late = reference([0, 5, 10, 15, 20], [0, 0, 10, 20, 10]);
+        const result = service.validate(predicted, late);
+
+        expect(result.timingError_min).toBe(-5);
+        expect(result.nse).toBeLessThan(0.5);
+    });
+
+    it('shifts the reference by the offset and compares the overlap only', () => {
+        // Logger started 5 min after the storm
+        const result = service.validate(predicted, reference([0, 5, 10], [10, 20, 10]), { offset_min: 5 });
+
+        expect(result.times_min).toEqual([5, 10, 15]);
+        expect(result.nse).toBeCloseTo(1);
+    });
+
+    it('rejects references that do not overlap or vary', () => {
+        expect(() => service.validate(predicted, reference([0, 5], [1, 2]), { offset_min: 60 }))
+            .toThrow('Reference and predicted hydrographs do not overlap in time');
+        expect(() => service.validate(predicted, reference([0, 20], [4, 4])))
+            .toThrow('Reference hydrograph has no variation');
+    });
+});
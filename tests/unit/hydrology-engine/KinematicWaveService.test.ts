@@ -0,0 +1,104 @@
+import { KinematicWaveService, type KinematicWaveInput } from '../../../src/lib/hydrology-engine/domain/services/KinematicWaveService';
+import { KINEMATIC_WAVE_CELLS, RECESSION_END_LS } from '../../../src/lib/hydrology-engine/config/kinematicWave';
+
+const service = new KinematicWaveService();
+
+/** 100 m × 10 m asphalt plane at 2% */
+const plane = { length_m: 100, width_m: 10, slope: 0.02, manningN: 0.015 };
+
+const steadyStorm = (intensity_mm_hr: number, duration_min = 60) => ({ intensities_mm_hr: [intensity_mm_hr], timeStep_min: duration_min });
+
+const solve = (input: Partial<KinematicWaveInput> = {}) =>
+    service.solve({ plane, rainfall: steadyStorm(50), ...input });
+
+describe('KinematicWaveService', () => {
+    it('settles at the rainfall rate times the area under steady rain', () => {
+        const { hydrograph } = solve();
+
+        // 50 mm/hr over 1000 m²
+        expect(hydrograph.peakFlow_Ls).toBeCloseTo(13.889, 2);
+        expect(hydrograph.flows_Ls[0]).toBe(0);
+    });
+
+    it('reaches equilibrium near the analytical time of concentration', () => {
+        const { hydrograph } = solve();
+        // t_c = (L n / √S)^0.6 / i^0.4 for a plane
+        const tc_min = (100 * 0.015 / Math.sqrt(0.02)) ** 0.6 / (50 / 3.6e6) ** 0.4 / 60;
+        const rise_min = hydrograph.flows_Ls.findIndex(q => q > 0.99 * hydrograph.peakFlow_Ls) * hydrograph.timeStep_min;
+
+        expect(rise_min).toBeGreaterThan(tc_min - 2);
+        expect(rise_min).toBeLessThan(tc_min + 2);
+    });
+
+    it('rises faster on steeper and smoother planes', () => {
+        const rise = (overrides: Partial<typeof plane>) => {
+            const { hydrograph } = solve({ plane: { ...plane, ...overrides } });
+            return hydrograph.flows_Ls.findIndex(q => q > 0.99 * hydrograph.peakFlow_Ls);
+        };
+
+        expect(rise({ slope: 0.1 })).toBeLessThan(rise({}));
+        expect(rise({ manningN: 0.05 })).toBeGreaterThan(rise({}));
+    });
+
+    it('recedes after the rain until the outflow falls below the cutoff', () => {
+        const { hydrograph } = solve({ rainfall: steadyStorm(50, 20) });
+        const flows = hydrograph.flows_Ls;
+
+        expect(flows.length).toBeGreaterThan(21);
+        expect(flows[flows.length - 1]).toBeLessThan(RECESSION_END_LS);
+        expect(flows[25]).toBeLessThan(flows[20]);
+    });
+
+    it('follows time-varying rainfall', () => {
+        const { hydrograph } = solve({ rainfall: { intensities_mm_hr: [10, 10, 80, 10], timeStep_min: 10 }, duration_min: 60 });
+
+        expect(hydrograph.flows_Ls).toHaveLength(61);
+        expect(hydrograph.timeToPeak_min).toBeGreaterThanOrEqual(20);
+        expect(hydrograph.timeToPeak_min).toBeLessThanOrEqual(35);
+    });
+
+    it('reports the discharge profile along the flow path', () => {
+        const result = solve();
+        const equilibrium = result.profiles_Ls[60];
+
+        expect(result.stations_m).toHaveLength(KINEMATIC_WAVE_CELLS + 1);
+        expect(result.stations_m[KINEMATIC_WAVE_CELLS]).toBeCloseTo(100);
+        expect(result.profiles_Ls).toHaveLength(result.hydrograph.flows_Ls.length);
+        expect(equilibrium[0]).toBe(0);
+        // Linear in x at equilibrium: half the outflow at mid-plane
+        expect(equilibrium[KINEMATIC_WAVE_CELLS / 2]).toBeCloseTo(equilibrium[KINEMATIC_WAVE_CELLS] / 2, 2);
+    });
+});
+
+describe('KinematicWaveService losses', () => {
+    const horton = { initial_mm_hr: 60, final_mm_hr: 15, decay_per_hr: 4 };
+
+    it('balances rainfall, infiltration, outflow and storage', () => {
+        const result = solve({ infiltration: horton, duration_min: 45 });
+
+        expect(result.rainfallVolume_m3).toBeCloseTo(0.75 * 50);
+        expect(result.infiltrationVolume_m3 + result.runoffVolume_m3 + result.storedVolume_m3)
+            .toBeCloseTo(result.rainfallVolume_m3, 6);
+    });
+
+    it('reduces the peak towards the rainfall excess', () => {
+        const { hydrograph } = solve({ infiltration: horton });
+
+        // Capacity has decayed to about 16 mm/hr by the end of the storm
+        const excess_mm_hr = 50 - (15 + 45 * Math.exp(-4));
+        expect(hydrograph.peakFlow_Ls).toBeLessThan(13.889);
+        expect(hydrograph.peakFlow_Ls).toBeCloseTo(13.889 * excess_mm_hr / 50, 0);
+    });
+
+    it('produces no runoff while the soil takes all the rain', () => {
+        const result = solve({ infiltration: { initial_mm_hr: 80, final_mm_hr: 80, decay_per_hr: 0 } });
+
+        expect(result.hydrograph.peakFlow_Ls).toBe(0);
+        expect(result.infiltrationVolume_m3).toBeCloseTo(result.rainfallVolume_m3);
+    });
+
+    it('rejects degenerate planes and time steps', () => {
+        expect(() => solve({ plane: { ...plane, slope: 0 } })).toThrow('Plane length, width, slope and roughness must be positive');
+        expect(() => solve({ outputStep_min: 0 })).toThrow('Rainfall and output time steps must be positive');
+    });
+});
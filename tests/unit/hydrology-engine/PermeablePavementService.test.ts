@@ -0,0 +1,107 @@
+import { PermeablePavementService } from '../../../src/lib/hydrology-engine/domain/services/PermeablePavementService';
+
+const service = new PermeablePavementService();
+
+describe('Reservoir Sizing', () => {
+    it('stores the design storm on pavement and run-on less fill-time infiltration', () => {
+        // f = 30 / 2 = 15 mm/hr, S = 25 × (1 + 1) − 15 × 2 = 20 mm
+        const design = service.design({ area_m2: 100, runOnArea_m2: 100, designDepth_mm: 25, infiltrationRate_mm_hr: 30 });
+
+        expect(design.loadingRatio).toBe(1);
+        expect(design.designInfiltrationRate_mm_hr).toBe(15);
+        expect(design.storageDepth_mm).toBeCloseTo(20, 6);
+        expect(design.storageVolume_L).toBeCloseTo(2000, 6);
+        expect(design.drawdownTime_hr).toBeCloseTo(20 / 15, 6);
+    });
+
+    it('enforces the minimum structural base depth', () => {
+        const design = service.design({ area_m2: 100, designDepth_mm: 25, infiltrationRate_mm_hr: 30 });
+
+        expect(design.baseDepth_mm).toBe(150);
+    });
+
+    it('derives the base depth from storage and porosity', () => {
+        // S = 100 × 3 − 15 × 2 = 270 mm at 40% voids
+        const design = service.design({ area_m2: 50, runOnArea_m2: 100, designDepth_mm: 100, infiltrationRate_mm_hr: 30 });
+
+        expect(design.baseDepth_mm).toBeCloseTo(675, 6);
+    });
+
+    it('uses a custom porosity and fill time', () => {
+        const design = service.design({
+            area_m2: 100, runOnArea_m2: 100, designDepth_mm: 100, infiltrationRate_mm_hr: 20, porosity: 0.3, fillTime_hr: 1
+        });
+
+        expect(design.storageDepth_mm).toBeCloseTo(190, 6);
+        expect(design.baseDepth_mm).toBeCloseTo(190 / 0.3, 6);
+    });
+});
+
+describe('Underdrain', () => {
+    it('is required on slow soils', () => {
+        const design = service.design({ area_m2: 100, designDepth_mm: 25, infiltrationRate_mm_hr: 5 });
+
+        expect(design.underdrainRequired).toBe(true);
+        expect(design.underdrainReason).toBe('slow_soil');
+        expect(design.maxLoadingRatio).toBe(2);
+    });
+
+    it('is required when the reservoir cannot drain within 48 hours', () => {
+        // f = 6.5 mm/hr, S = 100 × 4 − 13 = 387 mm → 59.5 h
+        const design = service.design({ area_m2: 100, runOnArea_m2: 300, designDepth_mm: 100, infiltrationRate_mm_hr: 13 });
+
+        expect(design.drawdownTime_hr).toBeCloseTo(387 / 6.5, 6);
+        expect(design.underdrainReason).toBe('drawdown');
+    });
+
+    it('is not required on fast soils with short drawdown', () => {
+        const design = service.design({ area_m2: 100, designDepth_mm: 25, infiltrationRate_mm_hr: 30 });
+
+        expect(design.underdrainRequired).toBe(false);
+        expect(design.underdrainReason).toBeNull();
+    });
+});
+
+describe('Run-on Loading', () => {
+    it('caps the loading ratio at 2:1', () => {
+        const design = service.design({ area_m2: 100, designDepth_mm: 25, infiltrationRate_mm_hr: 30 });
+
+        expect(design.maxLoadingRatio).toBe(2);
+        expect(design.maxRunOnArea_m2).toBe(200);
+    });
+
+    it('limits the loading ratio by drawdown on infiltrating soils', () => {
+        // (6.5 × 48 + 13) / 150 − 1
+        const design = service.design({ area_m2: 100, designDepth_mm: 150, infiltrationRate_mm_hr: 13 });
+
+        expect(design.maxLoadingRatio).toBeCloseTo(325 / 150 - 1, 6);
+    });
+
+    it('rejects run-on beyond the acceptable ratio', () => {
+        const design = service.design({ area_m2: 100, runOnArea_m2: 300, designDepth_mm: 100, infiltrationRate_mm_hr: 13 });
+
+        expect(design.acceptsRunOn).toBe(false);
+    });
+
+    it('is immutable', () => {
+        const design = service.design({ area_m2: 100, designDepth_mm: 25, infiltrationRate_mm_hr: 30 });
+        expect(Object.isFrozen(design)).toBe(true);
+    });
+});
+
+describe('Error Handling', () => {
+    it('throws for a non-positive area', () => {
+        expect(() => service.design({ area_m2: 0, designDepth_mm: 25, infiltrationRate_mm_hr: 30 }))
+            .toThrow('Permeable pavement area must be positive');
+    });
+
+    it('throws for a negative infiltration rate', () => {
+        expect(() => service.design({ area_m2: 10, designDepth_mm: 25, infiltrationRate_mm_hr: -1 }))
+            .toThrow('Infiltration rate must be non-negative');
+    });
+
+    it('throws for porosity outside (0, 1)', () => {
+        expect(() => service.design({ area_m2: 10, designDepth_mm: 25, infiltrationRate_mm_hr: 30, porosity: 1 }))
+            .toThrow('Aggregate porosity must be between 0 and 1');
+    });
+});
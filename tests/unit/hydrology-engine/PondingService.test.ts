@@ -0,0 +1,94 @@
+import { PondingService } from '../../../src/lib/hydrology-engine/domain/services/PondingService';
+import { FlowRoutingService } from '../../../src/lib/hydrology-engine/domain/services/FlowRoutingService';
+import { createTerrainRaster } from '../../../src/lib/hydrology-engine/domain/valueObjects/TerrainRaster';
+
+const service = new PondingService();
+const routing = new FlowRoutingService();
+
+const pond = (elevations: number[][], rainfall_mm: number, runoffCoefficient = 1) =>
+    service.simulate({ flow: routing.route(createTerrainRaster(elevations, 1)), rainfall_mm, runoffCoefficient });
+
+/** 5 × 5 basin: flat floor at 0 inside a 1 m rim with a 0.8 m notch on the right */
+const basin = [
+    [1, 1, 1, 1, 1],
+    [1, 0, 0, 0, 1],
+    [1, 0, 0, 0, 0.8],
+    [1, 0, 0, 0, 1],
+    [1, 1, 1, 1, 1]
+];
+
+/** Upstream hollow (0.5 m) spilling over a 1 m sill into a trough drained by a 0.6 m notch */
+const cascade = [
+    [2, 2, 2, 2, 2, 2, 2],
+    [2, 0.5, 1, 0, 0, 0, 0.6],
+    [2, 2, 2, 2, 2, 2, 2]
+];
+
+describe('PondingService', () => {
+    it('ponds a small storm in the basin at a level below the notch', () => {
+        const result = pond(basin, 100);
+
+        // 25 cells × 0.1 m drain to the 9 floor cells
+        expect(result.runoffVolume_m3).toBeCloseTo(2.5);
+        expect(result.pondedVolume_m3).toBeCloseTo(2.5);
+        expect(result.outflow_m3).toBeCloseTo(0);
+        expect(result.maxDepth_m).toBeCloseTo(2.5 / 9, 3);
+        expect(result.floodedArea_m2).toBe(9);
+        expect(result.spillPoints).toHaveLength(0);
+        expect(result.ponds).toHaveLength(1);
+        expect(result.ponds[0].full).toBe(false);
+        expect(result.ponds[0].capacity_m3).toBeCloseTo(7.2);
+    });
+
+    it('fills the basin to the notch and spills the rest off site', () => {
+        const result = pond(basin, 400);
+
+        expect(result.maxDepth_m).toBeCloseTo(0.8);
+        expect(result.pondedVolume_m3).toBeCloseTo(7.2);
+        expect(result.outflow_m3).toBeCloseTo(2.8);
+        expect(result.spillPoints).toHaveLength(1);
+        expect(result.spillPoints[0]).toMatchObject({ row: 2, col: 4, elevation_m: 0.8, leavesSite: true });
+        expect(result.spillPoints[0].overflow_m3).toBeCloseTo(2.8);
+        expect(result.ponds[0].full).toBe(true);
+    });
+
+    it('maps depths on the raster cells only where water stands', () => {
+        const result = pond(basin, 100);
+
+        expect(result.depths_m).toHaveLength(25);
+        expect(result.depths_m[0]).toBe(0);
+        expect(result.depths_m[12]).toBeCloseTo(2.5 / 9, 3);
+    });
+
+    it('ponds nothing on a plane or without rain', () => {
+        const plane = [[1, 0.9, 0.8], [1, 0.9, 0.8], [1, 0.9, 0.8]];
+
+        expect(pond(plane, 50).pondedVolume_m3).toBe(0);
+        expect(pond(basin, 0).ponds).toHaveLength(0);
+        expect(pond(basin, 0).floodedArea_m2).toBe(0);
+    });
+
+    it('rejects negative rainfall and out-of-range runoff coefficients', () => {
+        expect(() => pond(basin, -1)).toThrow('Rainfall depth must be non-negative');
+        expect(() => pond(basin, 10, 1.2)).toThrow('Runoff coefficient must be between 0 and 1');
+    });
+});
+
+describe('PondingService spill cascade', () => {
+    it('passes overflow from an upstream depression to the next one downstream', () => {
+        const result = pond(cascade, 200);
+
+        // Hollow holds 0.5 m³, trough 3 × 0.6 m³
+        expect(result.pondedVolume_m3).toBeCloseTo(2.3);
+        expect(result.outflow_m3).toBeCloseTo(result.runoffVolume_m3 - 2.3);
+        expect(result.spillPoints.map(s => [s.col, s.leavesSite])).toEqual([[6, true], [2, false]]);
+        expect(result.ponds.map(p => p.deepest.col)).toContain(1);
+    });
+
+    it('conserves the runoff volume', () => {
+        const result = pond(cascade, 50, 0.6);
+
+        expect(result.runoffVolume_m3).toBeCloseTo(21 * 0.05 * 0.6);
+        expect(result.pondedVolume_m3 + result.outflow_m3).toBeCloseTo(result.runoffVolume_m3);
+    });
+});
@@ -0,0 +1,54 @@
+import { parseReferenceHydrograph } from '../../../src/lib/hydrology-engine/domain/valueObjects/ReferenceHydrograph';
+
+/** First rows of the Fairfax HEC-RAS export in public/ */
+const HEC_RAS_CSV = [
+    'time_min,rainfall_mm_hr,inflow_m3s,outflow_m3s,cumulative_m3',
+    '0,0,0.000,0.000,0.0',
+    '5,20,0.013,0.008,0.6',
+    '10,35,0.037,0.025,2.1'
+].join('\n');
+
+describe('ReferenceHydrograph', () => {
+    it('reads the first flow column and converts m³/s to L/s', () => {
+        const reference = parseReferenceHydrograph(HEC_RAS_CSV);
+
+        expect(reference.source).toBe('inflow_m3s');
+        expect(reference.times_min).toEqual([0, 5, 10]);
+        expect(reference.flows_Ls).toEqual([0, 13, 37]);
+    });
+
+    it('reads a named column in a given unit', () => {
+        const reference = parseReferenceHydrograph(HEC_RAS_CSV, { flowColumn: 'outflow_m3s', unit: 'L/s' });
+        expect(reference.flows_Ls).toEqual([0, 0.008, 0.025]);
+    });
+
+    it('reads clock times relative to the first row', () => {
+        const reference = parseReferenceHydrograph('Time,Flow (CFS)\n0:30,0\n0:45,1\n1:00:30,2');
+
+        expect(reference.times_min).toEqual([0, 15, 30.5]);
+        expect(reference.flows_Ls[1]).toBeCloseTo(28.317, 3);
+    });
+
+    it('reads logger dates, semicolons and decimal commas', () => {
+        const csv = '# logger 7\nDatum;Q_ls\n2024-07-01T14:00;0,5\n2024-07-01T14:10;12,25\n';
+        const reference = parseReferenceHydrograph(csv);
+
+        expect(reference.times_min).toEqual([0, 10]);
+        expect(reference.flows_Ls).toEqual([0.5, 12.25]);
+    });
+
+    it('reads hour columns as minutes and clips negative flows', () => {
+        const reference = parseReferenceHydrograph('time_hr,discharge\n0,-0.2\n0.5,3');
+
+        expect(reference.times_min).toEqual([0, 30]);
+        expect(reference.flows_Ls).toEqual([0, 3]);
+    });
+
+    it('rejects files it cannot read', () => {
+        expect(() => parseReferenceHydrograph('flow only\n1\n2')).toThrow('Reference hydrograph needs a time and a flow column');
+        expect(() => parseReferenceHydrograph('t,q\n0,1')).toThrow('Reference hydrograph needs at least two rows');
+        expect(() => parseReferenceHydrograph('t,q\n0,1\n5,n/a')).toThrow('Unreadable value on row 3');
+        expect(() => parseReferenceHydrograph('t,q\n5,1\n0,2')).toThrow('Reference hydrograph times must increase');
+        expect(() => parseReferenceHydrograph(HEC_RAS_CSV, { flowColumn: 'stage_m' })).toThrow('Flow column "stage_m" not found');
+    });
+});
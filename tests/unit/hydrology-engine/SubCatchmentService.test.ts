@@ -0,0 +1,70 @@
+import { SubCatchmentService } from '../../../src/lib/hydrology-engine/domain/services/SubCatchmentService';
+import { FlowRoutingService } from '../../../src/lib/hydrology-engine/domain/services/FlowRoutingService';
+import { createTerrainRaster } from '../../../src/lib/hydrology-engine/domain/valueObjects/TerrainRaster';
+
+const service = new SubCatchmentService();
+
+/** 5 × 5 ridge along column 2, falling to valleys in columns 0 and 4 that drain towards row 0 */
+const ridge = new FlowRoutingService().route(createTerrainRaster(
+    Array.from({ length: 5 }, (_, r) => Array.from({ length: 5 }, (_, c) => 1 - 0.2 * Math.abs(c - 2) + 0.05 * r)),
+    1
+));
+
+describe('SubCatchmentService', () => {
+    it('delineates one sub-catchment per detected outlet', () => {
+        const result = service.delineate({ flow: ridge });
+
+        // Ridge cells drain west on ties
+        expect(result.subCatchments.map(c => c.area_m2)).toEqual([15, 10]);
+        expect(result.subCatchments.map(c => [c.outlet.row, c.outlet.col])).toEqual([[0, 0], [0, 4]]);
+        expect(result.subCatchments.every(c => c.outlet.source === 'detected')).toBe(true);
+        expect(result.subCatchments[0].share + result.subCatchments[1].share).toBeCloseTo(1);
+        expect(result.unassignedArea_m2).toBe(0);
+    });
+
+    it('reports the mean slope and a row-run footprint', () => {
+        const [west] = service.delineate({ flow: ridge }).subCatchments;
+
+        expect(west.meanSlope).toBeGreaterThan(0.05);
+        expect(west.meanSlope).toBeLessThan(0.2);
+        expect(west.footprint).toHaveLength(5);
+        expect(west.footprint[0]).toEqual({ minX: -0.5, minY: -0.5, maxX: 2.5, maxY: 0.5 });
+    });
+
+    it('measures the longest D8 flow path to each outlet', () => {
+        const [west, east] = service.delineate({ flow: ridge }).subCatchments;
+
+        // From the ridge top in row 4: along the row to the valley, then down it to row 0
+        expect(west.flowLength_m).toBe(6);
+        expect(east.flowLength_m).toBe(5);
+        expect(service.delineate({ flow: ridge, outlets: [{ x: 1, y: 2 }] }).subCatchments[0].flowLength_m).toBe(4);
+    });
+
+    it('snaps placed outlets to the strongest flow path nearby', () => {
+        expect(service.snapOutlet(ridge, 1, 2)).toBe(10);
+        expect(service.snapOutlet(ridge, 20, 20)).toBe(-1);
+    });
+
+    it('delineates only the area draining to placed outlets', () => {
+        const result = service.delineate({ flow: ridge, outlets: [{ x: 1, y: 2 }] });
+
+        expect(result.subCatchments).toHaveLength(1);
+        expect(result.subCatchments[0].outlet).toMatchObject({ row: 2, col: 0, source: 'placed' });
+        expect(result.subCatchments[0].area_m2).toBe(9);
+        expect(result.unassignedArea_m2).toBe(16);
+    });
+
+    it('ignores cells and outlets outside the boundary', () => {
+        const result = service.delineate({ flow: ridge, inside: x => x <= 1.5 });
+
+        expect(result.subCatchments).toHaveLength(1);
+        expect(result.subCatchments[0].area_m2).toBe(10);
+        expect(result.subCatchments[0].share).toBe(1);
+        expect(result.labels[2]).toBe(-1);
+    });
+
+    it('drops duplicate outlets snapping to the same cell', () => {
+        const result = service.delineate({ flow: ridge, outlets: [{ x: 1, y: 2 }, { x: 0.9, y: 2 }] });
+        expect(result.subCatchments).toHaveLength(1);
+    });
+});
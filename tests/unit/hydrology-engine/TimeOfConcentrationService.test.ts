@@ -0,0 +1,63 @@
+import { TimeOfConcentrationService } from '../../../src/lib/hydrology-engine/domain/services/TimeOfConcentrationService';
+import { MIN_TC_MIN, MIN_FLOW_SLOPE } from '../../../src/lib/hydrology-engine/config/timeOfConcentration';
+
+const service = new TimeOfConcentrationService();
+
+describe('Time of Concentration Methods', () => {
+    const longPath = { flowLength_m: 1000, slope: 0.01 };
+
+    it('Kirpich matches the closed-form value', () => {
+        const expected = 0.0195 * Math.pow(1000, 0.77) * Math.pow(0.01, -0.385);
+        expect(service.compute('kirpich', longPath).tc_min).toBeCloseTo(expected, 6);
+    });
+
+    it('Kerby grows with surface roughness', () => {
+        const paved = service.compute('kerby', { flowLength_m: 100, slope: 0.01, kerbySurface: 'smooth_impervious' });
+        const grass = service.compute('kerby', { flowLength_m: 100, slope: 0.01, kerbySurface: 'dense_grass' });
+        expect(grass.tc_min).toBeGreaterThan(paved.tc_min);
+    });
+
+    it('FAA decreases as the runoff coefficient rises', () => {
+        const lawn = service.compute('faa', { ...longPath, runoffCoefficient: 0.3 });
+        const roof = service.compute('faa', { ...longPath, runoffCoefficient: 0.95 });
+        expect(lawn.tc_min).toBeGreaterThan(roof.tc_min);
+    });
+
+    it('NRCS lag increases for lower curve numbers', () => {
+        const woods = service.compute('nrcs_lag', { ...longPath, curveNumber: 70 });
+        const paved = service.compute('nrcs_lag', { ...longPath, curveNumber: 98 });
+        expect(woods.tc_min).toBeGreaterThan(paved.tc_min);
+    });
+
+    it('decreases with steeper slopes', () => {
+        const flat = service.compute('kirpich', { flowLength_m: 1000, slope: 0.01 });
+        const steep = service.compute('kirpich', { flowLength_m: 1000, slope: 0.1 });
+        expect(steep.tc_min).toBeLessThan(flat.tc_min);
+    });
+});
+
+describe('Time of Concentration Limits', () => {
+    it('floors short paths at the minimum design Tc', () => {
+        expect(service.compute('kirpich', { flowLength_m: 10, slope: 0.05 }).tc_min).toBe(MIN_TC_MIN);
+    });
+
+    it('clamps flat and negative slopes', () => {
+        expect(service.compute('kirpich', { flowLength_m: 500, slope: 0 }).slope).toBe(MIN_FLOW_SLOPE);
+        expect(service.compute('kirpich', { flowLength_m: 500, slope: -0.03 }).slope).toBe(0.03);
+    });
+
+    it('ignores undefined optional inputs', () => {
+        const result = service.compute('faa', { flowLength_m: 500, slope: 0.01, runoffCoefficient: undefined });
+        expect(Number.isFinite(result.tc_min)).toBe(true);
+    });
+
+    it('computeAll returns one result per method', () => {
+        const results = service.computeAll({ flowLength_m: 300, slope: 0.02 });
+        expect(results.map(r => r.method)).toEqual(['kirpich', 'kerby', 'faa', 'nrcs_lag']);
+    });
+
+    it('rejects invalid inputs', () => {
+        expect(() => service.compute('kirpich', { flowLength_m: 0, slope: 0.01 })).toThrow('Flow length must be positive');
+        expect(() => service.compute('manning' as never, { flowLength_m: 10, slope: 0.01 })).toThrow('Unknown time-of-concentration method');
+    });
+});
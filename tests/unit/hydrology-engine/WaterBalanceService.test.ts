@@ -0,0 +1,90 @@
+import { WaterBalanceService, type WaterBalanceInput } from '../../../src/lib/hydrology-engine/domain/services/WaterBalanceService';
+import { createBioretentionCell } from '../../../src/lib/hydrology-engine/domain/valueObjects/BioretentionCell';
+
+const service = new WaterBalanceService();
+
+/** 10 m² garden draining 100 m² of roof */
+const baseInput = (rainfall_mm: number[], overrides: Partial<WaterBalanceInput> = {}): WaterBalanceInput => ({
+    rainfall_mm,
+    catchmentArea_m2: 100,
+    runoffCoefficient: 1,
+    cell: { area_m2: 10 },
+    evapotranspiration_mm_day: 0,
+    ...overrides
+});
+
+const storm = (depth_mm: number, hours: number, dryHours = 48) => [
+    ...Array(hours).fill(depth_mm / hours),
+    ...Array(dryHours).fill(0)
+];
+
+describe('Bioretention Cell', () => {
+    it('fills unspecified properties with defaults', () => {
+        const cell = createBioretentionCell({ area_m2: 20 });
+        expect(cell.pondingDepth_mm).toBe(150);
+        expect(cell.area_m2).toBe(20);
+    });
+
+    it('rejects invalid geometry and soil moisture', () => {
+        expect(() => createBioretentionCell({ area_m2: 0 })).toThrow('area must be positive');
+        expect(() => createBioretentionCell({ area_m2: 10, fieldCapacity: 0.5, porosity: 0.4 })).toThrow('Soil moisture');
+    });
+});
+
+describe('Water Balance Simulation', () => {
+    it('captures a small storm completely', () => {
+        const result = service.simulate(baseInput(storm(20, 1)));
+
+        expect(result.overflow_L).toBe(0);
+        expect(result.capturePercent).toBe(100);
+        expect(result.overflowEvents).toBe(0);
+        expect(result.maxPondingDepth_mm).toBeGreaterThan(0);
+    });
+
+    it('overflows when the storm exceeds ponding and soil storage', () => {
+        const result = service.simulate(baseInput(storm(80, 1)));
+
+        expect(result.overflow_L).toBeGreaterThan(0);
+        expect(result.capturePercent).toBeLessThan(100);
+        expect(result.overflowEvents).toBe(1);
+        expect(result.maxPondingDepth_mm).toBe(150);
+    });
+
+    it('counts separate storms as separate overflow events', () => {
+        const result = service.simulate(baseInput([...storm(80, 1, 72), ...storm(80, 1, 72)]));
+        expect(result.overflowEvents).toBe(2);
+    });
+
+    it('conserves water across all fluxes', () => {
+        const rainfall = [...storm(30, 3), ...storm(60, 2), ...storm(10, 1)];
+        const result = service.simulate(baseInput(rainfall, { evapotranspiration_mm_day: 4 }));
+        const outflows = result.infiltrated_L + result.evapotranspired_L + result.overflow_L + result.storageChange_L;
+
+        expect(outflows).toBeCloseTo(result.inflow_L, 6);
+    });
+
+    it('routes rain on the garden plus catchment runoff', () => {
+        const result = service.simulate(baseInput([1]));
+        // 1 mm on 10 m² garden + 1 mm × 100 m² roof
+        expect(result.inflow_L).toBeCloseTo(110, 6);
+    });
+
+    it('evapotranspiration dries the soil between storms', () => {
+        const wet = service.simulate(baseInput(Array(240).fill(0), { initialMoisture: 0.45 }));
+        const withEt = service.simulate(baseInput(Array(240).fill(0), { initialMoisture: 0.45, evapotranspiration_mm_day: 5 }));
+        expect(withEt.evapotranspired_L).toBeGreaterThan(0);
+        expect(withEt.storageChange_L).toBeLessThan(wet.storageChange_L);
+    });
+
+    it('scales overflow events to a full year', () => {
+        const result = service.simulate(baseInput(storm(80, 1, 4379)));
+        expect(result.simulatedHours).toBe(4380);
+        expect(result.overflowEventsPerYear).toBeCloseTo(2, 6);
+    });
+
+    it('reports full capture for a dry series', () => {
+        const result = service.simulate(baseInput([]));
+        expect(result.capturePercent).toBe(100);
+        expect(result.overflowEventsPerYear).toBe(0);
+    });
+});
@@ -2,7 +2,29 @@
  * PDE Residuals Tests for PINN Module
  */
 import * as tf from '@tensorflow/tfjs';
-import { computePhysicsLoss, computeSupervisedPhysicsLoss } from '../../../src/ml/pdeResiduals';
+import {
+    computeBoundaryConditionLoss,
+    computeInitialConditionLoss,
+    computePhysicsInformedLoss,
+    computePhysicsLoss,
+    computeSupervisedPhysicsLoss,
+    kinematicWaveResidual
+} from '../../../src/ml/pdeResiduals';
+import { normalize } from '../../../src/ml/pinnConstants';
+
+/**
+ * Linear model Q̂ = kernel · inputs + bias over normalized [x, t, rainfall, slope, n]
+ */
+function linearModel(kernel: number[], bias: number): tf.Sequential {
+    const model = tf.sequential();
+    model.add(tf.layers.dense({ units: 1, inputShape: [5] }));
+    model.setWeights([tf.tensor2d(kernel, [5, 1]), tf.tensor1d([bias])]);
+    return model;
+}
+
+function normalizedRow(x: number, t: number, rainfall: number): number[] {
+    return [normalize(x, 'x'), normalize(t, 't'), normalize(rainfall, 'rainfall'), normalize(0.02, 'slope'), normalize(0.015, 'manningN')];
+}
 
 describe('PDE Residuals', () => {
     let mockModel: tf.Sequential;
@@ -88,3 +110,103 @@ describe('PDE Residuals', () => {
         });
     });
 });
+
+describe('PDE Residuals - kinematicWaveResidual', () => {
+    // 36 mm/hr = 1e-5 m/s. Q̂ = 1 is 200 L/s on a 10 m plane, q = 0.02 m²/s,
+    // so ∂q/∂x = r over x in [0, 200] m needs ∂Q̂/∂x̂ = 1e-5 * 200 / 0.02 = 0.1
+    const rows = tf.tensor2d([normalizedRow(20, 10, 36), normalizedRow(150, 45, 36)]);
+
+    afterAll(() => rows.dispose());
+
+    it('vanishes for the steady equilibrium profile q = r·x', () => {
+        const model = linearModel([0.1, 0, 0, 0, 0], 0.01);
+        const residual = kinematicWaveResidual(model, rows).dataSync();
+        residual.forEach(r => expect(r).toBeCloseTo(0, 6));
+        model.dispose();
+    });
+
+    it('is negative while rain accumulates on a plane whose flow does not change', () => {
+        const model = linearModel([0, 0, 0, 0, 0], 0.01);
+        const residual = kinematicWaveResidual(model, rows).dataSync();
+        residual.forEach(r => expect(r).toBeLessThan(0));
+        model.dispose();
+    });
+
+    it('vanishes when infiltration balances the rainfall', () => {
+        const model = linearModel([0, 0, 0, 0, 0], 0.01);
+        const residual = kinematicWaveResidual(model, rows, 36).dataSync();
+        residual.forEach(r => expect(r).toBeCloseTo(0, 6));
+        model.dispose();
+    });
+
+    it('sees the time derivative through automatic differentiation', () => {
+        const rising = linearModel([0, 0.5, 0, 0, 0], 0.01);
+        const steady = linearModel([0, 0, 0, 0, 0], 0.01);
+        const risingResidual = kinematicWaveResidual(rising, rows, 36).dataSync();
+        kinematicWaveResidual(steady, rows, 36).dataSync().forEach((r, i) => {
+            expect(risingResidual[i]).toBeGreaterThan(r);
+        });
+        rising.dispose();
+        steady.dispose();
+    });
+});
+
+describe('PDE Residuals - initial and boundary conditions', () => {
+    const rows = tf.tensor2d([normalizedRow(50, 20, 60), normalizedRow(120, 40, 60)]);
+
+    afterAll(() => rows.dispose());
+
+    it('initial condition loss is zero when the plane starts dry', async () => {
+        const model = linearModel([0, 1, 0, 0, 0], 0);
+        const loss = computeInitialConditionLoss(model, rows);
+        expect((await loss.data())[0]).toBeCloseTo(0, 8);
+        expect((await computeBoundaryConditionLoss(model, rows).data())[0]).toBeGreaterThan(0);
+        model.dispose();
+    });
+
+    it('boundary condition loss is zero when nothing flows in upstream', async () => {
+        const model = linearModel([1, 0, 0, 0, 0], 0);
+        const loss = computeBoundaryConditionLoss(model, rows);
+        expect((await loss.data())[0]).toBeCloseTo(0, 8);
+        expect((await computeInitialConditionLoss(model, rows).data())[0]).toBeGreaterThan(0);
+        model.dispose();
+    });
+});
+
+describe('PDE Residuals - computePhysicsInformedLoss', () => {
+    const batch = {
+        inputs: tf.tensor2d([normalizedRow(100, 30, 50), normalizedRow(180, 50, 80)]),
+        targets: tf.tensor2d([[0.05], [0.2]]),
+        collocation: tf.tensor2d([normalizedRow(40, 15, 30), normalizedRow(90, 35, 70), normalizedRow(160, 55, 100)])
+    };
+
+    afterAll(() => tf.dispose([batch.inputs, batch.targets, batch.collocation]));
+
+    it('weights and sums the data, physics, initial and boundary terms', () => {
+        const model = linearModel([0.2, 0.3, 0, 0, 0], 0.05);
+        const loss = computePhysicsInformedLoss(model, batch, { data: 1, physics: 0.5, initial: 2, boundary: 3 });
+        const [total, data, physics, initial, boundary] = [loss.total, loss.data, loss.physics, loss.initial, loss.boundary]
+            .map(term => term.dataSync()[0]);
+        expect(total).toBeCloseTo(data + 0.5 * physics + 2 * initial + 3 * boundary, 5);
+        model.dispose();
+    });
+
+    it('is differentiable with respect to the model weights', () => {
+        const model = tf.sequential();
+        model.add(tf.layers.dense({ units: 8, activation: 'tanh', inputShape: [5] }));
+        model.add(tf.layers.dense({ units: 1, activation: 'softplus' }));
+        const optimizer = tf.train.adam(0.01);
+        const step = () => {
+            const cost = optimizer.minimize(() => computePhysicsInformedLoss(model, batch).total, true) as tf.Scalar;
+            const value = cost.dataSync()[0];
+            cost.dispose();
+            return value;
+        };
+
+        const first = step();
+        for (let i = 0; i < 20; i++) step();
+        expect(step()).toBeLessThan(first);
+        optimizer.dispose();
+        model.dispose();
+    });
+});
@@ -0,0 +1,85 @@
+/**
+ * PINN Input Domain Guard Tests
+ */
+import { checkInputDomain, describeExtrapolation, farthestExtrapolations, guardInput, type InputDomain } from '../../../src/ml/pinnDomain';
+import { TRAINING_DOMAIN, generateCollocationPoints } from '../../../src/ml/syntheticData';
+import type { PINNInput } from '../../../src/ml/pinnModel';
+
+const inside: PINNInput = { x: 100, t: 30, rainfall: 50, slope: 0.02, manningN: 0.015 };
+
+describe('TRAINING_DOMAIN', () => {
+    it('covers the ranges of the synthetic training data', () => {
+        expect(TRAINING_DOMAIN.rainfall).toEqual({ min: 10, max: 100 });
+        expect(TRAINING_DOMAIN.slope).toEqual({ min: 0.005, max: 0.15 });
+        expect(TRAINING_DOMAIN.manningN).toEqual({ min: 0.01, max: 0.05 });
+        expect(TRAINING_DOMAIN.t).toEqual({ min: 0, max: 60 });
+    });
+
+    it('contains every collocation point', () => {
+        generateCollocationPoints(50).forEach(([x, t, rainfall, slope, manningN]) => {
+            expect(checkInputDomain({ x, t, rainfall, slope, manningN })).toEqual([]);
+        });
+    });
+});
+
+describe('checkInputDomain', () => {
+    it('accepts an input inside the training domain', () => {
+        expect(checkInputDomain(inside)).toEqual([]);
+    });
+
+    it('flags each input dimension outside its range', () => {
+        const extrapolated = checkInputDomain({ ...inside, rainfall: 180, manningN: 0.005 });
+
+        expect(extrapolated).toEqual([
+            { input: 'rainfall', value: 180, min: 10, max: 100 },
+            { input: 'manningN', value: 0.005, min: 0.01, max: 0.05 },
+        ]);
+    });
+
+    it('checks against a registered model domain', () => {
+        const domain: InputDomain = { ...TRAINING_DOMAIN, rainfall: { min: 10, max: 200 } };
+
+        expect(checkInputDomain({ ...inside, rainfall: 180 }, domain)).toEqual([]);
+    });
+});
+
+describe('guardInput', () => {
+    it('clamps an extrapolated input to the nearest trained value by default', () => {
+        const { input, extrapolated } = guardInput({ ...inside, rainfall: 180, slope: 0.001 });
+
+        expect(input).toEqual({ ...inside, rainfall: 100, slope: 0.005 });
+        expect(extrapolated.map(e => e.input)).toEqual(['rainfall', 'slope']);
+    });
+
+    it('leaves an input inside the domain unchanged', () => {
+        expect(guardInput(inside)).toEqual({ input: inside, extrapolated: [] });
+    });
+
+    it('refuses an extrapolated input under the refuse policy', () => {
+        expect(() => guardInput({ ...inside, rainfall: 180 }, 'refuse'))
+            .toThrow('PINN inputs outside the training domain: Rainfall intensity 180 mm/hr is outside the trained range 10–100 mm/hr');
+    });
+
+    it('answers an input inside the domain under the refuse policy', () => {
+        expect(guardInput(inside, 'refuse').input).toEqual(inside);
+    });
+});
+
+describe('farthestExtrapolations', () => {
+    it('keeps the value farthest outside the range of each input, in input order', () => {
+        const rainfall = (value: number) => ({ input: 'rainfall' as const, value, min: 10, max: 100 });
+        const time = { input: 't' as const, value: 75, min: 0, max: 60 };
+
+        expect(farthestExtrapolations([rainfall(120), time, rainfall(5), rainfall(140)])).toEqual([time, rainfall(140)]);
+        expect(farthestExtrapolations([])).toEqual([]);
+    });
+});
+
+describe('describeExtrapolation', () => {
+    it('names the input with its units and trained range', () => {
+        expect(describeExtrapolation({ input: 'slope', value: 0.3, min: 0.005, max: 0.15 }))
+            .toBe('Slope 0.3 m/m is outside the trained range 0.005–0.15 m/m');
+        expect(describeExtrapolation({ input: 'manningN', value: 0.08, min: 0.01, max: 0.05 }))
+            .toBe("Manning's n 0.08 is outside the trained range 0.01–0.05");
+    });
+});
@@ -1,5 +1,16 @@
 import * as tf from '@tensorflow/tfjs';
-import { getRobustRunoffPrediction, initPINNEngine } from '../../../src/ml/pinnInference';
+import {
+    getPINNModelStatus,
+    getRobustRunoffPrediction,
+    initPINNEngine,
+    loadModel,
+    predictHydrograph,
+    robustPredictionExtrapolation,
+    type PINNHydrographRequest
+} from '../../../src/ml/pinnInference';
+import * as registry from '../../../src/ml/pinnRegistry';
+import { buildManifest, type RegisteredModel } from '../../../src/ml/pinnRegistry';
+import { sampleDischarge } from '../../../src/ml/pinnUncertainty';
 import { computePeakRunoff } from '../../../src/utils/hydrology';
 
 describe('PINN Inference Engine', () => {
@@ -9,9 +20,14 @@ describe('PINN Inference Engine', () => {
         await tf.setBackend('cpu');
     });
 
-    it('initializes the engine successfully', async () => {
+    it('refuses to initialize without a verified model manifest', async () => {
         const success = await initPINNEngine();
-        expect(success).toBe(true);
+        expect(success).toBe(false);
+
+        const status = getPINNModelStatus();
+        expect(status.loaded).toBe(false);
+        expect(status.manifest).toBeNull();
+        expect(status.error).toBeTruthy();
     });
 
     it('provides a robust prediction that is physically reasonable', async () => {
@@ -38,4 +54,114 @@ describe('PINN Inference Engine', () => {
         const prediction = await getRobustRunoffPrediction(rainfall, area);
         expect(prediction).toBeGreaterThan(0);
     });
+
+    it('flags no extrapolation while the rational method answers', async () => {
+        const rainfall = 250;
+        const area = 100;
+
+        await expect(getRobustRunoffPrediction(rainfall, area, 0.02, 'refuse')).resolves.toBeCloseTo(computePeakRunoff(rainfall, area));
+        expect(robustPredictionExtrapolation(rainfall)).toEqual([]);
+    });
+});
+
+const hydrographSamples = [
+    { inputs: [0, 0, 10, 0.005, 0.01], output: 0 },
+    { inputs: [200, 60, 100, 0.15, 0.05], output: 40 },
+];
+const validation = { valLoss: 0.01, physicsLoss: 0.02, initialLoss: 0.001, boundaryLoss: 0.001 };
+const request: PINNHydrographRequest = {
+    rainfall: 50, slope: 0.02, manningN: 0.015, length_m: 100, duration_min: 60, timeStep_min: 5, profileStations: 11
+};
+
+async function registeredLinearModel(): Promise<RegisteredModel> {
+    await tf.setBackend('cpu');
+    const model = tf.sequential();
+    model.add(tf.layers.dense({ units: 1, activation: 'softplus', inputShape: [5], kernelInitializer: 'ones' }));
+    return { model, manifest: buildManifest('1.0.0', hydrographSamples, validation) };
+}
+
+describe('predictHydrograph', () => {
+    let registered: RegisteredModel;
+
+    beforeAll(async () => {
+        registered = await registeredLinearModel();
+    });
+
+    afterAll(() => registered.model.dispose());
+
+    it('returns the outlet hydrograph and the depth profile of one batch', () => {
+        const result = predictHydrograph(registered, request);
+
+        expect(result.hydrograph.flows_Ls).toHaveLength(13);
+        expect(result.hydrograph.timeStep_min).toBe(5);
+        expect(result.hydrographStd_Ls).toHaveLength(13);
+        expect(result.stations_m).toEqual(Array.from({ length: 11 }, (_, i) => i * 10));
+        expect(result.depthProfile_mm).toHaveLength(11);
+        expect(result.dischargeProfile_Ls).toHaveLength(11);
+        expect(result.profileTime_min).toBe(60);
+        expect(result.modelVersion).toBe('1.0.0');
+        expect(result.extrapolated).toEqual([]);
+    });
+
+    it('matches single-point inference along the hydrograph', () => {
+        const result = predictHydrograph(registered, request);
+        const atOutlet = sampleDischarge(registered.model, [[0.5, 30 / 120, 50 / 150, (0.02 - 0.001) / 0.199, (0.015 - 0.01) / 0.09]]);
+
+        expect(result.hydrograph.flows_Ls[6]).toBeCloseTo(atOutlet.mean[0], 4);
+    });
+
+    it('starts dry and deepens downstream', () => {
+        const result = predictHydrograph(registered, request);
+
+        expect(result.hydrograph.flows_Ls[0]).toBe(0);
+        expect(result.depthProfile_mm[10]).toBeGreaterThan(result.depthProfile_mm[0]);
+    });
+
+    it('takes the profile at the requested time', () => {
+        expect(predictHydrograph(registered, { ...request, profileTime_min: 0 }).dischargeProfile_Ls.every(q => q === 0)).toBe(true);
+    });
+
+});
+
+describe('predictHydrograph input checks', () => {
+    let registered: RegisteredModel;
+
+    beforeAll(async () => {
+        registered = await registeredLinearModel();
+    });
+
+    afterAll(() => registered.model.dispose());
+
+    it('reports each extrapolated input once at its farthest value', () => {
+        const result = predictHydrograph(registered, { ...request, rainfall: 180, duration_min: 90 });
+
+        expect(result.extrapolated).toEqual([
+            { input: 't', value: 90, min: 0, max: 60 },
+            { input: 'rainfall', value: 180, min: 10, max: 100 },
+        ]);
+    });
+
+    it('refuses an extrapolated storm under the refuse policy', () => {
+        expect(() => predictHydrograph(registered, { ...request, rainfall: 180 }, 'refuse')).toThrow('outside the training domain');
+    });
+
+    it('rejects an empty time step and a profile of one station', () => {
+        expect(() => predictHydrograph(registered, { ...request, timeStep_min: 0 })).toThrow('positive time step');
+        expect(() => predictHydrograph(registered, { ...request, profileStations: 1 })).toThrow('2 to 1440 stations');
+    });
+});
+
+describe('PINN model loading', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    it('retries a failed load and clears its error once the model loads', async () => {
+        const load = jest.spyOn(registry, 'loadRegisteredModel').mockRejectedValueOnce(new Error('manifest not found'));
+        await expect(loadModel()).resolves.toBe(false);
+        expect(getPINNModelStatus().error).toBe('manifest not found');
+
+        load.mockResolvedValueOnce(await registeredLinearModel());
+        await expect(loadModel()).resolves.toBe(true);
+
+        expect(getPINNModelStatus()).toMatchObject({ loaded: true, error: null, manifest: { version: '1.0.0' } });
+    });
 });
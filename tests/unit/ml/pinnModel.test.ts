@@ -3,7 +3,6 @@ import {
     predictRunoff,
     computeKinematicWaveSolution,
     type PINNInput,
-    getHybridPrediction,
     getModel
 } from '../../../src/ml/pinnModel';
 import { computePeakRunoff } from '../../../src/utils/hydrology';
@@ -17,10 +16,15 @@ jest.mock('@tensorflow/tfjs', () => ({
             dataSync: () => [1.25], // Mock prediction
             dispose: jest.fn(),
         })),
+        apply: jest.fn(() => ({
+            dataSync: () => [1.25], // Mock Monte Carlo dropout pass
+            dispose: jest.fn(),
+        })),
         dispose: jest.fn(),
     })),
     layers: {
         dense: jest.fn(() => ({})),
+        dropout: jest.fn(() => ({})),
     },
     train: {
         adam: jest.fn(),
@@ -156,26 +160,48 @@ describe('Hybrid Prediction', () => {
                 dataSync: () => [1.25],
                 dispose: jest.fn(),
             })),
+            apply: jest.fn(() => ({
+                dataSync: () => [1.25],
+                dispose: jest.fn(),
+            })),
             dispose: jest.fn(),
         });
     });
 
-    it('favors PINN when consistent with rational method', async () => {
+    const input: PINNInput = { x: 100, t: 30, rainfall: 50, slope: 0.02, manningN: 0.015 };
+    const published = {
+        discharge: 10, dischargeStd: 0.5, depth: 5, velocity: 0.2, confidence: 0.95,
+        isPINNPrediction: true, modelVersion: '1.0.0', extrapolated: []
+    };
+
+    /** getHybridPrediction with the published model answering as given */
+    const hybridWith = async (runPINNInference: jest.Mock) => {
         jest.resetModules();
-        const { getHybridPrediction: getHybrid } = require('../../../src/ml/pinnModel');
-        const input: PINNInput = { x: 100, t: 30, rainfall: 50, slope: 0.02, manningN: 0.015 };
-        const hybrid = await getHybrid(input, 100);
+        jest.doMock('../../../src/ml/pinnInference', () => ({ runPINNInference }));
+        return (await import('../../../src/ml/pinnModel')).getHybridPrediction;
+    };
+
+    it('uses a confident prediction of the published model', async () => {
+        const hybrid = await (await hybridWith(jest.fn().mockResolvedValue(published)))(input, 100);
 
-        expect(hybrid.isPINNPrediction).toBe(true);
-        expect(hybrid.confidence).toBe(0.85);
+        expect(hybrid).toEqual(published);
     });
 
-    it('falls back to rational when PINN fails checks', async () => {
-        jest.resetModules();
-        const { getHybridPrediction: getHybrid } = require('../../../src/ml/pinnModel');
-        const input: PINNInput = { x: 100, t: 30, rainfall: 50, slope: 0.02, manningN: 0.015 };
-        const hybrid = await getHybrid(input, 1000); // Bad ratio
+    it('falls back to rational when the published model is too uncertain', async () => {
+        const hybrid = await (await hybridWith(jest.fn().mockResolvedValue({ ...published, dischargeStd: 5 })))(input, 1000);
+
+        expect(hybrid.isPINNPrediction).toBe(false);
+        expect(hybrid.discharge).toBeCloseTo(computePeakRunoff(50, 1000));
+        expect(hybrid.confidence).toBe(0.5);
+    });
+
+    it('falls back without sampling the untrained network when no model is published', async () => {
+        const hybrid = await (await hybridWith(jest.fn().mockRejectedValue(new Error('PINN model file not found'))))(input, 100);
+
         expect(hybrid.isPINNPrediction).toBe(false);
+        expect(hybrid.modelVersion).toBeNull();
+        expect(hybrid.dischargeStd).toBeNull();
+        expect((await import('@tensorflow/tfjs')).sequential).not.toHaveBeenCalled();
     });
 
     // Skipped due to module reload issues in testing env
@@ -0,0 +1,78 @@
+/**
+ * PINN Model Files Tests
+ *
+ * Loads the model committed in public/models/pinn_runoff and checks it
+ * against its manifest and the numerical kinematic wave solution.
+ */
+import * as tf from '@tensorflow/tfjs';
+import path from 'path';
+import { loadRegisteredModelFromFiles } from '../../../src/ml/pinnModelFiles';
+import { denormalizeOutput, DROPOUT_RATE, INPUT_KEYS, normalize, PLANE_WIDTH_M } from '../../../src/ml/pinnConstants';
+import { isConfidentDischarge, sampleDischarge } from '../../../src/ml/pinnUncertainty';
+import type { RegisteredModel } from '../../../src/ml/pinnRegistry';
+import { createKinematicWaveService } from '../../../src/lib/hydrology-engine';
+
+const PUBLISHED_MODEL_DIR = path.resolve(__dirname, '../../../public/models/pinn_runoff');
+
+/** Steady storms over the training domain: [length (m), rainfall (mm/hr), slope, n, time (min)] */
+const STORMS = [
+    [100, 50, 0.02, 0.015, 60],
+    [100, 20, 0.02, 0.015, 60],
+    [200, 50, 0.05, 0.03, 30]
+];
+
+/** Outlet discharge (L/s) of the numerical solution at the given time */
+function solvedDischarge([length_m, rainfall, slope, manningN, t]: number[]): number {
+    const { profiles_Ls, hydrograph } = createKinematicWaveService().solve({
+        plane: { length_m, width_m: PLANE_WIDTH_M, slope, manningN },
+        rainfall: { intensities_mm_hr: [rainfall], timeStep_min: 60 },
+        duration_min: 60
+    });
+    return profiles_Ls[Math.round(t / hydrograph.timeStep_min)].at(-1)!;
+}
+
+function normalizedRow([length_m, rainfall, slope, manningN, t]: number[]): number[][] {
+    return [[length_m, t, rainfall, slope, manningN].map((v, i) => normalize(v, INPUT_KEYS[i]))];
+}
+
+/** Discharge (L/s) with dropout off */
+function predictedDischarge(model: tf.LayersModel, storm: number[]): number {
+    return tf.tidy(() => denormalizeOutput((model.predict(tf.tensor2d(normalizedRow(storm))) as tf.Tensor).dataSync()[0]));
+}
+
+let published: RegisteredModel;
+
+beforeAll(async () => {
+    await tf.setBackend('cpu');
+    published = await loadRegisteredModelFromFiles(PUBLISHED_MODEL_DIR);
+});
+
+afterAll(() => {
+    published.model.dispose();
+});
+
+describe('published PINN model', () => {
+    it('is registered with a verified manifest', () => {
+        expect(published.manifest.version).toBe('1.0.0');
+        expect(published.manifest.trainingSamples).toBe(30000);
+        expect(published.manifest.datasetHash).toMatch(/^[0-9a-f]{8}$/);
+    });
+
+    it('was trained with the Monte Carlo dropout of the current architecture', () => {
+        expect(published.manifest.dropoutRate).toBe(DROPOUT_RATE);
+        expect(published.model.layers.filter(layer => layer.getClassName() === 'Dropout')).toHaveLength(4);
+    });
+
+    it.each(STORMS)('matches the kinematic wave solution within 20%% (L %d m, %d mm/hr)', (...storm) => {
+        const solved = solvedDischarge(storm);
+
+        expect(Math.abs(predictedDischarge(published.model, storm) - solved) / solved).toBeLessThan(0.2);
+    });
+
+    // Light rain leaves a wider relative spread and falls back to the Rational Method
+    it.each(STORMS.filter(([, rainfall]) => rainfall >= 50))('is confident in its Monte Carlo dropout estimate (L %d m, %d mm/hr)', (...storm) => {
+        const { mean, std } = sampleDischarge(published.model, normalizedRow(storm));
+
+        expect(isConfidentDischarge(mean[0], std[0])).toBe(true);
+    });
+});
@@ -0,0 +1,109 @@
+/**
+ * PINN Model Registry Tests
+ */
+import {
+    buildManifest,
+    datasetHash,
+    loadRegisteredModel,
+    manifestProblems,
+    verifyManifest,
+    UNTRAINED_MODEL_VERSION,
+    type PINNModelManifest
+} from '../../../src/ml/pinnRegistry';
+import type { TrainingSample } from '../../../src/ml/syntheticData';
+
+const samples: TrainingSample[] = [
+    { inputs: [0, 0, 10, 0.005, 0.01], output: 0 },
+    { inputs: [100, 30, 55, 0.05, 0.03], output: 4.2 },
+    { inputs: [200, 60, 100, 0.15, 0.05], output: 12.5 },
+];
+
+const metrics = { valLoss: 0.002, physicsLoss: 0.01, initialLoss: 0.0001, boundaryLoss: 0.0003 };
+
+function manifest(overrides: Partial<PINNModelManifest> = {}): PINNModelManifest {
+    return { ...buildManifest('1.2.0', samples, metrics), ...overrides };
+}
+
+describe('PINN registry manifest', () => {
+    it('records the version, dataset and validation metrics', () => {
+        const m = manifest();
+        expect(m.version).toBe('1.2.0');
+        expect(m.trainingSamples).toBe(3);
+        expect(m.datasetHash).toMatch(/^[0-9a-f]{8}$/);
+        expect(m.validation).toEqual(metrics);
+    });
+
+    it('records the input ranges seen in training', () => {
+        const m = manifest();
+        expect(m.inputRanges.rainfall).toEqual({ min: 10, max: 100 });
+        expect(m.inputRanges.slope).toEqual({ min: 0.005, max: 0.15 });
+    });
+
+    it('passes its own verification', () => {
+        expect(manifestProblems(manifest())).toEqual([]);
+    });
+});
+
+describe('PINN registry datasetHash', () => {
+    it('is stable for the same samples and changes with any value', () => {
+        const changed = samples.map((s, i) => (i === 1 ? { ...s, output: 4.3 } : s));
+        expect(datasetHash(samples)).toBe(datasetHash([...samples]));
+        expect(datasetHash(changed)).not.toBe(datasetHash(samples));
+    });
+});
+
+describe('PINN registry verifyManifest', () => {
+    it('accepts a compatible manifest', () => {
+        const m = manifest();
+        expect(verifyManifest(JSON.parse(JSON.stringify(m)))).toEqual(m);
+    });
+
+    it('rejects normalization that differs from pinnConstants', () => {
+        const m = manifest();
+        const shifted = { ...m, normalization: { ...m.normalization, rainfall: { min: 0, max: 200 } } };
+        expect(() => verifyManifest(shifted)).toThrow(/normalization differs/);
+    });
+
+    it('rejects a model without the Monte Carlo dropout rate', () => {
+        expect(() => verifyManifest(manifest({ dropoutRate: 0 }))).toThrow(/uncertainty cannot be sampled/);
+    });
+
+    it('rejects an untrained model', () => {
+        expect(() => verifyManifest(manifest({ version: UNTRAINED_MODEL_VERSION }))).toThrow(/no model version/);
+    });
+
+    it('lists every problem found', () => {
+        const problems = manifestProblems(manifest({ outputScale: 100, datasetHash: '', schemaVersion: 0 }));
+        expect(problems).toHaveLength(3);
+    });
+
+    it('rejects a manifest without validation metrics or input ranges', () => {
+        const partial = { ...manifest() } as Partial<PINNModelManifest>;
+        delete partial.validation;
+        delete partial.inputRanges;
+        expect(() => verifyManifest(partial)).toThrow(/no validation metrics; no valid input ranges/);
+    });
+
+    it('rejects non-object JSON', () => {
+        expect(() => verifyManifest(null)).toThrow(/not an object/);
+    });
+});
+
+describe('PINN registry loadRegisteredModel', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    it('refuses a model without a manifest', async () => {
+        global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 404 });
+        await expect(loadRegisteredModel('/models/test')).rejects.toThrow('not found at /models/test/manifest.json (HTTP 404)');
+    });
+
+    it('refuses a model whose manifest does not verify', async () => {
+        const json = jest.fn().mockResolvedValue(manifest({ planeWidth_m: 5 }));
+        global.fetch = jest.fn().mockResolvedValue({ ok: true, status: 200, json });
+        await expect(loadRegisteredModel('/models/test')).rejects.toThrow(/plane width/);
+    });
+});
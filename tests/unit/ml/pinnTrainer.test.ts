@@ -4,8 +4,10 @@
  * Tests the training infrastructure and normalization functions.
  * Note: Full training is slow, so we test components in isolation.
  */
-import { describe, it, expect } from '@jest/globals';
+import { beforeAll, describe, it, expect, jest } from '@jest/globals';
 import * as tf from '@tensorflow/tfjs';
+import { trainModel, type TrainingState } from '../../../src/ml/pinnTrainer';
+import type { TrainingSample } from '../../../src/ml/syntheticData';
 
 // We need to test the exported functions and types
 // Since normalizeInput/normalizeOutput are private, we test via trainModel behavior
@@ -66,3 +68,29 @@ describe('pinnTrainer', () => {
         });
     });
 });
+
+/**
+ * Equilibrium discharge i·x over the 10 m wide plane (L/s) after the
+ * storm has run an hour, for a few rainfall rates and stations
+ */
+const equilibriumSamples: TrainingSample[] = [25, 50, 75, 100].flatMap(rainfall =>
+    [0, 25, 50, 75, 100].map(x => ({ inputs: [x, 60, rainfall, 0.02, 0.015], output: rainfall * x / 360 }))
+);
+
+const lossTerms = (state: TrainingState) => [state.loss, state.valLoss, state.physicsLoss, state.initialLoss, state.boundaryLoss];
+
+describe('pinnTrainer training loop', () => {
+    beforeAll(async () => {
+        await tf.setBackend('cpu');
+    });
+
+    it('lowers the loss over a few steps on a small collocation set', async () => {
+        const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        const history = await trainModel(undefined, { epochs: 10, batchSize: 8, learningRate: 0.01, samples: equilibriumSamples });
+
+        expect(history).toHaveLength(10);
+        expect(history[9].loss).toBeLessThan(history[0].loss);
+        history.flatMap(lossTerms).forEach(term => expect(Number.isFinite(term)).toBe(true));
+        log.mockRestore();
+    });
+});
@@ -0,0 +1,67 @@
+/**
+ * PINN Monte Carlo Dropout Uncertainty Tests
+ */
+import * as tf from '@tensorflow/tfjs';
+import { confidenceFromSpread, isConfidentDischarge, sampleDischarge } from '../../../src/ml/pinnUncertainty';
+import { OUTPUT_SCALE } from '../../../src/ml/pinnConstants';
+
+function network(dropoutRate: number): tf.Sequential {
+    const model = tf.sequential();
+    model.add(tf.layers.dense({ units: 16, activation: 'tanh', inputShape: [5] }));
+    model.add(tf.layers.dropout({ rate: dropoutRate }));
+    model.add(tf.layers.dense({ units: 1, activation: 'softplus' }));
+    return model;
+}
+
+const rows = [
+    [0.5, 0.25, 0.3, 0.1, 0.2],
+    [0.9, 0.5, 0.6, 0.5, 0.4],
+];
+
+describe('sampleDischarge', () => {
+    it('returns a mean and standard deviation per row in L/s', () => {
+        const model = network(0.3);
+        const { mean, std } = sampleDischarge(model, rows, 20);
+        expect(mean).toHaveLength(2);
+        expect(std).toHaveLength(2);
+        mean.forEach(m => expect(m).toBeGreaterThan(0));
+        std.forEach(s => expect(s).toBeGreaterThan(0));
+        model.dispose();
+    });
+
+    it('has no spread without dropout, matching a plain prediction', () => {
+        const model = network(0);
+        const { mean, std } = sampleDischarge(model, rows, 5);
+        const predicted = tf.tidy(() => Array.from((model.predict(tf.tensor2d(rows)) as tf.Tensor).dataSync()));
+        std.forEach(s => expect(s).toBeCloseTo(0, 6));
+        mean.forEach((m, i) => expect(m).toBeCloseTo(predicted[i] * OUTPUT_SCALE, 3));
+        model.dispose();
+    });
+
+    it('does not leak tensors', () => {
+        const model = network(0.3);
+        const before = tf.memory().numTensors;
+        sampleDischarge(model, rows, 10);
+        expect(tf.memory().numTensors).toBe(before);
+        model.dispose();
+    });
+});
+
+describe('confidenceFromSpread', () => {
+    it('is 1 without spread and halves at a CV of 1', () => {
+        expect(confidenceFromSpread(10, 0)).toBe(1);
+        expect(confidenceFromSpread(10, 10)).toBeCloseTo(0.5);
+    });
+
+    it('is 0 without discharge', () => {
+        expect(confidenceFromSpread(0, 0)).toBe(0);
+    });
+});
+
+describe('isConfidentDischarge', () => {
+    it('trusts the PINN within the maximum coefficient of variation', () => {
+        expect(isConfidentDischarge(10, 2)).toBe(true);
+        expect(isConfidentDischarge(10, 4)).toBe(false);
+        expect(isConfidentDischarge(0, 0)).toBe(false);
+    });
+});
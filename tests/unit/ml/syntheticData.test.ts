@@ -4,6 +4,7 @@
 import {
     generateTrainingData,
     generateBoundaryData,
+    generateCollocationPoints,
     splitDataset,
     type TrainingSample,
     type TrainingDataset
@@ -85,6 +86,21 @@ describe('Synthetic Data Generator', () => {
         });
     });
 
+    describe('generateCollocationPoints', () => {
+        it('samples the training domain during the storm', () => {
+            const points = generateCollocationPoints(200);
+            expect(points).toHaveLength(200);
+            points.forEach(([x, t, rainfall, slope, manningN]) => {
+                expect(x).toBeGreaterThanOrEqual(0);
+                expect(x).toBeLessThanOrEqual(200);
+                expect(t).toBeLessThanOrEqual(60);
+                expect(rainfall).toBeGreaterThanOrEqual(10);
+                expect(slope).toBeGreaterThan(0);
+                expect(manningN).toBeGreaterThan(0);
+            });
+        });
+    });
+
     describe('splitDataset', () => {
         const mockSamples: TrainingSample[] = Array.from({ length: 100 }, (_, i) => ({
             inputs: [i, i, i, i, i],
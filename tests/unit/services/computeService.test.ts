@@ -0,0 +1,159 @@
+import {
+    InlineComputeService,
+    WorkerComputeService,
+    createComputeService,
+    getComputeService,
+    isComputeCancelled,
+    type WorkerLike
+} from '../../../src/services/computeService';
+import type { WorkerRequest, WorkerResponse } from '../../../src/workers/computeProtocol';
+import { computePeakRunoff } from '../../../src/utils/hydrology';
+
+/** Records requests; the test answers them as the worker would */
+class FakeWorker implements WorkerLike {
+    onmessage: ((event: MessageEvent<WorkerResponse>) => void) | null = null;
+    onerror: ((event: ErrorEvent) => void) | null = null;
+    onmessageerror: ((event: MessageEvent) => void) | null = null;
+    requests: WorkerRequest[] = [];
+    terminated = false;
+
+    postMessage(message: WorkerRequest): void {
+        this.requests.push(message);
+    }
+
+    terminate(): void {
+        this.terminated = true;
+    }
+
+    answer(response: WorkerResponse): void {
+        this.onmessage?.({ data: response } as MessageEvent<WorkerResponse>);
+    }
+}
+
+const runoffInput = { rainfall_mm_hr: 50, area_m2: 100 };
+const estimate = { peakRunoff: 1.25, isPINNPrediction: false, modelVersion: null, warnings: [] };
+
+describe('WorkerComputeService', () => {
+    let worker: FakeWorker;
+    let service: WorkerComputeService;
+
+    beforeEach(() => {
+        worker = new FakeWorker();
+        service = new WorkerComputeService(worker);
+    });
+
+    it('resolves each task with the answer carrying its id', async () => {
+        const first = service.run('runoff', runoffInput);
+        const second = service.run('flowRouting', { samples: [] });
+
+        expect(worker.requests).toEqual([
+            { type: 'run', id: 0, task: 'runoff', input: runoffInput },
+            { type: 'run', id: 1, task: 'flowRouting', input: { samples: [] } }
+        ]);
+        worker.answer({ id: 1, ok: true, output: null });
+        worker.answer({ id: 0, ok: true, output: estimate });
+
+        await expect(first).resolves.toEqual(estimate);
+        await expect(second).resolves.toBeNull();
+    });
+
+    it('rejects with the error the worker reports', async () => {
+        const task = service.run('runoff', runoffInput);
+        worker.answer({ id: 0, ok: false, error: 'PINN inputs outside the training domain' });
+
+        await expect(task).rejects.toThrow('PINN inputs outside the training domain');
+    });
+
+    it('cancels a task when its signal aborts and ignores the late answer', async () => {
+        const controller = new AbortController();
+        const task = service.run('runoff', runoffInput, controller.signal);
+
+        controller.abort();
+        worker.answer({ id: 0, ok: true, output: estimate });
+
+        await expect(task).rejects.toMatchObject({ name: 'AbortError' });
+        expect(worker.requests[1]).toEqual({ type: 'cancel', id: 0 });
+    });
+
+    it('does not start a task whose signal is already aborted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+
+        const error = await service.run('runoff', runoffInput, controller.signal).catch(e => e);
+
+        expect(isComputeCancelled(error)).toBe(true);
+        expect(worker.requests).toEqual([]);
+    });
+
+    it('cancels the pending tasks on terminate', async () => {
+        const task = service.run('runoff', runoffInput);
+        service.terminate();
+
+        await expect(task).rejects.toMatchObject({ name: 'AbortError' });
+        expect(worker.terminated).toBe(true);
+    });
+});
+
+describe('WorkerComputeService failures', () => {
+    let worker: FakeWorker;
+    let service: WorkerComputeService;
+
+    beforeEach(() => {
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        worker = new FakeWorker();
+        service = new WorkerComputeService(worker);
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('fails the pending tasks and computes inline once the worker crashes', async () => {
+        const task = service.run('runoff', runoffInput);
+        worker.onerror?.({ message: 'Out of memory' } as ErrorEvent);
+
+        await expect(task).rejects.toThrow('Compute worker failed: Out of memory');
+        expect(worker.terminated).toBe(true);
+        await expect(service.run('runoff', runoffInput)).resolves.toMatchObject({ peakRunoff: computePeakRunoff(50, 100) });
+        expect(worker.requests).toHaveLength(1);
+    });
+
+    it('fails the pending tasks when the worker cannot read a message', async () => {
+        const task = service.run('flowRouting', { samples: [] });
+        worker.onmessageerror?.({} as MessageEvent);
+
+        await expect(task).rejects.toThrow('could not read a message');
+        expect(worker.terminated).toBe(true);
+    });
+});
+
+describe('InlineComputeService', () => {
+    it('runs tasks in the calling thread', async () => {
+        await expect(new InlineComputeService().run('runoff', runoffInput))
+            .resolves.toEqual({ peakRunoff: computePeakRunoff(50, 100), isPINNPrediction: false, modelVersion: null, warnings: [] });
+    });
+
+    it('rejects a task cancelled while it runs', async () => {
+        const controller = new AbortController();
+        const task = new InlineComputeService().run('runoff', runoffInput, controller.signal);
+        controller.abort();
+
+        await expect(task).rejects.toMatchObject({ name: 'AbortError' });
+    });
+});
+
+describe('createComputeService', () => {
+    it('talks to a worker when given one and runs inline without', () => {
+        expect(createComputeService(new FakeWorker())).toBeInstanceOf(WorkerComputeService);
+        expect(createComputeService()).toBeInstanceOf(InlineComputeService);
+    });
+
+    it('shares one inline service where no Worker exists', () => {
+        expect(getComputeService()).toBeInstanceOf(InlineComputeService);
+        expect(getComputeService()).toBe(getComputeService());
+    });
+
+    it('tells cancellations apart from task errors', () => {
+        expect(isComputeCancelled(new DOMException('Compute task cancelled', 'AbortError'))).toBe(true);
+        expect(isComputeCancelled(new Error('PINN unavailable'))).toBe(false);
+        expect(isComputeCancelled(null)).toBe(false);
+    });
+});
@@ -21,6 +21,31 @@ describe('Open-Meteo Rainfall Fetching', () => {
         const cached = await openMeteoClient.fetchRainfall(38.8462, -77.3064);
         expect(cached.fromCache).toBe(true);
     });
+
+    it('treats hours without a reading as dry', async () => {
+        mockFetch.mockResolvedValueOnce({ ok: true, json: async () => createMockResponse([null as unknown as number, 1.2]), });
+        const result = await openMeteoClient.fetchRainfall(38.8462, -77.3064);
+        expect(result.precipitation).toEqual([0, 1.2]);
+    });
+});
+
+describe('Open-Meteo Historical Rainfall', () => {
+    beforeEach(() => { mockFetch.mockClear(); });
+
+    it('requests a full calendar year from the archive API', async () => {
+        mockFetch.mockResolvedValueOnce({ ok: true, json: async () => createMockResponse([0.5, null as unknown as number]), });
+        const result = await openMeteoClient.fetchHistoricalRainfall(52.52, 13.405, 2024);
+
+        const url = mockFetch.mock.calls[0][0] as string;
+        expect(url).toContain('archive-api.open-meteo.com');
+        expect(url).toContain('start_date=2024-01-01&end_date=2024-12-31');
+        expect(result.precipitation).toEqual([0.5, 0]);
+    });
+
+    it('throws on API errors', async () => {
+        mockFetch.mockResolvedValueOnce({ ok: false, status: 500 });
+        await expect(openMeteoClient.fetchHistoricalRainfall(52.52, 13.405, 2024)).rejects.toThrow('API error: 500');
+    });
 });
 
 describe('Open-Meteo Aggregations', () => {
@@ -82,3 +82,103 @@ describe('PDF Export', () => {
         expect(mockSave).toHaveBeenCalledWith(expect.stringContaining('Kreuzberg_Flood_Fix'));
     });
 });
+
+describe('PDF Export uncertainty bands', () => {
+    const mockProject: PDFExportData = {
+        streetName: 'Kreuzberg Flood Fix',
+        latitude: 52.52,
+        longitude: 13.405,
+        rainfall: 50,
+        totalArea: 100,
+        totalReduction: 65,
+        features: [{ type: 'permeable_pavement', size: 50, reductionRate: 0.7, placement: 'Parking area' }],
+        peakRunoff: 1.25,
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('prints uncertainty bands when supplied', async () => {
+        const band = (p10: number, p50: number, p90: number) => ({ p10, p50, p90 });
+        await exportProjectPDF({
+            ...mockProject,
+            uncertainty: {
+                iterations: 1000,
+                scanAccuracy_percent: 10,
+                bands: {
+                    peakRunoff_Ls: band(1.02, 1.25, 1.51),
+                    wqv_L: band(2400, 2900, 3500),
+                    peakReduction_percent: band(60, 65, 71),
+                    phosphorusRemoved_lb_yr: band(0.01, 0.012, 0.015),
+                    nitrogenRemoved_lb_yr: band(0.08, 0.1, 0.12)
+                }
+            }
+        });
+        const textCalls = mockText.mock.calls.map(c => c[0].toString());
+
+        expect(textCalls).toContain('• Peak Runoff P10–P90: 1.02 – 1.51 (P50 1.25) L/s');
+        expect(textCalls).toContain('• Runoff Reduction P10–P90: 60 – 71 (P50 65)%');
+        expect(textCalls.some(t => t.includes('1000 draws'))).toBe(true);
+    });
+
+    it('omits uncertainty bands for a deterministic report', async () => {
+        await exportProjectPDF(mockProject);
+        const textCalls = mockText.mock.calls.map(c => c[0].toString());
+
+        expect(textCalls.some(t => t.includes('P10'))).toBe(false);
+    });
+});
+
+describe('PDF Export climate scenarios', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('lists design rainfall and peak runoff for every horizon', async () => {
+        await exportProjectPDF({
+            streetName: 'Kreuzberg Flood Fix',
+            latitude: 52.52,
+            longitude: 13.405,
+            rainfall: 50,
+            totalArea: 100,
+            totalReduction: 35,
+            features: [],
+            peakRunoff: 1.25,
+            climateScenarios: [
+                { scenario: 'current', factor: 1, intensity_mm_hr: 50, depth_mm: 30 },
+                { scenario: '2050', factor: 1.1, intensity_mm_hr: 55, depth_mm: 33 },
+                { scenario: '2100', factor: 1.2, intensity_mm_hr: 60, depth_mm: 36 }
+            ]
+        });
+        const textCalls = mockText.mock.calls.map(c => c[0].toString());
+
+        expect(textCalls).toContain('Climate Scenarios');
+        expect(textCalls).toContain('• Today (×1.00): 50.0 mm/hr · 30.0 mm · Peak 1.25 L/s');
+        expect(textCalls).toContain('• 2100 (×1.20): 60.0 mm/hr · 36.0 mm · Peak 1.50 L/s');
+    });
+});
+
+
+describe('PDF Export design standard', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('names the regulatory profile of the design values', async () => {
+        await exportProjectPDF({
+            streetName: 'Kreuzberg Flood Fix',
+            latitude: 52.52,
+            longitude: 13.405,
+            rainfall: 50,
+            totalArea: 100,
+            totalReduction: 35,
+            features: [],
+            peakRunoff: 1.25,
+            profileName: 'Fairfax County LID Manual'
+        });
+        const textCalls = mockText.mock.calls.map(c => c[0].toString());
+
+        expect(textCalls).toContain('• Design Standard: Fairfax County LID Manual');
+    });
+});
@@ -46,6 +46,23 @@ describe('ElevationGrid', () => {
         });
     });
 
+    describe('fromSamples', () => {
+        it('rebuilds a grid from the samples of another', () => {
+            [[0, 0, 0], [1, 0, 0.2], [0, 1, 0.1]].forEach(([x, y, elevation]) =>
+                grid.addSample(createElevationSample({ x, y, elevation, accuracy: 0.1, source: 'lidar' })));
+
+            const copy = ElevationGrid.fromSamples(grid.getSamples(), grid.cellSize);
+
+            expect(copy.sampleCount).toBe(3);
+            expect(copy.interpolate(0.5, 0.5)).toBeCloseTo(grid.interpolate(0.5, 0.5)!, 10);
+        });
+
+        it('hands out a copy of the samples', () => {
+            grid.getSamples().push(createElevationSample({ x: 0, y: 0, elevation: 0, accuracy: 0.1, source: 'gps' }));
+            expect(grid.sampleCount).toBe(0);
+        });
+    });
+
     describe('interpolate (IDW)', () => {
         it('returns null for empty grid', () => {
             expect(grid.interpolate(0, 0)).toBeNull();
@@ -135,6 +152,21 @@ describe('ElevationGrid', () => {
         });
     });
 
+    describe('getCentralSlope', () => {
+        it('returns null for empty grid', () => {
+            expect(grid.getCentralSlope()).toBeNull();
+        });
+
+        it('returns slope magnitude at the grid center', () => {
+            grid.addSample(createElevationSample({ x: 0, y: 0, elevation: 0, accuracy: 0.1, source: 'barometer' }));
+            grid.addSample(createElevationSample({ x: 10, y: 0, elevation: 1, accuracy: 0.1, source: 'barometer' }));
+
+            const slope = grid.getCentralSlope();
+            expect(slope).toBeCloseTo(Math.hypot(grid.getSlope(5, 0)!.dx, grid.getSlope(5, 0)!.dy), 6);
+            expect(slope).toBeGreaterThan(0);
+        });
+    });
+
     describe('getBounds', () => {
         it('returns null for empty grid', () => {
             expect(grid.getBounds()).toBeNull();
@@ -1,11 +1,18 @@
 /**
  * ExportService - ATDD Spec
  * 
- * Tests for PDF, OBJ, and DEM export functionality.
+ * Tests for PDF, OBJ, DEM, ponding depth, SWMM model and validation report export functionality.
  */
 import { describe, it, expect } from '@jest/globals';
-import { ExportService } from '../../../src/lib/spatial-coverage/application/ExportService';
+import { ExportService, type SwmmModel } from '../../../src/lib/spatial-coverage/application/ExportService';
 import { ElevationGrid, createElevationSample } from '../../../src/lib/spatial-coverage';
+import {
+    createFlowRoutingService,
+    createHydrograph,
+    createHydrographValidationService,
+    createPondingService,
+    createTerrainRaster
+} from '../../../src/lib/hydrology-engine';
 
 // Helper to read blob as text (Jest/Node compatible)
 async function blobToText(blob: Blob): Promise<string> {
@@ -143,4 +150,156 @@ describe('ExportService', () => {
             expect(csv).toContain('0.123');
         });
     });
+
+    describe('toPondingCSV', () => {
+        const basin = [[1, 1, 1], [1, 0, 0.5], [1, 1, 1]];
+        const ponding = createPondingService().simulate({
+            flow: createFlowRoutingService().route(createTerrainRaster(basin, 0.5)),
+            rainfall_mm: 500,
+            runoffCoefficient: 1
+        });
+
+        it('generates CSV with totals in the header', () => {
+            const csv = service.toPondingCSV(ponding, { lat: 52.52, lon: 13.405 });
+
+            expect(csv).toContain('# Ponding Depth Export (m)');
+            expect(csv).toContain('Rainfall: 500.0 mm');
+            expect(csv).toContain('Cell Size: 0.5 m');
+        });
+
+        it('lists the spill points', () => {
+            const csv = service.toPondingCSV(ponding, { lat: 52.52, lon: 13.405 });
+            expect(csv).toContain('# Spill: (1.00, 0.50)');
+            expect(csv).toContain('off site');
+        });
+
+        it('includes one depth row per raster row', () => {
+            const rows = service.toPondingCSV(ponding, { lat: 52.52, lon: 13.405 })
+                .split('\n')
+                .filter(line => line && !line.startsWith('#'));
+
+            expect(rows).toEqual(['0.000,0.000,0.000', '0.000,0.500,0.000', '0.000,0.000,0.000']);
+        });
+    });
+});
+
+/** 400 m² street, 60% impervious, draining 40 m at 2% */
+const swmmModel: SwmmModel = {
+    title: 'Berlin Pilot',
+    catchment: { totalArea_m2: 400, imperviousPercent: 60, curveNumber: 90 },
+    flowLength_m: 40,
+    slope: 0.02,
+    rainfall: { intensities_mm_hr: [20, 60, 20], timeStep_min: 10 },
+    fixes: [{ type: 'rain_garden', size: 10 }, { type: 'rain_garden', size: 5 }, { type: 'permeable_pavement', size: 45 }]
+};
+
+/** Data rows of an .inp section */
+function section(inp: string, name: string): string[][] {
+    const lines = inp.split('\n');
+    const start = lines.indexOf(`[${name}]`) + 1;
+    const end = lines.findIndex((line, i) => i >= start && !line.trim());
+    return lines.slice(start, end < 0 ? undefined : end).map(line => line.split(/\s+/));
+}
+
+describe('ExportService toSWMMInp', () => {
+    const service = new ExportService();
+
+    it('writes the subcatchment in SI units draining to the outfall', () => {
+        const inp = service.toSWMMInp(swmmModel);
+
+        expect(section(inp, 'OPTIONS')).toContainEqual(['FLOW_UNITS', 'LPS']);
+        expect(section(inp, 'SUBCATCHMENTS')).toEqual([['S1', 'RG1', 'OUT1', '0.0400', '60.0', '10.00', '2.00', '0']]);
+        expect(section(inp, 'INFILTRATION')).toEqual([['S1', '90.0', '0.5', '7']]);
+        expect(section(inp, 'OUTFALLS')).toEqual([['OUT1', '0', 'FREE', 'NO']]);
+    });
+
+    it('feeds the design storm through a rain gage for twice its length', () => {
+        const inp = service.toSWMMInp(swmmModel);
+
+        expect(section(inp, 'RAINGAGES')).toEqual([['RG1', 'INTENSITY', '0:10', '1.0', 'TIMESERIES', 'Rainfall']]);
+        expect(section(inp, 'TIMESERIES')).toEqual([
+            ['Rainfall', '0:00', '20.00'],
+            ['Rainfall', '0:10', '60.00'],
+            ['Rainfall', '0:20', '20.00']
+        ]);
+        expect(section(inp, 'OPTIONS')).toContainEqual(['END_TIME', '01:00:00']);
+    });
+
+    it('dates observed hourly rainfall', () => {
+        const inp = service.toSWMMInp({
+            ...swmmModel,
+            rainfall: { precipitation: [0, 1.5], times: ['2024-07-01T23:00', '2024-07-02T00:00'], units: 'mm' }
+        });
+
+        expect(section(inp, 'RAINGAGES')[0]).toEqual(['RG1', 'VOLUME', '1:00', '1.0', 'TIMESERIES', 'Rainfall']);
+        expect(section(inp, 'TIMESERIES')[1]).toEqual(['Rainfall', '07/02/2024', '00:00', '1.50']);
+        expect(section(inp, 'OPTIONS')).toContainEqual(['START_DATE', '07/01/2024']);
+        expect(section(inp, 'OPTIONS')).toContainEqual(['END_TIME', '01:00:00']);
+    });
+});
+
+describe('ExportService toSWMMInp LID controls', () => {
+    const service = new ExportService();
+
+    it('defines one LID control per BMP type from the catalog', () => {
+        const controls = section(service.toSWMMInp(swmmModel), 'LID_CONTROLS');
+
+        expect(controls).toContainEqual(['rain_garden', 'RG']);
+        expect(controls).toContainEqual(['permeable_pavement', 'PP']);
+        expect(controls.filter(row => row[1] === 'RG')).toHaveLength(1);
+        expect(controls).toContainEqual(['permeable_pavement', 'PAVEMENT', '80', '0.15', '0', '250', '0']);
+    });
+
+    it('routes to each fix the impervious area whose storm its storage holds', () => {
+        // 5 m² × 300 mm of storage hold the 16.7 mm storm of 90 m², 37.5% of the 240 m² impervious
+        const usage = section(service.toSWMMInp({ ...swmmModel, fixes: [{ type: 'rain_garden', size: 5 }] }), 'LID_USAGE');
+
+        expect(usage).toEqual([['S1', 'rain_garden', '1', '5.00', '0.00', '0', '37.5', '0']]);
+    });
+
+    it('shares the impervious runoff by treated area when the fixes could hold more', () => {
+        // 15 m² of rain garden treat 270 m² and 45 m² of pavement 324 m²
+        const usage = section(service.toSWMMInp(swmmModel), 'LID_USAGE');
+
+        expect(usage).toEqual([
+            ['S1', 'rain_garden', '1', '15.00', '0.00', '0', '45.5', '0'],
+            ['S1', 'permeable_pavement', '1', '45.00', '6.71', '0', '54.5', '0']
+        ]);
+    });
+
+    it('draws the boundary, or a square of the same area without one', () => {
+        const square = section(service.toSWMMInp(swmmModel), 'Polygons');
+        const outline = section(service.toSWMMInp({ ...swmmModel, boundary: [{ x: 0, y: 0 }, { x: 20, y: 0 }, { x: 0, y: 40 }] }), 'Polygons');
+
+        expect(square).toEqual([['S1', '-10.00', '-10.00'], ['S1', '10.00', '-10.00'], ['S1', '10.00', '10.00'], ['S1', '-10.00', '10.00']]);
+        expect(outline).toHaveLength(3);
+        expect(outline[2]).toEqual(['S1', '0.00', '40.00']);
+    });
+});
+
+describe('ExportService toValidationCSV', () => {
+    const service = new ExportService();
+    const validation = createHydrographValidationService().validate(
+        createHydrograph(5, [0, 12, 20, 8, 0]),
+        { source: 'inflow_m3s', times_min: [0, 10, 20], flows_Ls: [0, 20, 0] }
+    );
+
+    it('lists the goodness-of-fit statistics in the header', () => {
+        const csv = service.toValidationCSV(validation, 'Fairfax Pilot', 'inflow_m3s');
+
+        expect(csv).toContain('# Hydrograph Validation Report - Site: Fairfax Pilot');
+        expect(csv).toContain('# Reference: inflow_m3s');
+        expect(csv).toContain(`# NSE: ${validation.nse.toFixed(3)}`);
+        expect(csv).toContain('# Timing Error: 0 min');
+    });
+
+    it('includes the aligned predicted and reference flows', () => {
+        const rows = service.toValidationCSV(validation, 'Fairfax Pilot', 'inflow_m3s')
+            .split('\n')
+            .filter(line => !line.startsWith('#'));
+
+        expect(rows[0]).toBe('time_min,predicted_Ls,reference_Ls');
+        expect(rows[2]).toBe('5,12.000,10.000');
+        expect(rows).toHaveLength(6);
+    });
 });
@@ -122,4 +122,14 @@ describe('GeoPolygon', () => {
             expect(area).toBeLessThan(8000);
         });
     });
+
+    describe('longestDimensionMeters', () => {
+        it('returns the diagonal of a rectangular polygon', () => {
+            const polygon = GeoPolygon.create(sampleVertices);
+
+            // ~68m x ~111m rectangle → diagonal ~130m
+            expect(polygon.longestDimensionMeters).toBeGreaterThan(125);
+            expect(polygon.longestDimensionMeters).toBeLessThan(135);
+        });
+    });
 });
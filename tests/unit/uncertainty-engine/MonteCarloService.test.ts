@@ -0,0 +1,107 @@
+import { MonteCarloService } from '../../../src/lib/uncertainty-engine/domain/services/MonteCarloService';
+import {
+    createSeededRandom,
+    sampleDistribution,
+    type Distribution
+} from '../../../src/lib/uncertainty-engine/domain/valueObjects/Distribution';
+import { createPercentileBand, percentile } from '../../../src/lib/uncertainty-engine/domain/valueObjects/PercentileBand';
+
+const service = new MonteCarloService();
+
+function draw(dist: Distribution, n = 5000, seed = 1): number[] {
+    const random = createSeededRandom(seed);
+    return Array.from({ length: n }, () => sampleDistribution(dist, random));
+}
+
+const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+
+describe('Distribution', () => {
+    it('repeats the same sequence for the same seed', () => {
+        const a = createSeededRandom(42);
+        const b = createSeededRandom(42);
+        expect([a(), a(), a()]).toEqual([b(), b(), b()]);
+        expect(createSeededRandom(43)()).not.toBe(createSeededRandom(42)());
+    });
+
+    it('draws uniform deviates in [0, 1)', () => {
+        const xs = draw({ kind: 'uniform', min: 0, max: 1 });
+        expect(Math.min(...xs)).toBeGreaterThanOrEqual(0);
+        expect(Math.max(...xs)).toBeLessThan(1);
+        expect(mean(xs)).toBeCloseTo(0.5, 1);
+    });
+
+    it('centres normal samples on the mean with the given spread', () => {
+        const xs = draw({ kind: 'normal', mean: 10, sd: 2 });
+        const sd = Math.sqrt(mean(xs.map(x => (x - 10) ** 2)));
+        expect(mean(xs)).toBeCloseTo(10, 1);
+        expect(sd).toBeCloseTo(2, 1);
+    });
+
+    it('keeps lognormal samples positive around the median', () => {
+        const xs = draw({ kind: 'lognormal', median: 5, sigma: 0.3 });
+        expect(Math.min(...xs)).toBeGreaterThan(0);
+        expect(createPercentileBand(xs).p50).toBeCloseTo(5, 0);
+    });
+
+    it('bounds triangular samples and peaks at the mode', () => {
+        const xs = draw({ kind: 'triangular', min: 0.7, mode: 0.9, max: 1 });
+        expect(Math.min(...xs)).toBeGreaterThanOrEqual(0.7);
+        expect(Math.max(...xs)).toBeLessThanOrEqual(1);
+        // Mean of a triangular distribution is (min + mode + max) / 3
+        expect(mean(xs)).toBeCloseTo(2.6 / 3, 2);
+    });
+
+    it('returns the mode of a degenerate triangular distribution', () => {
+        expect(draw({ kind: 'triangular', min: 1, mode: 1, max: 1 }, 3)).toEqual([1, 1, 1]);
+    });
+});
+
+describe('PercentileBand', () => {
+    it('interpolates linearly between order statistics', () => {
+        const sorted = [0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+        expect(percentile(sorted, 10)).toBe(10);
+        expect(percentile(sorted, 50)).toBe(50);
+        expect(percentile(sorted, 95)).toBe(95);
+    });
+
+    it('bands an unsorted sample', () => {
+        expect(createPercentileBand([3, 1, 2])).toEqual({ p10: 1.2, p50: 2, p90: 2.8 });
+    });
+
+    it('rejects an empty sample', () => {
+        expect(() => createPercentileBand([])).toThrow('Percentile band needs at least one sample');
+    });
+});
+
+describe('MonteCarloService', () => {
+    const inputs: Record<'x' | 'y', Distribution> = {
+        x: { kind: 'uniform', min: 0, max: 10 },
+        y: { kind: 'normal', mean: 0, sd: 1 }
+    };
+
+    it('bands every model output', () => {
+        const result = service.run(inputs, s => ({ sum: s.x + s.y, x: s.x }), { iterations: 2000 });
+
+        expect(result.iterations).toBe(2000);
+        expect(result.bands.x.p10).toBeCloseTo(1, 0);
+        expect(result.bands.x.p50).toBeCloseTo(5, 0);
+        expect(result.bands.x.p90).toBeCloseTo(9, 0);
+        expect(result.bands.sum.p10).toBeLessThan(result.bands.sum.p50);
+        expect(result.bands.sum.p50).toBeLessThan(result.bands.sum.p90);
+    });
+
+    it('reproduces a run with the same seed', () => {
+        const model = (s: Record<'x' | 'y', number>) => ({ z: s.x * s.y });
+        expect(service.run(inputs, model, { seed: 7 })).toEqual(service.run(inputs, model, { seed: 7 }));
+    });
+
+    it('collapses to the deterministic value without spread', () => {
+        const result = service.run({ a: { kind: 'normal', mean: 3, sd: 0 } }, s => ({ a2: s.a * 2 }), { iterations: 10 });
+        expect(result.bands.a2).toEqual({ p10: 6, p50: 6, p90: 6 });
+    });
+
+    it('rejects fewer than one iteration', () => {
+        expect(() => service.run(inputs, s => ({ x: s.x }), { iterations: 0 }))
+            .toThrow('Monte Carlo needs at least one iteration');
+    });
+});
@@ -0,0 +1,85 @@
+import {
+    RetrofitUncertaintyService,
+    scanAccuracyPercent,
+    type RetrofitUncertaintyInput
+} from '../../../src/lib/uncertainty-engine/domain/services/RetrofitUncertaintyService';
+import { PollutantCalculationService } from '../../../src/lib/env-calculator/domain/services/PollutantCalculationService';
+import {
+    MIN_SCAN_ACCURACY_PERCENT,
+    UNCALIBRATED_SCAN_ACCURACY_PERCENT
+} from '../../../src/lib/uncertainty-engine/config/uncertaintyDefaults';
+
+const service = new RetrofitUncertaintyService();
+
+const input: RetrofitUncertaintyInput = {
+    area_m2: 500,
+    calibration: { accuracy: 3, isCalibrated: true },
+    runoffCoefficient: 0.9,
+    imperviousPercent: 100,
+    peakRunoff_Ls: 6.25,
+    wqv_L: 13716,
+    annualRainfall_mm: 1000,
+    bmps: [{ type: 'rain_garden', area_m2: 40 }, { type: 'permeable_pavement', area_m2: 100 }]
+};
+
+const width = (band: { p10: number; p90: number }) => band.p90 - band.p10;
+
+describe('RetrofitUncertaintyService', () => {
+    it('brackets the deterministic results with its bands', () => {
+        const { bands } = service.estimate(input);
+
+        expect(bands.peakRunoff_Ls.p10).toBeLessThan(6.25);
+        expect(bands.peakRunoff_Ls.p90).toBeGreaterThan(6.25);
+        expect(bands.wqv_L.p10).toBeLessThan(13716);
+        expect(bands.wqv_L.p90).toBeGreaterThan(13716);
+    });
+
+    it('centres peak reduction on the BMP runoff reduction over the scanned area', () => {
+        // 40 m² × 40% + 100 m² × 70% over 500 m² = 17.2%
+        const { bands } = service.estimate(input);
+
+        expect(bands.peakReduction_percent.p50).toBeCloseTo(17.2, 0);
+        expect(bands.peakReduction_percent.p10).toBeLessThan(bands.peakReduction_percent.p90);
+    });
+
+    it('centres pollutant removal on the deterministic removal', () => {
+        const summary = new PollutantCalculationService().getSLAFSummary({ ...input, runoffCoefficient: 0.9 });
+        const { bands } = service.estimate(input);
+
+        expect(bands.phosphorusRemoved_lb_yr.p50).toBeCloseTo(summary.totalPhosphorusRemoved_lb_yr, 2);
+        expect(bands.nitrogenRemoved_lb_yr.p50 / summary.totalNitrogenRemoved_lb_yr).toBeCloseTo(1, 1);
+    });
+
+    it('widens the bands for an uncalibrated scan', () => {
+        const calibrated = service.estimate(input);
+        const uncalibrated = service.estimate({ ...input, calibration: { accuracy: 0, isCalibrated: false } });
+
+        expect(uncalibrated.scanAccuracy_percent).toBe(UNCALIBRATED_SCAN_ACCURACY_PERCENT);
+        expect(width(uncalibrated.bands.peakReduction_percent)).toBeGreaterThan(width(calibrated.bands.peakReduction_percent));
+    });
+
+    it('caps peak reduction at 100%', () => {
+        const { bands } = service.estimate({ ...input, bmps: [{ type: 'rain_garden', area_m2: 2000 }] });
+        expect(bands.peakReduction_percent.p90).toBe(100);
+    });
+
+    it('is repeatable for a fixed seed', () => {
+        expect(service.estimate({ ...input, seed: 5 })).toEqual(service.estimate({ ...input, seed: 5 }));
+    });
+
+    it('rejects a non-positive area and an out-of-range runoff coefficient', () => {
+        expect(() => service.estimate({ ...input, area_m2: 0 })).toThrow('Catchment area must be positive');
+        expect(() => service.estimate({ ...input, runoffCoefficient: 1.2 })).toThrow('Runoff coefficient must be between 0 and 1');
+    });
+});
+
+describe('scanAccuracyPercent', () => {
+    it('uses the tape accuracy with a floor', () => {
+        expect(scanAccuracyPercent({ accuracy: 4.5, isCalibrated: true })).toBe(4.5);
+        expect(scanAccuracyPercent({ accuracy: 0, isCalibrated: true })).toBe(MIN_SCAN_ACCURACY_PERCENT);
+    });
+
+    it('falls back to the uncalibrated spread', () => {
+        expect(scanAccuracyPercent({ accuracy: 2, isCalibrated: false })).toBe(UNCALIBRATED_SCAN_ACCURACY_PERCENT);
+    });
+});
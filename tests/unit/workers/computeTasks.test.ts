@@ -0,0 +1,108 @@
+/**
+ * Compute Worker Task Tests
+ */
+import * as inference from '../../../src/ml/pinnInference';
+import { runComputeTask } from '../../../src/workers/computeTasks';
+import { computePeakRunoff } from '../../../src/utils/hydrology';
+import { CoordinateTransform, ElevationGrid, GeoPolygon, createElevationSample } from '../../../src/lib/spatial-coverage';
+import {
+    createFlowRoutingService,
+    createPondingService,
+    createSubCatchmentService,
+    createTerrainRaster,
+    rasterizeElevationGrid
+} from '../../../src/lib/hydrology-engine';
+import { CoverageAnalyzer } from '../../../src/lib/spatial-coverage/domain/services/CoverageAnalyzer';
+import { Boundary } from '../../../src/lib/spatial-coverage/domain/valueObjects/Boundary';
+import { Voxel } from '../../../src/lib/spatial-coverage/domain/valueObjects/Voxel';
+
+const square = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+
+/** Ridge along column 2 draining to outlets in the corners of row 0 */
+const ridge = createFlowRoutingService().route(createTerrainRaster(
+    Array.from({ length: 5 }, (_, r) => Array.from({ length: 5 }, (_, c) => 1 - 0.2 * Math.abs(c - 2) + 0.05 * r)),
+    1
+));
+const origin = { lat: 52.52, lon: 13.405 };
+
+const outOfRange = [{ input: 'rainfall' as const, value: 180, min: 10, max: 100 }];
+
+describe('runComputeTask', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    it('estimates runoff with the rational fallback while no PINN is loaded', async () => {
+        const estimate = await runComputeTask('runoff', { rainfall_mm_hr: 50, area_m2: 100 });
+
+        expect(estimate).toEqual({ peakRunoff: computePeakRunoff(50, 100), isPINNPrediction: false, modelVersion: null, warnings: [] });
+    });
+
+    it('warns of the inputs a PINN estimate extrapolated', async () => {
+        jest.spyOn(inference, 'getRobustRunoffEstimate').mockResolvedValue({ discharge: 40, isPINNPrediction: true, modelVersion: '1.0.0' });
+        jest.spyOn(inference, 'robustPredictionExtrapolation').mockReturnValue(outOfRange);
+
+        const estimate = await runComputeTask('runoff', { rainfall_mm_hr: 180, area_m2: 100 });
+
+        expect(estimate.warnings).toEqual(['Rainfall intensity 180 mm/hr is outside the trained range 10–100 mm/hr']);
+    });
+
+    it('drops the extrapolation warnings once the rational method stands in', async () => {
+        jest.spyOn(inference, 'robustPredictionExtrapolation').mockReturnValue(outOfRange);
+
+        const estimate = await runComputeTask('runoff', { rainfall_mm_hr: 180, area_m2: 100 });
+
+        expect(estimate).toEqual({ peakRunoff: computePeakRunoff(180, 100), isPINNPrediction: false, modelVersion: null, warnings: [] });
+    });
+
+    it('finds coverage gaps from plain voxel coordinates and boundary points', async () => {
+        const covered = [{ gridX: 0, gridY: 0 }, { gridX: 1, gridY: 0 }];
+
+        const gaps = await runComputeTask('coverageGaps', { covered, boundary: square, voxelSize: 0.5 });
+
+        const voxels = covered.map(v => new Voxel(v.gridX, v.gridY, 0.5));
+        expect(gaps).toEqual(CoverageAnalyzer.findGaps(voxels, new Boundary(square), 0.5));
+        expect(gaps.length).toBeLessThan(CoverageAnalyzer.findGaps([], new Boundary(square), 0.5).length);
+    });
+});
+
+describe('runComputeTask terrain', () => {
+    it('routes the samples of an elevation grid like the grid itself', async () => {
+        const grid = new ElevationGrid();
+        [[0, 0, 0.5], [4, 0, 0.3], [0, 4, 0.3], [4, 4, 0]].forEach(([x, y, elevation]) =>
+            grid.addSample(createElevationSample({ x, y, elevation, accuracy: 0.1, source: 'lidar' })));
+
+        const flow = await runComputeTask('flowRouting', { samples: grid.getSamples() });
+
+        expect(flow).toEqual(createFlowRoutingService().route(rasterizeElevationGrid(grid)!));
+        await expect(runComputeTask('flowRouting', { samples: [] })).resolves.toBeNull();
+    });
+
+    it('ponds the design storm on the routed terrain', async () => {
+        const input = { flow: ridge, rainfall_mm: 30, runoffCoefficient: 0.5 };
+
+        await expect(runComputeTask('ponding', input)).resolves.toEqual(createPondingService().simulate(input));
+    });
+
+    it('delineates the sub-catchments of the placed inlets', async () => {
+        const outlets = [{ x: 1, y: 2 }];
+
+        const subCatchments = await runComputeTask('subCatchments', { flow: ridge, outlets, origin, boundary: null });
+
+        expect(subCatchments).toEqual(createSubCatchmentService().delineate({ flow: ridge, outlets }).subCatchments);
+    });
+
+    it('counts only the cells inside the boundary vertices', async () => {
+        // The western half of the ridge, columns 0 to 2
+        const boundary = [[-0.5, -0.5], [2.5, -0.5], [2.5, 4.5], [-0.5, 4.5]]
+            .map(([x, y]) => CoordinateTransform.localMetersToLatLon(origin, { x, y }));
+        const polygon = GeoPolygon.create(boundary);
+        const inside = (x: number, y: number) => {
+            const { lat, lon } = CoordinateTransform.localMetersToLatLon(origin, { x, y });
+            return polygon.contains(lat, lon);
+        };
+
+        const subCatchments = await runComputeTask('subCatchments', { flow: ridge, outlets: [], origin, boundary });
+
+        expect(subCatchments).toEqual(createSubCatchmentService().delineate({ flow: ridge, inside }).subCatchments);
+        expect(subCatchments.reduce((sum, c) => sum + c.area_m2, 0)).toBeLessThan(25);
+    });
+});